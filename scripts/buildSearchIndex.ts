@@ -0,0 +1,78 @@
+/**
+ * Rebuilds the search index (the searchTokens field) on every submission.
+ * New and edited submissions keep their own tokens up to date; run this once
+ * for submissions created before the index existed, or after changing how
+ * tokens are built in src/utils/searchIndex.ts.
+ *
+ *   npm run search-index
+ *
+ * To run against the local emulator:
+ *   firebase emulators:exec --only firestore "npm run search-index"
+ * Against the real project, set GOOGLE_APPLICATION_CREDENTIALS to a service
+ * account key.
+ */
+import { initializeApp } from 'firebase-admin/app';
+import { getFirestore, FieldPath, QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { buildSubmissionSearchTokens } from '../src/utils/searchIndex';
+
+const PROJECT_ID = process.env.GCLOUD_PROJECT || 'cifan-c41c6';
+
+const SUBMISSIONS_COLLECTION = 'submissions';
+
+// Well under Firestore's 500 writes per batch
+const PAGE_SIZE = 200;
+
+initializeApp({ projectId: PROJECT_ID });
+const db = getFirestore();
+
+const sameTokens = (current: unknown, next: string[]): boolean =>
+  Array.isArray(current) &&
+  current.length === next.length &&
+  current.every((token, index) => token === next[index]);
+
+const main = async (): Promise<void> => {
+  console.log(`Rebuilding submission search index for project ${PROJECT_ID}`);
+
+  let scanned = 0;
+  let updated = 0;
+  let lastDoc: QueryDocumentSnapshot | undefined;
+
+  for (;;) {
+    let q = db.collection(SUBMISSIONS_COLLECTION).orderBy(FieldPath.documentId()).limit(PAGE_SIZE);
+    if (lastDoc) {
+      q = q.startAfter(lastDoc);
+    }
+
+    const snapshot = await q.get();
+    if (snapshot.empty) break;
+
+    const batch = db.batch();
+    let batchSize = 0;
+
+    snapshot.docs.forEach(docSnap => {
+      const data = docSnap.data();
+      const tokens = buildSubmissionSearchTokens(data);
+      // Leave lastModified alone; indexing is not an edit
+      if (!sameTokens(data.searchTokens, tokens)) {
+        batch.update(docSnap.ref, { searchTokens: tokens });
+        batchSize++;
+      }
+    });
+
+    if (batchSize > 0) {
+      await batch.commit();
+    }
+
+    scanned += snapshot.size;
+    updated += batchSize;
+    lastDoc = snapshot.docs[snapshot.docs.length - 1];
+    console.log(`Indexed ${scanned} submissions (${updated} updated)`);
+  }
+
+  console.log(`Done: ${updated} of ${scanned} submissions updated`);
+};
+
+main().catch((error) => {
+  console.error('Search index rebuild failed:', error);
+  process.exit(1);
+});
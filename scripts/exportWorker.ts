@@ -0,0 +1,419 @@
+/**
+ * Background export worker. Picks up queued export jobs from Firestore,
+ * builds the spreadsheet or ZIP bundle over every matching submission,
+ * uploads it to Storage and records progress on the job as it goes.
+ *
+ *   npm run export-worker              keep polling for due jobs
+ *   npm run export-worker -- --once    process due jobs and exit
+ *
+ * To run against the local emulators:
+ *   firebase emulators:exec --only firestore,storage "npm run export-worker"
+ * which sets FIRESTORE_EMULATOR_HOST and FIREBASE_STORAGE_EMULATOR_HOST.
+ * Against the real project, set GOOGLE_APPLICATION_CREDENTIALS to a service
+ * account key.
+ */
+import { once } from 'events';
+import { hostname } from 'os';
+import { initializeApp } from 'firebase-admin/app';
+import { getFirestore, FieldValue, DocumentData, DocumentReference } from 'firebase-admin/firestore';
+import { getStorage } from 'firebase-admin/storage';
+import { Zip, ZipPassThrough } from 'fflate';
+import { ExportJob } from '../src/types/admin.types';
+import {
+  APPLICATION_EXPORT_COLUMNS,
+  ApplicationExportRow,
+  buildExportTable,
+  getDefaultExportColumns,
+  resolveExportColumns
+} from '../src/utils/exportColumns';
+import {
+  buildApplicationSheets,
+  buildCsv,
+  filterExportApplications,
+  ScoringCommentSource,
+  toAdminApplicationCard,
+  toSubmissionExportDetails
+} from '../src/utils/submissionExport';
+import {
+  EXPORT_JOBS_COLLECTION,
+  EXPORT_JOB_MIME_TYPES,
+  getBundleFolderName,
+  getExportJobFileName,
+  getExportJobFilePath,
+  getFileExtension,
+  toExportJob
+} from '../src/utils/exportJobs';
+import { normalizeStoredScores } from '../src/utils/scoringRubrics';
+import { buildXlsxWorkbook } from '../src/utils/xlsxWriter';
+
+const PROJECT_ID = process.env.GCLOUD_PROJECT || 'cifan-c41c6';
+const STORAGE_BUCKET = process.env.FIREBASE_STORAGE_BUCKET || 'cifan-c41c6.firebasestorage.app';
+const POLL_INTERVAL_MS = 30 * 1000;
+const WORKER_ID = `${hostname()}:${process.pid}`;
+
+const SUBMISSIONS_COLLECTION = 'submissions';
+
+// Progress is split between reading submissions and (for bundles) copying files
+const LOADING_PROGRESS_SHARE = 40;
+const BUNDLE_PROGRESS_SHARE = 55;
+
+// Running jobs report progress at least once per submission; a job silent for
+// this long belongs to a worker that stopped
+const STALE_PROCESSING_MS = 30 * 60 * 1000;
+
+initializeApp({ projectId: PROJECT_ID, storageBucket: STORAGE_BUCKET });
+const db = getFirestore();
+const bucket = getStorage().bucket();
+
+interface SubmissionFileRef {
+  storagePath?: string;
+  downloadURL?: string;
+  url?: string;
+  fileName?: string;
+  name?: string;
+}
+
+interface LoadedSubmission {
+  row: ApplicationExportRow;
+  files: {
+    poster?: SubmissionFileRef;
+    proof?: SubmissionFileRef;
+  };
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const updateJob = (jobRef: DocumentReference, updates: DocumentData) =>
+  jobRef.update({ ...updates, updatedAt: FieldValue.serverTimestamp() });
+
+/**
+ * Marks a queued job as processing, unless another worker (or a cancel)
+ * got there first
+ */
+const claimJob = (jobRef: DocumentReference): Promise<ExportJob | null> =>
+  db.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(jobRef);
+    const data = snapshot.data();
+    if (!data || data.status !== 'queued') return null;
+
+    transaction.update(jobRef, {
+      status: 'processing',
+      progress: 0,
+      message: 'Starting export...',
+      workerId: WORKER_ID,
+      startedAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp()
+    });
+    return toExportJob(snapshot.id, data);
+  });
+
+/**
+ * Scoring comments for a submission, newest first
+ */
+const loadScoringComments = async (submissionId: string): Promise<ScoringCommentSource[]> => {
+  const snapshot = await db
+    .collection(SUBMISSIONS_COLLECTION).doc(submissionId)
+    .collection('ShortFilmComments')
+    .where('type', '==', 'scoring')
+    .get();
+
+  return snapshot.docs
+    .map(docSnap => {
+      const data = docSnap.data();
+      return {
+        adminId: data.adminId,
+        adminName: data.adminName,
+        content: data.content || '',
+        type: data.type,
+        scores: normalizeStoredScores(data.scores),
+        createdAt: data.createdAt?.toDate() || new Date(),
+        isDeleted: data.isDeleted || false
+      };
+    })
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+};
+
+/**
+ * Every submission matching the job's filters, with the details its export
+ * needs. Reads straight from Firestore, so nothing depends on what an admin
+ * had loaded in the gallery.
+ */
+const loadSubmissions = async (job: ExportJob, jobRef: DocumentReference): Promise<LoadedSubmission[]> => {
+  const snapshot = await db.collection(SUBMISSIONS_COLLECTION).get();
+  const dataById = new Map(snapshot.docs.map(docSnap => [docSnap.id, docSnap.data()]));
+
+  const applications = filterExportApplications(
+    snapshot.docs.map(docSnap => toAdminApplicationCard(docSnap.id, docSnap.data())),
+    job
+  );
+
+  const loaded: LoadedSubmission[] = [];
+  for (const [index, application] of applications.entries()) {
+    const data = dataById.get(application.id) || {};
+    const comments = job.includeScores ? await loadScoringComments(application.id) : [];
+
+    loaded.push({
+      row: { application, details: toSubmissionExportDetails(application.id, data, comments) },
+      files: {
+        poster: data.files?.posterFile,
+        proof: data.files?.proofFile
+      }
+    });
+
+    if (index % 25 === 0) {
+      await updateJob(jobRef, {
+        progress: Math.round((index / applications.length) * LOADING_PROGRESS_SHARE),
+        message: `Reading submissions (${index}/${applications.length})...`,
+        processed: index,
+        total: applications.length
+      });
+    }
+  }
+
+  return loaded;
+};
+
+/**
+ * Scores are needed when included explicitly or when a chosen column reads them
+ */
+const needsScores = (job: ExportJob): boolean =>
+  job.includeScores || resolveExportColumns(APPLICATION_EXPORT_COLUMNS, job.columns)
+    .some(column => column.requires === 'scores');
+
+const buildSpreadsheet = (job: ExportJob, rows: ApplicationExportRow[], format: 'csv' | 'excel'): Uint8Array => {
+  const columns = resolveExportColumns(
+    APPLICATION_EXPORT_COLUMNS,
+    job.columns.length > 0 ? job.columns : getDefaultExportColumns('applications')
+  );
+
+  if (format === 'csv') {
+    return Buffer.from(buildCsv(buildExportTable(columns, rows)), 'utf-8');
+  }
+  return buildXlsxWorkbook(buildApplicationSheets(rows, columns, job));
+};
+
+const downloadSubmissionFile = async (file: SubmissionFileRef): Promise<Uint8Array> => {
+  if (file.storagePath) {
+    const [contents] = await bucket.file(file.storagePath).download();
+    return contents;
+  }
+
+  const url = file.downloadURL || file.url;
+  if (!url) {
+    throw new Error('File has no storage path or URL');
+  }
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Download failed with status ${response.status}`);
+  }
+  return new Uint8Array(await response.arrayBuffer());
+};
+
+/**
+ * Streams a ZIP archive straight into Storage so large bundles never sit in
+ * memory all at once. Entries are stored uncompressed: posters and proof
+ * documents are already compressed formats. Each add waits for the upload
+ * to drain before the next file is downloaded.
+ */
+const uploadZip = async (
+  filePath: string,
+  addEntries: (add: (name: string, data: Uint8Array) => Promise<void>) => Promise<void>
+): Promise<void> => {
+  const output = bucket.file(filePath).createWriteStream({
+    resumable: false,
+    contentType: EXPORT_JOB_MIME_TYPES.zip
+  });
+  const finished = new Promise<void>((resolve, reject) => {
+    output.on('finish', () => resolve());
+    output.on('error', reject);
+  });
+  // Upload errors surface through add() or the await below; never leave this unhandled
+  finished.catch(() => undefined);
+
+  const zip = new Zip((error, chunk, final) => {
+    if (error) {
+      output.destroy(error);
+      return;
+    }
+    output.write(chunk);
+    if (final) output.end();
+  });
+
+  try {
+    await addEntries(async (name, data) => {
+      if (output.destroyed) {
+        throw output.errored || new Error('Upload stream closed');
+      }
+      const entry = new ZipPassThrough(name);
+      zip.add(entry);
+      entry.push(data, true);
+      if (output.writableNeedDrain) {
+        await once(output, 'drain');
+      }
+    });
+    zip.end();
+  } catch (error) {
+    zip.terminate();
+    output.destroy(error instanceof Error ? error : new Error(String(error)));
+    throw error;
+  }
+
+  await finished;
+};
+
+const writeBundle = async (
+  job: ExportJob,
+  jobRef: DocumentReference,
+  submissions: LoadedSubmission[],
+  filePath: string
+): Promise<void> => {
+  const missing: string[] = [];
+
+  await uploadZip(filePath, async (add) => {
+    await add('applications.xlsx', buildSpreadsheet(job, submissions.map(submission => submission.row), 'excel'));
+
+    for (const [index, submission] of submissions.entries()) {
+      const { application } = submission.row;
+      const folder = getBundleFolderName(application);
+
+      for (const [label, file] of Object.entries(submission.files)) {
+        if (!file) continue;
+        const extension = getFileExtension(file.fileName || file.name, file.downloadURL || file.url);
+        let contents: Uint8Array;
+        try {
+          contents = await downloadSubmissionFile(file);
+        } catch (error) {
+          // One unreadable file should not sink the whole bundle
+          missing.push(`${folder}/${label}: ${error instanceof Error ? error.message : String(error)}`);
+          continue;
+        }
+        await add(`${folder}/${label}.${extension}`, contents);
+      }
+
+      await updateJob(jobRef, {
+        progress: LOADING_PROGRESS_SHARE + Math.round(((index + 1) / submissions.length) * BUNDLE_PROGRESS_SHARE),
+        message: `Adding files (${index + 1}/${submissions.length})...`,
+        processed: index + 1,
+        total: submissions.length
+      });
+    }
+
+    if (missing.length > 0) {
+      await add('missing-files.txt', Buffer.from(missing.join('\n'), 'utf-8'));
+    }
+  });
+};
+
+const runJob = async (jobId: string): Promise<void> => {
+  const jobRef = db.collection(EXPORT_JOBS_COLLECTION).doc(jobId);
+  const job = await claimJob(jobRef);
+  if (!job) return;
+
+  console.log(`Processing export job ${job.id} (${job.format})`);
+
+  try {
+    const submissions = await loadSubmissions({ ...job, includeScores: needsScores(job) }, jobRef);
+    const fileName = getExportJobFileName(job);
+    const filePath = getExportJobFilePath(job.id, fileName);
+
+    if (job.format === 'zip') {
+      await writeBundle(job, jobRef, submissions, filePath);
+    } else {
+      await updateJob(jobRef, { progress: 90, message: 'Writing file...' });
+      const contents = buildSpreadsheet(job, submissions.map(submission => submission.row), job.format);
+      await bucket.file(filePath).save(Buffer.from(contents), {
+        resumable: false,
+        contentType: EXPORT_JOB_MIME_TYPES[job.format]
+      });
+    }
+
+    const [metadata] = await bucket.file(filePath).getMetadata();
+    await updateJob(jobRef, {
+      status: 'complete',
+      progress: 100,
+      message: `Exported ${submissions.length} applications`,
+      processed: submissions.length,
+      total: submissions.length,
+      filePath,
+      fileName,
+      fileSize: Number(metadata.size) || 0,
+      completedAt: FieldValue.serverTimestamp()
+    });
+    console.log(`Export job ${job.id} complete: ${filePath}`);
+  } catch (error) {
+    console.error(`Export job ${job.id} failed:`, error);
+    await updateJob(jobRef, {
+      status: 'failed',
+      message: 'Export failed',
+      error: error instanceof Error ? error.message : String(error),
+      completedAt: FieldValue.serverTimestamp()
+    });
+  }
+};
+
+/**
+ * Jobs stuck in `processing` belong to a worker that stopped mid-export. Mark
+ * them failed so the admin who queued them can see it and queue a new one.
+ */
+const failInterruptedJobs = async (): Promise<void> => {
+  const cutoff = Date.now() - STALE_PROCESSING_MS;
+  const snapshot = await db.collection(EXPORT_JOBS_COLLECTION).where('status', '==', 'processing').get();
+  const interrupted = snapshot.docs.filter(docSnap => {
+    const data = docSnap.data();
+    const lastActive = (data.updatedAt || data.startedAt)?.toDate();
+    return !lastActive || lastActive.getTime() < cutoff;
+  });
+
+  await Promise.all(interrupted.map(docSnap => updateJob(docSnap.ref, {
+    status: 'failed',
+    message: 'Export failed',
+    error: 'Worker stopped before the export finished',
+    completedAt: FieldValue.serverTimestamp()
+  })));
+
+  if (interrupted.length > 0) {
+    console.log(`Marked ${interrupted.length} interrupted export jobs as failed`);
+  }
+};
+
+/**
+ * Runs every queued job whose scheduled time has passed, oldest first
+ */
+const processDueJobs = async (): Promise<void> => {
+  const snapshot = await db.collection(EXPORT_JOBS_COLLECTION).where('status', '==', 'queued').get();
+  const now = new Date();
+  const dueJobs = snapshot.docs
+    .map(docSnap => toExportJob(docSnap.id, docSnap.data()))
+    .filter(job => job.scheduledFor <= now)
+    .sort((a, b) => a.scheduledFor.getTime() - b.scheduledFor.getTime());
+
+  for (const job of dueJobs) {
+    await runJob(job.id);
+  }
+};
+
+const main = async (): Promise<void> => {
+  const once = process.argv.includes('--once');
+  console.log(`Export worker ${WORKER_ID} started for project ${PROJECT_ID}`);
+
+  let running = true;
+  while (running) {
+    try {
+      await failInterruptedJobs();
+      await processDueJobs();
+    } catch (error) {
+      console.error('Error polling export jobs:', error);
+    }
+
+    if (once) {
+      running = false;
+    } else {
+      await sleep(POLL_INTERVAL_MS);
+    }
+  }
+};
+
+main().catch((error) => {
+  console.error('Export worker stopped:', error);
+  process.exit(1);
+});
@@ -0,0 +1,73 @@
+/**
+ * Rewrites the blind review copy (blindReviews/{submissionId}) of every
+ * submission that has jurors assigned. Copies are refreshed whenever jurors
+ * are assigned or removed; run this once for assignments made before the
+ * copies existed, or to pick up later edits and status changes.
+ *
+ *   npm run blind-reviews
+ *
+ * To run against the local emulator:
+ *   firebase emulators:exec --only firestore "npm run blind-reviews"
+ * Against the real project, set GOOGLE_APPLICATION_CREDENTIALS to a service
+ * account key.
+ */
+import { initializeApp } from 'firebase-admin/app';
+import { getFirestore, FieldPath, QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { toBlindReviewCopy } from '../src/utils/juryAssignment';
+
+const PROJECT_ID = process.env.GCLOUD_PROJECT || 'cifan-c41c6';
+
+const SUBMISSIONS_COLLECTION = 'submissions';
+const BLIND_REVIEWS_COLLECTION = 'blindReviews';
+
+// Well under Firestore's 500 writes per batch
+const PAGE_SIZE = 200;
+
+initializeApp({ projectId: PROJECT_ID });
+const db = getFirestore();
+
+const main = async (): Promise<void> => {
+  console.log(`Syncing blind review copies for project ${PROJECT_ID}`);
+
+  let scanned = 0;
+  let written = 0;
+  let lastDoc: QueryDocumentSnapshot | undefined;
+
+  for (;;) {
+    let q = db.collection(SUBMISSIONS_COLLECTION).orderBy(FieldPath.documentId()).limit(PAGE_SIZE);
+    if (lastDoc) {
+      q = q.startAfter(lastDoc);
+    }
+
+    const snapshot = await q.get();
+    if (snapshot.empty) break;
+
+    const batch = db.batch();
+    let batchSize = 0;
+
+    snapshot.docs.forEach(docSnap => {
+      const data = docSnap.data();
+      const assignedReviewers: string[] = data.assignedReviewers || [];
+      if (assignedReviewers.length > 0) {
+        batch.set(db.collection(BLIND_REVIEWS_COLLECTION).doc(docSnap.id), toBlindReviewCopy(data, assignedReviewers));
+        batchSize++;
+      }
+    });
+
+    if (batchSize > 0) {
+      await batch.commit();
+    }
+
+    scanned += snapshot.size;
+    written += batchSize;
+    lastDoc = snapshot.docs[snapshot.docs.length - 1];
+    console.log(`Scanned ${scanned} submissions (${written} copies written)`);
+  }
+
+  console.log(`Done: ${written} blind review copies written from ${scanned} submissions`);
+};
+
+main().catch((error) => {
+  console.error('Blind review sync failed:', error);
+  process.exit(1);
+});
@@ -27,6 +27,7 @@ import ImprovedVerificationPage from './components/auth/ImprovedVerificationPage
 import ProfileSetupPage from './components/pages/ProfileSetupPage';
 import ProfileEditPage from './components/pages/ProfileEditPage';
 import MyApplicationsPage from './components/pages/MyApplicationsPage';
+import MyTicketsPage from './components/pages/MyTicketsPage';
 import ApplicationDetailPage from './components/pages/ApplicationDetailPage';
 import ApplicationEditPage from './components/pages/ApplicationEditPage';
 import ComingSoonPage from './components/pages/ComingSoonPage';
@@ -35,6 +36,12 @@ import AdminGalleryPage from './components/pages/AdminGalleryPage';
 import AdminProfilePage from './components/pages/AdminProfilePage';
 import AdminApplicationDetailPage from './components/pages/AdminApplicationDetailPage';
 import PartnerManagementPage from './components/pages/PartnerManagementPage';
+import JuryAssignmentPage from './components/pages/JuryAssignmentPage';
+import JuryQueuePage from './components/pages/JuryQueuePage';
+import LeaderboardPage from './components/pages/LeaderboardPage';
+import DecisionRoundsPage from './components/pages/DecisionRoundsPage';
+import ExportsPage from './components/pages/ExportsPage';
+import AuditLogPage from './components/pages/AuditLogPage';
 import RoleManagement from './components/admin/RoleManagement';
 import ActivitiesRouter from './components/admin/ActivitiesRouter';
 import SubmissionsRouter from './components/admin/SubmissionsRouter';
@@ -43,6 +50,7 @@ import TermsConditionsPage from './components/pages/TermsConditionsPage';
 import PrivacyPolicyPage from './components/pages/PrivacyPolicyPage';
 import ActivityDetailPage from './components/pages/ActivityDetailPage';
 import PublicActivitiesPage from './components/pages/PublicActivitiesPage';
+import FestivalSchedulePage from './components/pages/FestivalSchedulePage';
 import ProtectedRoute from './components/auth/ProtectedRoute';
 import NotificationTest from './components/debug/NotificationTest';
 
@@ -119,6 +127,14 @@ function App() {
             </UserZoneLayout>
           </ProtectedRoute>
         );
+      case 'my-tickets':
+        return (
+          <ProtectedRoute requireEmailVerification={true} requireProfileComplete={true}>
+            <UserZoneLayout currentPage="my-tickets">
+              <MyTicketsPage />
+            </UserZoneLayout>
+          </ProtectedRoute>
+        );
       case 'application-edit':
         return (
           <ProtectedRoute requireEmailVerification={true} requireProfileComplete={true}>
@@ -135,6 +151,8 @@ function App() {
         return <ComingSoonPage />;
       case 'activities':
         return <PublicActivitiesPage />;
+      case 'schedule':
+        return <FestivalSchedulePage />;
       case 'admin/dashboard':
         return (
           <ProtectedRoute requireEmailVerification={true} requireProfileComplete={false}>
@@ -155,6 +173,56 @@ function App() {
             </AdminProtectedRoute>
           </ProtectedRoute>
         );
+      case 'admin/jury-assignments':
+        return (
+          <ProtectedRoute requireEmailVerification={true} requireProfileComplete={false}>
+            <AdminProtectedRoute requiredPermission="canEditApplications">
+              <AdminZoneLayout currentPage="admin/jury-assignments">
+                <JuryAssignmentPage />
+              </AdminZoneLayout>
+            </AdminProtectedRoute>
+          </ProtectedRoute>
+        );
+      case 'admin/leaderboard':
+        return (
+          <ProtectedRoute requireEmailVerification={true} requireProfileComplete={false}>
+            <AdminProtectedRoute requiredPermission="canGenerateReports">
+              <AdminZoneLayout currentPage="admin/leaderboard">
+                <LeaderboardPage />
+              </AdminZoneLayout>
+            </AdminProtectedRoute>
+          </ProtectedRoute>
+        );
+      case 'admin/decisions':
+        return (
+          <ProtectedRoute requireEmailVerification={true} requireProfileComplete={false}>
+            <AdminProtectedRoute requiredPermission="canApproveApplications">
+              <AdminZoneLayout currentPage="admin/decisions">
+                <DecisionRoundsPage />
+              </AdminZoneLayout>
+            </AdminProtectedRoute>
+          </ProtectedRoute>
+        );
+      case 'admin/exports':
+        return (
+          <ProtectedRoute requireEmailVerification={true} requireProfileComplete={false}>
+            <AdminProtectedRoute requiredPermission="canExportData">
+              <AdminZoneLayout currentPage="admin/exports">
+                <ExportsPage />
+              </AdminZoneLayout>
+            </AdminProtectedRoute>
+          </ProtectedRoute>
+        );
+      case 'admin/jury-queue':
+        return (
+          <ProtectedRoute requireEmailVerification={true} requireProfileComplete={false}>
+            <AdminProtectedRoute allowJury={true}>
+              <AdminZoneLayout currentPage="admin/jury-queue">
+                <JuryQueuePage />
+              </AdminZoneLayout>
+            </AdminProtectedRoute>
+          </ProtectedRoute>
+        );
       case 'admin/profile':
         return (
           <ProtectedRoute requireEmailVerification={true} requireProfileComplete={false}>
@@ -175,6 +243,16 @@ function App() {
             </AdminProtectedRoute>
           </ProtectedRoute>
         );
+      case 'admin/audit-log':
+        return (
+          <ProtectedRoute requireEmailVerification={true} requireProfileComplete={false}>
+            <AdminProtectedRoute requiredPermission="canAccessSystemSettings">
+              <AdminZoneLayout currentPage="admin/audit-log">
+                <AuditLogPage />
+              </AdminZoneLayout>
+            </AdminProtectedRoute>
+          </ProtectedRoute>
+        );
       case 'admin/partners':
         return (
           <ProtectedRoute requireEmailVerification={true} requireProfileComplete={false}>
@@ -260,7 +338,7 @@ function App() {
           const applicationId = currentPage.replace('admin/application/', '');
           return (
             <ProtectedRoute requireEmailVerification={true} requireProfileComplete={false}>
-              <AdminProtectedRoute>
+              <AdminProtectedRoute allowJury={true}>
                 <AdminZoneLayout currentPage="admin/application">
                   <AdminApplicationDetailPage applicationId={applicationId} />
                 </AdminZoneLayout>
@@ -273,7 +351,7 @@ function App() {
           const applicationId = currentPage.replace('admin/application-detail/', '');
           return (
             <ProtectedRoute requireEmailVerification={true} requireProfileComplete={false}>
-              <AdminProtectedRoute>
+              <AdminProtectedRoute allowJury={true}>
                 <AdminZoneLayout currentPage="admin/application-detail">
                   <AdminApplicationDetailPage applicationId={applicationId} />
                 </AdminZoneLayout>
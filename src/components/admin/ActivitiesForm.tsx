@@ -5,6 +5,7 @@ import { useAuth } from '../auth/AuthContext';
 import { 
   Activity, 
   ActivityFormData, 
+  ActivitySession,
   ActivityValidationErrors,
   DEFAULT_ACTIVITY_TAGS,
   ACTIVITY_STATUS_OPTIONS,
@@ -33,6 +34,7 @@ import {
 import AnimatedButton from '../ui/AnimatedButton';
 import ErrorMessage from '../forms/ErrorMessage';
 import RichTextEditor from '../ui/RichTextEditor';
+import { createSession, getSessionErrors, SessionError } from '../../utils/activitySessions';
 
 interface ActivitiesFormProps {
   activity?: Activity | null;
@@ -74,6 +76,7 @@ const ActivitiesForm: React.FC<ActivitiesFormProps> = ({
     registrationDeadline: '',
     venueName: '',
     venueLocation: '',
+    sessions: [],
     description: '',
     organizers: [],
     tags: [],
@@ -86,6 +89,7 @@ const ActivitiesForm: React.FC<ActivitiesFormProps> = ({
   const [newOrganizer, setNewOrganizer] = useState('');
   const [customTag, setCustomTag] = useState('');
   const [internalErrors, setInternalErrors] = useState<ActivityValidationErrors>({});
+  const [sessionErrors, setSessionErrors] = useState<Record<string, SessionError>>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   // Combine external and internal errors
@@ -126,6 +130,21 @@ const ActivitiesForm: React.FC<ActivitiesFormProps> = ({
       registrationDeadline: 'วันหมดเขตรับสมัคร',
       venueName: 'ชื่อสถานที่',
       venueLocation: 'พิกัดสถานที่ (Google Maps)',
+      multiSession: 'รูปแบบกำหนดการ',
+      singleSchedule: 'ช่วงเวลาเดียว',
+      multipleSessions: 'หลายรอบ (ซีรีส์)',
+      sessions: 'รอบกิจกรรม',
+      session: 'รอบที่',
+      sessionTitle: 'ชื่อรอบ (ไม่บังคับ)',
+      sessionDate: 'วันที่',
+      sessionVenue: 'สถานที่ (เว้นว่างหากใช้สถานที่หลัก)',
+      sessionCapacity: 'จำนวนที่นั่ง (0 = ตามกิจกรรม)',
+      addSession: 'เพิ่มรอบ',
+      removeSession: 'ลบรอบ',
+      sessionsHint: 'ผู้ลงทะเบียนจะเข้าร่วมทุกรอบ รอบที่มีที่นั่งน้อยที่สุดจะกำหนดจำนวนรับสูงสุด',
+      sessionIncomplete: 'กรุณากรอกวันที่และเวลาให้ครบ',
+      sessionInvalidTime: 'เวลาสิ้นสุดต้องหลังเวลาเริ่ม',
+      sessionInvalidCapacity: 'จำนวนที่นั่งต้องไม่ติดลบ',
 
       // Detail fields
       description: 'รายละเอียดงาน',
@@ -211,6 +230,21 @@ const ActivitiesForm: React.FC<ActivitiesFormProps> = ({
       registrationDeadline: 'Registration Deadline',
       venueName: 'Venue Name',
       venueLocation: 'Venue Location (Google Maps)',
+      multiSession: 'Schedule Type',
+      singleSchedule: 'Single time block',
+      multipleSessions: 'Multiple sessions (series)',
+      sessions: 'Sessions',
+      session: 'Session',
+      sessionTitle: 'Session title (optional)',
+      sessionDate: 'Date',
+      sessionVenue: 'Venue (leave blank for main venue)',
+      sessionCapacity: 'Seats (0 = activity limit)',
+      addSession: 'Add Session',
+      removeSession: 'Remove session',
+      sessionsHint: 'Registrants attend every session; the smallest session capacity limits registration',
+      sessionIncomplete: 'Please enter a date, start and end time',
+      sessionInvalidTime: 'End time must be after start time',
+      sessionInvalidCapacity: 'Seats cannot be negative',
 
       // Detail fields
       description: 'Description',
@@ -286,6 +320,7 @@ const ActivitiesForm: React.FC<ActivitiesFormProps> = ({
         registrationDeadline: activity.registrationDeadline,
         venueName: activity.venueName,
         venueLocation: activity.venueLocation || '',
+        sessions: (activity.sessions || []).map(session => ({ ...session })),
         description: activity.description,
         organizers: [...activity.organizers],
         tags: [...activity.tags],
@@ -326,13 +361,15 @@ const ActivitiesForm: React.FC<ActivitiesFormProps> = ({
       newErrors.description = `Minimum ${ACTIVITY_VALIDATION_RULES.description.minLength} characters required`;
     }
 
-    // Date validation
-    if (!formData.eventDate) {
+    const isMultiSession = formData.sessions.length > 0;
+
+    // Date validation (multi-session activities take their dates from the sessions)
+    if (!isMultiSession && !formData.eventDate) {
       newErrors.eventDate = currentContent.required;
     }
 
     // End date validation for multi-day activities
-    if (!formData.isOneDayActivity) {
+    if (!isMultiSession && !formData.isOneDayActivity) {
       if (!formData.eventEndDate) {
         newErrors.eventEndDate = currentContent.required;
       } else if (formData.eventDate && formData.eventEndDate < formData.eventDate) {
@@ -345,14 +382,21 @@ const ActivitiesForm: React.FC<ActivitiesFormProps> = ({
     }
 
     // Time validation
-    if (!formData.startTime) {
+    if (!isMultiSession && !formData.startTime) {
       newErrors.startTime = currentContent.required;
     }
 
-    if (!formData.endTime) {
+    if (!isMultiSession && !formData.endTime) {
       newErrors.endTime = currentContent.required;
     }
 
+    // Session validation
+    const newSessionErrors = getSessionErrors(formData.sessions);
+    setSessionErrors(newSessionErrors);
+    if (Object.keys(newSessionErrors).length > 0) {
+      newErrors.sessions = currentContent.sessionIncomplete;
+    }
+
     // Venue validation
     if (!formData.venueName.trim()) {
       newErrors.venueName = currentContent.required;
@@ -453,6 +497,63 @@ const ActivitiesForm: React.FC<ActivitiesFormProps> = ({
     }
   };
 
+  // Switch between a single time block and a series of sessions
+  const toggleMultiSession = () => {
+    setFormData(prev => ({
+      ...prev,
+      sessions: prev.sessions.length > 0
+        ? []
+        : [createSession({ date: prev.eventDate, startTime: prev.startTime, endTime: prev.endTime })]
+    }));
+    setSessionErrors({});
+  };
+
+  // Add a session, copying times from the previous one
+  const addSession = () => {
+    setFormData(prev => {
+      const last = prev.sessions[prev.sessions.length - 1];
+      return {
+        ...prev,
+        sessions: [...prev.sessions, createSession({ startTime: last?.startTime, endTime: last?.endTime })]
+      };
+    });
+  };
+
+  // Update a single session field
+  const updateSession = <K extends keyof ActivitySession>(sessionId: string, field: K, value: ActivitySession[K]) => {
+    setFormData(prev => ({
+      ...prev,
+      sessions: prev.sessions.map(session => session.id === sessionId ? { ...session, [field]: value } : session)
+    }));
+
+    if (sessionErrors[sessionId]) {
+      setSessionErrors(prev => {
+        const next = { ...prev };
+        delete next[sessionId];
+        return next;
+      });
+    }
+  };
+
+  // Remove a session; removing the last one returns to a single time block
+  const removeSession = (sessionId: string) => {
+    setFormData(prev => ({
+      ...prev,
+      sessions: prev.sessions.filter(session => session.id !== sessionId)
+    }));
+  };
+
+  const getSessionErrorMessage = (error: SessionError) => {
+    switch (error) {
+      case 'invalid-time':
+        return currentContent.sessionInvalidTime;
+      case 'invalid-capacity':
+        return currentContent.sessionInvalidCapacity;
+      default:
+        return currentContent.sessionIncomplete;
+    }
+  };
+
   // Add organizer
   const addOrganizer = () => {
     if (newOrganizer.trim() && !formData.organizers.includes(newOrganizer.trim())) {
@@ -790,108 +891,252 @@ const ActivitiesForm: React.FC<ActivitiesFormProps> = ({
           </div>
 
           <div className="space-y-6">
-            {/* One Day Activity Checkbox */}
+            {/* Schedule Type */}
             <div>
               <label className={`block text-white/90 ${getClass('body')} mb-3`}>
-                {currentContent.oneDayActivity}
+                {currentContent.multiSession}
               </label>
               <div className="flex items-center space-x-3">
                 <button
                   type="button"
-                  onClick={() => handleInputChange('isOneDayActivity', !formData.isOneDayActivity)}
+                  onClick={toggleMultiSession}
                   className={`relative w-12 h-6 rounded-full transition-all duration-300 ${
-                    formData.isOneDayActivity ? 'bg-[#FCB283]' : 'bg-white/20'
+                    formData.sessions.length > 0 ? 'bg-[#FCB283]' : 'bg-white/20'
                   }`}
                 >
                   <div className={`absolute top-0.5 w-5 h-5 bg-white rounded-full shadow-md transform transition-transform duration-300 ${
-                    formData.isOneDayActivity ? 'translate-x-6' : 'translate-x-0.5'
+                    formData.sessions.length > 0 ? 'translate-x-6' : 'translate-x-0.5'
                   }`} />
                 </button>
                 <div className="flex items-center space-x-2">
-                  {formData.isOneDayActivity ? (
-                    <>
-                      <Calendar className="w-4 h-4 text-green-400" />
-                      <span className={`text-green-400 ${getClass('body')} text-sm`}>
-                        {currentLanguage === 'th' ? 'กิจกรรมหนึ่งวัน' : 'Single Day Event'}
-                      </span>
-                    </>
-                  ) : (
-                    <>
-                      <Calendar className="w-4 h-4 text-blue-400" />
-                      <span className={`text-blue-400 ${getClass('body')} text-sm`}>
-                        {currentLanguage === 'th' ? 'กิจกรรมหลายวัน' : 'Multi-Day Event'}
-                      </span>
-                    </>
-                  )}
+                  <Clock className={`w-4 h-4 ${formData.sessions.length > 0 ? 'text-blue-400' : 'text-green-400'}`} />
+                  <span className={`${formData.sessions.length > 0 ? 'text-blue-400' : 'text-green-400'} ${getClass('body')} text-sm`}>
+                    {formData.sessions.length > 0 ? currentContent.multipleSessions : currentContent.singleSchedule}
+                  </span>
                 </div>
               </div>
             </div>
 
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              {/* Event Date (Start Date) */}
+            {formData.sessions.length > 0 ? (
+              /* Sessions Editor */
+              <div className="space-y-4">
+                <p className={`text-sm text-white/60 ${getClass('body')}`}>
+                  {currentContent.sessionsHint}
+                </p>
+
+                {formData.sessions.map((session, index) => (
+                  <div
+                    key={session.id}
+                    className={`p-4 rounded-lg bg-white/5 border ${sessionErrors[session.id] ? 'border-red-400 error-field' : 'border-white/10'} space-y-4`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className={`text-white ${getClass('body')} font-medium`}>
+                        {currentContent.session} {index + 1}
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => removeSession(session.id)}
+                        className="p-1.5 text-white/60 hover:text-red-400 hover:bg-red-400/20 rounded-lg transition-colors"
+                        title={currentContent.removeSession}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+
+                    <input
+                      type="text"
+                      value={session.title || ''}
+                      onChange={(e) => updateSession(session.id, 'title', e.target.value)}
+                      className="w-full p-3 rounded-lg bg-white/10 border border-white/20 text-white placeholder-white/50 focus:border-[#FCB283] focus:outline-none transition-colors"
+                      placeholder={currentContent.sessionTitle}
+                    />
+
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      <div>
+                        <label className={`block text-white/70 text-sm ${getClass('body')} mb-1`}>
+                          {currentContent.sessionDate} <span className="text-red-400">*</span>
+                        </label>
+                        <input
+                          type="date"
+                          value={session.date}
+                          onChange={(e) => updateSession(session.id, 'date', e.target.value)}
+                          className="w-full p-3 rounded-lg bg-white/10 border border-white/20 text-white focus:border-[#FCB283] focus:outline-none transition-colors"
+                        />
+                      </div>
+                      <div>
+                        <label className={`block text-white/70 text-sm ${getClass('body')} mb-1`}>
+                          {currentContent.startTime} <span className="text-red-400">*</span>
+                        </label>
+                        <input
+                          type="time"
+                          value={session.startTime}
+                          onChange={(e) => updateSession(session.id, 'startTime', e.target.value)}
+                          className="w-full p-3 rounded-lg bg-white/10 border border-white/20 text-white focus:border-[#FCB283] focus:outline-none transition-colors"
+                        />
+                      </div>
+                      <div>
+                        <label className={`block text-white/70 text-sm ${getClass('body')} mb-1`}>
+                          {currentContent.endTime} <span className="text-red-400">*</span>
+                        </label>
+                        <input
+                          type="time"
+                          value={session.endTime}
+                          onChange={(e) => updateSession(session.id, 'endTime', e.target.value)}
+                          className="w-full p-3 rounded-lg bg-white/10 border border-white/20 text-white focus:border-[#FCB283] focus:outline-none transition-colors"
+                        />
+                      </div>
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      <input
+                        type="text"
+                        value={session.venueName || ''}
+                        onChange={(e) => updateSession(session.id, 'venueName', e.target.value)}
+                        className="w-full p-3 rounded-lg bg-white/10 border border-white/20 text-white placeholder-white/50 focus:border-[#FCB283] focus:outline-none transition-colors"
+                        placeholder={currentContent.sessionVenue}
+                      />
+                      <input
+                        type="url"
+                        value={session.venueLocation || ''}
+                        onChange={(e) => updateSession(session.id, 'venueLocation', e.target.value)}
+                        className="w-full p-3 rounded-lg bg-white/10 border border-white/20 text-white placeholder-white/50 focus:border-[#FCB283] focus:outline-none transition-colors"
+                        placeholder={currentContent.venueLocationPlaceholder}
+                      />
+                      <div className="relative">
+                        <Users className="absolute left-3 top-1/2 transform -translate-y-1/2 text-white/50 w-4 h-4" />
+                        <input
+                          type="number"
+                          min={0}
+                          value={session.maxParticipants}
+                          onChange={(e) => updateSession(session.id, 'maxParticipants', parseInt(e.target.value) || 0)}
+                          className="w-full p-3 pl-10 rounded-lg bg-white/10 border border-white/20 text-white focus:border-[#FCB283] focus:outline-none transition-colors"
+                          title={currentContent.sessionCapacity}
+                        />
+                      </div>
+                    </div>
+
+                    {sessionErrors[session.id] && (
+                      <ErrorMessage error={getSessionErrorMessage(sessionErrors[session.id])} />
+                    )}
+                  </div>
+                ))}
+
+                <button
+                  type="button"
+                  onClick={addSession}
+                  className="w-full p-3 rounded-lg border border-dashed border-white/30 text-white/70 hover:text-[#FCB283] hover:border-[#FCB283] transition-colors flex items-center justify-center gap-2"
+                >
+                  <Plus className="w-4 h-4" />
+                  {currentContent.addSession}
+                </button>
+              </div>
+            ) : (
+              <>
+              {/* One Day Activity Checkbox */}
               <div>
-                <label className={`block text-white/90 ${getClass('body')} mb-2`}>
-                  {formData.isOneDayActivity ? currentContent.eventDate : (currentLanguage === 'th' ? 'วันเริ่มงาน' : 'Start Date')} <span className="text-red-400">*</span>
+                <label className={`block text-white/90 ${getClass('body')} mb-3`}>
+                  {currentContent.oneDayActivity}
                 </label>
-                <input
-                  type="date"
-                  value={formData.eventDate}
-                  onChange={(e) => handleInputChange('eventDate', e.target.value)}
-                  className={`w-full p-3 rounded-lg bg-white/10 border ${errors.eventDate ? 'border-red-400 error-field' : 'border-white/20'} text-white focus:border-[#FCB283] focus:outline-none transition-colors`}
-                />
-                <ErrorMessage error={errors.eventDate} />
+                <div className="flex items-center space-x-3">
+                  <button
+                    type="button"
+                    onClick={() => handleInputChange('isOneDayActivity', !formData.isOneDayActivity)}
+                    className={`relative w-12 h-6 rounded-full transition-all duration-300 ${
+                      formData.isOneDayActivity ? 'bg-[#FCB283]' : 'bg-white/20'
+                    }`}
+                  >
+                    <div className={`absolute top-0.5 w-5 h-5 bg-white rounded-full shadow-md transform transition-transform duration-300 ${
+                      formData.isOneDayActivity ? 'translate-x-6' : 'translate-x-0.5'
+                    }`} />
+                  </button>
+                  <div className="flex items-center space-x-2">
+                    {formData.isOneDayActivity ? (
+                      <>
+                        <Calendar className="w-4 h-4 text-green-400" />
+                        <span className={`text-green-400 ${getClass('body')} text-sm`}>
+                          {currentLanguage === 'th' ? 'กิจกรรมหนึ่งวัน' : 'Single Day Event'}
+                        </span>
+                      </>
+                    ) : (
+                      <>
+                        <Calendar className="w-4 h-4 text-blue-400" />
+                        <span className={`text-blue-400 ${getClass('body')} text-sm`}>
+                          {currentLanguage === 'th' ? 'กิจกรรมหลายวัน' : 'Multi-Day Event'}
+                        </span>
+                      </>
+                    )}
+                  </div>
+                </div>
               </div>
 
-              {/* Event End Date (only show if not one day activity) */}
-              {!formData.isOneDayActivity && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                {/* Event Date (Start Date) */}
                 <div>
                   <label className={`block text-white/90 ${getClass('body')} mb-2`}>
-                    {currentContent.eventEndDate} <span className="text-red-400">*</span>
+                    {formData.isOneDayActivity ? currentContent.eventDate : (currentLanguage === 'th' ? 'วันเริ่มงาน' : 'Start Date')} <span className="text-red-400">*</span>
                   </label>
                   <input
                     type="date"
-                    value={formData.eventEndDate}
-                    onChange={(e) => handleInputChange('eventEndDate', e.target.value)}
-                    min={formData.eventDate} // End date cannot be before start date
-                    className={`w-full p-3 rounded-lg bg-white/10 border ${errors.eventEndDate ? 'border-red-400 error-field' : 'border-white/20'} text-white focus:border-[#FCB283] focus:outline-none transition-colors`}
+                    value={formData.eventDate}
+                    onChange={(e) => handleInputChange('eventDate', e.target.value)}
+                    className={`w-full p-3 rounded-lg bg-white/10 border ${errors.eventDate ? 'border-red-400 error-field' : 'border-white/20'} text-white focus:border-[#FCB283] focus:outline-none transition-colors`}
                   />
-                  <ErrorMessage error={errors.eventEndDate} />
+                  <ErrorMessage error={errors.eventDate} />
                 </div>
-              )}
-            </div>
 
-            {/* Start Time and End Time - Always on the same row */}
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              {/* Start Time */}
-              <div>
-                <label className={`block text-white/90 ${getClass('body')} mb-2`}>
-                  <Clock className="w-4 h-4 inline mr-2" />
-                  {currentContent.startTime} <span className="text-red-400">*</span>
-                </label>
-                <input
-                  type="time"
-                  value={formData.startTime}
-                  onChange={(e) => handleInputChange('startTime', e.target.value)}
-                  className={`w-full p-3 rounded-lg bg-white/10 border ${errors.startTime ? 'border-red-400 error-field' : 'border-white/20'} text-white focus:border-[#FCB283] focus:outline-none transition-colors`}
-                />
-                <ErrorMessage error={errors.startTime} />
+                {/* Event End Date (only show if not one day activity) */}
+                {!formData.isOneDayActivity && (
+                  <div>
+                    <label className={`block text-white/90 ${getClass('body')} mb-2`}>
+                      {currentContent.eventEndDate} <span className="text-red-400">*</span>
+                    </label>
+                    <input
+                      type="date"
+                      value={formData.eventEndDate}
+                      onChange={(e) => handleInputChange('eventEndDate', e.target.value)}
+                      min={formData.eventDate} // End date cannot be before start date
+                      className={`w-full p-3 rounded-lg bg-white/10 border ${errors.eventEndDate ? 'border-red-400 error-field' : 'border-white/20'} text-white focus:border-[#FCB283] focus:outline-none transition-colors`}
+                    />
+                    <ErrorMessage error={errors.eventEndDate} />
+                  </div>
+                )}
               </div>
 
-              {/* End Time */}
-              <div>
-                <label className={`block text-white/90 ${getClass('body')} mb-2`}>
-                  <Clock className="w-4 h-4 inline mr-2" />
-                  {currentContent.endTime} <span className="text-red-400">*</span>
-                </label>
-                <input
-                  type="time"
-                  value={formData.endTime}
-                  onChange={(e) => handleInputChange('endTime', e.target.value)}
-                  className={`w-full p-3 rounded-lg bg-white/10 border ${errors.endTime ? 'border-red-400 error-field' : 'border-white/20'} text-white focus:border-[#FCB283] focus:outline-none transition-colors`}
-                />
-                <ErrorMessage error={errors.endTime} />
+              {/* Start Time and End Time - Always on the same row */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                {/* Start Time */}
+                <div>
+                  <label className={`block text-white/90 ${getClass('body')} mb-2`}>
+                    <Clock className="w-4 h-4 inline mr-2" />
+                    {currentContent.startTime} <span className="text-red-400">*</span>
+                  </label>
+                  <input
+                    type="time"
+                    value={formData.startTime}
+                    onChange={(e) => handleInputChange('startTime', e.target.value)}
+                    className={`w-full p-3 rounded-lg bg-white/10 border ${errors.startTime ? 'border-red-400 error-field' : 'border-white/20'} text-white focus:border-[#FCB283] focus:outline-none transition-colors`}
+                  />
+                  <ErrorMessage error={errors.startTime} />
+                </div>
+
+                {/* End Time */}
+                <div>
+                  <label className={`block text-white/90 ${getClass('body')} mb-2`}>
+                    <Clock className="w-4 h-4 inline mr-2" />
+                    {currentContent.endTime} <span className="text-red-400">*</span>
+                  </label>
+                  <input
+                    type="time"
+                    value={formData.endTime}
+                    onChange={(e) => handleInputChange('endTime', e.target.value)}
+                    className={`w-full p-3 rounded-lg bg-white/10 border ${errors.endTime ? 'border-red-400 error-field' : 'border-white/20'} text-white focus:border-[#FCB283] focus:outline-none transition-colors`}
+                  />
+                  <ErrorMessage error={errors.endTime} />
+                </div>
               </div>
-            </div>
+
+              </>
+            )}
 
             {/* Registration Deadline - On its own separate line */}
             <div>
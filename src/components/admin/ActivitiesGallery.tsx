@@ -249,6 +249,10 @@ export default function ActivitiesGallery({
     onNavigate?.(`admin/activities/edit/${activityId}`);
   };
 
+  const handleViewParticipants = (activityId: string) => {
+    onNavigate?.(`admin/activities/participants/${activityId}`);
+  };
+
   const handleDeleteActivity = (activityId: string) => {
     if (confirm('Are you sure you want to delete this activity?')) {
       setActivities(prev => prev.filter(a => a.id !== activityId));
@@ -551,6 +555,14 @@ export default function ActivitiesGallery({
                         <Edit className="w-3.5 h-3.5" />
                       </button>
                       
+                      <button
+                        onClick={() => handleViewParticipants(activity.id)}
+                        className="p-1.5 text-white/60 hover:text-blue-400 hover:bg-blue-400/20 rounded-lg transition-colors"
+                        title="Participants"
+                      >
+                        <Users className="w-3.5 h-3.5" />
+                      </button>
+                      
                       <button
                         onClick={() => handleDuplicateActivity(activity.id)}
                         className="p-1.5 text-white/60 hover:text-purple-400 hover:bg-purple-400/20 rounded-lg transition-colors"
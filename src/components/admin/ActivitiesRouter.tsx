@@ -5,6 +5,8 @@ import { useAuth } from '../auth/AuthContext';
 import { useNotificationHelpers } from '../ui/NotificationContext';
 import ActivitiesGallery from './ActivitiesGallery';
 import ActivitiesForm from './ActivitiesForm';
+import ActivityParticipants from './ActivityParticipants';
+import ActivityCheckIn from './ActivityCheckIn';
 import { Activity, ActivityFormData } from '../../types/activities';
 import { activitiesService } from '../../services/activitiesService';
 import { ArrowLeft, Loader2 } from 'lucide-react';
@@ -89,6 +91,14 @@ const ActivitiesRouter: React.FC<ActivitiesRouterProps> = ({
     if (parts.length === 4 && parts[2] === 'edit') {
       return { view: 'edit', filter: null, activityId: parts[3] };
     }
+
+    if (parts.length === 4 && parts[2] === 'participants') {
+      return { view: 'participants', filter: null, activityId: parts[3] };
+    }
+
+    if (parts.length === 4 && parts[2] === 'checkin') {
+      return { view: 'checkin', filter: null, activityId: parts[3] };
+    }
     
     return { view: 'gallery', filter: null, activityId: null };
   };
@@ -306,6 +316,22 @@ const ActivitiesRouter: React.FC<ActivitiesRouterProps> = ({
         />
       );
 
+    case 'participants':
+      return (
+        <ActivityParticipants
+          activityId={activityId as string}
+          onNavigate={onNavigate}
+        />
+      );
+
+    case 'checkin':
+      return (
+        <ActivityCheckIn
+          activityId={activityId as string}
+          onNavigate={onNavigate}
+        />
+      );
+
     case 'gallery':
     default:
       return (
@@ -0,0 +1,345 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useTypography } from '../../utils/typography';
+import { useAuth } from '../auth/AuthContext';
+import { Activity, ActivityRegistration } from '../../types/activities';
+import { activitiesService } from '../../services/activitiesService';
+import {
+  activityRegistrationService,
+  CheckInError,
+  CheckInErrorCode
+} from '../../services/activityRegistrationService';
+import {
+  ArrowLeft,
+  Loader2,
+  ScanLine,
+  CheckCircle,
+  XCircle,
+  AlertTriangle,
+  Users
+} from 'lucide-react';
+import AnimatedButton from '../ui/AnimatedButton';
+
+interface ActivityCheckInProps {
+  activityId: string;
+  onNavigate: (route: string) => void;
+}
+
+type ScanResult =
+  | { type: 'success'; registration: ActivityRegistration }
+  | { type: 'duplicate'; registration?: ActivityRegistration }
+  | { type: 'error'; code: CheckInErrorCode | 'unknown'; message: string; registration?: ActivityRegistration };
+
+const ActivityCheckIn: React.FC<ActivityCheckInProps> = ({
+  activityId,
+  onNavigate
+}) => {
+  const { i18n } = useTranslation();
+  const { getClass } = useTypography();
+  const { user } = useAuth();
+  const currentLanguage = i18n.language as 'en' | 'th';
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // State management
+  const [activity, setActivity] = useState<Activity | null>(null);
+  const [registrations, setRegistrations] = useState<ActivityRegistration[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const [isChecking, setIsChecking] = useState(false);
+  const [lastResult, setLastResult] = useState<ScanResult | null>(null);
+
+  // Content translations
+  const content = {
+    th: {
+      title: 'เช็คอินผู้เข้าร่วม',
+      backToParticipants: 'กลับไปยังรายชื่อผู้เข้าร่วม',
+      loading: 'กำลังโหลด...',
+      error: 'ไม่สามารถโหลดข้อมูลกิจกรรมได้',
+      activityNotFound: 'ไม่พบกิจกรรม',
+      scanPrompt: 'สแกน QR Code หรือพิมพ์รหัสบัตร',
+      codePlaceholder: 'เช่น 7F3A-09C2',
+      checkIn: 'เช็คอิน',
+      checking: 'กำลังตรวจสอบ...',
+      checkedIn: 'เช็คอินแล้ว',
+      confirmed: 'ยืนยันแล้ว',
+      remaining: 'ยังไม่มา',
+      success: 'เช็คอินสำเร็จ',
+      duplicate: 'บัตรนี้เช็คอินไปแล้ว',
+      checkedInAt: 'เช็คอินเมื่อ',
+      recentCheckIns: 'เช็คอินล่าสุด',
+      noCheckIns: 'ยังไม่มีผู้เช็คอิน',
+      errors: {
+        'invalid-code': 'รหัสบัตรไม่ถูกต้อง',
+        'wrong-activity': 'บัตรนี้เป็นของกิจกรรมอื่น',
+        'not-found': 'ไม่พบการลงทะเบียนสำหรับบัตรนี้',
+        'not-confirmed': 'การลงทะเบียนนี้ยังไม่ได้รับการยืนยัน',
+        'already-checked-in': 'บัตรนี้เช็คอินไปแล้ว',
+        unknown: 'เช็คอินไม่สำเร็จ'
+      }
+    },
+    en: {
+      title: 'Check-in',
+      backToParticipants: 'Back to Participants',
+      loading: 'Loading...',
+      error: 'Unable to load activity',
+      activityNotFound: 'Activity not found',
+      scanPrompt: 'Scan a QR code or type the ticket code',
+      codePlaceholder: 'e.g. 7F3A-09C2',
+      checkIn: 'Check in',
+      checking: 'Checking...',
+      checkedIn: 'Checked in',
+      confirmed: 'Confirmed',
+      remaining: 'Not arrived',
+      success: 'Checked in',
+      duplicate: 'Ticket already checked in',
+      checkedInAt: 'Checked in at',
+      recentCheckIns: 'Recent check-ins',
+      noCheckIns: 'No check-ins yet',
+      errors: {
+        'invalid-code': 'Invalid ticket code',
+        'wrong-activity': 'This ticket is for a different activity',
+        'not-found': 'No registration found for this ticket',
+        'not-confirmed': 'This registration is not confirmed',
+        'already-checked-in': 'Ticket already checked in',
+        unknown: 'Check-in failed'
+      }
+    }
+  };
+
+  const currentContent = content[currentLanguage];
+
+  useEffect(() => {
+    loadData();
+  }, [activityId]);
+
+  const loadData = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const [activityData, registrationData] = await Promise.all([
+        activitiesService.getActivityById(activityId),
+        activityRegistrationService.getRegistrationsForActivity(activityId)
+      ]);
+
+      if (!activityData) {
+        setError(currentContent.activityNotFound);
+        return;
+      }
+
+      setActivity(activityData);
+      setRegistrations(registrationData);
+    } catch (err) {
+      console.error('Error loading check-in data:', err);
+      setError(currentContent.error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCheckIn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !code.trim() || isChecking) return;
+
+    try {
+      setIsChecking(true);
+      const result = await activityRegistrationService.checkIn(activityId, code, user.uid);
+      setLastResult({ type: 'success', registration: result.registration });
+      setRegistrations(prev => prev.map(r => r.id === result.registration.id ? result.registration : r));
+      setActivity(prev => prev ? { ...prev, attendedParticipants: result.attendedParticipants } : prev);
+    } catch (err) {
+      if (err instanceof CheckInError) {
+        setLastResult(err.code === 'already-checked-in'
+          ? { type: 'duplicate', registration: err.registration }
+          : { type: 'error', code: err.code, message: err.message, registration: err.registration });
+      } else {
+        setLastResult({
+          type: 'error',
+          code: 'unknown',
+          message: err instanceof Error ? err.message : currentContent.errors.unknown
+        });
+      }
+    } finally {
+      setIsChecking(false);
+      setCode('');
+      // Keep focus in the input so a handheld scanner can send the next code straight away
+      inputRef.current?.focus();
+    }
+  };
+
+  const formatTime = (isoString: string) => {
+    return new Date(isoString).toLocaleTimeString(currentLanguage === 'th' ? 'th-TH' : 'en-US', {
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  const attendedCount = registrations.filter(r => r.status === 'attended').length;
+  const confirmedCount = registrations.filter(r => r.status === 'confirmed').length + attendedCount;
+  const recentCheckIns = registrations
+    .filter(r => r.status === 'attended' && r.checkedInAt)
+    .sort((a, b) => (b.checkedInAt as string).localeCompare(a.checkedInAt as string))
+    .slice(0, 10);
+
+  // Loading state
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-96">
+        <div className="glass-container rounded-xl p-8 text-center">
+          <Loader2 className="w-8 h-8 animate-spin text-[#FCB283] mx-auto mb-4" />
+          <p className={`${getClass('body')} text-white/80`}>
+            {currentContent.loading}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  // Error state
+  if (error || !activity) {
+    return (
+      <div className="flex items-center justify-center min-h-96">
+        <div className="glass-container rounded-xl p-8 text-center max-w-md">
+          <h2 className={`text-xl ${getClass('header')} text-white mb-4`}>
+            {error || currentContent.activityNotFound}
+          </h2>
+          <AnimatedButton
+            variant="primary"
+            size="medium"
+            onClick={() => onNavigate(`admin/activities/participants/${activityId}`)}
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            {currentContent.backToParticipants}
+          </AnimatedButton>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto p-6 space-y-6">
+      {/* Header */}
+      <div>
+        <button
+          onClick={() => onNavigate(`admin/activities/participants/${activityId}`)}
+          className="flex items-center gap-2 text-white/60 hover:text-[#FCB283] transition-colors mb-2 text-sm"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          {currentContent.backToParticipants}
+        </button>
+        <h1 className={`text-3xl font-bold text-white mb-1 ${getClass('header')}`}>
+          {currentContent.title}
+        </h1>
+        <p className={`text-white/70 ${getClass('subtitle')}`}>{activity.name}</p>
+      </div>
+
+      {/* Statistics */}
+      <div className="grid grid-cols-3 gap-4">
+        <div className="glass-container rounded-lg p-4">
+          <div className="text-2xl font-bold text-blue-400">{attendedCount}</div>
+          <div className="text-sm text-white/70">{currentContent.checkedIn}</div>
+        </div>
+        <div className="glass-container rounded-lg p-4">
+          <div className="text-2xl font-bold text-green-400">{confirmedCount}</div>
+          <div className="text-sm text-white/70">{currentContent.confirmed}</div>
+        </div>
+        <div className="glass-container rounded-lg p-4">
+          <div className="text-2xl font-bold text-[#FCB283]">{confirmedCount - attendedCount}</div>
+          <div className="text-sm text-white/70">{currentContent.remaining}</div>
+        </div>
+      </div>
+
+      {/* Scan Input */}
+      <form onSubmit={handleCheckIn} className="glass-container rounded-xl p-6">
+        <label className={`block text-white/80 mb-3 ${getClass('body')}`}>
+          {currentContent.scanPrompt}
+        </label>
+        <div className="flex gap-3">
+          <div className="flex-1 relative">
+            <ScanLine className="absolute left-3 top-1/2 transform -translate-y-1/2 text-white/60 w-5 h-5" />
+            <input
+              ref={inputRef}
+              type="text"
+              autoFocus
+              autoComplete="off"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              placeholder={currentContent.codePlaceholder}
+              className="w-full pl-11 pr-4 py-3 border border-white/20 bg-white/10 text-white placeholder-white/60 rounded-lg font-mono focus:ring-2 focus:ring-[#FCB283] focus:border-[#FCB283]"
+            />
+          </div>
+          <AnimatedButton type="submit" variant="primary" size="medium">
+            {isChecking ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                {currentContent.checking}
+              </>
+            ) : currentContent.checkIn}
+          </AnimatedButton>
+        </div>
+      </form>
+
+      {/* Last Result */}
+      {lastResult && (
+        <div
+          className={`rounded-xl p-6 border ${
+            lastResult.type === 'success'
+              ? 'bg-green-500/10 border-green-500/30'
+              : lastResult.type === 'duplicate'
+                ? 'bg-orange-500/10 border-orange-500/30'
+                : 'bg-red-500/10 border-red-500/30'
+          }`}
+        >
+          <div className="flex items-start gap-4">
+            {lastResult.type === 'success' && <CheckCircle className="w-10 h-10 text-green-400 flex-shrink-0" />}
+            {lastResult.type === 'duplicate' && <AlertTriangle className="w-10 h-10 text-orange-400 flex-shrink-0" />}
+            {lastResult.type === 'error' && <XCircle className="w-10 h-10 text-red-400 flex-shrink-0" />}
+            <div>
+              <h2 className={`text-xl ${getClass('header')} text-white`}>
+                {lastResult.type === 'success'
+                  ? currentContent.success
+                  : lastResult.type === 'duplicate'
+                    ? currentContent.duplicate
+                    : currentContent.errors[lastResult.code]}
+              </h2>
+              {lastResult.registration && (
+                <div className={`mt-1 text-white/80 ${getClass('body')}`}>
+                  {lastResult.registration.userName}
+                  <span className="text-white/50"> · {lastResult.registration.userEmail}</span>
+                </div>
+              )}
+              {lastResult.type === 'duplicate' && lastResult.registration?.checkedInAt && (
+                <div className="mt-1 text-sm text-white/60">
+                  {currentContent.checkedInAt} {formatTime(lastResult.registration.checkedInAt)}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Recent Check-ins */}
+      <div className="glass-container rounded-xl p-6">
+        <h2 className={`text-lg ${getClass('header')} text-white mb-4 flex items-center gap-2`}>
+          <Users className="w-5 h-5 text-[#FCB283]" />
+          {currentContent.recentCheckIns}
+        </h2>
+        {recentCheckIns.length === 0 ? (
+          <p className={`text-white/60 ${getClass('body')}`}>{currentContent.noCheckIns}</p>
+        ) : (
+          <ul className="divide-y divide-white/10">
+            {recentCheckIns.map(registration => (
+              <li key={registration.id} className="py-2 flex items-center justify-between text-sm">
+                <span className="text-white/90">{registration.userName}</span>
+                <span className="text-white/50">{formatTime(registration.checkedInAt as string)}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ActivityCheckIn;
@@ -0,0 +1,636 @@
+import React, { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useTypography } from '../../utils/typography';
+import { useAuth } from '../auth/AuthContext';
+import { useNotificationHelpers } from '../ui/NotificationContext';
+import {
+  Activity,
+  ActivityRegistration,
+  RegistrationStatus,
+  REGISTRATION_STATUS_OPTIONS
+} from '../../types/activities';
+import { activitiesService } from '../../services/activitiesService';
+import { activityRegistrationService } from '../../services/activityRegistrationService';
+import ExportService from '../../services/exportService';
+import { getEffectiveCapacity } from '../../utils/activitySessions';
+import {
+  ArrowLeft,
+  Loader2,
+  Users,
+  Search,
+  Filter,
+  UserPlus,
+  Trash2,
+  ArrowUpCircle,
+  ArrowDownCircle,
+  FileText,
+  Download,
+  Mail,
+  Phone,
+  RefreshCw,
+  ScanLine,
+  X
+} from 'lucide-react';
+import AnimatedButton from '../ui/AnimatedButton';
+
+interface ActivityParticipantsProps {
+  activityId: string;
+  onNavigate: (route: string) => void;
+}
+
+const statusBadgeColors: Record<RegistrationStatus, string> = {
+  confirmed: 'bg-green-500/20 text-green-400 border-green-500/30',
+  waitlisted: 'bg-orange-500/20 text-orange-400 border-orange-500/30',
+  cancelled: 'bg-red-500/20 text-red-400 border-red-500/30',
+  attended: 'bg-blue-500/20 text-blue-400 border-blue-500/30'
+};
+
+const ActivityParticipants: React.FC<ActivityParticipantsProps> = ({
+  activityId,
+  onNavigate
+}) => {
+  const { i18n } = useTranslation();
+  const { getClass } = useTypography();
+  const { user } = useAuth();
+  const { showSuccess, showError } = useNotificationHelpers();
+  const currentLanguage = i18n.language as 'en' | 'th';
+
+  // State management
+  const [activity, setActivity] = useState<Activity | null>(null);
+  const [registrations, setRegistrations] = useState<ActivityRegistration[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState<RegistrationStatus | 'all'>('all');
+  const [busyUserId, setBusyUserId] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [isAdding, setIsAdding] = useState(false);
+  const [newParticipant, setNewParticipant] = useState({
+    userName: '',
+    userEmail: '',
+    userPhone: '',
+    status: 'confirmed' as 'confirmed' | 'waitlisted'
+  });
+
+  // Content translations
+  const content = {
+    th: {
+      title: 'รายชื่อผู้เข้าร่วม',
+      backToGallery: 'กลับไปยังแกลเลอรี่',
+      loading: 'กำลังโหลด...',
+      error: 'ไม่สามารถโหลดรายชื่อผู้เข้าร่วมได้',
+      activityNotFound: 'ไม่พบกิจกรรม',
+      confirmed: 'ยืนยันแล้ว',
+      waitlist: 'รอคิว',
+      capacity: 'จำนวนที่รับ',
+      unlimited: 'ไม่จำกัด',
+      searchPlaceholder: 'ค้นหาชื่อ อีเมล หรือเบอร์โทร...',
+      allStatuses: 'ทุกสถานะ',
+      name: 'ชื่อ',
+      contact: 'ติดต่อ',
+      status: 'สถานะ',
+      registeredAt: 'วันที่ลงทะเบียน',
+      actions: 'จัดการ',
+      noParticipants: 'ยังไม่มีผู้ลงทะเบียน',
+      addParticipant: 'เพิ่มผู้เข้าร่วม',
+      adding: 'กำลังเพิ่ม...',
+      fullName: 'ชื่อ-นามสกุล',
+      email: 'อีเมล',
+      phone: 'เบอร์โทรศัพท์',
+      addAs: 'เพิ่มเป็น',
+      cancel: 'ยกเลิก',
+      save: 'บันทึก',
+      promote: 'ย้ายไปยืนยัน',
+      moveToWaitlist: 'ย้ายไปรอคิว',
+      remove: 'ลบออก',
+      confirmRemove: 'ต้องการลบผู้เข้าร่วมคนนี้ออกจากรายชื่อหรือไม่?',
+      exportCsv: 'ส่งออก CSV',
+      exportPdf: 'ส่งออก PDF',
+      resync: 'คำนวณจำนวนใหม่',
+      checkIn: 'เช็คอิน',
+      checkedIn: 'เช็คอินแล้ว',
+      participantAdded: 'เพิ่มผู้เข้าร่วมแล้ว',
+      participantMoved: 'อัปเดตสถานะแล้ว',
+      participantRemoved: 'ลบผู้เข้าร่วมแล้ว',
+      countsSynced: 'คำนวณจำนวนผู้เข้าร่วมใหม่แล้ว',
+      actionFailed: 'ดำเนินการไม่สำเร็จ',
+      requiredFields: 'กรุณากรอกชื่อและอีเมล',
+      manual: 'เพิ่มโดยผู้ดูแล'
+    },
+    en: {
+      title: 'Participants',
+      backToGallery: 'Back to Gallery',
+      loading: 'Loading...',
+      error: 'Unable to load participants',
+      activityNotFound: 'Activity not found',
+      confirmed: 'Confirmed',
+      waitlist: 'Waitlist',
+      capacity: 'Capacity',
+      unlimited: 'Unlimited',
+      searchPlaceholder: 'Search name, email or phone...',
+      allStatuses: 'All Statuses',
+      name: 'Name',
+      contact: 'Contact',
+      status: 'Status',
+      registeredAt: 'Registered',
+      actions: 'Actions',
+      noParticipants: 'No registrations yet',
+      addParticipant: 'Add Participant',
+      adding: 'Adding...',
+      fullName: 'Full Name',
+      email: 'Email',
+      phone: 'Phone',
+      addAs: 'Add as',
+      cancel: 'Cancel',
+      save: 'Save',
+      promote: 'Move to confirmed',
+      moveToWaitlist: 'Move to waitlist',
+      remove: 'Remove',
+      confirmRemove: 'Remove this participant from the roster?',
+      exportCsv: 'Export CSV',
+      exportPdf: 'Export PDF',
+      resync: 'Recount',
+      checkIn: 'Check-in',
+      checkedIn: 'Checked in',
+      participantAdded: 'Participant added',
+      participantMoved: 'Status updated',
+      participantRemoved: 'Participant removed',
+      countsSynced: 'Participant counts recalculated',
+      actionFailed: 'Action failed',
+      requiredFields: 'Please enter a name and email',
+      manual: 'Added by admin'
+    }
+  };
+
+  const currentContent = content[currentLanguage];
+
+  useEffect(() => {
+    loadData();
+  }, [activityId]);
+
+  const loadData = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const [activityData, registrationData] = await Promise.all([
+        activitiesService.getActivityById(activityId),
+        activityRegistrationService.getRegistrationsForActivity(activityId)
+      ]);
+
+      if (!activityData) {
+        setError(currentContent.activityNotFound);
+        return;
+      }
+
+      setActivity(activityData);
+      setRegistrations(registrationData);
+    } catch (err) {
+      console.error('Error loading participants:', err);
+      setError(currentContent.error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Reload after a mutation without blanking the table
+  const refreshData = async () => {
+    try {
+      const [activityData, registrationData] = await Promise.all([
+        activitiesService.getActivityById(activityId),
+        activityRegistrationService.getRegistrationsForActivity(activityId)
+      ]);
+      if (activityData) setActivity(activityData);
+      setRegistrations(registrationData);
+    } catch (err) {
+      console.error('Error refreshing participants:', err);
+    }
+  };
+
+  const runAction = async (userId: string, action: () => Promise<unknown>, successMessage: string) => {
+    try {
+      setBusyUserId(userId);
+      await action();
+      showSuccess(successMessage);
+      await refreshData();
+    } catch (err) {
+      console.error('Participant action failed:', err);
+      showError(currentContent.actionFailed, err instanceof Error ? err.message : undefined);
+    } finally {
+      setBusyUserId(null);
+    }
+  };
+
+  const handleMove = (registration: ActivityRegistration, toStatus: 'confirmed' | 'waitlisted') =>
+    runAction(
+      registration.userId,
+      () => activityRegistrationService.moveParticipant(activityId, registration.userId, toStatus),
+      currentContent.participantMoved
+    );
+
+  const handleRemove = (registration: ActivityRegistration) => {
+    if (!window.confirm(currentContent.confirmRemove)) return;
+    runAction(
+      registration.userId,
+      () => activityRegistrationService.removeParticipant(activityId, registration.userId),
+      currentContent.participantRemoved
+    );
+  };
+
+  const handleResync = () =>
+    runAction(
+      'resync',
+      () => activityRegistrationService.syncParticipantCounts(activityId),
+      currentContent.countsSynced
+    );
+
+  const handleAddParticipant = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    if (!newParticipant.userName.trim() || !newParticipant.userEmail.trim()) {
+      showError(currentContent.requiredFields);
+      return;
+    }
+
+    try {
+      setIsAdding(true);
+      await activityRegistrationService.addParticipant(
+        activityId,
+        {
+          userName: newParticipant.userName,
+          userEmail: newParticipant.userEmail,
+          userPhone: newParticipant.userPhone
+        },
+        newParticipant.status,
+        user.uid
+      );
+      showSuccess(currentContent.participantAdded);
+      setNewParticipant({ userName: '', userEmail: '', userPhone: '', status: 'confirmed' });
+      setShowAddForm(false);
+      await refreshData();
+    } catch (err) {
+      console.error('Error adding participant:', err);
+      showError(currentContent.actionFailed, err instanceof Error ? err.message : undefined);
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleExport = async (rosterFormat: 'csv' | 'pdf') => {
+    if (!activity) return;
+
+    try {
+      setIsExporting(true);
+      const exportService = new ExportService();
+      // Door lists only need people who can actually attend
+      await exportService.exportActivityRoster(
+        activity,
+        filteredRegistrations.filter(r => r.status !== 'cancelled'),
+        rosterFormat
+      );
+    } catch (err) {
+      console.error('Error exporting roster:', err);
+      showError(currentContent.actionFailed, err instanceof Error ? err.message : undefined);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const getStatusLabel = (status: RegistrationStatus) => {
+    const option = REGISTRATION_STATUS_OPTIONS.find(o => o.value === status);
+    if (!option) return status;
+    return currentLanguage === 'th' ? option.labelTh : option.label;
+  };
+
+  const formatDateTime = (isoString: string) => {
+    return new Date(isoString).toLocaleString(currentLanguage === 'th' ? 'th-TH' : 'en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  };
+
+  const filteredRegistrations = registrations.filter(registration => {
+    const term = searchTerm.toLowerCase();
+    const matchesSearch = !term ||
+      registration.userName.toLowerCase().includes(term) ||
+      registration.userEmail.toLowerCase().includes(term) ||
+      (registration.userPhone || '').includes(term);
+    const matchesStatus = statusFilter === 'all' || registration.status === statusFilter;
+    return matchesSearch && matchesStatus;
+  });
+
+  // Loading state
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-96">
+        <div className="glass-container rounded-xl p-8 text-center">
+          <Loader2 className="w-8 h-8 animate-spin text-[#FCB283] mx-auto mb-4" />
+          <p className={`${getClass('body')} text-white/80`}>
+            {currentContent.loading}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  // Error state
+  if (error || !activity) {
+    return (
+      <div className="flex items-center justify-center min-h-96">
+        <div className="glass-container rounded-xl p-8 text-center max-w-md">
+          <h2 className={`text-xl ${getClass('header')} text-white mb-4`}>
+            {error || currentContent.activityNotFound}
+          </h2>
+          <AnimatedButton
+            variant="primary"
+            size="medium"
+            onClick={() => onNavigate('admin/activities')}
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            {currentContent.backToGallery}
+          </AnimatedButton>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto p-6 space-y-6">
+      {/* Header */}
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+        <div>
+          <button
+            onClick={() => onNavigate('admin/activities')}
+            className="flex items-center gap-2 text-white/60 hover:text-[#FCB283] transition-colors mb-2 text-sm"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            {currentContent.backToGallery}
+          </button>
+          <h1 className={`text-3xl font-bold text-white mb-1 ${getClass('header')}`}>
+            {currentContent.title}
+          </h1>
+          <p className={`text-white/70 ${getClass('subtitle')}`}>{activity.name}</p>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={() => onNavigate(`admin/activities/checkin/${activityId}`)}
+            className="px-4 py-2.5 bg-white/10 border border-white/20 text-white rounded-lg hover:bg-white/20 transition-colors flex items-center gap-2"
+          >
+            <ScanLine className="w-4 h-4" />
+            {currentContent.checkIn}
+          </button>
+          <button
+            onClick={() => setShowAddForm(prev => !prev)}
+            className="px-4 py-2.5 bg-gradient-to-r from-[#AA4626] to-[#FCB283] text-white rounded-lg hover:from-[#AA4626]/90 hover:to-[#FCB283]/90 transition-all duration-300 flex items-center gap-2 shadow-lg"
+          >
+            <UserPlus className="w-4 h-4" />
+            {currentContent.addParticipant}
+          </button>
+          <button
+            onClick={() => handleExport('csv')}
+            disabled={isExporting}
+            className="px-4 py-2.5 bg-white/10 border border-white/20 text-white rounded-lg hover:bg-white/20 transition-colors flex items-center gap-2 disabled:opacity-50"
+          >
+            <Download className="w-4 h-4" />
+            {currentContent.exportCsv}
+          </button>
+          <button
+            onClick={() => handleExport('pdf')}
+            disabled={isExporting}
+            className="px-4 py-2.5 bg-white/10 border border-white/20 text-white rounded-lg hover:bg-white/20 transition-colors flex items-center gap-2 disabled:opacity-50"
+          >
+            <FileText className="w-4 h-4" />
+            {currentContent.exportPdf}
+          </button>
+          <button
+            onClick={handleResync}
+            disabled={busyUserId !== null}
+            className="p-2.5 bg-white/10 border border-white/20 text-white/70 rounded-lg hover:bg-white/20 hover:text-white transition-colors disabled:opacity-50"
+            title={currentContent.resync}
+          >
+            <RefreshCw className={`w-4 h-4 ${busyUserId === 'resync' ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+      </div>
+
+      {/* Statistics */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="glass-container rounded-lg p-4">
+          <div className="text-2xl font-bold text-green-400">{activity.registeredParticipants || 0}</div>
+          <div className="text-sm text-white/70">{currentContent.confirmed}</div>
+        </div>
+        <div className="glass-container rounded-lg p-4">
+          <div className="text-2xl font-bold text-blue-400">{activity.attendedParticipants || 0}</div>
+          <div className="text-sm text-white/70">{currentContent.checkedIn}</div>
+        </div>
+        <div className="glass-container rounded-lg p-4">
+          <div className="text-2xl font-bold text-orange-400">{activity.waitlistCount || 0}</div>
+          <div className="text-sm text-white/70">{currentContent.waitlist}</div>
+        </div>
+        <div className="glass-container rounded-lg p-4">
+          <div className="text-2xl font-bold text-[#FCB283]">
+            {getEffectiveCapacity(activity) === 0 ? currentContent.unlimited : getEffectiveCapacity(activity)}
+          </div>
+          <div className="text-sm text-white/70">{currentContent.capacity}</div>
+        </div>
+      </div>
+
+      {/* Add Participant Form */}
+      {showAddForm && (
+        <form onSubmit={handleAddParticipant} className="glass-container rounded-xl p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className={`text-lg ${getClass('header')} text-white flex items-center gap-2`}>
+              <UserPlus className="w-5 h-5 text-[#FCB283]" />
+              {currentContent.addParticipant}
+            </h2>
+            <button
+              type="button"
+              onClick={() => setShowAddForm(false)}
+              className="p-1 text-white/60 hover:text-white"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <input
+              type="text"
+              placeholder={currentContent.fullName}
+              value={newParticipant.userName}
+              onChange={(e) => setNewParticipant(prev => ({ ...prev, userName: e.target.value }))}
+              className="px-4 py-2.5 border border-white/20 bg-white/10 text-white placeholder-white/60 rounded-lg focus:ring-2 focus:ring-[#FCB283] focus:border-[#FCB283]"
+            />
+            <input
+              type="email"
+              placeholder={currentContent.email}
+              value={newParticipant.userEmail}
+              onChange={(e) => setNewParticipant(prev => ({ ...prev, userEmail: e.target.value }))}
+              className="px-4 py-2.5 border border-white/20 bg-white/10 text-white placeholder-white/60 rounded-lg focus:ring-2 focus:ring-[#FCB283] focus:border-[#FCB283]"
+            />
+            <input
+              type="tel"
+              placeholder={currentContent.phone}
+              value={newParticipant.userPhone}
+              onChange={(e) => setNewParticipant(prev => ({ ...prev, userPhone: e.target.value }))}
+              className="px-4 py-2.5 border border-white/20 bg-white/10 text-white placeholder-white/60 rounded-lg focus:ring-2 focus:ring-[#FCB283] focus:border-[#FCB283]"
+            />
+            <select
+              value={newParticipant.status}
+              onChange={(e) => setNewParticipant(prev => ({ ...prev, status: e.target.value as 'confirmed' | 'waitlisted' }))}
+              className="px-4 py-2.5 border border-white/20 bg-white/10 text-white rounded-lg focus:ring-2 focus:ring-[#FCB283] focus:border-[#FCB283]"
+            >
+              <option value="confirmed" className="bg-gray-800 text-white">
+                {currentContent.addAs}: {getStatusLabel('confirmed')}
+              </option>
+              <option value="waitlisted" className="bg-gray-800 text-white">
+                {currentContent.addAs}: {getStatusLabel('waitlisted')}
+              </option>
+            </select>
+          </div>
+          <div className="flex justify-end gap-3 mt-4">
+            <AnimatedButton variant="outline" size="small" onClick={() => setShowAddForm(false)}>
+              {currentContent.cancel}
+            </AnimatedButton>
+            <AnimatedButton type="submit" variant="primary" size="small">
+              {isAdding ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  {currentContent.adding}
+                </>
+              ) : currentContent.save}
+            </AnimatedButton>
+          </div>
+        </form>
+      )}
+
+      {/* Filters */}
+      <div className="glass-container rounded-xl p-4 flex flex-col md:flex-row gap-4">
+        <div className="flex-1 relative">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-white/60 w-4 h-4" />
+          <input
+            type="text"
+            placeholder={currentContent.searchPlaceholder}
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="w-full pl-10 pr-4 py-2.5 border border-white/20 bg-white/10 text-white placeholder-white/60 rounded-lg focus:ring-2 focus:ring-[#FCB283] focus:border-[#FCB283]"
+          />
+        </div>
+        <div className="relative">
+          <Filter className="absolute left-3 top-1/2 transform -translate-y-1/2 text-white/60 w-4 h-4" />
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as RegistrationStatus | 'all')}
+            className="pl-10 pr-8 py-2.5 border border-white/20 bg-white/10 text-white rounded-lg focus:ring-2 focus:ring-[#FCB283] focus:border-[#FCB283] appearance-none"
+          >
+            <option value="all" className="bg-gray-800 text-white">{currentContent.allStatuses}</option>
+            {REGISTRATION_STATUS_OPTIONS.map(option => (
+              <option key={option.value} value={option.value} className="bg-gray-800 text-white">
+                {currentLanguage === 'th' ? option.labelTh : option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {/* Roster Table */}
+      <div className="glass-container rounded-xl overflow-hidden">
+        {filteredRegistrations.length === 0 ? (
+          <div className="p-12 text-center">
+            <Users className="w-16 h-16 mx-auto text-white/40 mb-4" />
+            <p className={`${getClass('body')} text-white/70`}>{currentContent.noParticipants}</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="bg-white/5 text-white/70">
+                <tr>
+                  <th className="px-4 py-3 text-left font-medium">#</th>
+                  <th className="px-4 py-3 text-left font-medium">{currentContent.name}</th>
+                  <th className="px-4 py-3 text-left font-medium">{currentContent.contact}</th>
+                  <th className="px-4 py-3 text-left font-medium">{currentContent.status}</th>
+                  <th className="px-4 py-3 text-left font-medium">{currentContent.registeredAt}</th>
+                  <th className="px-4 py-3 text-right font-medium">{currentContent.actions}</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-white/10">
+                {filteredRegistrations.map((registration, index) => (
+                  <tr key={registration.id} className="text-white/90 hover:bg-white/5">
+                    <td className="px-4 py-3 text-white/50">{index + 1}</td>
+                    <td className="px-4 py-3">
+                      <div className={`font-medium ${getClass('body')}`}>{registration.userName}</div>
+                      {registration.addedBy && (
+                        <div className="text-xs text-white/50">{currentContent.manual}</div>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="flex items-center gap-2 text-white/80">
+                        <Mail className="w-3 h-3 text-[#FCB283]" />
+                        <a href={`mailto:${registration.userEmail}`} className="hover:text-[#FCB283]">
+                          {registration.userEmail}
+                        </a>
+                      </div>
+                      {registration.userPhone && (
+                        <div className="flex items-center gap-2 text-white/60 mt-1">
+                          <Phone className="w-3 h-3 text-[#FCB283]" />
+                          {registration.userPhone}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium border ${statusBadgeColors[registration.status]}`}>
+                        {getStatusLabel(registration.status)}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 text-white/60">{formatDateTime(registration.registeredAt)}</td>
+                    <td className="px-4 py-3">
+                      <div className="flex items-center justify-end gap-1">
+                        {busyUserId === registration.userId ? (
+                          <Loader2 className="w-4 h-4 animate-spin text-[#FCB283]" />
+                        ) : (
+                          <>
+                            {registration.status === 'waitlisted' && (
+                              <button
+                                onClick={() => handleMove(registration, 'confirmed')}
+                                className="p-1.5 text-white/60 hover:text-green-400 hover:bg-green-400/20 rounded-lg transition-colors"
+                                title={currentContent.promote}
+                              >
+                                <ArrowUpCircle className="w-4 h-4" />
+                              </button>
+                            )}
+                            {registration.status === 'confirmed' && (
+                              <button
+                                onClick={() => handleMove(registration, 'waitlisted')}
+                                className="p-1.5 text-white/60 hover:text-orange-400 hover:bg-orange-400/20 rounded-lg transition-colors"
+                                title={currentContent.moveToWaitlist}
+                              >
+                                <ArrowDownCircle className="w-4 h-4" />
+                              </button>
+                            )}
+                            <button
+                              onClick={() => handleRemove(registration)}
+                              className="p-1.5 text-white/60 hover:text-red-400 hover:bg-red-400/20 rounded-lg transition-colors"
+                              title={currentContent.remove}
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          </>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ActivityParticipants;
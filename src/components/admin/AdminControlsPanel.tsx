@@ -15,11 +15,17 @@ import {
   Save,
   Edit3,
   Trash2,
-  X
+  X,
+  CornerDownRight
 } from 'lucide-react';
 import AnimatedButton from '../ui/AnimatedButton';
+import MentionTextarea from './MentionTextarea';
 import { useAdminNotes } from '../../hooks/useAdminNotes';
-import { notesService } from '../../services/notesService';
+import { notesService, NoteThread } from '../../services/notesService';
+import { buildNoteThreads, splitMentions } from '../../utils/noteThreads';
+
+// Replies nest visually up to this depth; deeper replies line up with the last level
+const MAX_THREAD_INDENT = 3;
 
 const AdminControlsPanel: React.FC<AdminControlsPanelProps> = ({
   application,
@@ -41,6 +47,8 @@ const AdminControlsPanel: React.FC<AdminControlsPanelProps> = ({
   const [newNoteContent, setNewNoteContent] = useState('');
   const [editingNoteId, setEditingNoteId] = useState<string | null>(null);
   const [editingContent, setEditingContent] = useState('');
+  const [replyingToId, setReplyingToId] = useState<string | null>(null);
+  const [replyContent, setReplyContent] = useState('');
 
   // Use the admin notes hook
   const {
@@ -49,11 +57,14 @@ const AdminControlsPanel: React.FC<AdminControlsPanelProps> = ({
     isCreating,
     isUpdating: isUpdatingNote,
     isDeleting,
+    mentionCandidates,
     createNote,
     updateNote,
     deleteNote,
     canEditNote
-  } = useAdminNotes(application.id);
+  } = useAdminNotes(application.id, application.filmTitle);
+
+  const noteThreads = buildNoteThreads(adminNotes);
 
   const content = {
     th: {
@@ -86,6 +97,9 @@ const AdminControlsPanel: React.FC<AdminControlsPanelProps> = ({
       confirmDelete: "คุณแน่ใจหรือไม่ที่จะลบบันทึกนี้?",
       noNotes: "ยังไม่มีบันทึก",
       edited: "แก้ไขแล้ว",
+      reply: "ตอบกลับ",
+      replyPlaceholder: "เขียนคำตอบ... พิมพ์ @ เพื่อกล่าวถึงผู้ดูแลคนอื่น",
+      mentionHint: "พิมพ์ @ เพื่อกล่าวถึงและแจ้งเตือนผู้ดูแลคนอื่น",
       
       // Flag system
       flagApplication: "ตั้งค่าสถานะพิเศษ",
@@ -136,6 +150,9 @@ const AdminControlsPanel: React.FC<AdminControlsPanelProps> = ({
       confirmDelete: "Are you sure you want to delete this note?",
       noNotes: "No notes yet",
       edited: "edited",
+      reply: "Reply",
+      replyPlaceholder: "Write a reply... type @ to mention another admin",
+      mentionHint: "Type @ to mention and notify another admin",
       
       // Flag system
       flagApplication: "Flag Application",
@@ -207,6 +224,22 @@ const AdminControlsPanel: React.FC<AdminControlsPanelProps> = ({
     }
   };
 
+  const handleStartReply = (noteId: string) => {
+    setReplyingToId(noteId);
+    setReplyContent('');
+  };
+
+  const handleSaveReply = async () => {
+    if (!replyingToId || !replyContent.trim()) return;
+    try {
+      await createNote(replyContent, replyingToId);
+      setReplyingToId(null);
+      setReplyContent('');
+    } catch (error) {
+      console.error('Failed to reply to note:', error);
+    }
+  };
+
   const handleStartEdit = (noteId: string, content: string) => {
     setEditingNoteId(noteId);
     setEditingContent(content);
@@ -239,6 +272,133 @@ const AdminControlsPanel: React.FC<AdminControlsPanelProps> = ({
     }
   };
 
+  const renderThread = ({ note, replies }: NoteThread, depth: number): React.ReactNode => (
+    <div key={note.id} className="space-y-3">
+      <div className={`glass-card p-4 rounded-xl border-l-4 ${depth === 0 ? 'border-blue-400' : 'border-[#FCB283]/60'}`}>
+        <div className="flex items-start justify-between mb-2">
+          <div className="flex items-center space-x-2">
+            <div className={`w-8 h-8 rounded-full bg-gradient-to-r ${notesService.getAdminAvatarColor(note.adminId)} flex items-center justify-center text-white font-bold text-xs`}>
+              {notesService.getAdminInitials(note.adminName)}
+            </div>
+            <div>
+              <p className={`${getClass('body')} text-white font-medium text-sm`}>
+                {note.adminName}
+              </p>
+              <p className={`text-xs ${getClass('body')} text-white/60`}>
+                {note.adminRole || 'Admin'}
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center space-x-2">
+            <span className={`text-xs ${getClass('body')} text-white/60`}>
+              {notesService.formatRelativeTime(note.createdAt, currentLanguage)}
+              {note.isEdited && ` • ${currentContent.edited}`}
+            </span>
+            <div className="flex space-x-1">
+              <button
+                onClick={() => handleStartReply(note.id)}
+                className="p-1 text-white/60 hover:text-white transition-colors"
+                title={currentContent.reply}
+              >
+                <CornerDownRight className="w-3 h-3" />
+              </button>
+              {canEditNote(note) && (
+                <>
+                  <button
+                    onClick={() => handleStartEdit(note.id, note.content)}
+                    className="p-1 text-white/60 hover:text-white transition-colors"
+                    title={currentContent.editNote}
+                  >
+                    <Edit3 className="w-3 h-3" />
+                  </button>
+                  <button
+                    onClick={isDeleting ? undefined : () => handleDeleteNote(note.id)}
+                    className={`p-1 text-white/60 hover:text-red-400 transition-colors ${isDeleting ? 'opacity-50 cursor-not-allowed' : ''}`}
+                    title={currentContent.deleteNote}
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {editingNoteId === note.id ? (
+          <div className="space-y-2">
+            <MentionTextarea
+              value={editingContent}
+              onChange={setEditingContent}
+              candidates={mentionCandidates}
+              rows={3}
+              className="w-full p-2 bg-white/5 border border-white/10 rounded text-white text-sm resize-vertical"
+            />
+            <div className="flex justify-end space-x-2">
+              <button
+                onClick={handleCancelEdit}
+                className="px-2 py-1 text-xs text-white/60 hover:text-white transition-colors"
+              >
+                <X className="w-3 h-3" />
+              </button>
+              <button
+                onClick={isUpdatingNote ? undefined : handleSaveEdit}
+                className={`px-2 py-1 text-xs text-green-400 hover:text-green-300 transition-colors ${isUpdatingNote ? 'opacity-50 cursor-not-allowed' : ''}`}
+              >
+                <Save className="w-3 h-3" />
+              </button>
+            </div>
+          </div>
+        ) : (
+          <p className={`${getClass('body')} text-white/90 text-sm leading-relaxed whitespace-pre-wrap`}>
+            {splitMentions(note.content, note.mentions || []).map((segment, index) =>
+              segment.mention ? (
+                <span key={index} className="text-[#FCB283] font-medium">{segment.text}</span>
+              ) : (
+                <React.Fragment key={index}>{segment.text}</React.Fragment>
+              )
+            )}
+          </p>
+        )}
+      </div>
+
+      {(replies.length > 0 || replyingToId === note.id) && (
+        <div className={`space-y-3 ${depth < MAX_THREAD_INDENT ? 'ml-4 sm:ml-6 pl-3 border-l border-white/10' : ''}`}>
+          {replies.map(reply => renderThread(reply, depth + 1))}
+
+          {replyingToId === note.id && (
+            <div className="glass-card p-3 rounded-xl">
+              <MentionTextarea
+                value={replyContent}
+                onChange={setReplyContent}
+                candidates={mentionCandidates}
+                placeholder={currentContent.replyPlaceholder}
+                rows={2}
+                autoFocus
+                className="w-full p-2 bg-white/5 border border-white/10 rounded text-white text-sm placeholder-white/50 focus:border-[#FCB283] focus:outline-none resize-vertical"
+              />
+              <div className="flex justify-end space-x-2 mt-2">
+                <button
+                  onClick={() => setReplyingToId(null)}
+                  className="px-2 py-1 text-xs text-white/60 hover:text-white transition-colors"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+                <button
+                  onClick={isCreating || !replyContent.trim() ? undefined : handleSaveReply}
+                  className={`px-3 py-1 text-xs rounded bg-[#FCB283]/20 text-[#FCB283] hover:bg-[#FCB283]/30 transition-colors ${
+                    isCreating || !replyContent.trim() ? 'opacity-50 cursor-not-allowed' : ''
+                  }`}
+                >
+                  {currentContent.reply}
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+
   return (
     <div className="space-y-6 sm:space-y-8">
       
@@ -333,13 +493,15 @@ const AdminControlsPanel: React.FC<AdminControlsPanelProps> = ({
             
             {/* Add New Note Form */}
             <div className="mb-4 glass-card p-4 rounded-xl">
-              <textarea
+              <MentionTextarea
                 value={newNoteContent}
-                onChange={(e) => setNewNoteContent(e.target.value)}
+                onChange={setNewNoteContent}
+                candidates={mentionCandidates}
                 placeholder={currentContent.newNotePlaceholder}
                 rows={3}
                 className="w-full p-3 bg-white/5 border border-white/10 rounded-lg text-white placeholder-white/50 focus:border-[#FCB283] focus:outline-none resize-vertical"
               />
+              <p className={`text-xs ${getClass('body')} text-white/40 mt-1`}>{currentContent.mentionHint}</p>
               {newNoteContent.trim() && (
                 <div className="flex justify-end mt-3">
                   <AnimatedButton
@@ -365,78 +527,7 @@ const AdminControlsPanel: React.FC<AdminControlsPanelProps> = ({
                   <p className="text-white/60 text-center">{currentContent.noNotes}</p>
                 </div>
               ) : (
-                adminNotes.map((note) => (
-                  <div key={note.id} className="glass-card p-4 rounded-xl border-l-4 border-blue-400">
-                    <div className="flex items-start justify-between mb-2">
-                      <div className="flex items-center space-x-2">
-                        <div className={`w-8 h-8 rounded-full bg-gradient-to-r ${notesService.getAdminAvatarColor(note.adminId)} flex items-center justify-center text-white font-bold text-xs`}>
-                          {notesService.getAdminInitials(note.adminName)}
-                        </div>
-                        <div>
-                          <p className={`${getClass('body')} text-white font-medium text-sm`}>
-                            {note.adminName}
-                          </p>
-                          <p className={`text-xs ${getClass('body')} text-white/60`}>
-                            {note.adminRole || 'Admin'}
-                          </p>
-                        </div>
-                      </div>
-                      <div className="flex items-center space-x-2">
-                        <span className={`text-xs ${getClass('body')} text-white/60`}>
-                          {notesService.formatRelativeTime(note.createdAt, currentLanguage)}
-                          {note.isEdited && ` • ${currentContent.edited}`}
-                        </span>
-                        {canEditNote(note) && (
-                          <div className="flex space-x-1">
-                            <button
-                              onClick={() => handleStartEdit(note.id, note.content)}
-                              className="p-1 text-white/60 hover:text-white transition-colors"
-                              title={currentContent.editNote}
-                            >
-                              <Edit3 className="w-3 h-3" />
-                            </button>
-                            <button
-                              onClick={isDeleting ? undefined : () => handleDeleteNote(note.id)}
-                              className={`p-1 text-white/60 hover:text-red-400 transition-colors ${isDeleting ? 'opacity-50 cursor-not-allowed' : ''}`}
-                              title={currentContent.deleteNote}
-                            >
-                              <Trash2 className="w-3 h-3" />
-                            </button>
-                          </div>
-                        )}
-                      </div>
-                    </div>
-                    
-                    {editingNoteId === note.id ? (
-                      <div className="space-y-2">
-                        <textarea
-                          value={editingContent}
-                          onChange={(e) => setEditingContent(e.target.value)}
-                          rows={3}
-                          className="w-full p-2 bg-white/5 border border-white/10 rounded text-white text-sm resize-vertical"
-                        />
-                        <div className="flex justify-end space-x-2">
-                          <button
-                            onClick={handleCancelEdit}
-                            className="px-2 py-1 text-xs text-white/60 hover:text-white transition-colors"
-                          >
-                            <X className="w-3 h-3" />
-                          </button>
-                          <button
-                            onClick={isUpdatingNote ? undefined : handleSaveEdit}
-                            className={`px-2 py-1 text-xs text-green-400 hover:text-green-300 transition-colors ${isUpdatingNote ? 'opacity-50 cursor-not-allowed' : ''}`}
-                          >
-                            <Save className="w-3 h-3" />
-                          </button>
-                        </div>
-                      </div>
-                    ) : (
-                      <p className={`${getClass('body')} text-white/90 text-sm leading-relaxed`}>
-                        {note.content}
-                      </p>
-                    )}
-                  </div>
-                ))
+                noteThreads.map(thread => renderThread(thread, 0))
               )}
             </div>
           </div>
@@ -4,6 +4,7 @@ import { useTypography } from '../../utils/typography';
 import { useAuth } from '../auth/AuthContext';
 import { useAdmin } from './AdminContext';
 import { AdminProtectedRouteProps } from '../../types/admin.types';
+import { isJuryUser } from '../../utils/userUtils';
 import { Shield, AlertTriangle, Lock } from 'lucide-react';
 
 const AdminProtectedRoute: React.FC<AdminProtectedRouteProps> = ({
@@ -11,7 +12,8 @@ const AdminProtectedRoute: React.FC<AdminProtectedRouteProps> = ({
   requiredPermission,
   requiredPermissions,
   fallback,
-  onUnauthorized
+  onUnauthorized,
+  allowJury = false
 }) => {
   const { i18n } = useTranslation();
   const { getClass } = useTypography();
@@ -73,6 +75,11 @@ const AdminProtectedRoute: React.FC<AdminProtectedRouteProps> = ({
       return <>{children}</>;
     }
     
+    // Jurors only reach the pages that opt in to blind review
+    if (allowJury && isJuryUser(userProfile)) {
+      return <>{children}</>;
+    }
+    
     console.log('AdminProtectedRoute: User is not admin, blocking access');
     console.log('AdminProtectedRoute: Current admin state:', { 
       isAdmin, 
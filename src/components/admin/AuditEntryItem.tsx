@@ -0,0 +1,101 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { useTypography } from '../../utils/typography';
+import { ArrowRight, FileText, Flag, RefreshCw, Star, Trash2, ClipboardCheck, ExternalLink } from 'lucide-react';
+import { SubmissionAuditAction, SubmissionAuditEntry } from '../../types/audit.types';
+import { AUDIT_ACTION_LABELS, formatAuditValue } from '../../utils/auditDiff';
+
+interface AuditEntryItemProps {
+  entry: SubmissionAuditEntry;
+  showSubmission?: boolean; // Link to the submission, for the global audit log
+}
+
+const ACTION_ICONS: Record<SubmissionAuditAction, React.ElementType> = {
+  status_change: RefreshCw,
+  review_status: ClipboardCheck,
+  flag: Flag,
+  score: Star,
+  file_replace: FileText,
+  delete: Trash2
+};
+
+const AuditEntryItem: React.FC<AuditEntryItemProps> = ({ entry, showSubmission = false }) => {
+  const { i18n } = useTranslation();
+  const { getClass } = useTypography();
+  const currentLanguage = i18n.language as 'en' | 'th';
+
+  const content = {
+    th: {
+      by: "โดย",
+      reason: "เหตุผล",
+      noChanges: "ไม่มีการเปลี่ยนแปลงข้อมูล"
+    },
+    en: {
+      by: "by",
+      reason: "Reason",
+      noChanges: "No field changes recorded"
+    }
+  };
+
+  const currentContent = content[currentLanguage];
+  const Icon = ACTION_ICONS[entry.action] || RefreshCw;
+  const isDestructive = entry.action === 'delete';
+
+  return (
+    <div className="glass-card rounded-xl p-4">
+      <div className="flex items-start justify-between gap-3">
+        <div className="flex items-start space-x-3 min-w-0">
+          <div className={`p-2 rounded-lg flex-shrink-0 ${isDestructive ? 'bg-red-500/20' : 'bg-[#FCB283]/20'}`}>
+            <Icon className={`w-4 h-4 ${isDestructive ? 'text-red-400' : 'text-[#FCB283]'}`} />
+          </div>
+          <div className="min-w-0">
+            <p className={`${getClass('body')} text-white text-sm`}>
+              <span className="font-medium">{AUDIT_ACTION_LABELS[entry.action]?.[currentLanguage] || entry.action}</span>
+              <span className="text-white/60"> {currentContent.by} {entry.actorName}</span>
+            </p>
+            {showSubmission && (
+              <a
+                href={`#admin/application/${entry.submissionId}`}
+                className="inline-flex items-center space-x-1 text-xs text-[#FCB283] hover:text-white transition-colors mt-0.5"
+              >
+                <span className="truncate">{entry.filmTitle || entry.submissionId}</span>
+                <ExternalLink className="w-3 h-3 flex-shrink-0" />
+              </a>
+            )}
+          </div>
+        </div>
+        <span className="text-white/40 text-xs whitespace-nowrap">
+          {entry.timestamp.toLocaleString(currentLanguage === 'th' ? 'th-TH' : 'en-US', {
+            year: 'numeric',
+            month: 'short',
+            day: 'numeric',
+            hour: '2-digit',
+            minute: '2-digit'
+          })}
+        </span>
+      </div>
+
+      <div className="mt-3 ml-11 space-y-1">
+        {entry.changes.length === 0 ? (
+          <p className={`${getClass('body')} text-white/40 text-xs`}>{currentContent.noChanges}</p>
+        ) : (
+          entry.changes.map(change => (
+            <div key={change.field} className="flex flex-wrap items-center gap-x-2 text-xs">
+              <span className="text-white/60 font-mono">{change.field}</span>
+              <span className="text-red-300/80 line-through break-all">{formatAuditValue(change.before)}</span>
+              <ArrowRight className="w-3 h-3 text-white/40" />
+              <span className="text-green-300 break-all">{formatAuditValue(change.after)}</span>
+            </div>
+          ))
+        )}
+        {entry.reason && (
+          <p className={`${getClass('body')} text-white/60 text-xs pt-1`}>
+            {currentContent.reason}: {entry.reason}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AuditEntryItem;
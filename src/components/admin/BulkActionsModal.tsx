@@ -1,8 +1,11 @@
 import React, { useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { useTypography } from '../../utils/typography';
-import { UserRole, RoleDefinition } from '../../types/admin.types';
+import { UserRole, RoleDefinition, ExportColumnSelection } from '../../types/admin.types';
 import { RoleService } from '../../services/roleService';
+import { ExportService, ExportOptions } from '../../services/exportService';
+import { getDefaultExportColumns } from '../../utils/exportColumns';
+import ExportTemplateEditor from '../ui/ExportTemplateEditor';
 import { useAdmin } from './AdminContext';
 import {
   X,
@@ -15,7 +18,8 @@ import {
   AlertTriangle,
   Loader,
   UserCheck,
-  UserX
+  UserX,
+  Download
 } from 'lucide-react';
 
 // Role definitions matching other components
@@ -99,7 +103,7 @@ interface BulkActionsModalProps {
   onActionComplete: () => void;
 }
 
-type BulkAction = 'changeRole' | 'changeStatus' | 'delete';
+type BulkAction = 'changeRole' | 'changeStatus' | 'export' | 'delete';
 
 const BulkActionsModal: React.FC<BulkActionsModalProps> = ({ 
   isOpen, 
@@ -118,6 +122,8 @@ const BulkActionsModal: React.FC<BulkActionsModalProps> = ({
   const [reason, setReason] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [step, setStep] = useState<'select' | 'confirm' | 'success'>('select');
+  const [exportFormat, setExportFormat] = useState<ExportOptions['format']>('excel');
+  const [exportColumns, setExportColumns] = useState<ExportColumnSelection[]>(() => getDefaultExportColumns('users'));
 
   // Content translations
   const content = {
@@ -129,15 +135,24 @@ const BulkActionsModal: React.FC<BulkActionsModalProps> = ({
       actions: {
         changeRole: "เปลี่ยนบทบาท",
         changeStatus: "เปลี่ยนสถานะ",
+        export: "ส่งออกรายชื่อ",
         delete: "ลบผู้ใช้"
       },
       actionDescriptions: {
         changeRole: "เปลี่ยนบทบาทของผู้ใช้ที่เลือกไว้",
         changeStatus: "เปลี่ยนสถานะของผู้ใช้ที่เลือกไว้",
+        export: "ดาวน์โหลดข้อมูลผู้ใช้ที่เลือกไว้ตามคอลัมน์ที่กำหนด",
         delete: "ลบผู้ใช้ที่เลือกไว้ออกจากระบบ"
       },
       newRole: "บทบาทใหม่",
       newStatus: "สถานะใหม่",
+      exportFormat: "รูปแบบไฟล์",
+      formats: {
+        csv: "CSV",
+        excel: "Excel (.xlsx)",
+        pdf: "PDF"
+      },
+      download: "ดาวน์โหลด",
       reason: "เหตุผล (ไม่บังคับ)",
       reasonPlaceholder: "กรอกเหตุผลในการเปลี่ยนแปลง",
       confirm: "ยืนยันการดำเนินการ",
@@ -169,15 +184,24 @@ const BulkActionsModal: React.FC<BulkActionsModalProps> = ({
       actions: {
         changeRole: "Change Role",
         changeStatus: "Change Status",
+        export: "Export Users",
         delete: "Delete Users"
       },
       actionDescriptions: {
         changeRole: "Change the role of selected users",
         changeStatus: "Change the status of selected users",
+        export: "Download selected users with the columns you choose",
         delete: "Remove selected users from the system"
       },
       newRole: "New Role",
       newStatus: "New Status",
+      exportFormat: "File Format",
+      formats: {
+        csv: "CSV",
+        excel: "Excel (.xlsx)",
+        pdf: "PDF"
+      },
+      download: "Download",
       reason: "Reason (Optional)",
       reasonPlaceholder: "Enter reason for the change",
       confirm: "Confirm Action",
@@ -231,6 +255,13 @@ const BulkActionsModal: React.FC<BulkActionsModalProps> = ({
           }
           break;
 
+        case 'export':
+          await new ExportService().exportUsers(selectedUsers, {
+            format: exportFormat,
+            columns: exportColumns
+          });
+          break;
+
         case 'delete':
           // TODO: Implement bulk delete functionality
           // This would require additional service methods
@@ -258,6 +289,8 @@ const BulkActionsModal: React.FC<BulkActionsModalProps> = ({
     setSelectedRole('user');
     setSelectedStatus('active');
     setReason('');
+    setExportFormat('excel');
+    setExportColumns(getDefaultExportColumns('users'));
     setStep('select');
     setIsSubmitting(false);
     onClose();
@@ -268,7 +301,7 @@ const BulkActionsModal: React.FC<BulkActionsModalProps> = ({
   return (
     <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
       <div 
-        className="glass-container rounded-xl border border-white/20 max-w-md w-full max-h-[90vh] overflow-y-auto"
+        className={`glass-container rounded-xl border border-white/20 ${selectedAction === 'export' ? 'max-w-2xl' : 'max-w-md'} w-full max-h-[90vh] overflow-y-auto`}
         style={{
           background: 'rgba(255, 255, 255, 0.08)',
           backdropFilter: 'blur(20px)'
@@ -310,7 +343,7 @@ const BulkActionsModal: React.FC<BulkActionsModalProps> = ({
                 {currentContent.selectAction}
               </h4>
               <div className="space-y-2">
-                {(['changeRole', 'changeStatus', 'delete'] as const).map((action) => (
+                {(['changeRole', 'changeStatus', 'export', 'delete'] as const).map((action) => (
                   <button
                     key={action}
                     onClick={() => setSelectedAction(action)}
@@ -326,6 +359,7 @@ const BulkActionsModal: React.FC<BulkActionsModalProps> = ({
                       }`}>
                         {action === 'changeRole' && <Shield size={16} className="text-blue-400" />}
                         {action === 'changeStatus' && <UserCheck size={16} className="text-blue-400" />}
+                        {action === 'export' && <Download size={16} className="text-blue-400" />}
                         {action === 'delete' && <UserX size={16} className="text-red-400" />}
                       </div>
                       <div className="flex-1">
@@ -423,8 +457,44 @@ const BulkActionsModal: React.FC<BulkActionsModalProps> = ({
               </div>
             )}
 
+            {selectedAction === 'export' && (
+              <div className="mb-6 space-y-6">
+                <div>
+                  <label className={`block ${getClass('body')} text-white/80 mb-3`}>
+                    {currentContent.exportFormat}
+                  </label>
+                  <div className="grid grid-cols-3 gap-2">
+                    {(['csv', 'excel', 'pdf'] as const).map((format) => (
+                      <button
+                        key={format}
+                        onClick={() => setExportFormat(format)}
+                        className={`p-2 rounded-lg border transition-all duration-200 ${
+                          exportFormat === format
+                            ? 'border-[#FCB283] bg-[#FCB283]/20'
+                            : 'border-white/20 hover:border-white/30 hover:bg-white/5'
+                        }`}
+                      >
+                        <span className={`${getClass('body')} text-white text-sm`}>
+                          {currentContent.formats[format]}
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <ExportTemplateEditor
+                  target="users"
+                  columns={exportColumns}
+                  onColumnsChange={setExportColumns}
+                  settings={{ format: exportFormat, includeScores: false, includeNotes: false }}
+                  onApplySettings={(settings) => setExportFormat(settings.format)}
+                  onPreview={async () => new ExportService().previewUsers(selectedUsers, { format: exportFormat, columns: exportColumns })}
+                  disabled={isSubmitting}
+                />
+              </div>
+            )}
+
             {/* Reason Input */}
-            {selectedAction && selectedAction !== 'delete' && (
+            {selectedAction && selectedAction !== 'delete' && selectedAction !== 'export' && (
               <div className="mb-6">
                 <label className={`block ${getClass('body')} text-white/80 mb-2`}>
                   {currentContent.reason}
@@ -447,13 +517,34 @@ const BulkActionsModal: React.FC<BulkActionsModalProps> = ({
               >
                 {currentContent.cancel}
               </button>
-              <button
-                onClick={() => setStep('confirm')}
-                disabled={!selectedAction}
-                className="flex-1 px-4 py-3 bg-[#FCB283] hover:bg-[#AA4626] text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                {currentContent.confirm}
-              </button>
+              {/* Exports change nothing, so they skip the confirmation step */}
+              {selectedAction === 'export' ? (
+                <button
+                  onClick={handleExecute}
+                  disabled={isSubmitting || exportColumns.length === 0}
+                  className="flex-1 px-4 py-3 bg-[#FCB283] hover:bg-[#AA4626] text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                >
+                  {isSubmitting ? (
+                    <>
+                      <Loader size={16} className="animate-spin" />
+                      {currentContent.executing}
+                    </>
+                  ) : (
+                    <>
+                      <Download size={16} />
+                      {currentContent.download}
+                    </>
+                  )}
+                </button>
+              ) : (
+                <button
+                  onClick={() => setStep('confirm')}
+                  disabled={!selectedAction}
+                  className="flex-1 px-4 py-3 bg-[#FCB283] hover:bg-[#AA4626] text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {currentContent.confirm}
+                </button>
+              )}
             </div>
           </div>
         )}
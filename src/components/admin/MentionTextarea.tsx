@@ -0,0 +1,116 @@
+import React, { useState, useRef } from 'react';
+import { NoteMention } from '../../services/notesService';
+import { getMentionQuery, insertMention } from '../../utils/noteThreads';
+
+interface MentionTextareaProps {
+  value: string;
+  onChange: (value: string) => void;
+  candidates: NoteMention[];
+  placeholder?: string;
+  rows?: number;
+  className?: string;
+  autoFocus?: boolean;
+}
+
+// Suggestions shown at once in the autocomplete list
+const MAX_SUGGESTIONS = 6;
+
+const MentionTextarea: React.FC<MentionTextareaProps> = ({
+  value,
+  onChange,
+  candidates,
+  placeholder,
+  rows = 3,
+  className = '',
+  autoFocus = false
+}) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [mentionQuery, setMentionQuery] = useState<{ query: string; start: number } | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const suggestions = mentionQuery
+    ? candidates
+        .filter(candidate => candidate.name.toLowerCase().includes(mentionQuery.query.toLowerCase()))
+        .slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  const updateMentionQuery = (text: string, caret: number) => {
+    setMentionQuery(getMentionQuery(text, caret));
+    setActiveIndex(0);
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    onChange(e.target.value);
+    updateMentionQuery(e.target.value, e.target.selectionStart);
+  };
+
+  const selectSuggestion = (candidate: NoteMention) => {
+    const textarea = textareaRef.current;
+    if (!textarea || !mentionQuery) return;
+
+    const result = insertMention(value, mentionQuery.start, textarea.selectionStart, candidate.name);
+    onChange(result.text);
+    setMentionQuery(null);
+
+    // Restore the caret after React re-renders the new value
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(result.caret, result.caret);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length === 0) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex((activeIndex + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex((activeIndex - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      selectSuggestion(suggestions[activeIndex]);
+    } else if (e.key === 'Escape') {
+      setMentionQuery(null);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <textarea
+        ref={textareaRef}
+        value={value}
+        onChange={handleChange}
+        onKeyDown={handleKeyDown}
+        onClick={(e) => updateMentionQuery(value, e.currentTarget.selectionStart)}
+        onBlur={() => setTimeout(() => setMentionQuery(null), 150)}
+        placeholder={placeholder}
+        rows={rows}
+        autoFocus={autoFocus}
+        className={className}
+      />
+
+      {suggestions.length > 0 && (
+        <ul className="absolute left-0 right-0 mt-1 max-h-48 overflow-y-auto rounded-lg bg-[#110D16] border border-white/20 shadow-xl z-20">
+          {suggestions.map((candidate, index) => (
+            <li key={candidate.userId}>
+              <button
+                type="button"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => selectSuggestion(candidate)}
+                className={`w-full text-left px-3 py-2 text-sm text-white transition-colors ${
+                  index === activeIndex ? 'bg-[#FCB283]/20' : 'hover:bg-white/10'
+                }`}
+              >
+                @{candidate.name}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default MentionTextarea;
@@ -0,0 +1,92 @@
+import React, { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useTypography } from '../../utils/typography';
+import { History, RefreshCw } from 'lucide-react';
+import { SubmissionAuditEntry } from '../../types/audit.types';
+import { auditLogService } from '../../services/auditLogService';
+import AuditEntryItem from './AuditEntryItem';
+
+interface SubmissionAuditTimelineProps {
+  submissionId: string;
+}
+
+const SubmissionAuditTimeline: React.FC<SubmissionAuditTimelineProps> = ({ submissionId }) => {
+  const { i18n } = useTranslation();
+  const { getClass } = useTypography();
+  const currentLanguage = i18n.language as 'en' | 'th';
+
+  const [entries, setEntries] = useState<SubmissionAuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const content = {
+    th: {
+      title: "ประวัติการเปลี่ยนแปลง",
+      refresh: "รีเฟรช",
+      empty: "ยังไม่มีการเปลี่ยนแปลงที่บันทึกไว้",
+      loadError: "ไม่สามารถโหลดประวัติการเปลี่ยนแปลงได้"
+    },
+    en: {
+      title: "Change Timeline",
+      refresh: "Refresh",
+      empty: "No changes recorded yet",
+      loadError: "Failed to load the change timeline"
+    }
+  };
+
+  const currentContent = content[currentLanguage];
+
+  const loadTimeline = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setEntries(await auditLogService.getSubmissionTimeline(submissionId));
+    } catch (err) {
+      console.error('Error loading audit timeline:', err);
+      setError(currentContent.loadError);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadTimeline();
+  }, [submissionId]);
+
+  return (
+    <div className="glass-container rounded-2xl p-6 sm:p-8">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className={`text-xl ${getClass('header')} text-white flex items-center space-x-2`}>
+          <History className="w-5 h-5 text-[#FCB283]" />
+          <span>{currentContent.title}</span>
+        </h3>
+        <button
+          onClick={loadTimeline}
+          disabled={loading}
+          className="flex items-center space-x-2 px-3 py-2 glass-card rounded-lg text-white/80 hover:text-white text-sm transition-colors disabled:opacity-50"
+        >
+          <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          <span>{currentContent.refresh}</span>
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#FCB283]"></div>
+        </div>
+      ) : error ? (
+        <p className={`${getClass('body')} text-red-400 text-center py-8`}>{error}</p>
+      ) : entries.length === 0 ? (
+        <p className={`${getClass('body')} text-white/50 text-center py-8`}>{currentContent.empty}</p>
+      ) : (
+        <div className="relative space-y-4 pl-4 border-l border-white/10">
+          {entries.map(entry => (
+            <AuditEntryItem key={entry.id} entry={entry} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SubmissionAuditTimeline;
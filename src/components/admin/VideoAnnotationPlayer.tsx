@@ -0,0 +1,301 @@
+import React, { useState, useRef, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useTypography } from '../../utils/typography';
+import { ShortFilmComment } from '../../services/shortFilmCommentsService';
+import { SubtitleTrack } from '../../types/subtitle.types';
+import { getSubtitleLanguageLabel } from '../../utils/subtitles';
+import { MapPin, Trash2, MessageSquarePlus } from 'lucide-react';
+
+interface VideoAnnotationPlayerProps {
+  videoUrl: string;
+  posterUrl?: string;
+  subtitles: SubtitleTrack[];
+  annotations: ShortFilmComment[];
+  currentUserId?: string;
+  onAddAnnotation: (content: string, timecode: number) => Promise<void>;
+  onDeleteAnnotation: (annotationId: string) => Promise<void>;
+  className?: string;
+}
+
+const formatTimecode = (seconds: number) => {
+  const total = Math.floor(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = (total % 60).toString().padStart(2, '0');
+  return hours > 0 ? `${hours}:${minutes.toString().padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+};
+
+const VideoAnnotationPlayer: React.FC<VideoAnnotationPlayerProps> = ({
+  videoUrl,
+  posterUrl,
+  subtitles,
+  annotations,
+  currentUserId,
+  onAddAnnotation,
+  onDeleteAnnotation,
+  className = ''
+}) => {
+  const { i18n } = useTranslation();
+  const { getClass } = useTypography();
+  const currentLanguage = i18n.language as 'en' | 'th';
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [duration, setDuration] = useState(0);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [loadError, setLoadError] = useState(false);
+  const [note, setNote] = useState('');
+  const [noteTimecode, setNoteTimecode] = useState<number | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const content = {
+    th: {
+      title: "บันทึกตามช่วงเวลา",
+      placeholder: "เขียนบันทึกเกี่ยวกับช่วงนี้ของภาพยนตร์...",
+      noteAt: "บันทึกที่",
+      useCurrentTime: "ใช้เวลาปัจจุบัน",
+      addNote: "เพิ่มบันทึก",
+      saving: "กำลังบันทึก...",
+      noNotes: "ยังไม่มีบันทึก เริ่มพิมพ์ระหว่างชมเพื่อปักหมุดช่วงเวลา",
+      deleteNote: "ลบบันทึก",
+      videoUnavailable: "ไม่สามารถโหลดวิดีโอได้",
+      videoUnavailableDetail: "ไฟล์วิดีโออาจเสียหายหรือไม่สามารถเข้าถึงได้",
+      noVideo: "ไม่มีวิดีโอ",
+      subtitles: "คำบรรยาย: "
+    },
+    en: {
+      title: "Timestamped Notes",
+      placeholder: "Write a note about this moment in the film...",
+      noteAt: "Note at",
+      useCurrentTime: "Use current time",
+      addNote: "Add Note",
+      saving: "Saving...",
+      noNotes: "No notes yet. Start typing while you watch to pin a moment.",
+      deleteNote: "Delete note",
+      videoUnavailable: "Video not available",
+      videoUnavailableDetail: "The video file may be corrupted or inaccessible",
+      noVideo: "No video available",
+      subtitles: "Subtitles: "
+    }
+  };
+
+  const currentContent = content[currentLanguage];
+
+  const sortedAnnotations = useMemo(
+    () => annotations
+      .filter(annotation => typeof annotation.timecode === 'number')
+      .sort((a, b) => (a.timecode || 0) - (b.timecode || 0)),
+    [annotations]
+  );
+
+  const getPlayerTime = () => videoRef.current?.currentTime || 0;
+
+  const seekTo = (timecode: number) => {
+    if (videoRef.current) {
+      videoRef.current.currentTime = timecode;
+      setCurrentTime(timecode);
+    }
+  };
+
+  const handleScrubBarClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!duration) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    seekTo(Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width)) * duration);
+  };
+
+  // The note is pinned to the moment the reviewer starts writing it
+  const handleNoteChange = (value: string) => {
+    if (!note.trim() && value.trim()) {
+      setNoteTimecode(getPlayerTime());
+    } else if (!value.trim()) {
+      setNoteTimecode(null);
+    }
+    setNote(value);
+  };
+
+  const handleAddNote = async () => {
+    if (!note.trim() || isSaving) return;
+
+    setIsSaving(true);
+    try {
+      await onAddAnnotation(note.trim(), noteTimecode ?? getPlayerTime());
+      setNote('');
+      setNoteTimecode(null);
+    } catch (error) {
+      // Keep the note so it can be saved again; the page reports the error
+      console.error('Error adding annotation:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleNoteKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      handleAddNote();
+    }
+  };
+
+  const progressPercent = duration > 0 ? (currentTime / duration) * 100 : 0;
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      {/* Video Player */}
+      <div className="relative bg-black rounded-xl overflow-hidden">
+        {videoUrl && !loadError ? (
+          <video
+            ref={videoRef}
+            src={videoUrl}
+            className="w-full aspect-video object-contain"
+            controls
+            poster={posterUrl}
+            crossOrigin={subtitles.length > 0 ? 'anonymous' : undefined}
+            onLoadedMetadata={() => setDuration(videoRef.current?.duration || 0)}
+            onTimeUpdate={() => setCurrentTime(getPlayerTime())}
+            onError={() => setLoadError(true)}
+          >
+            {subtitles.map(track => (
+              <track
+                key={track.language}
+                kind="subtitles"
+                src={track.downloadURL}
+                srcLang={track.language}
+                label={getSubtitleLanguageLabel(track.language, currentLanguage)}
+              />
+            ))}
+          </video>
+        ) : (
+          <div className="w-full aspect-video flex flex-col items-center justify-center text-white/60 bg-black/50">
+            <div className="text-6xl mb-4">🎬</div>
+            <div className="text-lg mb-2">
+              {videoUrl ? currentContent.videoUnavailable : currentContent.noVideo}
+            </div>
+            {videoUrl && (
+              <div className="text-sm text-center px-4 max-w-md">
+                {currentContent.videoUnavailableDetail}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {subtitles.length > 0 && (
+        <p className="text-white/60 text-sm">
+          💬 {currentContent.subtitles}
+          {subtitles.map(track => getSubtitleLanguageLabel(track.language, currentLanguage)).join(', ')}
+        </p>
+      )}
+
+      {/* Scrub bar with note markers */}
+      {videoUrl && !loadError && (
+        <div
+          className="relative h-3 bg-white/10 rounded-full cursor-pointer"
+          onClick={handleScrubBarClick}
+        >
+          <div
+            className="absolute inset-y-0 left-0 bg-[#FCB283]/40 rounded-full"
+            style={{ width: `${progressPercent}%` }}
+          />
+          {duration > 0 && sortedAnnotations.map(annotation => (
+            <button
+              key={annotation.id}
+              type="button"
+              onClick={(e) => {
+                e.stopPropagation();
+                seekTo(annotation.timecode || 0);
+              }}
+              className="absolute top-1/2 -translate-x-1/2 -translate-y-1/2 w-3 h-3 rounded-full bg-[#FCB283] border-2 border-black hover:scale-150 transition-transform"
+              style={{ left: `${Math.min(100, ((annotation.timecode || 0) / duration) * 100)}%` }}
+              title={`${formatTimecode(annotation.timecode || 0)} · ${annotation.adminName}: ${annotation.content}`}
+            />
+          ))}
+        </div>
+      )}
+
+      {/* Timestamped Notes */}
+      <div className="glass-container rounded-2xl p-6 space-y-4">
+        <h3 className={`text-xl ${getClass('header')} text-white flex items-center space-x-2`}>
+          <MapPin className="w-5 h-5" />
+          <span>{currentContent.title}</span>
+        </h3>
+
+        <div className="space-y-2">
+          <textarea
+            value={note}
+            onChange={(e) => handleNoteChange(e.target.value)}
+            onKeyDown={handleNoteKeyDown}
+            placeholder={currentContent.placeholder}
+            rows={2}
+            disabled={!videoUrl || loadError}
+            className={`w-full px-4 py-3 bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-[#FCB283] focus:border-transparent ${getClass('body')} resize-none disabled:opacity-50`}
+          />
+          <div className="flex items-center justify-between gap-3">
+            <div className="flex items-center gap-3 text-sm text-white/70">
+              {noteTimecode !== null && (
+                <>
+                  <span>
+                    {currentContent.noteAt}{' '}
+                    <span className="text-[#FCB283] font-mono">{formatTimecode(noteTimecode)}</span>
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => setNoteTimecode(getPlayerTime())}
+                    className="text-white/60 hover:text-white underline"
+                  >
+                    {currentContent.useCurrentTime}
+                  </button>
+                </>
+              )}
+            </div>
+            <button
+              type="button"
+              onClick={handleAddNote}
+              disabled={!note.trim() || isSaving}
+              className="flex items-center space-x-2 px-4 py-2 bg-[#FCB283] hover:bg-[#AA4626] text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <MessageSquarePlus className="w-4 h-4" />
+              <span>{isSaving ? currentContent.saving : currentContent.addNote}</span>
+            </button>
+          </div>
+        </div>
+
+        {sortedAnnotations.length === 0 ? (
+          <p className={`text-white/60 text-sm ${getClass('body')}`}>{currentContent.noNotes}</p>
+        ) : (
+          <div className="space-y-2">
+            {sortedAnnotations.map(annotation => (
+              <div key={annotation.id} className="flex items-start gap-3 p-3 bg-white/5 rounded-lg">
+                <button
+                  type="button"
+                  onClick={() => seekTo(annotation.timecode || 0)}
+                  className="flex-shrink-0 px-2 py-1 rounded bg-[#FCB283]/20 text-[#FCB283] font-mono text-sm hover:bg-[#FCB283]/30 transition-colors"
+                >
+                  {formatTimecode(annotation.timecode || 0)}
+                </button>
+                <div className="flex-1 min-w-0">
+                  <p className={`text-white text-sm ${getClass('body')} whitespace-pre-wrap break-words`}>
+                    {annotation.content}
+                  </p>
+                  <p className="text-white/50 text-xs mt-1">
+                    {annotation.adminName} · {annotation.createdAt.toLocaleString(currentLanguage === 'th' ? 'th-TH' : 'en-US')}
+                  </p>
+                </div>
+                {annotation.adminId === currentUserId && (
+                  <button
+                    type="button"
+                    onClick={() => onDeleteAnnotation(annotation.id)}
+                    className="flex-shrink-0 p-1 text-white/40 hover:text-red-400 transition-colors"
+                    title={currentContent.deleteNote}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VideoAnnotationPlayer;
@@ -3,10 +3,26 @@ import { useTranslation } from 'react-i18next';
 import { useTypography } from '../../utils/typography';
 import { useAuth } from '../auth/AuthContext';
 import { ScoringCriteria, VideoScoringPanelProps } from '../../types/admin.types';
+import {
+  buildRubricScores,
+  calculateRubricTotal,
+  getRubricMaxScore,
+  validateRubricScores,
+  RubricValidationError
+} from '../../utils/scoringRubrics';
 import { Star, Save, RotateCcw, TrendingUp } from 'lucide-react';
 
+interface PanelScores {
+  values: Record<string, number>;
+  criterionComments: Record<string, string>;
+  comments: string;
+}
+
+const EMPTY_SCORES: PanelScores = { values: {}, criterionComments: {}, comments: '' };
+
 const VideoScoringPanel: React.FC<VideoScoringPanelProps> = ({
   applicationId,
+  rubric,
   currentScores,
   allScores,
   onScoreChange,
@@ -20,31 +36,26 @@ const VideoScoringPanel: React.FC<VideoScoringPanelProps> = ({
   const currentLanguage = i18n.language as 'en' | 'th';
 
   // Local state
-  const [scores, setScores] = useState<Partial<ScoringCriteria & { humanEffort: number }>>({
-    technical: 0,
-    story: 0,
-    creativity: 0,
-    chiangmai: 0,
-    humanEffort: 0,
-    overall: 0,
-    comments: ''
-  });
-
+  const [scores, setScores] = useState<PanelScores>(EMPTY_SCORES);
   const [hasChanges, setHasChanges] = useState(false);
-  const [initialScores, setInitialScores] = useState<Partial<ScoringCriteria & { humanEffort: number }>>({});
+  const [initialScores, setInitialScores] = useState<PanelScores | null>(null);
   const [localIsSubmitting, setLocalIsSubmitting] = useState(false);
+  const [validationErrors, setValidationErrors] = useState<RubricValidationError[]>([]);
 
   // Content
   const content = useMemo(() => ({
     th: {
       title: "การให้คะแนน",
       subtitle: "ประเมินผลงานตามเกณฑ์การตัดสิน",
-      technical: "คุณภาพทางเทคนิค",
-      story: "เรื่องราวและการเล่าเรื่อง",
-      creativity: "ความคิดสร้างสรรค์และความเป็นต้นฉบับ",
-      chiangmai: "ความเกี่ยวข้องกับเชียงใหม่",
-      humanEffort: "ความพยายามของมนุษย์",
       totalScore: "คะแนนรวม",
+      weight: "น้ำหนัก",
+      criterionComment: "เหตุผลประกอบคะแนน",
+      criterionCommentPlaceholder: "อธิบายเหตุผลของคะแนนในเกณฑ์นี้...",
+      required: "จำเป็น",
+      errorMissing: "กรุณาให้คะแนนเกณฑ์นี้",
+      errorOutOfRange: "คะแนนอยู่นอกช่วงที่กำหนด",
+      errorCommentRequired: "กรุณาระบุเหตุผลประกอบคะแนน",
+      errorOverallCommentRequired: "กรุณาเขียนความคิดเห็นเพิ่มเติม",
       comments: "ความคิดเห็นเพิ่มเติม",
       commentsPlaceholder: "เขียนความคิดเห็นเกี่ยวกับผลงานนี้...",
       saveScores: "บันทึกคะแนน",
@@ -54,7 +65,7 @@ const VideoScoringPanel: React.FC<VideoScoringPanelProps> = ({
       yourScore: "คะแนนของคุณ",
       previousScores: "คะแนนจากผู้ตัดสินอื่น",
       noScores: "ยังไม่มีการให้คะแนน",
-      scoringScale: "มาตราส่วน 1-10 คะแนน",
+      scoringScale: "มาตราส่วน",
       excellent: "ยอดเยี่ยม",
       good: "ดี",
       average: "ปานกลาง",
@@ -63,12 +74,15 @@ const VideoScoringPanel: React.FC<VideoScoringPanelProps> = ({
     en: {
       title: "Scoring Panel",
       subtitle: "Evaluate the film based on judging criteria",
-      technical: "Technical Quality",
-      story: "Story & Narrative",
-      creativity: "Creativity & Originality",
-      chiangmai: "Connection to Chiang Mai",
-      humanEffort: "Human Effort",
       totalScore: "Total Score",
+      weight: "Weight",
+      criterionComment: "Justification",
+      criterionCommentPlaceholder: "Explain your score for this criterion...",
+      required: "Required",
+      errorMissing: "Please score this criterion",
+      errorOutOfRange: "Score is outside the allowed range",
+      errorCommentRequired: "Please justify this score",
+      errorOverallCommentRequired: "Please add a comment",
       comments: "Additional Comments",
       commentsPlaceholder: "Write your comments about this film...",
       saveScores: "Save Scores",
@@ -78,7 +92,7 @@ const VideoScoringPanel: React.FC<VideoScoringPanelProps> = ({
       yourScore: "Your Score",
       previousScores: "Other Judges' Scores",
       noScores: "No scores yet",
-      scoringScale: "Scale: 1-10 points",
+      scoringScale: "Scale",
       excellent: "Excellent",
       good: "Good",
       average: "Average",
@@ -88,92 +102,55 @@ const VideoScoringPanel: React.FC<VideoScoringPanelProps> = ({
 
   const currentContent = content[currentLanguage];
 
-  // Criteria info
-  const criteriaInfo = useMemo(() => [
-    { key: 'creativity', label: currentContent.creativity, icon: '✨' },
-    { key: 'technical', label: currentContent.technical, icon: '🎬' },
-    { key: 'story', label: currentContent.story, icon: '📖' },
-    { key: 'chiangmai', label: currentContent.chiangmai, icon: '🏔️' },
-    { key: 'humanEffort', label: currentContent.humanEffort, icon: '💪' }
-  ], [currentContent]);
+  // Start from the judge's saved values for criteria in this rubric. Legacy scores
+  // share criterion IDs with the current rubrics, so they carry over when edited.
+  const toPanelScores = useCallback((saved?: ScoringCriteria): PanelScores => {
+    if (!saved) return EMPTY_SCORES;
+
+    const values: Record<string, number> = {};
+    const criterionComments: Record<string, string> = {};
+    rubric.criteria.forEach(criterion => {
+      values[criterion.id] = saved.values[criterion.id] || 0;
+      if (saved.criterionComments?.[criterion.id]) {
+        criterionComments[criterion.id] = saved.criterionComments[criterion.id];
+      }
+    });
+
+    return { values, criterionComments, comments: saved.comments || '' };
+  }, [rubric]);
 
   // Load initial scores from props
   useEffect(() => {
     console.log('🔄 VideoScoringPanel: Loading currentScores prop:', currentScores);
-    
-    if (currentScores) {
-      const newScores = {
-        technical: currentScores.technical || 0,
-        story: currentScores.story || 0,
-        creativity: currentScores.creativity || 0,
-        chiangmai: currentScores.chiangmai || 0,
-        humanEffort: currentScores.overall || 0,
-        overall: currentScores.overall || 0,
-        comments: currentScores.comments || ''
-      };
-      
-      console.log('📝 Setting scores from currentScores:', newScores);
-      setScores(newScores);
-      setInitialScores(newScores);
-      setHasChanges(false);
-    } else {
-      const emptyScores = {
-        technical: 0,
-        story: 0,
-        creativity: 0,
-        chiangmai: 0,
-        humanEffort: 0,
-        overall: 0,
-        comments: ''
-      };
-      
-      console.log('📝 Setting empty scores (no currentScores)');
-      setScores(emptyScores);
-      setInitialScores(emptyScores);
-      setHasChanges(false);
-    }
-  }, [currentScores]);
+
+    const newScores = toPanelScores(currentScores);
+    setScores(newScores);
+    setInitialScores(newScores);
+    setHasChanges(false);
+    setValidationErrors([]);
+  }, [currentScores, toPanelScores]);
 
   // Change detection
   useEffect(() => {
-    if (Object.keys(initialScores).length === 0) {
+    if (!initialScores) {
       console.log('⏳ No initial scores yet, skipping change detection');
       return;
     }
 
     // For new entries, check if any score > 0 or comments exist
     if (!currentScores) {
-      const hasAnyScore = (scores.technical || 0) > 0 || 
-                         (scores.story || 0) > 0 || 
-                         (scores.creativity || 0) > 0 || 
-                         (scores.chiangmai || 0) > 0 || 
-                         (scores.humanEffort || 0) > 0 || 
-                         (scores.comments || '').trim().length > 0;
-      
+      const hasAnyScore = Object.values(scores.values).some(value => value > 0) ||
+                         Object.values(scores.criterionComments).some(comment => comment.trim().length > 0) ||
+                         scores.comments.trim().length > 0;
+
       console.log('📊 New entry - hasAnyScore:', hasAnyScore);
       setHasChanges(hasAnyScore);
       return;
     }
 
     // For existing entries, compare current vs initial
-    const hasScoreChanges = 
-      scores.technical !== (initialScores.technical || 0) ||
-      scores.story !== (initialScores.story || 0) ||
-      scores.creativity !== (initialScores.creativity || 0) ||
-      scores.chiangmai !== (initialScores.chiangmai || 0) ||
-      scores.humanEffort !== (initialScores.humanEffort || 0) ||
-      scores.comments !== (initialScores.comments || '');
-    
-    console.log('📊 Change detection result:', {
-      hasScoreChanges,
-      technical: `${scores.technical} vs ${initialScores.technical}`,
-      story: `${scores.story} vs ${initialScores.story}`,
-      creativity: `${scores.creativity} vs ${initialScores.creativity}`,
-      chiangmai: `${scores.chiangmai} vs ${initialScores.chiangmai}`,
-      humanEffort: `${scores.humanEffort} vs ${initialScores.humanEffort}`,
-      comments: `"${scores.comments}" vs "${initialScores.comments}"`
-    });
-    
+    const hasScoreChanges = JSON.stringify(scores) !== JSON.stringify(initialScores);
+    console.log('📊 Change detection result:', { hasScoreChanges });
     setHasChanges(hasScoreChanges);
   }, [scores, initialScores, currentScores]);
 
@@ -184,36 +161,28 @@ const VideoScoringPanel: React.FC<VideoScoringPanelProps> = ({
   }, [onScoreChange]);
 
   useEffect(() => {
-    const totalScore = (scores.technical || 0) + (scores.story || 0) + (scores.creativity || 0) + (scores.chiangmai || 0) + (scores.humanEffort || 0);
-    
-    const mappedScores = {
-      technical: scores.technical || 0,
-      story: scores.story || 0,
-      creativity: scores.creativity || 0,
-      chiangmai: scores.chiangmai || 0,
-      overall: scores.humanEffort || 0,
-      totalScore: totalScore,
-      comments: scores.comments || ''
-    };
-    
-    memoizedOnScoreChange(mappedScores);
-  }, [scores, memoizedOnScoreChange]);
+    memoizedOnScoreChange({
+      ...buildRubricScores(rubric, scores.values, scores.criterionComments),
+      comments: scores.comments
+    });
+  }, [rubric, scores, memoizedOnScoreChange]);
 
   // Event handlers
-  const handleScoreChange = useCallback((criterion: string, value: number) => {
-    console.log(`🎯 Score changed - ${criterion}: ${value}`);
-    setScores(prev => {
-      const updated = { ...prev, [criterion]: value };
-      if (criterion === 'humanEffort') {
-        updated.overall = value;
-      }
-      return updated;
-    });
+  const handleScoreChange = useCallback((criterionId: string, value: number) => {
+    console.log(`🎯 Score changed - ${criterionId}: ${value}`);
+    setScores(prev => ({ ...prev, values: { ...prev.values, [criterionId]: value } }));
+    setValidationErrors(prev => prev.filter(error => error.criterionId !== criterionId || error.code === 'comment-required'));
+  }, []);
+
+  const handleCriterionCommentChange = useCallback((criterionId: string, comment: string) => {
+    setScores(prev => ({ ...prev, criterionComments: { ...prev.criterionComments, [criterionId]: comment } }));
+    setValidationErrors(prev => prev.filter(error => !(error.criterionId === criterionId && error.code === 'comment-required')));
   }, []);
 
   const handleCommentsChange = useCallback((comments: string) => {
     console.log('💬 Comments changed:', comments);
     setScores(prev => ({ ...prev, comments }));
+    setValidationErrors(prev => prev.filter(error => error.code !== 'overall-comment-required'));
   }, []);
 
   // FIXED: Main save handler with better error handling
@@ -239,6 +208,14 @@ const VideoScoringPanel: React.FC<VideoScoringPanelProps> = ({
       return;
     }
 
+    // Every criterion must be scored within its range, with any required comments
+    const errors = validateRubricScores(rubric, scores.values, scores.criterionComments, scores.comments);
+    setValidationErrors(errors);
+    if (errors.length > 0) {
+      console.warn('⚠️ Rubric validation failed:', errors);
+      return;
+    }
+
     console.log('🔄 Starting save process...');
     console.log('💾 Current scores state:', scores);
 
@@ -246,19 +223,12 @@ const VideoScoringPanel: React.FC<VideoScoringPanelProps> = ({
     setLocalIsSubmitting(true);
 
     try {
-      const calculatedTotalScore = (scores.technical || 0) + (scores.story || 0) + (scores.creativity || 0) + (scores.chiangmai || 0) + (scores.humanEffort || 0);
-
       const scoringData: ScoringCriteria = {
-        technical: scores.technical || 0,
-        story: scores.story || 0,
-        creativity: scores.creativity || 0,
-        chiangmai: scores.chiangmai || 0,
-        overall: scores.humanEffort || 0,
-        totalScore: calculatedTotalScore,
+        ...buildRubricScores(rubric, scores.values, scores.criterionComments),
         adminId: user.uid,
         adminName: user.displayName || user.email || 'Admin',
         scoredAt: new Date(),
-        comments: scores.comments || ''
+        comments: scores.comments
       };
 
       console.log('💾 Calling onSaveScores with data:', scoringData);
@@ -272,17 +242,7 @@ const VideoScoringPanel: React.FC<VideoScoringPanelProps> = ({
       await Promise.race([savePromise, timeoutPromise]);
       
       // Update initial scores to reflect the saved state
-      const newInitialScores = {
-        technical: scores.technical || 0,
-        story: scores.story || 0,
-        creativity: scores.creativity || 0,
-        chiangmai: scores.chiangmai || 0,
-        humanEffort: scores.humanEffort || 0,
-        overall: scores.humanEffort || 0,
-        comments: scores.comments || ''
-      };
-      
-      setInitialScores(newInitialScores);
+      setInitialScores(scores);
       setHasChanges(false);
       
       console.log('✅ Save successful');
@@ -312,28 +272,20 @@ const VideoScoringPanel: React.FC<VideoScoringPanelProps> = ({
     } finally {
       setLocalIsSubmitting(false);
     }
-  }, [user, hasChanges, isSubmitting, localIsSubmitting, scores, onSaveScores]);
+  }, [user, hasChanges, isSubmitting, localIsSubmitting, rubric, scores, onSaveScores]);
 
   const handleResetScores = useCallback(() => {
     console.log('🔄 Resetting scores');
-    setScores({
-      technical: 0,
-      story: 0,
-      creativity: 0,
-      chiangmai: 0,
-      humanEffort: 0,
-      overall: 0,
-      comments: ''
-    });
+    setScores(EMPTY_SCORES);
+    setValidationErrors([]);
     setHasChanges(false);
   }, []);
 
   // Calculated values
-  const totalScore = useMemo(() => {
-    return (scores.creativity || 0) + (scores.technical || 0) + (scores.story || 0) + (scores.chiangmai || 0) + (scores.humanEffort || 0);
-  }, [scores.creativity, scores.technical, scores.story, scores.chiangmai, scores.humanEffort]);
+  const totalScore = useMemo(() => calculateRubricTotal(rubric, scores.values), [rubric, scores.values]);
+  const maxScore = useMemo(() => getRubricMaxScore(rubric), [rubric]);
 
-  const totalPercentage = useMemo(() => Math.round((totalScore / 50) * 100), [totalScore]);
+  const totalPercentage = useMemo(() => Math.round((totalScore / maxScore) * 100), [totalScore, maxScore]);
 
   const averageScore = useMemo(() => {
     return allScores.length > 0 
@@ -395,29 +347,87 @@ const VideoScoringPanel: React.FC<VideoScoringPanelProps> = ({
     );
   };
 
-  const renderStarRating = (key: string, label: string, icon: string) => (
-    <div key={key} className="space-y-3">
-      <div className="flex items-center justify-between">
-        <label className={`${getClass('body')} text-white/90 flex items-center space-x-2`}>
-          <span className="text-lg">{icon}</span>
-          <span>{label}</span>
-        </label>
-        <span className={`${getClass('header')} text-[#FCB283] text-lg font-bold`}>
-          {Number(scores[key as keyof typeof scores]) || 0}/10
-        </span>
-      </div>
-      
-      {/* Star Rating */}
-      <div className="flex items-center justify-center">
-        <StarRating
-          value={Number(scores[key as keyof typeof scores]) || 0}
-          onChange={(value) => handleScoreChange(key, value)}
-          maxStars={10}
-          size="md"
-        />
+  const getErrorMessage = (code: RubricValidationError['code']) => {
+    switch (code) {
+      case 'missing':
+        return currentContent.errorMissing;
+      case 'out-of-range':
+        return currentContent.errorOutOfRange;
+      case 'comment-required':
+        return currentContent.errorCommentRequired;
+      case 'overall-comment-required':
+        return currentContent.errorOverallCommentRequired;
+    }
+  };
+
+  const renderCriterion = (criterion: VideoScoringPanelProps['rubric']['criteria'][number]) => {
+    const value = scores.values[criterion.id] || 0;
+    const errors = validationErrors.filter(error => error.criterionId === criterion.id);
+
+    return (
+      <div key={criterion.id} className="space-y-3">
+        <div className="flex items-center justify-between">
+          <label className={`${getClass('body')} text-white/90 flex items-center space-x-2`}>
+            {criterion.icon && <span className="text-lg">{criterion.icon}</span>}
+            <span>{criterion.label[currentLanguage]}</span>
+            {criterion.weight !== 1 && (
+              <span className="text-xs text-white/50">
+                ({currentContent.weight} ×{criterion.weight})
+              </span>
+            )}
+          </label>
+          <span className={`${getClass('header')} text-[#FCB283] text-lg font-bold`}>
+            {value}/{criterion.max}
+          </span>
+        </div>
+        
+        {/* Star rating for short scales, slider for longer ones */}
+        <div className="flex items-center justify-center">
+          {criterion.max <= 10 ? (
+            <StarRating
+              value={value}
+              onChange={(newValue) => handleScoreChange(criterion.id, newValue)}
+              maxStars={criterion.max}
+              size="md"
+            />
+          ) : (
+            <input
+              type="range"
+              min={criterion.min}
+              max={criterion.max}
+              value={value || criterion.min}
+              onChange={(e) => handleScoreChange(criterion.id, Number(e.target.value))}
+              className="w-full accent-[#FCB283]"
+            />
+          )}
+        </div>
+        <div className="text-center text-xs text-white/40">
+          {currentContent.scoringScale}: {criterion.min}-{criterion.max}
+        </div>
+
+        {criterion.commentRequired && (
+          <div className="space-y-1">
+            <label className={`${getClass('body')} text-white/70 text-sm`}>
+              {currentContent.criterionComment} <span className="text-red-400">*</span>
+            </label>
+            <textarea
+              value={scores.criterionComments[criterion.id] || ''}
+              onChange={(e) => handleCriterionCommentChange(criterion.id, e.target.value)}
+              placeholder={currentContent.criterionCommentPlaceholder}
+              className={`w-full px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white text-sm placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-[#FCB283] focus:border-transparent ${getClass('body')} resize-none`}
+              rows={2}
+            />
+          </div>
+        )}
+
+        {errors.map(error => (
+          <p key={error.code} className={`text-red-400 text-sm ${getClass('body')}`}>
+            {getErrorMessage(error.code)}
+          </p>
+        ))}
       </div>
-    </div>
-  );
+    );
+  };
 
   return (
     <div className={`glass-container rounded-2xl p-6 space-y-6 ${className}`}>
@@ -429,27 +439,42 @@ const VideoScoringPanel: React.FC<VideoScoringPanelProps> = ({
         <p className={`${getClass('body')} text-white/70`}>
           {currentContent.subtitle}
         </p>
+        <p className={`${getClass('body')} text-[#FCB283] text-sm mt-1`}>
+          {rubric.name[currentLanguage]}
+        </p>
       </div>
 
-      {/* Star Rating Scores */}
+      {/* Rubric Criteria */}
       <div className="space-y-6">
-        {criteriaInfo.map(criterion => 
-          renderStarRating(criterion.key, criterion.label, criterion.icon)
-        )}
+        {rubric.criteria.map(renderCriterion)}
+      </div>
+
+      {/* Total */}
+      <div className="flex items-center justify-between p-3 bg-white/5 rounded-lg">
+        <span className={`${getClass('body')} text-white/90`}>{currentContent.totalScore}</span>
+        <span className={`${getClass('header')} text-[#FCB283] text-xl font-bold`}>
+          {totalScore}/{maxScore}
+        </span>
       </div>
 
       {/* Comments */}
       <div className="space-y-3">
         <label className={`${getClass('body')} text-white/90`}>
           {currentContent.comments}
+          {rubric.commentRequired && <span className="text-red-400"> *</span>}
         </label>
         <textarea
-          value={scores.comments || ''}
+          value={scores.comments}
           onChange={(e) => handleCommentsChange(e.target.value)}
           placeholder={currentContent.commentsPlaceholder}
           className={`w-full px-4 py-3 bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/50 focus:outline-none focus:ring-2 focus:ring-[#FCB283] focus:border-transparent ${getClass('body')} resize-none`}
           rows={4}
         />
+        {validationErrors.some(error => error.code === 'overall-comment-required') && (
+          <p className={`text-red-400 text-sm ${getClass('body')}`}>
+            {currentContent.errorOverallCommentRequired}
+          </p>
+        )}
       </div>
 
       {/* Action Buttons */}
@@ -9,13 +9,14 @@ import AnimatedButton from '../ui/AnimatedButton';
 import SubmissionConfirm from './SubmissionConfirm';
 import DraftSuccessDialog from '../dialogs/DraftSuccessDialog';
 import { ApplicationService, FilmApplication } from '../../services/applicationService';
+import { SubtitleTrack } from '../../types/subtitle.types';
 
 interface ApplicationData {
   id: string;
   userId: string;
   applicationId: string;
   competitionCategory: 'youth' | 'future' | 'world';
-  status: 'draft' | 'submitted';
+  status: 'draft' | 'submitted' | 'under-review' | 'accepted' | 'rejected';
   filmTitle: string;
   filmTitleTh?: string;
   filmLanguage?: string;
@@ -56,6 +57,7 @@ interface ApplicationData {
       name: string;
       size: number;
     };
+    subtitles?: SubtitleTrack[];
   };
   submittedAt: any;
   createdAt: any;
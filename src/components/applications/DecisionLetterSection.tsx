@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useTypography } from '../../utils/typography';
+import { Download, Mail } from 'lucide-react';
+import { DecisionLetterDetails, DecisionLetterStatus } from '../../types/admin.types';
+import { buildDecisionLetter } from '../../utils/decisionLetters';
+import ExportService from '../../services/exportService';
+
+interface DecisionLetterSectionProps {
+  status: DecisionLetterStatus;
+  details: DecisionLetterDetails;
+}
+
+const DecisionLetterSection: React.FC<DecisionLetterSectionProps> = ({ status, details }) => {
+  const { i18n } = useTranslation();
+  const { getClass } = useTypography();
+  const currentLanguage = i18n.language as 'en' | 'th';
+
+  const [letterLanguage, setLetterLanguage] = useState<'en' | 'th'>(currentLanguage);
+  const [isDownloading, setIsDownloading] = useState(false);
+
+  const letter = buildDecisionLetter(status, details, letterLanguage);
+  const accepted = status === 'accepted';
+
+  const handleDownload = async () => {
+    setIsDownloading(true);
+    try {
+      await new ExportService().exportDecisionLetter(letter, details.applicationId);
+    } catch (error) {
+      console.error('Error downloading decision letter:', error);
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  return (
+    <div className={`glass-container rounded-2xl p-6 sm:p-8 border ${
+      accepted ? 'border-green-500/30' : 'border-white/10'
+    }`}>
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-6">
+        <h3 className={`text-xl ${getClass('header')} text-white flex items-center space-x-2`}>
+          <Mail className={`w-5 h-5 ${accepted ? 'text-green-400' : 'text-[#FCB283]'}`} />
+          <span>{currentLanguage === 'th' ? 'จดหมายแจ้งผลการคัดเลือก' : 'Decision Letter'}</span>
+        </h3>
+
+        <div className="flex items-center gap-2">
+          <div className="flex rounded-lg overflow-hidden border border-white/20">
+            {(['th', 'en'] as const).map(language => (
+              <button
+                key={language}
+                onClick={() => setLetterLanguage(language)}
+                className={`px-3 py-1.5 text-xs ${
+                  letterLanguage === language ? 'bg-[#FCB283]/30 text-white' : 'text-white/60 hover:bg-white/10'
+                }`}
+              >
+                {language === 'th' ? 'ไทย' : 'English'}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={handleDownload}
+            disabled={isDownloading}
+            className="flex items-center space-x-1 px-3 py-1.5 bg-white/10 hover:bg-white/20 rounded-lg text-white text-xs transition-colors disabled:opacity-50"
+          >
+            <Download className="w-3 h-3" />
+            <span>PDF</span>
+          </button>
+        </div>
+      </div>
+
+      <div className={`glass-card rounded-xl p-6 space-y-4 ${getClass('body')} text-white/90 leading-relaxed`}>
+        <p className="text-white/60 text-sm">{letter.date}</p>
+        <p className={`${getClass('subtitle')} text-white`}>{letter.subject}</p>
+        <p>{letter.greeting}</p>
+        {letter.paragraphs.map((paragraph, index) => (
+          <p key={index}>{paragraph}</p>
+        ))}
+        <div>
+          <p>{letter.closing}</p>
+          {letter.signature.map(line => (
+            <p key={line} className="text-white/70">{line}</p>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DecisionLetterSection;
@@ -0,0 +1,365 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useTypography } from '../../utils/typography';
+import { useAuth } from '../auth/AuthContext';
+import { ArrowRight, History, RotateCcw } from 'lucide-react';
+import { SnapshotField, SubmissionVersion, VersionFileType } from '../../types/submissionVersion.types';
+import { submissionVersionService, SubmissionVersionError } from '../../services/submissionVersionService';
+import { diffSnapshots, isEmptyVersionDiff } from '../../utils/submissionVersions';
+import { formatFileSize } from '../../utils/fileUpload';
+
+interface VersionHistorySectionProps {
+  submissionId: string;
+  canRestore?: boolean; // Applicant viewing their own draft
+  onRestored?: () => void;
+}
+
+const VersionHistorySection: React.FC<VersionHistorySectionProps> = ({
+  submissionId,
+  canRestore = false,
+  onRestored
+}) => {
+  const { i18n } = useTranslation();
+  const { getClass } = useTypography();
+  const { user } = useAuth();
+  const currentLanguage = i18n.language as 'en' | 'th';
+
+  const [versions, setVersions] = useState<SubmissionVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [fromId, setFromId] = useState('');
+  const [toId, setToId] = useState('');
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const content = {
+    th: {
+      title: "ประวัติการแก้ไข",
+      version: "เวอร์ชัน",
+      compare: "เปรียบเทียบ",
+      with: "กับ",
+      noVersions: "ยังไม่มีประวัติการแก้ไข",
+      singleVersion: "มีเพียงเวอร์ชันเดียว บันทึกการแก้ไขเพื่อดูความเปลี่ยนแปลง",
+      noChanges: "ไม่มีความเปลี่ยนแปลงระหว่างสองเวอร์ชันนี้",
+      crew: "ทีมงาน",
+      files: "ไฟล์",
+      added: "เพิ่ม",
+      removed: "ลบ",
+      changed: "แก้ไข",
+      empty: "(ว่าง)",
+      restore: "กู้คืนเวอร์ชันนี้",
+      restoring: "กำลังกู้คืน...",
+      confirmRestore: "กู้คืนข้อมูลใบสมัครเป็นเวอร์ชันนี้? ไฟล์ที่แนบปัจจุบันจะไม่ถูกเปลี่ยน",
+      restoreNote: "การกู้คืนจะเปลี่ยนเฉพาะข้อมูลในแบบฟอร์ม ไฟล์ที่แนบจะยังคงเป็นไฟล์ปัจจุบัน",
+      restoreNotDraft: "กู้คืนได้เฉพาะก่อนส่งใบสมัครเท่านั้น",
+      restoreError: "ไม่สามารถกู้คืนเวอร์ชันได้",
+      loadError: "ไม่สามารถโหลดประวัติการแก้ไขได้",
+      sources: {
+        draft_save: "บันทึกร่าง",
+        edit: "แก้ไข",
+        submit: "ส่งใบสมัคร",
+        restore: "กู้คืน"
+      },
+      fields: {
+        filmTitle: "ชื่อภาพยนตร์ (ภาษาอังกฤษ)",
+        filmTitleTh: "ชื่อภาพยนตร์ (ภาษาไทย)",
+        filmLanguages: "ภาษาในภาพยนตร์",
+        genres: "ประเภท",
+        format: "รูปแบบ",
+        duration: "ความยาว (นาที)",
+        synopsis: "เรื่องย่อ",
+        chiangmaiConnection: "ความเกี่ยวข้องกับเชียงใหม่",
+        submitterName: "ชื่อผู้ส่งผลงาน",
+        submitterNameTh: "ชื่อผู้ส่งผลงาน (ภาษาไทย)",
+        submitterAge: "อายุ",
+        submitterPhone: "เบอร์โทรศัพท์",
+        submitterEmail: "อีเมล",
+        submitterRole: "บทบาทในภาพยนตร์",
+        submitterCustomRole: "บทบาทอื่นๆ",
+        schoolName: "ชื่อโรงเรียน",
+        studentId: "รหัสนักเรียน",
+        universityName: "ชื่อมหาวิทยาลัย",
+        faculty: "คณะ/สาขา",
+        universityId: "รหัสนักศึกษา"
+      },
+      fileTypes: {
+        filmFile: "ไฟล์ภาพยนตร์",
+        posterFile: "โปสเตอร์",
+        proofFile: "เอกสารยืนยัน"
+      }
+    },
+    en: {
+      title: "Version History",
+      version: "Version",
+      compare: "Compare",
+      with: "with",
+      noVersions: "No saved versions yet",
+      singleVersion: "Only one version so far. Save changes to see what changed.",
+      noChanges: "No differences between these two versions",
+      crew: "Crew",
+      files: "Files",
+      added: "Added",
+      removed: "Removed",
+      changed: "Changed",
+      empty: "(empty)",
+      restore: "Restore this version",
+      restoring: "Restoring...",
+      confirmRestore: "Restore the application to this version? Your current attached files will not change.",
+      restoreNote: "Restoring brings back the form fields only. Attached files stay as they are now.",
+      restoreNotDraft: "Versions can only be restored before final submission",
+      restoreError: "Failed to restore this version",
+      loadError: "Failed to load version history",
+      sources: {
+        draft_save: "Draft saved",
+        edit: "Edited",
+        submit: "Submitted",
+        restore: "Restored"
+      },
+      fields: {
+        filmTitle: "Film Title (English)",
+        filmTitleTh: "Film Title (Thai)",
+        filmLanguages: "Film Language",
+        genres: "Genres",
+        format: "Format",
+        duration: "Duration (minutes)",
+        synopsis: "Synopsis",
+        chiangmaiConnection: "Connection to Chiang Mai",
+        submitterName: "Submitter Name",
+        submitterNameTh: "Submitter Name (Thai)",
+        submitterAge: "Age",
+        submitterPhone: "Phone Number",
+        submitterEmail: "Email",
+        submitterRole: "Role in Film",
+        submitterCustomRole: "Custom Role",
+        schoolName: "School Name",
+        studentId: "Student ID",
+        universityName: "University Name",
+        faculty: "Faculty/Department",
+        universityId: "Student ID"
+      },
+      fileTypes: {
+        filmFile: "Film File",
+        posterFile: "Poster",
+        proofFile: "Proof Document"
+      }
+    }
+  };
+
+  const currentContent = content[currentLanguage];
+
+  const loadVersions = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const loaded = await submissionVersionService.getVersions(submissionId);
+      setVersions(loaded);
+      // Default to comparing the two most recent versions
+      setFromId(loaded.length > 1 ? loaded[loaded.length - 2].id : '');
+      setToId(loaded.length > 0 ? loaded[loaded.length - 1].id : '');
+    } catch (err) {
+      console.error('Error loading version history:', err);
+      setError(currentContent.loadError);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadVersions();
+  }, [submissionId]);
+
+  const versionNumber = (versionId: string) => versions.findIndex(version => version.id === versionId) + 1;
+
+  const diff = useMemo(() => {
+    const from = versions.find(version => version.id === fromId);
+    const to = versions.find(version => version.id === toId);
+    return from && to ? diffSnapshots(from.snapshot, to.snapshot) : null;
+  }, [versions, fromId, toId]);
+
+  const handleRestore = async (version: SubmissionVersion) => {
+    if (!user || !window.confirm(currentContent.confirmRestore)) return;
+
+    setRestoringId(version.id);
+    try {
+      await submissionVersionService.restoreVersion(submissionId, version, user.uid);
+      await loadVersions();
+      onRestored?.();
+    } catch (err) {
+      console.error('Error restoring version:', err);
+      setError(
+        err instanceof SubmissionVersionError && err.code === 'not-draft'
+          ? currentContent.restoreNotDraft
+          : currentContent.restoreError
+      );
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const formatDate = (date: Date) =>
+    date.toLocaleString(currentLanguage === 'th' ? 'th-TH' : 'en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+
+  const versionLabel = (version: SubmissionVersion) =>
+    `${currentContent.version} ${versionNumber(version.id)} · ${currentContent.sources[version.source]} · ${formatDate(version.createdAt)}`;
+
+  const renderValue = (value: string) => value || <span className="italic text-white/40">{currentContent.empty}</span>;
+
+  return (
+    <div className="glass-container rounded-2xl p-6 sm:p-8">
+      <h3 className={`text-xl ${getClass('header')} text-white flex items-center space-x-2 mb-6`}>
+        <History className="w-5 h-5 text-[#FCB283]" />
+        <span>{currentContent.title}</span>
+      </h3>
+
+      {error && (
+        <p className={`${getClass('body')} text-red-400 text-sm mb-4`}>{error}</p>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#FCB283]"></div>
+        </div>
+      ) : versions.length === 0 ? (
+        <p className={`${getClass('body')} text-white/50 text-center py-6`}>{currentContent.noVersions}</p>
+      ) : (
+        <div className="space-y-6">
+          {/* Version List */}
+          <div className="space-y-2">
+            {[...versions].reverse().map((version, index) => (
+              <div key={version.id} className="glass-card rounded-xl px-4 py-3 flex flex-wrap items-center justify-between gap-2">
+                <div className={`${getClass('body')} text-sm`}>
+                  <span className="text-white">{currentContent.version} {versionNumber(version.id)}</span>
+                  <span className="text-white/60"> · {currentContent.sources[version.source]}</span>
+                  {version.restoredFrom && versionNumber(version.restoredFrom) > 0 && (
+                    <span className="text-white/60"> ({currentContent.version} {versionNumber(version.restoredFrom)})</span>
+                  )}
+                  <span className="block text-white/40 text-xs">{formatDate(version.createdAt)}</span>
+                </div>
+                {canRestore && index > 0 && (
+                  <button
+                    onClick={() => handleRestore(version)}
+                    disabled={restoringId !== null}
+                    className="flex items-center space-x-1 px-3 py-1.5 bg-white/10 hover:bg-white/20 rounded-lg text-white text-xs transition-colors disabled:opacity-50"
+                  >
+                    <RotateCcw className={`w-3 h-3 ${restoringId === version.id ? 'animate-spin' : ''}`} />
+                    <span>{restoringId === version.id ? currentContent.restoring : currentContent.restore}</span>
+                  </button>
+                )}
+              </div>
+            ))}
+            {canRestore && versions.length > 1 && (
+              <p className={`${getClass('body')} text-white/50 text-xs`}>{currentContent.restoreNote}</p>
+            )}
+          </div>
+
+          {/* Diff */}
+          {versions.length < 2 ? (
+            <p className={`${getClass('body')} text-white/50 text-sm`}>{currentContent.singleVersion}</p>
+          ) : (
+            <div className="space-y-4">
+              <div className={`flex flex-wrap items-center gap-2 text-sm text-white/70 ${getClass('body')}`}>
+                <span>{currentContent.compare}</span>
+                <select
+                  value={fromId}
+                  onChange={(e) => setFromId(e.target.value)}
+                  className="px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white text-sm focus:border-[#FCB283] focus:outline-none"
+                >
+                  {versions.map(version => (
+                    <option key={version.id} value={version.id} className="bg-[#110D16]">{versionLabel(version)}</option>
+                  ))}
+                </select>
+                <span>{currentContent.with}</span>
+                <select
+                  value={toId}
+                  onChange={(e) => setToId(e.target.value)}
+                  className="px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white text-sm focus:border-[#FCB283] focus:outline-none"
+                >
+                  {versions.map(version => (
+                    <option key={version.id} value={version.id} className="bg-[#110D16]">{versionLabel(version)}</option>
+                  ))}
+                </select>
+              </div>
+
+              {diff && isEmptyVersionDiff(diff) ? (
+                <p className={`${getClass('body')} text-white/50 text-sm`}>{currentContent.noChanges}</p>
+              ) : diff && (
+                <div className="space-y-3">
+                  {diff.fields.map(change => (
+                    <div key={change.field} className="glass-card rounded-xl p-4">
+                      <p className={`${getClass('subtitle')} text-white/80 text-sm mb-2`}>
+                        {currentContent.fields[change.field as SnapshotField]}
+                      </p>
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+                        <p className={`${getClass('body')} text-red-300/80 bg-red-500/10 rounded-lg p-3 whitespace-pre-wrap break-words`}>
+                          {renderValue(change.before)}
+                        </p>
+                        <p className={`${getClass('body')} text-green-300 bg-green-500/10 rounded-lg p-3 whitespace-pre-wrap break-words`}>
+                          {renderValue(change.after)}
+                        </p>
+                      </div>
+                    </div>
+                  ))}
+
+                  {diff.crew.length > 0 && (
+                    <div className="glass-card rounded-xl p-4">
+                      <p className={`${getClass('subtitle')} text-white/80 text-sm mb-2`}>{currentContent.crew}</p>
+                      <ul className={`${getClass('body')} space-y-1 text-sm`}>
+                        {diff.crew.map((change, index) => {
+                          const member = change.after || change.before!;
+                          return (
+                            <li key={index} className="flex flex-wrap items-center gap-2">
+                              <span className={
+                                change.type === 'added' ? 'text-green-400' : change.type === 'removed' ? 'text-red-400' : 'text-[#FCB283]'
+                              }>
+                                {currentContent[change.type]}
+                              </span>
+                              <span className="text-white">{member.fullName}</span>
+                              {change.type === 'changed' && change.before!.role !== member.role ? (
+                                <span className="flex items-center gap-1 text-white/60">
+                                  {change.before!.role} <ArrowRight className="w-3 h-3" /> {member.role}
+                                </span>
+                              ) : (
+                                <span className="text-white/60">{member.customRole || member.role}</span>
+                              )}
+                            </li>
+                          );
+                        })}
+                      </ul>
+                    </div>
+                  )}
+
+                  {diff.files.length > 0 && (
+                    <div className="glass-card rounded-xl p-4">
+                      <p className={`${getClass('subtitle')} text-white/80 text-sm mb-2`}>{currentContent.files}</p>
+                      <ul className={`${getClass('body')} space-y-1 text-sm`}>
+                        {diff.files.map(change => (
+                          <li key={change.fileType} className="flex flex-wrap items-center gap-2">
+                            <span className="text-white/60">{currentContent.fileTypes[change.fileType as VersionFileType]}:</span>
+                            <span className="text-red-300/80 line-through">
+                              {change.before ? `${change.before.fileName} (${formatFileSize(change.before.fileSize)})` : currentContent.empty}
+                            </span>
+                            <ArrowRight className="w-3 h-3 text-white/40" />
+                            <span className="text-green-300">
+                              {change.after ? `${change.after.fileName} (${formatFileSize(change.after.fileSize)})` : currentContent.empty}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VersionHistorySection;
@@ -2,6 +2,8 @@ import React, { useState, useRef, useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
 import { useTypography } from '../../utils/typography';
 import AnimatedButton from '../ui/AnimatedButton';
+import { SubtitleTrack } from '../../types/subtitle.types';
+import { getSubtitleLanguageLabel } from '../../utils/subtitles';
 
 interface ApplicationData {
   filmTitle: string;
@@ -16,9 +18,10 @@ interface ApplicationData {
       name: string;
       size: number;
     };
+    subtitles?: SubtitleTrack[];
   };
   duration: number;
-  status: 'draft' | 'submitted';
+  status: 'draft' | 'submitted' | 'under-review' | 'accepted' | 'rejected';
 }
 
 interface VideoSectionProps {
@@ -44,6 +47,9 @@ const VideoSection: React.FC<VideoSectionProps> = ({
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [showControls, setShowControls] = useState(true);
   const [isHovered, setIsHovered] = useState(false);
+  const [activeSubtitle, setActiveSubtitle] = useState<string | null>(null);
+
+  const subtitles = application.files.subtitles || [];
 
   // Auto-hide controls after 3 seconds of no interaction
   useEffect(() => {
@@ -58,6 +64,15 @@ const VideoSection: React.FC<VideoSectionProps> = ({
     return () => clearTimeout(timeout);
   }, [isPlaying, isHovered]);
 
+  // Show only the selected subtitle track
+  useEffect(() => {
+    const tracks = videoRef.current?.textTracks;
+    if (!tracks) return;
+    Array.from(tracks).forEach(track => {
+      track.mode = track.language === activeSubtitle ? 'showing' : 'hidden';
+    });
+  }, [activeSubtitle, subtitles.length]);
+
   const togglePlay = () => {
     if (videoRef.current) {
       if (isPlaying) {
@@ -149,6 +164,7 @@ const VideoSection: React.FC<VideoSectionProps> = ({
               onPlay={() => setIsPlaying(true)}
               onPause={() => setIsPlaying(false)}
               poster={application.files?.posterFile?.url}
+              crossOrigin={subtitles.length > 0 ? 'anonymous' : undefined}
               onError={(e) => {
                 console.error('Video loading error:', e);
                 const target = e.target as HTMLVideoElement;
@@ -166,7 +182,17 @@ const VideoSection: React.FC<VideoSectionProps> = ({
                   `;
                 }
               }}
-            />
+            >
+              {subtitles.map(track => (
+                <track
+                  key={track.language}
+                  kind="subtitles"
+                  src={track.downloadURL}
+                  srcLang={track.language}
+                  label={getSubtitleLanguageLabel(track.language, currentLanguage)}
+                />
+              ))}
+            </video>
           ) : (
             <div className="w-full aspect-video flex flex-col items-center justify-center text-white/60 bg-black/50">
               <div className="text-6xl mb-4">🎬</div>
@@ -248,6 +274,23 @@ const VideoSection: React.FC<VideoSectionProps> = ({
               </div>
 
               <div className="flex items-center space-x-2">
+                {/* Subtitle Language */}
+                {subtitles.length > 0 && (
+                  <select
+                    value={activeSubtitle || ''}
+                    onChange={(e) => setActiveSubtitle(e.target.value || null)}
+                    className="bg-black/60 border border-white/20 rounded text-white text-sm px-2 py-1 focus:border-[#FCB283] focus:outline-none"
+                    title={currentLanguage === 'th' ? 'คำบรรยาย' : 'Subtitles'}
+                  >
+                    <option value="">{currentLanguage === 'th' ? 'ปิดคำบรรยาย' : 'Subtitles off'}</option>
+                    {subtitles.map(track => (
+                      <option key={track.language} value={track.language}>
+                        {getSubtitleLanguageLabel(track.language, currentLanguage)}
+                      </option>
+                    ))}
+                  </select>
+                )}
+
                 {/* Fullscreen Button */}
                 <button
                   onClick={toggleFullscreen}
@@ -540,7 +540,7 @@ const FirestoreCommentsDebugger: React.FC<FirestoreCommentsDebuggerProps> = ({
                         </div>
                         {comment.scores && (
                           <div className="text-green-400">
-                            Total: {comment.scores.totalScore}/50
+                            Total: {comment.scores.totalScore}/{comment.scores.maxScore}
                           </div>
                         )}
                         <div className="text-gray-300 truncate">{comment.content}</div>
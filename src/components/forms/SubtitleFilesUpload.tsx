@@ -0,0 +1,178 @@
+import React, { useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useTypography } from '../../utils/typography';
+import { SUBTITLE_FILE, SUBTITLE_LANGUAGES } from '../../utils/formConstants';
+import {
+  getSubtitleLanguageForFilmLanguage,
+  getSubtitleLanguageLabel,
+  readSubtitleFile
+} from '../../utils/subtitles';
+import { SubtitleParseResult, SubtitleUpload, SubtitleValidationIssue } from '../../types/subtitle.types';
+
+interface SubtitleFilesUploadProps {
+  subtitles: SubtitleUpload[];
+  onChange: (subtitles: SubtitleUpload[]) => void;
+  filmLanguages: string[];
+  filmDurationSeconds?: number | null; // Used to warn about cues after the end of the film
+}
+
+const SubtitleFilesUpload: React.FC<SubtitleFilesUploadProps> = ({
+  subtitles,
+  onChange,
+  filmLanguages,
+  filmDurationSeconds
+}) => {
+  const { i18n } = useTranslation();
+  const { getClass } = useTypography();
+  const currentLanguage = i18n.language as 'en' | 'th';
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [selectedLanguage, setSelectedLanguage] = useState('');
+  const [checks, setChecks] = useState<{ [id: string]: SubtitleParseResult }>({});
+  const [fileErrors, setFileErrors] = useState<SubtitleValidationIssue[]>([]);
+  const [isReading, setIsReading] = useState(false);
+
+  const usedLanguages = subtitles.map(subtitle => subtitle.language);
+  const availableLanguages = SUBTITLE_LANGUAGES.filter(option => !usedLanguages.includes(option.code));
+
+  // Suggest the film's own languages first, then English
+  const suggestedLanguage = [...filmLanguages.map(getSubtitleLanguageForFilmLanguage), 'en']
+    .find(code => code && !usedLanguages.includes(code)) || availableLanguages[0]?.code || '';
+  const language = selectedLanguage && !usedLanguages.includes(selectedLanguage) ? selectedLanguage : suggestedLanguage;
+
+  const maxSizeMB = SUBTITLE_FILE.maxSize / (1024 * 1024);
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !language) return;
+
+    setIsReading(true);
+    setFileErrors([]);
+    try {
+      const result = await readSubtitleFile(file, filmDurationSeconds);
+      if (result.errors.length > 0) {
+        setFileErrors(result.errors);
+        return;
+      }
+
+      const subtitle: SubtitleUpload = { id: `${language}_${Date.now()}`, language, file };
+      setChecks(prev => ({ ...prev, [subtitle.id]: result }));
+      setSelectedLanguage('');
+      onChange([...subtitles, subtitle]);
+    } catch (readError) {
+      console.error('Error reading subtitle file:', readError);
+      setFileErrors([{
+        severity: 'error',
+        message: { th: 'ไม่สามารถอ่านไฟล์คำบรรยายได้', en: 'Could not read the subtitle file' }
+      }]);
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleRemove = (id: string) => {
+    onChange(subtitles.filter(subtitle => subtitle.id !== id));
+  };
+
+  return (
+    <div>
+      <label className={`block text-white/90 ${getClass('body')} mb-1`}>
+        {currentLanguage === 'th' ? 'ไฟล์คำบรรยาย (ไม่บังคับ)' : 'Subtitle Files (optional)'}
+      </label>
+      <p className="text-white/60 text-sm mb-3">
+        {currentLanguage === 'th'
+          ? `ไฟล์ ${SUBTITLE_FILE.accept} ภาษาละหนึ่งไฟล์ (สูงสุด ${maxSizeMB}MB) ไฟล์ SRT จะถูกแปลงเป็น WebVTT โดยอัตโนมัติ`
+          : `${SUBTITLE_FILE.accept} files, one per language (max ${maxSizeMB}MB). SRT files are converted to WebVTT automatically.`
+        }
+      </p>
+
+      {/* Selected subtitle files */}
+      {subtitles.length > 0 && (
+        <div className="space-y-2 mb-3">
+          {subtitles.map(subtitle => {
+            const check = checks[subtitle.id];
+            return (
+              <div key={subtitle.id} className="p-3 rounded-lg bg-white/5 border border-white/20">
+                <div className="flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className={`text-white ${getClass('body')} font-medium`}>
+                      💬 {getSubtitleLanguageLabel(subtitle.language, currentLanguage)}
+                    </div>
+                    <div className="text-white/60 text-sm truncate">
+                      {subtitle.file.name}
+                      {check && ` · ${check.cues.length} ${currentLanguage === 'th' ? 'บรรทัด' : 'cues'}`}
+                    </div>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => handleRemove(subtitle.id)}
+                    className="text-red-400 hover:text-red-300 text-sm underline flex-shrink-0"
+                  >
+                    {currentLanguage === 'th' ? 'ลบไฟล์' : 'Remove File'}
+                  </button>
+                </div>
+                {check && check.warnings.length > 0 && (
+                  <div className="mt-2 p-2 bg-yellow-500/10 border border-yellow-500/30 rounded">
+                    {check.warnings.map((warning, index) => (
+                      <p key={index} className="text-yellow-200 text-xs">
+                        ⚠️ {warning.message[currentLanguage]}
+                      </p>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Add a language */}
+      {availableLanguages.length > 0 && (
+        <div className="flex flex-col sm:flex-row gap-3">
+          <select
+            value={language}
+            onChange={(e) => setSelectedLanguage(e.target.value)}
+            className="flex-1 p-3 rounded-lg bg-white/10 border border-white/20 text-white focus:border-[#FCB283] focus:outline-none"
+          >
+            {availableLanguages.map(option => (
+              <option key={option.code} value={option.code} className="bg-gray-800">
+                {option.label[currentLanguage]}
+              </option>
+            ))}
+          </select>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={SUBTITLE_FILE.accept}
+            onChange={handleFileSelect}
+            className="hidden"
+          />
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isReading}
+            className="px-4 py-3 rounded-lg border border-[#FCB283] text-[#FCB283] hover:bg-[#FCB283]/10 transition-colors disabled:opacity-50"
+          >
+            {isReading
+              ? (currentLanguage === 'th' ? 'กำลังตรวจสอบ...' : 'Checking...')
+              : (currentLanguage === 'th' ? '+ เพิ่มไฟล์คำบรรยาย' : '+ Add Subtitle File')
+            }
+          </button>
+        </div>
+      )}
+
+      {fileErrors.length > 0 && (
+        <div className="mt-3 p-3 bg-red-500/10 border border-red-500/30 rounded-lg">
+          {fileErrors.map((fileError, index) => (
+            <p key={index} className="text-red-300 text-sm">
+              {fileError.message[currentLanguage]}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SubtitleFilesUpload;
@@ -1,9 +1,14 @@
-import React, { useState, useRef } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
 import { useTypography } from '../../utils/typography';
-import { validateFileForUpload, formatFileSize, isImageFile, isVideoFile, createFilePreview, cleanupFilePreview } from '../../utils/fileUpload';
+import { validateFileForUpload, formatFileSize, formatTransferRate, formatEta, isImageFile, isVideoFile, createFilePreview, cleanupFilePreview } from '../../utils/fileUpload';
 import { FILE_TYPES } from '../../utils/formConstants';
-import { ApplicationService, FileReplaceRequest } from '../../services/applicationService';
+import { ApplicationService, FileReplaceRequest, getReplaceResumeKey } from '../../services/applicationService';
+import { resumableUploadManager, ResumableUpload, UploadTransferProgress } from '../../services/resumableUploadManager';
+import { FileUploadError } from '../../services/fileUploadService';
+import { UploadSession } from '../../utils/uploadSessionStore';
+import { probeAndValidateVideo, formatVideoDuration, getCodecLabel } from '../../utils/videoProbe';
+import { VideoCategory, VideoTechnicalMetadata, VideoValidationResult } from '../../types/video.types';
 import AnimatedButton from '../ui/AnimatedButton';
 import ErrorMessage from './ErrorMessage';
 
@@ -24,6 +29,8 @@ interface UploadModeProps extends BaseFileUploadProps {
   mode: 'upload';
   onFileChange: (file: File | null) => void;
   currentFile?: File | null;
+  videoCategory?: VideoCategory; // Checks a VIDEO file against this category's technical rules
+  onVideoMetadata?: (metadata: VideoTechnicalMetadata | null) => void;
 }
 
 interface ProgressModeProps extends BaseFileUploadProps {
@@ -54,10 +61,30 @@ const UnifiedFileUpload: React.FC<UnifiedFileUploadProps> = (props) => {
   // State for upload mode
   const [dragOver, setDragOver] = useState(false);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [isProbing, setIsProbing] = useState(false);
+  const [videoCheck, setVideoCheck] = useState<VideoValidationResult | null>(null);
   
   // State for replace mode
   const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
+  const [transfer, setTransfer] = useState<UploadTransferProgress | null>(null);
+  const [pendingSession, setPendingSession] = useState<UploadSession | null>(null);
+  const activeUploadRef = useRef<ResumableUpload | null>(null);
+
+  const replaceResumeKey = props.mode === 'replace'
+    ? getReplaceResumeKey(props.applicationId, props.name as FileReplaceRequest['fileType'])
+    : null;
+
+  // Offer to continue a replacement interrupted by a reload or closed tab
+  const loadPendingSession = async () => {
+    if (!replaceResumeKey) return;
+    const sessions = await resumableUploadManager.getPendingSessions(replaceResumeKey);
+    setPendingSession(sessions[0] || null);
+  };
+
+  useEffect(() => {
+    loadPendingSession();
+  }, [replaceResumeKey]);
 
   const config = FILE_TYPES[props.fileType];
   const maxSizeMB = Math.round(config.maxSize / (1024 * 1024));
@@ -135,7 +162,7 @@ const UnifiedFileUpload: React.FC<UnifiedFileUploadProps> = (props) => {
   };
 
   // Upload mode handlers
-  const handleFileChange = (file: File | null) => {
+  const handleFileChange = async (file: File | null) => {
     if (props.mode !== 'upload') return;
 
     // Cleanup previous preview
@@ -143,9 +170,11 @@ const UnifiedFileUpload: React.FC<UnifiedFileUploadProps> = (props) => {
       cleanupFilePreview(previewUrl);
       setPreviewUrl(null);
     }
+    setVideoCheck(null);
 
     if (!file) {
       props.onFileChange(null);
+      props.onVideoMetadata?.(null);
       return;
     }
 
@@ -156,6 +185,24 @@ const UnifiedFileUpload: React.FC<UnifiedFileUploadProps> = (props) => {
       return;
     }
 
+    // Read the film's duration, resolution and codec before accepting it
+    if (props.fileType === 'VIDEO' && props.videoCategory) {
+      setIsProbing(true);
+      const result = await probeAndValidateVideo(file, props.videoCategory);
+      setIsProbing(false);
+
+      if (result.errors.length > 0) {
+        alert(result.errors.map(issue => issue.message[currentLanguage]).join('\n'));
+        if (fileInputRef.current) {
+          fileInputRef.current.value = '';
+        }
+        return;
+      }
+
+      setVideoCheck(result);
+      props.onVideoMetadata?.(result.metadata);
+    }
+
     // Create preview for images
     if (isImageFile(file)) {
       const preview = createFilePreview(file);
@@ -221,6 +268,10 @@ const UnifiedFileUpload: React.FC<UnifiedFileUploadProps> = (props) => {
         newFile: file,
         onProgress: (progress) => {
           setUploadProgress(progress);
+        },
+        onTransfer: setTransfer,
+        onUploadCreated: (upload) => {
+          activeUploadRef.current = upload;
         }
       };
 
@@ -235,18 +286,41 @@ const UnifiedFileUpload: React.FC<UnifiedFileUploadProps> = (props) => {
 
     } catch (error) {
       console.error('Error replacing file:', error);
-      props.onError(error instanceof Error ? error.message : 'Failed to replace file');
+      if (!(error instanceof FileUploadError && error.code === 'upload-cancelled')) {
+        props.onError(error instanceof Error ? error.message : 'Failed to replace file');
+      }
       
       // Reset file input
       if (fileInputRef.current) {
         fileInputRef.current.value = '';
       }
     } finally {
+      activeUploadRef.current = null;
       setIsUploading(false);
       setUploadProgress(0);
+      setTransfer(null);
+      loadPendingSession();
     }
   };
 
+  const handlePauseUpload = () => {
+    activeUploadRef.current?.pause();
+  };
+
+  const handleResumeUpload = () => {
+    activeUploadRef.current?.resume();
+  };
+
+  const handleCancelUpload = () => {
+    activeUploadRef.current?.cancel();
+  };
+
+  const handleDiscardPendingSession = async () => {
+    if (!pendingSession) return;
+    await resumableUploadManager.discardSession(pendingSession);
+    setPendingSession(null);
+  };
+
   // Render upload mode
   if (props.mode === 'upload') {
     return (
@@ -293,6 +367,27 @@ const UnifiedFileUpload: React.FC<UnifiedFileUploadProps> = (props) => {
                 </div>
               </div>
               
+              {/* Video technical details */}
+              {videoCheck?.metadata && (
+                <div className="text-white/60 text-xs mb-3">
+                  {[
+                    formatVideoDuration(videoCheck.metadata.durationSeconds),
+                    `${videoCheck.metadata.width}×${videoCheck.metadata.height}`,
+                    videoCheck.metadata.aspectRatio,
+                    getCodecLabel(videoCheck.metadata.videoCodec)
+                  ].filter(Boolean).join(' · ')}
+                </div>
+              )}
+              {videoCheck && videoCheck.warnings.length > 0 && (
+                <div className="mb-3 p-2 bg-yellow-500/10 border border-yellow-500/30 rounded text-left">
+                  {videoCheck.warnings.map(issue => (
+                    <p key={issue.check} className="text-yellow-200 text-xs">
+                      ⚠️ {issue.message[currentLanguage]}
+                    </p>
+                  ))}
+                </div>
+              )}
+
               {/* Image Preview */}
               {previewUrl && (
                 <div className="mb-3">
@@ -312,6 +407,14 @@ const UnifiedFileUpload: React.FC<UnifiedFileUploadProps> = (props) => {
                 {currentLanguage === 'th' ? 'ลบไฟล์' : 'Remove File'}
               </button>
             </div>
+          ) : isProbing ? (
+            /* Reading video details */
+            <div className="text-center">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#FCB283] mx-auto mb-3"></div>
+              <div className={`text-white/80 ${getClass('body')}`}>
+                {currentLanguage === 'th' ? 'กำลังตรวจสอบไฟล์วิดีโอ...' : 'Checking video file...'}
+              </div>
+            </div>
           ) : (
             /* No File Selected */
             <div className="text-center">
@@ -426,12 +529,36 @@ const UnifiedFileUpload: React.FC<UnifiedFileUploadProps> = (props) => {
             </AnimatedButton>
           </div>
 
+          {/* Interrupted upload that can be continued */}
+          {pendingSession && !isUploading && (
+            <div className="mt-4 p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg">
+              <p className={`text-xs ${getClass('body')} text-yellow-200`}>
+                {currentLanguage === 'th'
+                  ? `การอัปโหลด ${pendingSession.fileName} ถูกขัดจังหวะที่ ${formatFileSize(pendingSession.bytesUploaded)} จาก ${formatFileSize(pendingSession.fileSize)} กด "เปลี่ยน" แล้วเลือกไฟล์เดิมเพื่ออัปโหลดต่อ`
+                  : `The upload of ${pendingSession.fileName} was interrupted at ${formatFileSize(pendingSession.bytesUploaded)} of ${formatFileSize(pendingSession.fileSize)}. Choose Replace and select the same file to continue.`
+                }
+              </p>
+              <button
+                type="button"
+                onClick={handleDiscardPendingSession}
+                className="mt-2 text-xs text-yellow-300 hover:text-yellow-200 underline"
+              >
+                {currentLanguage === 'th' ? 'ยกเลิกการอัปโหลดนี้' : 'Discard this upload'}
+              </button>
+            </div>
+          )}
+
           {/* Upload progress */}
           {isUploading && (
             <div className="mt-4">
               <div className="flex justify-between items-center mb-2">
                 <span className={`text-xs ${getClass('body')} text-white/80`}>
-                  {currentLanguage === 'th' ? 'กำลังอัปโหลด...' : 'Uploading...'}
+                  {transfer?.state === 'paused'
+                    ? (currentLanguage === 'th' ? 'หยุดชั่วคราว' : 'Paused')
+                    : transfer?.state === 'retrying'
+                    ? (currentLanguage === 'th' ? 'กำลังเชื่อมต่อใหม่...' : 'Reconnecting...')
+                    : (currentLanguage === 'th' ? 'กำลังอัปโหลด...' : 'Uploading...')
+                  }
                 </span>
                 <span className={`text-xs ${getClass('body')} text-[#FCB283]`}>
                   {Math.round(uploadProgress)}%
@@ -443,6 +570,38 @@ const UnifiedFileUpload: React.FC<UnifiedFileUploadProps> = (props) => {
                   style={{ width: `${uploadProgress}%` }}
                 ></div>
               </div>
+              <div className="flex flex-wrap justify-between items-center gap-2 mt-2">
+                <span className={`text-xs ${getClass('body')} text-white/60`}>
+                  {transfer && `${formatFileSize(transfer.bytesTransferred)} / ${formatFileSize(transfer.totalBytes)}`}
+                  {transfer?.state === 'uploading' && ` · ${formatTransferRate(transfer.bytesPerSecond)} · ${formatEta(transfer.etaSeconds)}`}
+                </span>
+                <div className="flex items-center gap-3">
+                  {transfer?.state === 'paused' ? (
+                    <button
+                      type="button"
+                      onClick={handleResumeUpload}
+                      className="text-xs text-[#FCB283] hover:text-white underline"
+                    >
+                      {currentLanguage === 'th' ? 'อัปโหลดต่อ' : 'Resume'}
+                    </button>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={handlePauseUpload}
+                      className="text-xs text-[#FCB283] hover:text-white underline"
+                    >
+                      {currentLanguage === 'th' ? 'หยุดชั่วคราว' : 'Pause'}
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={handleCancelUpload}
+                    className="text-xs text-red-400 hover:text-red-300 underline"
+                  >
+                    {currentLanguage === 'th' ? 'ยกเลิก' : 'Cancel'}
+                  </button>
+                </div>
+              </div>
             </div>
           )}
         </div>
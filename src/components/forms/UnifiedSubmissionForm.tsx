@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useTranslation } from 'react-i18next';
 import { useTypography } from '../../utils/typography';
 import { useAuth } from '../auth/AuthContext';
@@ -6,10 +6,14 @@ import { SubmissionService, SubmissionProgress, SubmissionResult } from '../../s
 import { YouthFormData, FutureFormData, WorldFormData, FormErrors, CrewMember } from '../../types/form.types';
 import { validateEmail, validateAge, getValidationMessages } from '../../utils/formValidation';
 import { FILM_ROLES, GENRE_OPTIONS } from '../../utils/formConstants';
+import { getDurationMinutes } from '../../utils/videoProbe';
+import { VideoTechnicalMetadata } from '../../types/video.types';
+import { SubtitleUpload } from '../../types/subtitle.types';
 import FormSection from './FormSection';
 import GenreSelector from './GenreSelector';
 import FormatSelector from './FormatSelector';
 import UnifiedFileUpload from './UnifiedFileUpload';
+import SubtitleFilesUpload from './SubtitleFilesUpload';
 import CrewManagement from './CrewManagement';
 import AgreementCheckboxes from './AgreementCheckboxes';
 import NationalitySelector from '../ui/NationalitySelector';
@@ -50,6 +54,7 @@ const UnifiedSubmissionForm: React.FC<UnifiedSubmissionFormProps> = ({ category
       filmFile: null,
       posterFile: null,
       proofFile: null,
+      subtitleFiles: [],
       agreement1: false,
       agreement2: false,
       agreement3: false,
@@ -106,6 +111,7 @@ const UnifiedSubmissionForm: React.FC<UnifiedSubmissionFormProps> = ({ category
   });
 
   const [formErrors, setFormErrors] = useState<FormErrors>({});
+  const [filmDurationSeconds, setFilmDurationSeconds] = useState<number | null>(null);
   const [submissionState, setSubmissionState] = useState<{
     isSubmitting: boolean;
     progress?: SubmissionProgress;
@@ -113,6 +119,7 @@ const UnifiedSubmissionForm: React.FC<UnifiedSubmissionFormProps> = ({ category
   }>({
     isSubmitting: false
   });
+  const submissionServiceRef = useRef<SubmissionService | null>(null);
 
   // Fetch user profile data and populate form
   useEffect(() => {
@@ -322,6 +329,18 @@ const UnifiedSubmissionForm: React.FC<UnifiedSubmissionFormProps> = ({ category
     handleInputChange(fileType, file);
   };
 
+  // Pre-fill the duration from the film file itself
+  const handleFilmMetadata = (metadata: VideoTechnicalMetadata | null) => {
+    setFilmDurationSeconds(metadata?.durationSeconds ?? null);
+    if (metadata) {
+      handleInputChange('duration', String(getDurationMinutes(metadata)));
+    }
+  };
+
+  const handleSubtitleFilesChange = (subtitleFiles: SubtitleUpload[]) => {
+    handleInputChange('subtitleFiles', subtitleFiles);
+  };
+
   const handleCrewMembersChange = (crewMembers: CrewMember[]) => {
     handleInputChange('crewMembers', crewMembers);
   };
@@ -381,6 +400,7 @@ const UnifiedSubmissionForm: React.FC<UnifiedSubmissionFormProps> = ({ category
       const submissionService = new SubmissionService((progress) => {
         setSubmissionState(prev => ({ ...prev, progress }));
       });
+      submissionServiceRef.current = submissionService;
 
       let result: SubmissionResult;
 
@@ -398,7 +418,10 @@ const UnifiedSubmissionForm: React.FC<UnifiedSubmissionFormProps> = ({ category
 
       setSubmissionState(prev => ({ ...prev, result }));
 
-      if (result.success) {
+      if (result.errorCode === 'upload-cancelled') {
+        // Cancelled by the applicant: return to the form with everything still filled in
+        setSubmissionState({ isSubmitting: false });
+      } else if (result.success) {
         // Clear submission state and show dialog immediately
         setSubmissionState({ isSubmitting: false });
         setSavedApplicationId(result.submissionId || '');
@@ -458,6 +481,9 @@ const UnifiedSubmissionForm: React.FC<UnifiedSubmissionFormProps> = ({ category
         <div className="max-w-4xl mx-auto">
           <SubmissionProgressComponent 
             progress={submissionState.progress}
+            onPause={() => submissionServiceRef.current?.pauseUploads()}
+            onResume={() => submissionServiceRef.current?.resumeUploads()}
+            onCancel={() => submissionServiceRef.current?.cancelUploads()}
           />
         </div>
       </div>
@@ -829,6 +855,8 @@ const UnifiedSubmissionForm: React.FC<UnifiedSubmissionFormProps> = ({ category
                 fileType="VIDEO"
                 onFileChange={(file) => handleFileChange('filmFile', file)}
                 currentFile={formData.filmFile}
+                videoCategory={category}
+                onVideoMetadata={handleFilmMetadata}
                 error={formErrors.filmFile}
               />
               
@@ -853,6 +881,13 @@ const UnifiedSubmissionForm: React.FC<UnifiedSubmissionFormProps> = ({ category
                 currentFile={formData.proofFile}
                 error={formErrors.proofFile}
               />
+
+              <SubtitleFilesUpload
+                subtitles={formData.subtitleFiles}
+                onChange={handleSubtitleFilesChange}
+                filmLanguages={formData.filmLanguages}
+                filmDurationSeconds={filmDurationSeconds}
+              />
             </div>
           </FormSection>
 
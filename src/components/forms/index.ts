@@ -7,3 +7,4 @@ export { default as ErrorMessage } from './ErrorMessage';
 export { default as FormatSelector } from './FormatSelector';
 export { default as FormSection } from './FormSection';
 export { default as GenreSelector } from './GenreSelector';
+export { default as SubtitleFilesUpload } from './SubtitleFilesUpload';
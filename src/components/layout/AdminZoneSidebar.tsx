@@ -19,8 +19,15 @@ import {
   Film,
   Award,
   ChevronDown,
-  ChevronRight
+  ChevronRight,
+  ClipboardList,
+  UserCheck,
+  Trophy,
+  Gavel,
+  History,
+  Archive
 } from 'lucide-react';
+import { isJuryUser } from '../../utils/userUtils';
 
 interface AdminZoneSidebarProps {
   currentPage: string;
@@ -61,9 +68,15 @@ const AdminZoneSidebar: React.FC<AdminZoneSidebarProps> = ({
       adminZone: "พื้นที่ผู้ดูแลระบบ",
       adminProfile: "โปรไฟล์ผู้ดูแล",
       roleManagement: "จัดการบทบาทผู้ใช้",
+      auditLog: "บันทึกการตรวจสอบ",
       applications: "ใบสมัคร",
       applicationsDashboard: "แดชบอร์ด",
       applicationsGallery: "แกลเลอรี่",
+      juryAssignments: "มอบหมายกรรมการ",
+      leaderboard: "ตารางจัดอันดับ",
+      decisionRounds: "รอบตัดสิน",
+      exports: "การส่งออก",
+      juryQueue: "ภาพยนตร์ที่ต้องพิจารณา",
       partnersManagement: "จัดการพาร์ทเนอร์",
       activitiesEvents: "กิจกรรมและอีเวนต์",
       allActivities: "กิจกรรมทั้งหมด",
@@ -75,15 +88,22 @@ const AdminZoneSidebar: React.FC<AdminZoneSidebarProps> = ({
       signOut: "ออกจากระบบ",
       welcome: "ยินดีต้อนรับ",
       administrator: "ผู้ดูแลระบบ",
+      juror: "กรรมการ",
       comingSoon: "เร็วๆ นี้"
     },
     en: {
       adminZone: "Admin Zone",
       adminProfile: "Admin Profile",
       roleManagement: "Role Management",
+      auditLog: "Audit Log",
       applications: "Applications",
       applicationsDashboard: "Dashboard",
       applicationsGallery: "Gallery",
+      juryAssignments: "Jury Assignments",
+      leaderboard: "Leaderboard",
+      decisionRounds: "Decision Rounds",
+      exports: "Exports",
+      juryQueue: "My Review Queue",
       partnersManagement: "Partners Management",
       activitiesEvents: "Activities & Events",
       allActivities: "All Activities",
@@ -95,13 +115,25 @@ const AdminZoneSidebar: React.FC<AdminZoneSidebarProps> = ({
       signOut: "Sign Out",
       welcome: "Welcome",
       administrator: "Administrator",
+      juror: "Juror",
       comingSoon: "Coming Soon"
     }
   };
 
   const currentContent = content[currentLanguage];
+  const isJuror = isJuryUser(userProfile);
 
-  const menuItems: AdminMenuItem[] = [
+  // Jurors only see their own review queue
+  const juryMenuItems: AdminMenuItem[] = [
+    {
+      id: 'admin/jury-queue',
+      icon: <ClipboardList size={20} />,
+      label: currentContent.juryQueue,
+      href: '#admin/jury-queue'
+    }
+  ];
+
+  const adminMenuItems: AdminMenuItem[] = [
     {
       id: 'admin/profile',
       icon: <User size={20} />,
@@ -115,6 +147,13 @@ const AdminZoneSidebar: React.FC<AdminZoneSidebarProps> = ({
       label: currentContent.roleManagement,
       href: '#admin/role-management'
     },
+    // Audit Log is limited to super admins
+    ...(permissions.canAccessSystemSettings ? [{
+      id: 'admin/audit-log',
+      icon: <History size={20} />,
+      label: currentContent.auditLog,
+      href: '#admin/audit-log'
+    }] : []),
     // Applications main menu (expandable)
     {
       id: 'admin/applications',
@@ -147,6 +186,8 @@ const AdminZoneSidebar: React.FC<AdminZoneSidebarProps> = ({
     }
   ];
 
+  const menuItems = isJuror ? juryMenuItems : adminMenuItems;
+
   const handleSignOut = async () => {
     try {
       await signOut();
@@ -179,7 +220,7 @@ const AdminZoneSidebar: React.FC<AdminZoneSidebarProps> = ({
   };
 
   const isApplicationsPageActive = (page: string) => {
-    return page.startsWith('admin/dashboard') || page.startsWith('admin/gallery');
+    return page.startsWith('admin/dashboard') || page.startsWith('admin/gallery') || page.startsWith('admin/jury-assignments') || page.startsWith('admin/leaderboard') || page.startsWith('admin/decisions') || page.startsWith('admin/exports');
   };
 
   const isActivitiesPageActive = (page: string) => {
@@ -199,6 +240,30 @@ const AdminZoneSidebar: React.FC<AdminZoneSidebarProps> = ({
       icon: <Grid size={18} />,
       label: currentContent.applicationsGallery,
       href: '#admin/gallery'
+    },
+    {
+      id: 'admin/jury-assignments',
+      icon: <UserCheck size={18} />,
+      label: currentContent.juryAssignments,
+      href: '#admin/jury-assignments'
+    },
+    {
+      id: 'admin/leaderboard',
+      icon: <Trophy size={18} />,
+      label: currentContent.leaderboard,
+      href: '#admin/leaderboard'
+    },
+    {
+      id: 'admin/decisions',
+      icon: <Gavel size={18} />,
+      label: currentContent.decisionRounds,
+      href: '#admin/decisions'
+    },
+    {
+      id: 'admin/exports',
+      icon: <Archive size={18} />,
+      label: currentContent.exports,
+      href: '#admin/exports'
     }
   ];
 
@@ -322,7 +387,7 @@ const AdminZoneSidebar: React.FC<AdminZoneSidebarProps> = ({
                   {adminProfile?.fullNameEN || user?.displayName || user?.email}
                 </p>
                 <span className="px-2 py-0.5 bg-[#FCB283]/20 text-[#FCB283] rounded-full text-xs border border-[#FCB283]/30">
-                  {currentContent.administrator}
+                  {isJuror ? currentContent.juror : currentContent.administrator}
                 </span>
               </div>
             </div>
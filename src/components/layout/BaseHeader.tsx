@@ -3,6 +3,7 @@ import { useTranslation } from 'react-i18next';
 import { useTypography } from '../../utils/typography';
 import { useAuth } from '../auth/AuthContext';
 import { Menu, ArrowLeft, Shield } from 'lucide-react';
+import NotificationInbox from '../ui/NotificationInbox';
 
 interface BaseHeaderProps {
   title: string;
@@ -86,9 +87,10 @@ const BaseHeader: React.FC<BaseHeaderProps> = ({
           </div>
         </div>
 
-        {/* Right Side: Custom Actions */}
+        {/* Right Side: Custom Actions + Notification Inbox */}
         <div className="flex items-center space-x-2 sm:space-x-3 md:space-x-4 flex-shrink-0">
           {children}
+          <NotificationInbox />
         </div>
       </div>
     </div>
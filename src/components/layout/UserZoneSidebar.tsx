@@ -2,7 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
 import { useTypography } from '../../utils/typography';
 import { useAuth } from '../auth/AuthContext';
-import { User, FileText, Settings, LogOut, X } from 'lucide-react';
+import { User, FileText, Ticket, Settings, LogOut, X } from 'lucide-react';
 
 interface UserZoneSidebarProps {
   currentPage: string;
@@ -27,6 +27,7 @@ const UserZoneSidebar: React.FC<UserZoneSidebarProps> = ({
       userZone: "พื้นที่ผู้ใช้",
       profile: "โปรไฟล์",
       myApplications: "ใบสมัครของฉัน",
+      myTickets: "บัตรเข้างานของฉัน",
       settings: "ตั้งค่า",
       signOut: "ออกจากระบบ",
       welcome: "ยินดีต้อนรับ"
@@ -35,6 +36,7 @@ const UserZoneSidebar: React.FC<UserZoneSidebarProps> = ({
       userZone: "User Zone",
       profile: "Profile",
       myApplications: "My Applications",
+      myTickets: "My Tickets",
       settings: "Settings",
       signOut: "Sign Out",
       welcome: "Welcome"
@@ -56,6 +58,12 @@ const UserZoneSidebar: React.FC<UserZoneSidebarProps> = ({
       label: currentContent.myApplications,
       href: '#my-applications'
     },
+    {
+      id: 'my-tickets',
+      icon: <Ticket size={20} />,
+      label: currentContent.myTickets,
+      href: '#my-tickets'
+    },
     {
       id: 'settings',
       icon: <Settings size={20} />,
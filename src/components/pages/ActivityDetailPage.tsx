@@ -2,9 +2,13 @@ import React, { useState, useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
 import { useTypography } from '../../utils/typography';
 import { useAuth } from '../auth/AuthContext';
-import { Activity } from '../../types/activities';
+import { useNotificationHelpers } from '../ui/NotificationContext';
+import { Activity, ActivityRegistration } from '../../types/activities';
 import { activitiesService } from '../../services/activitiesService';
+import { activityRegistrationService, getRegistrationClosedReason, occupiesSeat } from '../../services/activityRegistrationService';
 import { getTagColor } from '../../utils/tagColors';
+import { downloadActivitiesCalendar, getActivityCalendarFileName } from '../../utils/icalendar';
+import { getEffectiveCapacity, getSessionVenue } from '../../utils/activitySessions';
 import { 
   Calendar, 
   MapPin, 
@@ -23,7 +27,11 @@ import {
   CheckCircle,
   XCircle,
   Info,
-  UserPlus
+  UserPlus,
+  UserMinus,
+  Hourglass,
+  Ticket,
+  CalendarPlus
 } from 'lucide-react';
 import AnimatedButton from '../ui/AnimatedButton';
 
@@ -34,7 +42,8 @@ interface ActivityDetailPageProps {
 const ActivityDetailPage: React.FC<ActivityDetailPageProps> = ({ activityId }) => {
   const { i18n } = useTranslation();
   const { getClass } = useTypography();
-  const { user } = useAuth();
+  const { user, userProfile } = useAuth();
+  const { showSuccess, showInfo, showError } = useNotificationHelpers();
   const currentLanguage = i18n.language as 'en' | 'th';
 
   // State management
@@ -42,6 +51,8 @@ const ActivityDetailPage: React.FC<ActivityDetailPageProps> = ({ activityId }) =
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isRegistering, setIsRegistering] = useState(false);
+  const [registration, setRegistration] = useState<ActivityRegistration | null>(null);
+  const [isCancelling, setIsCancelling] = useState(false);
 
   // Content translations
   const content = {
@@ -57,6 +68,11 @@ const ActivityDetailPage: React.FC<ActivityDetailPageProps> = ({ activityId }) =
       freeEntry: 'เข้าร่วมได้เลย',
       eventDetails: 'รายละเอียดงาน',
       dateTime: 'วันที่และเวลา',
+      sessionSchedule: 'ตารางรอบกิจกรรม',
+      session: 'รอบที่',
+      sessionsCount: 'รอบ',
+      sessionSeats: 'ที่นั่ง',
+      attendAllSessions: 'ผู้ลงทะเบียนเข้าร่วมได้ทุกรอบ',
       venue: 'สถานที่',
       organizers: 'ผู้จัดงาน',
       contact: 'ติดต่อ',
@@ -66,6 +82,7 @@ const ActivityDetailPage: React.FC<ActivityDetailPageProps> = ({ activityId }) =
       registrationDeadline: 'วันหมดเขตรับสมัคร',
       share: 'แชร์',
       print: 'พิมพ์',
+      addToCalendar: 'เพิ่มลงปฏิทิน',
       viewLocation: 'ดูตำแหน่ง',
       loading: 'กำลังโหลด...',
       error: 'ไม่สามารถโหลดกิจกรรมได้',
@@ -77,7 +94,24 @@ const ActivityDetailPage: React.FC<ActivityDetailPageProps> = ({ activityId }) =
       published: 'เผยแพร่แล้ว',
       draft: 'ร่าง',
       cancelled: 'ยกเลิก',
-      completed: 'เสร็จสิ้น'
+      completed: 'เสร็จสิ้น',
+      joinWaitlist: 'ลงชื่อรอคิว',
+      waitlisted: 'คุณอยู่ในรายชื่อรอคิว',
+      waitlistNote: 'เราจะยืนยันที่นั่งให้อัตโนมัติเมื่อมีผู้ยกเลิก',
+      waitlistCount: 'รอคิว',
+      cancelRegistration: 'ยกเลิกการลงทะเบียน',
+      leaveWaitlist: 'ออกจากรายชื่อรอคิว',
+      viewTicket: 'ดูบัตรเข้างาน',
+      cancelling: 'กำลังยกเลิก...',
+      confirmCancel: 'ต้องการยกเลิกการลงทะเบียนกิจกรรมนี้หรือไม่?',
+      registrationConfirmed: 'ลงทะเบียนสำเร็จ',
+      registrationConfirmedMessage: 'ที่นั่งของคุณได้รับการยืนยันแล้ว',
+      addedToWaitlist: 'ลงชื่อรอคิวแล้ว',
+      addedToWaitlistMessage: 'กิจกรรมเต็มแล้ว คุณอยู่ในรายชื่อรอคิว',
+      registrationCancelled: 'ยกเลิกการลงทะเบียนแล้ว',
+      registrationFailed: 'ไม่สามารถลงทะเบียนได้',
+      cancellationFailed: 'ไม่สามารถยกเลิกการลงทะเบียนได้',
+      signIn: 'เข้าสู่ระบบ'
     },
     en: {
       backToActivities: 'Back to Activities',
@@ -91,6 +125,11 @@ const ActivityDetailPage: React.FC<ActivityDetailPageProps> = ({ activityId }) =
       freeEntry: 'Free Entry',
       eventDetails: 'Event Details',
       dateTime: 'Date & Time',
+      sessionSchedule: 'Session Schedule',
+      session: 'Session',
+      sessionsCount: 'sessions',
+      sessionSeats: 'seats',
+      attendAllSessions: 'Registration covers every session',
       venue: 'Venue',
       organizers: 'Organizers',
       contact: 'Contact',
@@ -100,6 +139,7 @@ const ActivityDetailPage: React.FC<ActivityDetailPageProps> = ({ activityId }) =
       registrationDeadline: 'Registration Deadline',
       share: 'Share',
       print: 'Print',
+      addToCalendar: 'Add to Calendar',
       viewLocation: 'View Location',
       loading: 'Loading...',
       error: 'Unable to load activity',
@@ -111,7 +151,24 @@ const ActivityDetailPage: React.FC<ActivityDetailPageProps> = ({ activityId }) =
       published: 'Published',
       draft: 'Draft',
       cancelled: 'Cancelled',
-      completed: 'Completed'
+      completed: 'Completed',
+      joinWaitlist: 'Join Waitlist',
+      waitlisted: 'You are on the waitlist',
+      waitlistNote: 'Your seat will be confirmed automatically if someone cancels',
+      waitlistCount: 'on waitlist',
+      cancelRegistration: 'Cancel Registration',
+      leaveWaitlist: 'Leave Waitlist',
+      viewTicket: 'View Ticket',
+      cancelling: 'Cancelling...',
+      confirmCancel: 'Do you want to cancel your registration for this activity?',
+      registrationConfirmed: 'Registration confirmed',
+      registrationConfirmedMessage: 'Your seat has been confirmed',
+      addedToWaitlist: 'Added to waitlist',
+      addedToWaitlistMessage: 'This activity is full. You have been placed on the waitlist',
+      registrationCancelled: 'Registration cancelled',
+      registrationFailed: 'Unable to register',
+      cancellationFailed: 'Unable to cancel registration',
+      signIn: 'Sign In'
     }
   };
 
@@ -124,6 +181,11 @@ const ActivityDetailPage: React.FC<ActivityDetailPageProps> = ({ activityId }) =
     incrementViews();
   }, [activityId]);
 
+  // Load the current user's registration
+  useEffect(() => {
+    loadRegistration();
+  }, [activityId, user?.uid]);
+
   const loadActivity = async () => {
     try {
       setIsLoading(true);
@@ -150,6 +212,20 @@ const ActivityDetailPage: React.FC<ActivityDetailPageProps> = ({ activityId }) =
     }
   };
 
+  const loadRegistration = async () => {
+    if (!user) {
+      setRegistration(null);
+      return;
+    }
+
+    try {
+      const registrationData = await activityRegistrationService.getRegistration(activityId, user.uid);
+      setRegistration(registrationData);
+    } catch (err) {
+      console.warn('Failed to load registration:', err);
+    }
+  };
+
   const incrementViews = async () => {
     try {
       await activitiesService.incrementViews(activityId);
@@ -179,37 +255,28 @@ const ActivityDetailPage: React.FC<ActivityDetailPageProps> = ({ activityId }) =
   const getRegistrationStatus = () => {
     if (!activity) return { canRegister: false, reason: 'loading' };
     
-    const now = new Date();
-    const registrationDeadline = new Date(activity.registrationDeadline);
-    const eventDate = new Date(activity.eventDate);
+    // Users who already hold a seat or a waitlist spot manage it instead of registering again
+    if (registration && registration.status !== 'cancelled') {
+      return { canRegister: false, reason: registration.status };
+    }
     
-    // Check if registration is needed for this activity
-    if (!activity.needSubmission) {
-      return { canRegister: false, reason: 'no-registration-needed' };
+    const closedReason = getRegistrationClosedReason(activity);
+    if (closedReason === 'no-registration-needed') {
+      return { canRegister: false, reason: closedReason };
     }
     
     // Check if user is logged in (only if registration is needed)
     if (!user) return { canRegister: false, reason: 'login' };
     
-    // Check if registration deadline has passed
-    if (now > registrationDeadline) {
-      return { canRegister: false, reason: 'closed' };
-    }
-    
-    // Check if event has already passed
-    if (now > eventDate) {
-      return { canRegister: false, reason: 'past' };
+    if (closedReason) {
+      return { canRegister: false, reason: closedReason };
     }
     
-    // Check if activity is published
-    if (activity.status !== 'published') {
-      return { canRegister: false, reason: 'unpublished' };
-    }
-    
-    // Check if activity is full
+    // A full activity still accepts registrations onto the waitlist
     const registered = activity.registeredParticipants || 0;
-    if (activity.maxParticipants > 0 && registered >= activity.maxParticipants) {
-      return { canRegister: false, reason: 'full' };
+    const capacity = getEffectiveCapacity(activity);
+    if (capacity > 0 && registered >= capacity) {
+      return { canRegister: true, reason: 'waitlist' };
     }
     
     return { canRegister: true, reason: 'available' };
@@ -221,17 +288,60 @@ const ActivityDetailPage: React.FC<ActivityDetailPageProps> = ({ activityId }) =
     
     try {
       setIsRegistering(true);
-      // TODO: Implement registration logic
-      console.log('Registering for activity:', activity.id);
-      // This would typically call a registration service
-      // await registrationService.register(activity.id, user.uid);
+      const result = await activityRegistrationService.register(activity.id, {
+        userId: user.uid,
+        userName: userProfile?.fullNameEN || user.displayName || user.email || '',
+        userEmail: user.email || userProfile?.email || '',
+        userPhone: userProfile?.phoneNumber
+      });
+      
+      setRegistration(result.registration);
+      if (result.waitlisted) {
+        showInfo(currentContent.addedToWaitlist, currentContent.addedToWaitlistMessage);
+      } else {
+        showSuccess(currentContent.registrationConfirmed, currentContent.registrationConfirmedMessage);
+      }
+      await refreshActivity();
     } catch (err) {
       console.error('Registration error:', err);
+      showError(currentContent.registrationFailed, err instanceof Error ? err.message : undefined);
+      await refreshActivity();
     } finally {
       setIsRegistering(false);
     }
   };
 
+  // Handle cancellation (also used to leave the waitlist)
+  const handleCancelRegistration = async () => {
+    if (!activity || !user) return;
+    if (!window.confirm(currentContent.confirmCancel)) return;
+    
+    try {
+      setIsCancelling(true);
+      const result = await activityRegistrationService.cancel(activity.id, user.uid);
+      setRegistration(result.registration);
+      showSuccess(currentContent.registrationCancelled);
+      await refreshActivity();
+    } catch (err) {
+      console.error('Cancellation error:', err);
+      showError(currentContent.cancellationFailed, err instanceof Error ? err.message : undefined);
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  // Reload counters without toggling the page-level loading state
+  const refreshActivity = async () => {
+    try {
+      const activityData = await activitiesService.getActivityById(activityId);
+      if (activityData) {
+        setActivity(activityData);
+      }
+    } catch (err) {
+      console.warn('Failed to refresh activity:', err);
+    }
+  };
+
   // Handle share
   const handleShare = async () => {
     if (navigator.share) {
@@ -250,6 +360,12 @@ const ActivityDetailPage: React.FC<ActivityDetailPageProps> = ({ activityId }) =
     }
   };
 
+  // Handle calendar download
+  const handleAddToCalendar = () => {
+    if (!activity) return;
+    downloadActivitiesCalendar([activity], activity.name, getActivityCalendarFileName(activity));
+  };
+
   // Handle print
   const handlePrint = () => {
     window.print();
@@ -306,6 +422,8 @@ const ActivityDetailPage: React.FC<ActivityDetailPageProps> = ({ activityId }) =
   }
 
   const registrationStatus = getRegistrationStatus();
+  const capacity = getEffectiveCapacity(activity);
+  const sessions = activity.sessions || [];
   const isFree = activity.tags.includes('free');
 
   return (
@@ -324,6 +442,16 @@ const ActivityDetailPage: React.FC<ActivityDetailPageProps> = ({ activityId }) =
             </AnimatedButton>
             
             <div className="flex items-center space-x-3">
+              <button
+                onClick={handleAddToCalendar}
+                className="flex items-center gap-2 p-2 text-white/60 hover:text-[#FCB283] transition-colors print:hidden"
+                title={currentContent.addToCalendar}
+              >
+                <CalendarPlus className="w-5 h-5" />
+                <span className={`hidden sm:inline text-sm ${getClass('menu')}`}>
+                  {currentContent.addToCalendar}
+                </span>
+              </button>
               <button
                 onClick={handleShare}
                 className="p-2 text-white/60 hover:text-[#FCB283] transition-colors"
@@ -424,6 +552,63 @@ const ActivityDetailPage: React.FC<ActivityDetailPageProps> = ({ activityId }) =
               </div>
             </div>
 
+            {/* Session Schedule */}
+            {sessions.length > 0 && (
+              <div className="glass-container rounded-xl p-6 sm:p-8">
+                <h2 className={`text-2xl ${getClass('header')} text-white mb-2 flex items-center`}>
+                  <Calendar className="w-6 h-6 text-[#FCB283] mr-3" />
+                  {currentContent.sessionSchedule}
+                </h2>
+                <p className={`text-sm ${getClass('menu')} text-white/60 mb-6`}>
+                  {currentContent.attendAllSessions}
+                </p>
+                <div className="space-y-3">
+                  {sessions.map((session, index) => {
+                    const venue = getSessionVenue(session, activity);
+                    return (
+                      <div
+                        key={session.id}
+                        className="flex flex-col sm:flex-row sm:items-start gap-3 p-4 rounded-lg bg-white/5 border border-white/10"
+                      >
+                        <div className="w-10 h-10 rounded-full bg-[#FCB283]/20 text-[#FCB283] flex items-center justify-center font-bold flex-shrink-0">
+                          {index + 1}
+                        </div>
+                        <div className="flex-1 space-y-1">
+                          <div className={`${getClass('body')} text-white font-medium`}>
+                            {session.title || `${currentContent.session} ${index + 1}`}
+                          </div>
+                          <div className={`text-sm ${getClass('menu')} text-white/70 flex items-center`}>
+                            <Clock className="w-4 h-4 mr-2 text-[#FCB283]" />
+                            {formatDate(session.date)} · {formatTime(session.startTime)} - {formatTime(session.endTime)}
+                          </div>
+                          <div className={`text-sm ${getClass('menu')} text-white/70 flex items-center`}>
+                            <MapPin className="w-4 h-4 mr-2 text-[#FCB283]" />
+                            {venue.venueName}
+                            {venue.venueLocation && (
+                              <a
+                                href={venue.venueLocation}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="ml-2 text-[#FCB283] hover:text-white transition-colors"
+                                title={currentContent.viewLocation}
+                              >
+                                <ExternalLink className="w-3 h-3" />
+                              </a>
+                            )}
+                          </div>
+                        </div>
+                        {session.maxParticipants > 0 && (
+                          <div className={`text-sm ${getClass('menu')} text-white/60 sm:text-right`}>
+                            {session.maxParticipants} {currentContent.sessionSeats}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
             {/* Organizers */}
             {activity.organizers.length > 0 && (
               <div className="glass-container rounded-xl p-6 sm:p-8">
@@ -451,27 +636,30 @@ const ActivityDetailPage: React.FC<ActivityDetailPageProps> = ({ activityId }) =
             <div className="glass-container rounded-xl p-6">
               <div className="text-center mb-6">
                 <div className="text-3xl font-bold text-white mb-2">
-                  {activity.maxParticipants === 0 
+                  {capacity === 0 
                     ? currentContent.unlimited 
-                    : `${activity.registeredParticipants || 0}/${activity.maxParticipants}`
+                    : `${activity.registeredParticipants || 0}/${capacity}`
                   }
                 </div>
                 <div className={`text-sm ${getClass('body')} text-white/60`}>
                   {currentContent.participants}
                 </div>
                 
-                {activity.maxParticipants > 0 && (
+                {capacity > 0 && (
                   <div className="mt-3">
                     <div className="w-full bg-white/20 rounded-full h-2">
                       <div 
                         className="bg-gradient-to-r from-[#AA4626] to-[#FCB283] h-2 rounded-full transition-all duration-300"
                         style={{ 
-                          width: `${Math.min(((activity.registeredParticipants || 0) / activity.maxParticipants) * 100, 100)}%` 
+                          width: `${Math.min(((activity.registeredParticipants || 0) / capacity) * 100, 100)}%` 
                         }}
                       ></div>
                     </div>
                     <div className={`text-xs ${getClass('menu')} text-white/60 mt-1`}>
-                      {activity.maxParticipants - (activity.registeredParticipants || 0)} {currentContent.available}
+                      {Math.max(capacity - (activity.registeredParticipants || 0), 0)} {currentContent.available}
+                      {(activity.waitlistCount || 0) > 0 && (
+                        <> · {activity.waitlistCount} {currentContent.waitlistCount}</>
+                      )}
                     </div>
                   </div>
                 )}
@@ -480,7 +668,63 @@ const ActivityDetailPage: React.FC<ActivityDetailPageProps> = ({ activityId }) =
               {/* Registration Button - Show only if registration is needed */}
               {activity.needSubmission && (
                 <div className="space-y-3">
-                  {registrationStatus.canRegister ? (
+                  {registration && registration.status !== 'cancelled' ? (
+                    <div className="text-center space-y-3">
+                      {occupiesSeat(registration.status) ? (
+                        <div className="flex items-center justify-center space-x-2 text-green-400">
+                          <CheckCircle className="w-5 h-5" />
+                          <span className={`text-sm ${getClass('body')} font-medium`}>
+                            {currentContent.registered}
+                          </span>
+                        </div>
+                      ) : (
+                        <div>
+                          <div className="flex items-center justify-center space-x-2 text-[#FCB283] mb-1">
+                            <Hourglass className="w-5 h-5" />
+                            <span className={`text-sm ${getClass('body')} font-medium`}>
+                              {currentContent.waitlisted}
+                            </span>
+                          </div>
+                          <div className={`text-xs ${getClass('menu')} text-white/60`}>
+                            {currentContent.waitlistNote}
+                          </div>
+                        </div>
+                      )}
+                      {occupiesSeat(registration.status) && (
+                        <AnimatedButton
+                          variant="primary"
+                          size="medium"
+                          onClick={() => { window.location.hash = '#my-tickets'; }}
+                          className="w-full"
+                        >
+                          <Ticket className="w-4 h-4 mr-2" />
+                          {currentContent.viewTicket}
+                        </AnimatedButton>
+                      )}
+                      {registration.status !== 'attended' && (
+                        <AnimatedButton
+                          variant="outline"
+                          size="medium"
+                          onClick={isCancelling ? undefined : handleCancelRegistration}
+                          className={`w-full ${isCancelling ? 'opacity-50 cursor-not-allowed' : ''}`}
+                        >
+                          {isCancelling ? (
+                            <>
+                              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                              {currentContent.cancelling}
+                            </>
+                          ) : (
+                            <>
+                              <UserMinus className="w-4 h-4 mr-2" />
+                              {registration.status === 'waitlisted'
+                                ? currentContent.leaveWaitlist
+                                : currentContent.cancelRegistration}
+                            </>
+                          )}
+                        </AnimatedButton>
+                      )}
+                    </div>
+                  ) : registrationStatus.canRegister ? (
                     <AnimatedButton
                       variant="primary"
                       size="large"
@@ -492,6 +736,11 @@ const ActivityDetailPage: React.FC<ActivityDetailPageProps> = ({ activityId }) =
                           <Loader2 className="w-4 h-4 mr-2 animate-spin" />
                           {currentContent.registering}
                         </>
+                      ) : registrationStatus.reason === 'waitlist' ? (
+                        <>
+                          <Hourglass className="w-4 h-4 mr-2" />
+                          {currentContent.joinWaitlist}
+                        </>
                       ) : (
                         <>
                           <UserPlus className="w-4 h-4 mr-2" />
@@ -506,7 +755,6 @@ const ActivityDetailPage: React.FC<ActivityDetailPageProps> = ({ activityId }) =
                         <span className={`text-sm ${getClass('body')}`}>
                           {registrationStatus.reason === 'login' && currentContent.loginRequired}
                           {registrationStatus.reason === 'closed' && currentContent.closed}
-                          {registrationStatus.reason === 'full' && currentContent.full}
                           {registrationStatus.reason === 'past' && currentContent.closed}
                           {registrationStatus.reason === 'unpublished' && currentContent.closed}
                         </span>
@@ -518,7 +766,7 @@ const ActivityDetailPage: React.FC<ActivityDetailPageProps> = ({ activityId }) =
                           onClick={() => window.location.hash = '#auth/signin'}
                           className="w-full"
                         >
-                          Sign In
+                          {currentContent.signIn}
                         </AnimatedButton>
                       )}
                     </div>
@@ -554,9 +802,14 @@ const ActivityDetailPage: React.FC<ActivityDetailPageProps> = ({ activityId }) =
                   <div>
                     <div className={`${getClass('body')} text-white font-medium`}>
                       {formatDate(activity.eventDate)}
+                      {activity.eventEndDate && !activity.isOneDayActivity && (
+                        <> - {formatDate(activity.eventEndDate)}</>
+                      )}
                     </div>
                     <div className={`text-sm ${getClass('menu')} text-white/60`}>
-                      {formatTime(activity.startTime)} - {formatTime(activity.endTime)}
+                      {sessions.length > 0
+                        ? `${sessions.length} ${currentContent.sessionsCount}`
+                        : `${formatTime(activity.startTime)} - ${formatTime(activity.endTime)}`}
                     </div>
                   </div>
                 </div>
@@ -6,13 +6,23 @@ import { doc, getDoc, updateDoc } from 'firebase/firestore';
 import { db } from '../../firebase';
 import ExportService from '../../services/exportService';
 import { useNotificationHelpers } from '../ui/NotificationSystem';
-import { AdminApplicationData, ScoringCriteria } from '../../types/admin.types';
+import { AdminApplicationData, RubricScores, ScoringCriteria } from '../../types/admin.types';
+import { SubmissionAuditAction, AuditFieldChange } from '../../types/audit.types';
+import { getRubricForCategory, getRubricById, getRubricMaxScore } from '../../utils/scoringRubrics';
+import { isJuryUser } from '../../utils/userUtils';
 import { shortFilmCommentsService, ShortFilmComment } from '../../services/shortFilmCommentsService';
+import { juryAssignmentService } from '../../services/juryAssignmentService';
+import { auditLogService } from '../../services/auditLogService';
+import { diffFields, scoreAuditFields } from '../../utils/auditDiff';
 import AdminZoneHeader from '../layout/AdminZoneHeader';
 import VideoScoringPanel from '../admin/VideoScoringPanel';
+import VideoAnnotationPlayer from '../admin/VideoAnnotationPlayer';
 import AdminControlsPanel from '../admin/AdminControlsPanel';
+import SubmissionAuditTimeline from '../admin/SubmissionAuditTimeline';
+import VersionHistorySection from '../applications/VersionHistorySection';
 import VideoSection from '../applications/VideoSection';
 import CompactFilmInfo from '../ui/CompactFilmInfo';
+import { formatVideoDuration, getCodecLabel, listVideoIssues } from '../../utils/videoProbe';
 import FirestoreCommentsDebugger from '../debug/FirestoreCommentsDebugger';
 import { 
   Eye, 
@@ -40,7 +50,9 @@ import {
   AlertTriangle,
   XCircle,
   MessageSquare,
-  Bug
+  Bug,
+  EyeOff,
+  History
 } from 'lucide-react';
 
 interface AdminApplicationDetailPageProps {
@@ -77,9 +89,13 @@ const AdminApplicationDetailPage: React.FC<AdminApplicationDetailPageProps> = ({
 }) => {
   const { i18n } = useTranslation();
   const { getClass } = useTypography();
-  const { user } = useAuth();
+  const { user, userProfile } = useAuth();
   const currentLanguage = i18n.language as 'en' | 'th';
 
+  // Jurors review blind: submitter identity, school and contact data are never shown
+  const isBlindReview = isJuryUser(userProfile);
+  const backHash = isBlindReview ? '#admin/jury-queue' : '#admin/gallery';
+
   const [application, setApplication] = useState<AdminApplicationData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -87,6 +103,7 @@ const AdminApplicationDetailPage: React.FC<AdminApplicationDetailPageProps> = ({
   const [currentScores, setCurrentScores] = useState<Partial<ScoringCriteria>>({});
   const [isSubmittingScore, setIsSubmittingScore] = useState(false);
   const [isUpdatingStatus, setIsUpdatingStatus] = useState(false);
+  const [activeTab, setActiveTab] = useState<'details' | 'timeline'>('details');
   
   // UI State
   const [crewSearchTerm, setCrewSearchTerm] = useState('');
@@ -124,14 +141,7 @@ const AdminApplicationDetailPage: React.FC<AdminApplicationDetailPageProps> = ({
       id: comment.id,
       judgeName: comment.adminName,
       judgeEmail: comment.adminEmail,
-      scores: {
-        technical: comment.scores!.technical,
-        story: comment.scores!.story,
-        creativity: comment.scores!.creativity,
-        chiangmai: comment.scores!.chiangmai,
-        overall: comment.scores!.overall,
-        totalScore: comment.scores!.totalScore
-      },
+      scores: comment.scores!,
       comments: comment.content,
       submittedAt: comment.createdAt,
       isEdited: comment.isEdited,
@@ -180,7 +190,8 @@ const AdminApplicationDetailPage: React.FC<AdminApplicationDetailPageProps> = ({
       }
 
       try {
-        const docRef = doc(db, 'submissions', applicationId);
+        // Jurors may only read the redacted blind review copy of the submission
+        const docRef = doc(db, isBlindReview ? 'blindReviews' : 'submissions', applicationId);
         const docSnap = await getDoc(docRef);
         
         if (!docSnap.exists()) {
@@ -190,6 +201,14 @@ const AdminApplicationDetailPage: React.FC<AdminApplicationDetailPageProps> = ({
         
         const data = docSnap.data();
         
+        if (isBlindReview && !(data.assignedReviewers || []).includes(user?.uid)) {
+          setError(currentLanguage === 'th' ? 'ภาพยนตร์เรื่องนี้ไม่ได้มอบหมายให้คุณ' : 'This film is not assigned to you');
+          return;
+        }
+
+        // Jurors score independently, so they do not see the other judges' scores
+        const scores = isBlindReview ? [] : await juryAssignmentService.getScores(docSnap.id, data.scores);
+        
         // Map Firestore data to AdminApplicationData type
         const realApplication: AdminApplicationData = {
           id: docSnap.id,
@@ -218,18 +237,22 @@ const AdminApplicationDetailPage: React.FC<AdminApplicationDetailPageProps> = ({
             filmFile: {
               url: data.files?.filmFile?.downloadURL || data.files?.filmFile?.url || '',
               name: data.files?.filmFile?.fileName || data.files?.filmFile?.name || 'Film file',
-              size: data.files?.filmFile?.fileSize || data.files?.filmFile?.size || 0
+              size: data.files?.filmFile?.fileSize || data.files?.filmFile?.size || 0,
+              technical: data.files?.filmFile?.technical,
+              previewFrames: data.files?.filmFile?.previewFrames
             },
             posterFile: {
               url: data.files?.posterFile?.downloadURL || data.files?.posterFile?.url || '',
               name: data.files?.posterFile?.fileName || data.files?.posterFile?.name || 'Poster file',
-              size: data.files?.posterFile?.fileSize || data.files?.posterFile?.size || 0
+              size: data.files?.posterFile?.fileSize || data.files?.posterFile?.size || 0,
+              thumbnails: data.files?.posterFile?.thumbnails
             },
             proofFile: data.files?.proofFile ? {
               url: data.files?.proofFile?.downloadURL || data.files?.proofFile?.url || '',
               name: data.files?.proofFile?.fileName || data.files?.proofFile?.name || 'Proof file',
               size: data.files?.proofFile?.fileSize || data.files?.proofFile?.size || 0
-            } : undefined
+            } : undefined,
+            subtitles: data.files?.subtitles || []
           },
           
           // Additional data from Firestore
@@ -242,7 +265,7 @@ const AdminApplicationDetailPage: React.FC<AdminApplicationDetailPageProps> = ({
           crewMembers: data.crewMembers || [],
           
           // Admin-specific data
-          scores: data.scores || [],
+          scores,
           adminNotes: data.adminNotes || '',
           reviewStatus: data.reviewStatus || 'draft',
           flagged: data.flagged || false,
@@ -256,6 +279,23 @@ const AdminApplicationDetailPage: React.FC<AdminApplicationDetailPageProps> = ({
           lastReviewedAt: data.lastReviewedAt?.toDate()
         };
 
+        if (isBlindReview) {
+          // Strip identifying fields so they never reach the rendered page
+          realApplication.submitterName = undefined;
+          realApplication.submitterNameTh = undefined;
+          realApplication.submitterAge = undefined;
+          realApplication.submitterPhone = undefined;
+          realApplication.submitterEmail = undefined;
+          realApplication.submitterRole = undefined;
+          realApplication.schoolName = undefined;
+          realApplication.studentId = undefined;
+          realApplication.universityName = undefined;
+          realApplication.faculty = undefined;
+          realApplication.universityId = undefined;
+          realApplication.crewMembers = [];
+          realApplication.files = { ...realApplication.files, proofFile: undefined };
+        }
+
         setApplication(realApplication);
         
         // Note: We no longer use the old scores array from submissions document
@@ -271,7 +311,7 @@ const AdminApplicationDetailPage: React.FC<AdminApplicationDetailPageProps> = ({
     };
 
     loadApplication();
-  }, [applicationId, user?.uid, currentLanguage]);
+  }, [applicationId, user?.uid, currentLanguage, isBlindReview]);
 
   // Subscribe to comments
   useEffect(() => {
@@ -287,6 +327,8 @@ const AdminApplicationDetailPage: React.FC<AdminApplicationDetailPageProps> = ({
     
     // Use the actual document ID from the loaded application if available
     const submissionId = application?.id || applicationId;
+    // Jurors score independently and may only read their own comments
+    const authorId = isBlindReview ? user.uid : undefined;
     console.log('📋 Using submissionId for comments:', submissionId);
     console.log('✅ Setting up comments subscription...');
     setLoadingComments(true);
@@ -295,7 +337,7 @@ const AdminApplicationDetailPage: React.FC<AdminApplicationDetailPageProps> = ({
     const loadExistingComments = async () => {
       try {
         console.log('🔍 Attempting to load existing comments...');
-        const existingComments = await shortFilmCommentsService.getComments(submissionId);
+        const existingComments = await shortFilmCommentsService.getComments(submissionId, authorId);
         console.log('📋 Existing comments found:', existingComments.length);
         
         if (existingComments.length > 0) {
@@ -363,19 +405,25 @@ const AdminApplicationDetailPage: React.FC<AdminApplicationDetailPageProps> = ({
         setCurrentUserScore(userScore);
         
         setLoadingComments(false);
-      }
+      },
+      undefined,
+      authorId
     );
 
     return () => {
       console.log('🧹 Cleaning up comments subscription');
       unsubscribeComments();
     };
-  }, [applicationId, user]);
+  }, [applicationId, user, isBlindReview]);
 
   const content = {
     th: {
       pageTitle: "รายละเอียดใบสมัคร",
       subtitle: "ดูและประเมินผลงานภาพยนตร์",
+      blindReview: "พิจารณาแบบปิดชื่อ",
+      hiddenIdentity: "ซ่อนไว้",
+      detailsTab: "รายละเอียด",
+      timelineTab: "ประวัติการเปลี่ยนแปลง",
       loading: "กำลังโหลด...",
       
       // Sections
@@ -470,6 +518,10 @@ const AdminApplicationDetailPage: React.FC<AdminApplicationDetailPageProps> = ({
     en: {
       pageTitle: "Application Details",
       subtitle: "View and evaluate film submission",
+      blindReview: "Blind Review",
+      hiddenIdentity: "Hidden",
+      detailsTab: "Details",
+      timelineTab: "Timeline",
       loading: "Loading...",
       
       // Sections
@@ -778,7 +830,7 @@ const AdminApplicationDetailPage: React.FC<AdminApplicationDetailPageProps> = ({
   const refreshCommentsData = async () => {
     console.log('🔄 Refreshing comments data...');
     try {
-      const refreshedComments = await shortFilmCommentsService.getComments(applicationId);
+      const refreshedComments = await shortFilmCommentsService.getComments(applicationId, isBlindReview ? user?.uid : undefined);
       console.log('📨 Refreshed comments:', refreshedComments.length);
       
       setComments(refreshedComments);
@@ -828,6 +880,20 @@ const AdminApplicationDetailPage: React.FC<AdminApplicationDetailPageProps> = ({
     }
   };
 
+  const recordAudit = async (action: SubmissionAuditAction, changes: AuditFieldChange[], reason?: string) => {
+    if (!user || changes.length === 0) return;
+
+    await auditLogService.record({
+      submissionId: applicationId,
+      filmTitle: application?.filmTitle,
+      action,
+      actorId: user.uid,
+      actorName: user.displayName || user.email || 'Admin',
+      changes,
+      reason
+    });
+  };
+
   const handleSaveScore = async (scores: ScoringCriteria) => {
     console.log('🚀 FIXED handleSaveScore called with:', scores);
     
@@ -856,12 +922,14 @@ const AdminApplicationDetailPage: React.FC<AdminApplicationDetailPageProps> = ({
       // FIXED: Enhanced logic for deciding update vs create
       let shouldUpdate = false;
       let existingCommentId = null;
+      let previousScores: RubricScores | undefined;
       
       // Step 1: Use currentUserScore from UI state as primary source (more reliable)
       if (currentUserScore && currentUserScore.id && !currentUserScore.isDeleted) {
         if (currentUserScore.adminId === user.uid) {
           shouldUpdate = true;
           existingCommentId = currentUserScore.id;
+          previousScores = currentUserScore.scores;
           console.log('✅ Using UI state - will UPDATE existing score:', {
             id: existingCommentId,
             adminId: currentUserScore.adminId,
@@ -878,6 +946,7 @@ const AdminApplicationDetailPage: React.FC<AdminApplicationDetailPageProps> = ({
           if (apiExistingScore && apiExistingScore.id && !apiExistingScore.isDeleted) {
             shouldUpdate = true;
             existingCommentId = apiExistingScore.id;
+            previousScores = apiExistingScore.scores;
             console.log('✅ API check found existing score - will UPDATE:', {
               id: existingCommentId,
               adminId: apiExistingScore.adminId,
@@ -898,12 +967,9 @@ const AdminApplicationDetailPage: React.FC<AdminApplicationDetailPageProps> = ({
             applicationId,
             existingCommentId,
             {
-              technical: scores.technical,
-              story: scores.story,
-              creativity: scores.creativity,
-              chiangmai: scores.chiangmai,
-              overall: scores.overall,
-              totalScore: scores.totalScore
+              rubricId: scores.rubricId,
+              values: scores.values,
+              criterionComments: scores.criterionComments
             },
             scores.comments || '',
             user.uid
@@ -936,55 +1002,39 @@ const AdminApplicationDetailPage: React.FC<AdminApplicationDetailPageProps> = ({
           user.displayName || user.email || 'Admin',
           user.email || '',
           {
-            technical: scores.technical,
-            story: scores.story,
-            creativity: scores.creativity,
-            chiangmai: scores.chiangmai,
-            overall: scores.overall,
-            totalScore: scores.totalScore
+            rubricId: scores.rubricId,
+            values: scores.values,
+            criterionComments: scores.criterionComments
           },
           scores.comments
         );
         console.log('✅ New score CREATED with ID:', commentId);
       }
 
-      // Step 5: Update submissions document (legacy support)
+      // Step 5: Save this judge's score entry; admins also stamp the review time
       try {
-        console.log('📄 Updating submissions document...');
-        const docRef = doc(db, 'submissions', applicationId);
-        const docSnap = await getDoc(docRef);
-        
-        if (docSnap.exists()) {
-          const currentData = docSnap.data();
-          const currentScores = currentData.scores || [];
-          
-          // Remove existing score by this admin
-          const updatedScores = currentScores.filter((score: any) => score.adminId !== user.uid);
-          
-          // Add new score
-          updatedScores.push({ 
-            ...scores, 
-            scoredAt: new Date(),
-            adminId: user.uid,
-            adminName: user.displayName || user.email || 'Admin'
-          });
-          
-          await updateDoc(docRef, {
-            scores: updatedScores,
+        console.log('📄 Saving score entry...');
+        await juryAssignmentService.saveScore(applicationId, {
+          ...scores,
+          adminId: user.uid,
+          adminName: user.displayName || user.email || 'Admin'
+        });
+
+        if (!isBlindReview) {
+          await updateDoc(doc(db, 'submissions', applicationId), {
             lastReviewedAt: new Date(),
             lastModified: new Date()
           });
-          
-          console.log('✅ Submissions document updated');
-        } else {
-          console.warn('⚠️ Submission document not found, but score was saved to comments');
         }
-        
+
+        console.log('✅ Score entry saved');
       } catch (docError) {
-        console.warn('⚠️ Failed to update submissions document:', docError);
+        console.warn('⚠️ Failed to save score entry:', docError);
         // Don't throw error here - the score was still saved to comments
       }
 
+      await recordAudit('score', diffFields(scoreAuditFields(previousScores), scoreAuditFields(scores)));
+
       // Step 6: Refresh data
       try {
         console.log('🔄 Refreshing comments data after save...');
@@ -1043,6 +1093,10 @@ const AdminApplicationDetailPage: React.FC<AdminApplicationDetailPageProps> = ({
         lastModified: new Date()
       });
       
+      await recordAudit(
+        'review_status',
+        diffFields({ reviewStatus: application?.reviewStatus }, { reviewStatus: status })
+      );
       setApplication(prev => prev ? { ...prev, reviewStatus: status } : null);
       showSuccess(currentLanguage === 'th' ? 'อัปเดตสถานะเรียบร้อย' : 'Status updated successfully');
     } catch (error) {
@@ -1081,6 +1135,14 @@ const AdminApplicationDetailPage: React.FC<AdminApplicationDetailPageProps> = ({
       }
       
       await updateDoc(docRef, updateData);
+      await recordAudit(
+        'flag',
+        diffFields(
+          { flagged: application?.flagged, flagReason: application?.flagReason },
+          { flagged, flagReason: updateData.flagReason }
+        ),
+        reason
+      );
       setApplication(prev => prev ? { ...prev, flagged, flagReason: reason } : null);
       
       const message = flagged 
@@ -1144,6 +1206,39 @@ const AdminApplicationDetailPage: React.FC<AdminApplicationDetailPageProps> = ({
     }
   };
 
+  const handleAddAnnotation = async (content: string, timecode: number) => {
+    if (!user) return;
+
+    try {
+      await shortFilmCommentsService.addAnnotation(
+        applicationId,
+        user.uid,
+        user.displayName || user.email || 'Admin',
+        user.email || '',
+        content,
+        timecode
+      );
+    } catch (error) {
+      showError(
+        currentLanguage === 'th' ? 'เกิดข้อผิดพลาด' : 'Error',
+        currentLanguage === 'th' ? 'ไม่สามารถบันทึกได้' : 'Failed to save note'
+      );
+      throw error;
+    }
+  };
+
+  const handleDeleteAnnotation = async (annotationId: string) => {
+    try {
+      await shortFilmCommentsService.deleteComment(applicationId, annotationId);
+    } catch (error) {
+      console.error('Error deleting annotation:', error);
+      showError(
+        currentLanguage === 'th' ? 'เกิดข้อผิดพลาด' : 'Error',
+        currentLanguage === 'th' ? 'ไม่สามารถลบบันทึกได้' : 'Failed to delete note'
+      );
+    }
+  };
+
   const handleQuickScore = async () => {
     if (quickScore < 0 || quickScore > 40) return;
     
@@ -1229,7 +1324,7 @@ const AdminApplicationDetailPage: React.FC<AdminApplicationDetailPageProps> = ({
           title={currentContent.pageTitle}
           subtitle={currentContent.subtitle}
           showBackButton={true}
-          onBackClick={() => window.location.hash = '#admin/gallery'}
+          onBackClick={() => window.location.hash = backHash}
           onSidebarToggle={onSidebarToggle || (() => {})}
         />
         
@@ -1259,6 +1354,7 @@ const AdminApplicationDetailPage: React.FC<AdminApplicationDetailPageProps> = ({
   const directorInfo = getDirectorInfo();
   const filteredCrew = getFilteredAndSortedCrew();
   const averageScore = calculateAverageScore();
+  const rubric = getRubricForCategory(application.competitionCategory);
 
   return (
     <div className="space-y-6 sm:space-y-8">
@@ -1267,11 +1363,23 @@ const AdminApplicationDetailPage: React.FC<AdminApplicationDetailPageProps> = ({
         title={application.filmTitle}
         subtitle={currentContent.subtitle}
         showBackButton={true}
-        backButtonText={currentLanguage === 'th' ? 'กลับแกลเลอรี่' : 'Back to Gallery'}
-        onBackClick={() => window.location.hash = '#admin/gallery'}
+        backButtonText={isBlindReview
+          ? (currentLanguage === 'th' ? 'กลับรายการพิจารณา' : 'Back to Queue')
+          : (currentLanguage === 'th' ? 'กลับแกลเลอรี่' : 'Back to Gallery')}
+        onBackClick={() => window.location.hash = backHash}
         onSidebarToggle={onSidebarToggle || (() => {})}
       >
         <div className="flex items-center space-x-4">
+          {/* Blind Review Indicator */}
+          {isBlindReview && (
+            <div className="flex items-center space-x-2 px-3 py-2 bg-blue-500/20 border border-blue-500/30 rounded-lg">
+              <EyeOff className="w-4 h-4 text-blue-400" />
+              <span className={`text-blue-400 text-sm ${getClass('body')}`}>
+                {currentContent.blindReview}
+              </span>
+            </div>
+          )}
+          
           {/* Score Summary */}
           {application.scores.length > 0 && (
             <div className="flex items-center space-x-2 px-3 py-2 glass-card rounded-lg">
@@ -1304,686 +1412,712 @@ const AdminApplicationDetailPage: React.FC<AdminApplicationDetailPageProps> = ({
         </div>
       </AdminZoneHeader>
 
-      {/* 1. Compact Film Information Section */}
-      <CompactFilmInfo
-        filmTitle={application.filmTitle}
-        filmTitleTh={application.filmTitleTh}
-        genres={application.genres}
-        format={application.format}
-        duration={application.duration}
-        synopsis={application.synopsis}
-        nationality={(application as any).nationality || 'Unknown'}
-        competitionCategory={application.competitionCategory}
-        posterUrl={application.files.posterFile.url}
-        submitterName=""
-        submitterNameTh=""
-        submitterRole=""
-        customRole=""
-        chiangmaiConnection={application.chiangmaiConnection}
-        directorName={directorInfo?.name}
-        directorNameTh={directorInfo?.nameTh}
-        directorRole={directorInfo?.role}
-        directorCustomRole={directorInfo?.customRole}
-      />
-
-      {/* 2. Video Player & Evaluation Container */}
-      <div className="film-container-auto-expand rounded-2xl p-6 sm:p-8 container-push-down">
-        <div className="flex items-center justify-between mb-6">
-          <h3 className={`text-xl ${getClass('header')} text-white flex items-center space-x-2`}>
-            <span>🎬</span>
-            <span>{currentLanguage === 'th' ? 'ภาพยนตร์' : 'Film'}</span>
-          </h3>
+      {/* Details / Timeline Tabs - the audit trail is for admins only */}
+      {!isBlindReview && (
+        <div className="flex rounded-lg overflow-hidden border border-white/20 w-fit">
+          {(['details', 'timeline'] as const).map(tab => (
+            <button
+              key={tab}
+              onClick={() => setActiveTab(tab)}
+              className={`flex items-center space-x-2 px-4 py-2 text-sm ${getClass('body')} ${
+                activeTab === tab ? 'bg-[#FCB283]/30 text-white' : 'text-white/60 hover:bg-white/10'
+              }`}
+            >
+              {tab === 'details' ? <FileText className="w-4 h-4" /> : <History className="w-4 h-4" />}
+              <span>{tab === 'details' ? currentContent.detailsTab : currentContent.timelineTab}</span>
+            </button>
+          ))}
         </div>
+      )}
 
-        {/* Main Content - Auto-expanding grid */}
-        <div className="grid grid-cols-1 lg:grid-cols-7 gap-4 items-start">
-          
-          {/* Left Section - Video & Comments (57% width) */}
-          <div className="lg:col-span-4 space-y-6">
-            
-            {/* Video Player */}
-            <div className="relative bg-black rounded-xl overflow-hidden">
-              {application.files.filmFile.url ? (
-                <video
-                  src={application.files.filmFile.url}
-                  className="w-full aspect-video object-contain"
-                  controls
-                  poster={application.files.posterFile.url}
-                  onError={(e) => {
-                    const target = e.target as HTMLVideoElement;
-                    target.style.display = 'none';
-                    const parent = target.parentElement;
-                    if (parent) {
-                      parent.innerHTML = `
-                        <div class="w-full aspect-video flex flex-col items-center justify-center text-white/60 bg-black/50">
-                          <div class="text-6xl mb-4">🎬</div>
-                          <div class="text-lg mb-2">${currentLanguage === 'th' ? 'ไม่สามารถโหลดวิดีโอได้' : 'Video not available'}</div>
-                          <div class="text-sm text-center px-4 max-w-md">
-                            ${currentLanguage === 'th' ? 'ไฟล์วิดีโออาจเสียหายหรือไม่สามารถเข้าถึงได้' : 'The video file may be corrupted or inaccessible'}
-                          </div>
-                        </div>
-                      `;
-                    }
-                  }}
-                />
-              ) : (
-                <div className="w-full aspect-video flex flex-col items-center justify-center text-white/60 bg-black/50">
-                  <div className="text-6xl mb-4">🎬</div>
-                  <div className="text-lg mb-2">
-                    {currentLanguage === 'th' ? 'ไม่มีวิดีโอ' : 'No video available'}
-                  </div>
-                </div>
-              )}
-            </div>
+      {activeTab === 'timeline' && !isBlindReview ? (
+        <>
+          <SubmissionAuditTimeline submissionId={applicationId} />
+          <VersionHistorySection submissionId={applicationId} />
+        </>
+      ) : (
+        <>
+          {/* 1. Compact Film Information Section */}
+          <CompactFilmInfo
+            filmTitle={application.filmTitle}
+            filmTitleTh={application.filmTitleTh}
+            genres={application.genres}
+            format={application.format}
+            duration={application.duration}
+            synopsis={application.synopsis}
+            nationality={(application as any).nationality || 'Unknown'}
+            competitionCategory={application.competitionCategory}
+            posterUrl={application.files.posterFile.url}
+            posterThumbnails={application.files.posterFile.thumbnails}
+            previewFrames={application.files.filmFile.previewFrames}
+            submitterName=""
+            submitterNameTh=""
+            submitterRole=""
+            customRole=""
+            chiangmaiConnection={application.chiangmaiConnection}
+            directorName={isBlindReview ? currentContent.hiddenIdentity : directorInfo?.name}
+            directorNameTh={isBlindReview ? currentContent.hiddenIdentity : directorInfo?.nameTh}
+            directorRole={isBlindReview ? undefined : directorInfo?.role}
+            directorCustomRole={isBlindReview ? undefined : directorInfo?.customRole}
+          />
 
-            {/* Jury Comments Section - Real Data */}
-            <div className="glass-container rounded-2xl p-6 sm:p-8">
-              <h3 className="text-xl text-white mb-6 flex items-center space-x-2">
-                <Star className="w-6 h-6" />
-                <span>{currentLanguage === 'th' ? 'คะแนนและความคิดเห็นจากกรรมการ' : 'Jury Comments and Scores'}</span>
+          {/* 2. Video Player & Evaluation Container */}
+          <div className="film-container-auto-expand rounded-2xl p-6 sm:p-8 container-push-down">
+            <div className="flex items-center justify-between mb-6">
+              <h3 className={`text-xl ${getClass('header')} text-white flex items-center space-x-2`}>
+                <span>🎬</span>
+                <span>{currentLanguage === 'th' ? 'ภาพยนตร์' : 'Film'}</span>
               </h3>
+            </div>
 
-              {/* Average Score Display */}
-              {juryData.length > 0 && (
-                <div className="mb-6 p-4 bg-gradient-to-r from-blue-500/20 to-purple-500/20 rounded-xl border border-blue-500/30">
-                  <div className="text-center">
-                    <div className="text-3xl font-bold text-white mb-2">
-                      {averageScoreFromComments.toFixed(1)}/50
-                    </div>
-                    <div className="text-blue-200">
-                      {currentLanguage === 'th' ? 'คะแนนเฉลี่ย' : 'Average Score'} 
-                      ({juryData.length} {currentLanguage === 'th' ? 'กรรมการ' : 'judges'})
-                    </div>
-                  </div>
-                </div>
-              )}
-
-              {/* Display real jury data */}
-              {loadingComments ? (
-                <div className="text-center py-8">
-                  <div className="animate-spin w-8 h-8 border-2 border-blue-500 border-t-transparent rounded-full mx-auto"></div>
-                  <p className="text-white/60 mt-2">
-                    {currentLanguage === 'th' ? 'กำลังโหลดคะแนน...' : 'Loading scores...'}
-                  </p>
-                </div>
-              ) : juryData.length === 0 ? (
-                <div className="text-center py-8">
-                  <Star className="w-12 h-12 text-white/40 mx-auto mb-4" />
-                  <p className="text-white/60 mb-4">
-                    {currentLanguage === 'th' ? 'ยังไม่มีการให้คะแนน' : 'No scores submitted yet'}
-                  </p>
-                  {/* Debug Info */}
-                  <div className="text-xs text-white/40 space-y-1">
-                    <p>Debug Info:</p>
-                    <p>Comments loaded: {comments.length}</p>
-                    <p>Jury data: {juryData.length}</p>
-                    <p>Loading: {loadingComments ? 'true' : 'false'}</p>
-                  </div>
-                </div>
-              ) : (
-                <div className="space-y-4">
-                  {juryData.map((jury) => (
-                    <div key={jury.id} className="glass-card p-4 rounded-xl border border-white/10">
-                      {/* Judge Info Header */}
-                      <div className="flex items-center justify-between mb-4">
-                        <div className="flex items-center space-x-3">
-                          <div className="w-10 h-10 bg-gradient-to-br from-blue-500 to-purple-600 rounded-full flex items-center justify-center text-white font-bold">
-                            {jury.judgeName.charAt(0).toUpperCase()}
-                          </div>
-                          <div>
-                            <h4 className="text-white font-medium">{jury.judgeName}</h4>
-                            <p className="text-white/60 text-sm">{jury.judgeEmail}</p>
-                          </div>
-                        </div>
-                        <div className="text-right">
-                          <div className="text-2xl font-bold text-blue-300">
-                            {jury.scores.totalScore}/50
-                          </div>
-                          <div className="text-white/60 text-sm">
-                            {jury.submittedAt.toLocaleDateString(currentLanguage === 'th' ? 'th-TH' : 'en-US')}
-                            {jury.isEdited && (
-                              <span className="ml-2 text-orange-400">
-                                ({currentLanguage === 'th' ? 'แก้ไขแล้ว' : 'edited'})
-                              </span>
-                            )}
-                          </div>
-                        </div>
-                      </div>
+            {/* Main Content - Auto-expanding grid */}
+            <div className="grid grid-cols-1 lg:grid-cols-7 gap-4 items-start">
+          
+              {/* Left Section - Video & Comments (57% width) */}
+              <div className="lg:col-span-4 space-y-6">
+            
+                {/* Video Player with timestamped notes */}
+                <VideoAnnotationPlayer
+                  videoUrl={application.files.filmFile.url}
+                  posterUrl={application.files.posterFile.url}
+                  subtitles={application.files.subtitles}
+                  annotations={comments.filter(comment => comment.type === 'annotation' && !comment.isDeleted)}
+                  currentUserId={user?.uid}
+                  onAddAnnotation={handleAddAnnotation}
+                  onDeleteAnnotation={handleDeleteAnnotation}
+                />
 
-                      {/* Detailed Scores Grid */}
-                      <div className="grid grid-cols-5 gap-3 mb-4 p-3 bg-white/5 rounded-lg">
+                {/* Jury Comments Section - Real Data, hidden from jurors */}
+                {!isBlindReview && (
+                  <div className="glass-container rounded-2xl p-6 sm:p-8">
+                    <h3 className="text-xl text-white mb-6 flex items-center space-x-2">
+                      <Star className="w-6 h-6" />
+                      <span>{currentLanguage === 'th' ? 'คะแนนและความคิดเห็นจากกรรมการ' : 'Jury Comments and Scores'}</span>
+                    </h3>
+
+                    {/* Average Score Display */}
+                    {juryData.length > 0 && (
+                      <div className="mb-6 p-4 bg-gradient-to-r from-blue-500/20 to-purple-500/20 rounded-xl border border-blue-500/30">
                         <div className="text-center">
-                          <div className="text-white/60 text-xs mb-1">
-                            {currentLanguage === 'th' ? 'เทคนิค' : 'Technical'}
+                          <div className="text-3xl font-bold text-white mb-2">
+                            {averageScoreFromComments.toFixed(1)}/{getRubricMaxScore(rubric)}
                           </div>
-                          <div className="text-white font-bold">{jury.scores.technical}/10</div>
-                        </div>
-                        <div className="text-center">
-                          <div className="text-white/60 text-xs mb-1">
-                            {currentLanguage === 'th' ? 'เรื่องราว' : 'Story'}
-                          </div>
-                          <div className="text-white font-bold">{jury.scores.story}/10</div>
-                        </div>
-                        <div className="text-center">
-                          <div className="text-white/60 text-xs mb-1">
-                            {currentLanguage === 'th' ? 'ความคิดสร้างสรรค์' : 'Creativity'}
-                          </div>
-                          <div className="text-white font-bold">{jury.scores.creativity}/10</div>
-                        </div>
-                        <div className="text-center">
-                          <div className="text-white/60 text-xs mb-1">
-                            {currentLanguage === 'th' ? 'เชียงใหม่' : 'Chiang Mai'}
+                          <div className="text-blue-200">
+                            {currentLanguage === 'th' ? 'คะแนนเฉลี่ย' : 'Average Score'} 
+                            ({juryData.length} {currentLanguage === 'th' ? 'กรรมการ' : 'judges'})
                           </div>
-                          <div className="text-white font-bold">{jury.scores.chiangmai}/10</div>
-                        </div>
-                        <div className="text-center">
-                          <div className="text-white/60 text-xs mb-1">
-                            {currentLanguage === 'th' ? 'ความพยายามของมนุษย์' : 'Human Effort'}
-                          </div>
-                          <div className="text-white font-bold">{jury.scores.overall}/10</div>
                         </div>
                       </div>
-
-                      {/* Comments */}
-                      {jury.comments && (
-                        <div className="p-3 bg-gray-500/10 rounded-lg">
-                          <p className="text-white/80 leading-relaxed">{jury.comments}</p>
+                    )}
+
+                    {/* Display real jury data */}
+                    {loadingComments ? (
+                      <div className="text-center py-8">
+                        <div className="animate-spin w-8 h-8 border-2 border-blue-500 border-t-transparent rounded-full mx-auto"></div>
+                        <p className="text-white/60 mt-2">
+                          {currentLanguage === 'th' ? 'กำลังโหลดคะแนน...' : 'Loading scores...'}
+                        </p>
+                      </div>
+                    ) : juryData.length === 0 ? (
+                      <div className="text-center py-8">
+                        <Star className="w-12 h-12 text-white/40 mx-auto mb-4" />
+                        <p className="text-white/60 mb-4">
+                          {currentLanguage === 'th' ? 'ยังไม่มีการให้คะแนน' : 'No scores submitted yet'}
+                        </p>
+                        {/* Debug Info */}
+                        <div className="text-xs text-white/40 space-y-1">
+                          <p>Debug Info:</p>
+                          <p>Comments loaded: {comments.length}</p>
+                          <p>Jury data: {juryData.length}</p>
+                          <p>Loading: {loadingComments ? 'true' : 'false'}</p>
                         </div>
-                      )}
-                    </div>
-                  ))}
-                </div>
-              )}
-            </div>
-          </div>
+                      </div>
+                    ) : (
+                      <div className="space-y-4">
+                        {juryData.map((jury) => (
+                          <div key={jury.id} className="glass-card p-4 rounded-xl border border-white/10">
+                            {/* Judge Info Header */}
+                            <div className="flex items-center justify-between mb-4">
+                              <div className="flex items-center space-x-3">
+                                <div className="w-10 h-10 bg-gradient-to-br from-blue-500 to-purple-600 rounded-full flex items-center justify-center text-white font-bold">
+                                  {jury.judgeName.charAt(0).toUpperCase()}
+                                </div>
+                                <div>
+                                  <h4 className="text-white font-medium">{jury.judgeName}</h4>
+                                  <p className="text-white/60 text-sm">{jury.judgeEmail}</p>
+                                </div>
+                              </div>
+                              <div className="text-right">
+                                <div className="text-2xl font-bold text-blue-300">
+                                  {jury.scores.totalScore}/{jury.scores.maxScore}
+                                </div>
+                                <div className="text-white/60 text-sm">
+                                  {jury.submittedAt.toLocaleDateString(currentLanguage === 'th' ? 'th-TH' : 'en-US')}
+                                  {jury.isEdited && (
+                                    <span className="ml-2 text-orange-400">
+                                      ({currentLanguage === 'th' ? 'แก้ไขแล้ว' : 'edited'})
+                                    </span>
+                                  )}
+                                </div>
+                              </div>
+                            </div>
 
-          {/* Right Section - Scoring Panel (43% width) */}
-          <div className="lg:col-span-3">
-            <div className="max-w-sm mx-auto">
-              <VideoScoringPanel
-                applicationId={application.id}
-                currentScores={currentUserScore ? {
-                  technical: currentUserScore.scores!.technical,
-                  story: currentUserScore.scores!.story,
-                  creativity: currentUserScore.scores!.creativity,
-                  chiangmai: currentUserScore.scores!.chiangmai,
-                  overall: currentUserScore.scores!.overall,
-                  totalScore: currentUserScore.scores!.totalScore,
-                  adminId: currentUserScore.adminId,
-                  adminName: currentUserScore.adminName,
-                  scoredAt: currentUserScore.createdAt,
-                  comments: currentUserScore.content
-                } : undefined}
-                allScores={juryData.map(jury => ({
-                  technical: jury.scores.technical,
-                  story: jury.scores.story,
-                  creativity: jury.scores.creativity,
-                  chiangmai: jury.scores.chiangmai,
-                  overall: jury.scores.overall,
-                  totalScore: jury.scores.totalScore,
-                  adminId: jury.id,
-                  adminName: jury.judgeName,
-                  scoredAt: jury.submittedAt,
-                  comments: jury.comments
-                }))}
-                onScoreChange={(scores) => {
-                  console.log('Score changed:', scores);
-                }}
-                onSaveScores={handleSaveScore}
-                isSubmitting={isSubmittingScore}
-                className="scoring-panel-full-height"
-              />
-            </div>
-          </div>
-        </div>
-      </div>
+                            {/* Detailed Scores Grid */}
+                            <div className="grid grid-cols-2 sm:grid-cols-5 gap-3 mb-4 p-3 bg-white/5 rounded-lg">
+                              {(getRubricById(jury.scores.rubricId) || rubric).criteria.map(criterion => (
+                                <div key={criterion.id} className="text-center">
+                                  <div className="text-white/60 text-xs mb-1">
+                                    {criterion.label[currentLanguage]}
+                                  </div>
+                                  <div className="text-white font-bold">
+                                    {jury.scores.values[criterion.id] || 0}/{criterion.max}
+                                  </div>
+                                  {jury.scores.criterionComments?.[criterion.id] && (
+                                    <div className="text-white/60 text-xs mt-1 italic">
+                                      {jury.scores.criterionComments[criterion.id]}
+                                    </div>
+                                  )}
+                                </div>
+                              ))}
+                            </div>
 
-      {/* 3. Submitter Information - Restructured */}
-      <div className="glass-container rounded-2xl p-6 sm:p-8">
-        <h3 className={`text-xl ${getClass('header')} text-white mb-6 flex items-center space-x-2`}>
-          <span>👤</span>
-          <span>{currentLanguage === 'th' ? 'ข้อมูลผู้ส่งผลงาน' : 'Submitter Information'}</span>
-        </h3>
-        
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-          {/* Personal Information */}
-          <div className="glass-card p-4 rounded-xl">
-            <h4 className={`text-sm ${getClass('subtitle')} text-white/80 mb-4`}>
-              {currentLanguage === 'th' ? 'ข้อมูลส่วนตัว' : 'Personal Information'}
-            </h4>
-            <div className="space-y-3">
-              <InfoRow
-                label={currentLanguage === 'th' ? 'ชื่อ' : 'Name'}
-                value={currentLanguage === 'th' && contactInfo.nameTh 
-                  ? contactInfo.nameTh 
-                  : contactInfo.name}
-              />
-              {contactInfo.nameTh && (
-                <InfoRow
-                  label={currentLanguage === 'th' ? 'ชื่อ (อังกฤษ)' : 'Name (English)'}
-                  value={currentLanguage === 'th' ? contactInfo.name : contactInfo.nameTh}
-                />
-              )}
-              <InfoRow
-                label={currentLanguage === 'th' ? 'บทบาท' : 'Role'}
-                value={contactInfo.role === 'Other' ? contactInfo.customRole : contactInfo.role}
-              />
-              <InfoRow
-                label={currentLanguage === 'th' ? 'อายุ' : 'Age'}
-                value={`${contactInfo.age} ${currentLanguage === 'th' ? 'ปี' : 'years'}`}
-              />
-            </div>
-          </div>
-          
-          {/* Contact Information */}
-          <div className="glass-card p-4 rounded-xl">
-            <h4 className={`text-sm ${getClass('subtitle')} text-white/80 mb-4`}>
-              {currentLanguage === 'th' ? 'ข้อมูลติดต่อ' : 'Contact Information'}
-            </h4>
-            <div className="space-y-4">
-              {/* Email with Quick Action */}
-              <div>
-                <label className={`text-sm ${getClass('body')} text-white/60`}>
-                  {currentLanguage === 'th' ? 'อีเมล' : 'Email'}
-                </label>
-                <div className="flex items-center justify-between mt-1">
-                  <p className={`${getClass('body')} text-white flex-1`}>
-                    {contactInfo.email || '-'}
-                  </p>
-                  {contactInfo.email && (
-                    <a
-                      href={`mailto:${contactInfo.email}`}
-                      className="ml-3 flex items-center space-x-1 px-2 py-1 bg-blue-500/20 text-blue-400 rounded-lg hover:bg-blue-500/30 transition-colors text-xs"
-                    >
-                      <Mail className="w-3 h-3" />
-                      <span>{currentLanguage === 'th' ? 'อีเมล' : 'Email'}</span>
-                    </a>
-                  )}
-                </div>
+                            {/* Comments */}
+                            {jury.comments && (
+                              <div className="p-3 bg-gray-500/10 rounded-lg">
+                                <p className="text-white/80 leading-relaxed">{jury.comments}</p>
+                              </div>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
               </div>
 
-              {/* Phone with Quick Action */}
-              <div>
-                <label className={`text-sm ${getClass('body')} text-white/60`}>
-                  {currentLanguage === 'th' ? 'โทรศัพท์' : 'Phone'}
-                </label>
-                <div className="flex items-center justify-between mt-1">
-                  <p className={`${getClass('body')} text-white flex-1`}>
-                    {contactInfo.phone || '-'}
-                  </p>
-                  {contactInfo.phone && (
-                    <a
-                      href={`tel:${contactInfo.phone}`}
-                      className="ml-3 flex items-center space-x-1 px-2 py-1 bg-green-500/20 text-green-400 rounded-lg hover:bg-green-500/30 transition-colors text-xs"
-                    >
-                      <Phone className="w-3 h-3" />
-                      <span>{currentLanguage === 'th' ? 'โทร' : 'Call'}</span>
-                    </a>
-                  )}
+              {/* Right Section - Scoring Panel (43% width) */}
+              <div className="lg:col-span-3">
+                <div className="max-w-sm mx-auto">
+                  <VideoScoringPanel
+                    applicationId={application.id}
+                    rubric={rubric}
+                    currentScores={currentUserScore ? {
+                      ...currentUserScore.scores!,
+                      adminId: currentUserScore.adminId,
+                      adminName: currentUserScore.adminName,
+                      scoredAt: currentUserScore.createdAt,
+                      comments: currentUserScore.content
+                    } : undefined}
+                    allScores={isBlindReview ? [] : juryData.map(jury => ({
+                      ...jury.scores,
+                      adminId: jury.id,
+                      adminName: jury.judgeName,
+                      scoredAt: jury.submittedAt,
+                      comments: jury.comments
+                    }))}
+                    onScoreChange={(scores) => {
+                      console.log('Score changed:', scores);
+                    }}
+                    onSaveScores={handleSaveScore}
+                    isSubmitting={isSubmittingScore}
+                    className="scoring-panel-full-height"
+                  />
                 </div>
               </div>
             </div>
           </div>
-        </div>
 
-        {/* Educational Information - Full Width Below */}
-        {((contactInfo as any).schoolName || (contactInfo as any).universityName || (contactInfo as any).faculty) && (
-          <div className="mt-6 glass-card p-4 rounded-xl">
-            <h4 className={`text-sm ${getClass('subtitle')} text-white/80 mb-4`}>
-              {currentLanguage === 'th' ? 'ข้อมูลการศึกษา' : 'Educational Information'}
-            </h4>
-            <div className="space-y-3">
-              {((contactInfo as any).schoolName || (contactInfo as any).universityName) && (
-                <InfoRow
-                  label={application.competitionCategory === 'youth' 
-                    ? (currentLanguage === 'th' ? 'โรงเรียน' : 'School')
-                    : (currentLanguage === 'th' ? 'มหาวิทยาลัย' : 'University')
-                  }
-                  value={(contactInfo as any).schoolName || (contactInfo as any).universityName}
-                />
-              )}
-              {(contactInfo as any).faculty && (
-                <InfoRow
-                  label={currentLanguage === 'th' ? 'คณะ' : 'Faculty'}
-                  value={(contactInfo as any).faculty}
-                />
-              )}
-              {((contactInfo as any).studentId || (contactInfo as any).universityId) && (
-                <InfoRow
-                  label={currentLanguage === 'th' ? 'รหัสนักเรียน/นักศึกษา' : 'Student ID'}
-                  value={(contactInfo as any).studentId || (contactInfo as any).universityId}
-                />
-              )}
-            </div>
-          </div>
-        )}
-      </div>
-
-      {/* 4. Crew Information */}
-      <div className="glass-container rounded-2xl p-6 sm:p-8">
-        <div className="flex items-center justify-between mb-6">
-          <h3 className={`text-xl ${getClass('header')} text-white flex items-center space-x-2`}>
-            <span>👥</span>
-            <span>{currentLanguage === 'th' ? 'ข้อมูลทีมงาน' : 'Crew Information'}</span>
-            <span className="px-2 py-1 bg-[#FCB283]/20 text-[#FCB283] rounded-full text-sm">
-              {application.crewMembers?.length || 0}
-            </span>
-          </h3>
-        </div>
-
-        {application.crewMembers && application.crewMembers.length > 0 ? (
-          <div className="space-y-4">
-            {/* Search and Sort Controls */}
-            <div className="flex flex-col sm:flex-row gap-4 items-start sm:items-center justify-between">
-              <div className="relative flex-1 max-w-md">
-                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-white/60 w-4 h-4" />
-                <input
-                  type="text"
-                  placeholder={currentLanguage === 'th' ? 'ค้นหาทีมงาน...' : 'Search crew...'}
-                  value={crewSearchTerm}
-                  onChange={(e) => setCrewSearchTerm(e.target.value)}
-                  className="w-full pl-10 pr-4 py-2 bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/50 focus:border-[#FCB283] focus:outline-none"
-                />
-              </div>
-            </div>
-
-            {/* Crew Table */}
-            <div className="overflow-x-auto">
-              <table className="w-full glass-card rounded-xl border border-white/10">
-                <thead>
-                  <tr className="bg-gradient-to-r from-[#AA4626] to-[#FCB283]">
-                    <th className={`px-4 py-3 text-left ${getClass('subtitle')} text-white text-sm`}>
-                      {currentLanguage === 'th' ? 'ชื่อ' : 'Name'}
-                    </th>
-                    <th className={`px-4 py-3 text-left ${getClass('subtitle')} text-white text-sm`}>
-                      {currentLanguage === 'th' ? 'บทบาท' : 'Role'}
-                    </th>
-                    <th className={`px-4 py-3 text-left ${getClass('subtitle')} text-white text-sm`}>
-                      {currentLanguage === 'th' ? 'อายุ' : 'Age'}
-                    </th>
-                    <th className={`px-4 py-3 text-left ${getClass('subtitle')} text-white text-sm`}>
-                      {currentLanguage === 'th' ? 'ติดต่อ' : 'Contact'}
-                    </th>
-                  </tr>
-                </thead>
-                <tbody>
-                  {filteredCrew.map((member: any, index: number) => (
-                    <tr key={index} className="border-b border-white/10 hover:bg-white/5 transition-colors">
-                      <td className={`px-4 py-3 ${getClass('body')} text-white/90 text-sm`}>
-                        <div>
-                          <div className="font-medium">
-                            {currentLanguage === 'th' && member.fullNameTh 
-                              ? member.fullNameTh 
-                              : member.fullName}
-                          </div>
-                          {member.fullNameTh && (
-                            <div className="text-xs text-white/60">
-                              {currentLanguage === 'th' ? member.fullName : member.fullNameTh}
-                            </div>
+          {/* 3-4. Submitter & Crew Information - hidden in blind review */}
+          {!isBlindReview && (
+            <>
+              {/* 3. Submitter Information - Restructured */}
+              <div className="glass-container rounded-2xl p-6 sm:p-8">
+                <h3 className={`text-xl ${getClass('header')} text-white mb-6 flex items-center space-x-2`}>
+                  <span>👤</span>
+                  <span>{currentLanguage === 'th' ? 'ข้อมูลผู้ส่งผลงาน' : 'Submitter Information'}</span>
+                </h3>
+        
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                  {/* Personal Information */}
+                  <div className="glass-card p-4 rounded-xl">
+                    <h4 className={`text-sm ${getClass('subtitle')} text-white/80 mb-4`}>
+                      {currentLanguage === 'th' ? 'ข้อมูลส่วนตัว' : 'Personal Information'}
+                    </h4>
+                    <div className="space-y-3">
+                      <InfoRow
+                        label={currentLanguage === 'th' ? 'ชื่อ' : 'Name'}
+                        value={currentLanguage === 'th' && contactInfo.nameTh 
+                          ? contactInfo.nameTh 
+                          : contactInfo.name}
+                      />
+                      {contactInfo.nameTh && (
+                        <InfoRow
+                          label={currentLanguage === 'th' ? 'ชื่อ (อังกฤษ)' : 'Name (English)'}
+                          value={currentLanguage === 'th' ? contactInfo.name : contactInfo.nameTh}
+                        />
+                      )}
+                      <InfoRow
+                        label={currentLanguage === 'th' ? 'บทบาท' : 'Role'}
+                        value={contactInfo.role === 'Other' ? contactInfo.customRole : contactInfo.role}
+                      />
+                      <InfoRow
+                        label={currentLanguage === 'th' ? 'อายุ' : 'Age'}
+                        value={`${contactInfo.age} ${currentLanguage === 'th' ? 'ปี' : 'years'}`}
+                      />
+                    </div>
+                  </div>
+          
+                  {/* Contact Information */}
+                  <div className="glass-card p-4 rounded-xl">
+                    <h4 className={`text-sm ${getClass('subtitle')} text-white/80 mb-4`}>
+                      {currentLanguage === 'th' ? 'ข้อมูลติดต่อ' : 'Contact Information'}
+                    </h4>
+                    <div className="space-y-4">
+                      {/* Email with Quick Action */}
+                      <div>
+                        <label className={`text-sm ${getClass('body')} text-white/60`}>
+                          {currentLanguage === 'th' ? 'อีเมล' : 'Email'}
+                        </label>
+                        <div className="flex items-center justify-between mt-1">
+                          <p className={`${getClass('body')} text-white flex-1`}>
+                            {contactInfo.email || '-'}
+                          </p>
+                          {contactInfo.email && (
+                            <a
+                              href={`mailto:${contactInfo.email}`}
+                              className="ml-3 flex items-center space-x-1 px-2 py-1 bg-blue-500/20 text-blue-400 rounded-lg hover:bg-blue-500/30 transition-colors text-xs"
+                            >
+                              <Mail className="w-3 h-3" />
+                              <span>{currentLanguage === 'th' ? 'อีเมล' : 'Email'}</span>
+                            </a>
                           )}
                         </div>
-                      </td>
-                      <td className={`px-4 py-3 ${getClass('body')} text-white/90 text-sm`}>
-                        {member.role === 'Other' ? member.customRole : member.role}
-                      </td>
-                      <td className={`px-4 py-3 ${getClass('body')} text-white/90 text-sm`}>
-                        {member.age} {currentLanguage === 'th' ? 'ปี' : 'years'}
-                      </td>
-                      <td className={`px-4 py-3 ${getClass('body')} text-white/90 text-sm`}>
-                        <div className="space-y-1">
-                          {member.phone && (
-                            <div className="flex items-center space-x-2">
-                              <Phone className="w-3 h-3 text-white/60" />
-                              <span className="text-xs">{member.phone}</span>
-                            </div>
-                          )}
-                          {member.email && (
-                            <div className="flex items-center space-x-2">
-                              <Mail className="w-3 h-3 text-white/60" />
-                              <span className="text-xs break-all">{member.email}</span>
-                            </div>
+                      </div>
+
+                      {/* Phone with Quick Action */}
+                      <div>
+                        <label className={`text-sm ${getClass('body')} text-white/60`}>
+                          {currentLanguage === 'th' ? 'โทรศัพท์' : 'Phone'}
+                        </label>
+                        <div className="flex items-center justify-between mt-1">
+                          <p className={`${getClass('body')} text-white flex-1`}>
+                            {contactInfo.phone || '-'}
+                          </p>
+                          {contactInfo.phone && (
+                            <a
+                              href={`tel:${contactInfo.phone}`}
+                              className="ml-3 flex items-center space-x-1 px-2 py-1 bg-green-500/20 text-green-400 rounded-lg hover:bg-green-500/30 transition-colors text-xs"
+                            >
+                              <Phone className="w-3 h-3" />
+                              <span>{currentLanguage === 'th' ? 'โทร' : 'Call'}</span>
+                            </a>
                           )}
                         </div>
-                      </td>
-                    </tr>
-                  ))}
-                </tbody>
-              </table>
-            </div>
+                      </div>
+                    </div>
+                  </div>
+                </div>
 
-            {/* Show More/Less Button */}
-            {application.crewMembers.length > 5 && (
-              <div className="text-center">
-                <button
-                  onClick={() => setShowAllCrew(!showAllCrew)}
-                  className="px-4 py-2 bg-white/10 hover:bg-white/20 rounded-lg text-white transition-colors"
-                >
-                  {showAllCrew 
-                    ? (currentLanguage === 'th' ? 'แสดงน้อยลง' : 'Show Less')
-                    : `${currentLanguage === 'th' ? 'แสดงทั้งหมด' : 'Show All'} (${application.crewMembers.length - 5} more)`
-                  }
-                </button>
+                {/* Educational Information - Full Width Below */}
+                {((contactInfo as any).schoolName || (contactInfo as any).universityName || (contactInfo as any).faculty) && (
+                  <div className="mt-6 glass-card p-4 rounded-xl">
+                    <h4 className={`text-sm ${getClass('subtitle')} text-white/80 mb-4`}>
+                      {currentLanguage === 'th' ? 'ข้อมูลการศึกษา' : 'Educational Information'}
+                    </h4>
+                    <div className="space-y-3">
+                      {((contactInfo as any).schoolName || (contactInfo as any).universityName) && (
+                        <InfoRow
+                          label={application.competitionCategory === 'youth' 
+                            ? (currentLanguage === 'th' ? 'โรงเรียน' : 'School')
+                            : (currentLanguage === 'th' ? 'มหาวิทยาลัย' : 'University')
+                          }
+                          value={(contactInfo as any).schoolName || (contactInfo as any).universityName}
+                        />
+                      )}
+                      {(contactInfo as any).faculty && (
+                        <InfoRow
+                          label={currentLanguage === 'th' ? 'คณะ' : 'Faculty'}
+                          value={(contactInfo as any).faculty}
+                        />
+                      )}
+                      {((contactInfo as any).studentId || (contactInfo as any).universityId) && (
+                        <InfoRow
+                          label={currentLanguage === 'th' ? 'รหัสนักเรียน/นักศึกษา' : 'Student ID'}
+                          value={(contactInfo as any).studentId || (contactInfo as any).universityId}
+                        />
+                      )}
+                    </div>
+                  </div>
+                )}
               </div>
-            )}
-          </div>
-        ) : (
-          <div className="text-center py-8">
-            <Users className="w-12 h-12 text-white/40 mx-auto mb-4" />
-            <p className={`${getClass('body')} text-white/60`}>
-              {currentLanguage === 'th' ? 'ไม่มีทีมงานเพิ่มเติม' : 'No additional crew members'}
-            </p>
-          </div>
-        )}
-      </div>
 
-      {/* 5. Files & Documents */}
-      <div className="glass-container rounded-2xl p-6 sm:p-8">
-        <h3 className={`text-xl ${getClass('header')} text-white mb-6 flex items-center space-x-2`}>
-          <span>📁</span>
-          <span>{currentLanguage === 'th' ? 'ไฟล์และเอกสาร' : 'Files & Documents'}</span>
-        </h3>
-        
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {/* Film File */}
-          <div className="glass-card p-6 rounded-xl">
-            <div className="flex items-center space-x-3 mb-4">
-              <Video className="w-6 h-6 text-[#FCB283]" />
-              <div>
-                <h4 className={`${getClass('subtitle')} text-white`}>
-                  {currentLanguage === 'th' ? 'ไฟล์ภาพยนตร์' : 'Film File'}
-                </h4>
-                <p className={`text-xs ${getClass('body')} text-white/60`}>
-                  {application.files.filmFile.name}
-                </p>
-              </div>
-            </div>
-            
-            <div className="space-y-2 mb-4">
-              <div className="flex justify-between">
-                <span className={`text-xs ${getClass('body')} text-white/60`}>
-                  {currentLanguage === 'th' ? 'ขนาด' : 'Size'}
-                </span>
-                <span className={`text-xs ${getClass('body')} text-white`}>
-                  {formatFileSize(application.files.filmFile.size)}
-                </span>
-              </div>
-              <div className="flex justify-between">
-                <span className={`text-xs ${getClass('body')} text-white/60`}>
-                  {currentLanguage === 'th' ? 'สถานะ' : 'Status'}
-                </span>
-                <div className="flex items-center space-x-1">
-                  {getFileStatusIcon(application.files.filmFile)}
-                  <span className={`text-xs ${getClass('body')} text-white`}>
-                    {getFileStatusText(application.files.filmFile)}
-                  </span>
+              {/* 4. Crew Information */}
+              <div className="glass-container rounded-2xl p-6 sm:p-8">
+                <div className="flex items-center justify-between mb-6">
+                  <h3 className={`text-xl ${getClass('header')} text-white flex items-center space-x-2`}>
+                    <span>👥</span>
+                    <span>{currentLanguage === 'th' ? 'ข้อมูลทีมงาน' : 'Crew Information'}</span>
+                    <span className="px-2 py-1 bg-[#FCB283]/20 text-[#FCB283] rounded-full text-sm">
+                      {application.crewMembers?.length || 0}
+                    </span>
+                  </h3>
                 </div>
-              </div>
-            </div>
 
-            {application.files.filmFile.url && (
-              <div className="flex gap-2">
-                <button
-                  onClick={() => handleFileDownload(application.files.filmFile.url, application.files.filmFile.name)}
-                  className="flex items-center space-x-1 px-3 py-2 bg-blue-500/20 text-blue-400 rounded-lg hover:bg-blue-500/30 transition-colors text-xs"
-                >
-                  <Download className="w-3 h-3" />
-                  <span>{currentLanguage === 'th' ? 'ดาวน์โหลด' : 'Download'}</span>
-                </button>
-                <button
-                  onClick={() => handleCopyLink(application.files.filmFile.url)}
-                  className="flex items-center space-x-1 px-3 py-2 bg-white/10 text-white rounded-lg hover:bg-white/20 transition-colors text-xs"
-                >
-                  <Copy className="w-3 h-3" />
-                  <span>{currentLanguage === 'th' ? 'คัดลอก' : 'Copy'}</span>
-                </button>
-              </div>
-            )}
-          </div>
+                {application.crewMembers && application.crewMembers.length > 0 ? (
+                  <div className="space-y-4">
+                    {/* Search and Sort Controls */}
+                    <div className="flex flex-col sm:flex-row gap-4 items-start sm:items-center justify-between">
+                      <div className="relative flex-1 max-w-md">
+                        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-white/60 w-4 h-4" />
+                        <input
+                          type="text"
+                          placeholder={currentLanguage === 'th' ? 'ค้นหาทีมงาน...' : 'Search crew...'}
+                          value={crewSearchTerm}
+                          onChange={(e) => setCrewSearchTerm(e.target.value)}
+                          className="w-full pl-10 pr-4 py-2 bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/50 focus:border-[#FCB283] focus:outline-none"
+                        />
+                      </div>
+                    </div>
+
+                    {/* Crew Table */}
+                    <div className="overflow-x-auto">
+                      <table className="w-full glass-card rounded-xl border border-white/10">
+                        <thead>
+                          <tr className="bg-gradient-to-r from-[#AA4626] to-[#FCB283]">
+                            <th className={`px-4 py-3 text-left ${getClass('subtitle')} text-white text-sm`}>
+                              {currentLanguage === 'th' ? 'ชื่อ' : 'Name'}
+                            </th>
+                            <th className={`px-4 py-3 text-left ${getClass('subtitle')} text-white text-sm`}>
+                              {currentLanguage === 'th' ? 'บทบาท' : 'Role'}
+                            </th>
+                            <th className={`px-4 py-3 text-left ${getClass('subtitle')} text-white text-sm`}>
+                              {currentLanguage === 'th' ? 'อายุ' : 'Age'}
+                            </th>
+                            <th className={`px-4 py-3 text-left ${getClass('subtitle')} text-white text-sm`}>
+                              {currentLanguage === 'th' ? 'ติดต่อ' : 'Contact'}
+                            </th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {filteredCrew.map((member: any, index: number) => (
+                            <tr key={index} className="border-b border-white/10 hover:bg-white/5 transition-colors">
+                              <td className={`px-4 py-3 ${getClass('body')} text-white/90 text-sm`}>
+                                <div>
+                                  <div className="font-medium">
+                                    {currentLanguage === 'th' && member.fullNameTh 
+                                      ? member.fullNameTh 
+                                      : member.fullName}
+                                  </div>
+                                  {member.fullNameTh && (
+                                    <div className="text-xs text-white/60">
+                                      {currentLanguage === 'th' ? member.fullName : member.fullNameTh}
+                                    </div>
+                                  )}
+                                </div>
+                              </td>
+                              <td className={`px-4 py-3 ${getClass('body')} text-white/90 text-sm`}>
+                                {member.role === 'Other' ? member.customRole : member.role}
+                              </td>
+                              <td className={`px-4 py-3 ${getClass('body')} text-white/90 text-sm`}>
+                                {member.age} {currentLanguage === 'th' ? 'ปี' : 'years'}
+                              </td>
+                              <td className={`px-4 py-3 ${getClass('body')} text-white/90 text-sm`}>
+                                <div className="space-y-1">
+                                  {member.phone && (
+                                    <div className="flex items-center space-x-2">
+                                      <Phone className="w-3 h-3 text-white/60" />
+                                      <span className="text-xs">{member.phone}</span>
+                                    </div>
+                                  )}
+                                  {member.email && (
+                                    <div className="flex items-center space-x-2">
+                                      <Mail className="w-3 h-3 text-white/60" />
+                                      <span className="text-xs break-all">{member.email}</span>
+                                    </div>
+                                  )}
+                                </div>
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
 
-          {/* Poster File */}
-          <div className="glass-card p-6 rounded-xl">
-            <div className="flex items-center space-x-3 mb-4">
-              <Image className="w-6 h-6 text-[#FCB283]" />
-              <div>
-                <h4 className={`${getClass('subtitle')} text-white`}>
-                  {currentLanguage === 'th' ? 'โปสเตอร์' : 'Poster'}
-                </h4>
-                <p className={`text-xs ${getClass('body')} text-white/60`}>
-                  {application.files.posterFile.name}
-                </p>
+                    {/* Show More/Less Button */}
+                    {application.crewMembers.length > 5 && (
+                      <div className="text-center">
+                        <button
+                          onClick={() => setShowAllCrew(!showAllCrew)}
+                          className="px-4 py-2 bg-white/10 hover:bg-white/20 rounded-lg text-white transition-colors"
+                        >
+                          {showAllCrew 
+                            ? (currentLanguage === 'th' ? 'แสดงน้อยลง' : 'Show Less')
+                            : `${currentLanguage === 'th' ? 'แสดงทั้งหมด' : 'Show All'} (${application.crewMembers.length - 5} more)`
+                          }
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                ) : (
+                  <div className="text-center py-8">
+                    <Users className="w-12 h-12 text-white/40 mx-auto mb-4" />
+                    <p className={`${getClass('body')} text-white/60`}>
+                      {currentLanguage === 'th' ? 'ไม่มีทีมงานเพิ่มเติม' : 'No additional crew members'}
+                    </p>
+                  </div>
+                )}
               </div>
-            </div>
+            </>
+          )}
+
+          {/* 5. Files & Documents */}
+          <div className="glass-container rounded-2xl p-6 sm:p-8">
+            <h3 className={`text-xl ${getClass('header')} text-white mb-6 flex items-center space-x-2`}>
+              <span>📁</span>
+              <span>{currentLanguage === 'th' ? 'ไฟล์และเอกสาร' : 'Files & Documents'}</span>
+            </h3>
+        
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {/* Film File */}
+              <div className="glass-card p-6 rounded-xl">
+                <div className="flex items-center space-x-3 mb-4">
+                  <Video className="w-6 h-6 text-[#FCB283]" />
+                  <div>
+                    <h4 className={`${getClass('subtitle')} text-white`}>
+                      {currentLanguage === 'th' ? 'ไฟล์ภาพยนตร์' : 'Film File'}
+                    </h4>
+                    <p className={`text-xs ${getClass('body')} text-white/60`}>
+                      {application.files.filmFile.name}
+                    </p>
+                  </div>
+                </div>
             
-            <div className="space-y-2 mb-4">
-              <div className="flex justify-between">
-                <span className={`text-xs ${getClass('body')} text-white/60`}>
-                  {currentLanguage === 'th' ? 'ขนาด' : 'Size'}
-                </span>
-                <span className={`text-xs ${getClass('body')} text-white`}>
-                  {formatFileSize(application.files.posterFile.size)}
-                </span>
-              </div>
-              <div className="flex justify-between">
-                <span className={`text-xs ${getClass('body')} text-white/60`}>
-                  {currentLanguage === 'th' ? 'สถานะ' : 'Status'}
-                </span>
-                <div className="flex items-center space-x-1">
-                  {getFileStatusIcon(application.files.posterFile)}
-                  <span className={`text-xs ${getClass('body')} text-white`}>
-                    {getFileStatusText(application.files.posterFile)}
-                  </span>
+                <div className="space-y-2 mb-4">
+                  <div className="flex justify-between">
+                    <span className={`text-xs ${getClass('body')} text-white/60`}>
+                      {currentLanguage === 'th' ? 'ขนาด' : 'Size'}
+                    </span>
+                    <span className={`text-xs ${getClass('body')} text-white`}>
+                      {formatFileSize(application.files.filmFile.size)}
+                    </span>
+                  </div>
+                  {application.files.filmFile.technical && (
+                    <>
+                      <div className="flex justify-between">
+                        <span className={`text-xs ${getClass('body')} text-white/60`}>
+                          {currentLanguage === 'th' ? 'ความยาวจริง' : 'Running Time'}
+                        </span>
+                        <span className={`text-xs ${getClass('body')} text-white`}>
+                          {formatVideoDuration(application.files.filmFile.technical.durationSeconds)}
+                        </span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className={`text-xs ${getClass('body')} text-white/60`}>
+                          {currentLanguage === 'th' ? 'ความละเอียด' : 'Resolution'}
+                        </span>
+                        <span className={`text-xs ${getClass('body')} text-white`}>
+                          {application.files.filmFile.technical.width}×{application.files.filmFile.technical.height} ({application.files.filmFile.technical.aspectRatio})
+                        </span>
+                      </div>
+                      {application.files.filmFile.technical.videoCodec && (
+                        <div className="flex justify-between">
+                          <span className={`text-xs ${getClass('body')} text-white/60`}>
+                            {currentLanguage === 'th' ? 'รหัสวิดีโอ' : 'Codec'}
+                          </span>
+                          <span className={`text-xs ${getClass('body')} text-white`}>
+                            {getCodecLabel(application.files.filmFile.technical.videoCodec)}
+                            {application.files.filmFile.technical.frameRate && ` · ${application.files.filmFile.technical.frameRate} fps`}
+                          </span>
+                        </div>
+                      )}
+                      {listVideoIssues(application.files.filmFile.technical, application.competitionCategory).map(issue => (
+                        <p key={issue.check} className={`text-xs ${getClass('body')} text-yellow-300`}>
+                          ⚠️ {issue.message[currentLanguage]}
+                        </p>
+                      ))}
+                    </>
+                  )}
+                  <div className="flex justify-between">
+                    <span className={`text-xs ${getClass('body')} text-white/60`}>
+                      {currentLanguage === 'th' ? 'สถานะ' : 'Status'}
+                    </span>
+                    <div className="flex items-center space-x-1">
+                      {getFileStatusIcon(application.files.filmFile)}
+                      <span className={`text-xs ${getClass('body')} text-white`}>
+                        {getFileStatusText(application.files.filmFile)}
+                      </span>
+                    </div>
+                  </div>
                 </div>
-              </div>
-            </div>
 
-            {application.files.posterFile.url && (
-              <div className="flex gap-2">
-                <button
-                  onClick={() => setSelectedFilePreview(application.files.posterFile.url)}
-                  className="flex items-center space-x-1 px-3 py-2 bg-green-500/20 text-green-400 rounded-lg hover:bg-green-500/30 transition-colors text-xs"
-                >
-                  <Eye className="w-3 h-3" />
-                  <span>{currentLanguage === 'th' ? 'ดู' : 'View'}</span>
-                </button>
-                <button
-                  onClick={() => handleFileDownload(application.files.posterFile.url, application.files.posterFile.name)}
-                  className="flex items-center space-x-1 px-3 py-2 bg-blue-500/20 text-blue-400 rounded-lg hover:bg-blue-500/30 transition-colors text-xs"
-                >
-                  <Download className="w-3 h-3" />
-                  <span>{currentLanguage === 'th' ? 'ดาวน์โหลด' : 'Download'}</span>
-                </button>
+                {application.files.filmFile.url && (
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => handleFileDownload(application.files.filmFile.url, application.files.filmFile.name)}
+                      className="flex items-center space-x-1 px-3 py-2 bg-blue-500/20 text-blue-400 rounded-lg hover:bg-blue-500/30 transition-colors text-xs"
+                    >
+                      <Download className="w-3 h-3" />
+                      <span>{currentLanguage === 'th' ? 'ดาวน์โหลด' : 'Download'}</span>
+                    </button>
+                    <button
+                      onClick={() => handleCopyLink(application.files.filmFile.url)}
+                      className="flex items-center space-x-1 px-3 py-2 bg-white/10 text-white rounded-lg hover:bg-white/20 transition-colors text-xs"
+                    >
+                      <Copy className="w-3 h-3" />
+                      <span>{currentLanguage === 'th' ? 'คัดลอก' : 'Copy'}</span>
+                    </button>
+                  </div>
+                )}
               </div>
-            )}
-          </div>
 
-          {/* Proof File */}
-          {application.files.proofFile && (
-            <div className="glass-card p-6 rounded-xl">
-              <div className="flex items-center space-x-3 mb-4">
-                <FileText className="w-6 h-6 text-[#FCB283]" />
-                <div>
-                  <h4 className={`${getClass('subtitle')} text-white`}>
-                    {currentLanguage === 'th' ? 'เอกสารหลักฐาน' : 'Proof Document'}
-                  </h4>
-                  <p className={`text-xs ${getClass('body')} text-white/60`}>
-                    {application.files.proofFile.name}
-                  </p>
-                </div>
-              </div>
-              
-              <div className="space-y-2 mb-4">
-                <div className="flex justify-between">
-                  <span className={`text-xs ${getClass('body')} text-white/60`}>
-                    {currentLanguage === 'th' ? 'ขนาด' : 'Size'}
-                  </span>
-                  <span className={`text-xs ${getClass('body')} text-white`}>
-                    {formatFileSize(application.files.proofFile.size)}
-                  </span>
+              {/* Poster File */}
+              <div className="glass-card p-6 rounded-xl">
+                <div className="flex items-center space-x-3 mb-4">
+                  <Image className="w-6 h-6 text-[#FCB283]" />
+                  <div>
+                    <h4 className={`${getClass('subtitle')} text-white`}>
+                      {currentLanguage === 'th' ? 'โปสเตอร์' : 'Poster'}
+                    </h4>
+                    <p className={`text-xs ${getClass('body')} text-white/60`}>
+                      {application.files.posterFile.name}
+                    </p>
+                  </div>
                 </div>
-                <div className="flex justify-between">
-                  <span className={`text-xs ${getClass('body')} text-white/60`}>
-                    {currentLanguage === 'th' ? 'สถานะ' : 'Status'}
-                  </span>
-                  <div className="flex items-center space-x-1">
-                    {getFileStatusIcon(application.files.proofFile)}
+            
+                <div className="space-y-2 mb-4">
+                  <div className="flex justify-between">
+                    <span className={`text-xs ${getClass('body')} text-white/60`}>
+                      {currentLanguage === 'th' ? 'ขนาด' : 'Size'}
+                    </span>
                     <span className={`text-xs ${getClass('body')} text-white`}>
-                      {getFileStatusText(application.files.proofFile)}
+                      {formatFileSize(application.files.posterFile.size)}
                     </span>
                   </div>
+                  <div className="flex justify-between">
+                    <span className={`text-xs ${getClass('body')} text-white/60`}>
+                      {currentLanguage === 'th' ? 'สถานะ' : 'Status'}
+                    </span>
+                    <div className="flex items-center space-x-1">
+                      {getFileStatusIcon(application.files.posterFile)}
+                      <span className={`text-xs ${getClass('body')} text-white`}>
+                        {getFileStatusText(application.files.posterFile)}
+                      </span>
+                    </div>
+                  </div>
                 </div>
+
+                {application.files.posterFile.url && (
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => setSelectedFilePreview(application.files.posterFile.url)}
+                      className="flex items-center space-x-1 px-3 py-2 bg-green-500/20 text-green-400 rounded-lg hover:bg-green-500/30 transition-colors text-xs"
+                    >
+                      <Eye className="w-3 h-3" />
+                      <span>{currentLanguage === 'th' ? 'ดู' : 'View'}</span>
+                    </button>
+                    <button
+                      onClick={() => handleFileDownload(application.files.posterFile.url, application.files.posterFile.name)}
+                      className="flex items-center space-x-1 px-3 py-2 bg-blue-500/20 text-blue-400 rounded-lg hover:bg-blue-500/30 transition-colors text-xs"
+                    >
+                      <Download className="w-3 h-3" />
+                      <span>{currentLanguage === 'th' ? 'ดาวน์โหลด' : 'Download'}</span>
+                    </button>
+                  </div>
+                )}
               </div>
 
-              {application.files.proofFile.url && (
-                <div className="flex gap-2">
-                  <button
-                    onClick={() => {
-                      if (!application.files.proofFile) return;
-                      // Check if it's a PDF and implement preview logic
-                      const isPDF = application.files.proofFile.name.toLowerCase().endsWith('.pdf');
-                      if (isPDF) {
-                        // For PDF, open in new tab for now (can be enhanced with modal viewer)
-                        window.open(application.files.proofFile.url, '_blank');
-                      } else {
-                        // For images, use the existing preview modal
-                        setSelectedFilePreview(application.files.proofFile.url);
-                      }
-                    }}
-                    className="flex items-center space-x-1 px-3 py-2 bg-green-500/20 text-green-400 rounded-lg hover:bg-green-500/30 transition-colors text-xs"
-                  >
-                    <Eye className="w-3 h-3" />
-                    <span>{currentLanguage === 'th' ? 'ดู' : 'View'}</span>
-                  </button>
-                  <button
-                    onClick={() => application.files.proofFile && handleFileDownload(application.files.proofFile.url, application.files.proofFile.name)}
-                    className="flex items-center space-x-1 px-3 py-2 bg-blue-500/20 text-blue-400 rounded-lg hover:bg-blue-500/30 transition-colors text-xs"
-                  >
-                    <Download className="w-3 h-3" />
-                    <span>{currentLanguage === 'th' ? 'ดาวน์โหลด' : 'Download'}</span>
-                  </button>
-                  <button
-                    onClick={() => application.files.proofFile && handleCopyLink(application.files.proofFile.url)}
-                    className="flex items-center space-x-1 px-3 py-2 bg-white/10 text-white rounded-lg hover:bg-white/20 transition-colors text-xs"
-                  >
-                    <Copy className="w-3 h-3" />
-                    <span>{currentLanguage === 'th' ? 'คัดลอก' : 'Copy'}</span>
-                  </button>
+              {/* Proof File */}
+              {application.files.proofFile && (
+                <div className="glass-card p-6 rounded-xl">
+                  <div className="flex items-center space-x-3 mb-4">
+                    <FileText className="w-6 h-6 text-[#FCB283]" />
+                    <div>
+                      <h4 className={`${getClass('subtitle')} text-white`}>
+                        {currentLanguage === 'th' ? 'เอกสารหลักฐาน' : 'Proof Document'}
+                      </h4>
+                      <p className={`text-xs ${getClass('body')} text-white/60`}>
+                        {application.files.proofFile.name}
+                      </p>
+                    </div>
+                  </div>
+              
+                  <div className="space-y-2 mb-4">
+                    <div className="flex justify-between">
+                      <span className={`text-xs ${getClass('body')} text-white/60`}>
+                        {currentLanguage === 'th' ? 'ขนาด' : 'Size'}
+                      </span>
+                      <span className={`text-xs ${getClass('body')} text-white`}>
+                        {formatFileSize(application.files.proofFile.size)}
+                      </span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className={`text-xs ${getClass('body')} text-white/60`}>
+                        {currentLanguage === 'th' ? 'สถานะ' : 'Status'}
+                      </span>
+                      <div className="flex items-center space-x-1">
+                        {getFileStatusIcon(application.files.proofFile)}
+                        <span className={`text-xs ${getClass('body')} text-white`}>
+                          {getFileStatusText(application.files.proofFile)}
+                        </span>
+                      </div>
+                    </div>
+                  </div>
+
+                  {application.files.proofFile.url && (
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => {
+                          if (!application.files.proofFile) return;
+                          // Check if it's a PDF and implement preview logic
+                          const isPDF = application.files.proofFile.name.toLowerCase().endsWith('.pdf');
+                          if (isPDF) {
+                            // For PDF, open in new tab for now (can be enhanced with modal viewer)
+                            window.open(application.files.proofFile.url, '_blank');
+                          } else {
+                            // For images, use the existing preview modal
+                            setSelectedFilePreview(application.files.proofFile.url);
+                          }
+                        }}
+                        className="flex items-center space-x-1 px-3 py-2 bg-green-500/20 text-green-400 rounded-lg hover:bg-green-500/30 transition-colors text-xs"
+                      >
+                        <Eye className="w-3 h-3" />
+                        <span>{currentLanguage === 'th' ? 'ดู' : 'View'}</span>
+                      </button>
+                      <button
+                        onClick={() => application.files.proofFile && handleFileDownload(application.files.proofFile.url, application.files.proofFile.name)}
+                        className="flex items-center space-x-1 px-3 py-2 bg-blue-500/20 text-blue-400 rounded-lg hover:bg-blue-500/30 transition-colors text-xs"
+                      >
+                        <Download className="w-3 h-3" />
+                        <span>{currentLanguage === 'th' ? 'ดาวน์โหลด' : 'Download'}</span>
+                      </button>
+                      <button
+                        onClick={() => application.files.proofFile && handleCopyLink(application.files.proofFile.url)}
+                        className="flex items-center space-x-1 px-3 py-2 bg-white/10 text-white rounded-lg hover:bg-white/20 transition-colors text-xs"
+                      >
+                        <Copy className="w-3 h-3" />
+                        <span>{currentLanguage === 'th' ? 'คัดลอก' : 'Copy'}</span>
+                      </button>
+                    </div>
+                  )}
                 </div>
               )}
             </div>
-          )}
-        </div>
-      </div>
+          </div>
 
-      {/* Admin Controls Panel */}
-      <AdminControlsPanel
-        application={application}
-        onStatusChange={handleStatusChange}
-        onNotesChange={handleNotesChange}
-        onFlagToggle={handleFlagToggle}
-        onExport={handleExport}
-        onPrint={handlePrint}
-        isUpdating={isUpdatingStatus}
-      />
+          {/* Admin Controls Panel */}
+          {!isBlindReview && (
+            <AdminControlsPanel
+              application={application}
+              onStatusChange={handleStatusChange}
+              onNotesChange={handleNotesChange}
+              onFlagToggle={handleFlagToggle}
+              onExport={handleExport}
+              onPrint={handlePrint}
+              isUpdating={isUpdatingStatus}
+            />
+          )}
+        </>
+      )}
 
       {/* File Preview Modal */}
       {selectedFilePreview && (
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { useTranslation } from 'react-i18next';
 import { useTypography } from '../../utils/typography';
 import { useAuth } from '../auth/AuthContext';
@@ -15,7 +15,10 @@ import {
 } from 'firebase/firestore';
 import { db } from '../../firebase';
 import { AdminApplicationCard as AdminApplicationCardType, GalleryFilters, PaginationState } from '../../types/admin.types';
-import ExportService from '../../services/exportService';
+import ExportService, { ExportOptions } from '../../services/exportService';
+import { exportJobService } from '../../services/exportJobService';
+import { toAdminApplicationCard } from '../../utils/submissionExport';
+import { getSearchToken } from '../../utils/searchIndex';
 import { useNotificationHelpers } from '../ui/NotificationSystem';
 import ExportDialog from '../ui/ExportDialog';
 import AdminZoneHeader from '../layout/AdminZoneHeader';
@@ -26,6 +29,9 @@ interface AdminGalleryPageProps {
   onSidebarToggle?: () => void;
 }
 
+// Wait for a pause in typing before querying the search index
+const SEARCH_DEBOUNCE_MS = 300;
+
 const AdminGalleryPage: React.FC<AdminGalleryPageProps> = ({ onSidebarToggle }) => {
   const { i18n } = useTranslation();
   const { getClass } = useTypography();
@@ -68,8 +74,11 @@ const AdminGalleryPage: React.FC<AdminGalleryPageProps> = ({ onSidebarToggle })
     totalPages: 0
   });
 
+  // Search index token for the search box, updated once typing pauses
+  const [searchToken, setSearchToken] = useState<string | null>(null);
+
   // Firestore listener cleanup
-  const [unsubscribe, setUnsubscribe] = useState<(() => void) | null>(null);
+  const unsubscribeRef = useRef<(() => void) | null>(null);
 
   // Content translations
   const content = {
@@ -200,6 +209,11 @@ const AdminGalleryPage: React.FC<AdminGalleryPageProps> = ({ onSidebarToggle })
     window.scrollTo({ top: 0, behavior: 'smooth' });
   }, []);
 
+  useEffect(() => {
+    const timer = setTimeout(() => setSearchToken(getSearchToken(filters.search)), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [filters.search]);
+
   // Real-time Firestore data loading
   const loadApplications = useCallback(() => {
     if (!user) {
@@ -210,6 +224,10 @@ const AdminGalleryPage: React.FC<AdminGalleryPageProps> = ({ onSidebarToggle })
     setLoading(true);
     setError(null);
 
+    // Replace the previous listener so an older query can't overwrite these results
+    unsubscribeRef.current?.();
+    unsubscribeRef.current = null;
+
     try {
       // Build base Firestore query - only use orderBy to avoid composite index issues
       // We'll do filtering client-side to avoid needing composite indexes
@@ -262,6 +280,17 @@ const AdminGalleryPage: React.FC<AdminGalleryPageProps> = ({ onSidebarToggle })
         );
       }
 
+      // A search fetches every match from the search index instead of the
+      // latest 100, so results, counts and pages cover the whole collection.
+      // The other filters are then applied client-side as usual.
+      if (searchToken) {
+        q = query(
+          collection(db, 'submissions'),
+          where('searchTokens', 'array-contains', searchToken),
+          orderBy('createdAt', 'desc')
+        );
+      }
+
       // Set up real-time listener
       const unsubscribeListener = onSnapshot(
         q,
@@ -269,34 +298,7 @@ const AdminGalleryPage: React.FC<AdminGalleryPageProps> = ({ onSidebarToggle })
           const applicationsData: AdminApplicationCardType[] = [];
           
           snapshot.forEach((doc) => {
-            const data = doc.data();
-            
-            // Map Firestore data to AdminApplicationCard type
-            const application: AdminApplicationCardType = {
-              id: doc.id,
-              userId: data.userId || '',
-              filmTitle: data.filmTitle || 'Untitled',
-              filmTitleTh: data.filmTitleTh,
-              directorName: data.submitterName || data.directorName || 'Unknown',
-              directorNameTh: data.submitterNameTh || data.directorNameTh,
-              competitionCategory: data.competitionCategory || data.category || 'youth',
-              status: data.status || 'draft',
-              posterUrl: data.files?.posterFile?.downloadURL || data.files?.posterFile?.url || '',
-              submittedAt: data.submittedAt?.toDate(),
-              createdAt: data.createdAt?.toDate() || new Date(),
-              lastModified: data.lastModified?.toDate() || new Date(),
-              country: data.nationality || 'Unknown',
-              hasScores: data.scores && data.scores.length > 0,
-              averageScore: data.scores && data.scores.length > 0 
-                ? data.scores.reduce((sum: number, score: any) => sum + (score.totalScore || 0), 0) / data.scores.length 
-                : undefined,
-              reviewStatus: data.reviewStatus,
-              genres: data.genres || [],
-              duration: data.duration || 0,
-              format: data.format || 'live-action'
-            };
-            
-            applicationsData.push(application);
+            applicationsData.push(toAdminApplicationCard(doc.id, doc.data()));
           });
 
           setApplications(applicationsData);
@@ -326,7 +328,7 @@ const AdminGalleryPage: React.FC<AdminGalleryPageProps> = ({ onSidebarToggle })
       );
 
       // Store unsubscribe function
-      setUnsubscribe(() => unsubscribeListener);
+      unsubscribeRef.current = unsubscribeListener;
 
     } catch (error) {
       console.error('Error setting up listener:', error);
@@ -334,19 +336,19 @@ const AdminGalleryPage: React.FC<AdminGalleryPageProps> = ({ onSidebarToggle })
       setLoading(false);
       setInitialLoad(false);
     }
-  }, [user, filters.category, filters.status, filters.dateRange, currentLanguage, showError, currentContent]);
+  }, [user, filters.category, filters.status, filters.dateRange, searchToken, currentLanguage, showError, currentContent]);
 
   // Load data on mount and filter changes
   useEffect(() => {
     loadApplications();
-    
-    // Cleanup listener on unmount
+  }, [loadApplications]);
+
+  // Cleanup listener on unmount
+  useEffect(() => {
     return () => {
-      if (unsubscribe) {
-        unsubscribe();
-      }
+      unsubscribeRef.current?.();
     };
-  }, [loadApplications]);
+  }, []);
 
   // Client-side filtering and sorting
   useEffect(() => {
@@ -367,17 +369,7 @@ const AdminGalleryPage: React.FC<AdminGalleryPageProps> = ({ onSidebarToggle })
       });
     }
 
-    // Apply search filter
-    if (filters.search) {
-      const searchTerm = filters.search.toLowerCase();
-      filtered = filtered.filter(app => 
-        app.filmTitle.toLowerCase().includes(searchTerm) ||
-        (app.filmTitleTh && app.filmTitleTh.toLowerCase().includes(searchTerm)) ||
-        app.directorName.toLowerCase().includes(searchTerm) ||
-        (app.directorNameTh && app.directorNameTh.toLowerCase().includes(searchTerm)) ||
-        app.id.toLowerCase().includes(searchTerm)
-      );
-    }
+    // Search is applied server-side through the search index (see loadApplications)
 
     // Apply country filter
     if (filters.country && filters.country !== 'all') {
@@ -482,6 +474,42 @@ const AdminGalleryPage: React.FC<AdminGalleryPageProps> = ({ onSidebarToggle })
     }
   };
 
+  // Large exports run on the export worker and are downloaded from the Exports page
+  const handleQueueExport = async (options: ExportOptions) => {
+    if (!user || options.format === 'pdf') return;
+
+    try {
+      await exportJobService.requestExport({
+        requestedBy: user.uid,
+        requestedByName: user.displayName || user.email || 'Admin',
+        format: options.format,
+        columns: options.columns || [],
+        includeScores: options.includeScores,
+        includeNotes: options.includeNotes,
+        categories: options.categories || [],
+        statuses: options.statuses || [],
+        dateRange: options.dateRange
+      });
+
+      showSuccess(
+        currentLanguage === 'th' ? 'เพิ่มเข้าคิวแล้ว' : 'Export Queued',
+        currentLanguage === 'th' ? 'ดาวน์โหลดไฟล์ได้ที่หน้าการส่งออกเมื่อเสร็จสิ้น' : 'Download the file from the Exports page when it is ready'
+      );
+
+      setShowExportDialog(false);
+      window.location.hash = '#admin/exports';
+    } catch (err) {
+      console.error('Error queueing export:', err);
+      showError(
+        currentLanguage === 'th' ? 'การส่งออกล้มเหลว' : 'Export Failed',
+        currentLanguage === 'th' ? 'ไม่สามารถเพิ่มการส่งออกเข้าคิวได้' : 'Unable to queue the export'
+      );
+    }
+  };
+
+  const handlePreviewExport = (options: ExportOptions) =>
+    new ExportService().previewApplications(filteredApplications, options);
+
   const handleBulkSelect = (id: string, selected: boolean) => {
     const newSelection = new Set(selectedItems);
     if (selected) {
@@ -953,6 +981,8 @@ const AdminGalleryPage: React.FC<AdminGalleryPageProps> = ({ onSidebarToggle })
         isOpen={showExportDialog}
         onClose={() => setShowExportDialog(false)}
         onExport={handleExportApplications}
+        onPreview={handlePreviewExport}
+        onQueue={handleQueueExport}
         exportType="applications"
         availableCategories={['youth', 'future', 'world']}
         availableStatuses={['draft', 'submitted', 'under-review', 'accepted', 'rejected']}
@@ -7,13 +7,17 @@ import { db } from '../../firebase';
 import ApplicationLayout from '../applications/ApplicationLayout';
 import AnimatedButton from '../ui/AnimatedButton';
 import UserZoneHeader from '../layout/UserZoneHeader';
+import DecisionLetterSection from '../applications/DecisionLetterSection';
+import VersionHistorySection from '../applications/VersionHistorySection';
+import { isDecisionLetterStatus } from '../../utils/decisionLetters';
+import { SubtitleTrack } from '../../types/subtitle.types';
 
 interface ApplicationData {
   id: string;
   userId: string;
   applicationId: string;
   competitionCategory: 'youth' | 'future' | 'world';
-  status: 'draft' | 'submitted';
+  status: 'draft' | 'submitted' | 'under-review' | 'accepted' | 'rejected';
   filmTitle: string;
   filmTitleTh?: string;
   filmLanguages?: string[];
@@ -21,6 +25,8 @@ interface ApplicationData {
   format: string;
   duration: number;
   synopsis: string;
+  submitterName?: string;
+  submitterNameTh?: string;
   files: {
     filmFile: {
       url: string;
@@ -37,8 +43,10 @@ interface ApplicationData {
       name: string;
       size: number;
     };
+    subtitles?: SubtitleTrack[];
   };
   submittedAt: any;
+  decidedAt?: Date;
   createdAt: any;
   lastModified: any;
 }
@@ -64,6 +72,7 @@ const ApplicationDetailPage: React.FC<ApplicationDetailPageProps> = ({
   const [application, setApplication] = useState<ApplicationData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
 
   // Scroll to top when component mounts
   useEffect(() => {
@@ -137,9 +146,11 @@ const ApplicationDetailPage: React.FC<ApplicationDetailPageProps> = ({
                 url: data.files?.proofFile?.downloadURL || data.files?.proofFile?.url || '',
                 name: data.files?.proofFile?.fileName || data.files?.proofFile?.name || '',
                 size: data.files?.proofFile?.fileSize || data.files?.proofFile?.size || 0
-              } : undefined
+              } : undefined,
+              subtitles: data.files?.subtitles || []
             },
             submittedAt: data.submittedAt,
+            decidedAt: data.decidedAt?.toDate?.(),
             createdAt: data.createdAt,
             lastModified: data.lastModified
           } as ApplicationData);
@@ -163,7 +174,7 @@ const ApplicationDetailPage: React.FC<ApplicationDetailPageProps> = ({
     };
 
     fetchApplication();
-  }, [user, applicationId, currentLanguage]);
+  }, [user, applicationId, currentLanguage, reloadKey]);
 
   const content = {
     th: {
@@ -269,8 +280,31 @@ const ApplicationDetailPage: React.FC<ApplicationDetailPageProps> = ({
         )}
       </UserZoneHeader>
 
+      {/* Decision Letter - Only once the film has been accepted or rejected */}
+      {isDecisionLetterStatus(application.status) && (
+        <DecisionLetterSection
+          status={application.status}
+          details={{
+            applicantName: application.submitterName || '',
+            applicantNameTh: application.submitterNameTh,
+            filmTitle: application.filmTitle,
+            filmTitleTh: application.filmTitleTh,
+            competitionCategory: application.competitionCategory,
+            applicationId: application.applicationId,
+            decidedAt: application.decidedAt || new Date()
+          }}
+        />
+      )}
+
       {/* Application Layout */}
       <ApplicationLayout application={application} />
+
+      {/* Version History - drafts can be restored to an earlier version */}
+      <VersionHistorySection
+        submissionId={application.id}
+        canRestore={application.status === 'draft'}
+        onRestored={() => setReloadKey(key => key + 1)}
+      />
     </div>
   );
 };
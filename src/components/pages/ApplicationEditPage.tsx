@@ -4,7 +4,10 @@ import { useTypography } from '../../utils/typography';
 import { useAuth } from '../auth/AuthContext';
 import { doc, getDoc, updateDoc, serverTimestamp } from 'firebase/firestore';
 import { db } from '../../firebase';
+import { submissionVersionService } from '../../services/submissionVersionService';
 import { validateEmail, validateAge, getValidationMessages } from '../../utils/formValidation';
+import { getDurationMinutes } from '../../utils/videoProbe';
+import { buildSubmissionSearchTokens } from '../../utils/searchIndex';
 import { CrewMember, FormErrors } from '../../types/form.types';
 import AnimatedButton from '../ui/AnimatedButton';
 import GenreSelector from '../forms/GenreSelector';
@@ -397,7 +400,9 @@ const ApplicationEditPage: React.FC<ApplicationEditPageProps> = ({
           fileSize: newFileMetadata.fileSize,
           storagePath: newFileMetadata.storagePath
         }
-      }
+      },
+      // Pre-fill the duration from the replacement film file
+      ...(newFileMetadata.technical && { duration: getDurationMinutes(newFileMetadata.technical) })
     } : null);
   };
 
@@ -471,8 +476,22 @@ const ApplicationEditPage: React.FC<ApplicationEditPageProps> = ({
         updateData.universityId = application.universityId || null;
       }
 
+      updateData.searchTokens = buildSubmissionSearchTokens({ ...application, ...updateData });
+
       await updateDoc(docRef, updateData);
 
+      await submissionVersionService.recordVersion(
+        applicationId,
+        {
+          ...updateData,
+          filmLanguages: application.filmLanguages,
+          status: application.status,
+          files: application.files
+        },
+        'edit',
+        application.userId
+      );
+
       // Show draft success dialog instead of alert
       setSavedApplicationId(application.id);
       setShowDraftSuccessDialog(true);
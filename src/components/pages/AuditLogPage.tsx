@@ -0,0 +1,226 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useTypography } from '../../utils/typography';
+import { SubmissionAuditAction, SubmissionAuditEntry } from '../../types/audit.types';
+import { auditLogService } from '../../services/auditLogService';
+import { AUDIT_ACTION_LABELS, filterAuditEntries } from '../../utils/auditDiff';
+import AdminZoneHeader from '../layout/AdminZoneHeader';
+import AuditEntryItem from '../admin/AuditEntryItem';
+import { RefreshCw, Search } from 'lucide-react';
+
+interface AuditLogPageProps {
+  onSidebarToggle?: () => void;
+}
+
+const AuditLogPage: React.FC<AuditLogPageProps> = ({ onSidebarToggle }) => {
+  const { i18n } = useTranslation();
+  const { getClass } = useTypography();
+  const currentLanguage = i18n.language as 'en' | 'th';
+
+  const [entries, setEntries] = useState<SubmissionAuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [actionFilter, setActionFilter] = useState<SubmissionAuditAction | ''>('');
+  const [actorFilter, setActorFilter] = useState('');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [submissionInput, setSubmissionInput] = useState('');
+  const [submissionFilter, setSubmissionFilter] = useState('');
+  const [knownActors, setKnownActors] = useState<Record<string, string>>({});
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+
+  const content = {
+    th: {
+      pageTitle: "บันทึกการตรวจสอบ",
+      subtitle: "ประวัติการดำเนินการของผู้ดูแลกับใบสมัครทั้งหมด",
+      search: "ค้นหาชื่อภาพยนตร์...",
+      submissionId: "รหัสใบสมัคร",
+      allActions: "ทุกการดำเนินการ",
+      allActors: "ผู้ดำเนินการทั้งหมด",
+      from: "ตั้งแต่",
+      to: "ถึง",
+      loading: "กำลังโหลด...",
+      empty: "ไม่พบรายการที่ตรงกับตัวกรอง",
+      loadError: "ไม่สามารถโหลดบันทึกการตรวจสอบได้",
+      showing: "แสดง",
+      entries: "รายการ"
+    },
+    en: {
+      pageTitle: "Audit Log",
+      subtitle: "Every admin action taken on submissions",
+      search: "Search film title...",
+      submissionId: "Submission ID",
+      allActions: "All actions",
+      allActors: "All admins",
+      from: "From",
+      to: "To",
+      loading: "Loading...",
+      empty: "No entries match the filters",
+      loadError: "Failed to load the audit log",
+      showing: "Showing",
+      entries: "entries"
+    }
+  };
+
+  const currentContent = content[currentLanguage];
+
+  // Every filter but the title search narrows the query itself
+  const loadEntries = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const loaded = await auditLogService.getEntries({
+        submissionId: submissionFilter || undefined,
+        action: actionFilter || undefined,
+        actorId: actorFilter || undefined,
+        from: fromDate ? new Date(`${fromDate}T00:00:00`) : undefined,
+        to: toDate ? new Date(`${toDate}T23:59:59.999`) : undefined
+      });
+      setEntries(loaded);
+      // Remember every actor seen so the list survives loads filtered to one of them
+      setKnownActors(prev => {
+        const next = { ...prev };
+        loaded.forEach(entry => { next[entry.actorId] = entry.actorName; });
+        return next;
+      });
+    } catch (err) {
+      console.error('Error loading audit log:', err);
+      setError(currentContent.loadError);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadEntries();
+  }, [submissionFilter, actionFilter, actorFilter, fromDate, toDate]);
+
+  const actors = useMemo(
+    () => Object.entries(knownActors)
+      .map(([id, name]) => ({ id, name }))
+      .sort((a, b) => a.name.localeCompare(b.name)),
+    [knownActors]
+  );
+
+  const filteredEntries = useMemo(
+    () => filterAuditEntries(entries, { search: searchTerm }),
+    [entries, searchTerm]
+  );
+
+  const applySubmissionFilter = () => setSubmissionFilter(submissionInput.trim());
+
+  const inputClass = 'px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white text-sm focus:border-[#FCB283] focus:outline-none';
+
+  return (
+    <div className="space-y-6 sm:space-y-8">
+      <AdminZoneHeader
+        title={currentContent.pageTitle}
+        subtitle={currentContent.subtitle}
+        onSidebarToggle={onSidebarToggle || (() => {})}
+      >
+        <button
+          onClick={loadEntries}
+          disabled={loading}
+          className="p-2 rounded-lg bg-white/10 hover:bg-white/20 text-white transition-colors disabled:opacity-50"
+        >
+          <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+        </button>
+      </AdminZoneHeader>
+
+      {/* Filters */}
+      <div className="glass-container rounded-2xl p-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+          <div className="relative lg:col-span-2">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-white/40" />
+            <input
+              type="text"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              placeholder={currentContent.search}
+              className={`${inputClass} w-full pl-9`}
+            />
+          </div>
+          <select
+            value={actionFilter}
+            onChange={(e) => setActionFilter(e.target.value as SubmissionAuditAction | '')}
+            className={inputClass}
+          >
+            <option value="" className="bg-[#110D16]">{currentContent.allActions}</option>
+            {(Object.keys(AUDIT_ACTION_LABELS) as SubmissionAuditAction[]).map(action => (
+              <option key={action} value={action} className="bg-[#110D16]">
+                {AUDIT_ACTION_LABELS[action][currentLanguage]}
+              </option>
+            ))}
+          </select>
+          <select
+            value={actorFilter}
+            onChange={(e) => setActorFilter(e.target.value)}
+            className={`${inputClass} lg:col-span-2`}
+          >
+            <option value="" className="bg-[#110D16]">{currentContent.allActors}</option>
+            {actors.map(actor => (
+              <option key={actor.id} value={actor.id} className="bg-[#110D16]">{actor.name}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4 mt-4">
+          <input
+            type="text"
+            value={submissionInput}
+            onChange={(e) => setSubmissionInput(e.target.value)}
+            onBlur={applySubmissionFilter}
+            onKeyDown={(e) => { if (e.key === 'Enter') applySubmissionFilter(); }}
+            placeholder={currentContent.submissionId}
+            className={inputClass}
+          />
+          <label className={`flex items-center space-x-2 text-sm text-white/70 ${getClass('body')}`}>
+            <span>{currentContent.from}</span>
+            <input
+              type="date"
+              value={fromDate}
+              max={toDate || undefined}
+              onChange={(e) => setFromDate(e.target.value)}
+              className={inputClass}
+            />
+          </label>
+          <label className={`flex items-center space-x-2 text-sm text-white/70 ${getClass('body')}`}>
+            <span>{currentContent.to}</span>
+            <input
+              type="date"
+              value={toDate}
+              min={fromDate || undefined}
+              onChange={(e) => setToDate(e.target.value)}
+              className={inputClass}
+            />
+          </label>
+          {!loading && (
+            <span className={`ml-auto text-sm text-white/60 ${getClass('body')}`}>
+              {currentContent.showing} {filteredEntries.length} / {entries.length} {currentContent.entries}
+            </span>
+          )}
+        </div>
+      </div>
+
+      {/* Entries */}
+      {loading ? (
+        <div className="text-center py-12">
+          <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-[#FCB283] mb-4"></div>
+          <p className={`${getClass('body')} text-white/80`}>{currentContent.loading}</p>
+        </div>
+      ) : error ? (
+        <p className={`${getClass('body')} text-red-400 text-center py-12`}>{error}</p>
+      ) : filteredEntries.length === 0 ? (
+        <p className={`${getClass('body')} text-white/50 text-center py-12`}>{currentContent.empty}</p>
+      ) : (
+        <div className="space-y-3">
+          {filteredEntries.map(entry => (
+            <AuditEntryItem key={entry.id} entry={entry} showSubmission />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AuditLogPage;
@@ -0,0 +1,528 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useTypography } from '../../utils/typography';
+import { useAuth } from '../auth/AuthContext';
+import {
+  AdminApplicationData,
+  DecisionRound,
+  DecisionStage,
+  FilmDecision,
+  OfficialSelection
+} from '../../types/admin.types';
+import { leaderboardService, CategoryScoreData } from '../../services/leaderboardService';
+import { decisionRoundService, DecisionRoundError } from '../../services/decisionRoundService';
+import { buildLeaderboard } from '../../utils/scoreAggregation';
+import { buildCutoffDecisions, getPassingDecision, getStageCandidates } from '../../utils/decisionRounds';
+import { useNotificationHelpers } from '../ui/NotificationSystem';
+import AdminZoneHeader from '../layout/AdminZoneHeader';
+import { CheckCircle, ChevronDown, ChevronRight, Globe, Gavel, RefreshCw, XCircle } from 'lucide-react';
+
+interface DecisionRoundsPageProps {
+  onSidebarToggle?: () => void;
+}
+
+type Category = AdminApplicationData['competitionCategory'];
+
+const CATEGORIES: Category[] = ['youth', 'future', 'world'];
+
+const DecisionRoundsPage: React.FC<DecisionRoundsPageProps> = ({ onSidebarToggle }) => {
+  const { i18n } = useTranslation();
+  const { getClass } = useTypography();
+  const { user } = useAuth();
+  const { showSuccess, showError } = useNotificationHelpers();
+  const currentLanguage = i18n.language as 'en' | 'th';
+
+  const [category, setCategory] = useState<Category>('youth');
+  const [stage, setStage] = useState<DecisionStage>('shortlist');
+  const [scoreData, setScoreData] = useState<CategoryScoreData>({ films: [], records: [] });
+  const [rounds, setRounds] = useState<DecisionRound[]>([]);
+  const [selections, setSelections] = useState<OfficialSelection[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [normalize, setNormalize] = useState(true);
+  const [cutoff, setCutoff] = useState(10);
+  const [overrides, setOverrides] = useState<Record<string, FilmDecision>>({});
+  const [note, setNote] = useState('');
+  const [busyRoundId, setBusyRoundId] = useState<string | null>(null);
+  const [isProposing, setIsProposing] = useState(false);
+  const [expandedRoundId, setExpandedRoundId] = useState<string | null>(null);
+
+  const content = {
+    th: {
+      pageTitle: "รอบตัดสิน",
+      subtitle: "คัดเลือกรอบแรกและประกาศผลภาพยนตร์ที่ได้รับคัดเลือกอย่างเป็นทางการ",
+      categories: { youth: "เยาวชน", future: "อนาคต", world: "โลก" },
+      stages: { shortlist: "คัดเลือกรอบแรก", selection: "คัดเลือกอย่างเป็นทางการ" },
+      decisions: { shortlisted: "ผ่านรอบแรก", selected: "ได้รับคัดเลือก", rejected: "ไม่ผ่าน" },
+      newRound: "เสนอรอบตัดสินใหม่",
+      normalize: "จัดอันดับด้วยคะแนนที่ปรับแล้ว (z-score)",
+      cutoff: "ผ่าน",
+      cutoffSuffix: "อันดับแรก",
+      rank: "อันดับ",
+      film: "ภาพยนตร์",
+      score: "คะแนน",
+      decision: "ผลการตัดสิน",
+      note: "หมายเหตุถึงผู้ยืนยัน",
+      propose: "เสนอเพื่อยืนยัน",
+      proposeHint: "ผลการตัดสินจะยังไม่มีผลจนกว่าผู้ดูแลระบบอีกคนจะยืนยัน",
+      proposeSuccess: "เสนอรอบตัดสินแล้ว รอผู้ดูแลระบบอีกคนยืนยัน",
+      noCandidates: "ไม่มีภาพยนตร์ที่รอการตัดสินในขั้นนี้",
+      rounds: "รอบตัดสิน",
+      noRounds: "ยังไม่มีรอบตัดสินในหมวดนี้",
+      status: { pending: "รอยืนยัน", confirming: "กำลังยืนยัน", confirmed: "ยืนยันแล้ว", cancelled: "ยกเลิก" },
+      proposedBy: "เสนอโดย",
+      confirmedBy: "ยืนยันโดย",
+      confirm: "ยืนยัน",
+      resume: "ยืนยันต่อ",
+      skipped: (count: number) => `ข้าม ${count} เรื่องที่สถานะเปลี่ยนหลังการเสนอ`,
+      cancel: "ยกเลิก",
+      needsSecondAdmin: "ต้องให้ผู้ดูแลระบบคนอื่นยืนยัน",
+      confirmSuccess: "ยืนยันรอบตัดสินและอัปเดตสถานะภาพยนตร์แล้ว",
+      cancelSuccess: "ยกเลิกรอบตัดสินแล้ว",
+      publish: "เผยแพร่บนเว็บไซต์",
+      unpublish: "ยกเลิกการเผยแพร่",
+      published: "เผยแพร่อยู่",
+      publishSuccess: "เผยแพร่รายชื่อภาพยนตร์ที่ได้รับคัดเลือกแล้ว",
+      unpublishSuccess: "ยกเลิกการเผยแพร่แล้ว",
+      actionError: "ไม่สามารถดำเนินการได้",
+      loading: "กำลังโหลด..."
+    },
+    en: {
+      pageTitle: "Decision Rounds",
+      subtitle: "Shortlist films and publish the official selection",
+      categories: { youth: "Youth", future: "Future", world: "World" },
+      stages: { shortlist: "Shortlist", selection: "Official Selection" },
+      decisions: { shortlisted: "Shortlisted", selected: "Selected", rejected: "Rejected" },
+      newRound: "Propose a New Round",
+      normalize: "Rank on normalized scores (z-score)",
+      cutoff: "Keep top",
+      cutoffSuffix: "ranks",
+      rank: "Rank",
+      film: "Film",
+      score: "Score",
+      decision: "Decision",
+      note: "Note for the confirming admin",
+      propose: "Propose for Confirmation",
+      proposeHint: "Decisions take effect only after a second admin confirms them",
+      proposeSuccess: "Round proposed. Waiting for a second admin to confirm.",
+      noCandidates: "No films are awaiting a decision at this stage",
+      rounds: "Rounds",
+      noRounds: "No decision rounds in this category yet",
+      status: { pending: "Pending", confirming: "Confirming", confirmed: "Confirmed", cancelled: "Cancelled" },
+      proposedBy: "Proposed by",
+      confirmedBy: "Confirmed by",
+      confirm: "Confirm",
+      resume: "Resume Confirmation",
+      skipped: (count: number) => `${count} skipped: status changed after the round was proposed`,
+      cancel: "Cancel",
+      needsSecondAdmin: "Needs confirmation from another admin",
+      confirmSuccess: "Round confirmed and film statuses updated",
+      cancelSuccess: "Round cancelled",
+      publish: "Publish to Site",
+      unpublish: "Unpublish",
+      published: "Published",
+      publishSuccess: "Official selection published",
+      unpublishSuccess: "Official selection unpublished",
+      actionError: "Unable to complete the action",
+      loading: "Loading..."
+    }
+  };
+
+  const currentContent = content[currentLanguage];
+  const adminName = user?.displayName || user?.email || 'Admin';
+
+  const loadData = async () => {
+    setLoading(true);
+    try {
+      const [categoryScores, roundList, selectionList] = await Promise.all([
+        leaderboardService.getCategoryScores(category),
+        decisionRoundService.getRounds(),
+        decisionRoundService.getOfficialSelections()
+      ]);
+      setScoreData(categoryScores);
+      setRounds(roundList);
+      setSelections(selectionList);
+    } catch (err) {
+      console.error('Error loading decision rounds:', err);
+      showError(currentContent.actionError);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadData();
+  }, [category]);
+
+  useEffect(() => {
+    setOverrides({});
+  }, [category, stage, cutoff, normalize]);
+
+  const candidates = useMemo(() => getStageCandidates(stage, scoreData.films), [stage, scoreData]);
+
+  // Rank only this stage's candidates so the cutoff counts from 1
+  const proposedFilms = useMemo(() => {
+    const entries = buildLeaderboard(candidates, scoreData.records, { normalize, dropOutliers: false });
+    return buildCutoffDecisions(stage, entries, candidates, cutoff, normalize).map(film => ({
+      ...film,
+      decision: overrides[film.submissionId] || film.decision
+    }));
+  }, [candidates, scoreData, stage, cutoff, normalize, overrides]);
+
+  const categoryRounds = rounds.filter(round => round.category === category);
+  const publishedSelection = selections.find(selection => selection.category === category);
+
+  const runAction = async (roundId: string, action: () => Promise<void>, successMessage: string) => {
+    setBusyRoundId(roundId);
+    try {
+      await action();
+      showSuccess(successMessage);
+      await loadData();
+    } catch (err) {
+      console.error('Decision round action failed:', err);
+      showError(err instanceof DecisionRoundError ? err.message : currentContent.actionError);
+    } finally {
+      setBusyRoundId(null);
+    }
+  };
+
+  const handlePropose = async () => {
+    if (!user || proposedFilms.length === 0) return;
+
+    setIsProposing(true);
+    try {
+      await decisionRoundService.proposeRound(
+        { category, stage, cutoff, normalized: normalize, films: proposedFilms, note: note.trim() },
+        user.uid,
+        adminName
+      );
+      setNote('');
+      showSuccess(currentContent.proposeSuccess);
+      await loadData();
+    } catch (err) {
+      console.error('Error proposing decision round:', err);
+      showError(currentContent.actionError);
+    } finally {
+      setIsProposing(false);
+    }
+  };
+
+  const decisionStyle = (decision: FilmDecision) => {
+    if (decision === 'rejected') return 'text-red-400';
+    if (decision === 'selected') return 'text-green-400';
+    return 'text-[#FCB283]';
+  };
+
+  const statusStyle = (status: DecisionRound['status']) => {
+    if (status === 'confirmed') return 'bg-green-500/20 text-green-400 border-green-500/30';
+    if (status === 'cancelled') return 'bg-white/10 text-white/50 border-white/20';
+    return 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30';
+  };
+
+  const decisionCounts = (round: DecisionRound) =>
+    (['shortlisted', 'selected', 'rejected'] as FilmDecision[])
+      .map(decision => ({ decision, count: round.films.filter(film => film.decision === decision).length }))
+      .filter(({ count }) => count > 0);
+
+  return (
+    <div className="space-y-6 sm:space-y-8">
+      <AdminZoneHeader
+        title={currentContent.pageTitle}
+        subtitle={currentContent.subtitle}
+        onSidebarToggle={onSidebarToggle || (() => {})}
+      >
+        <button
+          onClick={loadData}
+          disabled={loading}
+          className="p-2 rounded-lg bg-white/10 hover:bg-white/20 text-white transition-colors disabled:opacity-50"
+        >
+          <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+        </button>
+      </AdminZoneHeader>
+
+      {/* Category Tabs */}
+      <div className="flex flex-wrap gap-2">
+        {CATEGORIES.map(cat => (
+          <button
+            key={cat}
+            onClick={() => setCategory(cat)}
+            className={`px-4 py-2 rounded-lg text-sm transition-colors ${getClass('body')} ${
+              category === cat
+                ? 'bg-gradient-to-r from-[#AA4626] to-[#FCB283] text-white'
+                : 'bg-white/10 text-white/70 hover:bg-white/20'
+            }`}
+          >
+            {currentContent.categories[cat]}
+          </button>
+        ))}
+      </div>
+
+      {loading ? (
+        <div className="text-center py-12">
+          <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-[#FCB283] mb-4"></div>
+          <p className={`${getClass('body')} text-white/80`}>{currentContent.loading}</p>
+        </div>
+      ) : (
+        <>
+          {/* New Round */}
+          <div className="glass-container rounded-2xl p-6 sm:p-8">
+            <h3 className={`text-xl ${getClass('header')} text-white mb-6 flex items-center space-x-2`}>
+              <Gavel className="w-5 h-5 text-[#FCB283]" />
+              <span>{currentContent.newRound}</span>
+            </h3>
+
+            <div className="flex flex-wrap items-center gap-4 mb-6">
+              <div className="flex rounded-lg overflow-hidden border border-white/20">
+                {(['shortlist', 'selection'] as DecisionStage[]).map(stageOption => (
+                  <button
+                    key={stageOption}
+                    onClick={() => setStage(stageOption)}
+                    className={`px-4 py-2 text-sm ${getClass('body')} ${
+                      stage === stageOption ? 'bg-[#FCB283]/30 text-white' : 'text-white/60 hover:bg-white/10'
+                    }`}
+                  >
+                    {currentContent.stages[stageOption]}
+                  </button>
+                ))}
+              </div>
+              <label className={`flex items-center space-x-2 ${getClass('body')} text-white/80 text-sm`}>
+                <span>{currentContent.cutoff}</span>
+                <input
+                  type="number"
+                  min={0}
+                  value={cutoff}
+                  onChange={(e) => setCutoff(Math.max(0, parseInt(e.target.value, 10) || 0))}
+                  className="w-20 px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white focus:border-[#FCB283] focus:outline-none"
+                />
+                <span>{currentContent.cutoffSuffix}</span>
+              </label>
+              <label className={`flex items-center space-x-2 ${getClass('body')} text-white/80 text-sm cursor-pointer`}>
+                <input
+                  type="checkbox"
+                  checked={normalize}
+                  onChange={(e) => setNormalize(e.target.checked)}
+                  className="accent-[#FCB283]"
+                />
+                <span>{currentContent.normalize}</span>
+              </label>
+            </div>
+
+            {proposedFilms.length === 0 ? (
+              <p className={`${getClass('body')} text-white/60 text-center py-6`}>{currentContent.noCandidates}</p>
+            ) : (
+              <>
+                <div className="overflow-x-auto mb-6">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-white/60 border-b border-white/10">
+                        <th className="py-2 pr-4 font-medium w-16">{currentContent.rank}</th>
+                        <th className="py-2 pr-4 font-medium">{currentContent.film}</th>
+                        <th className="py-2 pr-4 font-medium">{currentContent.score}</th>
+                        <th className="py-2 font-medium">{currentContent.decision}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {proposedFilms.map((film, index) => {
+                        const isCutoffLine = index > 0 &&
+                          proposedFilms[index - 1].decision !== 'rejected' && film.decision === 'rejected';
+                        return (
+                          <tr
+                            key={film.submissionId}
+                            className={`border-b border-white/5 ${isCutoffLine ? 'border-t-2 border-t-[#FCB283]/60' : ''}`}
+                          >
+                            <td className={`py-2 pr-4 ${getClass('body')} text-white/80`}>{film.rank ?? '–'}</td>
+                            <td className={`py-2 pr-4 ${getClass('body')} text-white`}>{film.filmTitle}</td>
+                            <td className={`py-2 pr-4 ${getClass('body')} text-white/80`}>
+                              {film.rank !== null ? `${film.score.toFixed(1)}%` : '–'}
+                            </td>
+                            <td className="py-2">
+                              <select
+                                value={film.decision}
+                                onChange={(e) => setOverrides(prev => ({ ...prev, [film.submissionId]: e.target.value as FilmDecision }))}
+                                className={`px-2 py-1 bg-white/10 border border-white/20 rounded-lg text-sm focus:outline-none ${decisionStyle(film.decision)}`}
+                              >
+                                <option value={getPassingDecision(stage)} className="bg-[#110D16]">
+                                  {currentContent.decisions[getPassingDecision(stage)]}
+                                </option>
+                                <option value="rejected" className="bg-[#110D16]">{currentContent.decisions.rejected}</option>
+                              </select>
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+
+                <textarea
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder={currentContent.note}
+                  rows={2}
+                  className="w-full px-4 py-3 mb-4 bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/50 focus:border-[#FCB283] focus:outline-none resize-none"
+                />
+                <div className="flex flex-wrap items-center justify-between gap-4">
+                  <p className={`${getClass('body')} text-white/50 text-sm`}>{currentContent.proposeHint}</p>
+                  <button
+                    onClick={handlePropose}
+                    disabled={isProposing}
+                    className="px-4 py-2 bg-gradient-to-r from-[#AA4626] to-[#FCB283] rounded-lg text-white text-sm disabled:opacity-50"
+                  >
+                    {currentContent.propose}
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+
+          {/* Rounds */}
+          <div className="glass-container rounded-2xl p-6 sm:p-8">
+            <h3 className={`text-xl ${getClass('header')} text-white mb-6`}>{currentContent.rounds}</h3>
+
+            {categoryRounds.length === 0 ? (
+              <p className={`${getClass('body')} text-white/60 text-center py-6`}>{currentContent.noRounds}</p>
+            ) : (
+              <div className="space-y-3">
+                {categoryRounds.map(round => {
+                  const isBusy = busyRoundId === round.id;
+                  const isOwnRound = round.proposedBy === user?.uid;
+                  const isPublished = publishedSelection?.roundId === round.id;
+                  const isExpanded = expandedRoundId === round.id;
+
+                  return (
+                    <div key={round.id} className="glass-card p-4 rounded-xl">
+                      <div className="flex flex-col lg:flex-row lg:items-center gap-3">
+                        <button
+                          onClick={() => setExpandedRoundId(isExpanded ? null : round.id)}
+                          className="flex items-center space-x-2 flex-1 text-left"
+                        >
+                          {isExpanded ? <ChevronDown className="w-4 h-4 text-white/60" /> : <ChevronRight className="w-4 h-4 text-white/60" />}
+                          <span className={`${getClass('subtitle')} text-white`}>{currentContent.stages[round.stage]}</span>
+                          <span className={`px-2 py-0.5 rounded-full text-xs border ${statusStyle(round.status)}`}>
+                            {currentContent.status[round.status]}
+                          </span>
+                          {isPublished && (
+                            <span className="flex items-center space-x-1 px-2 py-0.5 rounded-full text-xs border bg-blue-500/20 text-blue-400 border-blue-500/30">
+                              <Globe className="w-3 h-3" />
+                              <span>{currentContent.published}</span>
+                            </span>
+                          )}
+                        </button>
+
+                        <div className={`${getClass('body')} text-white/60 text-xs flex flex-wrap gap-x-4`}>
+                          {decisionCounts(round).map(({ decision, count }) => (
+                            <span key={decision} className={decisionStyle(decision)}>
+                              {currentContent.decisions[decision]}: {count}
+                            </span>
+                          ))}
+                        </div>
+
+                        <div className="flex items-center gap-2">
+                          {round.status === 'pending' && (
+                            <>
+                              <button
+                                onClick={() => user && runAction(
+                                  round.id,
+                                  () => decisionRoundService.confirmRound(round.id, user.uid, adminName, user.email || ''),
+                                  currentContent.confirmSuccess
+                                )}
+                                disabled={isBusy || isOwnRound}
+                                title={isOwnRound ? currentContent.needsSecondAdmin : undefined}
+                                className="flex items-center space-x-1 px-3 py-1.5 bg-green-500/20 text-green-400 rounded-lg hover:bg-green-500/30 text-xs disabled:opacity-40"
+                              >
+                                <CheckCircle className="w-3 h-3" />
+                                <span>{currentContent.confirm}</span>
+                              </button>
+                              <button
+                                onClick={() => user && runAction(
+                                  round.id,
+                                  () => decisionRoundService.cancelRound(round.id, user.uid),
+                                  currentContent.cancelSuccess
+                                )}
+                                disabled={isBusy}
+                                className="flex items-center space-x-1 px-3 py-1.5 bg-white/10 text-white/70 rounded-lg hover:bg-white/20 text-xs disabled:opacity-40"
+                              >
+                                <XCircle className="w-3 h-3" />
+                                <span>{currentContent.cancel}</span>
+                              </button>
+                            </>
+                          )}
+                          {round.status === 'confirming' && round.confirmedBy === user?.uid && (
+                            <button
+                              onClick={() => user && runAction(
+                                round.id,
+                                () => decisionRoundService.confirmRound(round.id, user.uid, adminName, user.email || ''),
+                                currentContent.confirmSuccess
+                              )}
+                              disabled={isBusy}
+                              className="flex items-center space-x-1 px-3 py-1.5 bg-green-500/20 text-green-400 rounded-lg hover:bg-green-500/30 text-xs disabled:opacity-40"
+                            >
+                              <CheckCircle className="w-3 h-3" />
+                              <span>{currentContent.resume}</span>
+                            </button>
+                          )}
+                          {round.status === 'confirmed' && round.stage === 'selection' && (
+                            isPublished ? (
+                              <button
+                                onClick={() => runAction(
+                                  round.id,
+                                  () => decisionRoundService.unpublishSelection(round.category),
+                                  currentContent.unpublishSuccess
+                                )}
+                                disabled={isBusy}
+                                className="px-3 py-1.5 bg-white/10 text-white/70 rounded-lg hover:bg-white/20 text-xs disabled:opacity-40"
+                              >
+                                {currentContent.unpublish}
+                              </button>
+                            ) : (
+                              <button
+                                onClick={() => user && runAction(
+                                  round.id,
+                                  () => decisionRoundService.publishSelection(round.id, user.uid),
+                                  currentContent.publishSuccess
+                                )}
+                                disabled={isBusy}
+                                className="flex items-center space-x-1 px-3 py-1.5 bg-blue-500/20 text-blue-400 rounded-lg hover:bg-blue-500/30 text-xs disabled:opacity-40"
+                              >
+                                <Globe className="w-3 h-3" />
+                                <span>{currentContent.publish}</span>
+                              </button>
+                            )
+                          )}
+                        </div>
+                      </div>
+
+                      <p className={`${getClass('body')} text-white/50 text-xs mt-2`}>
+                        {currentContent.proposedBy} {round.proposedByName} · {round.proposedAt.toLocaleString()}
+                        {round.confirmedByName && ` · ${currentContent.confirmedBy} ${round.confirmedByName}`}
+                        {round.status === 'pending' && isOwnRound && ` · ${currentContent.needsSecondAdmin}`}
+                        {!!round.skippedFilms?.length && ` · ${currentContent.skipped(round.skippedFilms.length)}`}
+                      </p>
+                      {round.note && (
+                        <p className={`${getClass('body')} text-white/70 text-sm mt-2 italic`}>“{round.note}”</p>
+                      )}
+
+                      {isExpanded && (
+                        <ul className="mt-3 space-y-1 border-t border-white/10 pt-3">
+                          {round.films.map(film => (
+                            <li key={film.submissionId} className={`${getClass('body')} text-sm flex justify-between`}>
+                              <span className="text-white/80">
+                                {film.rank ?? '–'}. {film.filmTitle}
+                              </span>
+                              <span className={decisionStyle(film.decision)}>{currentContent.decisions[film.decision]}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default DecisionRoundsPage;
@@ -0,0 +1,495 @@
+import React, { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useTypography } from '../../utils/typography';
+import { useAuth } from '../auth/AuthContext';
+import {
+  ExportColumnSelection,
+  ExportJob,
+  ExportJobFormat,
+  ExportJobStatus
+} from '../../types/admin.types';
+import { exportJobService } from '../../services/exportJobService';
+import { getDefaultExportColumns } from '../../utils/exportColumns';
+import { formatFileSize } from '../../utils/fileUtils';
+import { useNotificationHelpers } from '../ui/NotificationSystem';
+import ExportTemplateEditor from '../ui/ExportTemplateEditor';
+import AdminZoneHeader from '../layout/AdminZoneHeader';
+import { Archive, Calendar, Clock, Download, FileText, Filter, XCircle } from 'lucide-react';
+
+interface ExportsPageProps {
+  onSidebarToggle?: () => void;
+}
+
+const FORMATS: ExportJobFormat[] = ['csv', 'excel', 'zip'];
+const CATEGORIES = ['youth', 'future', 'world'] as const;
+const STATUSES = ['draft', 'submitted', 'under-review', 'accepted', 'rejected'] as const;
+
+// datetime-local inputs read and write local time without a zone suffix
+const toDateTimeInputValue = (date: Date): string => {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+};
+
+const ExportsPage: React.FC<ExportsPageProps> = ({ onSidebarToggle }) => {
+  const { i18n } = useTranslation();
+  const { getClass } = useTypography();
+  const { user } = useAuth();
+  const { showSuccess, showError } = useNotificationHelpers();
+  const currentLanguage = i18n.language as 'en' | 'th';
+
+  const [jobs, setJobs] = useState<ExportJob[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [format, setFormat] = useState<ExportJobFormat>('zip');
+  const [includeScores, setIncludeScores] = useState(true);
+  const [includeNotes, setIncludeNotes] = useState(false);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [statuses, setStatuses] = useState<string[]>([]);
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [scheduledFor, setScheduledFor] = useState('');
+  const [columns, setColumns] = useState<ExportColumnSelection[]>(() => getDefaultExportColumns('applications'));
+  const [isRequesting, setIsRequesting] = useState(false);
+  const [busyJobId, setBusyJobId] = useState<string | null>(null);
+
+  const content = {
+    th: {
+      pageTitle: "การส่งออก",
+      subtitle: "ส่งออกใบสมัครเบื้องหลังและดาวน์โหลดไฟล์เมื่อเสร็จสิ้น",
+      newExport: "สร้างการส่งออกใหม่",
+      format: "รูปแบบไฟล์",
+      formats: { csv: "CSV", excel: "Excel (.xlsx)", zip: "ZIP (Excel + โปสเตอร์ + เอกสาร)" },
+      zipHint: "ไฟล์ ZIP รวมสเปรดชีตพร้อมโปสเตอร์และเอกสารยืนยันของภาพยนตร์แต่ละเรื่อง",
+      options: "ตัวเลือก",
+      includeScores: "รวมคะแนนการประเมิน",
+      includeNotes: "รวมหมายเหตุผู้ดูแล",
+      startDate: "วันที่เริ่มต้น",
+      endDate: "วันที่สิ้นสุด",
+      categories: "หมวดหมู่",
+      statuses: "สถานะ",
+      allSelected: "ไม่เลือก = ทั้งหมด",
+      categoryLabels: { youth: "เยาวชน", future: "อนาคต", world: "โลก" },
+      statusLabels: {
+        draft: "ร่าง",
+        submitted: "ส่งแล้ว",
+        'under-review': "กำลังพิจารณา",
+        accepted: "ผ่าน",
+        rejected: "ไม่ผ่าน"
+      },
+      schedule: "กำหนดเวลาเริ่ม",
+      scheduleHint: "เว้นว่างเพื่อเริ่มทันที",
+      request: "เริ่มส่งออก",
+      requestSuccess: "เพิ่มการส่งออกเข้าคิวแล้ว",
+      requestError: "ไม่สามารถสร้างการส่งออกได้",
+      noColumns: "เลือกอย่างน้อยหนึ่งคอลัมน์",
+      jobs: "ประวัติการส่งออก",
+      noJobs: "ยังไม่มีการส่งออก",
+      jobStatus: {
+        queued: "รอคิว",
+        processing: "กำลังดำเนินการ",
+        complete: "เสร็จสิ้น",
+        failed: "ล้มเหลว",
+        cancelled: "ยกเลิก"
+      },
+      requestedBy: "ขอโดย",
+      scheduled: "เริ่มเวลา",
+      completed: "เสร็จเมื่อ",
+      download: "ดาวน์โหลด",
+      downloadError: "ไม่สามารถดาวน์โหลดไฟล์ได้",
+      cancel: "ยกเลิก",
+      cancelSuccess: "ยกเลิกการส่งออกแล้ว",
+      cancelError: "ไม่สามารถยกเลิกการส่งออกได้",
+      loadError: "ไม่สามารถโหลดรายการส่งออกได้",
+      loading: "กำลังโหลด..."
+    },
+    en: {
+      pageTitle: "Exports",
+      subtitle: "Run application exports in the background and download them when ready",
+      newExport: "New Export",
+      format: "File Format",
+      formats: { csv: "CSV", excel: "Excel (.xlsx)", zip: "ZIP (Excel + posters + documents)" },
+      zipHint: "The ZIP bundle holds the spreadsheet plus each film's poster and proof documents",
+      options: "Options",
+      includeScores: "Include Evaluation Scores",
+      includeNotes: "Include Admin Notes",
+      startDate: "Start Date",
+      endDate: "End Date",
+      categories: "Categories",
+      statuses: "Statuses",
+      allSelected: "None selected = all",
+      categoryLabels: { youth: "Youth", future: "Future", world: "World" },
+      statusLabels: {
+        draft: "Draft",
+        submitted: "Submitted",
+        'under-review': "Under Review",
+        accepted: "Accepted",
+        rejected: "Rejected"
+      },
+      schedule: "Start At",
+      scheduleHint: "Leave empty to start right away",
+      request: "Start Export",
+      requestSuccess: "Export added to the queue",
+      requestError: "Unable to request the export",
+      noColumns: "Choose at least one column",
+      jobs: "Export History",
+      noJobs: "No exports yet",
+      jobStatus: {
+        queued: "Queued",
+        processing: "Processing",
+        complete: "Complete",
+        failed: "Failed",
+        cancelled: "Cancelled"
+      },
+      requestedBy: "Requested by",
+      scheduled: "Starts",
+      completed: "Completed",
+      download: "Download",
+      downloadError: "Unable to download the file",
+      cancel: "Cancel",
+      cancelSuccess: "Export cancelled",
+      cancelError: "Unable to cancel the export",
+      loadError: "Unable to load exports",
+      loading: "Loading..."
+    }
+  };
+
+  const currentContent = content[currentLanguage];
+
+  useEffect(() => {
+    const unsubscribe = exportJobService.subscribeToJobs((jobList) => {
+      setJobs(jobList);
+      setLoading(false);
+    }, () => {
+      setLoading(false);
+      setLoadFailed(true);
+    });
+    return unsubscribe;
+  }, []);
+
+  const toggleValue = (values: string[], value: string) =>
+    values.includes(value) ? values.filter(item => item !== value) : [...values, value];
+
+  const handleRequest = async () => {
+    if (!user) return;
+    if (columns.length === 0) {
+      showError(currentContent.noColumns);
+      return;
+    }
+
+    setIsRequesting(true);
+    try {
+      await exportJobService.requestExport({
+        requestedBy: user.uid,
+        requestedByName: user.displayName || user.email || 'Admin',
+        format,
+        columns,
+        includeScores,
+        includeNotes,
+        categories,
+        statuses,
+        dateRange: startDate || endDate ? {
+          start: startDate ? new Date(startDate) : undefined,
+          end: endDate ? new Date(`${endDate}T23:59:59`) : undefined
+        } : undefined,
+        scheduledFor: scheduledFor ? new Date(scheduledFor) : undefined
+      });
+      setScheduledFor('');
+      showSuccess(currentContent.requestSuccess);
+    } catch (err) {
+      console.error('Error requesting export:', err);
+      showError(currentContent.requestError);
+    } finally {
+      setIsRequesting(false);
+    }
+  };
+
+  const handleDownload = async (job: ExportJob) => {
+    if (!job.filePath) return;
+
+    setBusyJobId(job.id);
+    try {
+      window.open(await exportJobService.getDownloadUrl(job.filePath), '_blank');
+    } catch (err) {
+      console.error('Error downloading export:', err);
+      showError(currentContent.downloadError);
+    } finally {
+      setBusyJobId(null);
+    }
+  };
+
+  const handleCancel = async (job: ExportJob) => {
+    setBusyJobId(job.id);
+    try {
+      await exportJobService.cancelJob(job.id);
+      showSuccess(currentContent.cancelSuccess);
+    } catch (err) {
+      console.error('Error cancelling export:', err);
+      showError(currentContent.cancelError);
+    } finally {
+      setBusyJobId(null);
+    }
+  };
+
+  const statusStyle = (status: ExportJobStatus) => {
+    if (status === 'complete') return 'bg-green-500/20 text-green-400 border-green-500/30';
+    if (status === 'failed') return 'bg-red-500/20 text-red-400 border-red-500/30';
+    if (status === 'processing') return 'bg-blue-500/20 text-blue-400 border-blue-500/30';
+    if (status === 'cancelled') return 'bg-white/10 text-white/50 border-white/20';
+    return 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30';
+  };
+
+  const chipClass = (selected: boolean) => `px-3 py-1.5 rounded-lg border text-sm transition-colors ${
+    selected
+      ? 'bg-[#FCB283] border-[#FCB283] text-white'
+      : 'bg-white/10 border-white/20 text-white/80 hover:border-[#FCB283]/50'
+  }`;
+
+  const inputClass = 'w-full px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white focus:border-[#FCB283] focus:outline-none';
+
+  return (
+    <div className="space-y-6 sm:space-y-8">
+      <AdminZoneHeader
+        title={currentContent.pageTitle}
+        subtitle={currentContent.subtitle}
+        onSidebarToggle={onSidebarToggle || (() => {})}
+      />
+
+      {/* New Export */}
+      <div className="glass-container rounded-2xl p-6 sm:p-8 space-y-6">
+        <h3 className={`text-xl ${getClass('header')} text-white flex items-center space-x-2`}>
+          <Archive className="w-5 h-5 text-[#FCB283]" />
+          <span>{currentContent.newExport}</span>
+        </h3>
+
+        <div>
+          <h4 className={`${getClass('subtitle')} text-white mb-3 flex items-center space-x-2`}>
+            <FileText className="w-4 h-4 text-[#FCB283]" />
+            <span>{currentContent.format}</span>
+          </h4>
+          <div className="flex flex-wrap gap-2">
+            {FORMATS.map(formatOption => (
+              <button
+                key={formatOption}
+                onClick={() => setFormat(formatOption)}
+                className={`px-4 py-2 rounded-lg text-sm transition-colors ${getClass('body')} ${
+                  format === formatOption
+                    ? 'bg-gradient-to-r from-[#AA4626] to-[#FCB283] text-white'
+                    : 'bg-white/10 text-white/70 hover:bg-white/20'
+                }`}
+              >
+                {currentContent.formats[formatOption]}
+              </button>
+            ))}
+          </div>
+          {format === 'zip' && (
+            <p className={`${getClass('body')} text-white/50 text-xs mt-2`}>{currentContent.zipHint}</p>
+          )}
+        </div>
+
+        <div>
+          <h4 className={`${getClass('subtitle')} text-white mb-3 flex items-center space-x-2`}>
+            <Filter className="w-4 h-4 text-[#FCB283]" />
+            <span>{currentContent.options}</span>
+          </h4>
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-6">
+              <label className={`flex items-center space-x-2 ${getClass('body')} text-white/80 text-sm cursor-pointer`}>
+                <input
+                  type="checkbox"
+                  checked={includeScores}
+                  onChange={(e) => setIncludeScores(e.target.checked)}
+                  className="accent-[#FCB283]"
+                />
+                <span>{currentContent.includeScores}</span>
+              </label>
+              <label className={`flex items-center space-x-2 ${getClass('body')} text-white/80 text-sm cursor-pointer`}>
+                <input
+                  type="checkbox"
+                  checked={includeNotes}
+                  onChange={(e) => setIncludeNotes(e.target.checked)}
+                  className="accent-[#FCB283]"
+                />
+                <span>{currentContent.includeNotes}</span>
+              </label>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <label className={`block text-sm ${getClass('body')} text-white/80`}>
+                <span className="block mb-2">{currentContent.startDate}</span>
+                <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className={inputClass} />
+              </label>
+              <label className={`block text-sm ${getClass('body')} text-white/80`}>
+                <span className="block mb-2">{currentContent.endDate}</span>
+                <input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} className={inputClass} />
+              </label>
+            </div>
+
+            <div>
+              <p className={`text-sm ${getClass('body')} text-white/80 mb-2`}>
+                {currentContent.categories} <span className="text-white/50">· {currentContent.allSelected}</span>
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {CATEGORIES.map(category => (
+                  <button
+                    key={category}
+                    onClick={() => setCategories(prev => toggleValue(prev, category))}
+                    className={chipClass(categories.includes(category))}
+                  >
+                    {currentContent.categoryLabels[category]}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <p className={`text-sm ${getClass('body')} text-white/80 mb-2`}>
+                {currentContent.statuses} <span className="text-white/50">· {currentContent.allSelected}</span>
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {STATUSES.map(status => (
+                  <button
+                    key={status}
+                    onClick={() => setStatuses(prev => toggleValue(prev, status))}
+                    className={chipClass(statuses.includes(status))}
+                  >
+                    {currentContent.statusLabels[status]}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <ExportTemplateEditor
+          target="applications"
+          columns={columns}
+          onColumnsChange={setColumns}
+          settings={{ format: format === 'csv' ? 'csv' : 'excel', includeScores, includeNotes }}
+          onApplySettings={(settings) => {
+            // PDF presets keep the current format; jobs only produce CSV, Excel or ZIP
+            if (settings.format !== 'pdf') setFormat(settings.format);
+            setIncludeScores(settings.includeScores);
+            setIncludeNotes(settings.includeNotes);
+          }}
+          disabled={isRequesting}
+        />
+
+        <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+          <label className={`block text-sm ${getClass('body')} text-white/80`}>
+            <span className="flex items-center space-x-2 mb-2">
+              <Calendar className="w-4 h-4" />
+              <span>{currentContent.schedule}</span>
+            </span>
+            <input
+              type="datetime-local"
+              value={scheduledFor}
+              min={toDateTimeInputValue(new Date())}
+              onChange={(e) => setScheduledFor(e.target.value)}
+              className={inputClass}
+            />
+            <span className="block text-xs text-white/50 mt-1">{currentContent.scheduleHint}</span>
+          </label>
+          <button
+            onClick={handleRequest}
+            disabled={isRequesting || !user}
+            className="flex items-center justify-center space-x-2 px-4 py-2 bg-gradient-to-r from-[#AA4626] to-[#FCB283] rounded-lg text-white text-sm disabled:opacity-50"
+          >
+            {scheduledFor ? <Clock className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+            <span>{currentContent.request}</span>
+          </button>
+        </div>
+      </div>
+
+      {/* Jobs */}
+      <div className="glass-container rounded-2xl p-6 sm:p-8">
+        <h3 className={`text-xl ${getClass('header')} text-white mb-6`}>{currentContent.jobs}</h3>
+
+        {loading ? (
+          <div className="text-center py-12">
+            <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-[#FCB283] mb-4"></div>
+            <p className={`${getClass('body')} text-white/80`}>{currentContent.loading}</p>
+          </div>
+        ) : loadFailed ? (
+          <p className={`${getClass('body')} text-red-400 text-center py-6`}>{currentContent.loadError}</p>
+        ) : jobs.length === 0 ? (
+          <p className={`${getClass('body')} text-white/60 text-center py-6`}>{currentContent.noJobs}</p>
+        ) : (
+          <div className="space-y-3">
+            {jobs.map(job => {
+              const isBusy = busyJobId === job.id;
+
+              return (
+                <div key={job.id} className="glass-card p-4 rounded-xl">
+                  <div className="flex flex-col lg:flex-row lg:items-center gap-3">
+                    <div className="flex items-center space-x-2 flex-1 min-w-0">
+                      <span className={`${getClass('subtitle')} text-white truncate`}>
+                        {job.fileName || currentContent.formats[job.format]}
+                      </span>
+                      <span className={`px-2 py-0.5 rounded-full text-xs border whitespace-nowrap ${statusStyle(job.status)}`}>
+                        {currentContent.jobStatus[job.status]}
+                      </span>
+                      {job.fileSize !== undefined && (
+                        <span className={`${getClass('body')} text-white/50 text-xs whitespace-nowrap`}>
+                          {formatFileSize(job.fileSize)}
+                        </span>
+                      )}
+                    </div>
+
+                    <div className="flex items-center gap-2">
+                      {job.status === 'complete' && job.filePath && (
+                        <button
+                          onClick={() => handleDownload(job)}
+                          disabled={isBusy}
+                          className="flex items-center space-x-1 px-3 py-1.5 bg-green-500/20 text-green-400 rounded-lg hover:bg-green-500/30 text-xs disabled:opacity-40"
+                        >
+                          <Download className="w-3 h-3" />
+                          <span>{currentContent.download}</span>
+                        </button>
+                      )}
+                      {job.status === 'queued' && (
+                        <button
+                          onClick={() => handleCancel(job)}
+                          disabled={isBusy}
+                          className="flex items-center space-x-1 px-3 py-1.5 bg-white/10 text-white/70 rounded-lg hover:bg-white/20 text-xs disabled:opacity-40"
+                        >
+                          <XCircle className="w-3 h-3" />
+                          <span>{currentContent.cancel}</span>
+                        </button>
+                      )}
+                    </div>
+                  </div>
+
+                  {job.status === 'processing' && (
+                    <div className="mt-3">
+                      <div className="w-full bg-white/20 rounded-full h-2">
+                        <div
+                          className="bg-gradient-to-r from-[#FCB283] to-[#AA4626] h-2 rounded-full transition-all duration-300"
+                          style={{ width: `${job.progress}%` }}
+                        ></div>
+                      </div>
+                    </div>
+                  )}
+
+                  {(job.message || job.error) && (
+                    <p className={`${getClass('body')} text-xs mt-2 ${job.status === 'failed' ? 'text-red-400' : 'text-white/70'}`}>
+                      {job.status === 'failed' && job.error ? job.error : job.message}
+                    </p>
+                  )}
+
+                  <p className={`${getClass('body')} text-white/50 text-xs mt-2`}>
+                    {currentContent.requestedBy} {job.requestedByName} · {job.createdAt.toLocaleString()}
+                    {job.status === 'queued' && job.scheduledFor > job.createdAt &&
+                      ` · ${currentContent.scheduled} ${job.scheduledFor.toLocaleString()}`}
+                    {job.completedAt && ` · ${currentContent.completed} ${job.completedAt.toLocaleString()}`}
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ExportsPage;
@@ -0,0 +1,653 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useTypography } from '../../utils/typography';
+import { useAuth } from '../auth/AuthContext';
+import { useNotificationHelpers } from '../ui/NotificationContext';
+import { Activity, ActivityFilters, ScheduleEntry, DEFAULT_ACTIVITY_TAGS } from '../../types/activities';
+import { activitiesService } from '../../services/activitiesService';
+import { scheduleBookmarksService } from '../../services/scheduleBookmarksService';
+import { getTagColor } from '../../utils/tagColors';
+import {
+  buildScheduleEntries,
+  getScheduleDays,
+  getScheduleVenues,
+  getScheduleHourRange,
+  getEntryMinutes,
+  findScheduleConflicts
+} from '../../utils/festivalSchedule';
+import {
+  ArrowLeft,
+  Loader2,
+  AlertCircle,
+  AlertTriangle,
+  Bookmark,
+  BookmarkCheck,
+  CalendarDays,
+  Clock,
+  MapPin,
+  Filter,
+  LayoutGrid,
+  ListChecks
+} from 'lucide-react';
+import AnimatedButton from '../ui/AnimatedButton';
+
+// Height of one hour row in the timetable, in pixels
+const HOUR_HEIGHT = 72;
+
+interface EntryLayout {
+  lane: number;
+  lanes: number;
+}
+
+/**
+ * Place overlapping entries of one venue side by side
+ */
+const layoutVenueEntries = (entries: ScheduleEntry[]): Record<string, EntryLayout> => {
+  const laneEnds: number[] = [];
+  const lanesByKey: Record<string, number> = {};
+
+  entries.forEach(entry => {
+    const { start, end } = getEntryMinutes(entry);
+    let lane = laneEnds.findIndex(laneEnd => laneEnd <= start);
+    if (lane === -1) {
+      lane = laneEnds.length;
+      laneEnds.push(end);
+    } else {
+      laneEnds[lane] = end;
+    }
+    lanesByKey[entry.key] = lane;
+  });
+
+  const layout: Record<string, EntryLayout> = {};
+  entries.forEach(entry => {
+    layout[entry.key] = { lane: lanesByKey[entry.key], lanes: laneEnds.length };
+  });
+  return layout;
+};
+
+const FestivalSchedulePage: React.FC = () => {
+  const { i18n } = useTranslation();
+  const { getClass } = useTypography();
+  const { user } = useAuth();
+  const { showError, showInfo } = useNotificationHelpers();
+  const currentLanguage = i18n.language as 'en' | 'th';
+
+  // State management
+  const [activities, setActivities] = useState<Activity[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedDay, setSelectedDay] = useState<string | null>(null);
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [viewMode, setViewMode] = useState<'grid' | 'mine'>('grid');
+  const [bookmarks, setBookmarks] = useState<string[]>([]);
+
+  // Content translations
+  const content = {
+    th: {
+      title: 'ตารางเทศกาล',
+      subtitle: 'ดูกิจกรรมทั้งหมดตามวันและสถานที่ และจัดตารางของคุณเอง',
+      backToActivities: 'กลับไปหน้ากิจกรรม',
+      loading: 'กำลังโหลดตารางเทศกาล...',
+      error: 'ไม่สามารถโหลดตารางเทศกาลได้',
+      tryAgain: 'ลองใหม่อีกครั้ง',
+      fullSchedule: 'ตารางทั้งหมด',
+      mySchedule: 'ตารางของฉัน',
+      filterByTags: 'กรองตามแท็ก',
+      clearFilters: 'ล้างตัวกรอง',
+      noEvents: 'ไม่มีกิจกรรมในวันนี้',
+      noEventsDesc: 'ลองเลือกวันอื่นหรือปรับตัวกรอง',
+      noSchedule: 'ยังไม่มีกิจกรรมในตารางของคุณ',
+      noScheduleDesc: 'กดไอคอนบุ๊กมาร์กบนกิจกรรมในตารางเพื่อเพิ่มลงในตารางของคุณ',
+      addToSchedule: 'เพิ่มลงตารางของฉัน',
+      removeFromSchedule: 'นำออกจากตารางของฉัน',
+      signInToBookmark: 'เข้าสู่ระบบเพื่อบันทึกตารางของคุณ',
+      signIn: 'เข้าสู่ระบบ',
+      conflict: 'เวลาซ้อนกับ',
+      conflictCount: 'รายการที่เวลาซ้อนกัน',
+      bookmarkError: 'ไม่สามารถบันทึกตารางได้',
+      session: 'รอบที่'
+    },
+    en: {
+      title: 'Festival Schedule',
+      subtitle: 'Browse every event by day and venue, and build your own schedule',
+      backToActivities: 'Back to Activities',
+      loading: 'Loading festival schedule...',
+      error: 'Unable to load the festival schedule',
+      tryAgain: 'Try Again',
+      fullSchedule: 'Full Schedule',
+      mySchedule: 'My Schedule',
+      filterByTags: 'Filter by tags',
+      clearFilters: 'Clear Filters',
+      noEvents: 'No events on this day',
+      noEventsDesc: 'Try another day or adjust your filters',
+      noSchedule: 'Your schedule is empty',
+      noScheduleDesc: 'Use the bookmark icon on any event in the timetable to add it here',
+      addToSchedule: 'Add to my schedule',
+      removeFromSchedule: 'Remove from my schedule',
+      signInToBookmark: 'Sign in to save your personal schedule',
+      signIn: 'Sign In',
+      conflict: 'Overlaps with',
+      conflictCount: 'overlapping events',
+      bookmarkError: 'Unable to update your schedule',
+      session: 'Session'
+    }
+  };
+
+  const currentContent = content[currentLanguage];
+
+  // Load activities on component mount
+  useEffect(() => {
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+    loadActivities();
+  }, []);
+
+  // Load the signed-in user's bookmarks
+  useEffect(() => {
+    if (!user) {
+      setBookmarks([]);
+      return;
+    }
+
+    scheduleBookmarksService.getBookmarks(user.uid)
+      .then(setBookmarks)
+      .catch(err => console.error('Error loading schedule bookmarks:', err));
+  }, [user]);
+
+  const loadActivities = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const filters: ActivityFilters = {
+        status: 'published',
+        isPublic: true
+      };
+
+      const response = await activitiesService.getActivities(filters, undefined, 1, 100);
+      setActivities(response.activities);
+    } catch (err) {
+      console.error('Error loading schedule:', err);
+      setError(currentContent.error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const entries = useMemo(() => buildScheduleEntries(activities), [activities]);
+  const days = useMemo(() => getScheduleDays(entries), [entries]);
+
+  // Open on today's tab during the festival, otherwise on the first day
+  useEffect(() => {
+    if (days.length === 0 || (selectedDay && days.includes(selectedDay))) return;
+    const today = new Date().toISOString().slice(0, 10);
+    setSelectedDay(days.includes(today) ? today : days[0]);
+  }, [days, selectedDay]);
+
+  // Only offer tags that are used by at least one activity
+  const availableTags = useMemo(
+    () => DEFAULT_ACTIVITY_TAGS.filter(tag => activities.some(activity => activity.tags.includes(tag.id))),
+    [activities]
+  );
+
+  const filteredEntries = useMemo(
+    () => selectedTags.length === 0
+      ? entries
+      : entries.filter(entry => selectedTags.some(tag => entry.activity.tags.includes(tag))),
+    [entries, selectedTags]
+  );
+
+  const dayEntries = useMemo(
+    () => filteredEntries.filter(entry => entry.date === selectedDay),
+    [filteredEntries, selectedDay]
+  );
+  const venues = useMemo(() => getScheduleVenues(dayEntries), [dayEntries]);
+  const { startHour, endHour } = useMemo(() => getScheduleHourRange(dayEntries), [dayEntries]);
+  const venueLayouts = useMemo(() => {
+    const layouts: Record<string, EntryLayout> = {};
+    venues.forEach(venue => {
+      Object.assign(layouts, layoutVenueEntries(dayEntries.filter(entry => entry.venueName === venue)));
+    });
+    return layouts;
+  }, [venues, dayEntries]);
+
+  // Conflicts are only checked between the user's own bookmarks
+  const bookmarkedEntries = useMemo(
+    () => entries.filter(entry => bookmarks.includes(entry.key)),
+    [entries, bookmarks]
+  );
+  const conflicts = useMemo(() => findScheduleConflicts(bookmarkedEntries), [bookmarkedEntries]);
+  const conflictCount = Object.keys(conflicts).length;
+
+  const entriesByKey = useMemo(() => {
+    const map: Record<string, ScheduleEntry> = {};
+    entries.forEach(entry => { map[entry.key] = entry; });
+    return map;
+  }, [entries]);
+
+  // Format a YYYY-MM-DD day for display
+  const formatDay = (date: string, options: Intl.DateTimeFormatOptions) =>
+    new Date(`${date}T00:00:00`).toLocaleDateString(currentLanguage === 'th' ? 'th-TH' : 'en-US', options);
+
+  const formatHour = (hour: number) => `${(hour % 24).toString().padStart(2, '0')}:00`;
+
+  const getEntryTitle = (entry: ScheduleEntry) => {
+    if (!entry.session) return entry.activity.name;
+    const sessionIndex = (entry.activity.sessions || []).findIndex(s => s.id === entry.session?.id) + 1;
+    return `${entry.activity.name} · ${entry.session.title || `${currentContent.session} ${sessionIndex}`}`;
+  };
+
+  const getTagLabel = (tagId: string) => {
+    const tag = DEFAULT_ACTIVITY_TAGS.find(t => t.id === tagId);
+    return tag ? tag[currentLanguage] : tagId;
+  };
+
+  // Handle tag toggle
+  const toggleTag = (tagId: string) => {
+    setSelectedTags(prev =>
+      prev.includes(tagId)
+        ? prev.filter(t => t !== tagId)
+        : [...prev, tagId]
+    );
+  };
+
+  // Add or remove an entry from the user's schedule, rolling back on failure
+  const toggleBookmark = async (entryKey: string) => {
+    if (!user) {
+      showInfo(currentContent.signInToBookmark);
+      return;
+    }
+
+    const bookmarked = !bookmarks.includes(entryKey);
+    const previous = bookmarks;
+    setBookmarks(bookmarked ? [...bookmarks, entryKey] : bookmarks.filter(key => key !== entryKey));
+
+    try {
+      await scheduleBookmarksService.setBookmarked(user.uid, entryKey, bookmarked);
+    } catch (err) {
+      console.error('Error updating schedule bookmark:', err);
+      setBookmarks(previous);
+      showError(currentContent.bookmarkError);
+    }
+  };
+
+  const handleActivityClick = (activityId: string) => {
+    window.location.hash = `#activity/${activityId}`;
+  };
+
+  const handleBackToActivities = () => {
+    window.location.hash = '#activities';
+  };
+
+  const renderBookmarkButton = (entry: ScheduleEntry, className = '') => {
+    const isBookmarked = bookmarks.includes(entry.key);
+    return (
+      <button
+        type="button"
+        onClick={(e) => {
+          e.stopPropagation();
+          toggleBookmark(entry.key);
+        }}
+        className={`p-1 rounded transition-colors ${isBookmarked ? 'text-[#FCB283]' : 'text-white/50 hover:text-[#FCB283]'} ${className}`}
+        title={isBookmarked ? currentContent.removeFromSchedule : currentContent.addToSchedule}
+      >
+        {isBookmarked ? <BookmarkCheck className="w-4 h-4" /> : <Bookmark className="w-4 h-4" />}
+      </button>
+    );
+  };
+
+  const renderConflictNote = (entry: ScheduleEntry) => {
+    const conflictKeys = conflicts[entry.key];
+    if (!conflictKeys) return null;
+    return (
+      <div className={`flex items-start gap-1.5 text-xs text-red-300 ${getClass('body')}`}>
+        <AlertTriangle className="w-3.5 h-3.5 mt-0.5 flex-shrink-0" />
+        <span>
+          {currentContent.conflict}{' '}
+          {conflictKeys
+            .map(key => entriesByKey[key])
+            .filter(Boolean)
+            .map(other => `${getEntryTitle(other)} (${other.startTime}-${other.endTime})`)
+            .join(', ')}
+        </span>
+      </div>
+    );
+  };
+
+  // Loading state
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-[#110D16] text-white">
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-16">
+          <div className="text-center">
+            <Loader2 className="w-12 h-12 animate-spin text-[#FCB283] mx-auto mb-4" />
+            <p className={`${getClass('body')} text-white/60`}>
+              {currentContent.loading}
+            </p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // Error state
+  if (error) {
+    return (
+      <div className="min-h-screen bg-[#110D16] text-white">
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-16">
+          <div className="text-center max-w-md mx-auto">
+            <AlertCircle className="w-16 h-16 text-red-400 mx-auto mb-4" />
+            <h1 className={`text-2xl ${getClass('header')} text-white mb-4`}>
+              {error}
+            </h1>
+            <div className="space-y-3">
+              <AnimatedButton
+                variant="outline"
+                size="medium"
+                onClick={loadActivities}
+              >
+                {currentContent.tryAgain}
+              </AnimatedButton>
+              <AnimatedButton
+                variant="primary"
+                size="medium"
+                onClick={handleBackToActivities}
+              >
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                {currentContent.backToActivities}
+              </AnimatedButton>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-[#110D16] text-white">
+      {/* Header */}
+      <div className="bg-gradient-to-b from-[#110D16] to-[#1A1625] py-16">
+        <div className="container mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between mb-8">
+            <AnimatedButton
+              variant="outline"
+              size="medium"
+              onClick={handleBackToActivities}
+            >
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              {currentContent.backToActivities}
+            </AnimatedButton>
+          </div>
+
+          <div className="text-center max-w-3xl mx-auto">
+            <h1 className={`text-4xl sm:text-5xl lg:text-6xl ${getClass('header')} text-white mb-6`}>
+              {currentContent.title}
+            </h1>
+            <p className={`text-lg sm:text-xl ${getClass('body')} text-white/80`}>
+              {currentContent.subtitle}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* View Toggle */}
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+          <div className="flex bg-white/10 rounded-lg p-1">
+            <button
+              onClick={() => setViewMode('grid')}
+              className={`flex items-center gap-2 px-4 py-2 rounded-md transition-colors ${getClass('menu')} ${
+                viewMode === 'grid' ? 'bg-[#FCB283] text-white' : 'text-white/60 hover:text-white'
+              }`}
+            >
+              <LayoutGrid className="w-4 h-4" />
+              {currentContent.fullSchedule}
+            </button>
+            <button
+              onClick={() => setViewMode('mine')}
+              className={`flex items-center gap-2 px-4 py-2 rounded-md transition-colors ${getClass('menu')} ${
+                viewMode === 'mine' ? 'bg-[#FCB283] text-white' : 'text-white/60 hover:text-white'
+              }`}
+            >
+              <ListChecks className="w-4 h-4" />
+              {currentContent.mySchedule}
+              {bookmarkedEntries.length > 0 && (
+                <span className="px-2 py-0.5 rounded-full bg-white/20 text-xs">{bookmarkedEntries.length}</span>
+              )}
+            </button>
+          </div>
+
+          {conflictCount > 0 && (
+            <div className={`flex items-center gap-2 px-3 py-2 rounded-lg bg-red-500/20 border border-red-500/30 text-red-300 text-sm ${getClass('body')}`}>
+              <AlertTriangle className="w-4 h-4" />
+              {conflictCount} {currentContent.conflictCount}
+            </div>
+          )}
+        </div>
+
+        {viewMode === 'grid' ? (
+          <>
+            {/* Day Tabs */}
+            <div className="flex gap-2 overflow-x-auto pb-2 mb-6">
+              {days.map(day => (
+                <button
+                  key={day}
+                  onClick={() => setSelectedDay(day)}
+                  className={`flex-shrink-0 px-4 py-2 rounded-lg border transition-colors ${getClass('menu')} ${
+                    selectedDay === day
+                      ? 'bg-[#FCB283] border-[#FCB283] text-white'
+                      : 'bg-white/5 border-white/20 text-white/70 hover:border-[#FCB283]/50'
+                  }`}
+                >
+                  <div className="text-xs uppercase">{formatDay(day, { weekday: 'short' })}</div>
+                  <div className="text-sm">{formatDay(day, { month: 'short', day: 'numeric' })}</div>
+                </button>
+              ))}
+            </div>
+
+            {/* Tag Filters */}
+            {availableTags.length > 0 && (
+              <div className="glass-container rounded-xl p-4 mb-6">
+                <div className="flex items-center gap-2 mb-3">
+                  <Filter className="w-4 h-4 text-white/60" />
+                  <span className={`${getClass('body')} text-white/80 text-sm`}>
+                    {currentContent.filterByTags}
+                  </span>
+                  {selectedTags.length > 0 && (
+                    <button
+                      onClick={() => setSelectedTags([])}
+                      className={`ml-auto text-xs text-[#FCB283] hover:underline ${getClass('body')}`}
+                    >
+                      {currentContent.clearFilters}
+                    </button>
+                  )}
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {availableTags.map(tag => (
+                    <button
+                      key={tag.id}
+                      onClick={() => toggleTag(tag.id)}
+                      className={`px-3 py-1.5 rounded-full text-sm ${getClass('menu')} transition-colors ${
+                        selectedTags.includes(tag.id)
+                          ? 'bg-[#FCB283] text-white'
+                          : 'bg-white/10 text-white/70 hover:bg-white/20'
+                      }`}
+                    >
+                      {tag[currentLanguage]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Timetable */}
+            {dayEntries.length === 0 ? (
+              <div className="text-center py-16">
+                <CalendarDays className="w-16 h-16 text-white/20 mx-auto mb-4" />
+                <h3 className={`text-xl ${getClass('header')} text-white mb-2`}>
+                  {currentContent.noEvents}
+                </h3>
+                <p className={`${getClass('body')} text-white/60`}>
+                  {currentContent.noEventsDesc}
+                </p>
+              </div>
+            ) : (
+              <div className="glass-container rounded-xl overflow-x-auto">
+                <div className="flex min-w-max">
+                  {/* Time Axis */}
+                  <div className="w-16 flex-shrink-0 border-r border-white/10">
+                    <div className="h-12 border-b border-white/10" />
+                    <div className="relative" style={{ height: (endHour - startHour) * HOUR_HEIGHT }}>
+                      {Array.from({ length: endHour - startHour }, (_, i) => (
+                        <div
+                          key={i}
+                          className={`absolute left-0 right-0 px-2 text-xs text-white/50 ${getClass('body')}`}
+                          style={{ top: i * HOUR_HEIGHT }}
+                        >
+                          {formatHour(startHour + i)}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+
+                  {/* Venue Columns */}
+                  {venues.map(venue => (
+                    <div key={venue} className="w-56 flex-shrink-0 border-r border-white/10 last:border-r-0">
+                      <div className={`h-12 px-3 flex items-center gap-2 border-b border-white/10 text-sm text-white ${getClass('menu')}`}>
+                        <MapPin className="w-4 h-4 text-[#FCB283] flex-shrink-0" />
+                        <span className="truncate" title={venue}>{venue}</span>
+                      </div>
+                      <div className="relative" style={{ height: (endHour - startHour) * HOUR_HEIGHT }}>
+                        {Array.from({ length: endHour - startHour }, (_, i) => (
+                          <div
+                            key={i}
+                            className="absolute left-0 right-0 border-t border-white/5"
+                            style={{ top: i * HOUR_HEIGHT }}
+                          />
+                        ))}
+
+                        {dayEntries.filter(entry => entry.venueName === venue).map(entry => {
+                          const { start, end } = getEntryMinutes(entry);
+                          const { lane, lanes } = venueLayouts[entry.key];
+                          const isBookmarked = bookmarks.includes(entry.key);
+                          const hasConflict = !!conflicts[entry.key];
+
+                          return (
+                            <div
+                              key={entry.key}
+                              onClick={() => handleActivityClick(entry.activity.id)}
+                              className={`absolute p-2 rounded-lg border cursor-pointer overflow-hidden transition-colors ${
+                                hasConflict
+                                  ? 'bg-red-500/20 border-red-400 ring-1 ring-red-400'
+                                  : isBookmarked
+                                    ? 'bg-[#FCB283]/20 border-[#FCB283]'
+                                    : 'bg-white/10 border-white/20 hover:border-[#FCB283]/60'
+                              }`}
+                              style={{
+                                top: ((start - startHour * 60) / 60) * HOUR_HEIGHT + 1,
+                                height: ((end - start) / 60) * HOUR_HEIGHT - 2,
+                                left: `calc(${(lane / lanes) * 100}% + 2px)`,
+                                width: `calc(${100 / lanes}% - 4px)`
+                              }}
+                              title={getEntryTitle(entry)}
+                            >
+                              <div className="flex items-start justify-between gap-1">
+                                <div className={`text-xs text-white/70 ${getClass('body')}`}>
+                                  {entry.startTime} - {entry.endTime}
+                                </div>
+                                {renderBookmarkButton(entry, '-mt-1 -mr-1')}
+                              </div>
+                              <div className={`text-sm text-white leading-tight line-clamp-2 ${getClass('menu')}`}>
+                                {getEntryTitle(entry)}
+                              </div>
+                              {entry.activity.tags.length > 0 && (
+                                <span className={`inline-block mt-1 px-1.5 py-0.5 rounded border text-[10px] ${getTagColor(entry.activity.tags[0])}`}>
+                                  {getTagLabel(entry.activity.tags[0])}
+                                </span>
+                              )}
+                              {hasConflict && (
+                                <AlertTriangle className="absolute bottom-1.5 right-1.5 w-3.5 h-3.5 text-red-300" />
+                              )}
+                            </div>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </>
+        ) : !user ? (
+          /* Signed-out prompt */
+          <div className="text-center py-16">
+            <ListChecks className="w-16 h-16 text-white/20 mx-auto mb-4" />
+            <h3 className={`text-xl ${getClass('header')} text-white mb-6`}>
+              {currentContent.signInToBookmark}
+            </h3>
+            <AnimatedButton
+              variant="primary"
+              size="medium"
+              onClick={() => { window.location.hash = '#auth/signin'; }}
+            >
+              {currentContent.signIn}
+            </AnimatedButton>
+          </div>
+        ) : bookmarkedEntries.length === 0 ? (
+          <div className="text-center py-16">
+            <Bookmark className="w-16 h-16 text-white/20 mx-auto mb-4" />
+            <h3 className={`text-xl ${getClass('header')} text-white mb-2`}>
+              {currentContent.noSchedule}
+            </h3>
+            <p className={`${getClass('body')} text-white/60`}>
+              {currentContent.noScheduleDesc}
+            </p>
+          </div>
+        ) : (
+          /* My Schedule */
+          <div className="space-y-8">
+            {getScheduleDays(bookmarkedEntries).map(day => (
+              <div key={day}>
+                <h3 className={`text-lg ${getClass('header')} text-[#FCB283] mb-3`}>
+                  {formatDay(day, { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}
+                </h3>
+                <div className="space-y-3">
+                  {bookmarkedEntries.filter(entry => entry.date === day).map(entry => (
+                    <div
+                      key={entry.key}
+                      onClick={() => handleActivityClick(entry.activity.id)}
+                      className={`glass-container rounded-xl p-4 border cursor-pointer transition-colors ${
+                        conflicts[entry.key] ? 'border-red-400' : 'border-white/10 hover:border-[#FCB283]/50'
+                      }`}
+                    >
+                      <div className="flex items-start justify-between gap-4">
+                        <div className="space-y-1.5 min-w-0">
+                          <h4 className={`text-white ${getClass('header')} truncate`}>
+                            {getEntryTitle(entry)}
+                          </h4>
+                          <div className={`flex flex-wrap gap-x-4 gap-y-1 text-sm text-white/70 ${getClass('body')}`}>
+                            <span className="flex items-center gap-1.5">
+                              <Clock className="w-4 h-4 text-[#FCB283]" />
+                              {entry.startTime} - {entry.endTime}
+                            </span>
+                            <span className="flex items-center gap-1.5">
+                              <MapPin className="w-4 h-4 text-[#FCB283]" />
+                              {entry.venueName}
+                            </span>
+                          </div>
+                          {renderConflictNote(entry)}
+                        </div>
+                        {renderBookmarkButton(entry)}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FestivalSchedulePage;
@@ -0,0 +1,447 @@
+import React, { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useTypography } from '../../utils/typography';
+import { AdminApplicationData, JurySubmissionSummary, UserRole } from '../../types/admin.types';
+import { juryAssignmentService } from '../../services/juryAssignmentService';
+import { calculateJurorProgress } from '../../utils/juryAssignment';
+import { useNotificationHelpers } from '../ui/NotificationSystem';
+import AdminZoneHeader from '../layout/AdminZoneHeader';
+import { CheckCircle, Film, RefreshCw, Shuffle, Users, X } from 'lucide-react';
+
+interface JuryAssignmentPageProps {
+  onSidebarToggle?: () => void;
+}
+
+type Category = AdminApplicationData['competitionCategory'];
+
+const CATEGORIES: Category[] = ['youth', 'future', 'world'];
+
+const JuryAssignmentPage: React.FC<JuryAssignmentPageProps> = ({ onSidebarToggle }) => {
+  const { i18n } = useTranslation();
+  const { getClass } = useTypography();
+  const { showSuccess, showError } = useNotificationHelpers();
+  const currentLanguage = i18n.language as 'en' | 'th';
+
+  const [jurors, setJurors] = useState<UserRole[]>([]);
+  const [submissions, setSubmissions] = useState<JurySubmissionSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [category, setCategory] = useState<Category>('youth');
+  const [jurorsPerFilm, setJurorsPerFilm] = useState(3);
+  const [selectedJurorIds, setSelectedJurorIds] = useState<Set<string>>(new Set());
+  const [isAutoAssigning, setIsAutoAssigning] = useState(false);
+  const [updatingSubmissionId, setUpdatingSubmissionId] = useState<string | null>(null);
+
+  const content = {
+    th: {
+      pageTitle: "มอบหมายกรรมการ",
+      subtitle: "มอบหมายภาพยนตร์ให้กรรมการและติดตามความคืบหน้าการให้คะแนน",
+      categories: { youth: "เยาวชน", future: "อนาคต", world: "โลก" },
+      jurorProgress: "ความคืบหน้าของกรรมการ",
+      juror: "กรรมการ",
+      assigned: "ได้รับมอบหมาย",
+      scored: "ให้คะแนนแล้ว",
+      thisCategory: "หมวดนี้",
+      autoAssign: "มอบหมายอัตโนมัติ",
+      autoAssignHint: "กระจายภาพยนตร์ในหมวดนี้ให้กรรมการที่เลือกแบบวนรอบ โดยให้ผู้ที่มีงานน้อยที่สุดก่อน การมอบหมายเดิมจะไม่ถูกเปลี่ยน",
+      jurorsPerFilm: "กรรมการต่อเรื่อง",
+      runAutoAssign: "มอบหมาย",
+      autoAssignDone: (count: number) => `มอบหมายใหม่ ${count} รายการ`,
+      nothingToAssign: "ทุกเรื่องมีกรรมการครบแล้ว",
+      selectJurors: "กรุณาเลือกกรรมการอย่างน้อยหนึ่งคน",
+      films: "ภาพยนตร์",
+      addJuror: "+ เพิ่มกรรมการ",
+      noJurors: "ยังไม่มีผู้ใช้ที่มีบทบาทกรรมการ กำหนดบทบาทได้ที่หน้าจัดการบทบาทผู้ใช้",
+      noFilms: "ไม่มีภาพยนตร์ที่ส่งแล้วในหมวดนี้",
+      unassigned: "ยังไม่มอบหมาย",
+      assignSuccess: "มอบหมายกรรมการแล้ว",
+      unassignSuccess: "นำกรรมการออกแล้ว",
+      updateError: "ไม่สามารถอัปเดตการมอบหมายได้",
+      loading: "กำลังโหลดข้อมูล...",
+      error: "ไม่สามารถโหลดข้อมูลการมอบหมายได้",
+      retry: "ลองใหม่"
+    },
+    en: {
+      pageTitle: "Jury Assignments",
+      subtitle: "Assign films to jurors and track scoring progress",
+      categories: { youth: "Youth", future: "Future", world: "World" },
+      jurorProgress: "Juror Progress",
+      juror: "Juror",
+      assigned: "Assigned",
+      scored: "Scored",
+      thisCategory: "This category",
+      autoAssign: "Auto-assign",
+      autoAssignHint: "Spread this category's films across the selected jurors in round-robin order, least-loaded first. Existing assignments are kept.",
+      jurorsPerFilm: "Jurors per film",
+      runAutoAssign: "Assign",
+      autoAssignDone: (count: number) => `${count} new assignments made`,
+      nothingToAssign: "Every film already has enough jurors",
+      selectJurors: "Select at least one juror",
+      films: "Films",
+      addJuror: "+ Add juror",
+      noJurors: "No users have the jury role yet. Assign it from Role Management.",
+      noFilms: "No submitted films in this category",
+      unassigned: "Unassigned",
+      assignSuccess: "Juror assigned",
+      unassignSuccess: "Juror removed",
+      updateError: "Unable to update assignment",
+      loading: "Loading assignments...",
+      error: "Unable to load jury assignments",
+      retry: "Retry"
+    }
+  };
+
+  const currentContent = content[currentLanguage];
+
+  const loadData = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [jurorList, submissionList] = await Promise.all([
+        juryAssignmentService.getJurors(),
+        juryAssignmentService.getAssignableSubmissions()
+      ]);
+      setJurors(jurorList);
+      setSubmissions(submissionList);
+      setSelectedJurorIds(prev => prev.size > 0 ? prev : new Set(jurorList.map(juror => juror.id)));
+    } catch (err) {
+      console.error('Error loading jury assignments:', err);
+      setError(currentContent.error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const jurorName = (jurorId: string) => {
+    const juror = jurors.find(j => j.id === jurorId);
+    return juror ? juror.displayName || juror.name : jurorId;
+  };
+
+  const toggleJurorSelection = (jurorId: string) => {
+    setSelectedJurorIds(prev => {
+      const next = new Set(prev);
+      if (next.has(jurorId)) {
+        next.delete(jurorId);
+      } else {
+        next.add(jurorId);
+      }
+      return next;
+    });
+  };
+
+  const updateLocalAssignments = (submissionId: string, update: (assigned: string[]) => string[]) => {
+    setSubmissions(prev => prev.map(submission =>
+      submission.id === submissionId
+        ? { ...submission, assignedReviewers: update(submission.assignedReviewers) }
+        : submission
+    ));
+  };
+
+  const handleAssign = async (submissionId: string, jurorId: string) => {
+    if (!jurorId) return;
+
+    setUpdatingSubmissionId(submissionId);
+    try {
+      await juryAssignmentService.assignJurors(submissionId, [jurorId]);
+      updateLocalAssignments(submissionId, assigned => [...assigned, jurorId]);
+      showSuccess(currentContent.assignSuccess);
+    } catch (err) {
+      console.error('Error assigning juror:', err);
+      showError(currentContent.updateError);
+    } finally {
+      setUpdatingSubmissionId(null);
+    }
+  };
+
+  const handleUnassign = async (submissionId: string, jurorId: string) => {
+    setUpdatingSubmissionId(submissionId);
+    try {
+      await juryAssignmentService.unassignJuror(submissionId, jurorId);
+      updateLocalAssignments(submissionId, assigned => assigned.filter(id => id !== jurorId));
+      showSuccess(currentContent.unassignSuccess);
+    } catch (err) {
+      console.error('Error removing juror:', err);
+      showError(currentContent.updateError);
+    } finally {
+      setUpdatingSubmissionId(null);
+    }
+  };
+
+  const handleAutoAssign = async () => {
+    // Keep the order of the juror list so the rotation is stable between runs
+    const jurorIds = jurors.map(juror => juror.id).filter(id => selectedJurorIds.has(id));
+    if (jurorIds.length === 0) {
+      showError(currentContent.selectJurors);
+      return;
+    }
+
+    setIsAutoAssigning(true);
+    try {
+      const count = await juryAssignmentService.autoAssignCategory(category, jurorIds, jurorsPerFilm);
+      showSuccess(count > 0 ? currentContent.autoAssignDone(count) : currentContent.nothingToAssign);
+      setSubmissions(await juryAssignmentService.getAssignableSubmissions());
+    } catch (err) {
+      console.error('Error auto-assigning jurors:', err);
+      showError(currentContent.updateError);
+    } finally {
+      setIsAutoAssigning(false);
+    }
+  };
+
+  const categorySubmissions = submissions.filter(submission => submission.competitionCategory === category);
+  const progress = calculateJurorProgress(jurors, submissions);
+
+  if (loading) {
+    return (
+      <div className="space-y-6 sm:space-y-8">
+        <AdminZoneHeader
+          title={currentContent.pageTitle}
+          subtitle={currentContent.subtitle}
+          onSidebarToggle={onSidebarToggle || (() => {})}
+        />
+        <div className="text-center py-12">
+          <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-[#FCB283] mb-4"></div>
+          <p className={`${getClass('body')} text-white/80`}>{currentContent.loading}</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 sm:space-y-8">
+      <AdminZoneHeader
+        title={currentContent.pageTitle}
+        subtitle={currentContent.subtitle}
+        onSidebarToggle={onSidebarToggle || (() => {})}
+      >
+        <button
+          onClick={loadData}
+          className="p-2 rounded-lg bg-white/10 hover:bg-white/20 text-white transition-colors"
+        >
+          <RefreshCw className="w-4 h-4" />
+        </button>
+      </AdminZoneHeader>
+
+      {error && (
+        <div className="glass-container rounded-2xl p-6 text-center">
+          <p className={`${getClass('body')} text-red-400 mb-4`}>{error}</p>
+          <button
+            onClick={loadData}
+            className="px-4 py-2 bg-white/10 hover:bg-white/20 rounded-lg text-white transition-colors"
+          >
+            {currentContent.retry}
+          </button>
+        </div>
+      )}
+
+      {/* Category Tabs */}
+      <div className="flex flex-wrap gap-2">
+        {CATEGORIES.map(cat => (
+          <button
+            key={cat}
+            onClick={() => setCategory(cat)}
+            className={`px-4 py-2 rounded-lg text-sm transition-colors ${getClass('body')} ${
+              category === cat
+                ? 'bg-gradient-to-r from-[#AA4626] to-[#FCB283] text-white'
+                : 'bg-white/10 text-white/70 hover:bg-white/20'
+            }`}
+          >
+            {currentContent.categories[cat]} ({submissions.filter(s => s.competitionCategory === cat).length})
+          </button>
+        ))}
+      </div>
+
+      {jurors.length === 0 ? (
+        <div className="glass-container rounded-2xl p-8 text-center">
+          <Users className="w-12 h-12 text-white/40 mx-auto mb-4" />
+          <p className={`${getClass('body')} text-white/60`}>{currentContent.noJurors}</p>
+        </div>
+      ) : (
+        <>
+          {/* Juror Progress */}
+          <div className="glass-container rounded-2xl p-6 sm:p-8">
+            <h3 className={`text-xl ${getClass('header')} text-white mb-6 flex items-center space-x-2`}>
+              <Users className="w-5 h-5 text-[#FCB283]" />
+              <span>{currentContent.jurorProgress}</span>
+            </h3>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-white/60 border-b border-white/10">
+                    <th className="py-2 pr-4 font-medium">{currentContent.juror}</th>
+                    <th className="py-2 pr-4 font-medium">{currentContent.thisCategory}</th>
+                    <th className="py-2 pr-4 font-medium">{currentContent.assigned}</th>
+                    <th className="py-2 pr-4 font-medium">{currentContent.scored}</th>
+                    <th className="py-2 font-medium w-1/3"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {progress.map(juror => {
+                    const percent = juror.assigned > 0 ? Math.round((juror.scored / juror.assigned) * 100) : 0;
+                    const categoryProgress = juror.byCategory[category];
+                    return (
+                      <tr key={juror.jurorId} className="border-b border-white/5">
+                        <td className="py-3 pr-4">
+                          <p className={`${getClass('body')} text-white`}>{juror.jurorName}</p>
+                          <p className={`${getClass('body')} text-white/50 text-xs`}>{juror.jurorEmail}</p>
+                        </td>
+                        <td className={`py-3 pr-4 ${getClass('body')} text-white/80`}>
+                          {categoryProgress.scored}/{categoryProgress.assigned}
+                        </td>
+                        <td className={`py-3 pr-4 ${getClass('body')} text-white/80`}>{juror.assigned}</td>
+                        <td className={`py-3 pr-4 ${getClass('body')} text-white/80`}>{juror.scored}</td>
+                        <td className="py-3">
+                          <div className="flex items-center space-x-2">
+                            <div className="flex-1 h-2 bg-white/10 rounded-full overflow-hidden">
+                              <div
+                                className="h-full bg-gradient-to-r from-[#AA4626] to-[#FCB283]"
+                                style={{ width: `${percent}%` }}
+                              />
+                            </div>
+                            <span className={`${getClass('body')} text-white/60 text-xs w-10 text-right`}>{percent}%</span>
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* Auto-assign */}
+          <div className="glass-container rounded-2xl p-6 sm:p-8">
+            <h3 className={`text-xl ${getClass('header')} text-white mb-2 flex items-center space-x-2`}>
+              <Shuffle className="w-5 h-5 text-[#FCB283]" />
+              <span>{currentContent.autoAssign} – {currentContent.categories[category]}</span>
+            </h3>
+            <p className={`${getClass('body')} text-white/60 text-sm mb-4`}>{currentContent.autoAssignHint}</p>
+
+            <div className="flex flex-wrap gap-2 mb-4">
+              {jurors.map(juror => (
+                <label
+                  key={juror.id}
+                  className={`flex items-center space-x-2 px-3 py-1.5 rounded-lg border cursor-pointer text-sm ${
+                    selectedJurorIds.has(juror.id)
+                      ? 'bg-[#FCB283]/20 border-[#FCB283]/40 text-white'
+                      : 'bg-white/5 border-white/10 text-white/60'
+                  }`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={selectedJurorIds.has(juror.id)}
+                    onChange={() => toggleJurorSelection(juror.id)}
+                    className="accent-[#FCB283]"
+                  />
+                  <span>{juror.displayName || juror.name}</span>
+                </label>
+              ))}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-4">
+              <label className={`flex items-center space-x-2 ${getClass('body')} text-white/80 text-sm`}>
+                <span>{currentContent.jurorsPerFilm}</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={jurors.length}
+                  value={jurorsPerFilm}
+                  onChange={(e) => setJurorsPerFilm(Math.max(1, parseInt(e.target.value, 10) || 1))}
+                  className="w-20 px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white focus:border-[#FCB283] focus:outline-none"
+                />
+              </label>
+              <button
+                onClick={handleAutoAssign}
+                disabled={isAutoAssigning || categorySubmissions.length === 0}
+                className="flex items-center space-x-2 px-4 py-2 bg-gradient-to-r from-[#AA4626] to-[#FCB283] rounded-lg text-white text-sm disabled:opacity-50"
+              >
+                <Shuffle className={`w-4 h-4 ${isAutoAssigning ? 'animate-pulse' : ''}`} />
+                <span>{currentContent.runAutoAssign}</span>
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+
+      {/* Films */}
+      <div className="glass-container rounded-2xl p-6 sm:p-8">
+        <h3 className={`text-xl ${getClass('header')} text-white mb-6 flex items-center space-x-2`}>
+          <Film className="w-5 h-5 text-[#FCB283]" />
+          <span>{currentContent.films}</span>
+          <span className="px-2 py-1 bg-[#FCB283]/20 text-[#FCB283] rounded-full text-sm">
+            {categorySubmissions.length}
+          </span>
+        </h3>
+
+        {categorySubmissions.length === 0 ? (
+          <p className={`${getClass('body')} text-white/60 text-center py-8`}>{currentContent.noFilms}</p>
+        ) : (
+          <div className="space-y-3">
+            {categorySubmissions.map(submission => {
+              const availableJurors = jurors.filter(juror => !submission.assignedReviewers.includes(juror.id));
+              const isUpdating = updatingSubmissionId === submission.id;
+
+              return (
+                <div
+                  key={submission.id}
+                  className="glass-card p-4 rounded-xl flex flex-col lg:flex-row lg:items-center gap-3"
+                >
+                  <button
+                    onClick={() => window.location.hash = `#admin/application/${submission.id}`}
+                    className={`${getClass('body')} text-white hover:text-[#FCB283] text-left lg:w-1/3 truncate`}
+                  >
+                    {currentLanguage === 'th' && submission.filmTitleTh ? submission.filmTitleTh : submission.filmTitle}
+                  </button>
+
+                  <div className="flex-1 flex flex-wrap items-center gap-2">
+                    {submission.assignedReviewers.length === 0 && (
+                      <span className={`${getClass('body')} text-white/40 text-sm`}>{currentContent.unassigned}</span>
+                    )}
+                    {submission.assignedReviewers.map(jurorId => (
+                      <span
+                        key={jurorId}
+                        className="flex items-center space-x-1 px-2 py-1 rounded-full bg-white/10 text-white/80 text-xs"
+                      >
+                        {submission.scoredBy.includes(jurorId) && <CheckCircle className="w-3 h-3 text-green-400" />}
+                        <span>{jurorName(jurorId)}</span>
+                        <button
+                          onClick={() => handleUnassign(submission.id, jurorId)}
+                          disabled={isUpdating}
+                          className="hover:text-red-400 disabled:opacity-50"
+                        >
+                          <X className="w-3 h-3" />
+                        </button>
+                      </span>
+                    ))}
+                  </div>
+
+                  {availableJurors.length > 0 && (
+                    <select
+                      value=""
+                      disabled={isUpdating}
+                      onChange={(e) => handleAssign(submission.id, e.target.value)}
+                      className="px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white text-sm focus:border-[#FCB283] focus:outline-none disabled:opacity-50"
+                    >
+                      <option value="" className="bg-[#110D16]">{currentContent.addJuror}</option>
+                      {availableJurors.map(juror => (
+                        <option key={juror.id} value={juror.id} className="bg-[#110D16]">
+                          {juror.displayName || juror.name}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default JuryAssignmentPage;
@@ -0,0 +1,244 @@
+import React, { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useTypography } from '../../utils/typography';
+import { useAuth } from '../auth/AuthContext';
+import { JurySubmissionSummary } from '../../types/admin.types';
+import { juryAssignmentService } from '../../services/juryAssignmentService';
+import AdminZoneHeader from '../layout/AdminZoneHeader';
+import { CheckCircle, Clock, Film, RefreshCw, EyeOff } from 'lucide-react';
+
+interface JuryQueuePageProps {
+  onSidebarToggle?: () => void;
+}
+
+type QueueFilter = 'all' | 'pending' | 'scored';
+
+const JuryQueuePage: React.FC<JuryQueuePageProps> = ({ onSidebarToggle }) => {
+  const { i18n } = useTranslation();
+  const { getClass } = useTypography();
+  const { user } = useAuth();
+  const currentLanguage = i18n.language as 'en' | 'th';
+
+  const [submissions, setSubmissions] = useState<JurySubmissionSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState<QueueFilter>('pending');
+
+  const content = {
+    th: {
+      pageTitle: "ภาพยนตร์ที่ต้องพิจารณา",
+      subtitle: "ภาพยนตร์ที่ได้รับมอบหมายให้คุณให้คะแนน",
+      blindNotice: "การพิจารณาแบบปิดชื่อ: ข้อมูลผู้ส่ง โรงเรียน และช่องทางติดต่อจะถูกซ่อนไว้",
+      progress: "ความคืบหน้า",
+      scoredOf: (scored: number, total: number) => `ให้คะแนนแล้ว ${scored} จาก ${total} เรื่อง`,
+      all: "ทั้งหมด",
+      pending: "รอให้คะแนน",
+      scored: "ให้คะแนนแล้ว",
+      minutes: "นาที",
+      review: "เปิดพิจารณา",
+      loading: "กำลังโหลดรายการ...",
+      error: "ไม่สามารถโหลดรายการได้",
+      retry: "ลองใหม่",
+      empty: "ยังไม่มีภาพยนตร์ที่ได้รับมอบหมาย",
+      emptyFilter: "ไม่มีภาพยนตร์ในหมวดนี้",
+      categories: { youth: "เยาวชน", future: "อนาคต", world: "โลก" }
+    },
+    en: {
+      pageTitle: "My Review Queue",
+      subtitle: "Films assigned to you for scoring",
+      blindNotice: "Blind review: submitter names, schools and contact details are hidden",
+      progress: "Progress",
+      scoredOf: (scored: number, total: number) => `${scored} of ${total} films scored`,
+      all: "All",
+      pending: "To Score",
+      scored: "Scored",
+      minutes: "min",
+      review: "Review",
+      loading: "Loading your queue...",
+      error: "Unable to load your queue",
+      retry: "Retry",
+      empty: "No films have been assigned to you yet",
+      emptyFilter: "No films in this view",
+      categories: { youth: "Youth", future: "Future", world: "World" }
+    }
+  };
+
+  const currentContent = content[currentLanguage];
+
+  const loadQueue = async () => {
+    if (!user) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      setSubmissions(await juryAssignmentService.getAssignedSubmissions(user.uid));
+    } catch (err) {
+      console.error('Error loading jury queue:', err);
+      setError(currentContent.error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadQueue();
+  }, [user?.uid]);
+
+  const isScored = (submission: JurySubmissionSummary) => !!user && submission.scoredBy.includes(user.uid);
+  const scoredCount = submissions.filter(isScored).length;
+  const progressPercent = submissions.length > 0 ? Math.round((scoredCount / submissions.length) * 100) : 0;
+
+  const visibleSubmissions = submissions.filter(submission => {
+    if (filter === 'pending') return !isScored(submission);
+    if (filter === 'scored') return isScored(submission);
+    return true;
+  });
+
+  const filterOptions: { id: QueueFilter; label: string; count: number }[] = [
+    { id: 'pending', label: currentContent.pending, count: submissions.length - scoredCount },
+    { id: 'scored', label: currentContent.scored, count: scoredCount },
+    { id: 'all', label: currentContent.all, count: submissions.length }
+  ];
+
+  return (
+    <div className="space-y-6 sm:space-y-8">
+      <AdminZoneHeader
+        title={currentContent.pageTitle}
+        subtitle={currentContent.subtitle}
+        onSidebarToggle={onSidebarToggle || (() => {})}
+      >
+        <button
+          onClick={loadQueue}
+          disabled={loading}
+          className="p-2 rounded-lg bg-white/10 hover:bg-white/20 text-white transition-colors disabled:opacity-50"
+        >
+          <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+        </button>
+      </AdminZoneHeader>
+
+      {/* Blind Review Notice */}
+      <div className="flex items-center space-x-3 px-4 py-3 rounded-xl bg-blue-500/10 border border-blue-500/30">
+        <EyeOff className="w-5 h-5 text-blue-400 flex-shrink-0" />
+        <p className={`${getClass('body')} text-blue-200 text-sm`}>
+          {currentContent.blindNotice}
+        </p>
+      </div>
+
+      {/* Progress */}
+      <div className="glass-container rounded-2xl p-6">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className={`${getClass('subtitle')} text-white`}>{currentContent.progress}</h3>
+          <span className={`${getClass('body')} text-white/70 text-sm`}>
+            {currentContent.scoredOf(scoredCount, submissions.length)}
+          </span>
+        </div>
+        <div className="w-full h-3 bg-white/10 rounded-full overflow-hidden">
+          <div
+            className="h-full bg-gradient-to-r from-[#AA4626] to-[#FCB283] transition-all duration-500"
+            style={{ width: `${progressPercent}%` }}
+          />
+        </div>
+      </div>
+
+      {/* Filter Tabs */}
+      <div className="flex flex-wrap gap-2">
+        {filterOptions.map(option => (
+          <button
+            key={option.id}
+            onClick={() => setFilter(option.id)}
+            className={`px-4 py-2 rounded-lg text-sm transition-colors ${getClass('body')} ${
+              filter === option.id
+                ? 'bg-gradient-to-r from-[#AA4626] to-[#FCB283] text-white'
+                : 'bg-white/10 text-white/70 hover:bg-white/20'
+            }`}
+          >
+            {option.label} ({option.count})
+          </button>
+        ))}
+      </div>
+
+      {/* Queue */}
+      {loading ? (
+        <div className="text-center py-12">
+          <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-[#FCB283] mb-4"></div>
+          <p className={`${getClass('body')} text-white/80`}>{currentContent.loading}</p>
+        </div>
+      ) : error ? (
+        <div className="glass-container rounded-2xl p-8 text-center">
+          <p className={`${getClass('body')} text-red-400 mb-4`}>{error}</p>
+          <button
+            onClick={loadQueue}
+            className="px-4 py-2 bg-white/10 hover:bg-white/20 rounded-lg text-white transition-colors"
+          >
+            {currentContent.retry}
+          </button>
+        </div>
+      ) : visibleSubmissions.length === 0 ? (
+        <div className="glass-container rounded-2xl p-12 text-center">
+          <Film className="w-12 h-12 text-white/40 mx-auto mb-4" />
+          <p className={`${getClass('body')} text-white/60`}>
+            {submissions.length === 0 ? currentContent.empty : currentContent.emptyFilter}
+          </p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+          {visibleSubmissions.map(submission => {
+            const scored = isScored(submission);
+            const title = currentLanguage === 'th' && submission.filmTitleTh ? submission.filmTitleTh : submission.filmTitle;
+
+            return (
+              <button
+                key={submission.id}
+                onClick={() => window.location.hash = `#admin/application/${submission.id}`}
+                className="glass-container rounded-2xl overflow-hidden text-left hover:border-[#FCB283]/50 border border-transparent transition-colors group"
+              >
+                <div className="aspect-[2/3] max-h-72 w-full bg-white/5 overflow-hidden">
+                  {submission.posterUrl ? (
+                    <img
+                      src={submission.posterUrl}
+                      alt={title}
+                      className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-300"
+                    />
+                  ) : (
+                    <div className="w-full h-full flex items-center justify-center">
+                      <Film className="w-12 h-12 text-white/30" />
+                    </div>
+                  )}
+                </div>
+                <div className="p-4 space-y-3">
+                  <h4 className={`${getClass('header')} text-white text-lg line-clamp-2`}>{title}</h4>
+                  <div className="flex flex-wrap items-center gap-2 text-xs">
+                    <span className="px-2 py-1 rounded-full bg-[#FCB283]/20 text-[#FCB283]">
+                      {currentContent.categories[submission.competitionCategory]}
+                    </span>
+                    <span className={`${getClass('body')} text-white/60`}>
+                      {submission.duration} {currentContent.minutes}
+                    </span>
+                  </div>
+                  <div className="flex items-center justify-between">
+                    {scored ? (
+                      <span className="flex items-center space-x-1 text-green-400 text-sm">
+                        <CheckCircle className="w-4 h-4" />
+                        <span>{currentContent.scored}</span>
+                      </span>
+                    ) : (
+                      <span className="flex items-center space-x-1 text-yellow-400 text-sm">
+                        <Clock className="w-4 h-4" />
+                        <span>{currentContent.pending}</span>
+                      </span>
+                    )}
+                    <span className={`${getClass('body')} text-[#FCB283] text-sm`}>
+                      {currentContent.review} →
+                    </span>
+                  </div>
+                </div>
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default JuryQueuePage;
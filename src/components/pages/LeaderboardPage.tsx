@@ -0,0 +1,351 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useTypography } from '../../utils/typography';
+import { AdminApplicationData, LeaderboardOptions } from '../../types/admin.types';
+import { leaderboardService, CategoryScoreData } from '../../services/leaderboardService';
+import ExportService from '../../services/exportService';
+import { buildLeaderboard, MIN_SCORES_FOR_OUTLIER_DROP } from '../../utils/scoreAggregation';
+import { getRubricForCategory } from '../../utils/scoringRubrics';
+import { useNotificationHelpers } from '../ui/NotificationSystem';
+import AdminZoneHeader from '../layout/AdminZoneHeader';
+import { ChevronDown, ChevronRight, Download, FileText, RefreshCw, Trophy } from 'lucide-react';
+
+interface LeaderboardPageProps {
+  onSidebarToggle?: () => void;
+}
+
+type Category = AdminApplicationData['competitionCategory'];
+
+const CATEGORIES: Category[] = ['youth', 'future', 'world'];
+
+const LeaderboardPage: React.FC<LeaderboardPageProps> = ({ onSidebarToggle }) => {
+  const { i18n } = useTranslation();
+  const { getClass } = useTypography();
+  const { showSuccess, showError } = useNotificationHelpers();
+  const currentLanguage = i18n.language as 'en' | 'th';
+
+  const [category, setCategory] = useState<Category>('youth');
+  const [scoreData, setScoreData] = useState<CategoryScoreData>({ films: [], records: [] });
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [options, setOptions] = useState<LeaderboardOptions>({ normalize: true, dropOutliers: false });
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+  const [isExporting, setIsExporting] = useState(false);
+
+  const content = {
+    th: {
+      pageTitle: "ตารางจัดอันดับ",
+      subtitle: "รวมคะแนนกรรมการและจัดอันดับภาพยนตร์ในแต่ละหมวด",
+      categories: { youth: "เยาวชน", future: "อนาคต", world: "โลก" },
+      normalize: "ปรับคะแนนตามกรรมการ (z-score)",
+      normalizeHint: "ชดเชยกรรมการที่ให้คะแนนเข้มงวดหรือใจดีกว่าคนอื่น",
+      dropOutliers: "ตัดคะแนนสูงสุดและต่ำสุด",
+      dropOutliersHint: `ใช้กับเรื่องที่มีคะแนนอย่างน้อย ${MIN_SCORES_FOR_OUTLIER_DROP} คะแนน`,
+      rank: "อันดับ",
+      film: "ภาพยนตร์",
+      scores: "คะแนน",
+      mean: "เฉลี่ย",
+      normalized: "ปรับแล้ว",
+      stdDev: "ส่วนเบี่ยงเบน",
+      breakdown: "คะแนนเฉลี่ยรายเกณฑ์",
+      dropped: "ตัดออก",
+      notScored: "ยังไม่มีคะแนน",
+      exportCSV: "ส่งออก CSV",
+      exportPDF: "ส่งออก PDF",
+      exportSuccess: "ส่งออกตารางจัดอันดับแล้ว",
+      exportError: "ไม่สามารถส่งออกได้",
+      loading: "กำลังรวมคะแนน...",
+      error: "ไม่สามารถโหลดคะแนนได้",
+      retry: "ลองใหม่",
+      empty: "ไม่มีภาพยนตร์ที่ส่งแล้วในหมวดนี้"
+    },
+    en: {
+      pageTitle: "Leaderboard",
+      subtitle: "Aggregate jury scores and rank films per category",
+      categories: { youth: "Youth", future: "Future", world: "World" },
+      normalize: "Normalize per juror (z-score)",
+      normalizeHint: "Corrects for jurors who score harsher or more leniently than others",
+      dropOutliers: "Drop highest and lowest score",
+      dropOutliersHint: `Applies to films with at least ${MIN_SCORES_FOR_OUTLIER_DROP} scores`,
+      rank: "Rank",
+      film: "Film",
+      scores: "Scores",
+      mean: "Mean",
+      normalized: "Normalized",
+      stdDev: "Std Dev",
+      breakdown: "Per-criterion averages",
+      dropped: "dropped",
+      notScored: "Not scored yet",
+      exportCSV: "Export CSV",
+      exportPDF: "Export PDF",
+      exportSuccess: "Leaderboard exported",
+      exportError: "Unable to export leaderboard",
+      loading: "Aggregating scores...",
+      error: "Unable to load scores",
+      retry: "Retry",
+      empty: "No submitted films in this category"
+    }
+  };
+
+  const currentContent = content[currentLanguage];
+
+  const loadScores = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setScoreData(await leaderboardService.getCategoryScores(category));
+    } catch (err) {
+      console.error('Error loading leaderboard:', err);
+      setError(currentContent.error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadScores();
+  }, [category]);
+
+  const rubric = getRubricForCategory(category);
+  const entries = useMemo(
+    () => buildLeaderboard(scoreData.films, scoreData.records, options),
+    [scoreData, options]
+  );
+
+  const toggleExpanded = (submissionId: string) => {
+    setExpandedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(submissionId)) {
+        next.delete(submissionId);
+      } else {
+        next.add(submissionId);
+      }
+      return next;
+    });
+  };
+
+  const handleExport = async (exportFormat: 'csv' | 'pdf') => {
+    setIsExporting(true);
+    try {
+      const exportService = new ExportService();
+      await exportService.exportLeaderboard(category, entries, options, exportFormat);
+      showSuccess(currentContent.exportSuccess);
+    } catch (err) {
+      console.error('Error exporting leaderboard:', err);
+      showError(currentContent.exportError);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const getRankStyle = (rank: number | null) => {
+    if (rank === 1) return 'bg-yellow-500/20 text-yellow-300 border-yellow-500/40';
+    if (rank === 2) return 'bg-gray-300/20 text-gray-200 border-gray-300/40';
+    if (rank === 3) return 'bg-orange-500/20 text-orange-300 border-orange-500/40';
+    return 'bg-white/10 text-white/70 border-white/20';
+  };
+
+  return (
+    <div className="space-y-6 sm:space-y-8">
+      <AdminZoneHeader
+        title={currentContent.pageTitle}
+        subtitle={currentContent.subtitle}
+        onSidebarToggle={onSidebarToggle || (() => {})}
+      >
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => handleExport('csv')}
+            disabled={isExporting || entries.length === 0}
+            className="flex items-center space-x-2 px-3 py-2 bg-white/10 hover:bg-white/20 rounded-lg text-white text-sm transition-colors disabled:opacity-50"
+          >
+            <Download className="w-4 h-4" />
+            <span>{currentContent.exportCSV}</span>
+          </button>
+          <button
+            onClick={() => handleExport('pdf')}
+            disabled={isExporting || entries.length === 0}
+            className="flex items-center space-x-2 px-3 py-2 bg-white/10 hover:bg-white/20 rounded-lg text-white text-sm transition-colors disabled:opacity-50"
+          >
+            <FileText className="w-4 h-4" />
+            <span>{currentContent.exportPDF}</span>
+          </button>
+          <button
+            onClick={loadScores}
+            disabled={loading}
+            className="p-2 rounded-lg bg-white/10 hover:bg-white/20 text-white transition-colors disabled:opacity-50"
+          >
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+      </AdminZoneHeader>
+
+      {/* Category Tabs */}
+      <div className="flex flex-wrap gap-2">
+        {CATEGORIES.map(cat => (
+          <button
+            key={cat}
+            onClick={() => setCategory(cat)}
+            className={`px-4 py-2 rounded-lg text-sm transition-colors ${getClass('body')} ${
+              category === cat
+                ? 'bg-gradient-to-r from-[#AA4626] to-[#FCB283] text-white'
+                : 'bg-white/10 text-white/70 hover:bg-white/20'
+            }`}
+          >
+            {currentContent.categories[cat]}
+          </button>
+        ))}
+      </div>
+
+      {/* Aggregation Options */}
+      <div className="glass-container rounded-2xl p-6 grid grid-cols-1 md:grid-cols-2 gap-4">
+        <label className="flex items-start space-x-3 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={options.normalize}
+            onChange={(e) => setOptions(prev => ({ ...prev, normalize: e.target.checked }))}
+            className="mt-1 accent-[#FCB283]"
+          />
+          <div>
+            <p className={`${getClass('body')} text-white`}>{currentContent.normalize}</p>
+            <p className={`${getClass('body')} text-white/50 text-xs`}>{currentContent.normalizeHint}</p>
+          </div>
+        </label>
+        <label className="flex items-start space-x-3 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={options.dropOutliers}
+            onChange={(e) => setOptions(prev => ({ ...prev, dropOutliers: e.target.checked }))}
+            className="mt-1 accent-[#FCB283]"
+          />
+          <div>
+            <p className={`${getClass('body')} text-white`}>{currentContent.dropOutliers}</p>
+            <p className={`${getClass('body')} text-white/50 text-xs`}>{currentContent.dropOutliersHint}</p>
+          </div>
+        </label>
+      </div>
+
+      {/* Ranking Table */}
+      {loading ? (
+        <div className="text-center py-12">
+          <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-[#FCB283] mb-4"></div>
+          <p className={`${getClass('body')} text-white/80`}>{currentContent.loading}</p>
+        </div>
+      ) : error ? (
+        <div className="glass-container rounded-2xl p-8 text-center">
+          <p className={`${getClass('body')} text-red-400 mb-4`}>{error}</p>
+          <button
+            onClick={loadScores}
+            className="px-4 py-2 bg-white/10 hover:bg-white/20 rounded-lg text-white transition-colors"
+          >
+            {currentContent.retry}
+          </button>
+        </div>
+      ) : entries.length === 0 ? (
+        <div className="glass-container rounded-2xl p-12 text-center">
+          <Trophy className="w-12 h-12 text-white/40 mx-auto mb-4" />
+          <p className={`${getClass('body')} text-white/60`}>{currentContent.empty}</p>
+        </div>
+      ) : (
+        <div className="glass-container rounded-2xl p-6 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-white/60 border-b border-white/10">
+                <th className="py-2 pr-4 font-medium w-16">{currentContent.rank}</th>
+                <th className="py-2 pr-4 font-medium">{currentContent.film}</th>
+                <th className="py-2 pr-4 font-medium">{currentContent.scores}</th>
+                <th className="py-2 pr-4 font-medium">{currentContent.mean}</th>
+                {options.normalize && <th className="py-2 pr-4 font-medium">{currentContent.normalized}</th>}
+                <th className="py-2 font-medium">{currentContent.stdDev}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map(entry => {
+                const isExpanded = expandedIds.has(entry.submissionId);
+                const title = currentLanguage === 'th' && entry.filmTitleTh ? entry.filmTitleTh : entry.filmTitle;
+
+                return (
+                  <React.Fragment key={entry.submissionId}>
+                    <tr className="border-b border-white/5">
+                      <td className="py-3 pr-4">
+                        <span className={`inline-flex items-center justify-center w-9 h-9 rounded-full border text-sm font-bold ${getRankStyle(entry.rank)}`}>
+                          {entry.rank ?? '–'}
+                        </span>
+                      </td>
+                      <td className="py-3 pr-4">
+                        <div className="flex items-center space-x-2">
+                          {entry.scoreCount > 0 && (
+                            <button
+                              onClick={() => toggleExpanded(entry.submissionId)}
+                              className="text-white/60 hover:text-white"
+                            >
+                              {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                            </button>
+                          )}
+                          <button
+                            onClick={() => window.location.hash = `#admin/application/${entry.submissionId}`}
+                            className={`${getClass('body')} text-white hover:text-[#FCB283] text-left`}
+                          >
+                            {title}
+                          </button>
+                        </div>
+                      </td>
+                      {entry.scoreCount === 0 ? (
+                        <td colSpan={options.normalize ? 4 : 3} className={`py-3 ${getClass('body')} text-white/40`}>
+                          {currentContent.notScored}
+                        </td>
+                      ) : (
+                        <>
+                          <td className={`py-3 pr-4 ${getClass('body')} text-white/80`}>
+                            {entry.scoreCount}
+                            {entry.droppedCount > 0 && (
+                              <span className="text-white/40 text-xs"> (+{entry.droppedCount} {currentContent.dropped})</span>
+                            )}
+                          </td>
+                          <td className={`py-3 pr-4 ${getClass('body')} text-white`}>
+                            {entry.meanTotal.toFixed(1)}/{entry.maxScore}
+                            <span className="text-white/50 text-xs"> ({entry.meanPercentage.toFixed(1)}%)</span>
+                          </td>
+                          {options.normalize && (
+                            <td className={`py-3 pr-4 ${getClass('body')} text-[#FCB283]`}>
+                              {entry.normalizedScore.toFixed(1)}%
+                            </td>
+                          )}
+                          <td className={`py-3 ${getClass('body')} text-white/80`}>
+                            ±{entry.standardDeviation.toFixed(1)}
+                          </td>
+                        </>
+                      )}
+                    </tr>
+                    {isExpanded && (
+                      <tr className="border-b border-white/5 bg-white/5">
+                        <td></td>
+                        <td colSpan={options.normalize ? 5 : 4} className="py-3">
+                          <p className={`${getClass('subtitle')} text-white/70 text-xs mb-2`}>{currentContent.breakdown}</p>
+                          <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+                            {rubric.criteria.map(criterion => (
+                              <div key={criterion.id} className="glass-card p-2 rounded-lg">
+                                <p className={`${getClass('body')} text-white/60 text-xs`}>
+                                  {criterion.icon} {criterion.label[currentLanguage]}
+                                </p>
+                                <p className={`${getClass('body')} text-white`}>
+                                  {entry.criterionAverages[criterion.id]?.toFixed(1) ?? '–'}
+                                  <span className="text-white/40 text-xs">/{criterion.max}</span>
+                                </p>
+                              </div>
+                            ))}
+                          </div>
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LeaderboardPage;
@@ -6,13 +6,14 @@ import { collection, query, where, getDocs, orderBy } from 'firebase/firestore';
 import { db } from '../../firebase';
 import AnimatedButton from '../ui/AnimatedButton';
 import UserZoneHeader from '../layout/UserZoneHeader';
+import { isDecisionLetterStatus } from '../../utils/decisionLetters';
 
 interface ApplicationData {
   id: string;
   userId: string;
   applicationId: string;
   competitionCategory: 'youth' | 'future' | 'world';
-  status: 'draft' | 'submitted';
+  status: 'draft' | 'submitted' | 'under-review' | 'accepted' | 'rejected';
   filmTitle: string;
   filmTitleTh?: string;
   filmLanguages?: string[];
@@ -58,7 +59,7 @@ const MyApplicationsPage: React.FC<MyApplicationsPageProps> = ({ onSidebarToggle
         const q = query(
           collection(db, 'submissions'),
           where('userId', '==', user.uid),
-          where('status', 'in', ['draft', 'submitted']),
+          where('status', 'in', ['draft', 'submitted', 'under-review', 'accepted', 'rejected']),
           orderBy('lastModified', 'desc')
         );
 
@@ -110,6 +111,10 @@ const MyApplicationsPage: React.FC<MyApplicationsPageProps> = ({ onSidebarToggle
       loading: "กำลังโหลด...",
       draft: "ร่าง",
       submitted: "ส่งแล้ว",
+      underReview: "กำลังพิจารณา",
+      accepted: "ได้รับคัดเลือก",
+      rejected: "ไม่ผ่านการคัดเลือก",
+      letterAvailable: "มีจดหมายแจ้งผลแล้ว",
       lastModified: "แก้ไขล่าสุด",
       submittedOn: "ส่งเมื่อ",
       viewDetails: "ดูรายละเอียด",
@@ -129,6 +134,10 @@ const MyApplicationsPage: React.FC<MyApplicationsPageProps> = ({ onSidebarToggle
       loading: "Loading...",
       draft: "Draft",
       submitted: "Submitted",
+      underReview: "Under Review",
+      accepted: "Selected",
+      rejected: "Not Selected",
+      letterAvailable: "Decision letter available",
       lastModified: "Last Modified",
       submittedOn: "Submitted",
       viewDetails: "View Details",
@@ -153,6 +162,21 @@ const MyApplicationsPage: React.FC<MyApplicationsPageProps> = ({ onSidebarToggle
     });
   };
 
+  const getStatusBadge = (status: ApplicationData['status']) => {
+    switch (status) {
+      case 'accepted':
+        return { label: currentContent.accepted, className: 'bg-green-500/20 text-green-400 border-green-500/30' };
+      case 'rejected':
+        return { label: currentContent.rejected, className: 'bg-red-500/20 text-red-400 border-red-500/30' };
+      case 'under-review':
+        return { label: currentContent.underReview, className: 'bg-blue-500/20 text-blue-400 border-blue-500/30' };
+      case 'submitted':
+        return { label: currentContent.submitted, className: 'bg-green-500/20 text-green-400 border-green-500/30' };
+      default:
+        return { label: currentContent.draft, className: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30' };
+    }
+  };
+
   const getCategoryLogo = (category: string) => {
     const logos = {
       youth: "https://firebasestorage.googleapis.com/v0/b/cifan-c41c6.firebasestorage.app/o/site_files%2Ffest_logos%2FGroup%202.png?alt=media&token=e8be419f-f0b2-4f64-8d7f-c3e8532e2689",
@@ -312,12 +336,8 @@ const MyApplicationsPage: React.FC<MyApplicationsPageProps> = ({ onSidebarToggle
                 
                 {/* Status Badge - Top Right */}
                 <div className="absolute top-3 right-3">
-                  <span className={`px-2 py-1 rounded-full text-xs font-medium border ${
-                    application.status === 'submitted' 
-                      ? 'bg-green-500/20 text-green-400 border-green-500/30' 
-                      : 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30'
-                  }`}>
-                    {application.status === 'submitted' ? currentContent.submitted : currentContent.draft}
+                  <span className={`px-2 py-1 rounded-full text-xs font-medium border ${getStatusBadge(application.status).className}`}>
+                    {getStatusBadge(application.status).label}
                   </span>
                 </div>
 
@@ -346,10 +366,16 @@ const MyApplicationsPage: React.FC<MyApplicationsPageProps> = ({ onSidebarToggle
                   
                   {/* Last Updated Date */}
                   <p className={`text-xs ${getClass('body')} text-white/80`}>
-                    {application.status === 'submitted' ? currentContent.submittedOn : currentContent.lastModified}: {' '}
-                    {formatDate(application.status === 'submitted' ? application.submittedAt : application.lastModified)}
+                    {application.status !== 'draft' ? currentContent.submittedOn : currentContent.lastModified}: {' '}
+                    {formatDate(application.status !== 'draft' ? application.submittedAt : application.lastModified)}
                   </p>
 
+                  {isDecisionLetterStatus(application.status) && (
+                    <p className={`text-xs ${getClass('body')} text-[#FCB283] mt-1`}>
+                      ✉️ {currentContent.letterAvailable}
+                    </p>
+                  )}
+
                   {/* Action Buttons - Hidden by default, shown on hover */}
                   <div className="opacity-0 group-hover:opacity-100 transition-opacity duration-300 flex gap-2">
                     <button
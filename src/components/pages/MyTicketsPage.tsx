@@ -0,0 +1,250 @@
+import React, { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import QRCode from 'qrcode';
+import { useTypography } from '../../utils/typography';
+import { useAuth } from '../auth/AuthContext';
+import { Activity, ActivityTicket } from '../../types/activities';
+import { activitiesService } from '../../services/activitiesService';
+import { activityRegistrationService, occupiesSeat } from '../../services/activityRegistrationService';
+import { Calendar, Clock, MapPin, CheckCircle } from 'lucide-react';
+import AnimatedButton from '../ui/AnimatedButton';
+import UserZoneHeader from '../layout/UserZoneHeader';
+
+interface TicketCardData {
+  ticket: ActivityTicket;
+  activity: Activity | null;
+  qrDataUrl: string;
+}
+
+interface MyTicketsPageProps {
+  onSidebarToggle?: () => void;
+}
+
+const MyTicketsPage: React.FC<MyTicketsPageProps> = ({ onSidebarToggle }) => {
+  const { i18n } = useTranslation();
+  const { getClass } = useTypography();
+  const { user } = useAuth();
+  const currentLanguage = i18n.language as 'en' | 'th';
+
+  const [tickets, setTickets] = useState<TicketCardData[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const content = {
+    th: {
+      pageTitle: 'บัตรเข้างานของฉัน',
+      subtitle: 'แสดง QR Code นี้ที่จุดลงทะเบียนหน้างาน',
+      loading: 'กำลังโหลดบัตรเข้างาน...',
+      error: 'ไม่สามารถโหลดบัตรเข้างานได้',
+      noTickets: 'ยังไม่มีบัตรเข้างาน',
+      noTicketsDesc: 'ลงทะเบียนเวิร์กช็อปหรือรอบฉายเพื่อรับบัตรเข้างาน',
+      browseActivities: 'ดูกิจกรรมทั้งหมด',
+      ticketCode: 'รหัสบัตร',
+      checkedIn: 'เช็คอินแล้ว',
+      unavailableActivity: 'กิจกรรมนี้ไม่เปิดให้ดูแล้ว'
+    },
+    en: {
+      pageTitle: 'My Tickets',
+      subtitle: 'Show this QR code at the check-in desk',
+      loading: 'Loading tickets...',
+      error: 'Unable to load your tickets',
+      noTickets: 'No tickets yet',
+      noTicketsDesc: 'Register for a workshop or screening to receive a ticket',
+      browseActivities: 'Browse Activities',
+      ticketCode: 'Ticket code',
+      checkedIn: 'Checked in',
+      unavailableActivity: 'This activity is no longer available'
+    }
+  };
+
+  const currentContent = content[currentLanguage];
+
+  // Scroll to top when component mounts
+  useEffect(() => {
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  }, []);
+
+  // Fetch the user's tickets
+  useEffect(() => {
+    const fetchTickets = async () => {
+      if (!user) {
+        setLoading(false);
+        return;
+      }
+
+      try {
+        const registrations = await activityRegistrationService.getRegistrationsForUser(user.uid);
+        const ticketData = await Promise.all(
+          registrations
+            .filter(registration => occupiesSeat(registration.status))
+            .map(async (registration): Promise<TicketCardData> => {
+              const ticket = await activityRegistrationService.getTicket(registration.activityId, user.uid);
+              // Unpublished activities are not readable by participants; keep the ticket usable anyway
+              const activity = await activitiesService.getActivityById(registration.activityId).catch(() => null);
+              const qrDataUrl = await QRCode.toDataURL(ticket.payload, { width: 240, margin: 1 });
+              return { ticket, activity, qrDataUrl };
+            })
+        );
+
+        // Upcoming events first
+        ticketData.sort((a, b) => (a.activity?.eventDate || '').localeCompare(b.activity?.eventDate || ''));
+        setTickets(ticketData);
+      } catch (err) {
+        console.error('Error fetching tickets:', err);
+        setError(currentContent.error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchTickets();
+  }, [user]);
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString(currentLanguage === 'th' ? 'th-TH' : 'en-US', {
+      weekday: 'short',
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric'
+    });
+  };
+
+  // Loading State
+  if (loading) {
+    return (
+      <div className="space-y-6 sm:space-y-8">
+        <UserZoneHeader
+          title={currentContent.pageTitle}
+          subtitle={currentContent.subtitle}
+          onSidebarToggle={onSidebarToggle || (() => {})}
+        />
+        <div className="text-center py-12">
+          <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-[#FCB283] mb-4"></div>
+          <p className={`${getClass('body')} text-white/80`}>
+            {currentContent.loading}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  // Error State
+  if (error) {
+    return (
+      <div className="space-y-6 sm:space-y-8">
+        <UserZoneHeader
+          title={currentContent.pageTitle}
+          subtitle={currentContent.subtitle}
+          onSidebarToggle={onSidebarToggle || (() => {})}
+        />
+        <div className="text-center py-12">
+          <div className="text-6xl mb-6">⚠️</div>
+          <h2 className={`text-2xl ${getClass('header')} mb-4 text-white`}>
+            {error}
+          </h2>
+        </div>
+      </div>
+    );
+  }
+
+  // Empty State
+  if (tickets.length === 0) {
+    return (
+      <div className="space-y-6 sm:space-y-8">
+        <UserZoneHeader
+          title={currentContent.pageTitle}
+          subtitle={currentContent.subtitle}
+          onSidebarToggle={onSidebarToggle || (() => {})}
+        />
+        <div className="text-center py-12">
+          <div className="text-6xl mb-6">🎟️</div>
+          <h2 className={`text-2xl ${getClass('header')} mb-4 text-white`}>
+            {currentContent.noTickets}
+          </h2>
+          <p className={`${getClass('body')} text-white/80 mb-8 max-w-md mx-auto`}>
+            {currentContent.noTicketsDesc}
+          </p>
+          <AnimatedButton
+            variant="primary"
+            size="medium"
+            onClick={() => {
+              window.location.hash = '#activities';
+              setTimeout(() => {
+                window.scrollTo({ top: 0, behavior: 'smooth' });
+              }, 100);
+            }}
+          >
+            {currentContent.browseActivities}
+          </AnimatedButton>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6 sm:space-y-8">
+      <UserZoneHeader
+        title={currentContent.pageTitle}
+        subtitle={currentContent.subtitle}
+        onSidebarToggle={onSidebarToggle || (() => {})}
+      />
+
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4 sm:gap-6">
+        {tickets.map(({ ticket, activity, qrDataUrl }) => (
+          <div
+            key={ticket.registration.id}
+            className="glass-container rounded-xl overflow-hidden border border-white/10"
+          >
+            <div className="p-5 border-b border-dashed border-white/20">
+              <h3
+                className={`text-lg ${getClass('header')} text-white mb-3 line-clamp-2 cursor-pointer hover:text-[#FCB283] transition-colors`}
+                onClick={() => { window.location.hash = `#activity/${ticket.registration.activityId}`; }}
+              >
+                {activity ? activity.name : currentContent.unavailableActivity}
+              </h3>
+              {activity && (
+                <div className={`space-y-1.5 text-sm text-white/70 ${getClass('body')}`}>
+                  <div className="flex items-center gap-2">
+                    <Calendar className="w-4 h-4 text-[#FCB283]" />
+                    {formatDate(activity.eventDate)}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Clock className="w-4 h-4 text-[#FCB283]" />
+                    {activity.startTime} - {activity.endTime}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <MapPin className="w-4 h-4 text-[#FCB283]" />
+                    {activity.venueName}
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <div className="p-5 flex flex-col items-center">
+              <div className={`bg-white rounded-lg p-2 ${ticket.registration.status === 'attended' ? 'opacity-40' : ''}`}>
+                <img src={qrDataUrl} alt={ticket.shortCode} className="w-48 h-48" />
+              </div>
+              <div className={`mt-3 text-xs uppercase tracking-wider text-white/50 ${getClass('menu')}`}>
+                {currentContent.ticketCode}
+              </div>
+              <div className="font-mono text-xl text-white tracking-widest">
+                {ticket.shortCode}
+              </div>
+              <div className={`mt-1 text-sm text-white/70 ${getClass('body')}`}>
+                {ticket.registration.userName}
+              </div>
+              {ticket.registration.status === 'attended' && (
+                <div className="mt-3 flex items-center gap-2 text-blue-400 text-sm">
+                  <CheckCircle className="w-4 h-4" />
+                  {currentContent.checkedIn}
+                </div>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default MyTicketsPage;
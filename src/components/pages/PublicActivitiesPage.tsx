@@ -1,9 +1,12 @@
 import React, { useState, useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
 import { useTypography } from '../../utils/typography';
+import { useNotificationHelpers } from '../ui/NotificationContext';
 import { Activity, ActivityFilters } from '../../types/activities';
 import { activitiesService } from '../../services/activitiesService';
 import { getTagColor } from '../../utils/tagColors';
+import { downloadActivitiesCalendar, getActivityCalendarFileName } from '../../utils/icalendar';
+import { getEffectiveCapacity } from '../../utils/activitySessions';
 import { 
   Calendar, 
   MapPin, 
@@ -19,13 +22,17 @@ import {
   ExternalLink,
   Eye,
   Edit,
-  Copy
+  Copy,
+  CalendarPlus,
+  CalendarDays,
+  LayoutGrid
 } from 'lucide-react';
 import AnimatedButton from '../ui/AnimatedButton';
 
 const PublicActivitiesPage: React.FC = () => {
   const { i18n } = useTranslation();
   const { getClass } = useTypography();
+  const { showError } = useNotificationHelpers();
   const currentLanguage = i18n.language as 'en' | 'th';
 
   // State management
@@ -37,6 +44,7 @@ const PublicActivitiesPage: React.FC = () => {
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
   const [sortBy, setSortBy] = useState<'date' | 'name' | 'popularity'>('date');
+  const [isDownloadingCalendar, setIsDownloadingCalendar] = useState(false);
 
   // Content translations
   const content = {
@@ -77,7 +85,12 @@ const PublicActivitiesPage: React.FC = () => {
       clearFilters: 'ล้างตัวกรอง',
       showingResults: 'แสดง',
       of: 'จาก',
-      results: 'ผลลัพธ์'
+      results: 'ผลลัพธ์',
+      addToCalendar: 'เพิ่มลงปฏิทิน',
+      festivalCalendar: 'ปฏิทินเทศกาลทั้งหมด (.ics)',
+      festivalCalendarName: 'CIFAN - กิจกรรมเทศกาล',
+      calendarError: 'ไม่สามารถสร้างไฟล์ปฏิทินได้',
+      festivalSchedule: 'ตารางเทศกาล'
     },
     en: {
       title: 'Activities & Events',
@@ -116,7 +129,12 @@ const PublicActivitiesPage: React.FC = () => {
       clearFilters: 'Clear Filters',
       showingResults: 'Showing',
       of: 'of',
-      results: 'results'
+      results: 'results',
+      addToCalendar: 'Add to Calendar',
+      festivalCalendar: 'Full Festival Calendar (.ics)',
+      festivalCalendarName: 'CIFAN Festival Activities',
+      calendarError: 'Unable to generate the calendar file',
+      festivalSchedule: 'Festival Schedule'
     }
   };
 
@@ -218,12 +236,13 @@ const PublicActivitiesPage: React.FC = () => {
 
   // Check if activity has available spots
   const getAvailabilityInfo = (activity: Activity) => {
-    if (activity.maxParticipants === 0) {
+    const capacity = getEffectiveCapacity(activity);
+    if (capacity === 0) {
       return { status: 'unlimited', text: currentContent.unlimited, color: 'text-green-400' };
     }
     
     const registered = activity.registeredParticipants || 0;
-    const available = activity.maxParticipants - registered;
+    const available = capacity - registered;
     
     if (available <= 0) {
       return { status: 'full', text: currentContent.full, color: 'text-red-400' };
@@ -256,6 +275,25 @@ const PublicActivitiesPage: React.FC = () => {
     window.location.hash = `#activity/${activityId}`;
   };
 
+  // Download a single activity as .ics
+  const handleAddToCalendar = (activity: Activity) => {
+    downloadActivitiesCalendar([activity], activity.name, getActivityCalendarFileName(activity));
+  };
+
+  // Download every public activity, including cancellations, as one .ics
+  const handleDownloadFestivalCalendar = async () => {
+    try {
+      setIsDownloadingCalendar(true);
+      const feedActivities = await activitiesService.getCalendarFeedActivities();
+      downloadActivitiesCalendar(feedActivities, currentContent.festivalCalendarName, 'CIFAN_Festival.ics');
+    } catch (err) {
+      console.error('Error generating festival calendar:', err);
+      showError(currentContent.calendarError);
+    } finally {
+      setIsDownloadingCalendar(false);
+    }
+  };
+
   // Handle back to home
   const handleBackToHome = () => {
     window.location.hash = '#home';
@@ -324,6 +362,31 @@ const PublicActivitiesPage: React.FC = () => {
               <ArrowLeft className="w-4 h-4 mr-2" />
               {currentContent.backToHome}
             </AnimatedButton>
+
+            <div className="flex flex-wrap justify-end gap-3">
+              <AnimatedButton
+                variant="secondary"
+                size="medium"
+                onClick={() => { window.location.hash = '#schedule'; }}
+              >
+                <LayoutGrid className="w-4 h-4 mr-2" />
+                {currentContent.festivalSchedule}
+              </AnimatedButton>
+
+              <AnimatedButton
+                variant="secondary"
+                size="medium"
+                onClick={isDownloadingCalendar ? undefined : handleDownloadFestivalCalendar}
+                className={isDownloadingCalendar ? 'opacity-50 cursor-not-allowed' : ''}
+              >
+                {isDownloadingCalendar ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <CalendarDays className="w-4 h-4 mr-2" />
+                )}
+                {currentContent.festivalCalendar}
+              </AnimatedButton>
+            </div>
           </div>
           
           <div className="text-center max-w-3xl mx-auto">
@@ -551,9 +614,9 @@ const PublicActivitiesPage: React.FC = () => {
                         <div className="flex items-center text-sm text-white/60">
                           <Users className="w-4 h-4 mr-2 flex-shrink-0" />
                           <span>
-                            {activity.maxParticipants === 0 
+                            {getEffectiveCapacity(activity) === 0 
                               ? currentContent.unlimited 
-                              : `${activity.registeredParticipants || 0}/${activity.maxParticipants} ${currentContent.participants}`
+                              : `${activity.registeredParticipants || 0}/${getEffectiveCapacity(activity)} ${currentContent.participants}`
                             }
                           </span>
                         </div>
@@ -597,6 +660,17 @@ const PublicActivitiesPage: React.FC = () => {
                         >
                           <ExternalLink className="w-4 h-4" />
                         </button>
+
+                        <button 
+                          className="p-2 text-white/60 hover:text-[#FCB283] transition-colors"
+                          onClick={(e: React.MouseEvent) => {
+                            e.stopPropagation();
+                            handleAddToCalendar(activity);
+                          }}
+                          title={currentContent.addToCalendar}
+                        >
+                          <CalendarPlus className="w-4 h-4" />
+                        </button>
                       </div>
 
                       {/* Bottom Action Icons */}
@@ -1,8 +1,30 @@
-import React from 'react';
+import React, { useState, useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
+import { Clock } from 'lucide-react';
+import { OfficialSelection } from '../../types/admin.types';
+import { decisionRoundService } from '../../services/decisionRoundService';
+
+const CATEGORY_ORDER: OfficialSelection['category'][] = ['youth', 'future', 'world'];
+
+const CATEGORY_LABELS = {
+  th: { youth: 'เยาวชน', future: 'อนาคต', world: 'โลก' },
+  en: { youth: 'Youth Fantastic Short Film', future: 'Future Fantastic Short Film', world: 'World Fantastic Short Film' }
+};
 
 const OfficialSelectionSection = () => {
   const { i18n } = useTranslation();
+  const [selections, setSelections] = useState<OfficialSelection[]>([]);
+  const currentLanguage = i18n.language as 'en' | 'th';
+
+  useEffect(() => {
+    decisionRoundService.getOfficialSelections()
+      .then(result => setSelections(
+        result
+          .filter(selection => selection.films.length > 0)
+          .sort((a, b) => CATEGORY_ORDER.indexOf(a.category) - CATEGORY_ORDER.indexOf(b.category))
+      ))
+      .catch(error => console.error('Error loading official selection:', error));
+  }, []);
 
   return (
     <section className="relative min-h-screen flex items-center justify-center overflow-hidden">
@@ -22,7 +44,7 @@ const OfficialSelectionSection = () => {
       </div>
 
       {/* Centered Content */}
-      <div className="relative z-10 flex flex-col items-center justify-center text-center">
+      <div className="relative z-10 flex flex-col items-center justify-center text-center w-full px-4 py-16">
         
         {/* CIFAN Logo - Centered between cat's eyes */}
         <div className="mb-8">
@@ -47,12 +69,55 @@ const OfficialSelectionSection = () => {
           </p>
         </div>
 
-        {/* Coming Soon Text with Subtle Pulsing */}
-        <div className="animate-fade-in-up" style={{ animationDelay: '0.5s' }}>
-          <h2 className="text-3xl md:text-4xl lg:text-5xl font-oswald font-bold text-white tracking-wider animate-gentle-pulse">
-            COMING SOON
-          </h2>
-        </div>
+        {selections.length === 0 ? (
+          /* Coming Soon Text with Subtle Pulsing */
+          <div className="animate-fade-in-up" style={{ animationDelay: '0.5s' }}>
+            <h2 className="text-3xl md:text-4xl lg:text-5xl font-oswald font-bold text-white tracking-wider animate-gentle-pulse">
+              COMING SOON
+            </h2>
+          </div>
+        ) : (
+          /* Published Official Selection */
+          <div className="w-full max-w-6xl mx-auto space-y-12 animate-fade-in-up" style={{ animationDelay: '0.5s' }}>
+            {selections.map(selection => (
+              <div key={selection.category}>
+                <h2 className="text-2xl md:text-3xl font-oswald font-bold text-white tracking-wider mb-6">
+                  {CATEGORY_LABELS[currentLanguage][selection.category]}
+                </h2>
+                <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4 md:gap-6">
+                  {selection.films.map(film => (
+                    <div key={film.submissionId} className="glass-card rounded-xl overflow-hidden text-left">
+                      <div className="aspect-[2/3] bg-white/5">
+                        {film.posterUrl && (
+                          <img
+                            src={film.posterUrl}
+                            alt={film.filmTitle}
+                            className="w-full h-full object-cover"
+                            loading="lazy"
+                          />
+                        )}
+                      </div>
+                      <div className="p-3">
+                        <h3 className={`text-white text-sm md:text-base leading-snug ${
+                          currentLanguage === 'th' ? 'font-anuphan' : 'font-oswald'
+                        }`}>
+                          {currentLanguage === 'th' && film.filmTitleTh ? film.filmTitleTh : film.filmTitle}
+                        </h3>
+                        {film.directorName && (
+                          <p className="text-white/60 text-xs mt-1">{film.directorName}</p>
+                        )}
+                        <p className="flex items-center space-x-1 text-white/50 text-xs mt-1">
+                          <Clock className="w-3 h-3" />
+                          <span>{film.duration} {currentLanguage === 'th' ? 'นาที' : 'min'}</span>
+                        </p>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
       </div>
     </section>
   );
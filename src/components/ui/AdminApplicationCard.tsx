@@ -3,6 +3,7 @@ import { useTranslation } from 'react-i18next';
 import { useTypography } from '../../utils/typography';
 import { AdminApplicationCard as AdminApplicationCardType } from '../../types/admin.types';
 import { Eye, Edit, Star, Clock, CheckCircle, XCircle, AlertCircle } from 'lucide-react';
+import { getPosterUrl, getPosterSrcSet } from '../../utils/mediaThumbnails';
 
 interface AdminApplicationCardProps {
   application: AdminApplicationCardType;
@@ -110,7 +111,10 @@ const AdminApplicationCard: React.FC<AdminApplicationCardProps> = ({
         <div className="aspect-[4/5] relative overflow-hidden bg-white/5">
           {!imageError ? (
             <img
-              src={application.posterUrl}
+              src={getPosterUrl(application.posterThumbnails, 'medium', application.posterUrl)}
+              srcSet={getPosterSrcSet(application.posterThumbnails)}
+              sizes="(min-width: 1024px) 25vw, (min-width: 640px) 50vw, 100vw"
+              loading="lazy"
               alt={`${application.filmTitle} Poster`}
               className={`w-full h-full object-cover transition-all duration-300 group-hover:scale-110 ${
                 imageLoaded ? 'opacity-100' : 'opacity-0'
@@ -168,6 +172,21 @@ const AdminApplicationCard: React.FC<AdminApplicationCardProps> = ({
 
           {/* Content Overlay - Bottom */}
           <div className="absolute bottom-0 left-0 right-0 p-4">
+            {/* Filmstrip of preview frames, shown on hover */}
+            {application.previewFrames && application.previewFrames.length > 0 && (
+              <div className="hidden group-hover:flex gap-1 mb-3">
+                {application.previewFrames.map((frame) => (
+                  <img
+                    key={frame.storagePath}
+                    src={frame.downloadURL}
+                    alt=""
+                    loading="lazy"
+                    className="flex-1 min-w-0 aspect-video object-cover rounded border border-white/20"
+                  />
+                ))}
+              </div>
+            )}
+
             {/* Film Title */}
             <h3 className={`text-lg sm:text-xl ${getClass('header')} text-white mb-2 leading-tight line-clamp-2`}>
               {displayTitle}
@@ -7,6 +7,8 @@ import {
   User, 
   Video
 } from 'lucide-react';
+import { PosterThumbnails, PreviewFrame } from '../../types/media.types';
+import { getPosterUrl, getPosterSrcSet } from '../../utils/mediaThumbnails';
 
 interface CompactFilmInfoProps {
   filmTitle: string;
@@ -19,6 +21,8 @@ interface CompactFilmInfoProps {
   nationality: string;
   competitionCategory: string;
   posterUrl: string;
+  posterThumbnails?: PosterThumbnails;
+  previewFrames?: PreviewFrame[];
   submitterName: string;
   submitterNameTh?: string;
   submitterRole: string;
@@ -41,6 +45,8 @@ const CompactFilmInfo: React.FC<CompactFilmInfoProps> = ({
   nationality,
   competitionCategory,
   posterUrl,
+  posterThumbnails,
+  previewFrames,
   submitterName,
   submitterNameTh,
   submitterRole,
@@ -93,6 +99,11 @@ const CompactFilmInfo: React.FC<CompactFilmInfoProps> = ({
     return `${mins}:${secs.toString().padStart(2, '0')}`;
   };
 
+  const formatFrameTime = (seconds: number) => {
+    const total = Math.floor(seconds);
+    return `${Math.floor(total / 60)}:${(total % 60).toString().padStart(2, '0')}`;
+  };
+
   const displayTitle = currentLanguage === 'th' && filmTitleTh ? filmTitleTh : filmTitle;
   const alternativeTitle = currentLanguage === 'th' ? filmTitle : filmTitleTh;
   
@@ -124,7 +135,9 @@ const CompactFilmInfo: React.FC<CompactFilmInfoProps> = ({
           <div className="w-[300px] aspect-[3/4] rounded-xl overflow-hidden bg-white/5 border border-white/10">
             {posterUrl ? (
               <img
-                src={posterUrl}
+                src={getPosterUrl(posterThumbnails, 'medium', posterUrl)}
+                srcSet={getPosterSrcSet(posterThumbnails)}
+                sizes="300px"
                 alt={`${displayTitle} Poster`}
                 className="w-full h-full object-cover"
                 onError={(e) => {
@@ -267,6 +280,25 @@ const CompactFilmInfo: React.FC<CompactFilmInfoProps> = ({
         </div>
       </div>
 
+      {/* Filmstrip - Stills Captured From the Film */}
+      {previewFrames && previewFrames.length > 0 && (
+        <div className="grid grid-cols-3 sm:grid-cols-5 gap-2">
+          {previewFrames.map((frame) => (
+            <div key={frame.storagePath} className="relative rounded-lg overflow-hidden bg-white/5 border border-white/10">
+              <img
+                src={frame.downloadURL}
+                alt={`${displayTitle} ${formatFrameTime(frame.timeSeconds)}`}
+                loading="lazy"
+                className="w-full aspect-video object-cover"
+              />
+              <span className={`absolute bottom-1 right-1 px-1.5 py-0.5 rounded bg-black/70 text-[10px] ${getClass('body')} text-white`}>
+                {formatFrameTime(frame.timeSeconds)}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Full Synopsis - No Read More Button */}
       {synopsis && (
         <div className="glass-card p-6 rounded-xl">
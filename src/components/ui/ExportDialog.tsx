@@ -2,13 +2,18 @@ import React, { useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { useTypography } from '../../utils/typography';
 import { ExportOptions, ExportProgress } from '../../services/exportService';
+import { ExportColumnSelection, ExportPreview } from '../../types/admin.types';
+import { getDefaultExportColumns } from '../../utils/exportColumns';
 import { Download, Calendar, Filter, FileText, X } from 'lucide-react';
 import AnimatedButton from './AnimatedButton';
+import ExportTemplateEditor from './ExportTemplateEditor';
 
 interface ExportDialogProps {
   isOpen: boolean;
   onClose: () => void;
   onExport: (options: ExportOptions) => Promise<void>;
+  onPreview?: (options: ExportOptions) => Promise<ExportPreview>;
+  onQueue?: (options: ExportOptions) => Promise<void>;   // Hand the export to the background worker
   exportType: 'applications' | 'dashboard';
   availableCategories?: string[];
   availableStatuses?: string[];
@@ -19,6 +24,8 @@ const ExportDialog: React.FC<ExportDialogProps> = ({
   isOpen,
   onClose,
   onExport,
+  onPreview,
+  onQueue,
   exportType,
   availableCategories = ['youth', 'future', 'world'],
   availableStatuses = ['draft', 'submitted', 'under-review', 'accepted', 'rejected'],
@@ -35,6 +42,7 @@ const ExportDialog: React.FC<ExportDialogProps> = ({
     categories: [],
     statuses: []
   });
+  const [columns, setColumns] = useState<ExportColumnSelection[]>(() => getDefaultExportColumns('applications'));
 
   const content = {
     th: {
@@ -42,7 +50,7 @@ const ExportDialog: React.FC<ExportDialogProps> = ({
       subtitle: "เลือกรูปแบบและตัวเลือกการส่งออก",
       format: "รูปแบบไฟล์",
       csv: "CSV (Excel)",
-      excel: "Excel",
+      excel: "Excel (.xlsx)",
       pdf: "PDF Report",
       options: "ตัวเลือกการส่งออก",
       includeScores: "รวมคะแนนการประเมิน",
@@ -63,6 +71,7 @@ const ExportDialog: React.FC<ExportDialogProps> = ({
       accepted: "ผ่าน",
       rejected: "ไม่ผ่าน",
       export: "ส่งออก",
+      runInBackground: "ส่งออกเบื้องหลัง",
       cancel: "ยกเลิก",
       exporting: "กำลังส่งออก...",
       preparing: "กำลังเตรียมข้อมูล...",
@@ -76,7 +85,7 @@ const ExportDialog: React.FC<ExportDialogProps> = ({
       subtitle: "Choose format and export options",
       format: "File Format",
       csv: "CSV (Excel)",
-      excel: "Excel",
+      excel: "Excel (.xlsx)",
       pdf: "PDF Report",
       options: "Export Options",
       includeScores: "Include Evaluation Scores",
@@ -97,6 +106,7 @@ const ExportDialog: React.FC<ExportDialogProps> = ({
       accepted: "Accepted",
       rejected: "Rejected",
       export: "Export",
+      runInBackground: "Run in Background",
       cancel: "Cancel",
       exporting: "Exporting...",
       preparing: "Preparing data...",
@@ -123,14 +133,30 @@ const ExportDialog: React.FC<ExportDialogProps> = ({
     });
   };
 
+  // Dashboard exports have a fixed layout; only applications use column templates
+  const getExportOptions = (): ExportOptions =>
+    exportType === 'applications' ? { ...options, columns } : options;
+
   const handleExport = async () => {
+    if (exportType === 'applications' && columns.length === 0) return;
+
     try {
-      await onExport(options);
+      await onExport(getExportOptions());
     } catch (error) {
       console.error('Export failed:', error);
     }
   };
 
+  const handleQueue = async () => {
+    if (!onQueue || columns.length === 0) return;
+
+    try {
+      await onQueue(getExportOptions());
+    } catch (error) {
+      console.error('Queueing export failed:', error);
+    }
+  };
+
   const getProgressMessage = () => {
     if (!progress) return '';
     
@@ -377,6 +403,21 @@ const ExportDialog: React.FC<ExportDialogProps> = ({
             </div>
           </div>
 
+          {/* Columns and saved templates */}
+          {exportType === 'applications' && (
+            <div className="mb-6">
+              <ExportTemplateEditor
+                target="applications"
+                columns={columns}
+                onColumnsChange={setColumns}
+                settings={options}
+                onApplySettings={(settings) => setOptions(prev => ({ ...prev, ...settings }))}
+                onPreview={onPreview ? () => onPreview(getExportOptions()) : undefined}
+                disabled={progress?.stage === 'processing' || progress?.stage === 'generating'}
+              />
+            </div>
+          )}
+
           {/* Action Buttons */}
           <div className="flex flex-col sm:flex-row gap-4 justify-end">
             <AnimatedButton
@@ -387,6 +428,18 @@ const ExportDialog: React.FC<ExportDialogProps> = ({
             >
               {currentContent.cancel}
             </AnimatedButton>
+
+            {onQueue && exportType === 'applications' && options.format !== 'pdf' && (
+              <AnimatedButton
+                variant="secondary"
+                size="large"
+                icon="⏳"
+                onClick={handleQueue}
+                className={progress?.stage === 'processing' || progress?.stage === 'generating' ? 'opacity-50 cursor-not-allowed' : ''}
+              >
+                {currentContent.runInBackground}
+              </AnimatedButton>
+            )}
             
             <AnimatedButton
               variant="primary"
@@ -0,0 +1,464 @@
+import React, { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useTypography } from '../../utils/typography';
+import { useAuth } from '../auth/AuthContext';
+import { exportPresetService } from '../../services/exportPresetService';
+import {
+  ExportColumnSelection,
+  ExportPreset,
+  ExportPreview,
+  ExportTarget
+} from '../../types/admin.types';
+import {
+  getDefaultExportColumns,
+  getExportColumns,
+  getExportTemplates,
+  getTemplateColumns
+} from '../../utils/exportColumns';
+import { ChevronUp, ChevronDown, X, Plus, Save, Trash2, Eye, Columns, RotateCcw } from 'lucide-react';
+
+type PresetSettings = Pick<ExportPreset, 'format' | 'includeScores' | 'includeNotes'>;
+
+interface ExportTemplateEditorProps {
+  target: ExportTarget;
+  columns: ExportColumnSelection[];
+  onColumnsChange: (columns: ExportColumnSelection[]) => void;
+  settings: PresetSettings;                         // Saved alongside the columns
+  onApplySettings?: (settings: PresetSettings) => void;
+  onPreview?: () => Promise<ExportPreview>;
+  disabled?: boolean;
+}
+
+const ExportTemplateEditor: React.FC<ExportTemplateEditorProps> = ({
+  target,
+  columns,
+  onColumnsChange,
+  settings,
+  onApplySettings,
+  onPreview,
+  disabled = false
+}) => {
+  const { i18n } = useTranslation();
+  const { getClass } = useTypography();
+  const { user } = useAuth();
+  const currentLanguage = i18n.language as 'en' | 'th';
+
+  const [presets, setPresets] = useState<ExportPreset[]>([]);
+  // "template:<id>" for built-in templates, "preset:<id>" for saved ones
+  const [selectedPreset, setSelectedPreset] = useState(`template:${getExportTemplates(target)[0].id}`);
+  const [presetName, setPresetName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [preview, setPreview] = useState<ExportPreview | null>(null);
+  const [isPreviewLoading, setIsPreviewLoading] = useState(false);
+  const [error, setError] = useState<'load' | 'save' | 'delete' | 'preview' | null>(null);
+
+  const content = {
+    th: {
+      title: "คอลัมน์และเทมเพลต",
+      preset: "เทมเพลต",
+      builtIn: "เทมเพลตมาตรฐาน",
+      saved: "เทมเพลตที่บันทึกไว้",
+      presetName: "ชื่อเทมเพลตใหม่",
+      saveAs: "บันทึกเป็นเทมเพลต",
+      update: "บันทึกทับ",
+      deletePreset: "ลบเทมเพลต",
+      confirmDelete: "ลบเทมเพลตนี้หรือไม่?",
+      addColumn: "เพิ่มคอลัมน์...",
+      reset: "คืนค่าเริ่มต้น",
+      moveUp: "เลื่อนขึ้น",
+      moveDown: "เลื่อนลง",
+      removeColumn: "นำคอลัมน์ออก",
+      noColumns: "เลือกอย่างน้อยหนึ่งคอลัมน์",
+      preview: "ดูตัวอย่าง",
+      loadingPreview: "กำลังโหลดตัวอย่าง...",
+      previewOf: (shown: number, total: number) => `แสดง ${shown} จาก ${total} แถว`,
+      loadError: "ไม่สามารถโหลดเทมเพลตที่บันทึกไว้ได้",
+      saveError: "ไม่สามารถบันทึกเทมเพลตได้",
+      deleteError: "ไม่สามารถลบเทมเพลตได้",
+      previewError: "ไม่สามารถสร้างตัวอย่างได้"
+    },
+    en: {
+      title: "Columns & Templates",
+      preset: "Template",
+      builtIn: "Built-in templates",
+      saved: "Saved templates",
+      presetName: "New template name",
+      saveAs: "Save as template",
+      update: "Overwrite",
+      deletePreset: "Delete template",
+      confirmDelete: "Delete this template?",
+      addColumn: "Add column...",
+      reset: "Reset to default",
+      moveUp: "Move up",
+      moveDown: "Move down",
+      removeColumn: "Remove column",
+      noColumns: "Choose at least one column",
+      preview: "Preview",
+      loadingPreview: "Loading preview...",
+      previewOf: (shown: number, total: number) => `Showing ${shown} of ${total} rows`,
+      loadError: "Could not load saved templates",
+      saveError: "Could not save template",
+      deleteError: "Could not delete template",
+      previewError: "Could not build preview"
+    }
+  };
+
+  const currentContent = content[currentLanguage];
+  const availableColumns = getExportColumns(target);
+  const unusedColumns = availableColumns.filter(column => !columns.some(selected => selected.id === column.id));
+  const savedPreset = presets.find(preset => `preset:${preset.id}` === selectedPreset);
+
+  useEffect(() => {
+    if (!user) return;
+    exportPresetService.getPresets(user.uid, target)
+      .then(setPresets)
+      .catch(() => setError('load'));
+  }, [user, target]);
+
+  // A preview is only valid for the columns it was built with
+  useEffect(() => {
+    setPreview(null);
+  }, [columns, settings.includeScores]);
+
+  // Only the saved settings, not whatever else the caller's options carry
+  const getPresetSettings = (): PresetSettings => ({
+    format: settings.format,
+    includeScores: settings.includeScores,
+    includeNotes: settings.includeNotes
+  });
+
+  const getColumnLabel = (id: string) =>
+    availableColumns.find(column => column.id === id)?.label[currentLanguage] || id;
+
+  const handlePresetChange = (value: string) => {
+    setSelectedPreset(value);
+    setError(null);
+
+    const [kind, id] = value.split(':');
+    if (kind === 'template') {
+      const template = getExportTemplates(target).find(item => item.id === id);
+      if (template) onColumnsChange(getTemplateColumns(template));
+      return;
+    }
+
+    const preset = presets.find(item => item.id === id);
+    if (preset) {
+      onColumnsChange(preset.columns);
+      onApplySettings?.({
+        format: preset.format,
+        includeScores: preset.includeScores,
+        includeNotes: preset.includeNotes
+      });
+    }
+  };
+
+  const moveColumn = (index: number, offset: number) => {
+    const next = [...columns];
+    const [column] = next.splice(index, 1);
+    next.splice(index + offset, 0, column);
+    onColumnsChange(next);
+  };
+
+  const renameColumn = (index: number, header: string) => {
+    onColumnsChange(columns.map((column, i) => (i === index ? { ...column, header } : column)));
+  };
+
+  const removeColumn = (index: number) => {
+    onColumnsChange(columns.filter((_, i) => i !== index));
+  };
+
+  const addColumn = (id: string) => {
+    const column = availableColumns.find(item => item.id === id);
+    if (column) onColumnsChange([...columns, { id: column.id, header: column.header }]);
+  };
+
+  const handleSaveAs = async () => {
+    if (!user || !presetName.trim()) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const preset = {
+        adminId: user.uid,
+        name: presetName.trim(),
+        target,
+        ...getPresetSettings(),
+        columns
+      };
+      const id = await exportPresetService.createPreset(preset);
+      const now = new Date();
+      setPresets(prev => [...prev, { ...preset, id, createdAt: now, updatedAt: now }]
+        .sort((a, b) => a.name.localeCompare(b.name)));
+      setSelectedPreset(`preset:${id}`);
+      setPresetName('');
+    } catch (err) {
+      console.error('Error saving export preset:', err);
+      setError('save');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleUpdate = async () => {
+    if (!savedPreset) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const updates = { ...getPresetSettings(), columns };
+      await exportPresetService.updatePreset(savedPreset.id, updates);
+      setPresets(prev => prev.map(preset =>
+        preset.id === savedPreset.id ? { ...preset, ...updates, updatedAt: new Date() } : preset
+      ));
+    } catch (err) {
+      console.error('Error saving export preset:', err);
+      setError('save');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!savedPreset || !window.confirm(currentContent.confirmDelete)) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await exportPresetService.deletePreset(savedPreset.id);
+      setPresets(prev => prev.filter(preset => preset.id !== savedPreset.id));
+      setSelectedPreset(`template:${getExportTemplates(target)[0].id}`);
+    } catch (err) {
+      console.error('Error deleting export preset:', err);
+      setError('delete');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handlePreview = async () => {
+    if (!onPreview) return;
+
+    setIsPreviewLoading(true);
+    setError(null);
+    try {
+      setPreview(await onPreview());
+    } catch (err) {
+      console.error('Export preview failed:', err);
+      setError('preview');
+    } finally {
+      setIsPreviewLoading(false);
+    }
+  };
+
+  const isBusy = disabled || isSaving;
+
+  return (
+    <div className="space-y-4">
+      <h3 className={`text-lg ${getClass('subtitle')} text-white flex items-center space-x-2`}>
+        <Columns className="w-5 h-5 text-[#FCB283]" />
+        <span>{currentContent.title}</span>
+      </h3>
+
+      {/* Template selection and saving */}
+      <div className="space-y-3">
+        <div className="flex gap-2">
+          <select
+            value={selectedPreset}
+            onChange={(e) => handlePresetChange(e.target.value)}
+            disabled={isBusy}
+            className="flex-1 p-3 bg-white/10 border border-white/20 rounded-lg text-white focus:border-[#FCB283] focus:outline-none"
+            aria-label={currentContent.preset}
+          >
+            <optgroup label={currentContent.builtIn} className="bg-gray-800">
+              {getExportTemplates(target).map(template => (
+                <option key={template.id} value={`template:${template.id}`} className="bg-gray-800">
+                  {template.name[currentLanguage]}
+                </option>
+              ))}
+            </optgroup>
+            {presets.length > 0 && (
+              <optgroup label={currentContent.saved} className="bg-gray-800">
+                {presets.map(preset => (
+                  <option key={preset.id} value={`preset:${preset.id}`} className="bg-gray-800">
+                    {preset.name}
+                  </option>
+                ))}
+              </optgroup>
+            )}
+          </select>
+          {savedPreset && (
+            <>
+              <button
+                type="button"
+                onClick={handleUpdate}
+                disabled={isBusy || columns.length === 0}
+                className="px-3 rounded-lg bg-white/10 border border-white/20 text-white/80 hover:border-[#FCB283]/50 transition-colors disabled:opacity-50"
+              >
+                {currentContent.update}
+              </button>
+              <button
+                type="button"
+                onClick={handleDelete}
+                disabled={isBusy}
+                className="px-3 rounded-lg bg-white/10 border border-white/20 text-white/60 hover:text-red-400 transition-colors disabled:opacity-50"
+                title={currentContent.deletePreset}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </>
+          )}
+        </div>
+
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+            placeholder={currentContent.presetName}
+            disabled={isBusy}
+            className="flex-1 p-3 bg-white/10 border border-white/20 rounded-lg text-white placeholder-white/50 focus:border-[#FCB283] focus:outline-none"
+          />
+          <button
+            type="button"
+            onClick={handleSaveAs}
+            disabled={isBusy || !presetName.trim() || columns.length === 0}
+            className="flex items-center space-x-2 px-4 rounded-lg bg-[#FCB283] hover:bg-[#AA4626] text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Save className="w-4 h-4" />
+            <span className={`text-sm ${getClass('body')}`}>{currentContent.saveAs}</span>
+          </button>
+        </div>
+      </div>
+
+      {/* Chosen columns, in export order */}
+      <div className="space-y-2">
+        {columns.map((column, index) => (
+          <div key={column.id} className="flex items-center gap-2 p-2 bg-white/5 rounded-lg">
+            <div className="flex flex-col">
+              <button
+                type="button"
+                onClick={() => moveColumn(index, -1)}
+                disabled={disabled || index === 0}
+                className="text-white/60 hover:text-white disabled:opacity-30"
+                title={currentContent.moveUp}
+              >
+                <ChevronUp className="w-4 h-4" />
+              </button>
+              <button
+                type="button"
+                onClick={() => moveColumn(index, 1)}
+                disabled={disabled || index === columns.length - 1}
+                className="text-white/60 hover:text-white disabled:opacity-30"
+                title={currentContent.moveDown}
+              >
+                <ChevronDown className="w-4 h-4" />
+              </button>
+            </div>
+            <span className={`w-40 flex-shrink-0 text-sm ${getClass('body')} text-white/70 truncate`}>
+              {getColumnLabel(column.id)}
+            </span>
+            <input
+              type="text"
+              value={column.header}
+              onChange={(e) => renameColumn(index, e.target.value)}
+              disabled={disabled}
+              className="flex-1 min-w-0 px-3 py-2 bg-white/10 border border-white/20 rounded-lg text-white text-sm focus:border-[#FCB283] focus:outline-none"
+            />
+            <button
+              type="button"
+              onClick={() => removeColumn(index)}
+              disabled={disabled}
+              className="p-1 text-white/40 hover:text-red-400 transition-colors"
+              title={currentContent.removeColumn}
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+        {columns.length === 0 && (
+          <p className={`text-sm ${getClass('body')} text-red-400`}>{currentContent.noColumns}</p>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {unusedColumns.length > 0 && (
+          <div className="relative flex-1">
+            <Plus className="w-4 h-4 text-white/60 absolute left-3 top-1/2 -translate-y-1/2 pointer-events-none" />
+            <select
+              value=""
+              onChange={(e) => addColumn(e.target.value)}
+              disabled={disabled}
+              className="w-full pl-9 p-2 bg-white/10 border border-white/20 rounded-lg text-white text-sm focus:border-[#FCB283] focus:outline-none"
+            >
+              <option value="" className="bg-gray-800">{currentContent.addColumn}</option>
+              {unusedColumns.map(column => (
+                <option key={column.id} value={column.id} className="bg-gray-800">
+                  {column.label[currentLanguage]}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+        <button
+          type="button"
+          onClick={() => onColumnsChange(getDefaultExportColumns(target))}
+          disabled={disabled}
+          className="flex items-center space-x-2 px-3 py-2 rounded-lg bg-white/10 border border-white/20 text-white/80 text-sm hover:border-[#FCB283]/50 transition-colors disabled:opacity-50"
+        >
+          <RotateCcw className="w-4 h-4" />
+          <span>{currentContent.reset}</span>
+        </button>
+        {onPreview && (
+          <button
+            type="button"
+            onClick={handlePreview}
+            disabled={disabled || isPreviewLoading || columns.length === 0}
+            className="flex items-center space-x-2 px-3 py-2 rounded-lg bg-white/10 border border-white/20 text-white/80 text-sm hover:border-[#FCB283]/50 transition-colors disabled:opacity-50"
+          >
+            <Eye className="w-4 h-4" />
+            <span>{isPreviewLoading ? currentContent.loadingPreview : currentContent.preview}</span>
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <p className={`text-sm ${getClass('body')} text-red-400`}>{currentContent[`${error}Error`]}</p>
+      )}
+
+      {/* First rows as they will be exported */}
+      {preview && (
+        <div className="glass-card rounded-xl p-3 space-y-2">
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-xs text-left">
+              <thead>
+                <tr>
+                  {preview.headers.map((header, index) => (
+                    <th key={index} className="px-2 py-1 text-[#FCB283] font-medium whitespace-nowrap">
+                      {header}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {preview.rows.map((row, rowIndex) => (
+                  <tr key={rowIndex} className="border-t border-white/10">
+                    {row.map((cell, cellIndex) => (
+                      <td key={cellIndex} className="px-2 py-1 text-white/80 max-w-xs truncate" title={cell}>
+                        {cell}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className={`text-xs ${getClass('body')} text-white/60`}>
+            {currentContent.previewOf(preview.rows.length, preview.total)}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportTemplateEditor;
@@ -0,0 +1,145 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useTypography } from '../../utils/typography';
+import { useAuth } from '../auth/AuthContext';
+import { Bell, CheckCheck } from 'lucide-react';
+import { InboxNotification } from '../../types/notification.types';
+import { notificationInboxService } from '../../services/notificationInboxService';
+
+const NotificationInbox: React.FC = () => {
+  const { i18n } = useTranslation();
+  const { getClass } = useTypography();
+  const { user } = useAuth();
+  const currentLanguage = i18n.language as 'en' | 'th';
+
+  const [notifications, setNotifications] = useState<InboxNotification[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const content = {
+    th: {
+      notifications: "การแจ้งเตือน",
+      markAllRead: "อ่านทั้งหมด",
+      empty: "ยังไม่มีการแจ้งเตือน"
+    },
+    en: {
+      notifications: "Notifications",
+      markAllRead: "Mark all as read",
+      empty: "No notifications yet"
+    }
+  };
+
+  const currentContent = content[currentLanguage];
+
+  useEffect(() => {
+    if (!user) return;
+    return notificationInboxService.subscribeToInbox(user.uid, setNotifications);
+  }, [user]);
+
+  // Close the dropdown on any click outside it
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  if (!user) return null;
+
+  const unreadIds = notifications.filter(notification => !notification.read).map(notification => notification.id);
+
+  const handleOpen = async (notification: InboxNotification) => {
+    setIsOpen(false);
+    if (!notification.read) {
+      try {
+        await notificationInboxService.markAsRead(notification.id);
+      } catch (error) {
+        console.error('Error opening notification:', error);
+      }
+    }
+    window.location.hash = notification.link;
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await notificationInboxService.markAllAsRead(unreadIds);
+    } catch (error) {
+      console.error('Error marking notifications as read:', error);
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="relative p-2 rounded-lg hover:bg-white/10 transition-colors"
+        title={currentContent.notifications}
+      >
+        <Bell className="w-5 h-5 text-white/80" />
+        {unreadIds.length > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 rounded-full bg-gradient-to-r from-[#AA4626] to-[#FCB283] text-white text-[10px] font-semibold flex items-center justify-center">
+            {unreadIds.length > 9 ? '9+' : unreadIds.length}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 max-w-[calc(100vw-2rem)] rounded-xl bg-[#110D16] border border-white/20 shadow-xl z-50 overflow-hidden">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-white/10">
+            <span className={`${getClass('subtitle')} text-white text-sm`}>{currentContent.notifications}</span>
+            {unreadIds.length > 0 && (
+              <button
+                onClick={handleMarkAllRead}
+                className="flex items-center space-x-1 text-xs text-[#FCB283] hover:text-white transition-colors"
+              >
+                <CheckCheck className="w-3 h-3" />
+                <span>{currentContent.markAllRead}</span>
+              </button>
+            )}
+          </div>
+
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.length === 0 ? (
+              <p className={`${getClass('body')} text-white/50 text-sm text-center py-8`}>{currentContent.empty}</p>
+            ) : (
+              notifications.map(notification => (
+                <button
+                  key={notification.id}
+                  onClick={() => handleOpen(notification)}
+                  className={`w-full text-left px-4 py-3 border-b border-white/5 hover:bg-white/10 transition-colors flex items-start space-x-3 ${
+                    notification.read ? 'opacity-60' : ''
+                  }`}
+                >
+                  <span className={`mt-1.5 w-2 h-2 rounded-full flex-shrink-0 ${notification.read ? 'bg-transparent' : 'bg-[#FCB283]'}`} />
+                  <span className="flex-1 min-w-0">
+                    <span className={`block ${getClass('body')} text-white text-sm truncate`}>
+                      {notification.title[currentLanguage]}
+                    </span>
+                    <span className={`block ${getClass('body')} text-white/70 text-xs mt-0.5`}>
+                      {notification.message[currentLanguage]}
+                    </span>
+                    <span className="block text-white/40 text-[11px] mt-1">
+                      {notification.createdAt.toLocaleString(currentLanguage === 'th' ? 'th-TH' : 'en-US', {
+                        month: 'short',
+                        day: 'numeric',
+                        hour: '2-digit',
+                        minute: '2-digit'
+                      })}
+                    </span>
+                  </span>
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationInbox;
@@ -1,16 +1,24 @@
 import React from 'react';
 import { useTranslation } from 'react-i18next';
 import { useTypography } from '../../utils/typography';
+import { Pause, Play, X } from 'lucide-react';
 import { SubmissionProgress as SubmissionProgressType } from '../../services/submissionService';
+import { formatEta, formatFileSize, formatTransferRate } from '../../utils/fileUpload';
 
 interface SubmissionProgressProps {
   progress: SubmissionProgressType;
   className?: string;
+  onPause?: () => void;
+  onResume?: () => void;
+  onCancel?: () => void;
 }
 
 const SubmissionProgress: React.FC<SubmissionProgressProps> = ({
   progress,
-  className = ''
+  className = '',
+  onPause,
+  onResume,
+  onCancel
 }) => {
   const { i18n } = useTranslation();
   const { getClass } = useTypography();
@@ -83,6 +91,52 @@ const SubmissionProgress: React.FC<SubmissionProgressProps> = ({
         <p className={`${getClass('body')} text-white/70 mt-2 text-sm`}>
           {progress.message}
         </p>
+
+        {/* Throughput, ETA and upload controls */}
+        {progress.stage === 'uploading' && progress.fileTransfer && (
+          <div className="flex flex-wrap items-center justify-between gap-3 mt-3">
+            <span className={`${getClass('body')} text-white/60 text-sm`}>
+              {progress.paused
+                ? (currentLanguage === 'th' ? 'หยุดชั่วคราว' : 'Paused')
+                : `${formatTransferRate(progress.bytesPerSecond || 0)} · ${currentLanguage === 'th' ? 'เหลืออีก' : 'ETA'} ${formatEta(progress.etaSeconds ?? null)}`}
+            </span>
+            <div className="flex items-center gap-2">
+              {progress.paused ? (
+                onResume && (
+                  <button
+                    type="button"
+                    onClick={onResume}
+                    className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-white/10 hover:bg-white/20 text-white text-sm transition-colors"
+                  >
+                    <Play className="w-4 h-4" />
+                    {currentLanguage === 'th' ? 'อัปโหลดต่อ' : 'Resume'}
+                  </button>
+                )
+              ) : (
+                onPause && (
+                  <button
+                    type="button"
+                    onClick={onPause}
+                    className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-white/10 hover:bg-white/20 text-white text-sm transition-colors"
+                  >
+                    <Pause className="w-4 h-4" />
+                    {currentLanguage === 'th' ? 'หยุดชั่วคราว' : 'Pause'}
+                  </button>
+                )
+              )}
+              {onCancel && (
+                <button
+                  type="button"
+                  onClick={onCancel}
+                  className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-red-500/20 hover:bg-red-500/30 text-red-300 text-sm transition-colors"
+                >
+                  <X className="w-4 h-4" />
+                  {currentLanguage === 'th' ? 'ยกเลิก' : 'Cancel'}
+                </button>
+              )}
+            </div>
+          </div>
+        )}
       </div>
 
       {/* File Upload Progress */}
@@ -118,6 +172,8 @@ const SubmissionProgress: React.FC<SubmissionProgressProps> = ({
               proof: '📄'
             };
 
+            const transfer = progress.fileTransfer?.[fileType];
+
             return (
               <div key={fileType} className="glass-card p-4 rounded-lg">
                 <div className="flex items-center justify-between mb-2">
@@ -138,6 +194,28 @@ const SubmissionProgress: React.FC<SubmissionProgressProps> = ({
                     style={{ width: `${fileProgress}%` }}
                   />
                 </div>
+
+                {transfer && (
+                  <div className={`${getClass('body')} flex flex-wrap justify-between gap-2 mt-2 text-xs text-white/60`}>
+                    <span>
+                      {formatFileSize(transfer.bytesTransferred)} / {formatFileSize(transfer.totalBytes)}
+                      {transfer.resumedFromBytes > 0 && (
+                        currentLanguage === 'th'
+                          ? ` (ต่อจาก ${formatFileSize(transfer.resumedFromBytes)})`
+                          : ` (resumed at ${formatFileSize(transfer.resumedFromBytes)})`
+                      )}
+                    </span>
+                    {transfer.state === 'retrying' ? (
+                      <span className="text-yellow-300">
+                        {currentLanguage === 'th' ? 'กำลังเชื่อมต่อใหม่...' : 'Reconnecting...'}
+                      </span>
+                    ) : transfer.state === 'uploading' && transfer.percent < 100 && (
+                      <span>
+                        {formatTransferRate(transfer.bytesPerSecond)} · {formatEta(transfer.etaSeconds)}
+                      </span>
+                    )}
+                  </div>
+                )}
               </div>
             );
           })}
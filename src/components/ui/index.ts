@@ -9,6 +9,7 @@ export { default as ExportDialog } from './ExportDialog';
 export { default as LoadingStates } from './LoadingStates';
 export { default as NationalitySelector } from './NationalitySelector';
 export { NotificationProvider } from './NotificationSystem';
+export { default as NotificationInbox } from './NotificationInbox';
 export { default as ProgressIndicator } from './ProgressIndicator';
 export { default as SubmissionProgress } from './SubmissionProgress';
 export { default as SuccessAnimation } from './SuccessAnimation';
@@ -2,6 +2,7 @@ import { useState, useCallback } from 'react';
 import { Activity, ActivityFormData, ActivityStatus } from '../types/activities';
 import { activitiesService } from '../services/activitiesService';
 import { useAuth } from '../components/auth/AuthContext';
+import { getSessionErrors, sortSessions } from '../utils/activitySessions';
 
 interface UseActivityFormOptions {
   activityId?: string;
@@ -30,7 +31,10 @@ const getInitialFormData = (): ActivityFormData => ({
   status: 'draft',
   isPublic: false,
   maxParticipants: 0,
+  needSubmission: false,
+  isOneDayActivity: true,
   eventDate: '',
+  eventEndDate: '',
   startTime: '',
   endTime: '',
   registrationDeadline: '',
@@ -41,7 +45,8 @@ const getInitialFormData = (): ActivityFormData => ({
   tags: [],
   contactEmail: '',
   contactName: '',
-  contactPhone: ''
+  contactPhone: '',
+  sessions: []
 });
 
 export const useActivityForm = (options: UseActivityFormOptions = {}): UseActivityFormReturn => {
@@ -136,41 +141,52 @@ export const useActivityForm = (options: UseActivityFormOptions = {}): UseActivi
       errors.description = 'Full description must be at least 50 characters';
     }
 
-    if (!formData.eventDate) {
-      errors.eventDate = 'Event date is required';
+    // Multi-session activities derive their dates and times from the sessions
+    if (formData.sessions.length > 0) {
+      const sessionErrors = getSessionErrors(formData.sessions);
+      if (Object.keys(sessionErrors).length > 0) {
+        errors.sessions = 'Every session needs a date and an end time after its start time';
+      }
     } else {
-      const eventDate = new Date(formData.eventDate);
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
+      if (!formData.eventDate) {
+        errors.eventDate = 'Event date is required';
+      } else {
+        const eventDate = new Date(formData.eventDate);
+        const today = new Date();
+        today.setHours(0, 0, 0, 0);
       
-      if (eventDate < today) {
-        errors.eventDate = 'Event date cannot be in the past';
+        if (eventDate < today) {
+          errors.eventDate = 'Event date cannot be in the past';
+        }
       }
-    }
 
-    if (!formData.startTime) {
-      errors.startTime = 'Start time is required';
-    }
+      if (!formData.startTime) {
+        errors.startTime = 'Start time is required';
+      }
 
-    if (!formData.endTime) {
-      errors.endTime = 'End time is required';
-    }
+      if (!formData.endTime) {
+        errors.endTime = 'End time is required';
+      }
 
-    // Validate time range
-    if (formData.startTime && formData.endTime) {
-      const startTime = new Date(`2000-01-01T${formData.startTime}`);
-      const endTime = new Date(`2000-01-01T${formData.endTime}`);
+      // Validate time range
+      if (formData.startTime && formData.endTime) {
+        const startTime = new Date(`2000-01-01T${formData.startTime}`);
+        const endTime = new Date(`2000-01-01T${formData.endTime}`);
       
-      if (endTime <= startTime) {
-        errors.endTime = 'End time must be after start time';
+        if (endTime <= startTime) {
+          errors.endTime = 'End time must be after start time';
+        }
       }
     }
 
     if (!formData.registrationDeadline) {
       errors.registrationDeadline = 'Registration deadline is required';
-    } else if (formData.eventDate) {
+    } else {
+      const firstEventDate = formData.sessions.length > 0
+        ? sortSessions(formData.sessions)[0].date
+        : formData.eventDate;
       const regDeadline = new Date(formData.registrationDeadline);
-      const eventDate = new Date(formData.eventDate);
+      const eventDate = new Date(firstEventDate);
       
       if (regDeadline >= eventDate) {
         errors.registrationDeadline = 'Registration deadline must be before event date';
@@ -369,7 +385,10 @@ export const activityToFormData = (activity: Activity): ActivityFormData => ({
   status: activity.status,
   isPublic: activity.isPublic,
   maxParticipants: activity.maxParticipants,
+  needSubmission: activity.needSubmission || false,
+  isOneDayActivity: activity.isOneDayActivity ?? true,
   eventDate: activity.eventDate,
+  eventEndDate: activity.eventEndDate || '',
   startTime: activity.startTime,
   endTime: activity.endTime,
   registrationDeadline: activity.registrationDeadline,
@@ -380,7 +399,10 @@ export const activityToFormData = (activity: Activity): ActivityFormData => ({
   tags: [...activity.tags],
   contactEmail: activity.contactEmail,
   contactName: activity.contactName,
-  contactPhone: activity.contactPhone
+  contactPhone: activity.contactPhone,
+  sessions: activity.sessions
+    ? activity.sessions.map(session => ({ ...session, maxParticipants: session.maxParticipants || 0 }))
+    : []
 });
 
 export default useActivityForm;
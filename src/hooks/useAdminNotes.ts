@@ -1,6 +1,13 @@
 import { useState, useEffect, useCallback } from 'react';
-import { AdminNote, CreateNoteData, notesService } from '../services/notesService';
+import { AdminNote, CreateNoteData, NoteMention, notesService } from '../services/notesService';
+import { RoleService } from '../services/roleService';
+import { notificationInboxService } from '../services/notificationInboxService';
 import { useAdmin } from '../components/admin/AdminContext';
+import { extractMentions } from '../utils/noteThreads';
+import { noteMentionNotification } from '../utils/notificationEvents';
+
+// Roles that can read admin notes (isAdmin() in the rules) and so can be mentioned in them
+const MENTIONABLE_ROLES = ['super-admin', 'admin'];
 
 interface UseAdminNotesReturn {
   notes: AdminNote[];
@@ -9,16 +16,18 @@ interface UseAdminNotesReturn {
   isCreating: boolean;
   isUpdating: boolean;
   isDeleting: boolean;
-  createNote: (content: string) => Promise<void>;
+  mentionCandidates: NoteMention[];
+  createNote: (content: string, parentId?: string) => Promise<void>;
   updateNote: (noteId: string, content: string) => Promise<void>;
   deleteNote: (noteId: string) => Promise<void>;
   refreshNotes: () => Promise<void>;
   canEditNote: (note: AdminNote) => boolean;
 }
 
-export const useAdminNotes = (submissionId: string): UseAdminNotesReturn => {
+export const useAdminNotes = (submissionId: string, filmTitle = ''): UseAdminNotesReturn => {
   const { adminProfile } = useAdmin();
   const [notes, setNotes] = useState<AdminNote[]>([]);
+  const [mentionCandidates, setMentionCandidates] = useState<NoteMention[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isCreating, setIsCreating] = useState(false);
@@ -47,8 +56,33 @@ export const useAdminNotes = (submissionId: string): UseAdminNotesReturn => {
     };
   }, [submissionId]);
 
+  // Load the other admins who can be @mentioned
+  useEffect(() => {
+    if (!adminProfile) return;
+
+    RoleService.getAllUsers()
+      .then(users => setMentionCandidates(
+        users
+          .filter(user => MENTIONABLE_ROLES.includes(user.role) && user.status === 'active' && user.id !== adminProfile.uid)
+          .map(user => ({ userId: user.id, name: user.name }))
+          .sort((a, b) => a.name.localeCompare(b.name))
+      ))
+      .catch(err => console.error('Error loading mention candidates:', err));
+  }, [adminProfile]);
+
+  // Notify newly mentioned admins; notification failures never block the note itself
+  const notifyMentions = useCallback(async (mentions: NoteMention[]): Promise<void> => {
+    if (!adminProfile) return;
+
+    await Promise.all(mentions.map(mention =>
+      notificationInboxService.notify(
+        noteMentionNotification(mention.userId, submissionId, filmTitle || submissionId, adminProfile.fullNameEN)
+      )
+    ));
+  }, [submissionId, filmTitle, adminProfile]);
+
   // Create a new note
-  const createNote = useCallback(async (content: string): Promise<void> => {
+  const createNote = useCallback(async (content: string, parentId?: string): Promise<void> => {
     if (!adminProfile || !content.trim()) {
       throw new Error('Missing admin profile or content');
     }
@@ -57,16 +91,20 @@ export const useAdminNotes = (submissionId: string): UseAdminNotesReturn => {
     setError(null);
 
     try {
+      const mentions = extractMentions(content, mentionCandidates);
       const noteData: CreateNoteData = {
         submissionId,
         adminId: adminProfile.uid,
         adminName: adminProfile.fullNameEN,
         adminEmail: adminProfile.email,
         adminRole: adminProfile.adminRole,
-        content: content.trim()
+        content: content.trim(),
+        parentId,
+        mentions
       };
 
       await notesService.createNote(noteData);
+      await notifyMentions(mentions);
       // Note will be updated via real-time subscription
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to create note';
@@ -75,7 +113,7 @@ export const useAdminNotes = (submissionId: string): UseAdminNotesReturn => {
     } finally {
       setIsCreating(false);
     }
-  }, [submissionId, adminProfile]);
+  }, [submissionId, adminProfile, mentionCandidates, notifyMentions]);
 
   // Update an existing note
   const updateNote = useCallback(async (noteId: string, content: string): Promise<void> => {
@@ -87,10 +125,15 @@ export const useAdminNotes = (submissionId: string): UseAdminNotesReturn => {
     setError(null);
 
     try {
+      const mentions = extractMentions(content, mentionCandidates);
+      const previousMentionIds = (notes.find(note => note.id === noteId)?.mentions || []).map(mention => mention.userId);
+
       await notesService.updateNote(submissionId, noteId, {
         content: content.trim(),
-        editedBy: adminProfile.fullNameEN
+        editedBy: adminProfile.fullNameEN,
+        mentions
       });
+      await notifyMentions(mentions.filter(mention => !previousMentionIds.includes(mention.userId)));
       // Note will be updated via real-time subscription
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to update note';
@@ -99,7 +142,7 @@ export const useAdminNotes = (submissionId: string): UseAdminNotesReturn => {
     } finally {
       setIsUpdating(false);
     }
-  }, [submissionId, adminProfile]);
+  }, [submissionId, adminProfile, notes, mentionCandidates, notifyMentions]);
 
   // Delete a note
   const deleteNote = useCallback(async (noteId: string): Promise<void> => {
@@ -149,6 +192,7 @@ export const useAdminNotes = (submissionId: string): UseAdminNotesReturn => {
     isCreating,
     isUpdating,
     isDeleting,
+    mentionCandidates,
     createNote,
     updateNote,
     deleteNote,
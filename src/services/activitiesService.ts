@@ -35,6 +35,7 @@ import {
   ActivitySearchResult,
   ActivityStatus
 } from '../types/activities';
+import { applySessionSchedule, getEffectiveCapacity } from '../utils/activitySessions';
 
 const ACTIVITIES_COLLECTION = 'activities';
 const IMAGES_STORAGE_PATH = 'activities/images';
@@ -52,7 +53,8 @@ export class ActivitiesService {
   /**
    * Create a new activity
    */
-  async createActivity(formData: ActivityFormData, userId: string): Promise<Activity> {
+  async createActivity(rawFormData: ActivityFormData, userId: string): Promise<Activity> {
+    const formData = applySessionSchedule(rawFormData);
     console.log('Creating activity with data:', { 
       name: formData.name, 
       userId, 
@@ -80,6 +82,7 @@ export class ActivitiesService {
         isPublic: formData.isPublic,
         needSubmission: formData.needSubmission,
         maxParticipants: formData.maxParticipants,
+        effectiveCapacity: getEffectiveCapacity(formData),
         isOneDayActivity: formData.isOneDayActivity,
         eventDate: formData.eventDate,
         startTime: formData.startTime,
@@ -101,6 +104,7 @@ export class ActivitiesService {
         updatedBy: userId,
         registeredParticipants: 0,
         waitlistCount: 0,
+        attendedParticipants: 0,
         views: 0
       };
 
@@ -109,6 +113,10 @@ export class ActivitiesService {
         activityData.eventEndDate = formData.eventEndDate;
       }
 
+      if (formData.sessions && formData.sessions.length > 0) {
+        activityData.sessions = formData.sessions;
+      }
+
       console.log('Prepared activity data for Firestore:', activityData);
 
       // Add to Firestore
@@ -235,9 +243,10 @@ export class ActivitiesService {
 
       // Apply available spots filter
       if (filters?.hasAvailableSpots) {
-        activities = activities.filter(activity => 
-          (activity.registeredParticipants || 0) < activity.maxParticipants
-        );
+        activities = activities.filter(activity => {
+          const capacity = getEffectiveCapacity(activity);
+          return capacity === 0 || (activity.registeredParticipants || 0) < capacity;
+        });
       }
 
       return {
@@ -280,6 +289,32 @@ export class ActivitiesService {
     }
   }
 
+  /**
+   * Get every public activity for the festival calendar feed. Cancelled activities
+   * are included so calendar clients that imported them receive the cancellation.
+   */
+  async getCalendarFeedActivities(): Promise<Activity[]> {
+    try {
+      const q = query(
+        collection(db, ACTIVITIES_COLLECTION),
+        where('isPublic', '==', true),
+        where('status', 'in', ['published', 'cancelled']),
+        orderBy('eventDate', 'asc')
+      );
+
+      const snapshot = await getDocs(q);
+      return snapshot.docs.map(doc =>
+        this.convertFirestoreDocToActivity({
+          id: doc.id,
+          ...doc.data()
+        } as ActivityFirestoreDoc)
+      );
+    } catch (error) {
+      console.error('Error fetching calendar feed activities:', error);
+      throw new Error('Failed to fetch calendar feed activities');
+    }
+  }
+
   /**
    * Get upcoming activities
    */
@@ -334,9 +369,10 @@ export class ActivitiesService {
    */
   async updateActivity(
     activityId: string, 
-    formData: Partial<ActivityFormData>, 
+    rawFormData: Partial<ActivityFormData>, 
     userId: string
   ): Promise<Activity> {
+    const formData = applySessionSchedule(rawFormData);
     try {
       const docRef = doc(db, ACTIVITIES_COLLECTION, activityId);
       const currentDoc = await getDoc(docRef);
@@ -396,6 +432,15 @@ export class ActivitiesService {
       if (formData.registrationDeadline !== undefined) updateData.registrationDeadline = formData.registrationDeadline;
       if (formData.venueName !== undefined) updateData.venueName = formData.venueName.trim();
       if (formData.venueLocation !== undefined) updateData.venueLocation = formData.venueLocation.trim();
+      if (formData.sessions !== undefined) {
+        updateData.sessions = formData.sessions.length > 0 ? formData.sessions : deleteField();
+      }
+      if (formData.maxParticipants !== undefined || formData.sessions !== undefined) {
+        updateData.effectiveCapacity = getEffectiveCapacity({
+          maxParticipants: formData.maxParticipants ?? currentData.maxParticipants,
+          sessions: formData.sessions ?? currentData.sessions
+        });
+      }
       if (formData.description !== undefined) updateData.description = formData.description.trim();
       if (formData.organizers !== undefined) updateData.organizers = formData.organizers.map(org => org.trim()).filter(org => org.length > 0);
       if (formData.tags !== undefined) updateData.tags = formData.tags;
@@ -556,6 +601,7 @@ export class ActivitiesService {
         registrationDeadline: original.registrationDeadline,
         venueName: original.venueName,
         venueLocation: original.venueLocation || '',
+        sessions: (original.sessions || []).map(session => ({ ...session })),
         description: original.description,
         organizers: [...original.organizers],
         tags: [...original.tags],
@@ -636,6 +682,8 @@ export class ActivitiesService {
       };
 
       let totalParticipants = 0;
+      const today = new Date().toISOString().split('T')[0];
+      const attendanceByActivity: ActivityAnalytics['attendanceByActivity'] = [];
       const tagCounts: Record<string, number> = {};
       const monthlyData: Record<string, { created: number; completed: number; participants: number }> = {};
 
@@ -646,6 +694,20 @@ export class ActivitiesService {
         // Participant counts
         totalParticipants += activity.registeredParticipants || 0;
 
+        // Show-up rate only makes sense for ticketed activities that have already started
+        const registered = activity.registeredParticipants || 0;
+        if (activity.needSubmission && registered > 0 && activity.eventDate <= today && activity.status !== 'cancelled') {
+          const attended = activity.attendedParticipants || 0;
+          attendanceByActivity.push({
+            activityId: activity.id,
+            name: activity.name,
+            eventDate: activity.eventDate,
+            registered,
+            attended,
+            showUpRate: Math.round((attended / registered) * 100)
+          });
+        }
+
         // Tag popularity
         activity.tags.forEach(tag => {
           tagCounts[tag] = (tagCounts[tag] || 0) + 1;
@@ -667,7 +729,6 @@ export class ActivitiesService {
       // Calculate derived metrics
       const totalActivities = activities.length;
       const averageParticipantsPerEvent = totalActivities > 0 ? Math.round(totalParticipants / totalActivities) : 0;
-      const today = new Date().toISOString().split('T')[0];
       const upcomingEvents = activities.filter(a => a.eventDate >= today && a.status === 'published').length;
       const completedEvents = activitiesByStatus.completed;
 
@@ -677,6 +738,12 @@ export class ActivitiesService {
         .sort((a, b) => b.count - a.count)
         .slice(0, 10);
 
+      // Overall show-up rate across activities that have taken place
+      const attendedRegistered = attendanceByActivity.reduce((sum, a) => sum + a.registered, 0);
+      const totalAttended = attendanceByActivity.reduce((sum, a) => sum + a.attended, 0);
+      const showUpRate = attendedRegistered > 0 ? Math.round((totalAttended / attendedRegistered) * 100) : 0;
+      attendanceByActivity.sort((a, b) => b.eventDate.localeCompare(a.eventDate));
+
       // Monthly trends (last 12 months)
       const monthlyTrends = Object.entries(monthlyData)
         .map(([month, data]) => ({
@@ -696,6 +763,9 @@ export class ActivitiesService {
         upcomingEvents,
         completedEvents,
         popularTags,
+        totalAttended,
+        showUpRate,
+        attendanceByActivity,
         monthlyTrends
       };
     } catch (error) {
@@ -725,27 +795,6 @@ export class ActivitiesService {
     }
   }
 
-  /**
-   * Update participant count
-   */
-  async updateParticipantCount(
-    activityId: string, 
-    registeredCount: number, 
-    waitlistCount = 0
-  ): Promise<void> {
-    try {
-      const docRef = doc(db, ACTIVITIES_COLLECTION, activityId);
-      await updateDoc(docRef, {
-        registeredParticipants: registeredCount,
-        waitlistCount,
-        updatedAt: serverTimestamp()
-      });
-    } catch (error) {
-      console.error('Error updating participant count:', error);
-      throw new Error('Failed to update participant count');
-    }
-  }
-
   /**
    * Private helper methods
    */
@@ -848,6 +897,7 @@ export class ActivitiesService {
       registrationDeadline: doc.registrationDeadline,
       venueName: doc.venueName,
       venueLocation: doc.venueLocation,
+      sessions: doc.sessions || [],
       description: doc.description,
       organizers: doc.organizers,
       tags: doc.tags,
@@ -860,6 +910,7 @@ export class ActivitiesService {
       updatedBy: doc.updatedBy,
       registeredParticipants: doc.registeredParticipants || 0,
       waitlistCount: doc.waitlistCount || 0,
+      attendedParticipants: doc.attendedParticipants || 0,
       views: doc.views || 0
     };
   }
@@ -0,0 +1,863 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  getDoc,
+  updateDoc,
+  query,
+  limit,
+  where,
+  orderBy,
+  runTransaction,
+  serverTimestamp,
+  Timestamp,
+  Transaction
+} from 'firebase/firestore';
+import { db } from '../firebase';
+import {
+  Activity,
+  ActivityFirestoreDoc,
+  ActivityRegistration,
+  ActivityRegistrationFirestoreDoc,
+  RegistrationStatus,
+  RegistrationResult,
+  CancellationResult,
+  ActivityTicket,
+  CheckInResult
+} from '../types/activities';
+import {
+  generateTicketSecret,
+  signTicket,
+  buildTicketPayload,
+  parseTicketPayload,
+  getTicketShortCode,
+  normalizeTicketShortCode
+} from '../utils/ticketCodes';
+import { registrationConfirmedNotification } from '../utils/notificationEvents';
+import { notificationInboxService } from './notificationInboxService';
+
+const ACTIVITIES_COLLECTION = 'activities';
+const REGISTRATIONS_COLLECTION = 'activityRegistrations';
+// One document per activity holding the waitlisted user IDs in queue order.
+// Participants cannot list each other's registrations, so promotion reads this instead.
+const WAITLISTS_COLLECTION = 'activityWaitlists';
+const PROFILES_COLLECTION = 'profiles';
+
+export interface RegistrantInfo {
+  userId: string;
+  userName: string;
+  userEmail: string;
+  userPhone?: string;
+}
+
+export interface ManualRegistrantInfo {
+  userName: string;
+  userEmail: string;
+  userPhone?: string;
+}
+
+export type RegistrationClosedReason =
+  | 'no-registration-needed'
+  | 'unpublished'
+  | 'closed'
+  | 'past';
+
+export class RegistrationError extends Error {
+  constructor(
+    message: string,
+    public code: RegistrationClosedReason | 'not-found' | 'already-registered' | 'not-registered' | 'invalid-status'
+  ) {
+    super(message);
+    this.name = 'RegistrationError';
+  }
+}
+
+export type CheckInErrorCode =
+  | 'invalid-code'
+  | 'wrong-activity'
+  | 'not-found'
+  | 'not-confirmed'
+  | 'already-checked-in';
+
+export class CheckInError extends Error {
+  constructor(
+    message: string,
+    public code: CheckInErrorCode,
+    public registration?: ActivityRegistration
+  ) {
+    super(message);
+    this.name = 'CheckInError';
+  }
+}
+
+/**
+ * Registration is open until the end of the deadline day and never after the event has started
+ */
+export const getRegistrationClosedReason = (
+  activity: Pick<Activity, 'needSubmission' | 'status' | 'registrationDeadline' | 'eventDate' | 'startTime'>,
+  now: Date = new Date()
+): RegistrationClosedReason | null => {
+  if (!activity.needSubmission) return 'no-registration-needed';
+  if (activity.status !== 'published') return 'unpublished';
+
+  const deadline = new Date(`${activity.registrationDeadline.slice(0, 10)}T23:59:59`);
+  if (now > deadline) return 'closed';
+
+  const eventStart = new Date(`${activity.eventDate.slice(0, 10)}T${activity.startTime || '00:00'}`);
+  if (now > eventStart) return 'past';
+
+  return null;
+};
+
+/**
+ * Confirmed and attended registrations both occupy a seat
+ */
+export const occupiesSeat = (status: RegistrationStatus): boolean =>
+  status === 'confirmed' || status === 'attended';
+
+export class ActivityRegistrationService {
+  private static instance: ActivityRegistrationService;
+
+  static getInstance(): ActivityRegistrationService {
+    if (!ActivityRegistrationService.instance) {
+      ActivityRegistrationService.instance = new ActivityRegistrationService();
+    }
+    return ActivityRegistrationService.instance;
+  }
+
+  /**
+   * Registration documents use a deterministic ID so a user can hold at most one per activity
+   */
+  getRegistrationId(activityId: string, userId: string): string {
+    return `${activityId}_${userId}`;
+  }
+
+  /**
+   * Register a user for an activity. Capacity is enforced inside a transaction;
+   * once the activity is full the user is placed on the waitlist instead.
+   */
+  async register(activityId: string, registrant: RegistrantInfo): Promise<RegistrationResult> {
+    const activityRef = doc(db, ACTIVITIES_COLLECTION, activityId);
+    const registrationId = this.getRegistrationId(activityId, registrant.userId);
+    const registrationRef = doc(db, REGISTRATIONS_COLLECTION, registrationId);
+
+    try {
+      const ticketFields = await this.createTicketFields(activityId, registrant.userId);
+      const status = await runTransaction(db, async (transaction) => {
+        const activitySnap = await transaction.get(activityRef);
+        if (!activitySnap.exists()) {
+          throw new RegistrationError('Activity not found', 'not-found');
+        }
+
+        const activityData = activitySnap.data() as ActivityFirestoreDoc;
+        const closedReason = getRegistrationClosedReason({
+          needSubmission: activityData.needSubmission || false,
+          status: activityData.status,
+          registrationDeadline: activityData.registrationDeadline,
+          eventDate: activityData.eventDate,
+          startTime: activityData.startTime
+        });
+        if (closedReason) {
+          throw new RegistrationError('Registration is not open for this activity', closedReason);
+        }
+
+        const registrationSnap = await transaction.get(registrationRef);
+        if (registrationSnap.exists()) {
+          const existing = registrationSnap.data() as ActivityRegistrationFirestoreDoc;
+          if (existing.status !== 'cancelled') {
+            throw new RegistrationError('Already registered for this activity', 'already-registered');
+          }
+        }
+
+        const waitlistRef = doc(db, WAITLISTS_COLLECTION, activityId);
+        const waitlistSnap = await transaction.get(waitlistRef);
+        const queue: string[] = waitlistSnap.exists() ? waitlistSnap.data().queue || [] : [];
+
+        const registeredCount = activityData.registeredParticipants || 0;
+        const capacity = this.getCapacity(activityData);
+        const isFull = capacity > 0 && registeredCount >= capacity;
+        const newStatus: RegistrationStatus = isFull ? 'waitlisted' : 'confirmed';
+
+        // Re-registering after a cancellation reuses the document but resets its timestamps,
+        // so the user goes to the back of the waitlist
+        transaction.set(registrationRef, {
+          activityId,
+          userId: registrant.userId,
+          userName: registrant.userName.trim(),
+          userEmail: registrant.userEmail.trim(),
+          userPhone: registrant.userPhone?.trim() || '',
+          status: newStatus,
+          ...ticketFields,
+          registeredAt: serverTimestamp(),
+          updatedAt: serverTimestamp()
+        });
+
+        if (isFull) {
+          queue.push(registrant.userId);
+          transaction.set(waitlistRef, { activityId, queue, updatedAt: serverTimestamp() });
+        } else {
+          this.notifyConfirmed(transaction, registrant.userId, activityId, activityData.name, false);
+        }
+
+        transaction.update(activityRef, {
+          registeredParticipants: isFull ? registeredCount : registeredCount + 1,
+          waitlistCount: queue.length,
+          updatedAt: serverTimestamp()
+        });
+
+        return newStatus;
+      });
+
+      const registration = await this.getRegistration(activityId, registrant.userId);
+      if (!registration) {
+        throw new Error('Registration was not saved');
+      }
+
+      return { registration, waitlisted: status === 'waitlisted' };
+    } catch (error) {
+      console.error('Error registering for activity:', error);
+      throw this.toServiceError(error, 'register for activity');
+    }
+  }
+
+  /**
+   * Cancel a registration. If a confirmed seat is released and the activity
+   * is no longer full, the user at the head of the waitlist queue is promoted
+   * in the same transaction.
+   */
+  async cancel(activityId: string, userId: string): Promise<CancellationResult> {
+    const activityRef = doc(db, ACTIVITIES_COLLECTION, activityId);
+    const registrationRef = doc(db, REGISTRATIONS_COLLECTION, this.getRegistrationId(activityId, userId));
+    const waitlistRef = doc(db, WAITLISTS_COLLECTION, activityId);
+
+    try {
+      const promotedRegistrationId = await runTransaction(db, async (transaction) => {
+        const activitySnap = await transaction.get(activityRef);
+        if (!activitySnap.exists()) {
+          throw new RegistrationError('Activity not found', 'not-found');
+        }
+
+        const registrationSnap = await transaction.get(registrationRef);
+        if (!registrationSnap.exists()) {
+          throw new RegistrationError('No registration found for this activity', 'not-registered');
+        }
+
+        const registrationData = registrationSnap.data() as ActivityRegistrationFirestoreDoc;
+        if (registrationData.status === 'cancelled') {
+          throw new RegistrationError('Registration is already cancelled', 'not-registered');
+        }
+        if (registrationData.status === 'attended') {
+          throw new RegistrationError('A checked-in registration cannot be cancelled', 'invalid-status');
+        }
+
+        const waitlistSnap = await transaction.get(waitlistRef);
+        const queue: string[] = (waitlistSnap.exists() ? waitlistSnap.data().queue || [] : [])
+          .filter((queuedUserId: string) => queuedUserId !== userId);
+
+        const activityData = activitySnap.data() as ActivityFirestoreDoc;
+        let registeredCount = activityData.registeredParticipants || 0;
+        const capacity = this.getCapacity(activityData);
+
+        transaction.update(registrationRef, {
+          status: 'cancelled',
+          cancelledAt: serverTimestamp(),
+          updatedAt: serverTimestamp()
+        });
+
+        // A released seat goes to the head of the queue, unless an admin overbooked
+        // the activity and it is still full
+        let promotedId: string | undefined;
+        if (occupiesSeat(registrationData.status)) {
+          registeredCount = Math.max(registeredCount - 1, 0);
+
+          const nextUserId = capacity === 0 || registeredCount < capacity ? queue.shift() : undefined;
+          if (nextUserId) {
+            promotedId = this.getRegistrationId(activityId, nextUserId);
+            transaction.update(doc(db, REGISTRATIONS_COLLECTION, promotedId), {
+              status: 'confirmed',
+              promotedAt: serverTimestamp(),
+              updatedAt: serverTimestamp()
+            });
+            this.notifyConfirmed(transaction, nextUserId, activityId, activityData.name, true);
+            registeredCount += 1;
+          }
+        }
+
+        if (waitlistSnap.exists()) {
+          transaction.set(waitlistRef, { activityId, queue, updatedAt: serverTimestamp() });
+        }
+
+        transaction.update(activityRef, {
+          registeredParticipants: registeredCount,
+          waitlistCount: queue.length,
+          updatedAt: serverTimestamp()
+        });
+
+        return promotedId;
+      });
+
+      const registration = await this.getRegistration(activityId, userId);
+      if (!registration) {
+        throw new Error('Registration not found after cancellation');
+      }
+
+      return { registration, promotedRegistrationId };
+    } catch (error) {
+      console.error('Error cancelling registration:', error);
+      throw this.toServiceError(error, 'cancel registration');
+    }
+  }
+
+  /**
+   * Get a user's registration for an activity
+   */
+  async getRegistration(activityId: string, userId: string): Promise<ActivityRegistration | null> {
+    try {
+      const docSnap = await getDoc(doc(db, REGISTRATIONS_COLLECTION, this.getRegistrationId(activityId, userId)));
+
+      if (docSnap.exists()) {
+        return this.convertFirestoreDocToRegistration(docSnap.id, docSnap.data() as ActivityRegistrationFirestoreDoc);
+      }
+
+      return null;
+    } catch (error) {
+      console.error('Error fetching registration:', error);
+      throw new Error('Failed to fetch registration');
+    }
+  }
+
+  /**
+   * Get all registrations for an activity, oldest first
+   */
+  async getRegistrationsForActivity(
+    activityId: string,
+    status?: RegistrationStatus
+  ): Promise<ActivityRegistration[]> {
+    try {
+      let q = query(
+        collection(db, REGISTRATIONS_COLLECTION),
+        where('activityId', '==', activityId)
+      );
+
+      if (status) {
+        q = query(q, where('status', '==', status));
+      }
+
+      q = query(q, orderBy('registeredAt', 'asc'));
+
+      const snapshot = await getDocs(q);
+      return snapshot.docs.map(docSnap =>
+        this.convertFirestoreDocToRegistration(docSnap.id, docSnap.data() as ActivityRegistrationFirestoreDoc)
+      );
+    } catch (error) {
+      console.error('Error fetching activity registrations:', error);
+      throw new Error('Failed to fetch activity registrations');
+    }
+  }
+
+  /**
+   * Get all registrations made by a user, newest first
+   */
+  async getRegistrationsForUser(userId: string): Promise<ActivityRegistration[]> {
+    try {
+      const q = query(
+        collection(db, REGISTRATIONS_COLLECTION),
+        where('userId', '==', userId),
+        orderBy('registeredAt', 'desc')
+      );
+
+      const snapshot = await getDocs(q);
+      return snapshot.docs.map(docSnap =>
+        this.convertFirestoreDocToRegistration(docSnap.id, docSnap.data() as ActivityRegistrationFirestoreDoc)
+      );
+    } catch (error) {
+      console.error('Error fetching user registrations:', error);
+      throw new Error('Failed to fetch user registrations');
+    }
+  }
+
+  /**
+   * Manually add a participant (admin only). Capacity is not enforced so organizers can overbook.
+   * Registrants are matched to an existing account by email; otherwise a guest ID is derived
+   * from the email, so the same guest cannot be added twice.
+   */
+  async addParticipant(
+    activityId: string,
+    registrant: ManualRegistrantInfo,
+    status: 'confirmed' | 'waitlisted',
+    adminId: string
+  ): Promise<ActivityRegistration> {
+    const activityRef = doc(db, ACTIVITIES_COLLECTION, activityId);
+    const waitlistRef = doc(db, WAITLISTS_COLLECTION, activityId);
+
+    try {
+      const accountId = await this.findUserIdByEmail(registrant.userEmail);
+      const userId = accountId || await this.getGuestUserId(registrant.userEmail);
+      const registrationRef = doc(db, REGISTRATIONS_COLLECTION, this.getRegistrationId(activityId, userId));
+      const ticketFields = await this.createTicketFields(activityId, userId);
+
+      await runTransaction(db, async (transaction) => {
+        const activitySnap = await transaction.get(activityRef);
+        if (!activitySnap.exists()) {
+          throw new RegistrationError('Activity not found', 'not-found');
+        }
+
+        const registrationSnap = await transaction.get(registrationRef);
+        if (registrationSnap.exists() && registrationSnap.data().status !== 'cancelled') {
+          throw new RegistrationError('This person is already registered for this activity', 'already-registered');
+        }
+
+        const waitlistSnap = await transaction.get(waitlistRef);
+        const queue: string[] = waitlistSnap.exists() ? waitlistSnap.data().queue || [] : [];
+        const activityData = activitySnap.data() as ActivityFirestoreDoc;
+        let registeredCount = activityData.registeredParticipants || 0;
+
+        transaction.set(registrationRef, {
+          activityId,
+          userId,
+          userName: registrant.userName.trim(),
+          userEmail: registrant.userEmail.trim(),
+          userPhone: registrant.userPhone?.trim() || '',
+          status,
+          ...ticketFields,
+          addedBy: adminId,
+          registeredAt: serverTimestamp(),
+          updatedAt: serverTimestamp()
+        });
+
+        if (status === 'waitlisted') {
+          queue.push(userId);
+          transaction.set(waitlistRef, { activityId, queue, updatedAt: serverTimestamp() });
+        } else {
+          registeredCount += 1;
+          // Guests have no account, so there is no inbox to notify
+          if (accountId) {
+            this.notifyConfirmed(transaction, accountId, activityId, activityData.name, false);
+          }
+        }
+
+        transaction.update(activityRef, {
+          registeredParticipants: registeredCount,
+          waitlistCount: queue.length,
+          updatedAt: serverTimestamp()
+        });
+      });
+
+      const registration = await this.getRegistration(activityId, userId);
+      if (!registration) {
+        throw new Error('Registration was not saved');
+      }
+
+      return registration;
+    } catch (error) {
+      console.error('Error adding participant:', error);
+      throw this.toServiceError(error, 'add participant');
+    }
+  }
+
+  /**
+   * Move a participant between the waitlist and confirmed seats (admin only).
+   * Confirming does not check capacity; a participant moved back to the waitlist goes to the head of the queue.
+   */
+  async moveParticipant(
+    activityId: string,
+    userId: string,
+    toStatus: 'confirmed' | 'waitlisted'
+  ): Promise<ActivityRegistration> {
+    const activityRef = doc(db, ACTIVITIES_COLLECTION, activityId);
+    const registrationRef = doc(db, REGISTRATIONS_COLLECTION, this.getRegistrationId(activityId, userId));
+    const waitlistRef = doc(db, WAITLISTS_COLLECTION, activityId);
+
+    try {
+      await runTransaction(db, async (transaction) => {
+        const activitySnap = await transaction.get(activityRef);
+        if (!activitySnap.exists()) {
+          throw new RegistrationError('Activity not found', 'not-found');
+        }
+
+        const registrationSnap = await transaction.get(registrationRef);
+        if (!registrationSnap.exists()) {
+          throw new RegistrationError('No registration found for this activity', 'not-registered');
+        }
+
+        const currentStatus = (registrationSnap.data() as ActivityRegistrationFirestoreDoc).status;
+        const canMove = toStatus === 'confirmed' ? currentStatus === 'waitlisted' : currentStatus === 'confirmed';
+        if (!canMove) {
+          throw new RegistrationError(`Cannot move a ${currentStatus} registration to ${toStatus}`, 'invalid-status');
+        }
+
+        const waitlistSnap = await transaction.get(waitlistRef);
+        let queue: string[] = (waitlistSnap.exists() ? waitlistSnap.data().queue || [] : [])
+          .filter((queuedUserId: string) => queuedUserId !== userId);
+        const activityData = activitySnap.data() as ActivityFirestoreDoc;
+        let registeredCount = activityData.registeredParticipants || 0;
+
+        if (toStatus === 'confirmed') {
+          registeredCount += 1;
+          transaction.update(registrationRef, {
+            status: 'confirmed',
+            promotedAt: serverTimestamp(),
+            updatedAt: serverTimestamp()
+          });
+          if (!userId.startsWith('guest-')) {
+            this.notifyConfirmed(transaction, userId, activityId, activityData.name, true);
+          }
+        } else {
+          registeredCount = Math.max(registeredCount - 1, 0);
+          queue = [userId, ...queue];
+          transaction.update(registrationRef, {
+            status: 'waitlisted',
+            updatedAt: serverTimestamp()
+          });
+        }
+
+        transaction.set(waitlistRef, { activityId, queue, updatedAt: serverTimestamp() });
+        transaction.update(activityRef, {
+          registeredParticipants: registeredCount,
+          waitlistCount: queue.length,
+          updatedAt: serverTimestamp()
+        });
+      });
+
+      const registration = await this.getRegistration(activityId, userId);
+      if (!registration) {
+        throw new Error('Registration not found after update');
+      }
+
+      return registration;
+    } catch (error) {
+      console.error('Error moving participant:', error);
+      throw this.toServiceError(error, 'move participant');
+    }
+  }
+
+  /**
+   * Remove a participant from the roster entirely (admin only).
+   * Unlike a cancellation, no waitlisted participant is promoted automatically.
+   */
+  async removeParticipant(activityId: string, userId: string): Promise<void> {
+    const activityRef = doc(db, ACTIVITIES_COLLECTION, activityId);
+    const registrationRef = doc(db, REGISTRATIONS_COLLECTION, this.getRegistrationId(activityId, userId));
+    const waitlistRef = doc(db, WAITLISTS_COLLECTION, activityId);
+
+    try {
+      await runTransaction(db, async (transaction) => {
+        const activitySnap = await transaction.get(activityRef);
+        if (!activitySnap.exists()) {
+          throw new RegistrationError('Activity not found', 'not-found');
+        }
+
+        const registrationSnap = await transaction.get(registrationRef);
+        if (!registrationSnap.exists()) {
+          throw new RegistrationError('No registration found for this activity', 'not-registered');
+        }
+
+        const waitlistSnap = await transaction.get(waitlistRef);
+        const queue: string[] = (waitlistSnap.exists() ? waitlistSnap.data().queue || [] : [])
+          .filter((queuedUserId: string) => queuedUserId !== userId);
+        const activityData = activitySnap.data() as ActivityFirestoreDoc;
+        const status = (registrationSnap.data() as ActivityRegistrationFirestoreDoc).status;
+        const registeredCount = activityData.registeredParticipants || 0;
+
+        transaction.delete(registrationRef);
+        if (waitlistSnap.exists()) {
+          transaction.set(waitlistRef, { activityId, queue, updatedAt: serverTimestamp() });
+        }
+        const attendedCount = activityData.attendedParticipants || 0;
+        transaction.update(activityRef, {
+          registeredParticipants: occupiesSeat(status) ? Math.max(registeredCount - 1, 0) : registeredCount,
+          waitlistCount: queue.length,
+          attendedParticipants: status === 'attended' ? Math.max(attendedCount - 1, 0) : attendedCount,
+          updatedAt: serverTimestamp()
+        });
+      });
+    } catch (error) {
+      console.error('Error removing participant:', error);
+      throw this.toServiceError(error, 'remove participant');
+    }
+  }
+
+  /**
+   * Rebuild the counters and the waitlist queue from the registrations collection (admin only).
+   * Used to repair drift, e.g. after registrations were edited directly in the console.
+   */
+  async syncParticipantCounts(
+    activityId: string
+  ): Promise<{ registeredParticipants: number; waitlistCount: number; attendedParticipants: number }> {
+    try {
+      const registrations = await this.getRegistrationsForActivity(activityId);
+      const registeredParticipants = registrations.filter(r => occupiesSeat(r.status)).length;
+      const queue = registrations.filter(r => r.status === 'waitlisted').map(r => r.userId);
+      const waitlistCount = queue.length;
+      const attendedParticipants = registrations.filter(r => r.status === 'attended').length;
+
+      await runTransaction(db, async (transaction) => {
+        const activityRef = doc(db, ACTIVITIES_COLLECTION, activityId);
+        const activitySnap = await transaction.get(activityRef);
+        if (!activitySnap.exists()) {
+          throw new RegistrationError('Activity not found', 'not-found');
+        }
+
+        transaction.set(doc(db, WAITLISTS_COLLECTION, activityId), {
+          activityId,
+          queue,
+          updatedAt: serverTimestamp()
+        });
+        transaction.update(activityRef, {
+          registeredParticipants,
+          waitlistCount,
+          attendedParticipants,
+          updatedAt: serverTimestamp()
+        });
+      });
+
+      return { registeredParticipants, waitlistCount, attendedParticipants };
+    } catch (error) {
+      console.error('Error syncing participant counts:', error);
+      throw new Error('Failed to sync participant counts');
+    }
+  }
+
+  /**
+   * Get the ticket for a confirmed registration. Registrations created before
+   * ticketing existed are issued a signing secret on first access.
+   */
+  async getTicket(activityId: string, userId: string): Promise<ActivityTicket> {
+    try {
+      let registration = await this.getRegistration(activityId, userId);
+      if (!registration) {
+        throw new RegistrationError('No registration found for this activity', 'not-registered');
+      }
+      if (!occupiesSeat(registration.status)) {
+        throw new RegistrationError('Tickets are only issued for confirmed registrations', 'invalid-status');
+      }
+
+      if (!registration.ticketSecret) {
+        const ticketFields = await this.createTicketFields(activityId, userId);
+        await updateDoc(doc(db, REGISTRATIONS_COLLECTION, registration.id), {
+          ...ticketFields,
+          updatedAt: serverTimestamp()
+        });
+        registration = { ...registration, ...ticketFields };
+      }
+
+      const signature = await signTicket(activityId, userId, registration.ticketSecret as string);
+      return {
+        registration,
+        payload: buildTicketPayload(activityId, userId, signature),
+        shortCode: getTicketShortCode(signature)
+      };
+    } catch (error) {
+      console.error('Error fetching ticket:', error);
+      throw this.toServiceError(error, 'fetch ticket');
+    }
+  }
+
+  /**
+   * Check a ticket in at the door (admin only). Accepts either a scanned QR payload
+   * or a typed short code, verifies the signature against the registration and marks it attended.
+   * A ticket can only be checked in once.
+   */
+  async checkIn(activityId: string, code: string, adminId: string): Promise<CheckInResult> {
+    const activityRef = doc(db, ACTIVITIES_COLLECTION, activityId);
+
+    try {
+      const registration = await this.findRegistrationForTicketCode(activityId, code);
+      const registrationRef = doc(db, REGISTRATIONS_COLLECTION, registration.id);
+
+      const attendedParticipants = await runTransaction(db, async (transaction) => {
+        const activitySnap = await transaction.get(activityRef);
+        if (!activitySnap.exists()) {
+          throw new CheckInError('Activity not found', 'not-found');
+        }
+
+        const registrationSnap = await transaction.get(registrationRef);
+        if (!registrationSnap.exists()) {
+          throw new CheckInError('No registration found for this ticket', 'not-found');
+        }
+
+        const current = this.convertFirestoreDocToRegistration(
+          registrationSnap.id,
+          registrationSnap.data() as ActivityRegistrationFirestoreDoc
+        );
+        if (current.status === 'attended') {
+          throw new CheckInError('This ticket has already been checked in', 'already-checked-in', current);
+        }
+        if (current.status !== 'confirmed') {
+          throw new CheckInError(`This registration is ${current.status}, not confirmed`, 'not-confirmed', current);
+        }
+
+        const attendedCount = ((activitySnap.data() as ActivityFirestoreDoc).attendedParticipants || 0) + 1;
+        transaction.update(registrationRef, {
+          status: 'attended',
+          checkedInAt: serverTimestamp(),
+          checkedInBy: adminId,
+          updatedAt: serverTimestamp()
+        });
+        transaction.update(activityRef, {
+          attendedParticipants: attendedCount,
+          updatedAt: serverTimestamp()
+        });
+
+        return attendedCount;
+      });
+
+      const updated = await this.getRegistration(activityId, registration.userId);
+      if (!updated) {
+        throw new Error('Registration not found after check-in');
+      }
+
+      return { registration: updated, attendedParticipants };
+    } catch (error) {
+      console.error('Error checking in ticket:', error);
+      if (error instanceof CheckInError) {
+        throw error;
+      }
+      throw this.toServiceError(error, 'check in ticket');
+    }
+  }
+
+  /**
+   * Private helper methods
+   */
+  private notifyConfirmed(
+    transaction: Transaction,
+    userId: string,
+    activityId: string,
+    activityName: string,
+    promoted: boolean
+  ): void {
+    transaction.set(
+      notificationInboxService.newNotificationRef(),
+      notificationInboxService.createNotificationData(
+        registrationConfirmedNotification(userId, activityId, activityName, promoted)
+      )
+    );
+  }
+
+  private async createTicketFields(
+    activityId: string,
+    userId: string
+  ): Promise<{ ticketSecret: string; ticketCode: string }> {
+    const ticketSecret = generateTicketSecret();
+    const signature = await signTicket(activityId, userId, ticketSecret);
+    return { ticketSecret, ticketCode: getTicketShortCode(signature) };
+  }
+
+  private async findRegistrationForTicketCode(activityId: string, code: string): Promise<ActivityRegistration> {
+    const payload = parseTicketPayload(code);
+
+    if (payload) {
+      if (payload.activityId !== activityId) {
+        throw new CheckInError('This ticket is for a different activity', 'wrong-activity');
+      }
+
+      const registration = await this.getRegistration(activityId, payload.userId);
+      if (!registration || !registration.ticketSecret) {
+        throw new CheckInError('No registration found for this ticket', 'not-found');
+      }
+
+      const expected = await signTicket(activityId, payload.userId, registration.ticketSecret);
+      if (expected !== payload.signature) {
+        throw new CheckInError('Ticket signature is invalid', 'invalid-code');
+      }
+
+      return registration;
+    }
+
+    const shortCode = normalizeTicketShortCode(code);
+    if (!shortCode) {
+      throw new CheckInError('Not a valid ticket code', 'invalid-code');
+    }
+
+    const snapshot = await getDocs(query(
+      collection(db, REGISTRATIONS_COLLECTION),
+      where('activityId', '==', activityId),
+      where('ticketCode', '==', shortCode),
+      limit(1)
+    ));
+    if (snapshot.empty) {
+      throw new CheckInError('No registration found for this code', 'not-found');
+    }
+
+    const docSnap = snapshot.docs[0];
+    return this.convertFirestoreDocToRegistration(docSnap.id, docSnap.data() as ActivityRegistrationFirestoreDoc);
+  }
+
+  // The limit the security rules enforce: the effective capacity saved with the activity,
+  // or maxParticipants for activities saved before sessions had their own capacity
+  private getCapacity(activityData: ActivityFirestoreDoc): number {
+    return activityData.effectiveCapacity ?? (activityData.maxParticipants || 0);
+  }
+
+  // Firebase Auth stores account emails lowercased, so profiles match this form
+  private normalizeEmail(email: string): string {
+    return email.trim().toLowerCase();
+  }
+
+  private async findUserIdByEmail(email: string): Promise<string | null> {
+    const q = query(
+      collection(db, PROFILES_COLLECTION),
+      where('email', '==', this.normalizeEmail(email)),
+      limit(1)
+    );
+
+    const snapshot = await getDocs(q);
+    return snapshot.empty ? null : snapshot.docs[0].id;
+  }
+
+  private async getGuestUserId(email: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(this.normalizeEmail(email)));
+    const hex = Array.from(new Uint8Array(digest))
+      .map(byte => byte.toString(16).padStart(2, '0'))
+      .join('');
+    return `guest-${hex.slice(0, 20)}`;
+  }
+
+  private toServiceError(error: unknown, action: string): Error {
+    if (error instanceof RegistrationError) {
+      return error;
+    }
+
+    if (error instanceof Error) {
+      if (error.message.includes('permission-denied')) {
+        return new Error('Permission denied. Please sign in and try again.');
+      } else if (error.message.includes('network')) {
+        return new Error('Network error. Please check your internet connection.');
+      }
+      return new Error(`Failed to ${action}: ${error.message}`);
+    }
+
+    return new Error(`Failed to ${action} due to an unknown error`);
+  }
+
+  private toISOString(value: Timestamp | null | undefined): string | undefined {
+    return value ? value.toDate().toISOString() : undefined;
+  }
+
+  private convertFirestoreDocToRegistration(id: string, data: ActivityRegistrationFirestoreDoc): ActivityRegistration {
+    return {
+      id,
+      activityId: data.activityId,
+      userId: data.userId,
+      userName: data.userName,
+      userEmail: data.userEmail,
+      userPhone: data.userPhone || undefined,
+      status: data.status,
+      // Pending server timestamps read back as null from the local cache
+      registeredAt: this.toISOString(data.registeredAt) || new Date().toISOString(),
+      updatedAt: this.toISOString(data.updatedAt) || new Date().toISOString(),
+      cancelledAt: this.toISOString(data.cancelledAt),
+      promotedAt: this.toISOString(data.promotedAt),
+      addedBy: data.addedBy,
+      ticketSecret: data.ticketSecret,
+      ticketCode: data.ticketCode,
+      checkedInAt: this.toISOString(data.checkedInAt),
+      checkedInBy: data.checkedInBy
+    };
+  }
+}
+
+// Export singleton instance
+export const activityRegistrationService = ActivityRegistrationService.getInstance();
+export default activityRegistrationService;
@@ -8,11 +8,22 @@ import {
   getDoc,
   limit,
   startAfter,
+  getCountFromServer,
+  Query,
   QueryDocumentSnapshot,
   Timestamp
 } from 'firebase/firestore';
 import { db } from '../firebase';
-import { AdminApplicationData, DashboardStats, GenreStats, CountryStats } from '../types/admin.types';
+import {
+  AdminApplicationData,
+  DashboardStats,
+  GenreStats,
+  CountryStats,
+  SubmissionExportDetails
+} from '../types/admin.types';
+import { shortFilmCommentsService } from './shortFilmCommentsService';
+import { toSubmissionExportDetails } from '../utils/submissionExport';
+import { getSearchToken } from '../utils/searchIndex';
 
 export interface SubmissionFilters {
   category?: 'youth' | 'future' | 'world' | 'all';
@@ -256,30 +267,7 @@ class AdminSubmissionService {
     lastDoc?: QueryDocumentSnapshot
   ): Promise<PaginatedResult<AdminApplicationData>> {
     try {
-      const submissionsRef = collection(db, 'submissions');
-      let q = query(submissionsRef, orderBy('createdAt', 'desc'));
-
-      // Apply filters
-      if (filters.category && filters.category !== 'all') {
-        q = query(q, where('category', '==', filters.category));
-      }
-
-      if (filters.status && filters.status !== 'all') {
-        q = query(q, where('status', '==', filters.status));
-      }
-
-      if (filters.country) {
-        q = query(q, where('country', '==', filters.country));
-      }
-
-      // Date range filter
-      if (filters.dateRange?.start) {
-        q = query(q, where('createdAt', '>=', Timestamp.fromDate(filters.dateRange.start)));
-      }
-      
-      if (filters.dateRange?.end) {
-        q = query(q, where('createdAt', '<=', Timestamp.fromDate(filters.dateRange.end)));
-      }
+      let q = query(this.buildFilteredQuery(filters), orderBy('createdAt', 'desc'));
 
       // Pagination
       if (lastDoc) {
@@ -288,7 +276,10 @@ class AdminSubmissionService {
       
       q = query(q, limit(pageSize + 1)); // Get one extra to check if there are more
 
-      const snapshot = await getDocs(q);
+      const [snapshot, total] = await Promise.all([
+        getDocs(q),
+        this.getTotalSubmissionsCount(filters)
+      ]);
       const docs = snapshot.docs;
       
       const hasMore = docs.length > pageSize;
@@ -324,7 +315,8 @@ class AdminSubmissionService {
           files: {
             filmFile: data.files?.filmFile || { url: '', name: '', size: 0 },
             posterFile: data.files?.posterFile || { url: '', name: '', size: 0 },
-            proofFile: data.files?.proofFile
+            proofFile: data.files?.proofFile,
+            subtitles: data.files?.subtitles || []
           },
           
           // Admin fields (initialize if not present)
@@ -341,23 +333,11 @@ class AdminSubmissionService {
         };
       });
 
-      // Apply text search filter (client-side for now)
-      let filteredSubmissions = submissions;
-      if (filters.search) {
-        const searchTerm = filters.search.toLowerCase();
-        filteredSubmissions = submissions.filter(submission => 
-          submission.filmTitle.toLowerCase().includes(searchTerm) ||
-          submission.submitterName?.toLowerCase().includes(searchTerm) ||
-          submission.submitterEmail?.toLowerCase().includes(searchTerm) ||
-          submission.applicationId.toLowerCase().includes(searchTerm)
-        );
-      }
-
       return {
-        data: filteredSubmissions,
+        data: submissions,
         hasMore,
         lastDoc: newLastDoc,
-        total: filteredSubmissions.length // This is approximate due to filtering
+        total
       };
     } catch (error) {
       console.error('Error fetching submissions:', error);
@@ -405,7 +385,8 @@ class AdminSubmissionService {
         files: {
           filmFile: data.files?.filmFile || { url: '', name: '', size: 0 },
           posterFile: data.files?.posterFile || { url: '', name: '', size: 0 },
-          proofFile: data.files?.proofFile
+          proofFile: data.files?.proofFile,
+          subtitles: data.files?.subtitles || []
         },
         
         // Admin fields
@@ -431,41 +412,74 @@ class AdminSubmissionService {
     }
   }
 
+  /**
+   * Get synopsis, crew, admin notes and (optionally) each juror's latest score
+   * for the given submissions, for exports
+   */
+  async getExportDetails(
+    submissionIds: string[],
+    includeScores: boolean
+  ): Promise<SubmissionExportDetails[]> {
+    try {
+      return await Promise.all(submissionIds.map(async (submissionId) => {
+        const docSnap = await getDoc(doc(db, 'submissions', submissionId));
+        const data = docSnap.exists() ? docSnap.data() : {};
+        const comments = includeScores ? await shortFilmCommentsService.getComments(submissionId) : [];
+        return toSubmissionExportDetails(submissionId, data, comments);
+      }));
+    } catch (error) {
+      console.error('Error fetching export details:', error);
+      throw new Error('Failed to fetch export details');
+    }
+  }
+
   /**
    * Get total count of submissions (for accurate pagination)
    */
   async getTotalSubmissionsCount(filters: SubmissionFilters = {}): Promise<number> {
     try {
-      const submissionsRef = collection(db, 'submissions');
-      let q = query(submissionsRef);
+      const snapshot = await getCountFromServer(this.buildFilteredQuery(filters));
+      return snapshot.data().count;
+    } catch (error) {
+      console.error('Error fetching total count:', error);
+      return 0;
+    }
+  }
 
-      // Apply the same filters as getSubmissions
-      if (filters.category && filters.category !== 'all') {
-        q = query(q, where('category', '==', filters.category));
-      }
+  /**
+   * Submissions matching the filters, shared by listing and counting. Search
+   * is a prefix lookup on the search index (see utils/searchIndex), so it
+   * covers the whole collection rather than one page.
+   */
+  private buildFilteredQuery(filters: SubmissionFilters): Query {
+    let q = query(collection(db, 'submissions'));
 
-      if (filters.status && filters.status !== 'all') {
-        q = query(q, where('status', '==', filters.status));
-      }
+    if (filters.category && filters.category !== 'all') {
+      q = query(q, where('category', '==', filters.category));
+    }
 
-      if (filters.country) {
-        q = query(q, where('country', '==', filters.country));
-      }
+    if (filters.status && filters.status !== 'all') {
+      q = query(q, where('status', '==', filters.status));
+    }
 
-      if (filters.dateRange?.start) {
-        q = query(q, where('createdAt', '>=', Timestamp.fromDate(filters.dateRange.start)));
-      }
-      
-      if (filters.dateRange?.end) {
-        q = query(q, where('createdAt', '<=', Timestamp.fromDate(filters.dateRange.end)));
-      }
+    if (filters.country) {
+      q = query(q, where('country', '==', filters.country));
+    }
 
-      const snapshot = await getDocs(q);
-      return snapshot.size;
-    } catch (error) {
-      console.error('Error fetching total count:', error);
-      return 0;
+    if (filters.dateRange?.start) {
+      q = query(q, where('createdAt', '>=', Timestamp.fromDate(filters.dateRange.start)));
+    }
+    
+    if (filters.dateRange?.end) {
+      q = query(q, where('createdAt', '<=', Timestamp.fromDate(filters.dateRange.end)));
     }
+
+    const searchToken = getSearchToken(filters.search);
+    if (searchToken) {
+      q = query(q, where('searchTokens', 'array-contains', searchToken));
+    }
+
+    return q;
   }
 }
 
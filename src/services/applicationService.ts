@@ -1,6 +1,14 @@
 import { doc, updateDoc, serverTimestamp, getDoc } from 'firebase/firestore';
 import { db } from '../firebase';
-import { deleteFile, uploadFile, generateFilePath, validateFile, FileMetadata } from './fileUploadService';
+import { deleteFile, uploadFile, generateFilePath, validateFile, FileMetadata, FileUploadRequest } from './fileUploadService';
+import { notificationInboxService } from './notificationInboxService';
+import { auditLogService } from './auditLogService';
+import { submissionVersionService } from './submissionVersionService';
+import { thumbnailService } from './thumbnailService';
+import { submissionReceivedNotification } from '../utils/notificationEvents';
+import { diffFields } from '../utils/auditDiff';
+import { probeAndValidateVideo, validateVideoTechnical } from '../utils/videoProbe';
+import { SubtitleTrack } from '../types/subtitle.types';
 
 export interface FilmApplication {
   id: string;
@@ -18,6 +26,7 @@ export interface FilmApplication {
     filmFile: FileMetadata;
     posterFile: FileMetadata;
     proofFile?: FileMetadata;
+    subtitles?: SubtitleTrack[];
   };
   submittedAt?: any;
   createdAt: any;
@@ -35,6 +44,8 @@ export interface FileReplaceRequest {
   fileType: 'filmFile' | 'posterFile' | 'proofFile';
   newFile: File;
   onProgress?: (progress: number) => void;
+  onTransfer?: FileUploadRequest['onTransfer'];
+  onUploadCreated?: FileUploadRequest['onUploadCreated'];
 }
 
 export interface SubmissionProgress {
@@ -43,6 +54,13 @@ export interface SubmissionProgress {
   message: string;
 }
 
+/**
+ * Resume key for replacing one file of an application, shared with the upload
+ * UI so it can offer to continue an interrupted replacement
+ */
+export const getReplaceResumeKey = (applicationId: string, fileType: FileReplaceRequest['fileType']): string =>
+  `${applicationId}/${fileType}`;
+
 export class ApplicationService {
   private onProgress?: (progress: SubmissionProgress) => void;
 
@@ -82,6 +100,17 @@ export class ApplicationService {
         lastModified: serverTimestamp()
       });
 
+      await submissionVersionService.recordVersion(
+        applicationId,
+        { ...docSnap.data(), status: 'submitted' },
+        'submit',
+        application.userId
+      );
+
+      await notificationInboxService.notify(
+        submissionReceivedNotification(application.userId, applicationId, application.filmTitle)
+      );
+
       this.updateProgress('complete', 100, 'Application submitted successfully!');
 
     } catch (error) {
@@ -149,6 +178,14 @@ export class ApplicationService {
       warnings.push('Film duration exceeds 10 minutes (recommended maximum)');
     }
 
+    // Technical checks on the film file itself, when it was read at upload
+    const technical = application.files?.filmFile?.technical;
+    if (technical) {
+      const videoCheck = validateVideoTechnical(technical, application.competitionCategory);
+      errors.push(...videoCheck.errors.map(issue => issue.message.en));
+      warnings.push(...videoCheck.warnings.map(issue => issue.message.en));
+    }
+
     // File size warnings
     if (application.files?.filmFile && application.files.filmFile.fileSize > 400 * 1024 * 1024) {
       warnings.push('Film file size is quite large (>400MB). Consider compression for faster upload.');
@@ -187,6 +224,16 @@ export class ApplicationService {
         throw new Error(`File validation failed: ${fileValidation.error}`);
       }
 
+      // Read the film's technical details and check them against the category rules
+      let technical: FileMetadata['technical'];
+      if (request.fileType === 'filmFile') {
+        const videoCheck = await probeAndValidateVideo(request.newFile, application.competitionCategory);
+        if (videoCheck.errors.length > 0) {
+          throw new Error(`File validation failed: ${videoCheck.errors.map(issue => issue.message.en).join('; ')}`);
+        }
+        technical = videoCheck.metadata || undefined;
+      }
+
       // Get old file path for deletion
       const oldFile = application.files[request.fileType];
       const oldFilePath = oldFile?.storagePath;
@@ -204,11 +251,30 @@ export class ApplicationService {
         request.newFile.name
       );
 
-      const newFileMetadata = await uploadFile(
+      const uploadedMetadata = await uploadFile(
         request.newFile,
         newFilePath,
-        request.onProgress
+        request.onProgress,
+        {
+          resumeKey: getReplaceResumeKey(request.applicationId, request.fileType),
+          onTransfer: request.onTransfer,
+          onUploadCreated: request.onUploadCreated
+        }
       );
+      const newFileMetadata: FileMetadata = technical ? { ...uploadedMetadata, technical } : uploadedMetadata;
+
+      // Smaller copies for galleries and a filmstrip of the film
+      if (request.fileType === 'posterFile') {
+        const thumbnails = await thumbnailService.createPosterThumbnails(request.newFile, newFileMetadata.storagePath);
+        if (Object.keys(thumbnails).length > 0) {
+          newFileMetadata.thumbnails = thumbnails;
+        }
+      } else if (request.fileType === 'filmFile') {
+        const previewFrames = await thumbnailService.createPreviewFrames(request.newFile, newFileMetadata.storagePath);
+        if (previewFrames.length > 0) {
+          newFileMetadata.previewFrames = previewFrames;
+        }
+      }
 
       // Update application with new file
       const updateData = {
@@ -221,6 +287,16 @@ export class ApplicationService {
 
       await updateDoc(docRef, updateData);
 
+      await auditLogService.recordForCurrentUser(
+        request.applicationId,
+        application.filmTitle,
+        'file_replace',
+        diffFields(
+          { [request.fileType]: oldFile?.fileName, [`${request.fileType}.fileSize`]: oldFile?.fileSize },
+          { [request.fileType]: newFileMetadata.fileName, [`${request.fileType}.fileSize`]: newFileMetadata.fileSize }
+        )
+      );
+
       // Delete old file if it exists
       if (oldFilePath) {
         try {
@@ -230,6 +306,7 @@ export class ApplicationService {
           // Don't throw error for cleanup failure
         }
       }
+      await thumbnailService.deleteDerivatives(oldFile);
 
       return newFileMetadata;
 
@@ -263,7 +340,10 @@ export class ApplicationService {
       const filesToDelete = [
         application.files?.filmFile?.storagePath,
         application.files?.posterFile?.storagePath,
-        application.files?.proofFile?.storagePath
+        application.files?.proofFile?.storagePath,
+        ...thumbnailService.getDerivativePaths(application.files?.filmFile),
+        ...thumbnailService.getDerivativePaths(application.files?.posterFile),
+        ...(application.files?.subtitles || []).map(track => track.storagePath)
       ].filter(Boolean);
 
       await Promise.all(
@@ -283,6 +363,13 @@ export class ApplicationService {
         lastModified: serverTimestamp()
       });
 
+      await auditLogService.recordForCurrentUser(
+        applicationId,
+        application.filmTitle,
+        'delete',
+        diffFields({ status: application.status }, { status: 'deleted' })
+      );
+
     } catch (error) {
       console.error('Error deleting application:', error);
       throw error;
@@ -0,0 +1,175 @@
+import {
+  collection,
+  doc,
+  addDoc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  limit,
+  serverTimestamp,
+  Timestamp,
+  DocumentData,
+  DocumentReference,
+  QueryDocumentSnapshot
+} from 'firebase/firestore';
+import { db, auth } from '../firebase';
+import {
+  AuditFieldChange,
+  AuditLogFilters,
+  NewSubmissionAuditEntry,
+  SubmissionAuditAction,
+  SubmissionAuditEntry
+} from '../types/audit.types';
+import { filterAuditEntries } from '../utils/auditDiff';
+
+const AUDIT_LOG_COLLECTION = 'submissionAuditLog';
+
+// Most recent entries loaded by the global audit page
+const AUDIT_LOG_LIMIT = 500;
+
+export class AuditLogService {
+  private static instance: AuditLogService;
+
+  static getInstance(): AuditLogService {
+    if (!AuditLogService.instance) {
+      AuditLogService.instance = new AuditLogService();
+    }
+    return AuditLogService.instance;
+  }
+
+  private toEntry(docSnap: QueryDocumentSnapshot<DocumentData>): SubmissionAuditEntry {
+    const data = docSnap.data();
+    return {
+      id: docSnap.id,
+      submissionId: data.submissionId,
+      filmTitle: data.filmTitle,
+      action: data.action,
+      actorId: data.actorId,
+      actorName: data.actorName,
+      changes: data.changes || [],
+      reason: data.reason,
+      timestamp: data.timestamp?.toDate() || new Date()
+    };
+  }
+
+  /**
+   * Reference for a new audit entry, for callers writing in a batch
+   */
+  newEntryRef(): DocumentReference {
+    return doc(collection(db, AUDIT_LOG_COLLECTION));
+  }
+
+  /**
+   * Build the stored form of an audit entry
+   */
+  createEntryData(entry: NewSubmissionAuditEntry) {
+    return {
+      submissionId: entry.submissionId,
+      filmTitle: entry.filmTitle || '',
+      action: entry.action,
+      actorId: entry.actorId,
+      actorName: entry.actorName,
+      changes: entry.changes,
+      ...(entry.reason && { reason: entry.reason }),
+      timestamp: serverTimestamp()
+    };
+  }
+
+  /**
+   * Record an audit entry. Failures are logged rather than thrown so the
+   * audited action itself is never reported as failed.
+   */
+  async record(entry: NewSubmissionAuditEntry): Promise<void> {
+    try {
+      await addDoc(collection(db, AUDIT_LOG_COLLECTION), this.createEntryData(entry));
+    } catch (error) {
+      console.error('Error recording audit entry:', error);
+    }
+  }
+
+  /**
+   * Record an audit entry for an action taken by the signed-in user
+   */
+  async recordForCurrentUser(
+    submissionId: string,
+    filmTitle: string | undefined,
+    action: SubmissionAuditAction,
+    changes: AuditFieldChange[],
+    reason?: string
+  ): Promise<void> {
+    const user = auth.currentUser;
+    if (!user) return;
+
+    await this.record({
+      submissionId,
+      filmTitle,
+      action,
+      actorId: user.uid,
+      actorName: user.displayName || user.email || 'Unknown',
+      changes,
+      reason
+    });
+  }
+
+  /**
+   * Every recorded change to one submission, newest first
+   */
+  async getSubmissionTimeline(submissionId: string): Promise<SubmissionAuditEntry[]> {
+    try {
+      const q = query(
+        collection(db, AUDIT_LOG_COLLECTION),
+        where('submissionId', '==', submissionId),
+        orderBy('timestamp', 'desc')
+      );
+      const snapshot = await getDocs(q);
+      return snapshot.docs.map(docSnap => this.toEntry(docSnap));
+    } catch (error) {
+      console.error('Error fetching submission timeline:', error);
+      throw new Error('Failed to fetch submission timeline');
+    }
+  }
+
+  /**
+   * Most recent audit entries across all submissions, newest first. The
+   * submission, action, actor and date filters are applied in the query so
+   * they reach entries older than the most recent AUDIT_LOG_LIMIT; the
+   * free-text search is applied to the loaded entries.
+   */
+  async getEntries(filters: AuditLogFilters = {}): Promise<SubmissionAuditEntry[]> {
+    try {
+      const constraints = [];
+      if (filters.submissionId) {
+        constraints.push(where('submissionId', '==', filters.submissionId));
+      }
+      if (filters.action) {
+        constraints.push(where('action', '==', filters.action));
+      }
+      if (filters.actorId) {
+        constraints.push(where('actorId', '==', filters.actorId));
+      }
+      if (filters.from) {
+        constraints.push(where('timestamp', '>=', Timestamp.fromDate(filters.from)));
+      }
+      if (filters.to) {
+        constraints.push(where('timestamp', '<=', Timestamp.fromDate(filters.to)));
+      }
+
+      const q = query(
+        collection(db, AUDIT_LOG_COLLECTION),
+        ...constraints,
+        orderBy('timestamp', 'desc'),
+        limit(AUDIT_LOG_LIMIT)
+      );
+      const snapshot = await getDocs(q);
+      return filterAuditEntries(snapshot.docs.map(docSnap => this.toEntry(docSnap)), filters);
+    } catch (error) {
+      console.error('Error fetching audit log:', error);
+      throw new Error('Failed to fetch audit log');
+    }
+  }
+}
+
+// Export singleton instance
+export const auditLogService = AuditLogService.getInstance();
+export default auditLogService;
@@ -0,0 +1,388 @@
+import {
+  collection,
+  doc,
+  addDoc,
+  getDoc,
+  getDocs,
+  setDoc,
+  deleteDoc,
+  query,
+  orderBy,
+  runTransaction,
+  updateDoc,
+  serverTimestamp,
+  DocumentData,
+  DocumentSnapshot
+} from 'firebase/firestore';
+import { db } from '../firebase';
+import {
+  AdminApplicationData,
+  DecisionRound,
+  OfficialSelection,
+  OfficialSelectionFilm
+} from '../types/admin.types';
+import { shortFilmCommentsService } from './shortFilmCommentsService';
+import { mailService } from './mailService';
+import { notificationInboxService } from './notificationInboxService';
+import { auditLogService } from './auditLogService';
+import { DECISION_STATUS } from '../utils/decisionRounds';
+import { isDecisionLetterStatus } from '../utils/decisionLetters';
+import { statusChangedNotification } from '../utils/notificationEvents';
+import { diffFields } from '../utils/auditDiff';
+
+const DECISION_ROUNDS_COLLECTION = 'decisionRounds';
+const OFFICIAL_SELECTION_COLLECTION = 'officialSelection';
+const SUBMISSIONS_COLLECTION = 'submissions';
+
+// Each film takes up to five writes (status update, comment, audit entry, inbox
+// notification, decision letter); Firestore allows 500 per transaction
+const FILMS_PER_BATCH = 100;
+
+export type NewDecisionRound = Pick<DecisionRound, 'category' | 'stage' | 'cutoff' | 'normalized' | 'films' | 'note'>;
+
+export class DecisionRoundError extends Error {
+  constructor(
+    message: string,
+    public code: 'not-found' | 'not-pending' | 'same-admin' | 'not-publishable'
+  ) {
+    super(message);
+    this.name = 'DecisionRoundError';
+  }
+}
+
+export class DecisionRoundService {
+  private static instance: DecisionRoundService;
+
+  static getInstance(): DecisionRoundService {
+    if (!DecisionRoundService.instance) {
+      DecisionRoundService.instance = new DecisionRoundService();
+    }
+    return DecisionRoundService.instance;
+  }
+
+  private toDecisionRound(docSnap: DocumentSnapshot<DocumentData>): DecisionRound {
+    const data = docSnap.data()!;
+    return {
+      id: docSnap.id,
+      category: data.category,
+      stage: data.stage,
+      cutoff: data.cutoff,
+      normalized: !!data.normalized,
+      films: data.films || [],
+      note: data.note,
+      status: data.status,
+      proposedBy: data.proposedBy,
+      proposedByName: data.proposedByName,
+      proposedAt: data.proposedAt?.toDate() || new Date(),
+      confirmedBy: data.confirmedBy,
+      confirmedByName: data.confirmedByName,
+      confirmedAt: data.confirmedAt?.toDate(),
+      skippedFilms: data.skippedFilms,
+      cancelledBy: data.cancelledBy,
+      cancelledAt: data.cancelledAt?.toDate()
+    };
+  }
+
+  private toServiceError(error: unknown, action: string): Error {
+    if (error instanceof DecisionRoundError) {
+      return error;
+    }
+    return new Error(`Failed to ${action}`);
+  }
+
+  private async getPendingRound(roundId: string): Promise<DecisionRound> {
+    const docSnap = await getDoc(doc(db, DECISION_ROUNDS_COLLECTION, roundId));
+    if (!docSnap.exists()) {
+      throw new DecisionRoundError('Decision round not found', 'not-found');
+    }
+
+    const round = this.toDecisionRound(docSnap);
+    if (round.status !== 'pending') {
+      throw new DecisionRoundError(`Decision round is already ${round.status}`, 'not-pending');
+    }
+    return round;
+  }
+
+  /**
+   * Get all decision rounds, newest first
+   */
+  async getRounds(): Promise<DecisionRound[]> {
+    try {
+      const snapshot = await getDocs(
+        query(collection(db, DECISION_ROUNDS_COLLECTION), orderBy('proposedAt', 'desc'))
+      );
+      return snapshot.docs.map(docSnap => this.toDecisionRound(docSnap));
+    } catch (error) {
+      console.error('Error fetching decision rounds:', error);
+      throw new Error('Failed to fetch decision rounds');
+    }
+  }
+
+  /**
+   * Propose a round. Nothing changes on the submissions until another admin confirms it.
+   */
+  async proposeRound(round: NewDecisionRound, adminId: string, adminName: string): Promise<string> {
+    try {
+      const docRef = await addDoc(collection(db, DECISION_ROUNDS_COLLECTION), {
+        ...round,
+        note: round.note || '',
+        status: 'pending',
+        proposedBy: adminId,
+        proposedByName: adminName,
+        proposedAt: serverTimestamp()
+      });
+      return docRef.id;
+    } catch (error) {
+      console.error('Error proposing decision round:', error);
+      throw new Error('Failed to propose decision round');
+    }
+  }
+
+  /**
+   * Claim a pending round for confirmation in a transaction, so two admins
+   * confirming at the same time cannot both apply it. The admin who claimed
+   * the round may claim it again to resume an interrupted confirmation.
+   */
+  private async claimRound(roundId: string, adminId: string, adminName: string): Promise<DecisionRound> {
+    const roundRef = doc(db, DECISION_ROUNDS_COLLECTION, roundId);
+
+    return runTransaction(db, async (transaction) => {
+      const docSnap = await transaction.get(roundRef);
+      if (!docSnap.exists()) {
+        throw new DecisionRoundError('Decision round not found', 'not-found');
+      }
+
+      const round = this.toDecisionRound(docSnap);
+      const isResuming = round.status === 'confirming' && round.confirmedBy === adminId;
+      if (round.status !== 'pending' && !isResuming) {
+        throw new DecisionRoundError(`Decision round is already ${round.status}`, 'not-pending');
+      }
+      if (round.proposedBy === adminId) {
+        throw new DecisionRoundError('A decision round must be confirmed by a different admin', 'same-admin');
+      }
+
+      if (!isResuming) {
+        transaction.update(roundRef, {
+          status: 'confirming',
+          confirmedBy: adminId,
+          confirmedByName: adminName
+        });
+      }
+      return round;
+    });
+  }
+
+  /**
+   * Confirm a pending round as a second admin: move every film to its decided
+   * status, record a status_change comment and audit entry on each, notify the applicant and
+   * queue a decision letter for every accepted or rejected applicant. Films whose status
+   * changed since the round was proposed are left alone and listed on the round as skipped.
+   */
+  async confirmRound(roundId: string, adminId: string, adminName: string, adminEmail: string): Promise<void> {
+    try {
+      const round = await this.claimRound(roundId, adminId, adminName);
+      const reasonPrefix = round.stage === 'shortlist' ? 'Shortlist round' : 'Official selection round';
+      const skippedFilms: string[] = [];
+
+      for (let i = 0; i < round.films.length; i += FILMS_PER_BATCH) {
+        const chunk = round.films.slice(i, i + FILMS_PER_BATCH);
+
+        const chunkSkipped = await runTransaction(db, async (transaction) => {
+          const submissionSnaps = await Promise.all(
+            chunk.map(film => transaction.get(doc(db, SUBMISSIONS_COLLECTION, film.submissionId)))
+          );
+          const skipped: string[] = [];
+
+          chunk.forEach((film, index) => {
+            const data = submissionSnaps[index].data();
+            // Already written by an earlier, interrupted confirmation of this round
+            if (data?.decisionRoundId === roundId) return;
+            if (!data || data.status !== film.previousStatus) {
+              skipped.push(film.submissionId);
+              return;
+            }
+
+            const newStatus = DECISION_STATUS[film.decision];
+            const isFinal = isDecisionLetterStatus(newStatus);
+            transaction.update(doc(db, SUBMISSIONS_COLLECTION, film.submissionId), {
+              status: newStatus,
+              decisionRoundId: roundId,
+              ...(isFinal && { decidedAt: serverTimestamp() }),
+              lastModified: serverTimestamp()
+            });
+            transaction.set(
+              doc(collection(db, SUBMISSIONS_COLLECTION, film.submissionId, 'ShortFilmComments')),
+              shortFilmCommentsService.createStatusChangeCommentData(
+                film.submissionId,
+                adminId,
+                adminName,
+                adminEmail,
+                film.previousStatus,
+                newStatus,
+                `${reasonPrefix}: ${film.decision}` + (film.rank ? ` (rank ${film.rank}, cutoff ${round.cutoff})` : ''),
+                { decisionRoundId: roundId, decision: film.decision, proposedBy: round.proposedBy }
+              )
+            );
+
+            transaction.set(
+              auditLogService.newEntryRef(),
+              auditLogService.createEntryData({
+                submissionId: film.submissionId,
+                filmTitle: data.filmTitle || film.filmTitle,
+                action: 'status_change',
+                actorId: adminId,
+                actorName: adminName,
+                changes: diffFields({ status: film.previousStatus }, { status: newStatus }),
+                reason: `${reasonPrefix}: ${film.decision}`
+              })
+            );
+
+            if (data.userId) {
+              transaction.set(
+                notificationInboxService.newNotificationRef(),
+                notificationInboxService.createNotificationData(
+                  statusChangedNotification(data.userId, film.submissionId, data.filmTitle || film.filmTitle, newStatus)
+                )
+              );
+            }
+
+            const recipient = data.submitterEmail || data.directorEmail;
+            if (isFinal && recipient) {
+              transaction.set(
+                mailService.newMailRef(),
+                mailService.createDecisionLetterMailData(recipient, film.submissionId, newStatus, {
+                  applicantName: data.submitterName || data.directorName || '',
+                  applicantNameTh: data.submitterNameTh || data.directorNameTh,
+                  filmTitle: data.filmTitle || film.filmTitle,
+                  filmTitleTh: data.filmTitleTh,
+                  competitionCategory: data.competitionCategory || data.category || round.category,
+                  applicationId: data.applicationId || film.submissionId,
+                  decidedAt: new Date()
+                })
+              );
+            }
+          });
+
+          return skipped;
+        });
+
+        skippedFilms.push(...chunkSkipped);
+      }
+
+      // Marked confirmed only once every film has been written
+      await updateDoc(doc(db, DECISION_ROUNDS_COLLECTION, roundId), {
+        status: 'confirmed',
+        confirmedAt: serverTimestamp(),
+        skippedFilms
+      });
+    } catch (error) {
+      console.error('Error confirming decision round:', error);
+      throw this.toServiceError(error, 'confirm decision round');
+    }
+  }
+
+  /**
+   * Cancel a pending round
+   */
+  async cancelRound(roundId: string, adminId: string): Promise<void> {
+    try {
+      await this.getPendingRound(roundId);
+      await setDoc(
+        doc(db, DECISION_ROUNDS_COLLECTION, roundId),
+        { status: 'cancelled', cancelledBy: adminId, cancelledAt: serverTimestamp() },
+        { merge: true }
+      );
+    } catch (error) {
+      console.error('Error cancelling decision round:', error);
+      throw this.toServiceError(error, 'cancel decision round');
+    }
+  }
+
+  /**
+   * Publish the selected films of a confirmed selection round to the public site
+   */
+  async publishSelection(roundId: string, adminId: string): Promise<void> {
+    try {
+      const roundSnap = await getDoc(doc(db, DECISION_ROUNDS_COLLECTION, roundId));
+      if (!roundSnap.exists()) {
+        throw new DecisionRoundError('Decision round not found', 'not-found');
+      }
+
+      const round = this.toDecisionRound(roundSnap);
+      if (round.stage !== 'selection' || round.status !== 'confirmed') {
+        throw new DecisionRoundError('Only confirmed selection rounds can be published', 'not-publishable');
+      }
+
+      const selected = round.films.filter(film => film.decision === 'selected');
+      const submissionSnaps = await Promise.all(
+        selected.map(film => getDoc(doc(db, SUBMISSIONS_COLLECTION, film.submissionId)))
+      );
+
+      // Only public-facing fields are copied; contact details stay in the submission
+      const films: OfficialSelectionFilm[] = submissionSnaps
+        .filter(snap => snap.exists())
+        .map(snap => {
+          const data = snap.data()!;
+          return {
+            submissionId: snap.id,
+            filmTitle: data.filmTitle || 'Untitled',
+            ...(data.filmTitleTh && { filmTitleTh: data.filmTitleTh }),
+            ...(data.files?.posterFile?.url && { posterUrl: data.files.posterFile.url }),
+            ...((data.directorName || data.submitterName) && { directorName: data.directorName || data.submitterName }),
+            ...(data.nationality && { nationality: data.nationality }),
+            duration: data.duration || 0,
+            genres: data.genres || []
+          };
+        });
+
+      await setDoc(doc(db, OFFICIAL_SELECTION_COLLECTION, round.category), {
+        category: round.category,
+        films,
+        roundId,
+        publishedBy: adminId,
+        publishedAt: serverTimestamp()
+      });
+    } catch (error) {
+      console.error('Error publishing official selection:', error);
+      throw this.toServiceError(error, 'publish official selection');
+    }
+  }
+
+  /**
+   * Take a category's official selection off the public site
+   */
+  async unpublishSelection(category: AdminApplicationData['competitionCategory']): Promise<void> {
+    try {
+      await deleteDoc(doc(db, OFFICIAL_SELECTION_COLLECTION, category));
+    } catch (error) {
+      console.error('Error unpublishing official selection:', error);
+      throw new Error('Failed to unpublish official selection');
+    }
+  }
+
+  /**
+   * Get the published official selection for every category
+   */
+  async getOfficialSelections(): Promise<OfficialSelection[]> {
+    try {
+      const snapshot = await getDocs(collection(db, OFFICIAL_SELECTION_COLLECTION));
+      return snapshot.docs.map(docSnap => {
+        const data = docSnap.data();
+        return {
+          category: data.category,
+          films: data.films || [],
+          roundId: data.roundId,
+          publishedBy: data.publishedBy,
+          publishedAt: data.publishedAt?.toDate() || new Date()
+        };
+      });
+    } catch (error) {
+      console.error('Error fetching official selection:', error);
+      throw new Error('Failed to fetch official selection');
+    }
+  }
+}
+
+// Export singleton instance
+export const decisionRoundService = DecisionRoundService.getInstance();
+export default decisionRoundService;
@@ -0,0 +1,113 @@
+import {
+  collection,
+  doc,
+  addDoc,
+  updateDoc,
+  query,
+  orderBy,
+  limit,
+  onSnapshot,
+  serverTimestamp,
+  Timestamp
+} from 'firebase/firestore';
+import { ref, getDownloadURL } from 'firebase/storage';
+import { db, storage } from '../firebase';
+import { ExportJob } from '../types/admin.types';
+import { EXPORT_JOBS_COLLECTION, toExportJob } from '../utils/exportJobs';
+
+// Jobs shown on the Exports page, newest first
+const EXPORT_JOBS_LIMIT = 50;
+
+export type NewExportJob = Pick<
+  ExportJob,
+  'requestedBy' | 'requestedByName' | 'format' | 'columns' | 'includeScores' | 'includeNotes' |
+  'categories' | 'statuses' | 'dateRange'
+> & { scheduledFor?: Date };
+
+export class ExportJobService {
+  private static instance: ExportJobService;
+
+  static getInstance(): ExportJobService {
+    if (!ExportJobService.instance) {
+      ExportJobService.instance = new ExportJobService();
+    }
+    return ExportJobService.instance;
+  }
+
+  /**
+   * Queue an export for the worker and return the job ID. Without a
+   * scheduled time the job runs as soon as a worker picks it up.
+   */
+  async requestExport(job: NewExportJob): Promise<string> {
+    try {
+      const docRef = await addDoc(collection(db, EXPORT_JOBS_COLLECTION), {
+        requestedBy: job.requestedBy,
+        requestedByName: job.requestedByName,
+        format: job.format,
+        columns: job.columns,
+        includeScores: job.includeScores,
+        includeNotes: job.includeNotes,
+        categories: job.categories,
+        statuses: job.statuses,
+        dateRange: job.dateRange ? {
+          start: job.dateRange.start ? Timestamp.fromDate(job.dateRange.start) : null,
+          end: job.dateRange.end ? Timestamp.fromDate(job.dateRange.end) : null
+        } : null,
+        scheduledFor: job.scheduledFor ? Timestamp.fromDate(job.scheduledFor) : serverTimestamp(),
+        status: 'queued',
+        progress: 0,
+        createdAt: serverTimestamp()
+      });
+      return docRef.id;
+    } catch (error) {
+      console.error('Error requesting export:', error);
+      throw new Error('Failed to request export');
+    }
+  }
+
+  /**
+   * Subscribe to recent export jobs from all admins
+   */
+  subscribeToJobs(callback: (jobs: ExportJob[]) => void, onError?: (error: Error) => void): () => void {
+    const q = query(
+      collection(db, EXPORT_JOBS_COLLECTION),
+      orderBy('createdAt', 'desc'),
+      limit(EXPORT_JOBS_LIMIT)
+    );
+
+    return onSnapshot(q, (snapshot) => {
+      callback(snapshot.docs.map(docSnap => toExportJob(docSnap.id, docSnap.data())));
+    }, (error) => {
+      console.error('Error in export jobs subscription:', error);
+      onError?.(error);
+    });
+  }
+
+  /**
+   * Stop a job the worker has not started yet
+   */
+  async cancelJob(jobId: string): Promise<void> {
+    try {
+      await updateDoc(doc(db, EXPORT_JOBS_COLLECTION, jobId), {
+        status: 'cancelled',
+        completedAt: serverTimestamp()
+      });
+    } catch (error) {
+      console.error('Error cancelling export job:', error);
+      throw new Error('Failed to cancel export job');
+    }
+  }
+
+  async getDownloadUrl(filePath: string): Promise<string> {
+    try {
+      return await getDownloadURL(ref(storage, filePath));
+    } catch (error) {
+      console.error('Error getting export download URL:', error);
+      throw new Error('Failed to get export download URL');
+    }
+  }
+}
+
+// Export singleton instance
+export const exportJobService = ExportJobService.getInstance();
+export default exportJobService;
@@ -0,0 +1,115 @@
+import {
+  collection,
+  doc,
+  addDoc,
+  getDocs,
+  updateDoc,
+  deleteDoc,
+  query,
+  where,
+  serverTimestamp,
+  DocumentData,
+  QueryDocumentSnapshot
+} from 'firebase/firestore';
+import { db } from '../firebase';
+import { ExportPreset, ExportTarget } from '../types/admin.types';
+
+// Column templates are private to the admin who saved them
+const EXPORT_PRESETS_COLLECTION = 'exportPresets';
+
+export type NewExportPreset = Omit<ExportPreset, 'id' | 'createdAt' | 'updatedAt'>;
+
+export class ExportPresetService {
+  private static instance: ExportPresetService;
+
+  static getInstance(): ExportPresetService {
+    if (!ExportPresetService.instance) {
+      ExportPresetService.instance = new ExportPresetService();
+    }
+    return ExportPresetService.instance;
+  }
+
+  private toExportPreset(docSnap: QueryDocumentSnapshot<DocumentData>): ExportPreset {
+    const data = docSnap.data();
+    return {
+      id: docSnap.id,
+      adminId: data.adminId,
+      name: data.name,
+      target: data.target,
+      format: data.format,
+      columns: data.columns || [],
+      includeScores: !!data.includeScores,
+      includeNotes: !!data.includeNotes,
+      createdAt: data.createdAt?.toDate() || new Date(),
+      updatedAt: data.updatedAt?.toDate() || new Date()
+    };
+  }
+
+  /**
+   * Get an admin's saved presets for applications or users, sorted by name
+   */
+  async getPresets(adminId: string, target: ExportTarget): Promise<ExportPreset[]> {
+    try {
+      // Filtered on equality only, so no composite index is needed
+      const snapshot = await getDocs(query(
+        collection(db, EXPORT_PRESETS_COLLECTION),
+        where('adminId', '==', adminId),
+        where('target', '==', target)
+      ));
+      return snapshot.docs
+        .map(docSnap => this.toExportPreset(docSnap))
+        .sort((a, b) => a.name.localeCompare(b.name));
+    } catch (error) {
+      console.error('Error fetching export presets:', error);
+      throw new Error('Failed to fetch export presets');
+    }
+  }
+
+  /**
+   * Save a new preset and return its ID
+   */
+  async createPreset(preset: NewExportPreset): Promise<string> {
+    try {
+      const docRef = await addDoc(collection(db, EXPORT_PRESETS_COLLECTION), {
+        ...preset,
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp()
+      });
+      return docRef.id;
+    } catch (error) {
+      console.error('Error creating export preset:', error);
+      throw new Error('Failed to create export preset');
+    }
+  }
+
+  /**
+   * Overwrite the columns and settings of an existing preset
+   */
+  async updatePreset(
+    presetId: string,
+    updates: Partial<Pick<ExportPreset, 'name' | 'format' | 'columns' | 'includeScores' | 'includeNotes'>>
+  ): Promise<void> {
+    try {
+      await updateDoc(doc(db, EXPORT_PRESETS_COLLECTION, presetId), {
+        ...updates,
+        updatedAt: serverTimestamp()
+      });
+    } catch (error) {
+      console.error('Error updating export preset:', error);
+      throw new Error('Failed to update export preset');
+    }
+  }
+
+  async deletePreset(presetId: string): Promise<void> {
+    try {
+      await deleteDoc(doc(db, EXPORT_PRESETS_COLLECTION, presetId));
+    } catch (error) {
+      console.error('Error deleting export preset:', error);
+      throw new Error('Failed to delete export preset');
+    }
+  }
+}
+
+// Export singleton instance
+export const exportPresetService = ExportPresetService.getInstance();
+export default exportPresetService;
@@ -1,7 +1,46 @@
 import { saveAs } from 'file-saver';
 import { format } from 'date-fns';
-import jsPDF from 'jspdf';
-import 'jspdf-autotable';
+import jsPDF, { jsPDFOptions } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { Activity, ActivityRegistration, REGISTRATION_STATUS_OPTIONS } from '../types/activities';
+import {
+  getRubricForCategory,
+  getRubricMaxScore,
+  normalizeStoredScores
+} from '../utils/scoringRubrics';
+import { createXlsxBlob } from '../utils/xlsxWriter';
+import { registerThaiFont } from '../utils/pdfFonts';
+import {
+  APPLICATION_EXPORT_COLUMNS,
+  ApplicationExportRow,
+  buildExportTable,
+  ExportColumnDefinition,
+  ExportTable,
+  formatExportRows,
+  resolveExportColumns,
+  toColumnSelection,
+  USER_EXPORT_COLUMNS
+} from '../utils/exportColumns';
+import {
+  buildApplicationSheets,
+  buildCsv,
+  filterExportApplications
+} from '../utils/submissionExport';
+import { toFileSafeName } from '../utils/exportJobs';
+import { adminSubmissionService } from './adminSubmissionService';
+import {
+  AdminApplicationCard,
+  AdminApplicationData,
+  DecisionLetter,
+  ExportColumnSelection,
+  ExportCrewMember,
+  ExportPreview,
+  LeaderboardEntry,
+  LeaderboardOptions,
+  RubricScores,
+  ScoringCriteria,
+  UserRole
+} from '../types/admin.types';
 
 export interface ExportOptions {
   format: 'csv' | 'excel' | 'pdf';
@@ -13,8 +52,27 @@ export interface ExportOptions {
   };
   categories?: string[];
   statuses?: string[];
+  columns?: ExportColumnSelection[]; // Chosen template; each format has its own default
 }
 
+// Columns used when no template is chosen, matching the layout of each format
+const DEFAULT_APPLICATION_COLUMNS: Record<ExportOptions['format'], string[]> = {
+  csv: [
+    'applicationId', 'filmTitle', 'filmTitleTh', 'directorName', 'category', 'status',
+    'duration', 'format', 'country', 'submittedAt', 'createdAt'
+  ],
+  excel: [
+    'applicationId', 'filmTitle', 'filmTitleTh', 'directorName', 'directorNameTh', 'category', 'status',
+    'genres', 'languages', 'duration', 'format', 'country', 'crewCount', 'submittedAt', 'createdAt'
+  ],
+  pdf: ['filmTitle', 'filmTitleTh', 'directorName', 'category', 'status', 'submittedAt']
+};
+
+const SCORE_SUMMARY_COLUMNS = ['judgeCount', 'averageTotal', 'averagePercentage'];
+
+// Tables wider than this are printed in landscape
+const PDF_PORTRAIT_MAX_COLUMNS = 6;
+
 export interface ExportProgress {
   stage: 'preparing' | 'processing' | 'generating' | 'complete' | 'error';
   progress: number;
@@ -41,7 +99,7 @@ export class ExportService {
       this.updateProgress('preparing', 0, 'Preparing export...');
 
       // Filter applications based on options
-      let filteredApplications = this.filterApplications(applications, options);
+      let filteredApplications = filterExportApplications(applications, options);
 
       this.updateProgress('processing', 20, 'Processing data...');
 
@@ -65,6 +123,68 @@ export class ExportService {
     }
   }
 
+  /**
+   * Header and first rows of an applications export, as they will be written
+   */
+  async previewApplications(
+    applications: AdminApplicationCard[],
+    options: ExportOptions,
+    limit: number = 5
+  ): Promise<ExportPreview> {
+    const filteredApplications = filterExportApplications(applications, options);
+    const columns = this.getApplicationColumns(options);
+    const rows = await this.loadApplicationRows(filteredApplications.slice(0, limit), columns, options);
+    const table = buildExportTable(columns, rows);
+
+    return {
+      headers: table.columns.map(column => column.header),
+      rows: formatExportRows(table),
+      total: filteredApplications.length
+    };
+  }
+
+  /**
+   * Export user accounts with the chosen columns
+   */
+  async exportUsers(
+    users: UserRole[],
+    options: Pick<ExportOptions, 'format' | 'columns'>
+  ): Promise<void> {
+    try {
+      this.updateProgress('generating', 50, 'Generating user export...');
+
+      const table = buildExportTable(this.getUserColumns(options), users);
+      const fileName = `CIFAN_Users_${format(new Date(), 'yyyy-MM-dd')}`;
+
+      switch (options.format) {
+        case 'csv':
+          this.saveTableAsCSV(table, `${fileName}.csv`);
+          break;
+        case 'excel':
+          saveAs(createXlsxBlob([{ name: 'Users', ...table }]), `${fileName}.xlsx`);
+          break;
+        case 'pdf':
+          await this.saveTableAsPDF(table, 'CIFAN 2025 - Users', 'รายชื่อผู้ใช้', `${fileName}.pdf`);
+          break;
+      }
+
+      this.updateProgress('complete', 100, 'Export completed successfully!');
+    } catch (error) {
+      console.error('User export error:', error);
+      this.updateProgress('error', 0, 'Export failed. Please try again.');
+      throw error;
+    }
+  }
+
+  previewUsers(users: UserRole[], options: Pick<ExportOptions, 'format' | 'columns'>, limit: number = 5): ExportPreview {
+    const table = buildExportTable(this.getUserColumns(options), users.slice(0, limit));
+    return {
+      headers: table.columns.map(column => column.header),
+      rows: formatExportRows(table),
+      total: users.length
+    };
+  }
+
   /**
    * Export dashboard statistics
    */
@@ -107,91 +227,139 @@ export class ExportService {
   }
 
   /**
-   * Export individual application as PDF
+   * Export an individual application as a PDF dossier: poster, film details,
+   * synopsis, crew and score summary
    */
   async exportApplicationPDF(application: any): Promise<void> {
     try {
       this.updateProgress('preparing', 0, 'Preparing application PDF...');
 
-      const doc = new jsPDF();
+      const { doc, font } = await this.createPdf();
       const pageWidth = doc.internal.pageSize.width;
       const margin = 20;
+      const textWidth = pageWidth - 2 * margin;
 
       // Header
-      doc.setFontSize(20);
-      doc.setFont('helvetica', 'bold');
-      doc.text('CIFAN 2025 - Film Application', margin, 30);
-
-      // Application ID
-      doc.setFontSize(10);
-      doc.setFont('helvetica', 'normal');
-      doc.text(`Application ID: ${application.id}`, pageWidth - margin - 60, 30);
-
-      let yPosition = 50;
+      doc.setFontSize(18);
+      doc.setFont(font, 'bold');
+      doc.text('CIFAN 2025 - Film Application', margin, 25);
+      doc.setFontSize(12);
+      doc.setFont(font, 'normal');
+      doc.text('ใบสมัครภาพยนตร์สั้น', margin, 32);
+      doc.setFontSize(9);
+      doc.text(`Application ID: ${application.id}`, pageWidth - margin, 25, { align: 'right' });
+      doc.setDrawColor(170, 70, 38);
+      doc.line(margin, 36, pageWidth - margin, 36);
+
+      this.updateProgress('processing', 20, 'Loading poster...');
+
+      // Poster on the right with the film details beside it
+      const poster = await this.loadPdfImage(
+        doc,
+        application.files?.posterFile?.thumbnails?.medium?.downloadURL || application.files?.posterFile?.url
+      );
+      const posterTop = 44;
+      let posterWidth = 0;
+      let posterBottom = posterTop;
+      if (poster) {
+        const posterHeight = Math.min(80, (50 * poster.height) / poster.width);
+        posterWidth = (posterHeight * poster.width) / poster.height;
+        doc.addImage(poster.dataUrl, poster.format, pageWidth - margin - posterWidth, posterTop, posterWidth, posterHeight);
+        posterBottom = posterTop + posterHeight;
+      }
 
-      // Film Information
-      doc.setFontSize(14);
-      doc.setFont('helvetica', 'bold');
-      doc.text('Film Information', margin, yPosition);
-      yPosition += 10;
+      let yPosition = this.drawPdfHeading(doc, font, 'Film Information', 'ข้อมูลภาพยนตร์', margin, posterTop + 4);
 
-      doc.setFontSize(10);
-      doc.setFont('helvetica', 'normal');
-      
       const filmInfo = [
-        ['Title (EN):', application.filmTitle],
-        ['Title (TH):', application.filmTitleTh || 'N/A'],
-        ['Director:', application.directorName || application.submitterName],
-        ['Category:', application.competitionCategory],
-        ['Duration:', `${application.duration} minutes`],
-        ['Format:', application.format],
-        ['Status:', application.status],
-        ['Submitted:', application.submittedAt ? format(application.submittedAt, 'PPP') : 'Draft']
+        ['Title (EN)\nชื่อเรื่อง (อังกฤษ)', application.filmTitle],
+        ['Title (TH)\nชื่อเรื่อง (ไทย)', application.filmTitleTh || '-'],
+        ['Director\nผู้กำกับ', [application.submitterName, application.submitterNameTh].filter(Boolean).join('\n') || '-'],
+        ['Category\nประเภท', application.competitionCategory],
+        ['Duration\nความยาว', `${application.duration} minutes`],
+        ['Format\nรูปแบบ', application.format],
+        ['Languages\nภาษา', (application.filmLanguages || []).join(', ') || '-'],
+        ['Genres\nแนว', (application.genres || []).join(', ') || '-'],
+        ['Status\nสถานะ', application.status],
+        ['Submitted\nวันที่ส่ง', application.submittedAt ? format(application.submittedAt, 'PPP') : 'Draft']
       ];
 
-      filmInfo.forEach(([label, value]) => {
-        doc.text(label, margin, yPosition);
-        doc.text(value, margin + 40, yPosition);
-        yPosition += 8;
+      autoTable(doc, {
+        body: filmInfo,
+        startY: yPosition,
+        margin: { left: margin, right: margin + (posterWidth ? posterWidth + 8 : 0) },
+        theme: 'plain',
+        styles: { font, fontSize: 9, cellPadding: 1.2 },
+        columnStyles: { 0: { fontStyle: 'bold', cellWidth: 38, textColor: [90, 90, 90] } }
       });
+      yPosition = Math.max(this.getLastTableY(doc), posterBottom) + 10;
 
       // Synopsis
-      yPosition += 10;
-      doc.setFontSize(14);
-      doc.setFont('helvetica', 'bold');
-      doc.text('Synopsis', margin, yPosition);
-      yPosition += 10;
-
+      yPosition = this.drawPdfHeading(doc, font, 'Synopsis', 'เรื่องย่อ', margin, yPosition);
       doc.setFontSize(10);
-      doc.setFont('helvetica', 'normal');
-      const splitSynopsis = doc.splitTextToSize(application.synopsis, pageWidth - 2 * margin);
-      doc.text(splitSynopsis, margin, yPosition);
-      yPosition += splitSynopsis.length * 5 + 10;
+      doc.setFont(font, 'normal');
+      yPosition = this.drawPdfLines(doc, doc.splitTextToSize(application.synopsis || '-', textWidth), margin, yPosition, 5.5) + 6;
+
+      if (application.chiangmaiConnection) {
+        yPosition = this.drawPdfHeading(doc, font, 'Chiang Mai Connection', 'ความเชื่อมโยงกับเชียงใหม่', margin, yPosition);
+        doc.setFontSize(10);
+        doc.setFont(font, 'normal');
+        yPosition = this.drawPdfLines(doc, doc.splitTextToSize(application.chiangmaiConnection, textWidth), margin, yPosition, 5.5) + 6;
+      }
+
+      this.updateProgress('generating', 60, 'Adding crew and scores...');
+
+      // Crew (empty in blind review)
+      const crewMembers: ExportCrewMember[] = application.crewMembers || [];
+      if (crewMembers.length > 0) {
+        yPosition = this.drawPdfHeading(doc, font, 'Crew Members', 'ทีมงาน', margin, yPosition);
+        autoTable(doc, {
+          head: [['Name\nชื่อ', 'Role\nตำแหน่ง', 'Age\nอายุ', 'Email\nอีเมล', 'Phone\nโทรศัพท์']],
+          body: crewMembers.map(member => [
+            [member.fullName, member.fullNameTh].filter(Boolean).join('\n'),
+            member.customRole ? `${member.role} (${member.customRole})` : member.role,
+            member.age?.toString() || '',
+            member.email || '',
+            member.phone || ''
+          ]),
+          startY: yPosition,
+          margin: { left: margin, right: margin },
+          styles: { font, fontSize: 8 },
+          headStyles: { fillColor: [170, 70, 38] }
+        });
+        yPosition = this.getLastTableY(doc) + 10;
+      }
 
-      // Scores (if available)
+      // Score summary
       if (application.scores && application.scores.length > 0) {
-        doc.setFontSize(14);
-        doc.setFont('helvetica', 'bold');
-        doc.text('Evaluation Scores', margin, yPosition);
-        yPosition += 10;
-
-        const scoreHeaders = ['Judge', 'Technical', 'Story', 'Creativity', 'Overall', 'Total', 'Date'];
-        const scoreData = application.scores.map((score: any) => [
-          score.adminName,
-          score.technical.toString(),
-          score.story.toString(),
-          score.creativity.toString(),
-          score.overall.toString(),
-          score.totalScore.toString(),
-          format(score.scoredAt, 'PP')
-        ]);
-
-        (doc as any).autoTable({
-          head: [scoreHeaders],
-          body: scoreData,
+        const rubric = getRubricForCategory(application.competitionCategory);
+        const maxScore = getRubricMaxScore(rubric);
+        const scores: { score: ScoringCriteria; rubricScores?: RubricScores }[] = application.scores.map(
+          (score: ScoringCriteria) => ({ score, rubricScores: normalizeStoredScores(score) })
+        );
+        const averageTotal = scores.reduce((sum, { rubricScores }) => sum + (rubricScores?.totalScore || 0), 0) / scores.length;
+
+        yPosition = this.ensurePdfSpace(doc, yPosition, 40);
+        yPosition = this.drawPdfHeading(doc, font, 'Evaluation Scores', 'ผลการประเมิน', margin, yPosition);
+        doc.setFontSize(10);
+        doc.setFont(font, 'normal');
+        doc.text(
+          `Judges / กรรมการ: ${scores.length}    Average / คะแนนเฉลี่ย: ${averageTotal.toFixed(1)}/${maxScore} (${((averageTotal / maxScore) * 100).toFixed(1)}%)`,
+          margin,
+          yPosition
+        );
+        yPosition += 6;
+
+        autoTable(doc, {
+          head: [['Judge\nกรรมการ', ...rubric.criteria.map(criterion => `${criterion.label.en}\n${criterion.label.th}`), 'Total\nรวม', 'Date\nวันที่']],
+          body: scores.map(({ score, rubricScores }) => [
+            score.adminName,
+            ...rubric.criteria.map(criterion => (rubricScores?.values[criterion.id] || 0).toString()),
+            `${rubricScores?.totalScore || 0}/${rubricScores?.maxScore || maxScore}`,
+            score.scoredAt ? format(score.scoredAt, 'PP') : ''
+          ]),
           startY: yPosition,
           margin: { left: margin, right: margin },
-          styles: { fontSize: 8 },
+          styles: { font, fontSize: 8 },
           headStyles: { fillColor: [170, 70, 38] }
         });
       }
@@ -211,153 +379,258 @@ export class ExportService {
   }
 
   /**
-   * Filter applications based on export options
+   * Export an activity's participant roster (door list)
    */
-  private filterApplications(applications: any[], options: ExportOptions): any[] {
-    let filtered = [...applications];
+  async exportActivityRoster(
+    activity: Activity,
+    registrations: ActivityRegistration[],
+    rosterFormat: 'csv' | 'pdf'
+  ): Promise<void> {
+    try {
+      this.updateProgress('preparing', 0, 'Preparing participant roster...');
 
-    // Filter by categories
-    if (options.categories && options.categories.length > 0) {
-      filtered = filtered.filter(app => options.categories!.includes(app.competitionCategory));
-    }
+      // Seated participants first, then the waitlist, each in registration order
+      const statusOrder: ActivityRegistration['status'][] = ['confirmed', 'attended', 'waitlisted', 'cancelled'];
+      const sortedRegistrations = [...registrations].sort((a, b) =>
+        statusOrder.indexOf(a.status) - statusOrder.indexOf(b.status) ||
+        a.registeredAt.localeCompare(b.registeredAt)
+      );
 
-    // Filter by statuses
-    if (options.statuses && options.statuses.length > 0) {
-      filtered = filtered.filter(app => options.statuses!.includes(app.status));
-    }
+      this.updateProgress('generating', 50, 'Generating roster...');
 
-    // Filter by date range
-    if (options.dateRange) {
-      filtered = filtered.filter(app => {
-        const appDate = app.submittedAt || app.createdAt;
-        if (options.dateRange!.start && appDate < options.dateRange!.start) return false;
-        if (options.dateRange!.end && appDate > options.dateRange!.end) return false;
-        return true;
-      });
+      if (rosterFormat === 'pdf') {
+        await this.generateRosterPDF(activity, sortedRegistrations);
+      } else {
+        await this.generateRosterCSV(activity, sortedRegistrations);
+      }
+
+      this.updateProgress('complete', 100, 'Roster exported successfully!');
+    } catch (error) {
+      console.error('Roster export error:', error);
+      this.updateProgress('error', 0, 'Roster export failed.');
+      throw error;
     }
+  }
+
+  /**
+   * Export a category's ranked leaderboard
+   */
+  async exportLeaderboard(
+    category: AdminApplicationData['competitionCategory'],
+    entries: LeaderboardEntry[],
+    options: LeaderboardOptions,
+    leaderboardFormat: 'csv' | 'pdf'
+  ): Promise<void> {
+    try {
+      this.updateProgress('generating', 50, 'Generating leaderboard...');
 
-    return filtered;
+      if (leaderboardFormat === 'pdf') {
+        await this.generateLeaderboardPDF(category, entries, options);
+      } else {
+        await this.generateLeaderboardCSV(category, entries, options);
+      }
+
+      this.updateProgress('complete', 100, 'Leaderboard exported successfully!');
+    } catch (error) {
+      console.error('Leaderboard export error:', error);
+      this.updateProgress('error', 0, 'Leaderboard export failed.');
+      throw error;
+    }
   }
 
   /**
-   * Export to CSV format
+   * Export an applicant's decision letter as PDF
    */
-  private async exportToCSV(applications: any[], options: ExportOptions): Promise<void> {
-    this.updateProgress('generating', 60, 'Generating CSV...');
+  async exportDecisionLetter(letter: DecisionLetter, applicationId: string): Promise<void> {
+    try {
+      this.updateProgress('generating', 50, 'Generating decision letter...');
 
-    const headers = [
-      'Application ID',
-      'Film Title (EN)',
-      'Film Title (TH)',
-      'Director Name',
-      'Category',
-      'Status',
-      'Duration (min)',
-      'Format',
-      'Country',
-      'Submitted Date',
-      'Created Date'
-    ];
+      const { doc, font } = await this.createPdf();
+      const pageWidth = doc.internal.pageSize.width;
+      const margin = 25;
+      const textWidth = pageWidth - 2 * margin;
+
+      // Letterhead
+      doc.setFontSize(18);
+      doc.setFont(font, 'bold');
+      doc.text('CIFAN 2025', margin, 30);
+      doc.setFontSize(10);
+      doc.setFont(font, 'normal');
+      doc.text(
+        letter.language === 'th'
+          ? 'เทศกาลภาพยนตร์แฟนตาสติกนานาชาติเชียงใหม่'
+          : 'Chiang Mai International Fantastic Film Festival',
+        margin,
+        37
+      );
+      doc.setDrawColor(170, 70, 38);
+      doc.line(margin, 42, pageWidth - margin, 42);
+
+      let yPosition = 55;
+      doc.setFontSize(11);
+      doc.text(letter.date, margin, yPosition);
+      yPosition += 12;
+
+      doc.setFont(font, 'bold');
+      yPosition = this.drawPdfLines(doc, doc.splitTextToSize(letter.subject, textWidth), margin, yPosition, 6) + 8;
+
+      doc.setFont(font, 'normal');
+      doc.text(letter.greeting, margin, yPosition);
+      yPosition += 10;
+
+      letter.paragraphs.forEach(paragraph => {
+        yPosition = this.drawPdfLines(doc, doc.splitTextToSize(paragraph, textWidth), margin, yPosition, 6) + 4;
+      });
 
-    if (options.includeScores) {
-      headers.push('Average Score', 'Total Judges', 'Technical Avg', 'Story Avg', 'Creativity Avg', 'Overall Avg');
+      yPosition = this.ensurePdfSpace(doc, yPosition + 6, 14 + letter.signature.length * 6);
+      doc.text(letter.closing, margin, yPosition);
+      yPosition += 14;
+      letter.signature.forEach(line => {
+        doc.text(line, margin, yPosition);
+        yPosition += 6;
+      });
+
+      doc.save(`CIFAN_Decision_Letter_${applicationId}.pdf`);
+
+      this.updateProgress('complete', 100, 'Decision letter generated successfully!');
+    } catch (error) {
+      console.error('Decision letter export error:', error);
+      this.updateProgress('error', 0, 'Decision letter generation failed.');
+      throw error;
     }
+  }
 
-    const csvContent = [
-      headers.join(','),
-      ...applications.map(app => {
-        const row = [
-          app.id,
-          `"${app.filmTitle}"`,
-          `"${app.filmTitleTh || ''}"`,
-          `"${app.directorName || app.submitterName}"`,
-          app.competitionCategory,
-          app.status,
-          app.duration,
-          app.format,
-          app.country,
-          app.submittedAt ? format(app.submittedAt, 'yyyy-MM-dd') : '',
-          format(app.createdAt, 'yyyy-MM-dd')
-        ];
-
-        if (options.includeScores && app.scores) {
-          const avgScore = app.scores.reduce((sum: number, score: any) => sum + score.totalScore, 0) / app.scores.length;
-          const avgTechnical = app.scores.reduce((sum: number, score: any) => sum + score.technical, 0) / app.scores.length;
-          const avgStory = app.scores.reduce((sum: number, score: any) => sum + score.story, 0) / app.scores.length;
-          const avgCreativity = app.scores.reduce((sum: number, score: any) => sum + score.creativity, 0) / app.scores.length;
-          const avgOverall = app.scores.reduce((sum: number, score: any) => sum + score.overall, 0) / app.scores.length;
-
-          row.push(
-            avgScore.toFixed(1),
-            app.scores.length.toString(),
-            avgTechnical.toFixed(1),
-            avgStory.toFixed(1),
-            avgCreativity.toFixed(1),
-            avgOverall.toFixed(1)
-          );
-        }
+  /**
+   * Export to CSV format
+   */
+  private async exportToCSV(applications: any[], options: ExportOptions): Promise<void> {
+    const columns = this.getApplicationColumns(options);
+    const rows = await this.loadApplicationRows(applications, columns, options);
 
-        return row.join(',');
-      })
-    ].join('\n');
+    this.updateProgress('generating', 60, 'Generating CSV...');
 
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
     const fileName = `CIFAN_Applications_${format(new Date(), 'yyyy-MM-dd')}.csv`;
-    saveAs(blob, fileName);
+    this.saveTableAsCSV(buildExportTable(columns, rows), fileName);
   }
 
   /**
-   * Export to Excel format (CSV with Excel MIME type)
+   * Export to an .xlsx workbook with sheets for submissions, crew members and,
+   * when requested, per-juror scores and admin notes
    */
   private async exportToExcel(applications: any[], options: ExportOptions): Promise<void> {
+    this.updateProgress('processing', 40, 'Loading crew, scores and notes...');
+
+    const details = await adminSubmissionService.getExportDetails(
+      applications.map(app => app.id),
+      options.includeScores
+    );
+    const detailsById = new Map(details.map(detail => [detail.submissionId, detail]));
+
     this.updateProgress('generating', 60, 'Generating Excel file...');
 
-    // For now, use CSV format with Excel MIME type
-    // In production, you might want to use a library like xlsx
-    await this.exportToCSV(applications, options);
+    const rows = applications.map(application => ({ application, details: detailsById.get(application.id) }));
+    const sheets = buildApplicationSheets(rows, this.getApplicationColumns(options), options);
+
+    const fileName = `CIFAN_Applications_${format(new Date(), 'yyyy-MM-dd')}.xlsx`;
+    saveAs(createXlsxBlob(sheets), fileName);
   }
 
   /**
    * Export to PDF format
    */
   private async exportToPDF(applications: any[], options: ExportOptions): Promise<void> {
+    const columns = this.getApplicationColumns(options);
+    const rows = await this.loadApplicationRows(applications, columns, options);
+
     this.updateProgress('generating', 60, 'Generating PDF report...');
 
-    const doc = new jsPDF();
-    const pageWidth = doc.internal.pageSize.width;
+    const fileName = `CIFAN_Applications_Report_${format(new Date(), 'yyyy-MM-dd')}.pdf`;
+    await this.saveTableAsPDF(
+      buildExportTable(columns, rows),
+      'CIFAN 2025 - Applications Report',
+      'รายงานใบสมัคร',
+      fileName
+    );
+  }
+
+  /**
+   * Chosen application columns, or the default layout for the format with
+   * score summaries appended when scores are included
+   */
+  private getApplicationColumns(options: ExportOptions): ExportColumnDefinition<ApplicationExportRow>[] {
+    const selection = options.columns?.length
+      ? options.columns
+      : toColumnSelection('applications', [
+        ...DEFAULT_APPLICATION_COLUMNS[options.format],
+        ...(options.includeScores ? SCORE_SUMMARY_COLUMNS : [])
+      ]);
+    return resolveExportColumns(APPLICATION_EXPORT_COLUMNS, selection);
+  }
+
+  private getUserColumns(options: Pick<ExportOptions, 'columns'>): ExportColumnDefinition<UserRole>[] {
+    const selection = options.columns?.length
+      ? options.columns
+      : toColumnSelection('users', USER_EXPORT_COLUMNS.map(column => column.id));
+    return resolveExportColumns(USER_EXPORT_COLUMNS, selection);
+  }
+
+  /**
+   * Pairs each application with its submission details, fetched only when a
+   * chosen column reads them
+   */
+  private async loadApplicationRows(
+    applications: AdminApplicationCard[],
+    columns: ExportColumnDefinition<ApplicationExportRow>[],
+    options: ExportOptions
+  ): Promise<ApplicationExportRow[]> {
+    if (!columns.some(column => column.requires)) {
+      return applications.map(application => ({ application }));
+    }
+
+    this.updateProgress('processing', 40, 'Loading submission details...');
+
+    const includeScores = options.includeScores || columns.some(column => column.requires === 'scores');
+    const details = await adminSubmissionService.getExportDetails(
+      applications.map(app => app.id),
+      includeScores
+    );
+    const detailsById = new Map(details.map(detail => [detail.submissionId, detail]));
+    return applications.map(application => ({ application, details: detailsById.get(application.id) }));
+  }
+
+  private saveTableAsCSV(table: ExportTable, fileName: string): void {
+    const blob = new Blob([buildCsv(table)], { type: 'text/csv;charset=utf-8;' });
+    saveAs(blob, fileName);
+  }
+
+  private async saveTableAsPDF(table: ExportTable, title: string, thaiTitle: string, fileName: string): Promise<void> {
+    const { doc, font } = await this.createPdf({
+      orientation: table.columns.length > PDF_PORTRAIT_MAX_COLUMNS ? 'landscape' : 'portrait'
+    });
     const margin = 20;
 
     // Header
     doc.setFontSize(18);
-    doc.setFont('helvetica', 'bold');
-    doc.text('CIFAN 2025 - Applications Report', margin, 30);
+    doc.setFont(font, 'bold');
+    doc.text(title, margin, 30);
+    doc.setFontSize(12);
+    doc.setFont(font, 'normal');
+    doc.text(thaiTitle, margin, 37);
 
     doc.setFontSize(10);
-    doc.setFont('helvetica', 'normal');
-    doc.text(`Generated: ${format(new Date(), 'PPP')}`, margin, 45);
-    doc.text(`Total Applications: ${applications.length}`, margin, 55);
-
-    // Table data
-    const headers = ['Title', 'Director', 'Category', 'Status', 'Date'];
-    const data = applications.map(app => [
-      app.filmTitle.length > 30 ? app.filmTitle.substring(0, 30) + '...' : app.filmTitle,
-      (app.directorName || app.submitterName).length > 25 ? (app.directorName || app.submitterName).substring(0, 25) + '...' : (app.directorName || app.submitterName),
-      app.competitionCategory,
-      app.status,
-      app.submittedAt ? format(app.submittedAt, 'MM/dd/yyyy') : format(app.createdAt, 'MM/dd/yyyy')
-    ]);
+    doc.text(`Generated / สร้างเมื่อ: ${format(new Date(), 'PPP')}`, margin, 47);
+    doc.text(`Total / จำนวน: ${table.rows.length}`, margin, 54);
 
-    (doc as any).autoTable({
-      head: [headers],
-      body: data,
-      startY: 70,
+    autoTable(doc, {
+      head: [table.columns.map(column => column.header)],
+      body: formatExportRows(table),
+      startY: 64,
       margin: { left: margin, right: margin },
-      styles: { fontSize: 8 },
+      styles: { font, fontSize: table.columns.length > 10 ? 7 : 8 },
       headStyles: { fillColor: [170, 70, 38] },
       alternateRowStyles: { fillColor: [245, 245, 245] }
     });
 
-    const fileName = `CIFAN_Applications_Report_${format(new Date(), 'yyyy-MM-dd')}.pdf`;
     doc.save(fileName);
   }
 
@@ -394,38 +667,33 @@ export class ExportService {
    * Generate dashboard PDF
    */
   private async generateDashboardPDF(data: any): Promise<void> {
-    const doc = new jsPDF();
+    const { doc, font } = await this.createPdf();
     const margin = 20;
 
     // Header
     doc.setFontSize(20);
-    doc.setFont('helvetica', 'bold');
+    doc.setFont(font, 'bold');
     doc.text('CIFAN 2025 Dashboard Report', margin, 30);
-
     doc.setFontSize(12);
-    doc.setFont('helvetica', 'normal');
-    doc.text(`Generated: ${format(new Date(), 'PPP')}`, margin, 45);
+    doc.setFont(font, 'normal');
+    doc.text('รายงานภาพรวม', margin, 38);
+
+    doc.text(`Generated / สร้างเมื่อ: ${format(new Date(), 'PPP')}`, margin, 48);
 
     let yPosition = 65;
 
     // Overall Statistics
-    doc.setFontSize(14);
-    doc.setFont('helvetica', 'bold');
-    doc.text('Overall Statistics', margin, yPosition);
-    yPosition += 15;
+    yPosition = this.drawPdfHeading(doc, font, 'Overall Statistics', 'สถิติโดยรวม', margin, yPosition);
 
     doc.setFontSize(10);
-    doc.setFont('helvetica', 'normal');
-    doc.text(`Total Applications: ${data.totalApplications}`, margin, yPosition);
+    doc.setFont(font, 'normal');
+    doc.text(`Total Applications / จำนวนใบสมัคร: ${data.totalApplications}`, margin, yPosition);
     yPosition += 10;
-    doc.text(`Recent Submissions (7 days): ${data.recentSubmissions}`, margin, yPosition);
-    yPosition += 20;
+    doc.text(`Recent Submissions (7 days) / ส่งใน 7 วันล่าสุด: ${data.recentSubmissions}`, margin, yPosition);
+    yPosition += 15;
 
     // Category Breakdown Table
-    doc.setFontSize(14);
-    doc.setFont('helvetica', 'bold');
-    doc.text('Category Breakdown', margin, yPosition);
-    yPosition += 10;
+    yPosition = this.drawPdfHeading(doc, font, 'Category Breakdown', 'แยกตามประเภท', margin, yPosition);
 
     const categoryData = [
       ['Youth', data.categoryBreakdown.youth.toString(), `${((data.categoryBreakdown.youth / data.totalApplications) * 100).toFixed(1)}%`],
@@ -433,12 +701,12 @@ export class ExportService {
       ['World', data.categoryBreakdown.world.toString(), `${((data.categoryBreakdown.world / data.totalApplications) * 100).toFixed(1)}%`]
     ];
 
-    (doc as any).autoTable({
-      head: [['Category', 'Count', 'Percentage']],
+    autoTable(doc, {
+      head: [['Category\nประเภท', 'Count\nจำนวน', 'Percentage\nร้อยละ']],
       body: categoryData,
       startY: yPosition,
       margin: { left: margin, right: margin },
-      styles: { fontSize: 10 },
+      styles: { font, fontSize: 10 },
       headStyles: { fillColor: [170, 70, 38] }
     });
 
@@ -446,6 +714,274 @@ export class ExportService {
     doc.save(fileName);
   }
 
+  /**
+   * Generate participant roster CSV
+   */
+  private async generateRosterCSV(activity: Activity, registrations: ActivityRegistration[]): Promise<void> {
+    const escape = (value: string) => `"${(value || '').replace(/"/g, '""')}"`;
+
+    const csvContent = [
+      ['No.', 'Name', 'Email', 'Phone', 'Status', 'Registered Date', 'Check-in'].join(','),
+      ...registrations.map((registration, index) => [
+        (index + 1).toString(),
+        escape(registration.userName),
+        escape(registration.userEmail),
+        escape(registration.userPhone || ''),
+        this.getRegistrationStatusLabel(registration.status),
+        format(new Date(registration.registeredAt), 'yyyy-MM-dd HH:mm'),
+        registration.checkedInAt ? format(new Date(registration.checkedInAt), 'yyyy-MM-dd HH:mm') : ''
+      ].join(','))
+    ].join('\n');
+
+    // BOM so spreadsheet apps detect UTF-8 and keep Thai names readable
+    const blob = new Blob(['\uFEFF' + csvContent], { type: 'text/csv;charset=utf-8;' });
+    const fileName = `CIFAN_Roster_${toFileSafeName(activity.name, 'Activity')}_${format(new Date(), 'yyyy-MM-dd')}.csv`;
+    saveAs(blob, fileName);
+  }
+
+  /**
+   * Generate participant roster PDF with a check-in column for the door
+   */
+  private async generateRosterPDF(activity: Activity, registrations: ActivityRegistration[]): Promise<void> {
+    const { doc, font } = await this.createPdf();
+    const margin = 20;
+
+    // Header
+    doc.setFontSize(18);
+    doc.setFont(font, 'bold');
+    doc.text('CIFAN 2025 - Participant Roster / รายชื่อผู้เข้าร่วม', margin, 30);
+
+    doc.setFontSize(12);
+    doc.text(activity.name, margin, 42);
+
+    doc.setFontSize(10);
+    doc.setFont(font, 'normal');
+    doc.text(`Date / วันที่: ${activity.eventDate} ${activity.startTime} - ${activity.endTime}`, margin, 52);
+    doc.text(`Venue / สถานที่: ${activity.venueName}`, margin, 59);
+    doc.text(
+      `Confirmed / ยืนยันแล้ว: ${activity.registeredParticipants || 0}` +
+      (activity.maxParticipants > 0 ? ` / ${activity.maxParticipants}` : '') +
+      `    Waitlist / รายชื่อสำรอง: ${activity.waitlistCount || 0}`,
+      margin,
+      66
+    );
+    doc.text(`Generated / สร้างเมื่อ: ${format(new Date(), 'PPP p')}`, margin, 73);
+
+    const data = registrations.map((registration, index) => [
+      (index + 1).toString(),
+      registration.userName,
+      registration.userEmail,
+      registration.userPhone || '',
+      this.getRegistrationStatusLabel(registration.status),
+      registration.checkedInAt ? format(new Date(registration.checkedInAt), 'HH:mm') : ''
+    ]);
+
+    autoTable(doc, {
+      head: [['#', 'Name\nชื่อ', 'Email\nอีเมล', 'Phone\nโทรศัพท์', 'Status\nสถานะ', 'Check-in\nเช็คอิน']],
+      body: data,
+      startY: 82,
+      margin: { left: margin, right: margin },
+      styles: { font, fontSize: 8 },
+      headStyles: { fillColor: [170, 70, 38] },
+      alternateRowStyles: { fillColor: [245, 245, 245] },
+      columnStyles: { 0: { cellWidth: 10 }, 5: { cellWidth: 20 } }
+    });
+
+    const fileName = `CIFAN_Roster_${toFileSafeName(activity.name, 'Activity')}_${format(new Date(), 'yyyy-MM-dd')}.pdf`;
+    doc.save(fileName);
+  }
+
+  /**
+   * Generate leaderboard CSV with one column per rubric criterion
+   */
+  private async generateLeaderboardCSV(
+    category: AdminApplicationData['competitionCategory'],
+    entries: LeaderboardEntry[],
+    options: LeaderboardOptions
+  ): Promise<void> {
+    const escape = (value: string) => `"${(value || '').replace(/"/g, '""')}"`;
+    const criteria = getRubricForCategory(category).criteria;
+
+    const csvContent = [
+      [
+        'Rank',
+        'Film Title (EN)',
+        'Film Title (TH)',
+        'Scores Used',
+        'Outliers Dropped',
+        'Mean Total',
+        'Max Score',
+        'Mean %',
+        'Normalized %',
+        'Std Dev',
+        ...criteria.map(criterion => escape(`${criterion.label.en} Avg`))
+      ].join(','),
+      ...entries.map(entry => [
+        entry.rank?.toString() || '',
+        escape(entry.filmTitle),
+        escape(entry.filmTitleTh || ''),
+        entry.scoreCount.toString(),
+        entry.droppedCount.toString(),
+        entry.meanTotal.toFixed(2),
+        entry.maxScore.toString(),
+        entry.meanPercentage.toFixed(2),
+        options.normalize ? entry.normalizedScore.toFixed(2) : '',
+        entry.standardDeviation.toFixed(2),
+        ...criteria.map(criterion => entry.criterionAverages[criterion.id]?.toFixed(2) || '')
+      ].join(','))
+    ].join('\n');
+
+    const blob = new Blob(['\uFEFF' + csvContent], { type: 'text/csv;charset=utf-8;' });
+    const fileName = `CIFAN_Leaderboard_${category}_${format(new Date(), 'yyyy-MM-dd')}.csv`;
+    saveAs(blob, fileName);
+  }
+
+  /**
+   * Generate leaderboard PDF
+   */
+  private async generateLeaderboardPDF(
+    category: AdminApplicationData['competitionCategory'],
+    entries: LeaderboardEntry[],
+    options: LeaderboardOptions
+  ): Promise<void> {
+    const { doc, font } = await this.createPdf({ orientation: 'landscape' });
+    const margin = 20;
+    const rubric = getRubricForCategory(category);
+
+    doc.setFontSize(18);
+    doc.setFont(font, 'bold');
+    doc.text('CIFAN 2025 - Leaderboard / ตารางคะแนน', margin, 25);
+
+    doc.setFontSize(12);
+    doc.text(`${rubric.name.en} / ${rubric.name.th}`, margin, 35);
+
+    doc.setFontSize(10);
+    doc.setFont(font, 'normal');
+    doc.text(
+      `Ranking: ${options.normalize ? 'z-score normalized per juror' : 'raw mean'}` +
+      `    Outliers: ${options.dropOutliers ? 'highest and lowest dropped' : 'kept'}`,
+      margin,
+      43
+    );
+    doc.text(`Generated: ${format(new Date(), 'PPP p')}`, margin, 50);
+
+    const data = entries.map(entry => [
+      entry.rank?.toString() || '-',
+      [entry.filmTitle, entry.filmTitleTh].filter(Boolean).join('\n'),
+      entry.scoreCount.toString() + (entry.droppedCount > 0 ? ` (-${entry.droppedCount})` : ''),
+      `${entry.meanTotal.toFixed(1)}/${entry.maxScore}`,
+      `${entry.meanPercentage.toFixed(1)}%`,
+      options.normalize ? `${entry.normalizedScore.toFixed(1)}%` : '-',
+      entry.standardDeviation.toFixed(1),
+      ...rubric.criteria.map(criterion => entry.criterionAverages[criterion.id]?.toFixed(1) || '-')
+    ]);
+
+    autoTable(doc, {
+      head: [[
+        '#',
+        'Film\nภาพยนตร์',
+        'Scores\nจำนวนคะแนน',
+        'Mean\nเฉลี่ย',
+        'Mean %\nร้อยละเฉลี่ย',
+        'Normalized\nปรับมาตรฐาน',
+        'SD',
+        ...rubric.criteria.map(criterion => `${criterion.label.en}\n${criterion.label.th}`)
+      ]],
+      body: data,
+      startY: 58,
+      margin: { left: margin, right: margin },
+      styles: { font, fontSize: 8 },
+      headStyles: { fillColor: [170, 70, 38] },
+      alternateRowStyles: { fillColor: [245, 245, 245] },
+      columnStyles: { 0: { cellWidth: 10 } }
+    });
+
+    const fileName = `CIFAN_Leaderboard_${category}_${format(new Date(), 'yyyy-MM-dd')}.pdf`;
+    doc.save(fileName);
+  }
+
+  /**
+   * New PDF document with the Thai font embedded and Thai-aware line breaking
+   */
+  private async createPdf(options?: jsPDFOptions): Promise<{ doc: jsPDF; font: string }> {
+    const doc = new jsPDF(options);
+    const font = await registerThaiFont(doc);
+    return { doc, font };
+  }
+
+  /**
+   * English section heading with its Thai translation beside it; returns the
+   * position below it
+   */
+  private drawPdfHeading(doc: jsPDF, font: string, english: string, thai: string, x: number, y: number): number {
+    doc.setFontSize(14);
+    doc.setFont(font, 'bold');
+    doc.text(english, x, y);
+    const englishWidth = doc.getTextWidth(english);
+    doc.setFontSize(11);
+    doc.setFont(font, 'normal');
+    doc.setTextColor(120, 120, 120);
+    doc.text(thai, x + englishWidth + 4, y);
+    doc.setTextColor(0, 0, 0);
+    return y + 8;
+  }
+
+  /**
+   * Draw wrapped lines, continuing on a new page when the current one is full;
+   * returns the position below the last line
+   */
+  private drawPdfLines(doc: jsPDF, lines: string[], x: number, y: number, lineHeight: number): number {
+    let yPosition = y;
+    lines.forEach(line => {
+      yPosition = this.ensurePdfSpace(doc, yPosition, lineHeight);
+      doc.text(line, x, yPosition);
+      yPosition += lineHeight;
+    });
+    return yPosition;
+  }
+
+  private ensurePdfSpace(doc: jsPDF, y: number, height: number): number {
+    if (y + height <= doc.internal.pageSize.height - 20) return y;
+    doc.addPage();
+    return 25;
+  }
+
+  private getLastTableY(doc: jsPDF): number {
+    return (doc as jsPDF & { lastAutoTable?: { finalY?: number } }).lastAutoTable?.finalY || 0;
+  }
+
+  /**
+   * Fetch an image for embedding in a PDF, or null if it cannot be loaded
+   * (e.g. missing CORS headers on the storage bucket)
+   */
+  private async loadPdfImage(doc: jsPDF, url?: string): Promise<{ dataUrl: string; format: string; width: number; height: number } | null> {
+    if (!url) return null;
+
+    try {
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      const blob = await response.blob();
+      const dataUrl = await new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(String(reader.result));
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+      });
+
+      const { width, height, fileType } = doc.getImageProperties(dataUrl);
+      return { dataUrl, format: fileType, width, height };
+    } catch (error) {
+      console.warn('Could not load image for PDF:', url, error);
+      return null;
+    }
+  }
+
+  private getRegistrationStatusLabel(status: ActivityRegistration['status']): string {
+    return REGISTRATION_STATUS_OPTIONS.find(option => option.value === status)?.label || status;
+  }
+
   /**
    * Update progress callback
    */
@@ -1,5 +1,13 @@
-import { ref, uploadBytesResumable, getDownloadURL, deleteObject } from 'firebase/storage';
+import { ref, deleteObject } from 'firebase/storage';
 import { storage } from '../firebase';
+import {
+  resumableUploadManager,
+  ResumableUpload,
+  ResumableUploadError,
+  UploadTransferProgress
+} from './resumableUploadManager';
+import { VideoTechnicalMetadata } from '../types/video.types';
+import { PosterThumbnails, PreviewFrame } from '../types/media.types';
 
 export interface FileMetadata {
   fileName: string;
@@ -8,12 +16,18 @@ export interface FileMetadata {
   uploadedAt: Date;
   storagePath: string;
   downloadURL: string;
+  technical?: VideoTechnicalMetadata; // Film files only, read in the browser before upload
+  thumbnails?: PosterThumbnails; // Poster files only
+  previewFrames?: PreviewFrame[]; // Film files only
 }
 
 export interface FileUploadRequest {
   file: File;
   path: string;
   onProgress?: (progress: number) => void;
+  resumeKey?: string; // Lets an interrupted upload continue after a reload
+  onTransfer?: (transfer: UploadTransferProgress) => void; // Bytes, throughput and ETA
+  onUploadCreated?: (upload: ResumableUpload) => void; // Handle for pause/resume/cancel
 }
 
 export interface ValidationRules {
@@ -93,66 +107,55 @@ export const validateFile = async (file: File, rules: ValidationRules): Promise<
 };
 
 /**
- * Uploads a single file to Firebase Storage
+ * Uploads a single file to Firebase Storage in resumable chunks. With a
+ * resumeKey, an upload interrupted by a reload continues when the same file
+ * is uploaded again for that key.
  */
 export const uploadFile = async (
   file: File,
   path: string,
-  onProgress?: (progress: number) => void
+  onProgress?: (progress: number) => void,
+  options: Omit<FileUploadRequest, 'file' | 'path' | 'onProgress'> = {}
 ): Promise<FileMetadata> => {
-  return new Promise((resolve, reject) => {
-    const storageRef = ref(storage, path);
-    const uploadTask = uploadBytesResumable(storageRef, file);
-
-    uploadTask.on(
-      'state_changed',
-      (snapshot) => {
-        const progress = (snapshot.bytesTransferred / snapshot.totalBytes) * 100;
-        onProgress?.(progress);
-      },
-      (error) => {
-        console.error('Upload error:', error);
-        reject(new FileUploadError(
-          `Failed to upload ${file.name}: ${error.message}`,
-          error.code,
-          file.name
-        ));
-      },
-      async () => {
-        try {
-          const downloadURL = await getDownloadURL(uploadTask.snapshot.ref);
-          
-          const metadata: FileMetadata = {
-            fileName: file.name,
-            fileSize: file.size,
-            fileType: file.type,
-            uploadedAt: new Date(),
-            storagePath: path,
-            downloadURL
-          };
-
-          resolve(metadata);
-        } catch (error) {
-          console.error('Download URL error:', error);
-          const firebaseError = error as any;
-          
-          if (firebaseError?.code === 'storage/unauthorized') {
-            reject(new FileUploadError(
-              `Firebase Storage permissions error. Please contact support or check Firebase Storage rules. File: ${file.name}`,
-              'storage-unauthorized',
-              file.name
-            ));
-          } else {
-            reject(new FileUploadError(
-              `Failed to get download URL for ${file.name}: ${firebaseError?.message || 'Unknown error'}`,
-              'download-url-error',
-              file.name
-            ));
-          }
-        }
-      }
-    );
+  const upload = resumableUploadManager.createUpload(file, path, {
+    resumeKey: options.resumeKey,
+    onProgress: (transfer) => {
+      options.onTransfer?.(transfer);
+      onProgress?.(transfer.percent);
+    }
   });
+  options.onUploadCreated?.(upload);
+
+  try {
+    const result = await upload.start();
+
+    return {
+      fileName: file.name,
+      fileSize: file.size,
+      fileType: file.type,
+      uploadedAt: new Date(),
+      storagePath: result.storagePath,
+      downloadURL: result.downloadURL
+    };
+  } catch (error) {
+    console.error('Upload error:', error);
+
+    if (error instanceof ResumableUploadError && error.code === 'unauthorized') {
+      throw new FileUploadError(
+        `Firebase Storage permissions error. Please contact support or check Firebase Storage rules. File: ${file.name}`,
+        'storage-unauthorized',
+        file.name
+      );
+    }
+    if (error instanceof ResumableUploadError && error.code === 'cancelled') {
+      throw new FileUploadError(`Upload of ${file.name} was cancelled`, 'upload-cancelled', file.name);
+    }
+    throw new FileUploadError(
+      `Failed to upload ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      error instanceof ResumableUploadError ? error.code : 'upload-error',
+      file.name
+    );
+  }
 };
 
 /**
@@ -162,7 +165,11 @@ export const uploadMultipleFiles = async (
   requests: FileUploadRequest[]
 ): Promise<FileMetadata[]> => {
   const uploadPromises = requests.map(request =>
-    uploadFile(request.file, request.path, request.onProgress)
+    uploadFile(request.file, request.path, request.onProgress, {
+      resumeKey: request.resumeKey,
+      onTransfer: request.onTransfer,
+      onUploadCreated: request.onUploadCreated
+    })
   );
 
   try {
@@ -195,7 +202,7 @@ export const deleteFile = async (storagePath: string): Promise<void> => {
  */
 export const generateFilePath = (
   submissionId: string,
-  fileType: 'film' | 'poster' | 'proof',
+  fileType: 'film' | 'poster' | 'proof' | 'subtitles',
   fileName: string
 ): string => {
   const timestamp = Date.now();
@@ -0,0 +1,278 @@
+import {
+  collection,
+  collectionGroup,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  setDoc,
+  writeBatch,
+  runTransaction,
+  serverTimestamp,
+  DocumentData,
+  QueryDocumentSnapshot
+} from 'firebase/firestore';
+import { db } from '../firebase';
+import { AdminApplicationData, JurySubmissionSummary, ScoringCriteria, UserRole } from '../types/admin.types';
+import { RoleService } from './roleService';
+import { planRoundRobinAssignments, toBlindReviewCopy } from '../utils/juryAssignment';
+import { normalizeStoredScores } from '../utils/scoringRubrics';
+
+const SUBMISSIONS_COLLECTION = 'submissions';
+// One score entry per judge under each submission, keyed by the judge's user ID
+const SCORES_COLLECTION = 'scores';
+// Redacted copies of assigned submissions; jurors read these, never the submission
+const BLIND_REVIEWS_COLLECTION = 'blindReviews';
+
+// Submitted films and films shortlisted in a decision round are still being judged
+const ASSIGNABLE_STATUSES: AdminApplicationData['status'][] = ['submitted', 'under-review'];
+
+// Firestore limits a batch to 500 writes
+const MAX_BATCH_SIZE = 500;
+
+export class JuryAssignmentService {
+  private static instance: JuryAssignmentService;
+
+  static getInstance(): JuryAssignmentService {
+    if (!JuryAssignmentService.instance) {
+      JuryAssignmentService.instance = new JuryAssignmentService();
+    }
+    return JuryAssignmentService.instance;
+  }
+
+  /**
+   * Map a submission or its blind review copy to the summary shown to jurors
+   */
+  private toSummary(docSnap: QueryDocumentSnapshot<DocumentData>, scoredBy: string[]): JurySubmissionSummary {
+    const data = docSnap.data();
+    // Entries in the legacy scores array predate per-judge score documents
+    const legacyScorers = ((data.scores || []) as Partial<ScoringCriteria>[])
+      .map(score => score.adminId)
+      .filter((adminId): adminId is string => !!adminId && !scoredBy.includes(adminId));
+    return {
+      id: docSnap.id,
+      filmTitle: data.filmTitle || 'Untitled',
+      filmTitleTh: data.filmTitleTh,
+      competitionCategory: data.competitionCategory || data.category || 'youth',
+      status: data.status || 'submitted',
+      genres: data.genres || [],
+      format: data.format || '',
+      duration: data.duration || 0,
+      posterUrl: data.files?.posterFile?.url,
+      assignedReviewers: data.assignedReviewers || [],
+      scoredBy: [...scoredBy, ...legacyScorers],
+      createdAt: data.createdAt?.toDate() || new Date()
+    };
+  }
+
+  /**
+   * Judge IDs with a score entry, keyed by submission ID. Pass a juror ID to
+   * look up only that juror's entries; without it every entry is read (admin only).
+   */
+  private async getScoredBy(jurorId?: string): Promise<Record<string, string[]>> {
+    const scoresQuery = jurorId
+      ? query(collectionGroup(db, SCORES_COLLECTION), where('adminId', '==', jurorId))
+      : collectionGroup(db, SCORES_COLLECTION);
+    const snapshot = await getDocs(scoresQuery);
+
+    const scoredBy: Record<string, string[]> = {};
+    snapshot.docs.forEach(docSnap => {
+      const submissionId = docSnap.ref.parent.parent?.id;
+      if (submissionId) {
+        scoredBy[submissionId] = [...(scoredBy[submissionId] || []), docSnap.id];
+      }
+    });
+    return scoredBy;
+  }
+
+  /**
+   * Get all users with the jury role
+   */
+  async getJurors(): Promise<UserRole[]> {
+    return RoleService.getUsersByRole('jury');
+  }
+
+  /**
+   * Get blind summaries of the submissions in the given statuses
+   */
+  async getSubmissionSummaries(
+    statuses: AdminApplicationData['status'][],
+    category?: AdminApplicationData['competitionCategory']
+  ): Promise<JurySubmissionSummary[]> {
+    try {
+      const [snapshot, scoredBy] = await Promise.all([
+        getDocs(query(collection(db, SUBMISSIONS_COLLECTION), where('status', 'in', statuses))),
+        this.getScoredBy()
+      ]);
+      const submissions = snapshot.docs.map(docSnap => this.toSummary(docSnap, scoredBy[docSnap.id] || []));
+      return category
+        ? submissions.filter(submission => submission.competitionCategory === category)
+        : submissions;
+    } catch (error) {
+      console.error('Error fetching submission summaries:', error);
+      throw new Error('Failed to fetch submission summaries');
+    }
+  }
+
+  /**
+   * Get films still in competition, which can be assigned to jurors
+   */
+  async getAssignableSubmissions(category?: AdminApplicationData['competitionCategory']): Promise<JurySubmissionSummary[]> {
+    return this.getSubmissionSummaries(ASSIGNABLE_STATUSES, category);
+  }
+
+  /**
+   * Get the films assigned to a juror, from their blind review copies
+   */
+  async getAssignedSubmissions(jurorId: string): Promise<JurySubmissionSummary[]> {
+    try {
+      const [snapshot, scoredBy] = await Promise.all([
+        getDocs(query(collection(db, BLIND_REVIEWS_COLLECTION), where('assignedReviewers', 'array-contains', jurorId))),
+        this.getScoredBy(jurorId)
+      ]);
+      return snapshot.docs
+        .map(docSnap => this.toSummary(docSnap, scoredBy[docSnap.id] || []))
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+    } catch (error) {
+      console.error('Error fetching assigned submissions:', error);
+      throw new Error('Failed to fetch assigned submissions');
+    }
+  }
+
+  /**
+   * Get every judge's score entry for a submission (admin only). Entries in
+   * the submission's legacy scores array are included unless that judge has
+   * since saved a score entry of their own.
+   */
+  async getScores(submissionId: string, legacyScores: DocumentData[] = []): Promise<ScoringCriteria[]> {
+    try {
+      const snapshot = await getDocs(collection(db, SUBMISSIONS_COLLECTION, submissionId, SCORES_COLLECTION));
+      const entries = snapshot.docs.map(docSnap => docSnap.data());
+      const judgeIds = snapshot.docs.map(docSnap => docSnap.id);
+
+      return [
+        ...legacyScores.filter(score => !judgeIds.includes(score.adminId)),
+        ...entries
+      ].map(score => ({
+        ...score,
+        ...normalizeStoredScores(score),
+        scoredAt: score.scoredAt?.toDate ? score.scoredAt.toDate() : score.scoredAt
+      }) as ScoringCriteria);
+    } catch (error) {
+      console.error('Error fetching scores:', error);
+      throw new Error('Failed to fetch scores');
+    }
+  }
+
+  /**
+   * Save the judge's own score entry for a submission. Each judge writes a
+   * separate document, so one judge can never overwrite another's score.
+   */
+  async saveScore(submissionId: string, score: Omit<ScoringCriteria, 'scoredAt'>): Promise<void> {
+    try {
+      await setDoc(doc(db, SUBMISSIONS_COLLECTION, submissionId, SCORES_COLLECTION, score.adminId), {
+        ...score,
+        scoredAt: serverTimestamp()
+      });
+    } catch (error) {
+      console.error('Error saving score:', error);
+      throw new Error('Failed to save score');
+    }
+  }
+
+  /**
+   * Change a submission's jurors and refresh its blind review copy in the same
+   * transaction, so the copy lists exactly the jurors allowed to read it
+   */
+  private async updateAssignment(submissionId: string, update: (assigned: string[]) => string[]): Promise<void> {
+    const submissionRef = doc(db, SUBMISSIONS_COLLECTION, submissionId);
+
+    await runTransaction(db, async (transaction) => {
+      const submissionSnap = await transaction.get(submissionRef);
+      if (!submissionSnap.exists()) {
+        throw new Error('Submission not found');
+      }
+
+      const data = submissionSnap.data();
+      const assignedReviewers = update(data.assignedReviewers || []);
+      transaction.update(submissionRef, {
+        assignedReviewers,
+        lastModified: serverTimestamp()
+      });
+      transaction.set(doc(db, BLIND_REVIEWS_COLLECTION, submissionId), toBlindReviewCopy(data, assignedReviewers));
+    });
+  }
+
+  /**
+   * Manually assign jurors to a submission
+   */
+  async assignJurors(submissionId: string, jurorIds: string[]): Promise<void> {
+    if (jurorIds.length === 0) return;
+
+    try {
+      await this.updateAssignment(submissionId, assigned => Array.from(new Set([...assigned, ...jurorIds])));
+    } catch (error) {
+      console.error('Error assigning jurors:', error);
+      throw new Error('Failed to assign jurors');
+    }
+  }
+
+  /**
+   * Remove a juror from a submission
+   */
+  async unassignJuror(submissionId: string, jurorId: string): Promise<void> {
+    try {
+      await this.updateAssignment(submissionId, assigned => assigned.filter(id => id !== jurorId));
+    } catch (error) {
+      console.error('Error removing juror assignment:', error);
+      throw new Error('Failed to remove juror assignment');
+    }
+  }
+
+  /**
+   * Fill every submission in a category up to `jurorsPerFilm` jurors using
+   * balanced round-robin. Returns the number of new assignments made.
+   */
+  async autoAssignCategory(
+    category: AdminApplicationData['competitionCategory'],
+    jurorIds: string[],
+    jurorsPerFilm: number
+  ): Promise<number> {
+    try {
+      const submissions = await this.getAssignableSubmissions(category);
+      const plan = planRoundRobinAssignments(submissions, jurorIds, jurorsPerFilm);
+      const entries = Object.entries(plan);
+
+      // Each submission takes two writes: the submission and its blind review copy
+      const submissionsPerBatch = MAX_BATCH_SIZE / 2;
+      for (let i = 0; i < entries.length; i += submissionsPerBatch) {
+        const chunk = entries.slice(i, i + submissionsPerBatch);
+        const snapshots = await Promise.all(
+          chunk.map(([submissionId]) => getDoc(doc(db, SUBMISSIONS_COLLECTION, submissionId)))
+        );
+
+        const batch = writeBatch(db);
+        chunk.forEach(([submissionId, newJurorIds], index) => {
+          const data = snapshots[index].data() || {};
+          const assignedReviewers = Array.from(new Set([...(data.assignedReviewers || []), ...newJurorIds]));
+          batch.update(doc(db, SUBMISSIONS_COLLECTION, submissionId), {
+            assignedReviewers,
+            lastModified: serverTimestamp()
+          });
+          batch.set(doc(db, BLIND_REVIEWS_COLLECTION, submissionId), toBlindReviewCopy(data, assignedReviewers));
+        });
+        await batch.commit();
+      }
+
+      return entries.reduce((sum, [, newJurorIds]) => sum + newJurorIds.length, 0);
+    } catch (error) {
+      console.error('Error auto-assigning jurors:', error);
+      throw new Error('Failed to auto-assign jurors');
+    }
+  }
+}
+
+// Export singleton instance
+export const juryAssignmentService = JuryAssignmentService.getInstance();
+export default juryAssignmentService;
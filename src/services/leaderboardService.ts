@@ -0,0 +1,57 @@
+import { AdminApplicationData, JurorScoreRecord, JurySubmissionSummary } from '../types/admin.types';
+import { juryAssignmentService } from './juryAssignmentService';
+import { shortFilmCommentsService } from './shortFilmCommentsService';
+import { dedupeJurorScores } from '../utils/scoreAggregation';
+
+// Films that have left draft, including those already decided in a decision round
+const JUDGED_STATUSES: AdminApplicationData['status'][] = ['submitted', 'under-review', 'accepted', 'rejected'];
+
+export interface CategoryScoreData {
+  films: JurySubmissionSummary[];
+  records: JurorScoreRecord[];
+}
+
+export class LeaderboardService {
+  private static instance: LeaderboardService;
+
+  static getInstance(): LeaderboardService {
+    if (!LeaderboardService.instance) {
+      LeaderboardService.instance = new LeaderboardService();
+    }
+    return LeaderboardService.instance;
+  }
+
+  /**
+   * Get a category's submitted films with every juror's latest scoring comment
+   */
+  async getCategoryScores(category: AdminApplicationData['competitionCategory']): Promise<CategoryScoreData> {
+    try {
+      const films = await juryAssignmentService.getSubmissionSummaries(JUDGED_STATUSES, category);
+
+      const commentsPerFilm = await Promise.all(
+        films.map(film => shortFilmCommentsService.getComments(film.id))
+      );
+
+      // Comments arrive newest first, so deduping keeps each juror's latest score
+      const records = dedupeJurorScores(
+        commentsPerFilm.flat()
+          .filter(comment => comment.type === 'scoring' && comment.scores && !comment.isDeleted)
+          .map(comment => ({
+            submissionId: comment.submissionId,
+            jurorId: comment.adminId,
+            jurorName: comment.adminName,
+            scores: comment.scores!
+          }))
+      );
+
+      return { films, records };
+    } catch (error) {
+      console.error('Error fetching category scores:', error);
+      throw new Error('Failed to fetch category scores');
+    }
+  }
+}
+
+// Export singleton instance
+export const leaderboardService = LeaderboardService.getInstance();
+export default leaderboardService;
@@ -0,0 +1,61 @@
+import {
+  collection,
+  doc,
+  serverTimestamp,
+  DocumentReference
+} from 'firebase/firestore';
+import { db } from '../firebase';
+import { DecisionLetterDetails, DecisionLetterStatus } from '../types/admin.types';
+import { buildDecisionLetter, decisionLetterToHtml, decisionLetterToText } from '../utils/decisionLetters';
+
+// Outbound mail queue, in the { to, message } shape scripts/mailSender.ts delivers
+const MAIL_COLLECTION = 'mail';
+
+export class MailService {
+  private static instance: MailService;
+
+  static getInstance(): MailService {
+    if (!MailService.instance) {
+      MailService.instance = new MailService();
+    }
+    return MailService.instance;
+  }
+
+  /**
+   * Reference for a new outbound mail document, for callers writing in a batch
+   */
+  newMailRef(): DocumentReference {
+    return doc(collection(db, MAIL_COLLECTION));
+  }
+
+  /**
+   * Build a mail record carrying a decision letter in Thai followed by English
+   */
+  createDecisionLetterMailData(
+    to: string,
+    submissionId: string,
+    status: DecisionLetterStatus,
+    details: DecisionLetterDetails
+  ) {
+    const th = buildDecisionLetter(status, details, 'th');
+    const en = buildDecisionLetter(status, details, 'en');
+
+    return {
+      to,
+      message: {
+        subject: `${th.subject} / ${en.subject}`,
+        text: `${decisionLetterToText(th)}\n\n----------\n\n${decisionLetterToText(en)}`,
+        html: `${decisionLetterToHtml(th)}\n<hr>\n${decisionLetterToHtml(en)}`
+      },
+      type: 'decision-letter',
+      submissionId,
+      status,
+      deliveryStatus: 'queued',
+      createdAt: serverTimestamp()
+    };
+  }
+}
+
+// Export singleton instance
+export const mailService = MailService.getInstance();
+export default mailService;
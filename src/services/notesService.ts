@@ -13,14 +13,21 @@ import {
 } from 'firebase/firestore';
 import { db } from '../firebase';
 
+export interface NoteMention {
+  userId: string;
+  name: string;
+}
+
 export interface AdminNote {
   id: string;
   submissionId: string;
+  parentId?: string; // Note this one replies to; top-level notes have none
   adminId: string;
   adminName: string;
   adminEmail: string;
   adminRole?: string;
   content: string;
+  mentions?: NoteMention[];
   createdAt: Timestamp;
   updatedAt?: Timestamp;
   isEdited: boolean;
@@ -38,11 +45,19 @@ export interface CreateNoteData {
   adminEmail: string;
   adminRole?: string;
   content: string;
+  parentId?: string;
+  mentions?: NoteMention[];
 }
 
 export interface UpdateNoteData {
   content: string;
   editedBy: string;
+  mentions?: NoteMention[];
+}
+
+export interface NoteThread {
+  note: AdminNote;
+  replies: NoteThread[];
 }
 
 class NotesService {
@@ -58,6 +73,8 @@ class NotesService {
         adminEmail: noteData.adminEmail,
         adminRole: noteData.adminRole || 'Admin',
         content: noteData.content,
+        mentions: noteData.mentions || [],
+        ...(noteData.parentId && { parentId: noteData.parentId }),
         createdAt: Timestamp.now(),
         isEdited: false
       };
@@ -93,6 +110,7 @@ class NotesService {
       // Update note with new content and edit history
       await updateDoc(noteRef, {
         content: updateData.content,
+        mentions: updateData.mentions || [],
         updatedAt: Timestamp.now(),
         isEdited: true,
         editHistory: [...(currentNote.editHistory || []), editHistoryEntry]
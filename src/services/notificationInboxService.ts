@@ -0,0 +1,139 @@
+import {
+  collection,
+  doc,
+  addDoc,
+  updateDoc,
+  query,
+  where,
+  orderBy,
+  limit,
+  onSnapshot,
+  writeBatch,
+  serverTimestamp,
+  DocumentReference
+} from 'firebase/firestore';
+import { db } from '../firebase';
+import { InboxNotification, NewInboxNotification } from '../types/notification.types';
+
+const NOTIFICATIONS_COLLECTION = 'notifications';
+
+// Only the most recent notifications are kept in the inbox view
+const INBOX_LIMIT = 50;
+
+export class NotificationInboxService {
+  private static instance: NotificationInboxService;
+
+  static getInstance(): NotificationInboxService {
+    if (!NotificationInboxService.instance) {
+      NotificationInboxService.instance = new NotificationInboxService();
+    }
+    return NotificationInboxService.instance;
+  }
+
+  /**
+   * Reference for a new notification document, for callers writing in a batch or transaction
+   */
+  newNotificationRef(): DocumentReference {
+    return doc(collection(db, NOTIFICATIONS_COLLECTION));
+  }
+
+  /**
+   * Build the stored form of a notification
+   */
+  createNotificationData(notification: NewInboxNotification) {
+    return {
+      ...notification,
+      read: false,
+      createdAt: serverTimestamp()
+    };
+  }
+
+  /**
+   * Deliver a notification. Failures are logged rather than thrown so the
+   * action that triggered the notification is never rolled back by it.
+   */
+  async notify(notification: NewInboxNotification): Promise<void> {
+    try {
+      await addDoc(collection(db, NOTIFICATIONS_COLLECTION), this.createNotificationData(notification));
+    } catch (error) {
+      console.error('Error sending notification:', error);
+    }
+  }
+
+  /**
+   * Real-time subscription to a user's most recent notifications, newest first
+   */
+  subscribeToInbox(userId: string, callback: (notifications: InboxNotification[]) => void): () => void {
+    try {
+      const q = query(
+        collection(db, NOTIFICATIONS_COLLECTION),
+        where('userId', '==', userId),
+        orderBy('createdAt', 'desc'),
+        limit(INBOX_LIMIT)
+      );
+
+      return onSnapshot(q, (snapshot) => {
+        callback(snapshot.docs.map(docSnap => {
+          const data = docSnap.data();
+          return {
+            id: docSnap.id,
+            userId: data.userId,
+            type: data.type,
+            title: data.title,
+            message: data.message,
+            link: data.link,
+            read: !!data.read,
+            createdAt: data.createdAt?.toDate() || new Date(),
+            readAt: data.readAt?.toDate()
+          };
+        }));
+      }, (error) => {
+        console.error('Error in notification inbox subscription:', error);
+        callback([]);
+      });
+    } catch (error) {
+      console.error('Error setting up notification inbox subscription:', error);
+      return () => {};
+    }
+  }
+
+  /**
+   * Mark a single notification as read
+   */
+  async markAsRead(notificationId: string): Promise<void> {
+    try {
+      await updateDoc(doc(db, NOTIFICATIONS_COLLECTION, notificationId), {
+        read: true,
+        readAt: serverTimestamp()
+      });
+    } catch (error) {
+      console.error('Error marking notification as read:', error);
+      throw new Error('Failed to mark notification as read');
+    }
+  }
+
+  /**
+   * Mark every given notification as read in one batch
+   */
+  async markAllAsRead(notificationIds: string[]): Promise<void> {
+    if (notificationIds.length === 0) return;
+
+    try {
+      const batch = writeBatch(db);
+      notificationIds.forEach(notificationId => {
+        batch.update(doc(db, NOTIFICATIONS_COLLECTION, notificationId), {
+          read: true,
+          readAt: serverTimestamp()
+        });
+      });
+      await batch.commit();
+    } catch (error) {
+      console.error('Error marking notifications as read:', error);
+      throw new Error('Failed to mark notifications as read');
+    }
+  }
+}
+
+// Export singleton instance
+export const notificationInboxService = NotificationInboxService.getInstance();
+export default notificationInboxService;
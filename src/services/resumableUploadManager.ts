@@ -0,0 +1,455 @@
+import { ref, getDownloadURL } from 'firebase/storage';
+import { storage, auth } from '../firebase';
+import {
+  UploadSession,
+  getUploadSessionId,
+  getUploadSession,
+  saveUploadSession,
+  deleteUploadSession,
+  getUploadSessionsForKey
+} from '../utils/uploadSessionStore';
+
+const STORAGE_UPLOAD_HOST = 'https://firebasestorage.googleapis.com/v0';
+
+// The resumable protocol requires chunks in multiples of 256 KB
+const CHUNK_SIZE = 16 * 256 * 1024; // 4 MB
+
+// Retries per chunk after a network failure, with exponential backoff
+const MAX_RETRIES = 6;
+const RETRY_BASE_DELAY_MS = 1000;
+
+// Throughput is averaged over this window so ETA does not jump on every chunk
+const THROUGHPUT_WINDOW_MS = 10000;
+
+export type ResumableUploadState = 'idle' | 'uploading' | 'paused' | 'retrying' | 'complete' | 'cancelled' | 'error';
+
+export interface UploadTransferProgress {
+  state: ResumableUploadState;
+  bytesTransferred: number;
+  totalBytes: number;
+  percent: number;
+  bytesPerSecond: number;
+  etaSeconds: number | null; // null until there is enough data to estimate
+  resumedFromBytes: number; // Bytes already on the server when this run started
+}
+
+export interface ResumableUploadOptions {
+  resumeKey?: string; // Enables resuming after reload; omit for one-off uploads
+  onProgress?: (progress: UploadTransferProgress) => void;
+}
+
+export interface ResumableUploadResult {
+  storagePath: string;
+  downloadURL: string;
+}
+
+export class ResumableUploadError extends Error {
+  constructor(
+    message: string,
+    public code: 'unauthorized' | 'cancelled' | 'aborted' | 'network' | 'session-expired' | 'server-error',
+    public status?: number
+  ) {
+    super(message);
+    this.name = 'ResumableUploadError';
+  }
+}
+
+const codeForStatus = (status: number): ResumableUploadError['code'] => {
+  if (status === 401 || status === 403) return 'unauthorized';
+  if (status === 404 || status === 410) return 'session-expired';
+  return 'server-error';
+};
+
+const isRetryable = (error: unknown): boolean =>
+  error instanceof ResumableUploadError &&
+  (error.code === 'network' || (error.code === 'server-error' && (!error.status || error.status >= 500 || error.status === 429)));
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * One file upload over the Storage resumable protocol: sent in chunks, retried
+ * from the last confirmed byte after a failure, and recorded in IndexedDB so a
+ * reloaded page can pick it up again when the same file is selected.
+ */
+export class ResumableUpload {
+  private state: ResumableUploadState = 'idle';
+  private session: UploadSession | null = null;
+  private activeRequest: XMLHttpRequest | null = null;
+  private resumeWaiter: (() => void) | null = null;
+  private samples: Array<{ time: number; bytes: number }> = [];
+  private resumedFromBytes = 0;
+  private bytesTransferred = 0;
+
+  constructor(
+    private file: File,
+    private storagePath: string,
+    private options: ResumableUploadOptions = {}
+  ) {}
+
+  getState(): ResumableUploadState {
+    return this.state;
+  }
+
+  /**
+   * Upload the file, continuing a stored session for the same file when there is one
+   */
+  async start(): Promise<ResumableUploadResult> {
+    this.setState('uploading');
+
+    try {
+      const session = await this.openSession();
+      this.session = session;
+
+      let offset = session.bytesUploaded;
+      let attempts = 0;
+      this.resumedFromBytes = offset;
+      this.samples = [];
+      this.reportProgress(offset);
+
+      // An empty file still needs one finalize request
+      do {
+        await this.waitWhilePaused();
+        this.throwIfCancelled();
+
+        const end = Math.min(offset + CHUNK_SIZE, this.file.size);
+        try {
+          await this.sendChunk(offset, end, end >= this.file.size);
+          offset = end;
+          attempts = 0;
+          if (offset < this.file.size) {
+            await this.persistSession({ ...session, bytesUploaded: offset, updatedAt: Date.now() });
+          }
+        } catch (error) {
+          this.throwIfCancelled();
+          if (this.state === 'paused') {
+            // The chunk was aborted by pause(); ask the server where to continue once resumed
+            await this.waitWhilePaused();
+            offset = await this.queryOffset();
+            continue;
+          }
+          if (!isRetryable(error) || attempts >= MAX_RETRIES) {
+            throw error;
+          }
+
+          attempts++;
+          this.setState('retrying');
+          this.reportProgress(offset);
+          await delay(RETRY_BASE_DELAY_MS * Math.pow(2, attempts - 1));
+          this.throwIfCancelled();
+          offset = await this.queryOffset().catch(() => offset);
+          this.setState('uploading');
+        }
+      } while (offset < this.file.size);
+
+      await this.removeSession();
+      const downloadURL = await getDownloadURL(ref(storage, session.storagePath));
+      this.setState('complete');
+      this.reportProgress(this.file.size);
+
+      return { storagePath: session.storagePath, downloadURL };
+    } catch (error) {
+      if (this.state === 'cancelled') {
+        // cancel() may have arrived before the session was opened
+        if (this.session) {
+          await resumableUploadManager.discardSession(this.session);
+        }
+      } else {
+        this.setState('error');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Stop sending after aborting the chunk in flight; resume() continues from
+   * the last byte the server confirmed
+   */
+  pause(): void {
+    if (this.state !== 'uploading' && this.state !== 'retrying') return;
+    this.setState('paused');
+    this.activeRequest?.abort();
+    this.reportProgress(this.bytesTransferred);
+  }
+
+  resume(): void {
+    if (this.state !== 'paused') return;
+    this.setState('uploading');
+    this.samples = [];
+    this.resumeWaiter?.();
+    this.resumeWaiter = null;
+  }
+
+  /**
+   * Abandon the upload, telling the server to drop what it received
+   */
+  async cancel(): Promise<void> {
+    if (this.state === 'complete' || this.state === 'cancelled') return;
+    this.setState('cancelled');
+    this.activeRequest?.abort();
+    this.resumeWaiter?.();
+    this.resumeWaiter = null;
+
+    if (this.session) {
+      await resumableUploadManager.discardSession(this.session);
+    }
+  }
+
+  private setState(state: ResumableUploadState) {
+    this.state = state;
+  }
+
+  private throwIfCancelled() {
+    if (this.state === 'cancelled') {
+      throw new ResumableUploadError(`Upload of ${this.file.name} was cancelled`, 'cancelled');
+    }
+  }
+
+  private waitWhilePaused(): Promise<void> {
+    if (this.state !== 'paused') return Promise.resolve();
+    return new Promise(resolve => {
+      this.resumeWaiter = resolve;
+    });
+  }
+
+  private async getAuthHeader(): Promise<string> {
+    const user = auth.currentUser;
+    if (!user) {
+      throw new ResumableUploadError('User is not authenticated', 'unauthorized', 401);
+    }
+    return `Firebase ${await user.getIdToken()}`;
+  }
+
+  private async persistSession(session: UploadSession) {
+    this.session = session;
+    if (!this.options.resumeKey) return;
+    try {
+      await saveUploadSession(session);
+    } catch (error) {
+      console.warn('Failed to persist upload session:', error);
+    }
+  }
+
+  private async removeSession() {
+    if (!this.session || !this.options.resumeKey) return;
+    try {
+      await deleteUploadSession(this.session.id);
+    } catch (error) {
+      console.warn('Failed to remove upload session:', error);
+    }
+  }
+
+  /**
+   * Continue the stored session for this file if the server still has it,
+   * otherwise start a new one
+   */
+  private async openSession(): Promise<UploadSession> {
+    const resumeKey = this.options.resumeKey;
+    if (resumeKey) {
+      const stored = await getUploadSession(getUploadSessionId(resumeKey, this.file)).catch(() => undefined);
+      if (stored) {
+        this.session = stored;
+        try {
+          const bytesUploaded = await this.queryOffset();
+          return { ...stored, bytesUploaded };
+        } catch (error) {
+          console.warn('Stored upload session could not be resumed, starting over:', error);
+          await this.removeSession();
+        }
+      }
+    }
+
+    const response = await fetch(
+      `${STORAGE_UPLOAD_HOST}/b/${encodeURIComponent(storage.app.options.storageBucket || '')}/o?name=${encodeURIComponent(this.storagePath)}`,
+      {
+        method: 'POST',
+        headers: {
+          'Authorization': await this.getAuthHeader(),
+          'X-Goog-Upload-Protocol': 'resumable',
+          'X-Goog-Upload-Command': 'start',
+          'X-Goog-Upload-Header-Content-Length': `${this.file.size}`,
+          'X-Goog-Upload-Header-Content-Type': this.file.type || 'application/octet-stream',
+          'Content-Type': 'application/json; charset=utf-8'
+        },
+        body: JSON.stringify({
+          name: this.storagePath,
+          contentType: this.file.type || 'application/octet-stream'
+        })
+      }
+    ).catch(() => {
+      throw new ResumableUploadError(`Network error starting upload of ${this.file.name}`, 'network');
+    });
+
+    const uploadUrl = response.headers.get('X-Goog-Upload-URL');
+    if (!response.ok || !uploadUrl) {
+      throw new ResumableUploadError(
+        `Failed to start upload of ${this.file.name} (${response.status})`,
+        codeForStatus(response.status),
+        response.status
+      );
+    }
+
+    const now = Date.now();
+    const session: UploadSession = {
+      id: getUploadSessionId(resumeKey || this.storagePath, this.file),
+      resumeKey: resumeKey || '',
+      storagePath: this.storagePath,
+      uploadUrl,
+      fileName: this.file.name,
+      fileSize: this.file.size,
+      fileType: this.file.type,
+      fileLastModified: this.file.lastModified,
+      bytesUploaded: 0,
+      createdAt: now,
+      updatedAt: now
+    };
+    await this.persistSession(session);
+    return session;
+  }
+
+  /**
+   * Bytes the server has confirmed for the current session
+   */
+  private async queryOffset(): Promise<number> {
+    const session = this.session!;
+    const response = await fetch(session.uploadUrl, {
+      method: 'POST',
+      headers: {
+        'Authorization': await this.getAuthHeader(),
+        'X-Goog-Upload-Command': 'query'
+      }
+    }).catch(() => {
+      throw new ResumableUploadError(`Network error checking upload of ${this.file.name}`, 'network');
+    });
+
+    const received = Number(response.headers.get('X-Goog-Upload-Size-Received'));
+    if (!response.ok || isNaN(received)) {
+      throw new ResumableUploadError(
+        `Upload session for ${this.file.name} is no longer available`,
+        codeForStatus(response.status),
+        response.status
+      );
+    }
+    this.reportProgress(received);
+    return received;
+  }
+
+  private async sendChunk(start: number, end: number, finalize: boolean): Promise<void> {
+    const authHeader = await this.getAuthHeader();
+
+    return new Promise((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+      this.activeRequest = xhr;
+
+      xhr.open('POST', this.session!.uploadUrl);
+      xhr.setRequestHeader('Authorization', authHeader);
+      xhr.setRequestHeader('X-Goog-Upload-Command', finalize ? 'upload, finalize' : 'upload');
+      xhr.setRequestHeader('X-Goog-Upload-Offset', `${start}`);
+
+      xhr.upload.onprogress = (event) => this.reportProgress(start + event.loaded);
+      xhr.onload = () => {
+        this.activeRequest = null;
+        if (xhr.status >= 200 && xhr.status < 300) {
+          this.reportProgress(end);
+          resolve();
+        } else {
+          reject(new ResumableUploadError(
+            `Failed to upload ${this.file.name} (${xhr.status})`,
+            codeForStatus(xhr.status),
+            xhr.status
+          ));
+        }
+      };
+      xhr.onerror = () => {
+        this.activeRequest = null;
+        reject(new ResumableUploadError(`Network error uploading ${this.file.name}`, 'network'));
+      };
+      xhr.onabort = () => {
+        this.activeRequest = null;
+        reject(new ResumableUploadError(`Upload of ${this.file.name} was interrupted`, 'aborted'));
+      };
+
+      xhr.send(this.file.slice(start, end));
+    });
+  }
+
+  private reportProgress(bytesTransferred: number) {
+    const now = Date.now();
+    this.bytesTransferred = bytesTransferred;
+    this.samples.push({ time: now, bytes: bytesTransferred });
+    while (this.samples.length > 2 && now - this.samples[0].time > THROUGHPUT_WINDOW_MS) {
+      this.samples.shift();
+    }
+
+    const first = this.samples[0];
+    const elapsedSeconds = (now - first.time) / 1000;
+    const bytesPerSecond = this.state === 'uploading' && elapsedSeconds > 0
+      ? Math.max(0, (bytesTransferred - first.bytes) / elapsedSeconds)
+      : 0;
+    const remaining = this.file.size - bytesTransferred;
+
+    this.options.onProgress?.({
+      state: this.state,
+      bytesTransferred,
+      totalBytes: this.file.size,
+      percent: this.file.size > 0 ? (bytesTransferred / this.file.size) * 100 : 100,
+      bytesPerSecond,
+      etaSeconds: remaining <= 0 ? 0 : bytesPerSecond > 0 ? remaining / bytesPerSecond : null,
+      resumedFromBytes: this.resumedFromBytes
+    });
+  }
+}
+
+export class ResumableUploadManager {
+  private static instance: ResumableUploadManager;
+
+  static getInstance(): ResumableUploadManager {
+    if (!ResumableUploadManager.instance) {
+      ResumableUploadManager.instance = new ResumableUploadManager();
+    }
+    return ResumableUploadManager.instance;
+  }
+
+  /**
+   * Create an upload; call start() on the result to begin
+   */
+  createUpload(file: File, storagePath: string, options: ResumableUploadOptions = {}): ResumableUpload {
+    return new ResumableUpload(file, storagePath, options);
+  }
+
+  /**
+   * Interrupted uploads for a target that can be resumed by selecting the same file again
+   */
+  async getPendingSessions(resumeKey: string): Promise<UploadSession[]> {
+    try {
+      return await getUploadSessionsForKey(resumeKey);
+    } catch (error) {
+      console.warn('Failed to read pending upload sessions:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Drop an interrupted upload, both the server session and the stored record
+   */
+  async discardSession(session: UploadSession): Promise<void> {
+    try {
+      await fetch(session.uploadUrl, {
+        method: 'POST',
+        headers: { 'X-Goog-Upload-Command': 'cancel' }
+      });
+    } catch (error) {
+      // The session expires on its own if the server cannot be reached
+      console.warn('Failed to cancel upload session:', error);
+    }
+
+    try {
+      await deleteUploadSession(session.id);
+    } catch (error) {
+      console.warn('Failed to remove upload session:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const resumableUploadManager = ResumableUploadManager.getInstance();
+export default resumableUploadManager;
@@ -0,0 +1,64 @@
+import {
+  doc,
+  getDoc,
+  setDoc,
+  arrayUnion,
+  arrayRemove,
+  serverTimestamp
+} from 'firebase/firestore';
+import { db } from '../firebase';
+import { ScheduleBookmarksFirestoreDoc } from '../types/activities';
+
+// One document per user, keyed by user ID, holding bookmarked schedule entry keys
+const SCHEDULE_BOOKMARKS_COLLECTION = 'scheduleBookmarks';
+
+export class ScheduleBookmarksService {
+  private static instance: ScheduleBookmarksService;
+
+  static getInstance(): ScheduleBookmarksService {
+    if (!ScheduleBookmarksService.instance) {
+      ScheduleBookmarksService.instance = new ScheduleBookmarksService();
+    }
+    return ScheduleBookmarksService.instance;
+  }
+
+  /**
+   * Get the schedule entry keys a user has bookmarked
+   */
+  async getBookmarks(userId: string): Promise<string[]> {
+    try {
+      const docSnap = await getDoc(doc(db, SCHEDULE_BOOKMARKS_COLLECTION, userId));
+      if (!docSnap.exists()) {
+        return [];
+      }
+      return (docSnap.data() as ScheduleBookmarksFirestoreDoc).entryKeys || [];
+    } catch (error) {
+      console.error('Error fetching schedule bookmarks:', error);
+      throw new Error('Failed to fetch schedule bookmarks');
+    }
+  }
+
+  /**
+   * Add or remove a schedule entry from a user's personal schedule
+   */
+  async setBookmarked(userId: string, entryKey: string, bookmarked: boolean): Promise<void> {
+    try {
+      await setDoc(
+        doc(db, SCHEDULE_BOOKMARKS_COLLECTION, userId),
+        {
+          userId,
+          entryKeys: bookmarked ? arrayUnion(entryKey) : arrayRemove(entryKey),
+          updatedAt: serverTimestamp()
+        },
+        { merge: true }
+      );
+    } catch (error) {
+      console.error('Error updating schedule bookmarks:', error);
+      throw new Error('Failed to update schedule bookmarks');
+    }
+  }
+}
+
+// Export singleton instance
+export const scheduleBookmarksService = ScheduleBookmarksService.getInstance();
+export default scheduleBookmarksService;
@@ -10,9 +10,24 @@ import {
   where,
   getDocs,
   getDoc,
-  serverTimestamp
+  serverTimestamp,
+  Query
 } from 'firebase/firestore';
 import { db } from '../firebase';
+import { RubricScores } from '../types/admin.types';
+import {
+  getRubricById,
+  validateRubricScores,
+  buildRubricScores,
+  normalizeStoredScores,
+  formatScoreSummary
+} from '../utils/scoringRubrics';
+
+export interface ScoreInput {
+  rubricId: string;
+  values: Record<string, number>;
+  criterionComments?: Record<string, string>;
+}
 
 export interface ShortFilmComment {
   id: string;
@@ -21,15 +36,9 @@ export interface ShortFilmComment {
   adminName: string;
   adminEmail: string;
   content: string;
-  type: 'general' | 'scoring' | 'status_change' | 'flag';
-  scores?: {
-    technical: number;
-    story: number;
-    creativity: number;
-    chiangmai: number;
-    overall: number;
-    totalScore: number;
-  };
+  type: 'general' | 'scoring' | 'status_change' | 'flag' | 'annotation';
+  scores?: RubricScores;
+  timecode?: number; // Seconds into the film, for 'annotation' comments
   metadata?: Record<string, any>;
   createdAt: Date;
   updatedAt?: Date;
@@ -90,6 +99,42 @@ class ShortFilmCommentsService {
     }
   }
 
+  /**
+   * Add a note pinned to a moment in the film
+   */
+  async addAnnotation(
+    submissionId: string,
+    adminId: string,
+    adminName: string,
+    adminEmail: string,
+    content: string,
+    timecode: number
+  ): Promise<string> {
+    try {
+      const commentsRef = collection(db, 'submissions', submissionId, 'ShortFilmComments');
+
+      const commentData = {
+        submissionId,
+        adminId,
+        adminName,
+        adminEmail,
+        content,
+        type: 'annotation' as const,
+        timecode: Math.max(0, Math.round(timecode * 10) / 10),
+        metadata: {},
+        createdAt: serverTimestamp(),
+        isEdited: false,
+        isDeleted: false
+      };
+
+      const docRef = await addDoc(commentsRef, commentData);
+      return docRef.id;
+    } catch (error) {
+      console.error('Error adding annotation:', error);
+      throw new Error('Failed to add annotation');
+    }
+  }
+
   /**
    * Add a scoring comment with scores - Enhanced with better error handling
    */
@@ -98,14 +143,7 @@ class ShortFilmCommentsService {
     adminId: string,
     adminName: string,
     adminEmail: string,
-    scores: {
-      technical: number;
-      story: number;
-      creativity: number;
-      chiangmai: number;
-      overall: number;
-      totalScore: number;
-    },
+    scores: ScoreInput,
     content?: string,
     metadata?: Record<string, any>
   ): Promise<string> {
@@ -115,31 +153,17 @@ class ShortFilmCommentsService {
       console.log('👤 Admin ID:', adminId);
       console.log('💾 Scores:', scores);
       
-      // Test connection first
-      const connectionOk = await this.testConnection();
-      if (!connectionOk) {
-        throw new Error('Firestore connection failed');
-      }
-      
       const commentsRef = collection(db, 'submissions', submissionId, 'ShortFilmComments');
       console.log('📁 Comments collection path:', `submissions/${submissionId}/ShortFilmComments`);
       
-      // Map application scores to database format
-      const dbScores = this.mapAppScoresToDatabase(scores);
-      console.log('💾 Mapped scores for database:', {
-        original: scores,
-        mapped: dbScores
-      });
+      // Validate against the rubric and compute totals
+      const { rubric, dbScores } = this.prepareRubricScores(scores, content);
+      console.log('💾 Validated rubric scores for database:', dbScores);
       
       // Create comment content if not provided
       let commentContent = content?.trim();
       if (!commentContent) {
-        commentContent = `Score Assessment: ${scores.totalScore}/50 points\n` +
-                        `• Technical Quality: ${scores.technical}/10\n` +
-                        `• Story & Narrative: ${scores.story}/10\n` +
-                        `• Creativity & Originality: ${scores.creativity}/10\n` +
-                        `• Connection to Chiang Mai: ${scores.chiangmai}/10\n` +
-                        `• Overall Impact: ${scores.overall}/10`;
+        commentContent = formatScoreSummary(rubric, dbScores);
       }
       
       const commentData = {
@@ -153,7 +177,7 @@ class ShortFilmCommentsService {
         metadata: {
           ...metadata,
           actionType: 'score_submitted',
-          scorePercentage: Math.round((scores.totalScore / 50) * 100)
+          scorePercentage: Math.round((dbScores.totalScore / dbScores.maxScore) * 100)
         },
         createdAt: serverTimestamp(),
         isEdited: false,
@@ -186,48 +210,38 @@ class ShortFilmCommentsService {
   }
 
   /**
-   * Map database scores to application format
-   * Database uses 'humanEffort' but application uses 'overall'
+   * Validate scores against their rubric and build the document stored in Firestore
    */
-  private mapDatabaseScoresToApp(dbScores: any): {
-    technical: number;
-    story: number;
-    creativity: number;
-    chiangmai: number;
-    overall: number;
-    totalScore: number;
-  } | undefined {
-    if (!dbScores) return undefined;
-    
-    return {
-      technical: dbScores.technical || 0,
-      story: dbScores.story || 0,
-      creativity: dbScores.creativity || 0,
-      chiangmai: dbScores.chiangmai || 0,
-      overall: dbScores.humanEffort || dbScores.overall || 0, // Map humanEffort to overall
-      totalScore: dbScores.totalScore || 0
-    };
+  private prepareRubricScores(scores: ScoreInput, comments?: string) {
+    const rubric = getRubricById(scores.rubricId);
+    if (!rubric) {
+      throw new Error(`Unknown scoring rubric: ${scores.rubricId}`);
+    }
+
+    const errors = validateRubricScores(rubric, scores.values, scores.criterionComments, comments);
+    if (errors.length > 0) {
+      const details = errors
+        .map(error => error.criterionId ? `${error.criterionId} (${error.code})` : error.code)
+        .join(', ');
+      throw new Error(`Invalid scores: ${details}`);
+    }
+
+    return { rubric, dbScores: buildRubricScores(rubric, scores.values, scores.criterionComments) };
   }
 
   /**
-   * Map application scores to database format
-   * Application uses 'overall' but database stores 'humanEffort'
+   * The submission's comments, or only those written by authorId
    */
-  private mapAppScoresToDatabase(appScores: any) {
-    return {
-      technical: appScores.technical || 0,
-      story: appScores.story || 0,
-      creativity: appScores.creativity || 0,
-      chiangmai: appScores.chiangmai || 0,
-      humanEffort: appScores.overall || 0, // Map overall to humanEffort for database
-      totalScore: appScores.totalScore || 0
-    };
+  private getCommentsQuery(submissionId: string, authorId?: string): Query {
+    const commentsRef = collection(db, 'submissions', submissionId, 'ShortFilmComments');
+    return authorId ? query(commentsRef, where('adminId', '==', authorId)) : commentsRef;
   }
 
   /**
-   * Get all comments for a submission with robust error handling and fallback strategies
+   * Get all comments for a submission with robust error handling and fallback strategies.
+   * Pass authorId to load only that admin's comments (jurors may not read the others).
    */
-  async getComments(submissionId: string): Promise<ShortFilmComment[]> {
+  async getComments(submissionId: string, authorId?: string): Promise<ShortFilmComment[]> {
     console.log('🔍 getComments called for submissionId:', submissionId);
     
     if (!submissionId) {
@@ -236,7 +250,7 @@ class ShortFilmCommentsService {
     }
 
     try {
-      const commentsRef = collection(db, 'submissions', submissionId, 'ShortFilmComments');
+      const commentsRef = this.getCommentsQuery(submissionId, authorId);
       console.log('📂 Comments collection reference created');
       
       let snapshot;
@@ -320,7 +334,7 @@ class ShortFilmCommentsService {
           // Map database scores to application format with error handling
           let mappedScores;
           try {
-            mappedScores = this.mapDatabaseScoresToApp(data.scores);
+            mappedScores = normalizeStoredScores(data.scores);
             console.log('🔄 Mapped scores successfully:', {
               original: data.scores,
               mapped: mappedScores
@@ -339,6 +353,7 @@ class ShortFilmCommentsService {
             content: data.content || '',
             type: data.type,
             scores: mappedScores,
+            timecode: typeof data.timecode === 'number' ? data.timecode : undefined,
             metadata: data.metadata || {},
             createdAt: data.createdAt?.toDate() || new Date(),
             updatedAt: data.updatedAt?.toDate(),
@@ -378,12 +393,14 @@ class ShortFilmCommentsService {
   }
 
   /**
-   * Subscribe to real-time comments updates with robust error handling and fallback strategies
+   * Subscribe to real-time comments updates with robust error handling and fallback strategies.
+   * Pass authorId to receive only that admin's comments (jurors may not read the others).
    */
   subscribeToComments(
     submissionId: string,
     callback: (comments: ShortFilmComment[]) => void,
-    onError?: (error: any) => void
+    onError?: (error: any) => void,
+    authorId?: string
   ): () => void {
     console.log('🔍 Setting up comments subscription for submission:', submissionId);
     
@@ -394,7 +411,7 @@ class ShortFilmCommentsService {
     }
 
     try {
-      const commentsRef = collection(db, 'submissions', submissionId, 'ShortFilmComments');
+      const commentsRef = this.getCommentsQuery(submissionId, authorId);
       
       // Try multiple query strategies for subscription
       let unsubscribe: (() => void) | null = null;
@@ -443,7 +460,7 @@ class ShortFilmCommentsService {
               // Map database scores to application format with error handling
               let mappedScores;
               try {
-                mappedScores = this.mapDatabaseScoresToApp(data.scores);
+                mappedScores = normalizeStoredScores(data.scores);
                 if (mappedScores) {
                   console.log(`🔄 Mapped scores for ${docSnap.id}:`, {
                     original: data.scores,
@@ -464,6 +481,7 @@ class ShortFilmCommentsService {
                 content: data.content || '',
                 type: data.type,
                 scores: mappedScores,
+                timecode: typeof data.timecode === 'number' ? data.timecode : undefined,
                 metadata: data.metadata || {},
                 createdAt: data.createdAt?.toDate() || new Date(),
                 updatedAt: data.updatedAt?.toDate(),
@@ -677,7 +695,7 @@ class ShortFilmCommentsService {
       });
       
       // Map database scores to application format
-      const mappedScores = this.mapDatabaseScoresToApp(data.scores);
+      const mappedScores = normalizeStoredScores(data.scores);
       console.log('🔄 Mapped latest score by admin:', {
         original: data.scores,
         mapped: mappedScores
@@ -721,6 +739,39 @@ class ShortFilmCommentsService {
     }
   }
 
+  /**
+   * Build the Firestore data for a status change comment, so callers can
+   * write it alongside the status update in the same batch
+   */
+  createStatusChangeCommentData(
+    submissionId: string,
+    adminId: string,
+    adminName: string,
+    adminEmail: string,
+    oldStatus: string,
+    newStatus: string,
+    reason?: string,
+    extraMetadata: Record<string, any> = {}
+  ) {
+    return {
+      submissionId,
+      adminId,
+      adminName,
+      adminEmail,
+      content: reason || `Status changed from ${oldStatus} to ${newStatus}`,
+      type: 'status_change' as const,
+      metadata: {
+        ...extraMetadata,
+        oldStatus,
+        newStatus,
+        ...(reason && { reason })
+      },
+      createdAt: serverTimestamp(),
+      isEdited: false,
+      isDeleted: false
+    };
+  }
+
   /**
    * Add a status change comment
    */
@@ -734,21 +785,12 @@ class ShortFilmCommentsService {
     reason?: string
   ): Promise<string> {
     try {
-      const content = reason || `Status changed from ${oldStatus} to ${newStatus}`;
-      const metadata = {
-        oldStatus,
-        newStatus,
-        reason
-      };
-
-      return await this.addGeneralComment(
-        submissionId,
-        adminId,
-        adminName,
-        adminEmail,
-        content,
-        { ...metadata, type: 'status_change' }
+      const commentsRef = collection(db, 'submissions', submissionId, 'ShortFilmComments');
+      const docRef = await addDoc(
+        commentsRef,
+        this.createStatusChangeCommentData(submissionId, adminId, adminName, adminEmail, oldStatus, newStatus, reason)
       );
+      return docRef.id;
     } catch (error) {
       console.error('Error adding status change comment:', error);
       throw new Error('Failed to add status change comment');
@@ -761,14 +803,7 @@ class ShortFilmCommentsService {
   async updateScoringComment(
     submissionId: string,
     commentId: string,
-    scores: {
-      technical: number;
-      story: number;
-      creativity: number;
-      chiangmai: number;
-      overall: number;
-      totalScore: number;
-    },
+    scores: ScoreInput,
     comments: string,
     editedBy: string
   ): Promise<void> {
@@ -784,12 +819,6 @@ class ShortFilmCommentsService {
         throw new Error('Missing required parameters for update');
       }
       
-      // Test connection first
-      const connectionOk = await this.testConnection();
-      if (!connectionOk) {
-        throw new Error('Firestore connection failed');
-      }
-      
       const commentRef = doc(db, 'submissions', submissionId, 'ShortFilmComments', commentId);
       console.log('📁 Comment reference path:', `submissions/${submissionId}/ShortFilmComments/${commentId}`);
       
@@ -819,22 +848,14 @@ class ShortFilmCommentsService {
         // Allow for now, but log the warning
       }
       
-      // Map application scores to database format
-      const dbScores = this.mapAppScoresToDatabase(scores);
-      console.log('💾 Mapped scores for database update:', {
-        original: scores,
-        mapped: dbScores
-      });
+      // Validate against the rubric and compute totals
+      const { rubric, dbScores } = this.prepareRubricScores(scores, comments);
+      console.log('💾 Validated rubric scores for database update:', dbScores);
       
       // Create new content
       let content = comments?.trim() || '';
       if (!content) {
-        content = `Score Assessment (Updated): ${scores.totalScore}/50 points\n` +
-                 `• Technical Quality: ${scores.technical}/10\n` +
-                 `• Story & Narrative: ${scores.story}/10\n` +
-                 `• Creativity & Originality: ${scores.creativity}/10\n` +
-                 `• Connection to Chiang Mai: ${scores.chiangmai}/10\n` +
-                 `• Overall Impact: ${scores.overall}/10`;
+        content = formatScoreSummary(rubric, dbScores, 'Score Assessment (Updated)');
       }
 
       const editHistory = currentData?.editHistory || [];
@@ -859,7 +880,7 @@ class ShortFilmCommentsService {
         metadata: {
           ...(currentData?.metadata || {}),
           actionType: 'score_updated',
-          scorePercentage: Math.round((scores.totalScore / 50) * 100),
+          scorePercentage: Math.round((dbScores.totalScore / dbScores.maxScore) * 100),
           lastEditedBy: editedBy,
           editCount: (currentData?.metadata?.editCount || 0) + 1
         }
@@ -11,13 +11,28 @@ import {
   ValidationRules,
   FileUploadError
 } from './fileUploadService';
+import { ResumableUpload, UploadTransferProgress } from './resumableUploadManager';
+import { VideoCategory, VideoTechnicalMetadata } from '../types/video.types';
+import { probeAndValidateVideo } from '../utils/videoProbe';
+import { thumbnailService } from './thumbnailService';
+import { subtitleService } from './subtitleService';
+import { SubtitleTrack } from '../types/subtitle.types';
+import { readSubtitleFile } from '../utils/subtitles';
 import { YouthFormData, FutureFormData, WorldFormData } from '../types/form.types';
+import { notificationInboxService } from './notificationInboxService';
+import { submissionVersionService } from './submissionVersionService';
+import { submissionReceivedNotification } from '../utils/notificationEvents';
+import { buildSubmissionSearchTokens } from '../utils/searchIndex';
 
 export interface SubmissionProgress {
   stage: 'validating' | 'uploading' | 'saving' | 'complete' | 'error';
   progress: number;
   message: string;
   fileProgress?: { [key: string]: number };
+  fileTransfer?: { [key: string]: UploadTransferProgress };
+  bytesPerSecond?: number; // Combined throughput of all uploads in flight
+  etaSeconds?: number | null; // null while there is not enough data to estimate
+  paused?: boolean;
 }
 
 export interface SubmissionResult {
@@ -63,11 +78,36 @@ export class SubmissionService {
   private onProgress?: (progress: SubmissionProgress) => void;
   private uploadedFiles: FileMetadata[] = [];
   private submissionId?: string;
+  private activeUploads: ResumableUpload[] = [];
+  private fileTransfer: { [key: string]: UploadTransferProgress } = {};
+  private filmTechnical: VideoTechnicalMetadata | null = null;
+  private subtitleTracks: SubtitleTrack[] = [];
 
   constructor(onProgress?: (progress: SubmissionProgress) => void) {
     this.onProgress = onProgress;
   }
 
+  /**
+   * Pauses all file uploads in progress
+   */
+  pauseUploads(): void {
+    this.activeUploads.forEach(upload => upload.pause());
+  }
+
+  /**
+   * Continues paused file uploads from the last confirmed byte
+   */
+  resumeUploads(): void {
+    this.activeUploads.forEach(upload => upload.resume());
+  }
+
+  /**
+   * Cancels all file uploads; the submission then fails with 'upload-cancelled'
+   */
+  async cancelUploads(): Promise<void> {
+    await Promise.all(this.activeUploads.map(upload => upload.cancel()));
+  }
+
   /**
    * Saves a youth form as draft (with conditional file uploads)
    */
@@ -78,13 +118,13 @@ export class SubmissionService {
 
       // Stage 1: Validation (draft mode - no file requirements)
       this.updateProgress('validating', 0, 'Validating draft data...');
-      await this.validateFormData(formData, true);
+      await this.validateFormData(formData, 'youth', true);
 
       // Stage 2: Conditional file upload for drafts
       let fileMetadata: { [key: string]: FileMetadata } | null = null;
       
       // Check if any files exist in formData
-      const hasFiles = formData.filmFile || formData.posterFile || formData.proofFile;
+      const hasFiles = formData.filmFile || formData.posterFile || formData.proofFile || formData.subtitleFiles.length > 0;
       
       if (hasFiles) {
         this.updateProgress('uploading', 20, 'Uploading files...');
@@ -138,7 +178,7 @@ export class SubmissionService {
 
       // Stage 1: Validation
       this.updateProgress('validating', 0, 'Validating form data and files...');
-      await this.validateFormData(formData);
+      await this.validateFormData(formData, 'youth');
 
       // Stage 2: File Upload
       this.updateProgress('uploading', 20, 'Uploading files...');
@@ -185,13 +225,13 @@ export class SubmissionService {
       this.submissionId = `future_draft_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
       this.updateProgress('validating', 0, 'Validating draft data...');
-      await this.validateFormData(formData, true);
+      await this.validateFormData(formData, 'future', true);
 
       // Stage 2: Conditional file upload for drafts
       let fileMetadata: { [key: string]: FileMetadata } | null = null;
       
       // Check if any files exist in formData
-      const hasFiles = formData.filmFile || formData.posterFile || formData.proofFile;
+      const hasFiles = formData.filmFile || formData.posterFile || formData.proofFile || formData.subtitleFiles.length > 0;
       
       if (hasFiles) {
         this.updateProgress('uploading', 20, 'Uploading files...');
@@ -242,13 +282,13 @@ export class SubmissionService {
       this.submissionId = `world_draft_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
       this.updateProgress('validating', 0, 'Validating draft data...');
-      await this.validateFormData(formData, true);
+      await this.validateFormData(formData, 'world', true);
 
       // Stage 2: Conditional file upload for drafts
       let fileMetadata: { [key: string]: FileMetadata } | null = null;
       
       // Check if any files exist in formData
-      const hasFiles = formData.filmFile || formData.posterFile || formData.proofFile;
+      const hasFiles = formData.filmFile || formData.posterFile || formData.proofFile || formData.subtitleFiles.length > 0;
       
       if (hasFiles) {
         this.updateProgress('uploading', 20, 'Uploading files...');
@@ -299,7 +339,7 @@ export class SubmissionService {
       this.submissionId = `future_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
       this.updateProgress('validating', 0, 'Validating form data and files...');
-      await this.validateFormData(formData);
+      await this.validateFormData(formData, 'future');
 
       this.updateProgress('uploading', 20, 'Uploading files...');
       const fileMetadata = await this.uploadFiles(formData, this.submissionId);
@@ -343,7 +383,7 @@ export class SubmissionService {
       this.submissionId = `world_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
       this.updateProgress('validating', 0, 'Validating form data and files...');
-      await this.validateFormData(formData);
+      await this.validateFormData(formData, 'world');
 
       this.updateProgress('uploading', 20, 'Uploading files...');
       const fileMetadata = await this.uploadFiles(formData, this.submissionId);
@@ -382,7 +422,11 @@ export class SubmissionService {
   /**
    * Validates form data and files
    */
-  private async validateFormData(formData: YouthFormData | FutureFormData | WorldFormData, isDraft: boolean = false): Promise<void> {
+  private async validateFormData(
+    formData: YouthFormData | FutureFormData | WorldFormData,
+    category: VideoCategory,
+    isDraft: boolean = false
+  ): Promise<void> {
     // Validate user authentication
     if (!formData.userId) {
       throw new SubmissionError('User authentication required. Please sign in and try again.', 'missing-user-id', 'validation');
@@ -417,6 +461,43 @@ export class SubmissionService {
       }
     }
     // For drafts, files are optional - no file validation needed
+
+    // Read the film's technical details; rule violations only block final submissions
+    this.filmTechnical = null;
+    if (formData.filmFile) {
+      const videoCheck = await probeAndValidateVideo(formData.filmFile, category);
+      if (!isDraft && videoCheck.errors.length > 0) {
+        throw new SubmissionError(
+          `Film file validation failed: ${videoCheck.errors.map(issue => issue.message.en).join('; ')}`,
+          'invalid-film-file',
+          'validation'
+        );
+      }
+      this.filmTechnical = videoCheck.metadata;
+    }
+
+    // Subtitles are stored as converted WebVTT, so broken files are rejected even for drafts
+    this.subtitleTracks = [];
+    const subtitleLanguages = new Set<string>();
+    for (const subtitle of formData.subtitleFiles) {
+      if (subtitleLanguages.has(subtitle.language)) {
+        throw new SubmissionError(
+          `Only one subtitle file per language is allowed (${subtitle.language})`,
+          'duplicate-subtitle-language',
+          'validation'
+        );
+      }
+      subtitleLanguages.add(subtitle.language);
+
+      const parsed = await readSubtitleFile(subtitle.file, this.filmTechnical?.durationSeconds);
+      if (parsed.errors.length > 0) {
+        throw new SubmissionError(
+          `Subtitle file ${subtitle.file.name} validation failed: ${parsed.errors.map(issue => issue.message.en).join('; ')}`,
+          'invalid-subtitle-file',
+          'validation'
+        );
+      }
+    }
   }
 
   /**
@@ -436,6 +517,7 @@ export class SubmissionService {
       uploadRequests.push({
         file: formData.filmFile,
         path: generateFilePath(submissionId, 'film', formData.filmFile.name),
+        ...this.trackUpload('film', formData),
         onProgress: (progress) => {
           fileProgress.film = progress;
           const totalProgress = Object.values(fileProgress).reduce((sum, p) => sum + p, 0) / Object.keys(fileProgress).length;
@@ -449,6 +531,7 @@ export class SubmissionService {
       uploadRequests.push({
         file: formData.posterFile,
         path: generateFilePath(submissionId, 'poster', formData.posterFile.name),
+        ...this.trackUpload('poster', formData),
         onProgress: (progress) => {
           fileProgress.poster = progress;
           const totalProgress = Object.values(fileProgress).reduce((sum, p) => sum + p, 0) / Object.keys(fileProgress).length;
@@ -462,6 +545,7 @@ export class SubmissionService {
       uploadRequests.push({
         file: formData.proofFile,
         path: generateFilePath(submissionId, 'proof', formData.proofFile.name),
+        ...this.trackUpload('proof', formData),
         onProgress: (progress) => {
           fileProgress.proof = progress;
           const totalProgress = Object.values(fileProgress).reduce((sum, p) => sum + p, 0) / Object.keys(fileProgress).length;
@@ -478,7 +562,7 @@ export class SubmissionService {
         // Map uploaded files back to their types
         let fileIndex = 0;
         if (formData.filmFile) {
-          result.filmFile = uploadedFiles[fileIndex++];
+          result.filmFile = this.withFilmTechnical(uploadedFiles[fileIndex++]);
         }
         if (formData.posterFile) {
           result.posterFile = uploadedFiles[fileIndex++];
@@ -486,15 +570,21 @@ export class SubmissionService {
         if (formData.proofFile) {
           result.proofFile = uploadedFiles[fileIndex++];
         }
+
+        await this.addMediaDerivatives(result, formData, 70);
       }
 
+      await this.uploadSubtitleFiles(formData, submissionId, 70);
+
       return result;
     } catch (error) {
       throw new SubmissionError(
         `File upload failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        'upload-failed',
+        error instanceof FileUploadError && error.code === 'upload-cancelled' ? 'upload-cancelled' : 'upload-failed',
         'uploading'
       );
+    } finally {
+      this.activeUploads = [];
     }
   }
 
@@ -521,16 +611,19 @@ export class SubmissionService {
       {
         file: formData.filmFile!,
         path: generateFilePath(submissionId, 'film', formData.filmFile!.name),
+        ...this.trackUpload('film', formData),
         onProgress: (progress) => updateFileProgress('film', progress)
       },
       {
         file: formData.posterFile!,
         path: generateFilePath(submissionId, 'poster', formData.posterFile!.name),
+        ...this.trackUpload('poster', formData),
         onProgress: (progress) => updateFileProgress('poster', progress)
       },
       {
         file: formData.proofFile!,
         path: generateFilePath(submissionId, 'proof', formData.proofFile!.name),
+        ...this.trackUpload('proof', formData),
         onProgress: (progress) => updateFileProgress('proof', progress)
       }
     ];
@@ -539,17 +632,23 @@ export class SubmissionService {
       const uploadedFiles = await uploadMultipleFiles(uploadRequests);
       this.uploadedFiles = uploadedFiles;
 
-      return {
-        filmFile: uploadedFiles[0],
+      const result = {
+        filmFile: this.withFilmTechnical(uploadedFiles[0]),
         posterFile: uploadedFiles[1],
         proofFile: uploadedFiles[2]
       };
+      await this.addMediaDerivatives(result, formData, 80);
+      await this.uploadSubtitleFiles(formData, submissionId, 80);
+
+      return result;
     } catch (error) {
       throw new SubmissionError(
         `File upload failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        'upload-failed',
+        error instanceof FileUploadError && error.code === 'upload-cancelled' ? 'upload-cancelled' : 'upload-failed',
         'uploading'
       );
+    } finally {
+      this.activeUploads = [];
     }
   }
 
@@ -596,7 +695,8 @@ export class SubmissionService {
           proofFile: {
             ...fileMetadata.proofFile,
             uploadedAt: serverTimestamp()
-          }
+          },
+          subtitles: this.subtitleTracks
         },
         
         // Agreements
@@ -673,7 +773,27 @@ export class SubmissionService {
         };
       }
 
-      return await addDoc(collection(db, 'submissions'), submissionData);
+      const docRef = await addDoc(collection(db, 'submissions'), {
+        ...submissionData,
+        searchTokens: buildSubmissionSearchTokens(submissionData)
+      });
+
+      if (formData.userId) {
+        await submissionVersionService.recordVersion(
+          docRef.id,
+          submissionData,
+          submissionData.status === 'draft' ? 'draft_save' : 'submit',
+          formData.userId
+        );
+      }
+
+      if (submissionData.status === 'submitted' && formData.userId) {
+        await notificationInboxService.notify(
+          submissionReceivedNotification(formData.userId, docRef.id, formData.filmTitle)
+        );
+      }
+
+      return docRef;
     } catch (error) {
       console.error('Firestore save error:', error);
       
@@ -740,7 +860,8 @@ export class SubmissionService {
           proofFile: fileMetadata?.proofFile ? {
             ...fileMetadata.proofFile,
             uploadedAt: serverTimestamp()
-          } : null
+          } : null,
+          subtitles: this.subtitleTracks
         },
         
         // Agreements
@@ -817,7 +938,16 @@ export class SubmissionService {
         };
       }
 
-      return await addDoc(collection(db, 'submissions'), submissionData);
+      const docRef = await addDoc(collection(db, 'submissions'), {
+        ...submissionData,
+        searchTokens: buildSubmissionSearchTokens(submissionData)
+      });
+
+      if (formData.userId) {
+        await submissionVersionService.recordVersion(docRef.id, submissionData, 'draft_save', formData.userId);
+      }
+
+      return docRef;
     } catch (error) {
       console.error('Firestore draft save error:', error);
       
@@ -841,14 +971,92 @@ export class SubmissionService {
     }
   }
 
+  /**
+   * Resume key and progress hooks for one file upload. Keyed by user and file
+   * type, so an upload interrupted by a reload continues when the same file
+   * is submitted again.
+   */
+  private trackUpload(
+    fileType: string,
+    formData: YouthFormData | FutureFormData | WorldFormData
+  ): Pick<FileUploadRequest, 'resumeKey' | 'onTransfer' | 'onUploadCreated'> {
+    delete this.fileTransfer[fileType];
+    return {
+      resumeKey: formData.userId ? `${formData.userId}/${fileType}` : undefined,
+      onTransfer: (transfer) => {
+        this.fileTransfer[fileType] = transfer;
+      },
+      onUploadCreated: (upload) => {
+        this.activeUploads.push(upload);
+      }
+    };
+  }
+
+  /**
+   * Attaches the film's probed technical metadata to its file record
+   */
+  private withFilmTechnical(metadata: FileMetadata): FileMetadata {
+    return this.filmTechnical ? { ...metadata, technical: this.filmTechnical } : metadata;
+  }
+
+  /**
+   * Creates poster thumbnails and film preview frames next to the uploaded
+   * originals and adds them to the file records
+   */
+  private async addMediaDerivatives(
+    files: { [key: string]: FileMetadata },
+    formData: YouthFormData | FutureFormData | WorldFormData,
+    progress: number
+  ): Promise<void> {
+    this.updateProgress('uploading', progress, 'Generating previews...');
+
+    const [thumbnails, previewFrames] = await Promise.all([
+      formData.posterFile && files.posterFile
+        ? thumbnailService.createPosterThumbnails(formData.posterFile, files.posterFile.storagePath)
+        : Promise.resolve({}),
+      formData.filmFile && files.filmFile
+        ? thumbnailService.createPreviewFrames(formData.filmFile, files.filmFile.storagePath)
+        : Promise.resolve([])
+    ]);
+
+    if (files.posterFile && Object.keys(thumbnails).length > 0) {
+      files.posterFile = { ...files.posterFile, thumbnails };
+    }
+    if (files.filmFile && previewFrames.length > 0) {
+      files.filmFile = { ...files.filmFile, previewFrames };
+    }
+    this.uploadedFiles = Object.values(files);
+  }
+
+  /**
+   * Converts the form's subtitle files to WebVTT and stores them with the
+   * submission
+   */
+  private async uploadSubtitleFiles(
+    formData: YouthFormData | FutureFormData | WorldFormData,
+    submissionId: string,
+    progress: number
+  ): Promise<void> {
+    if (formData.subtitleFiles.length === 0) return;
+
+    this.updateProgress('uploading', progress, 'Uploading subtitles...');
+    this.subtitleTracks = await subtitleService.uploadSubtitles(
+      submissionId,
+      formData.subtitleFiles,
+      this.filmTechnical?.durationSeconds
+    );
+  }
+
   /**
    * Cleans up uploaded files in case of error
    */
   private async cleanup(): Promise<void> {
+    await subtitleService.deleteSubtitles(this.subtitleTracks);
     if (this.uploadedFiles.length > 0) {
       try {
         await Promise.all(
           this.uploadedFiles.map(file => deleteFile(file.storagePath))
+            .concat(this.uploadedFiles.map(file => thumbnailService.deleteDerivatives(file)))
         );
       } catch (error) {
         console.error('Cleanup error:', error);
@@ -865,11 +1073,30 @@ export class SubmissionService {
     message: string,
     fileProgress?: { [key: string]: number }
   ): void {
+    if (stage !== 'uploading') {
+      this.onProgress?.({
+        stage,
+        progress,
+        message,
+        fileProgress
+      });
+      return;
+    }
+
+    const transfers = Object.values(this.fileTransfer);
+    const bytesPerSecond = transfers.reduce((sum, transfer) => sum + transfer.bytesPerSecond, 0);
+    const remainingBytes = transfers.reduce((sum, transfer) => sum + transfer.totalBytes - transfer.bytesTransferred, 0);
+    const paused = transfers.some(transfer => transfer.state === 'paused');
+
     this.onProgress?.({
       stage,
       progress,
-      message,
-      fileProgress
+      message: paused ? 'Upload paused' : message,
+      fileProgress,
+      fileTransfer: { ...this.fileTransfer },
+      bytesPerSecond,
+      etaSeconds: remainingBytes <= 0 ? 0 : bytesPerSecond > 0 ? remainingBytes / bytesPerSecond : null,
+      paused
     });
   }
 }
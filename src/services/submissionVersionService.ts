@@ -0,0 +1,139 @@
+import {
+  collection,
+  doc,
+  addDoc,
+  getDoc,
+  getDocs,
+  updateDoc,
+  query,
+  orderBy,
+  serverTimestamp,
+  DocumentData
+} from 'firebase/firestore';
+import { db } from '../firebase';
+import { SubmissionVersion, SubmissionVersionSource } from '../types/submissionVersion.types';
+import { toSubmissionSnapshot, getRestoreData } from '../utils/submissionVersions';
+import { buildSubmissionSearchTokens } from '../utils/searchIndex';
+
+const SUBMISSIONS_COLLECTION = 'submissions';
+const VERSIONS_SUBCOLLECTION = 'versions';
+
+export class SubmissionVersionError extends Error {
+  constructor(
+    message: string,
+    public code: 'not-found' | 'not-draft' | 'not-owner'
+  ) {
+    super(message);
+    this.name = 'SubmissionVersionError';
+  }
+}
+
+export class SubmissionVersionService {
+  private static instance: SubmissionVersionService;
+
+  static getInstance(): SubmissionVersionService {
+    if (!SubmissionVersionService.instance) {
+      SubmissionVersionService.instance = new SubmissionVersionService();
+    }
+    return SubmissionVersionService.instance;
+  }
+
+  private toServiceError(error: unknown, action: string): Error {
+    if (error instanceof SubmissionVersionError) {
+      return error;
+    }
+    return new Error(`Failed to ${action}`);
+  }
+
+  /**
+   * Store a snapshot of the submission's applicant-editable fields. Failures
+   * are logged rather than thrown so a save never fails on its history.
+   */
+  async recordVersion(
+    submissionId: string,
+    data: DocumentData,
+    source: SubmissionVersionSource,
+    userId: string,
+    restoredFrom?: string
+  ): Promise<void> {
+    try {
+      await addDoc(collection(db, SUBMISSIONS_COLLECTION, submissionId, VERSIONS_SUBCOLLECTION), {
+        source,
+        status: data.status === 'draft' ? 'draft' : 'submitted',
+        snapshot: toSubmissionSnapshot(data),
+        createdBy: userId,
+        createdAt: serverTimestamp(),
+        ...(restoredFrom && { restoredFrom })
+      });
+    } catch (error) {
+      console.error('Error recording submission version:', error);
+    }
+  }
+
+  /**
+   * Every stored version of a submission, oldest first
+   */
+  async getVersions(submissionId: string): Promise<SubmissionVersion[]> {
+    try {
+      const q = query(
+        collection(db, SUBMISSIONS_COLLECTION, submissionId, VERSIONS_SUBCOLLECTION),
+        orderBy('createdAt', 'asc')
+      );
+      const snapshot = await getDocs(q);
+      return snapshot.docs.map(docSnap => {
+        const data = docSnap.data();
+        return {
+          id: docSnap.id,
+          submissionId,
+          source: data.source,
+          status: data.status,
+          snapshot: toSubmissionSnapshot(data.snapshot || {}),
+          createdBy: data.createdBy,
+          createdAt: data.createdAt?.toDate() || new Date(),
+          restoredFrom: data.restoredFrom
+        };
+      });
+    } catch (error) {
+      console.error('Error fetching submission versions:', error);
+      throw new Error('Failed to fetch submission versions');
+    }
+  }
+
+  /**
+   * Write an earlier version's fields back onto a draft and record the result
+   * as a new version. Files are kept as they are.
+   */
+  async restoreVersion(submissionId: string, version: SubmissionVersion, userId: string): Promise<void> {
+    try {
+      const docRef = doc(db, SUBMISSIONS_COLLECTION, submissionId);
+      const docSnap = await getDoc(docRef);
+      if (!docSnap.exists()) {
+        throw new SubmissionVersionError('Application not found', 'not-found');
+      }
+
+      const current = docSnap.data();
+      if (current.userId !== userId) {
+        throw new SubmissionVersionError('Only the applicant can restore a version', 'not-owner');
+      }
+      if (current.status !== 'draft') {
+        throw new SubmissionVersionError('Versions can only be restored before final submission', 'not-draft');
+      }
+
+      const restoreData = getRestoreData(version.snapshot, current.crewMembers);
+      await updateDoc(docRef, {
+        ...restoreData,
+        searchTokens: buildSubmissionSearchTokens({ ...current, ...restoreData }),
+        lastModified: serverTimestamp()
+      });
+
+      await this.recordVersion(submissionId, { ...current, ...restoreData }, 'restore', userId, version.id);
+    } catch (error) {
+      console.error('Error restoring submission version:', error);
+      throw this.toServiceError(error, 'restore submission version');
+    }
+  }
+}
+
+// Export singleton instance
+export const submissionVersionService = SubmissionVersionService.getInstance();
+export default submissionVersionService;
@@ -0,0 +1,101 @@
+import { ref, uploadBytes, getDownloadURL, deleteObject } from 'firebase/storage';
+import { storage } from '../firebase';
+import { FileUploadError, generateFilePath } from './fileUploadService';
+import { SubtitleTrack, SubtitleUpload } from '../types/subtitle.types';
+import { readSubtitleFile, toWebVtt } from '../utils/subtitles';
+
+export class SubtitleService {
+  private static instance: SubtitleService;
+
+  static getInstance(): SubtitleService {
+    if (!SubtitleService.instance) {
+      SubtitleService.instance = new SubtitleService();
+    }
+    return SubtitleService.instance;
+  }
+
+  /**
+   * Validate a subtitle file, convert it to WebVTT and store it with the
+   * submission. Files with timing or format errors are rejected.
+   */
+  async uploadSubtitle(
+    submissionId: string,
+    subtitle: SubtitleUpload,
+    filmDurationSeconds?: number | null
+  ): Promise<SubtitleTrack> {
+    const parsed = await readSubtitleFile(subtitle.file, filmDurationSeconds);
+    if (!parsed.format || parsed.errors.length > 0) {
+      throw new FileUploadError(
+        `Subtitle file validation failed: ${parsed.errors.map(issue => issue.message.en).join('; ')}`,
+        'invalid-subtitle-file',
+        subtitle.file.name
+      );
+    }
+
+    const storagePath = generateFilePath(submissionId, 'subtitles', `${subtitle.language}.vtt`);
+    try {
+      const vtt = new Blob([toWebVtt(parsed.cues)], { type: 'text/vtt' });
+      const snapshot = await uploadBytes(ref(storage, storagePath), vtt, { contentType: 'text/vtt' });
+
+      return {
+        language: subtitle.language,
+        fileName: subtitle.file.name,
+        originalFormat: parsed.format,
+        cueCount: parsed.cues.length,
+        storagePath,
+        downloadURL: await getDownloadURL(snapshot.ref)
+      };
+    } catch (error) {
+      console.error('Error uploading subtitle file:', error);
+      throw new FileUploadError(
+        `Failed to upload subtitle file: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'upload-failed',
+        subtitle.file.name
+      );
+    }
+  }
+
+  /**
+   * Upload several subtitle files, one track per language. If any fails, the
+   * ones already stored are removed again.
+   */
+  async uploadSubtitles(
+    submissionId: string,
+    subtitles: SubtitleUpload[],
+    filmDurationSeconds?: number | null
+  ): Promise<SubtitleTrack[]> {
+    const results = await Promise.allSettled(
+      subtitles.map(subtitle => this.uploadSubtitle(submissionId, subtitle, filmDurationSeconds))
+    );
+
+    const tracks = results
+      .filter((result): result is PromiseFulfilledResult<SubtitleTrack> => result.status === 'fulfilled')
+      .map(result => result.value);
+    const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+
+    if (failure) {
+      await this.deleteSubtitles(tracks);
+      throw failure.reason;
+    }
+    return tracks;
+  }
+
+  /**
+   * Remove stored subtitle tracks, e.g. after they are replaced
+   */
+  async deleteSubtitles(tracks: SubtitleTrack[] | null | undefined): Promise<void> {
+    await Promise.all(
+      (tracks || []).map(async (track) => {
+        try {
+          await deleteObject(ref(storage, track.storagePath));
+        } catch (error) {
+          console.warn('Failed to delete subtitle file:', track.storagePath, error);
+        }
+      })
+    );
+  }
+}
+
+// Export singleton instance
+export const subtitleService = SubtitleService.getInstance();
+export default subtitleService;
@@ -0,0 +1,105 @@
+import { ref, uploadBytes, getDownloadURL, deleteObject } from 'firebase/storage';
+import { storage } from '../firebase';
+import { ImageVariant, PosterThumbnails, PreviewFrame, ThumbnailSize } from '../types/media.types';
+import { captureVideoFrames, renderPosterThumbnails, RenderedImage } from '../utils/mediaThumbnails';
+
+interface MediaDerivatives {
+  thumbnails?: PosterThumbnails;
+  previewFrames?: PreviewFrame[];
+}
+
+// "submissions/x/poster/123_a.png" -> "submissions/x/poster/123_a_thumb_small.jpg"
+const derivativePath = (originalPath: string, suffix: string): string =>
+  `${originalPath.replace(/\.[^./]+$/, '')}_${suffix}.jpg`;
+
+export class ThumbnailService {
+  private static instance: ThumbnailService;
+
+  static getInstance(): ThumbnailService {
+    if (!ThumbnailService.instance) {
+      ThumbnailService.instance = new ThumbnailService();
+    }
+    return ThumbnailService.instance;
+  }
+
+  private async uploadImage(image: RenderedImage, storagePath: string): Promise<ImageVariant> {
+    const snapshot = await uploadBytes(ref(storage, storagePath), image.blob, { contentType: 'image/jpeg' });
+    return {
+      width: image.width,
+      height: image.height,
+      storagePath,
+      downloadURL: await getDownloadURL(snapshot.ref)
+    };
+  }
+
+  /**
+   * Resize a poster and store each size next to the original. Failures are
+   * logged and return no thumbnails, since the original still works.
+   */
+  async createPosterThumbnails(file: File, posterStoragePath: string): Promise<PosterThumbnails> {
+    try {
+      const rendered = await renderPosterThumbnails(file);
+      const thumbnails: PosterThumbnails = {};
+
+      await Promise.all(
+        (Object.entries(rendered) as Array<[ThumbnailSize, RenderedImage]>).map(async ([size, image]) => {
+          thumbnails[size] = await this.uploadImage(image, derivativePath(posterStoragePath, `thumb_${size}`));
+        })
+      );
+
+      return thumbnails;
+    } catch (error) {
+      console.error('Error creating poster thumbnails:', error);
+      return {};
+    }
+  }
+
+  /**
+   * Capture stills from across the film and store them next to the original.
+   * Failures are logged and return no frames.
+   */
+  async createPreviewFrames(file: File, filmStoragePath: string): Promise<PreviewFrame[]> {
+    try {
+      const frames = await captureVideoFrames(file);
+
+      return await Promise.all(
+        frames.map(async (frame, index) => ({
+          ...(await this.uploadImage(frame, derivativePath(filmStoragePath, `frame_${index + 1}`))),
+          timeSeconds: frame.timeSeconds
+        }))
+      );
+    } catch (error) {
+      console.error('Error creating preview frames:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Storage paths of every thumbnail and frame stored for a file
+   */
+  getDerivativePaths(file: MediaDerivatives | null | undefined): string[] {
+    return [
+      ...Object.values(file?.thumbnails || {}).map(variant => variant?.storagePath),
+      ...(file?.previewFrames || []).map(frame => frame.storagePath)
+    ].filter((path): path is string => Boolean(path));
+  }
+
+  /**
+   * Remove a file's thumbnails and frames, e.g. after it is replaced
+   */
+  async deleteDerivatives(file: MediaDerivatives | null | undefined): Promise<void> {
+    await Promise.all(
+      this.getDerivativePaths(file).map(async (storagePath) => {
+        try {
+          await deleteObject(ref(storage, storagePath));
+        } catch (error) {
+          console.warn('Failed to delete derivative image:', storagePath, error);
+        }
+      })
+    );
+  }
+}
+
+// Export singleton instance
+export const thumbnailService = ThumbnailService.getInstance();
+export default thumbnailService;
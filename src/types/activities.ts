@@ -1,3 +1,5 @@
+import type { Timestamp } from 'firebase/firestore';
+
 export interface Activity {
   id: string;
   
@@ -19,6 +21,7 @@ export interface Activity {
   registrationDeadline: string; // ISO date string
   venueName: string;
   venueLocation?: string; // URL to location or address
+  sessions?: ActivitySession[]; // Multi-session activities; eventDate/startTime/endTime mirror the first session
   
   // Detail
   description: string;
@@ -41,11 +44,23 @@ export interface Activity {
   // Statistics (optional)
   registeredParticipants?: number;
   waitlistCount?: number;
+  attendedParticipants?: number;
   views?: number;
 }
 
 export type ActivityStatus = 'draft' | 'published' | 'cancelled' | 'completed';
 
+export interface ActivitySession {
+  id: string;
+  title?: string; // e.g. "Part 1: Story structure"
+  date: string; // ISO date string
+  startTime: string; // HH:mm format
+  endTime: string; // HH:mm format
+  venueName?: string; // Falls back to the activity venue
+  venueLocation?: string;
+  maxParticipants: number; // 0 = same as the activity
+}
+
 export interface ActivityTag {
   id: string;
   en: string;
@@ -72,6 +87,7 @@ export interface ActivityFormData {
   registrationDeadline: string; // ISO date string
   venueName: string;
   venueLocation: string;
+  sessions: ActivitySession[]; // Empty for single-block activities
   
   // Detail
   description: string;
@@ -263,6 +279,7 @@ export interface ActivityValidationErrors {
   registrationDeadline?: string;
   venueName?: string;
   venueLocation?: string;
+  sessions?: string;
   description?: string;
   contactEmail?: string;
   contactName?: string;
@@ -310,6 +327,16 @@ export interface ActivityAnalytics {
   upcomingEvents: number;
   completedEvents: number;
   popularTags: Array<{ tag: string; count: number }>;
+  totalAttended: number;
+  showUpRate: number; // Percentage across activities that have taken place
+  attendanceByActivity: Array<{
+    activityId: string;
+    name: string;
+    eventDate: string;
+    registered: number;
+    attended: number;
+    showUpRate: number;
+  }>;
   monthlyTrends: Array<{
     month: string;
     eventsCreated: number;
@@ -335,6 +362,8 @@ export interface ActivityFirestoreDoc {
   registrationDeadline: string; // ISO date string
   venueName: string;
   venueLocation?: string;
+  sessions?: ActivitySession[];
+  effectiveCapacity?: number; // Smallest of maxParticipants and the session capacities (0 = unlimited)
   description: string;
   organizers: string[];
   tags: string[];
@@ -349,9 +378,96 @@ export interface ActivityFirestoreDoc {
   updatedBy: string; // User UID
   registeredParticipants?: number;
   waitlistCount?: number;
+  attendedParticipants?: number;
   views?: number;
 }
 
+// Registration types
+export type RegistrationStatus = 'confirmed' | 'waitlisted' | 'cancelled' | 'attended';
+
+export interface ActivityRegistration {
+  id: string; // `${activityId}_${userId}`
+  activityId: string;
+  userId: string;
+  userName: string;
+  userEmail: string;
+  userPhone?: string;
+  status: RegistrationStatus;
+  registeredAt: string; // ISO date string
+  updatedAt: string; // ISO date string
+  cancelledAt?: string; // ISO date string
+  promotedAt?: string; // ISO date string (set when moved from waitlist to confirmed)
+  addedBy?: string; // Admin UID for participants added manually from the roster
+  ticketSecret?: string; // Per-ticket signing key, readable only by the registrant and admins
+  ticketCode?: string; // Short code printed under the QR code for manual entry
+  checkedInAt?: string; // ISO date string
+  checkedInBy?: string; // Admin UID
+}
+
+export interface ActivityRegistrationFirestoreDoc {
+  activityId: string;
+  userId: string;
+  userName: string;
+  userEmail: string;
+  userPhone?: string;
+  status: RegistrationStatus;
+  registeredAt: Timestamp | null; // null while a server timestamp is pending
+  updatedAt: Timestamp | null;
+  cancelledAt?: Timestamp;
+  promotedAt?: Timestamp;
+  addedBy?: string;
+  ticketSecret?: string;
+  ticketCode?: string;
+  checkedInAt?: Timestamp;
+  checkedInBy?: string;
+}
+
+export interface RegistrationResult {
+  registration: ActivityRegistration;
+  waitlisted: boolean;
+}
+
+export interface CancellationResult {
+  registration: ActivityRegistration;
+  promotedRegistrationId?: string;
+}
+
+export interface ActivityTicket {
+  registration: ActivityRegistration;
+  payload: string; // Encoded into the QR code
+  shortCode: string; // e.g. "7F3A-09C2"
+}
+
+export interface CheckInResult {
+  registration: ActivityRegistration;
+  attendedParticipants: number;
+}
+
+export const REGISTRATION_STATUS_OPTIONS = [
+  { value: 'confirmed' as RegistrationStatus, label: 'Confirmed', labelTh: 'ยืนยันแล้ว', color: 'green' },
+  { value: 'waitlisted' as RegistrationStatus, label: 'Waitlisted', labelTh: 'รอคิว', color: 'orange' },
+  { value: 'cancelled' as RegistrationStatus, label: 'Cancelled', labelTh: 'ยกเลิก', color: 'red' },
+  { value: 'attended' as RegistrationStatus, label: 'Attended', labelTh: 'เข้าร่วมแล้ว', color: 'blue' }
+];
+
+// Festival schedule types
+export interface ScheduleEntry {
+  key: string; // activityId, or activityId:sessionId for sessions; multi-day activities add :YYYY-MM-DD
+  activity: Activity;
+  session?: ActivitySession;
+  date: string; // YYYY-MM-DD
+  startTime: string; // HH:mm
+  endTime: string; // HH:mm
+  venueName: string;
+  venueLocation?: string;
+}
+
+export interface ScheduleBookmarksFirestoreDoc {
+  userId: string;
+  entryKeys: string[];
+  updatedAt: Timestamp;
+}
+
 // Utility types
 export interface ActivitySearchResult {
   activities: Activity[];
@@ -1,6 +1,11 @@
+import type { ComponentType, ReactNode } from 'react';
+import { VideoTechnicalMetadata } from './video.types';
+import { PosterThumbnails, PreviewFrame } from './media.types';
+import { SubtitleTrack } from './subtitle.types';
+
 export interface AdminZoneLayoutProps {
   currentPage: string;
-  children: React.ReactNode;
+  children: ReactNode;
 }
 
 export interface AdminZoneSidebarProps {
@@ -12,7 +17,7 @@ export interface AdminZoneSidebarProps {
 
 export interface AdminMenuItem {
   id: string;
-  icon: React.ReactNode;
+  icon: ReactNode;
   label: string;
   href: string;
   badge?: {
@@ -54,7 +59,7 @@ export interface RolePermissions {
 
 export interface RoleDefinition {
   name: string;
-  icon: React.ComponentType<any>;
+  icon: ComponentType<any>;
   color: string;
   description: string;
   permissions: RolePermissions;
@@ -135,11 +140,12 @@ export interface AdminContextType {
 }
 
 export interface AdminProtectedRouteProps {
-  children: React.ReactNode;
+  children: ReactNode;
   requiredPermission?: keyof AdminPermissions;
   requiredPermissions?: (keyof AdminPermissions)[];
-  fallback?: React.ReactNode;
+  fallback?: ReactNode;
   onUnauthorized?: () => void;
+  allowJury?: boolean; // Let users with the jury role through for blind review pages
 }
 
 export interface AdminPermission {
@@ -190,7 +196,7 @@ export interface DashboardStats {
 }
 
 export interface DashboardStatsCardProps {
-  icon: React.ReactNode;
+  icon: ReactNode;
   title: string;
   value: number;
   subtitle?: string;
@@ -252,6 +258,8 @@ export interface AdminApplicationCard {
   competitionCategory: 'youth' | 'future' | 'world';
   status: 'draft' | 'submitted' | 'under-review' | 'accepted' | 'rejected';
   posterUrl: string;
+  posterThumbnails?: PosterThumbnails;
+  previewFrames?: PreviewFrame[];
   submittedAt?: Date;
   createdAt: Date;
   lastModified: Date;
@@ -286,21 +294,45 @@ export interface PaginationState {
 export interface ChartContainerProps {
   title: string;
   subtitle?: string;
-  children: React.ReactNode;
+  children: ReactNode;
   loading?: boolean;
   error?: string;
   className?: string;
 }
 
 // Admin Application Details and Scoring
-export interface ScoringCriteria {
-  technical: number;     // 1-10
-  story: number;         // 1-10
-  creativity: number;    // 1-10
-  chiangmai: number;     // 1-10
-  overall: number;       // 1-10 (maps to humanEffort in database)
-  humanEffort?: number;  // 1-10 (internal use, optional for compatibility)
-  totalScore: number;    // calculated (0-50)
+export interface LocalizedText {
+  en: string;
+  th: string;
+}
+
+export interface RubricCriterion {
+  id: string;
+  label: LocalizedText;
+  icon?: string;
+  weight: number;            // multiplier applied to this criterion in the total
+  min: number;
+  max: number;
+  commentRequired?: boolean; // judges must justify their score for this criterion
+}
+
+export interface ScoringRubric {
+  id: string;
+  name: LocalizedText;
+  categories: AdminApplicationData['competitionCategory'][];
+  criteria: RubricCriterion[];
+  commentRequired?: boolean; // an overall comment is required
+}
+
+export interface RubricScores {
+  rubricId: string;
+  values: Record<string, number>;               // criterion ID -> score
+  criterionComments?: Record<string, string>;   // criterion ID -> justification
+  totalScore: number;                           // weighted sum of values
+  maxScore: number;                             // weighted sum of criterion maximums
+}
+
+export interface ScoringCriteria extends RubricScores {
   adminId: string;
   adminName: string;
   scoredAt: Date;
@@ -344,9 +376,10 @@ export interface AdminApplicationData {
   
   // Files
   files: {
-    filmFile: { url: string; name: string; size: number; };
-    posterFile: { url: string; name: string; size: number; };
+    filmFile: { url: string; name: string; size: number; technical?: VideoTechnicalMetadata; previewFrames?: PreviewFrame[]; };
+    posterFile: { url: string; name: string; size: number; thumbnails?: PosterThumbnails; };
     proofFile?: { url: string; name: string; size: number; };
+    subtitles: SubtitleTrack[];
   };
   
   // Admin-specific data
@@ -364,8 +397,232 @@ export interface AdminApplicationData {
   lastReviewedAt?: Date;
 }
 
+// Jury Assignment Types
+// Submission fields a juror may see in blind review - no submitter, school or contact data
+export interface JurySubmissionSummary {
+  id: string;
+  filmTitle: string;
+  filmTitleTh?: string;
+  competitionCategory: AdminApplicationData['competitionCategory'];
+  status: AdminApplicationData['status'];
+  genres: string[];
+  format: string;
+  duration: number;
+  posterUrl?: string;
+  assignedReviewers: string[];
+  scoredBy: string[];
+  createdAt: Date;
+}
+
+export interface JurorProgress {
+  jurorId: string;
+  jurorName: string;
+  jurorEmail: string;
+  assigned: number;
+  scored: number;
+  byCategory: Record<AdminApplicationData['competitionCategory'], { assigned: number; scored: number }>;
+}
+
+// Leaderboard Types
+export interface JurorScoreRecord {
+  submissionId: string;
+  jurorId: string;
+  jurorName: string;
+  scores: RubricScores;
+}
+
+export interface LeaderboardOptions {
+  normalize: boolean;     // rank on per-juror z-scores instead of raw percentages
+  dropOutliers: boolean;  // ignore each film's highest and lowest score when it has enough scores
+}
+
+export interface LeaderboardEntry {
+  submissionId: string;
+  filmTitle: string;
+  filmTitleTh?: string;
+  rank: number | null;                          // null when the film has no scores yet
+  scoreCount: number;                           // scores used in the aggregate
+  droppedCount: number;                         // scores ignored as outliers
+  meanTotal: number;                            // mean raw total
+  maxScore: number;
+  meanPercentage: number;                       // mean raw total as a percentage of maxScore
+  normalizedScore: number;                      // mean z-score mapped back onto the percentage scale
+  standardDeviation: number;                    // spread of the used scores, in percentage points
+  criterionAverages: Record<string, number>;    // criterion ID -> mean raw value
+}
+
+// Decision Round Types
+export type DecisionStage = 'shortlist' | 'selection';
+export type FilmDecision = 'shortlisted' | 'selected' | 'rejected';
+
+export interface DecisionRoundFilm {
+  submissionId: string;
+  filmTitle: string;
+  rank: number | null;
+  score: number;                                // ranking score the cutoff was taken from
+  previousStatus: AdminApplicationData['status'];
+  decision: FilmDecision;
+}
+
+export interface DecisionRound {
+  id: string;
+  category: AdminApplicationData['competitionCategory'];
+  stage: DecisionStage;
+  cutoff: number;                               // films ranked at or above this are kept
+  normalized: boolean;                          // ranking used z-score normalization
+  films: DecisionRoundFilm[];
+  note?: string;
+  status: 'pending' | 'confirming' | 'confirmed' | 'cancelled';  // confirming: claimed, films being written
+  proposedBy: string;
+  proposedByName: string;
+  proposedAt: Date;
+  confirmedBy?: string;                         // must be a different admin from proposedBy
+  confirmedByName?: string;
+  confirmedAt?: Date;
+  skippedFilms?: string[];                      // submission IDs whose status changed after the round was proposed
+  cancelledBy?: string;
+  cancelledAt?: Date;
+}
+
+// Public film card written when a selection round is published
+export interface OfficialSelectionFilm {
+  submissionId: string;
+  filmTitle: string;
+  filmTitleTh?: string;
+  posterUrl?: string;
+  directorName?: string;
+  nationality?: string;
+  duration: number;
+  genres: string[];
+}
+
+export interface OfficialSelection {
+  category: AdminApplicationData['competitionCategory'];
+  films: OfficialSelectionFilm[];
+  roundId: string;
+  publishedBy: string;
+  publishedAt: Date;
+}
+
+// Letters sent to applicants once a decision round settles their film
+export type DecisionLetterStatus = 'accepted' | 'rejected';
+
+export interface DecisionLetterDetails {
+  applicantName: string;
+  applicantNameTh?: string;
+  filmTitle: string;
+  filmTitleTh?: string;
+  competitionCategory: AdminApplicationData['competitionCategory'];
+  applicationId: string;
+  decidedAt: Date;
+}
+
+export interface DecisionLetter {
+  language: 'en' | 'th';
+  status: DecisionLetterStatus;
+  subject: string;
+  date: string;
+  greeting: string;
+  paragraphs: string[];
+  closing: string;
+  signature: string[];
+}
+
+// Export Types
+export interface ExportCrewMember {
+  fullName: string;
+  fullNameTh?: string;
+  role: string;
+  customRole?: string;
+  age?: number;
+  phone?: string;
+  email?: string;
+}
+
+export interface ExportJurorScore extends JurorScoreRecord {
+  comment: string;
+  scoredAt: Date;
+}
+
+// Submission data the gallery cards leave out, fetched for spreadsheet exports
+export interface SubmissionExportDetails {
+  submissionId: string;
+  synopsis: string;
+  crewMembers: ExportCrewMember[];
+  adminNotes: string;
+  flagged: boolean;
+  flagReason?: string;
+  jurorScores: ExportJurorScore[];
+}
+
+export type ExportTarget = 'applications' | 'users';
+
+// A chosen column, in export order, with the header it is written under
+export interface ExportColumnSelection {
+  id: string;
+  header: string;
+}
+
+// Named column template saved by an admin for reuse
+export interface ExportPreset {
+  id: string;
+  adminId: string;
+  name: string;
+  target: ExportTarget;
+  format: 'csv' | 'excel' | 'pdf';
+  columns: ExportColumnSelection[];
+  includeScores: boolean;
+  includeNotes: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Header row and first rows of an export, shown before downloading
+export interface ExportPreview {
+  headers: string[];
+  rows: string[][];
+  total: number;
+}
+
+// Spreadsheets of the chosen columns, or a ZIP of the spreadsheet plus each
+// film's poster and proof documents
+export type ExportJobFormat = 'csv' | 'excel' | 'zip';
+
+export type ExportJobStatus = 'queued' | 'processing' | 'complete' | 'failed' | 'cancelled';
+
+// Export request processed outside the browser by the export worker
+export interface ExportJob {
+  id: string;
+  requestedBy: string;
+  requestedByName: string;
+  format: ExportJobFormat;
+  columns: ExportColumnSelection[];
+  includeScores: boolean;
+  includeNotes: boolean;
+  categories: string[];
+  statuses: string[];
+  dateRange?: {
+    start?: Date;
+    end?: Date;
+  };
+  scheduledFor: Date;                           // worker leaves the job queued until then
+  status: ExportJobStatus;
+  progress: number;                             // 0-100
+  message?: string;
+  total?: number;
+  processed?: number;
+  filePath?: string;                            // Storage path of the finished file
+  fileName?: string;
+  fileSize?: number;
+  error?: string;
+  createdAt: Date;
+  startedAt?: Date;
+  completedAt?: Date;
+}
+
 export interface VideoScoringPanelProps {
   applicationId: string;
+  rubric: ScoringRubric;
   currentScores?: ScoringCriteria;
   allScores: ScoringCriteria[];
   onScoreChange: (scores: Partial<ScoringCriteria>) => void;
@@ -0,0 +1,39 @@
+export type SubmissionAuditAction =
+  | 'status_change'
+  | 'review_status'
+  | 'flag'
+  | 'score'
+  | 'file_replace'
+  | 'delete';
+
+// Field values are flattened to primitives so entries stay readable in the console
+export type AuditValue = string | number | boolean | null;
+
+export interface AuditFieldChange {
+  field: string;
+  before: AuditValue;
+  after: AuditValue;
+}
+
+export interface SubmissionAuditEntry {
+  id: string;
+  submissionId: string;
+  filmTitle?: string;
+  action: SubmissionAuditAction;
+  actorId: string;
+  actorName: string;
+  changes: AuditFieldChange[];
+  reason?: string;
+  timestamp: Date;
+}
+
+export type NewSubmissionAuditEntry = Omit<SubmissionAuditEntry, 'id' | 'timestamp'>;
+
+export interface AuditLogFilters {
+  submissionId?: string;
+  action?: SubmissionAuditAction;
+  actorId?: string;
+  search?: string; // Matches submission ID or film title
+  from?: Date;
+  to?: Date;
+}
@@ -1,3 +1,5 @@
+import { SubtitleUpload } from './subtitle.types';
+
 export interface FormErrors {
   [key: string]: string;
 }
@@ -64,6 +66,7 @@ export interface YouthFormData extends BaseFormData {
   filmFile: File | null;
   posterFile: File | null;
   proofFile: File | null;
+  subtitleFiles: SubtitleUpload[];
 }
 
 export interface WorldFormData extends BaseFormData {
@@ -85,6 +88,7 @@ export interface WorldFormData extends BaseFormData {
   filmFile: File | null;
   posterFile: File | null;
   proofFile: File | null;
+  subtitleFiles: SubtitleUpload[];
 }
 
 export interface FutureFormData extends BaseFormData {
@@ -110,6 +114,7 @@ export interface FutureFormData extends BaseFormData {
   filmFile: File | null;
   posterFile: File | null;
   proofFile: File | null;
+  subtitleFiles: SubtitleUpload[];
 }
 
 export interface CrewMember {
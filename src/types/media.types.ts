@@ -0,0 +1,16 @@
+export type ThumbnailSize = 'small' | 'medium' | 'large';
+
+// A resized copy of an uploaded image, stored next to the original
+export interface ImageVariant {
+  width: number;
+  height: number;
+  storagePath: string;
+  downloadURL: string;
+}
+
+export type PosterThumbnails = Partial<Record<ThumbnailSize, ImageVariant>>;
+
+// A still captured from the film file, stored next to the original
+export interface PreviewFrame extends ImageVariant {
+  timeSeconds: number;
+}
@@ -0,0 +1,26 @@
+export type InboxNotificationType =
+  | 'submission_received'
+  | 'status_changed'
+  | 'note_mention'
+  | 'registration_confirmed';
+
+export interface InboxNotification {
+  id: string;
+  userId: string; // Recipient
+  type: InboxNotificationType;
+  title: {
+    th: string;
+    en: string;
+  };
+  message: {
+    th: string;
+    en: string;
+  };
+  link: string; // Hash route opened when the notification is clicked
+  activityId?: string; // Registration notifications; lets the rules check the registration
+  read: boolean;
+  createdAt: Date;
+  readAt?: Date;
+}
+
+export type NewInboxNotification = Pick<InboxNotification, 'userId' | 'type' | 'title' | 'message' | 'link' | 'activityId'>;
@@ -0,0 +1,86 @@
+export type SubmissionVersionSource = 'draft_save' | 'edit' | 'submit' | 'restore';
+
+export type VersionFileType = 'filmFile' | 'posterFile' | 'proofFile';
+
+export interface VersionFile {
+  fileName: string;
+  fileSize: number;
+  downloadURL: string;
+  storagePath: string;
+}
+
+export interface VersionCrewMember {
+  id: string | null; // Null in versions saved before crew IDs were kept
+  fullName: string;
+  fullNameTh: string | null;
+  role: string;
+  customRole: string | null;
+  age: number | null;
+  phone: string | null;
+  email: string | null;
+  schoolName: string | null;
+  studentId: string | null;
+}
+
+// The applicant-editable fields of a submission at one point in time
+export interface SubmissionSnapshot {
+  filmTitle: string;
+  filmTitleTh: string | null;
+  filmLanguages: string[];
+  genres: string[];
+  format: string;
+  duration: number | null;
+  synopsis: string;
+  chiangmaiConnection: string | null;
+  submitterName: string | null;
+  submitterNameTh: string | null;
+  submitterAge: number | null;
+  submitterPhone: string | null;
+  submitterEmail: string | null;
+  submitterRole: string | null;
+  submitterCustomRole: string | null;
+  schoolName: string | null;
+  studentId: string | null;
+  universityName: string | null;
+  faculty: string | null;
+  universityId: string | null;
+  crewMembers: VersionCrewMember[];
+  files: Record<VersionFileType, VersionFile | null>;
+}
+
+export type SnapshotField = Exclude<keyof SubmissionSnapshot, 'crewMembers' | 'files'>;
+
+export interface SubmissionVersion {
+  id: string;
+  submissionId: string;
+  source: SubmissionVersionSource;
+  status: 'draft' | 'submitted';
+  snapshot: SubmissionSnapshot;
+  createdBy: string;
+  createdAt: Date;
+  restoredFrom?: string; // Version ID copied by a restore
+}
+
+export interface VersionFieldChange {
+  field: SnapshotField;
+  before: string;
+  after: string;
+}
+
+export interface VersionCrewChange {
+  type: 'added' | 'removed' | 'changed';
+  before?: VersionCrewMember;
+  after?: VersionCrewMember;
+}
+
+export interface VersionFileChange {
+  fileType: VersionFileType;
+  before: VersionFile | null;
+  after: VersionFile | null;
+}
+
+export interface SubmissionVersionDiff {
+  fields: VersionFieldChange[];
+  crew: VersionCrewChange[];
+  files: VersionFileChange[];
+}
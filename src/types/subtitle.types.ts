@@ -0,0 +1,38 @@
+export type SubtitleFormat = 'srt' | 'vtt';
+
+export interface SubtitleCue {
+  startSeconds: number;
+  endSeconds: number;
+  text: string;
+  settings?: string; // WebVTT cue settings, e.g. "line:0 align:start"
+}
+
+export interface SubtitleValidationIssue {
+  severity: 'error' | 'warning';
+  cueNumber?: number; // 1-based position in the file, when the issue is about one cue
+  message: { th: string; en: string };
+}
+
+export interface SubtitleParseResult {
+  format: SubtitleFormat | null; // null when the file is neither SRT nor WebVTT
+  cues: SubtitleCue[];
+  errors: SubtitleValidationIssue[];
+  warnings: SubtitleValidationIssue[];
+}
+
+// A subtitle file picked in a submission form, one per language
+export interface SubtitleUpload {
+  id: string;
+  language: string; // BCP 47 code from SUBTITLE_LANGUAGES, e.g. "th"
+  file: File;
+}
+
+// A subtitle file stored as WebVTT in submissions/{id}/subtitles
+export interface SubtitleTrack {
+  language: string;
+  fileName: string; // Name of the file the applicant uploaded
+  originalFormat: SubtitleFormat;
+  cueCount: number;
+  storagePath: string;
+  downloadURL: string;
+}
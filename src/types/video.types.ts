@@ -0,0 +1,37 @@
+export type VideoCategory = 'youth' | 'future' | 'world';
+
+// Technical details read from the film file itself, stored with its FileMetadata
+export interface VideoTechnicalMetadata {
+  durationSeconds: number;
+  width: number;
+  height: number;
+  aspectRatio: string; // Nearest common ratio, e.g. "16:9", otherwise "1.50:1"
+  videoCodec: string | null; // Sample entry code from the file, e.g. "avc1"
+  audioCodec: string | null;
+  frameRate: number | null;
+  container: 'mp4' | 'mov' | null;
+}
+
+export type VideoCheck = 'duration' | 'resolution' | 'aspectRatio' | 'codec' | 'unreadable';
+
+export type VideoIssueSeverity = 'error' | 'warning';
+
+export interface VideoValidationIssue {
+  check: VideoCheck;
+  severity: VideoIssueSeverity;
+  message: { th: string; en: string };
+}
+
+export interface VideoValidationResult {
+  metadata: VideoTechnicalMetadata | null; // null when the file could not be read
+  errors: VideoValidationIssue[];
+  warnings: VideoValidationIssue[];
+}
+
+export interface VideoTechnicalRules {
+  duration: VideoIssueSeverity;
+  minResolution: { width: number; height: number };
+  resolution: VideoIssueSeverity;
+  aspectRatio: VideoIssueSeverity;
+  codec: VideoIssueSeverity;
+}
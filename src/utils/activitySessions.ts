@@ -0,0 +1,102 @@
+import { Activity, ActivityFormData, ActivitySession } from '../types/activities';
+
+/**
+ * Utility functions for multi-session activities
+ */
+
+export type SessionError = 'incomplete' | 'invalid-time' | 'invalid-capacity';
+
+/**
+ * Create a blank session, optionally copying date, times and venue from another session
+ */
+export const createSession = (from?: Partial<ActivitySession>): ActivitySession => ({
+  id: `session-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+  title: '',
+  date: from?.date || '',
+  startTime: from?.startTime || '',
+  endTime: from?.endTime || '',
+  venueName: from?.venueName || '',
+  venueLocation: from?.venueLocation || '',
+  maxParticipants: from?.maxParticipants || 0
+});
+
+/**
+ * Sort sessions chronologically
+ */
+export const sortSessions = (sessions: ActivitySession[]): ActivitySession[] =>
+  [...sessions].sort((a, b) =>
+    `${a.date.slice(0, 10)}T${a.startTime}`.localeCompare(`${b.date.slice(0, 10)}T${b.startTime}`)
+  );
+
+/**
+ * Validate each session; returns errors keyed by session ID
+ */
+export const getSessionErrors = (sessions: ActivitySession[]): Record<string, SessionError> => {
+  const errors: Record<string, SessionError> = {};
+
+  sessions.forEach(session => {
+    if (!session.date || !session.startTime || !session.endTime) {
+      errors[session.id] = 'incomplete';
+    } else if (session.endTime <= session.startTime) {
+      errors[session.id] = 'invalid-time';
+    } else if (session.maxParticipants < 0) {
+      errors[session.id] = 'invalid-capacity';
+    }
+  });
+
+  return errors;
+};
+
+/**
+ * Derive the activity-level schedule from its sessions so that sorting, filtering
+ * and registration deadlines keep working on eventDate/startTime/endTime.
+ * Form data without sessions is returned unchanged.
+ */
+export const applySessionSchedule = <T extends Partial<ActivityFormData>>(formData: T): T => {
+  if (!formData.sessions || formData.sessions.length === 0) {
+    return formData;
+  }
+
+  const sessions = sortSessions(formData.sessions).map(session => ({
+    ...session,
+    title: session.title?.trim() || '',
+    venueName: session.venueName?.trim() || '',
+    venueLocation: session.venueLocation?.trim() || '',
+    maxParticipants: Math.max(session.maxParticipants || 0, 0)
+  }));
+  const first = sessions[0];
+  const last = sessions[sessions.length - 1];
+  const isOneDayActivity = first.date === last.date;
+
+  return {
+    ...formData,
+    sessions,
+    isOneDayActivity,
+    eventDate: first.date,
+    eventEndDate: isOneDayActivity ? '' : last.date,
+    startTime: first.startTime,
+    endTime: first.endTime
+  };
+};
+
+/**
+ * Everyone registered for a multi-session activity attends every session,
+ * so the smallest session capacity limits the whole activity. 0 means unlimited.
+ * Saved on the activity as effectiveCapacity, which registration checks.
+ */
+export const getEffectiveCapacity = (activity: Pick<Activity, 'maxParticipants' | 'sessions'>): number => {
+  const limits = [activity.maxParticipants, ...(activity.sessions || []).map(s => s.maxParticipants)]
+    .filter(limit => limit > 0);
+  return limits.length > 0 ? Math.min(...limits) : 0;
+};
+
+/**
+ * Venue for a session, falling back to the activity venue
+ */
+export const getSessionVenue = (
+  session: ActivitySession,
+  activity: Pick<Activity, 'venueName' | 'venueLocation'>
+): { venueName: string; venueLocation?: string } =>
+  session.venueName
+    ? { venueName: session.venueName, venueLocation: session.venueLocation || undefined }
+    : { venueName: activity.venueName, venueLocation: activity.venueLocation };
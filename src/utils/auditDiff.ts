@@ -0,0 +1,106 @@
+import {
+  AuditFieldChange,
+  AuditLogFilters,
+  AuditValue,
+  SubmissionAuditAction,
+  SubmissionAuditEntry
+} from '../types/audit.types';
+import { RubricScores } from '../types/admin.types';
+
+/**
+ * Utility functions for recording and displaying submission audit diffs
+ */
+
+// Longest serialized object kept in an audit entry
+const MAX_VALUE_LENGTH = 500;
+
+/**
+ * Flatten any field value to a primitive that can be stored and compared
+ */
+export const toAuditValue = (value: unknown): AuditValue => {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return value;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  // Firestore Timestamps
+  if (typeof (value as { toDate?: unknown }).toDate === 'function') {
+    return (value as { toDate: () => Date }).toDate().toISOString();
+  }
+
+  const serialized = JSON.stringify(value);
+  return serialized.length > MAX_VALUE_LENGTH ? `${serialized.slice(0, MAX_VALUE_LENGTH)}…` : serialized;
+};
+
+/**
+ * Changed fields between two versions of a record. Only the given fields are
+ * compared when a list is passed, otherwise every key of either side.
+ */
+export const diffFields = (
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  fields?: string[]
+): AuditFieldChange[] => {
+  const keys = fields || Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+
+  return keys
+    .map(field => ({ field, before: toAuditValue(before[field]), after: toAuditValue(after[field]) }))
+    .filter(change => change.before !== change.after);
+};
+
+/**
+ * Display form of a stored value
+ */
+export const formatAuditValue = (value: AuditValue): string => {
+  if (value === null || value === '') {
+    return '—';
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'true' : 'false';
+  }
+  return String(value);
+};
+
+/**
+ * Flatten a score sheet to its total and per-criterion values for diffing
+ */
+export const scoreAuditFields = (scores?: Pick<RubricScores, 'totalScore' | 'values'>): Record<string, unknown> => ({
+  totalScore: scores?.totalScore,
+  ...Object.fromEntries(
+    Object.entries(scores?.values || {}).map(([criterionId, value]) => [`values.${criterionId}`, value])
+  )
+});
+
+// Display names for audit actions
+export const AUDIT_ACTION_LABELS: Record<SubmissionAuditAction, { th: string; en: string }> = {
+  status_change: { th: 'เปลี่ยนสถานะ', en: 'Status change' },
+  review_status: { th: 'สถานะการพิจารณา', en: 'Review status' },
+  flag: { th: 'ตั้งค่าสถานะพิเศษ', en: 'Flag' },
+  score: { th: 'แก้ไขคะแนน', en: 'Score edit' },
+  file_replace: { th: 'เปลี่ยนไฟล์', en: 'File replaced' },
+  delete: { th: 'ลบใบสมัคร', en: 'Deletion' }
+};
+
+/**
+ * Entries matching the action, actor and search filters. Only the search
+ * needs this when entries come from auditLogService.getEntries, whose query
+ * applies the others.
+ */
+export const filterAuditEntries = (
+  entries: SubmissionAuditEntry[],
+  filters: AuditLogFilters
+): SubmissionAuditEntry[] => {
+  const search = filters.search?.trim().toLowerCase();
+
+  return entries.filter(entry =>
+    (!filters.action || entry.action === filters.action) &&
+    (!filters.actorId || entry.actorId === filters.actorId) &&
+    (!search ||
+      entry.submissionId.toLowerCase().includes(search) ||
+      (entry.filmTitle || '').toLowerCase().includes(search))
+  );
+};
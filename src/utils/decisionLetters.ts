@@ -0,0 +1,125 @@
+import {
+  DecisionLetter,
+  DecisionLetterDetails,
+  DecisionLetterStatus
+} from '../types/admin.types';
+
+/**
+ * Utility functions for bilingual applicant decision letters
+ */
+
+const FESTIVAL_NAME = {
+  th: 'เทศกาลภาพยนตร์แฟนตาสติกนานาชาติเชียงใหม่ (CIFAN) 2025',
+  en: 'Chiang Mai International Fantastic Film Festival (CIFAN) 2025'
+};
+
+const CATEGORY_NAMES: Record<'th' | 'en', Record<DecisionLetterDetails['competitionCategory'], string>> = {
+  th: {
+    youth: 'รางวัลหนังสั้นแฟนตาสติกเยาวชน',
+    future: 'รางวัลหนังสั้นแฟนตาสติกอนาคต',
+    world: 'รางวัลหนังสั้นแฟนตาสติกโลก'
+  },
+  en: {
+    youth: 'Youth Fantastic Short Film Award',
+    future: 'Future Fantastic Short Film Award',
+    world: 'World Fantastic Short Film Award'
+  }
+};
+
+const SIGNATURE = {
+  th: ['ทีมงานคัดเลือกภาพยนตร์ CIFAN 2025', 'เทศกาลภาพยนตร์แฟนตาสติกนานาชาติเชียงใหม่'],
+  en: ['CIFAN 2025 Programming Team', 'Chiang Mai International Fantastic Film Festival']
+};
+
+/**
+ * Whether a submission status has a decision letter
+ */
+export const isDecisionLetterStatus = (status: string): status is DecisionLetterStatus =>
+  status === 'accepted' || status === 'rejected';
+
+/**
+ * Build the letter for a decided submission in one language
+ */
+export const buildDecisionLetter = (
+  status: DecisionLetterStatus,
+  details: DecisionLetterDetails,
+  language: 'en' | 'th'
+): DecisionLetter => {
+  const accepted = status === 'accepted';
+  const category = CATEGORY_NAMES[language][details.competitionCategory];
+  const date = details.decidedAt.toLocaleDateString(language === 'th' ? 'th-TH' : 'en-GB', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric'
+  });
+
+  if (language === 'th') {
+    const title = details.filmTitleTh || details.filmTitle;
+    return {
+      language,
+      status,
+      date,
+      subject: accepted
+        ? `ผลการคัดเลือก CIFAN 2025: “${title}” ได้รับการคัดเลือก`
+        : `ผลการคัดเลือก CIFAN 2025: “${title}”`,
+      greeting: `เรียน คุณ${details.applicantNameTh || details.applicantName}`,
+      paragraphs: [
+        `ขอขอบคุณที่ส่งภาพยนตร์เรื่อง “${title}” (ใบสมัครเลขที่ ${details.applicationId}) เข้าร่วมการประกวด${category} ใน${FESTIVAL_NAME.th}`,
+        accepted
+          ? 'เรามีความยินดีที่จะแจ้งให้ทราบว่าภาพยนตร์ของท่านได้รับการคัดเลือกให้ฉายในโปรแกรมภาพยนตร์คัดเลือกอย่างเป็นทางการของเทศกาล ขอแสดงความยินดีด้วย'
+          : 'หลังจากคณะกรรมการได้พิจารณาอย่างถี่ถ้วนแล้ว เราเสียใจที่ต้องแจ้งให้ทราบว่าภาพยนตร์ของท่านไม่ได้รับการคัดเลือกในปีนี้ เราได้รับผลงานที่โดดเด่นจำนวนมาก และผลการพิจารณานี้มิได้ลดทอนคุณค่าของผลงานที่ท่านทุ่มเทสร้างสรรค์',
+        accepted
+          ? 'ทีมงานจะติดต่อท่านในเร็วๆ นี้เพื่อแจ้งรายละเอียดเกี่ยวกับไฟล์สำหรับฉาย กำหนดการ และบัตรผ่านเทศกาล กรุณาติดตามความคืบหน้าได้ที่หน้าใบสมัครในพื้นที่ผู้ใช้ของ CIFAN'
+          : 'เราหวังเป็นอย่างยิ่งว่าจะได้พบผลงานของท่านอีกครั้งที่ CIFAN และขออวยพรให้ท่านประสบความสำเร็จในการสร้างสรรค์ภาพยนตร์ต่อไป'
+      ],
+      closing: 'ขอแสดงความนับถือ',
+      signature: SIGNATURE.th
+    };
+  }
+
+  return {
+    language,
+    status,
+    date,
+    subject: accepted
+      ? `CIFAN 2025 Official Selection: “${details.filmTitle}”`
+      : `CIFAN 2025 Submission Result: “${details.filmTitle}”`,
+    greeting: `Dear ${details.applicantName},`,
+    paragraphs: [
+      `Thank you for submitting “${details.filmTitle}” (application ${details.applicationId}) to the ${category} competition of the ${FESTIVAL_NAME.en}.`,
+      accepted
+        ? 'We are delighted to inform you that your film has been chosen for the festival\'s official selection. Congratulations!'
+        : 'After careful consideration by our jury, we regret to inform you that your film has not been selected this year. We received many outstanding submissions, and this decision does not diminish the work you have put into your film.',
+      accepted
+        ? 'Our team will contact you shortly with details on screening materials, the schedule and festival accreditation. Please follow updates on your application page in the CIFAN user zone.'
+        : 'We sincerely hope to see your future work at CIFAN and wish you every success with your filmmaking.'
+    ],
+    closing: accepted ? 'With warm regards,' : 'Kind regards,',
+    signature: SIGNATURE.en
+  };
+};
+
+/**
+ * Plain-text rendering of a letter, used for email bodies
+ */
+export const decisionLetterToText = (letter: DecisionLetter): string =>
+  [letter.date, '', letter.greeting, '', ...letter.paragraphs.flatMap(paragraph => [paragraph, '']), letter.closing, ...letter.signature]
+    .join('\n');
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * HTML rendering of a letter, used for email bodies
+ */
+export const decisionLetterToHtml = (letter: DecisionLetter): string =>
+  [
+    `<p>${escapeHtml(letter.date)}</p>`,
+    `<p>${escapeHtml(letter.greeting)}</p>`,
+    ...letter.paragraphs.map(paragraph => `<p>${escapeHtml(paragraph)}</p>`),
+    `<p>${escapeHtml(letter.closing)}<br>${letter.signature.map(escapeHtml).join('<br>')}</p>`
+  ].join('\n');
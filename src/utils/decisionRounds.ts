@@ -0,0 +1,57 @@
+import {
+  AdminApplicationData,
+  DecisionRoundFilm,
+  DecisionStage,
+  FilmDecision,
+  JurySubmissionSummary,
+  LeaderboardEntry
+} from '../types/admin.types';
+
+/**
+ * Utility functions for shortlisting and official-selection decision rounds
+ */
+
+// Submission status each decision moves a film to
+export const DECISION_STATUS: Record<FilmDecision, AdminApplicationData['status']> = {
+  shortlisted: 'under-review',
+  selected: 'accepted',
+  rejected: 'rejected'
+};
+
+/**
+ * Decision given to films that make the cutoff at each stage
+ */
+export const getPassingDecision = (stage: DecisionStage): FilmDecision =>
+  stage === 'shortlist' ? 'shortlisted' : 'selected';
+
+/**
+ * Films eligible for a stage: the shortlist round considers every submitted
+ * film, the selection round only films already shortlisted
+ */
+export const getStageCandidates = (stage: DecisionStage, films: JurySubmissionSummary[]): JurySubmissionSummary[] =>
+  films.filter(film => stage === 'shortlist' ? film.status === 'submitted' : film.status === 'under-review');
+
+/**
+ * Apply a cutoff to a ranking. Films ranked at or above the cutoff pass, so
+ * ties on the cutoff rank all pass; unranked films are rejected.
+ */
+export const buildCutoffDecisions = (
+  stage: DecisionStage,
+  entries: LeaderboardEntry[],
+  candidates: JurySubmissionSummary[],
+  cutoff: number,
+  normalized: boolean
+): DecisionRoundFilm[] => {
+  const passing = getPassingDecision(stage);
+
+  return entries
+    .filter(entry => candidates.some(candidate => candidate.id === entry.submissionId))
+    .map(entry => ({
+      submissionId: entry.submissionId,
+      filmTitle: entry.filmTitle,
+      rank: entry.rank,
+      score: normalized ? entry.normalizedScore : entry.meanPercentage,
+      previousStatus: candidates.find(candidate => candidate.id === entry.submissionId)!.status,
+      decision: entry.rank !== null && entry.rank <= cutoff ? passing : 'rejected'
+    }));
+};
@@ -0,0 +1,210 @@
+import { format } from 'date-fns';
+import {
+  AdminApplicationCard,
+  ExportColumnSelection,
+  ExportTarget,
+  LocalizedText,
+  SubmissionExportDetails,
+  UserRole
+} from '../types/admin.types';
+import { XlsxCellValue, XlsxColumn, XlsxSheet } from './xlsxWriter';
+
+/**
+ * Utility functions for the columns staff can choose, order and rename when
+ * exporting applications or users
+ */
+
+export interface ApplicationExportRow {
+  application: AdminApplicationCard;
+  details?: SubmissionExportDetails; // Loaded only when a chosen column needs it
+}
+
+export interface ExportColumnDefinition<T> {
+  id: string;
+  label: LocalizedText;                 // Shown when choosing columns
+  header: string;                       // Default header in the exported file
+  format?: XlsxColumn['format'];
+  requires?: 'details' | 'scores';      // Submission data beyond the gallery card
+  value(row: T): XlsxCellValue;
+}
+
+export type ExportColumnOption = Pick<ExportColumnDefinition<unknown>, 'id' | 'label' | 'header'>;
+
+export type ExportTable = Omit<XlsxSheet, 'name'>;
+
+export interface ExportTemplate {
+  id: string;
+  name: LocalizedText;
+  target: ExportTarget;
+  columns: string[];
+}
+
+const average = (values: number[]): number | null =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+const toPercentage = (totalScore: number, maxScore: number): number =>
+  maxScore > 0 ? (totalScore / maxScore) * 100 : 0;
+
+export const APPLICATION_EXPORT_COLUMNS: ExportColumnDefinition<ApplicationExportRow>[] = [
+  { id: 'applicationId', label: { en: 'Application ID', th: 'รหัสใบสมัคร' }, header: 'Application ID', value: ({ application }) => application.id },
+  { id: 'filmTitle', label: { en: 'Film title (EN)', th: 'ชื่อเรื่อง (อังกฤษ)' }, header: 'Film Title (EN)', value: ({ application }) => application.filmTitle },
+  { id: 'filmTitleTh', label: { en: 'Film title (TH)', th: 'ชื่อเรื่อง (ไทย)' }, header: 'Film Title (TH)', value: ({ application }) => application.filmTitleTh },
+  { id: 'directorName', label: { en: 'Director', th: 'ผู้กำกับ' }, header: 'Director Name', value: ({ application }) => application.directorName },
+  { id: 'directorNameTh', label: { en: 'Director (TH)', th: 'ผู้กำกับ (ไทย)' }, header: 'Director Name (TH)', value: ({ application }) => application.directorNameTh },
+  { id: 'category', label: { en: 'Category', th: 'ประเภท' }, header: 'Category', value: ({ application }) => application.competitionCategory },
+  { id: 'status', label: { en: 'Status', th: 'สถานะ' }, header: 'Status', value: ({ application }) => application.status },
+  { id: 'genres', label: { en: 'Genres', th: 'แนวภาพยนตร์' }, header: 'Genres', value: ({ application }) => application.genres.join(', ') },
+  { id: 'languages', label: { en: 'Languages', th: 'ภาษา' }, header: 'Languages', value: ({ application }) => (application.filmLanguages || []).join(', ') },
+  { id: 'duration', label: { en: 'Duration (min)', th: 'ความยาว (นาที)' }, header: 'Duration (min)', value: ({ application }) => application.duration },
+  { id: 'format', label: { en: 'Format', th: 'รูปแบบ' }, header: 'Format', value: ({ application }) => application.format },
+  { id: 'country', label: { en: 'Country', th: 'ประเทศ' }, header: 'Country', value: ({ application }) => application.country },
+  { id: 'submittedAt', label: { en: 'Submitted date', th: 'วันที่ส่ง' }, header: 'Submitted Date', format: 'date', value: ({ application }) => application.submittedAt },
+  { id: 'createdAt', label: { en: 'Created date', th: 'วันที่สร้าง' }, header: 'Created Date', format: 'date', value: ({ application }) => application.createdAt },
+  { id: 'synopsis', label: { en: 'Synopsis', th: 'เรื่องย่อ' }, header: 'Synopsis', format: 'wrap', requires: 'details', value: ({ details }) => details?.synopsis },
+  { id: 'crewCount', label: { en: 'Crew size', th: 'จำนวนทีมงาน' }, header: 'Crew Members', requires: 'details', value: ({ details }) => details?.crewMembers.length },
+  {
+    id: 'crewNames',
+    label: { en: 'Crew names and roles', th: 'รายชื่อและตำแหน่งทีมงาน' },
+    header: 'Crew',
+    format: 'wrap',
+    requires: 'details',
+    value: ({ details }) => details?.crewMembers
+      .map(member => `${member.fullName} (${member.customRole || member.role})`)
+      .join('\n')
+  },
+  { id: 'judgeCount', label: { en: 'Number of judges', th: 'จำนวนกรรมการ' }, header: 'Judges', requires: 'scores', value: ({ details }) => details?.jurorScores.length },
+  {
+    id: 'averageTotal',
+    label: { en: 'Average total score', th: 'คะแนนรวมเฉลี่ย' },
+    header: 'Average Total',
+    format: 'decimal',
+    requires: 'scores',
+    value: ({ details }) => average((details?.jurorScores || []).map(score => score.scores.totalScore))
+  },
+  {
+    id: 'averagePercentage',
+    label: { en: 'Average score %', th: 'คะแนนเฉลี่ย (%)' },
+    header: 'Average %',
+    format: 'decimal',
+    requires: 'scores',
+    value: ({ details }) => average(
+      (details?.jurorScores || []).map(score => toPercentage(score.scores.totalScore, score.scores.maxScore))
+    )
+  },
+  { id: 'adminNotes', label: { en: 'Admin notes', th: 'หมายเหตุผู้ดูแล' }, header: 'Admin Notes', format: 'wrap', requires: 'details', value: ({ details }) => details?.adminNotes },
+  { id: 'flagged', label: { en: 'Flagged', th: 'ถูกตั้งธง' }, header: 'Flagged', requires: 'details', value: ({ details }) => details?.flagged },
+  { id: 'flagReason', label: { en: 'Flag reason', th: 'เหตุผลที่ตั้งธง' }, header: 'Flag Reason', format: 'wrap', requires: 'details', value: ({ details }) => details?.flagReason }
+];
+
+export const USER_EXPORT_COLUMNS: ExportColumnDefinition<UserRole>[] = [
+  { id: 'userId', label: { en: 'User ID', th: 'รหัสผู้ใช้' }, header: 'User ID', value: user => user.id },
+  { id: 'name', label: { en: 'Name', th: 'ชื่อ' }, header: 'Name', value: user => user.name },
+  { id: 'displayName', label: { en: 'Display name', th: 'ชื่อที่แสดง' }, header: 'Display Name', value: user => user.displayName },
+  { id: 'email', label: { en: 'Email', th: 'อีเมล' }, header: 'Email', value: user => user.email },
+  { id: 'role', label: { en: 'Role', th: 'บทบาท' }, header: 'Role', value: user => user.role },
+  { id: 'status', label: { en: 'Status', th: 'สถานะ' }, header: 'Status', value: user => user.status },
+  { id: 'createdAt', label: { en: 'Joined', th: 'วันที่สมัคร' }, header: 'Joined', format: 'date', value: user => user.createdAt },
+  { id: 'lastLogin', label: { en: 'Last login', th: 'เข้าสู่ระบบล่าสุด' }, header: 'Last Login', format: 'datetime', value: user => user.lastLogin }
+];
+
+// Starting points offered next to saved presets; the first per target is the default
+export const EXPORT_TEMPLATES: ExportTemplate[] = [
+  {
+    id: 'standard',
+    name: { en: 'Standard', th: 'มาตรฐาน' },
+    target: 'applications',
+    columns: [
+      'applicationId', 'filmTitle', 'filmTitleTh', 'directorName', 'category', 'status',
+      'duration', 'format', 'country', 'submittedAt', 'createdAt'
+    ]
+  },
+  {
+    id: 'programme',
+    name: { en: 'Festival programme', th: 'สูจิบัตรเทศกาล' },
+    target: 'applications',
+    columns: ['filmTitle', 'filmTitleTh', 'directorName', 'directorNameTh', 'country', 'duration', 'genres', 'languages', 'synopsis']
+  },
+  {
+    // No submitter or crew details, matching blind review
+    id: 'jury',
+    name: { en: 'Jury packet', th: 'เอกสารสำหรับกรรมการ' },
+    target: 'applications',
+    columns: ['applicationId', 'filmTitle', 'filmTitleTh', 'category', 'duration', 'format', 'genres', 'languages', 'synopsis']
+  },
+  {
+    id: 'scoring',
+    name: { en: 'Scoring summary', th: 'สรุปคะแนน' },
+    target: 'applications',
+    columns: ['applicationId', 'filmTitle', 'category', 'status', 'judgeCount', 'averageTotal', 'averagePercentage', 'flagged']
+  },
+  {
+    id: 'standard',
+    name: { en: 'Standard', th: 'มาตรฐาน' },
+    target: 'users',
+    columns: ['name', 'email', 'role', 'status', 'createdAt', 'lastLogin']
+  }
+];
+
+export function getExportColumns(target: 'applications'): ExportColumnDefinition<ApplicationExportRow>[];
+export function getExportColumns(target: 'users'): ExportColumnDefinition<UserRole>[];
+export function getExportColumns(target: ExportTarget): ExportColumnOption[];
+export function getExportColumns(target: ExportTarget): ExportColumnOption[] {
+  return target === 'applications' ? APPLICATION_EXPORT_COLUMNS : USER_EXPORT_COLUMNS;
+}
+
+export const getExportTemplates = (target: ExportTarget): ExportTemplate[] =>
+  EXPORT_TEMPLATES.filter(template => template.target === target);
+
+/**
+ * Column selection for the given column ids, each under its default header
+ */
+export const toColumnSelection = (target: ExportTarget, ids: string[]): ExportColumnSelection[] => {
+  const columns = getExportColumns(target);
+  return ids
+    .map(id => columns.find(column => column.id === id))
+    .filter((column): column is ExportColumnOption => !!column)
+    .map(column => ({ id: column.id, header: column.header }));
+};
+
+export const getTemplateColumns = (template: ExportTemplate): ExportColumnSelection[] =>
+  toColumnSelection(template.target, template.columns);
+
+export const getDefaultExportColumns = (target: ExportTarget): ExportColumnSelection[] =>
+  getTemplateColumns(getExportTemplates(target)[0]);
+
+/**
+ * Definitions for the chosen columns, in order and under their chosen
+ * headers. Columns no longer offered (e.g. in an old preset) are skipped.
+ */
+export const resolveExportColumns = <T>(
+  definitions: ExportColumnDefinition<T>[],
+  selection: ExportColumnSelection[]
+): ExportColumnDefinition<T>[] =>
+  selection
+    .map(selected => {
+      const definition = definitions.find(column => column.id === selected.id);
+      return definition ? { ...definition, header: selected.header.trim() || definition.header } : null;
+    })
+    .filter((definition): definition is ExportColumnDefinition<T> => !!definition);
+
+export const buildExportTable = <T>(columns: ExportColumnDefinition<T>[], rows: T[]): ExportTable => ({
+  columns: columns.map(column => ({ header: column.header, format: column.format })),
+  rows: rows.map(row => columns.map(column => column.value(row)))
+});
+
+/**
+ * Cell text for CSV, PDF and previews, where cells cannot carry a type
+ */
+export const formatExportCell = (value: XlsxCellValue, column?: XlsxColumn): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) return '';
+    return format(value, column?.format === 'datetime' ? 'yyyy-MM-dd HH:mm' : 'yyyy-MM-dd');
+  }
+  if (typeof value === 'number') return column?.format === 'decimal' ? value.toFixed(1) : value.toString();
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return value;
+};
+
+export const formatExportRows = (table: ExportTable): string[][] =>
+  table.rows.map(row => row.map((value, index) => formatExportCell(value, table.columns[index])));
@@ -0,0 +1,84 @@
+import { format } from 'date-fns';
+import { DocumentData } from 'firebase/firestore';
+import { AdminApplicationCard, ExportJob, ExportJobStatus } from '../types/admin.types';
+
+/**
+ * Utility functions for background export jobs, shared by the admin Exports
+ * page and the export worker (scripts/exportWorker.ts)
+ */
+
+export const EXPORT_JOBS_COLLECTION = 'exportJobs';
+
+// Finished files live under exports/{jobId}/ in Storage
+export const EXPORT_STORAGE_FOLDER = 'exports';
+
+export const EXPORT_JOB_MIME_TYPES: Record<ExportJob['format'], string> = {
+  csv: 'text/csv;charset=utf-8',
+  excel: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  zip: 'application/zip'
+};
+
+const EXPORT_JOB_EXTENSIONS: Record<ExportJob['format'], string> = {
+  csv: 'csv',
+  excel: 'xlsx',
+  zip: 'zip'
+};
+
+export const isExportJobFinished = (status: ExportJobStatus): boolean =>
+  status === 'complete' || status === 'failed' || status === 'cancelled';
+
+export const toExportJob = (id: string, data: DocumentData): ExportJob => ({
+  id,
+  requestedBy: data.requestedBy,
+  requestedByName: data.requestedByName || '',
+  format: data.format,
+  columns: data.columns || [],
+  includeScores: !!data.includeScores,
+  includeNotes: !!data.includeNotes,
+  categories: data.categories || [],
+  statuses: data.statuses || [],
+  dateRange: data.dateRange ? {
+    start: data.dateRange.start?.toDate(),
+    end: data.dateRange.end?.toDate()
+  } : undefined,
+  scheduledFor: data.scheduledFor?.toDate() || data.createdAt?.toDate() || new Date(),
+  status: data.status,
+  progress: data.progress || 0,
+  message: data.message,
+  total: data.total,
+  processed: data.processed,
+  filePath: data.filePath,
+  fileName: data.fileName,
+  fileSize: data.fileSize,
+  error: data.error,
+  createdAt: data.createdAt?.toDate() || new Date(),
+  startedAt: data.startedAt?.toDate(),
+  completedAt: data.completedAt?.toDate()
+});
+
+/**
+ * Letters (including Thai) and digits only, for file and folder names
+ */
+export const toFileSafeName = (name: string, fallback: string = 'Untitled'): string =>
+  name.replace(/[^a-zA-Z0-9ก-๙]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 50) || fallback;
+
+export const getExportJobFileName = (job: Pick<ExportJob, 'format' | 'createdAt'>): string =>
+  `CIFAN_Applications_${format(job.createdAt, 'yyyy-MM-dd_HHmm')}.${EXPORT_JOB_EXTENSIONS[job.format]}`;
+
+export const getExportJobFilePath = (jobId: string, fileName: string): string =>
+  `${EXPORT_STORAGE_FOLDER}/${jobId}/${fileName}`;
+
+/**
+ * Folder for one film inside a ZIP bundle, e.g. "Sunset_Drive_abc123"
+ */
+export const getBundleFolderName = (application: Pick<AdminApplicationCard, 'id' | 'filmTitle'>): string =>
+  `${toFileSafeName(application.filmTitle)}_${application.id}`;
+
+/**
+ * Extension for a bundled file, from its original name or else its URL
+ */
+export const getFileExtension = (fileName?: string, url?: string): string => {
+  const source = fileName || (url ? decodeURIComponent(url.split('?')[0]) : '');
+  const match = source.match(/\.([a-zA-Z0-9]{1,5})$/);
+  return match ? match[1].toLowerCase() : 'bin';
+};
@@ -0,0 +1,156 @@
+import { Activity, ScheduleEntry } from '../types/activities';
+import { getSessionVenue } from './activitySessions';
+
+/**
+ * Utility functions for the festival schedule grid
+ */
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Minutes since midnight for an `HH:mm` time
+ */
+export const timeToMinutes = (time: string): number => {
+  const [hours, minutes] = (time || '00:00').split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+/**
+ * Start and end of an entry in minutes since midnight of its day.
+ * Entries ending at or before their start time run past midnight.
+ */
+export const getEntryMinutes = (entry: Pick<ScheduleEntry, 'startTime' | 'endTime'>): { start: number; end: number } => {
+  const start = timeToMinutes(entry.startTime);
+  let end = entry.endTime ? timeToMinutes(entry.endTime) : start + 60;
+  if (end <= start) {
+    end += MINUTES_PER_DAY;
+  }
+  return { start, end };
+};
+
+/**
+ * Every `YYYY-MM-DD` date from start to end inclusive
+ */
+const getDateRange = (startDate: string, endDate: string): string[] => {
+  const dates: string[] = [];
+  const [year, month, day] = startDate.slice(0, 10).split('-').map(Number);
+  const end = endDate.slice(0, 10);
+
+  for (let offset = 0; offset < 366; offset++) {
+    const date = new Date(Date.UTC(year, month - 1, day + offset)).toISOString().slice(0, 10);
+    if (date > end) break;
+    dates.push(date);
+  }
+
+  return dates;
+};
+
+/**
+ * Expand activities into grid entries: one per session, or one per day for
+ * activities that repeat daily between eventDate and eventEndDate
+ */
+export const buildScheduleEntries = (activities: Activity[]): ScheduleEntry[] => {
+  const entries: ScheduleEntry[] = [];
+
+  activities.forEach(activity => {
+    if (activity.sessions && activity.sessions.length > 0) {
+      activity.sessions.forEach(session => {
+        entries.push({
+          key: `${activity.id}:${session.id}`,
+          activity,
+          session,
+          date: session.date.slice(0, 10),
+          startTime: session.startTime,
+          endTime: session.endTime,
+          ...getSessionVenue(session, activity)
+        });
+      });
+      return;
+    }
+
+    if (!activity.eventDate) return;
+
+    const isMultiDay = !activity.isOneDayActivity &&
+      !!activity.eventEndDate &&
+      activity.eventEndDate.slice(0, 10) > activity.eventDate.slice(0, 10);
+    const dates = isMultiDay
+      ? getDateRange(activity.eventDate, activity.eventEndDate as string)
+      : [activity.eventDate.slice(0, 10)];
+
+    dates.forEach(date => {
+      entries.push({
+        key: isMultiDay ? `${activity.id}:${date}` : activity.id,
+        activity,
+        date,
+        startTime: activity.startTime,
+        endTime: activity.endTime,
+        venueName: activity.venueName,
+        venueLocation: activity.venueLocation
+      });
+    });
+  });
+
+  return entries.sort((a, b) =>
+    a.date.localeCompare(b.date) || timeToMinutes(a.startTime) - timeToMinutes(b.startTime)
+  );
+};
+
+/**
+ * Distinct festival days in chronological order
+ */
+export const getScheduleDays = (entries: ScheduleEntry[]): string[] =>
+  Array.from(new Set(entries.map(entry => entry.date))).sort();
+
+/**
+ * Distinct venues in alphabetical order
+ */
+export const getScheduleVenues = (entries: ScheduleEntry[]): string[] =>
+  Array.from(new Set(entries.map(entry => entry.venueName)))
+    .sort((a, b) => a.localeCompare(b));
+
+/**
+ * Whole-hour bounds covering every entry, for the grid's time axis
+ */
+export const getScheduleHourRange = (entries: ScheduleEntry[]): { startHour: number; endHour: number } => {
+  if (entries.length === 0) {
+    return { startHour: 9, endHour: 18 };
+  }
+
+  const minutes = entries.map(getEntryMinutes);
+  return {
+    startHour: Math.floor(Math.min(...minutes.map(m => m.start)) / 60),
+    endHour: Math.ceil(Math.max(...minutes.map(m => m.end)) / 60)
+  };
+};
+
+/**
+ * Whether two entries overlap in time. Entries that end exactly when the other starts do not conflict.
+ */
+export const entriesOverlap = (a: ScheduleEntry, b: ScheduleEntry): boolean => {
+  const dayOffset = (date: string) => Math.round(new Date(`${date}T00:00:00Z`).getTime() / 60000);
+  const aMinutes = getEntryMinutes(a);
+  const bMinutes = getEntryMinutes(b);
+  const aStart = dayOffset(a.date) + aMinutes.start;
+  const aEnd = dayOffset(a.date) + aMinutes.end;
+  const bStart = dayOffset(b.date) + bMinutes.start;
+  const bEnd = dayOffset(b.date) + bMinutes.end;
+  return aStart < bEnd && bStart < aEnd;
+};
+
+/**
+ * Map each entry key to the keys of other entries it overlaps with
+ */
+export const findScheduleConflicts = (entries: ScheduleEntry[]): Record<string, string[]> => {
+  const conflicts: Record<string, string[]> = {};
+
+  entries.forEach((entry, index) => {
+    entries.slice(index + 1).forEach(other => {
+      if (entriesOverlap(entry, other)) {
+        conflicts[entry.key] = [...(conflicts[entry.key] || []), other.key];
+        conflicts[other.key] = [...(conflicts[other.key] || []), entry.key];
+      }
+    });
+  });
+
+  return conflicts;
+};
@@ -1,6 +1,5 @@
-import { ref, uploadBytes, getDownloadURL } from 'firebase/storage';
-import { storage } from '../firebase';
 import { FILE_TYPES } from './formConstants';
+import { resumableUploadManager } from '../services/resumableUploadManager';
 
 export interface UploadProgress {
   progress: number;
@@ -21,13 +20,11 @@ export const uploadFile = async (
   onProgress?: (progress: number) => void
 ): Promise<FileUploadResult> => {
   try {
-    const storageRef = ref(storage, path);
-    
-    // Upload file
-    const snapshot = await uploadBytes(storageRef, file);
-    
-    // Get download URL
-    const url = await getDownloadURL(snapshot.ref);
+    // Upload file in resumable chunks so a network blip only repeats the current chunk
+    const upload = resumableUploadManager.createUpload(file, path, {
+      onProgress: (transfer) => onProgress?.(transfer.percent)
+    });
+    const { downloadURL: url } = await upload.start();
     
     return {
       url,
@@ -89,6 +86,25 @@ export const formatFileSize = (bytes: number): string => {
   return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
 };
 
+// Format upload throughput for display
+export const formatTransferRate = (bytesPerSecond: number): string => {
+  return `${formatFileSize(Math.round(bytesPerSecond))}/s`;
+};
+
+// Format remaining upload time for display, e.g. "4m 05s"
+export const formatEta = (seconds: number | null): string => {
+  if (seconds === null || !isFinite(seconds)) return '--';
+  
+  const total = Math.ceil(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = total % 60;
+  
+  if (hours > 0) return `${hours}h ${String(minutes).padStart(2, '0')}m`;
+  if (minutes > 0) return `${minutes}m ${String(secs).padStart(2, '0')}s`;
+  return `${secs}s`;
+};
+
 // Get file extension
 export const getFileExtension = (fileName: string): string => {
   return fileName.slice((fileName.lastIndexOf('.') - 1 >>> 0) + 2);
@@ -1,3 +1,5 @@
+import { VideoCategory, VideoTechnicalRules } from '../types/video.types';
+
 // Film roles for dropdown
 export const FILM_ROLES = [
   'Director', 'Producer', 'Cinematographer', 'Editor', 'Sound Designer',
@@ -53,6 +55,68 @@ export const DURATION_LIMITS = {
   max: 10
 };
 
+// Technical checks on the film file per category, read from the file before upload.
+// 'error' rejects the file; 'warning' is shown to the applicant but allowed.
+export const VIDEO_TECHNICAL_RULES: Record<VideoCategory, VideoTechnicalRules> = {
+  youth: {
+    duration: 'error',
+    minResolution: { width: 1280, height: 720 },
+    resolution: 'warning',
+    aspectRatio: 'warning',
+    codec: 'warning'
+  },
+  future: {
+    duration: 'error',
+    minResolution: { width: 1280, height: 720 },
+    resolution: 'warning',
+    aspectRatio: 'warning',
+    codec: 'warning'
+  },
+  world: {
+    duration: 'error',
+    minResolution: { width: 1920, height: 1080 },
+    resolution: 'warning',
+    aspectRatio: 'warning',
+    codec: 'warning'
+  }
+};
+
+// Aspect ratios accepted without a warning
+export const VIDEO_ASPECT_RATIOS = ['16:9', '1.85:1', '2.39:1', '2:1', '4:3', '1:1'];
+
+// Video codecs the jury's browsers play reliably (H.264)
+export const VIDEO_PREFERRED_CODECS = ['avc1', 'avc3'];
+
+// Subtitle files accepted alongside the film; SRT is converted to WebVTT on upload
+export const SUBTITLE_FILE = {
+  accept: '.srt,.vtt',
+  maxSize: 2 * 1024 * 1024, // 2MB
+  extensions: ['srt', 'vtt']
+};
+
+// Subtitle languages, matching the film language options
+export const SUBTITLE_LANGUAGES = [
+  { code: 'th', filmLanguage: 'Thai', label: { th: 'ภาษาไทย', en: 'Thai' } },
+  { code: 'en', filmLanguage: 'English', label: { th: 'ภาษาอังกฤษ', en: 'English' } },
+  { code: 'zh', filmLanguage: 'Mandarin', label: { th: 'ภาษาจีนกลาง', en: 'Mandarin' } },
+  { code: 'ja', filmLanguage: 'Japanese', label: { th: 'ภาษาญี่ปุ่น', en: 'Japanese' } },
+  { code: 'ko', filmLanguage: 'Korean', label: { th: 'ภาษาเกาหลี', en: 'Korean' } },
+  { code: 'vi', filmLanguage: 'Vietnamese', label: { th: 'ภาษาเวียดนาม', en: 'Vietnamese' } },
+  { code: 'ms', filmLanguage: 'Malay', label: { th: 'ภาษามาเลย์', en: 'Malay' } },
+  { code: 'id', filmLanguage: 'Indonesian', label: { th: 'ภาษาอินโดนีเซีย', en: 'Indonesian' } },
+  { code: 'hi', filmLanguage: 'Hindi', label: { th: 'ภาษาฮินดี', en: 'Hindi' } },
+  { code: 'es', filmLanguage: 'Spanish', label: { th: 'ภาษาสเปน', en: 'Spanish' } },
+  { code: 'fr', filmLanguage: 'French', label: { th: 'ภาษาฝรั่งเศส', en: 'French' } },
+  { code: 'de', filmLanguage: 'German', label: { th: 'ภาษาเยอรมัน', en: 'German' } },
+  { code: 'pt', filmLanguage: 'Portuguese', label: { th: 'ภาษาโปรตุเกส', en: 'Portuguese' } },
+  { code: 'ru', filmLanguage: 'Russian', label: { th: 'ภาษารัสเซีย', en: 'Russian' } },
+  { code: 'ar', filmLanguage: 'Arabic', label: { th: 'ภาษาอาหรับ', en: 'Arabic' } },
+  { code: 'it', filmLanguage: 'Italian', label: { th: 'ภาษาอิตาลี', en: 'Italian' } },
+  { code: 'nl', filmLanguage: 'Dutch', label: { th: 'ภาษาดัตช์', en: 'Dutch' } },
+  { code: 'sv', filmLanguage: 'Swedish', label: { th: 'ภาษาสวีเดน', en: 'Swedish' } },
+  { code: 'no', filmLanguage: 'Norwegian', label: { th: 'ภาษานอร์เวย์', en: 'Norwegian' } }
+];
+
 // Agreement texts
 export const AGREEMENT_CONTENT = {
   th: {
@@ -0,0 +1,251 @@
+import { saveAs } from 'file-saver';
+import { Activity, ActivitySession } from '../types/activities';
+import { getSessionVenue } from './activitySessions';
+
+/**
+ * Utility functions for generating iCalendar (.ics) files from activities (RFC 5545)
+ */
+
+const FESTIVAL_TIMEZONE = 'Asia/Bangkok';
+// Thailand has no daylight saving time, so the offset is constant
+const FESTIVAL_UTC_OFFSET_HOURS = 7;
+const PRODUCT_ID = '-//CIFAN//Festival Activities//EN';
+const UID_DOMAIN = 'cifan.festival';
+
+const VTIMEZONE_BANGKOK = [
+  'BEGIN:VTIMEZONE',
+  `TZID:${FESTIVAL_TIMEZONE}`,
+  'BEGIN:STANDARD',
+  'DTSTART:19700101T000000',
+  'TZOFFSETFROM:+0700',
+  'TZOFFSETTO:+0700',
+  'TZNAME:ICT',
+  'END:STANDARD',
+  'END:VTIMEZONE'
+];
+
+type CalendarActivity = Pick<
+  Activity,
+  | 'id'
+  | 'name'
+  | 'shortDescription'
+  | 'status'
+  | 'isOneDayActivity'
+  | 'eventDate'
+  | 'eventEndDate'
+  | 'startTime'
+  | 'endTime'
+  | 'venueName'
+  | 'venueLocation'
+  | 'contactEmail'
+  | 'contactName'
+  | 'tags'
+  | 'createdAt'
+  | 'updatedAt'
+  | 'sessions'
+>;
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+/**
+ * Escape TEXT values: backslash, semicolon, comma and newlines
+ */
+const escapeText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+/**
+ * Fold content lines longer than 75 octets. Thai text is multi-byte in UTF-8,
+ * so lines are measured in bytes and never split inside a character.
+ */
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+
+  for (const char of line) {
+    const charBytes = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74; // continuation lines start with a space
+    if (currentBytes + charBytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+};
+
+/**
+ * Parse a `YYYY-MM-DD` date (ISO strings are accepted) and `HH:mm` time
+ */
+const parseDateTime = (date: string, time: string) => {
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number);
+  const [hours, minutes] = (time || '00:00').split(':').map(Number);
+  return { year, month, day, hours: hours || 0, minutes: minutes || 0 };
+};
+
+/**
+ * Local festival time as `YYYYMMDDTHHMMSS`, for use with TZID
+ */
+const formatLocal = (date: string, time: string, addDays = 0): string => {
+  const { year, month, day, hours, minutes } = parseDateTime(date, time);
+  const shifted = new Date(Date.UTC(year, month - 1, day + addDays, hours, minutes));
+  return `${shifted.getUTCFullYear()}${pad(shifted.getUTCMonth() + 1)}${pad(shifted.getUTCDate())}` +
+    `T${pad(shifted.getUTCHours())}${pad(shifted.getUTCMinutes())}00`;
+};
+
+/**
+ * Festival-local date and time converted to UTC as `YYYYMMDDTHHMMSSZ`
+ */
+const formatUtcFromLocal = (date: string, time: string): string => {
+  const { year, month, day, hours, minutes } = parseDateTime(date, time);
+  return formatUtc(new Date(Date.UTC(year, month - 1, day, hours - FESTIVAL_UTC_OFFSET_HOURS, minutes)));
+};
+
+const formatUtc = (date: Date): string =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+  `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+
+const getActivityUrl = (activityId: string): string =>
+  `${window.location.origin}${window.location.pathname}#activity/${activityId}`;
+
+interface EventSchedule {
+  uid: string;
+  summary: string;
+  date: string;
+  endDate?: string;
+  startTime: string;
+  endTime: string;
+  venueName: string;
+  venueLocation?: string;
+}
+
+/**
+ * One schedule per VEVENT: the activity itself, or each of its sessions
+ */
+const getEventSchedules = (activity: CalendarActivity): EventSchedule[] => {
+  if (!activity.sessions || activity.sessions.length === 0) {
+    return [{
+      uid: activity.id,
+      summary: activity.name,
+      date: activity.eventDate,
+      endDate: activity.isOneDayActivity ? undefined : activity.eventEndDate,
+      startTime: activity.startTime,
+      endTime: activity.endTime,
+      venueName: activity.venueName,
+      venueLocation: activity.venueLocation
+    }];
+  }
+
+  return activity.sessions.map((session: ActivitySession, index) => ({
+    uid: `${activity.id}-${session.id}`,
+    summary: `${activity.name} (${session.title || index + 1})`,
+    date: session.date,
+    startTime: session.startTime,
+    endTime: session.endTime,
+    ...getSessionVenue(session, activity)
+  }));
+};
+
+/**
+ * Build the VEVENT lines for one schedule of an activity. Multi-day activities
+ * repeat daily between eventDate and eventEndDate at the same start and end times.
+ */
+const buildEventLines = (activity: CalendarActivity, schedule: EventSchedule, now: Date): string[] => {
+  // Activities ending at or before their start time run past midnight
+  const endsNextDay = !!schedule.endTime && schedule.endTime <= schedule.startTime;
+  const updatedAt = new Date(activity.updatedAt || activity.createdAt || now);
+  const location = schedule.venueLocation && !/^https?:\/\//.test(schedule.venueLocation)
+    ? `${schedule.venueName}, ${schedule.venueLocation}`
+    : schedule.venueName;
+  const url = getActivityUrl(activity.id);
+  const description = [activity.shortDescription, url].filter(Boolean).join('\n\n');
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${schedule.uid}@${UID_DOMAIN}`,
+    `DTSTAMP:${formatUtc(now)}`,
+    `CREATED:${formatUtc(new Date(activity.createdAt || now))}`,
+    `LAST-MODIFIED:${formatUtc(updatedAt)}`,
+    // Calendar clients only apply an update (e.g. a cancellation) when the sequence increases
+    `SEQUENCE:${Math.floor(updatedAt.getTime() / 1000)}`,
+    `DTSTART;TZID=${FESTIVAL_TIMEZONE}:${formatLocal(schedule.date, schedule.startTime)}`,
+    `DTEND;TZID=${FESTIVAL_TIMEZONE}:${formatLocal(schedule.date, schedule.endTime || schedule.startTime, endsNextDay ? 1 : 0)}`
+  ];
+
+  if (schedule.endDate && schedule.endDate.slice(0, 10) > schedule.date.slice(0, 10)) {
+    lines.push(`RRULE:FREQ=DAILY;UNTIL=${formatUtcFromLocal(schedule.endDate, schedule.startTime)}`);
+  }
+
+  lines.push(
+    `SUMMARY:${escapeText(schedule.summary)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+    `LOCATION:${escapeText(location)}`,
+    `URL:${url}`,
+    `STATUS:${activity.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED'}`
+  );
+
+  if (activity.tags.length > 0) {
+    lines.push(`CATEGORIES:${activity.tags.map(escapeText).join(',')}`);
+  }
+
+  if (activity.contactEmail) {
+    // Parameter values are quoted rather than escaped
+    lines.push(`ORGANIZER;CN="${(activity.contactName || activity.contactEmail).replace(/"/g, '')}":mailto:${activity.contactEmail}`);
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+};
+
+/**
+ * Generate a complete iCalendar document for the given activities
+ */
+export const generateActivitiesCalendar = (
+  activities: CalendarActivity[],
+  calendarName: string
+): string => {
+  const now = new Date();
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    `X-WR-TIMEZONE:${FESTIVAL_TIMEZONE}`,
+    ...VTIMEZONE_BANGKOK,
+    ...activities.flatMap(activity =>
+      getEventSchedules(activity).flatMap(schedule => buildEventLines(activity, schedule, now))
+    ),
+    'END:VCALENDAR'
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+/**
+ * File-system safe .ics file name for an activity
+ */
+export const getActivityCalendarFileName = (activity: Pick<Activity, 'name'>): string =>
+  `${activity.name.replace(/[^a-zA-Z0-9ก-๙]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 60) || 'activity'}.ics`;
+
+/**
+ * Generate and download an .ics file
+ */
+export const downloadActivitiesCalendar = (
+  activities: CalendarActivity[],
+  calendarName: string,
+  fileName: string
+): void => {
+  const calendar = generateActivitiesCalendar(activities, calendarName);
+  saveAs(new Blob([calendar], { type: 'text/calendar;charset=utf-8' }), fileName);
+};
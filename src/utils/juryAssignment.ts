@@ -0,0 +1,134 @@
+import { DocumentData } from 'firebase/firestore';
+import { JurorProgress, JurySubmissionSummary, UserRole } from '../types/admin.types';
+
+/**
+ * Utility functions for assigning submissions to jurors
+ */
+
+// Submission fields copied for blind review. Submitter, crew, school and contact
+// fields and the proof file are left out, so jurors never receive them.
+const BLIND_REVIEW_FIELDS = [
+  'filmTitle',
+  'filmTitleTh',
+  'competitionCategory',
+  'category',
+  'status',
+  'genres',
+  'format',
+  'duration',
+  'synopsis',
+  'chiangmaiConnection',
+  'nationality',
+  'submittedAt',
+  'createdAt',
+  'lastModified'
+];
+
+/**
+ * The redacted copy of a submission that its assigned jurors read instead of
+ * the submission itself
+ */
+export const toBlindReviewCopy = (data: DocumentData, assignedReviewers: string[]): DocumentData => {
+  const copy: DocumentData = { assignedReviewers };
+
+  BLIND_REVIEW_FIELDS.forEach(field => {
+    if (data[field] !== undefined) {
+      copy[field] = data[field];
+    }
+  });
+
+  copy.files = {
+    ...(data.files?.filmFile && { filmFile: data.files.filmFile }),
+    ...(data.files?.posterFile && { posterFile: data.files.posterFile }),
+    subtitles: data.files?.subtitles || []
+  };
+
+  return copy;
+};
+
+/**
+ * Plan balanced round-robin assignments so every submission ends up with
+ * `jurorsPerFilm` jurors. Each open slot goes to the least-loaded juror in the
+ * category who is not already on the film; ties rotate through the juror list
+ * so equal loads are handed out in turn. Existing assignments are kept.
+ * Returns the juror IDs to add, keyed by submission ID.
+ */
+export const planRoundRobinAssignments = (
+  submissions: JurySubmissionSummary[],
+  jurorIds: string[],
+  jurorsPerFilm: number
+): Record<string, string[]> => {
+  const plan: Record<string, string[]> = {};
+  if (jurorIds.length === 0 || jurorsPerFilm <= 0) return plan;
+
+  const load: Record<string, number> = {};
+  jurorIds.forEach(jurorId => {
+    load[jurorId] = submissions.filter(submission => submission.assignedReviewers.includes(jurorId)).length;
+  });
+
+  let turn = 0;
+  const ordered = [...submissions].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+  ordered.forEach(submission => {
+    const assigned = new Set(submission.assignedReviewers);
+    const openSlots = Math.min(jurorsPerFilm, jurorIds.length) - assigned.size;
+
+    for (let slot = 0; slot < openSlots; slot++) {
+      let chosen: string | null = null;
+
+      for (let offset = 0; offset < jurorIds.length; offset++) {
+        const candidate = jurorIds[(turn + offset) % jurorIds.length];
+        if (assigned.has(candidate)) continue;
+        if (chosen === null || load[candidate] < load[chosen]) {
+          chosen = candidate;
+        }
+      }
+
+      if (chosen === null) break;
+
+      assigned.add(chosen);
+      load[chosen]++;
+      plan[submission.id] = [...(plan[submission.id] || []), chosen];
+      turn = (jurorIds.indexOf(chosen) + 1) % jurorIds.length;
+    }
+  });
+
+  return plan;
+};
+
+/**
+ * Assigned and scored counts for each juror, overall and per category
+ */
+export const calculateJurorProgress = (
+  jurors: UserRole[],
+  submissions: JurySubmissionSummary[]
+): JurorProgress[] =>
+  jurors.map(juror => {
+    const progress: JurorProgress = {
+      jurorId: juror.id,
+      jurorName: juror.displayName || juror.name,
+      jurorEmail: juror.email,
+      assigned: 0,
+      scored: 0,
+      byCategory: {
+        youth: { assigned: 0, scored: 0 },
+        future: { assigned: 0, scored: 0 },
+        world: { assigned: 0, scored: 0 }
+      }
+    };
+
+    submissions
+      .filter(submission => submission.assignedReviewers.includes(juror.id))
+      .forEach(submission => {
+        const isScored = submission.scoredBy.includes(juror.id);
+        const category = progress.byCategory[submission.competitionCategory];
+        progress.assigned++;
+        if (category) category.assigned++;
+        if (isScored) {
+          progress.scored++;
+          if (category) category.scored++;
+        }
+      });
+
+    return progress;
+  });
@@ -0,0 +1,187 @@
+import { ImageVariant, PosterThumbnails, ThumbnailSize } from '../types/media.types';
+
+/**
+ * Utility functions for resizing posters and capturing film stills in the
+ * browser with a canvas
+ */
+
+// Maximum width of each poster thumbnail
+export const POSTER_THUMBNAIL_WIDTHS: Record<ThumbnailSize, number> = {
+  small: 240,
+  medium: 480,
+  large: 960
+};
+
+// Stills are taken at these points through the film, skipping titles and credits
+export const PREVIEW_FRAME_POSITIONS = [0.1, 0.3, 0.5, 0.7, 0.9];
+export const PREVIEW_FRAME_WIDTH = 480;
+
+const JPEG_QUALITY = 0.82;
+
+// Give up on a seek that never completes, e.g. a codec the browser cannot decode
+const SEEK_TIMEOUT_MS = 15000;
+
+export interface RenderedImage {
+  blob: Blob;
+  width: number;
+  height: number;
+}
+
+export interface CapturedFrame extends RenderedImage {
+  timeSeconds: number;
+}
+
+const drawToJpeg = (
+  source: CanvasImageSource,
+  sourceWidth: number,
+  sourceHeight: number,
+  maxWidth: number
+): Promise<RenderedImage> => {
+  const scale = Math.min(1, maxWidth / sourceWidth);
+  const width = Math.round(sourceWidth * scale);
+  const height = Math.round(sourceHeight * scale);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    return Promise.reject(new Error('Canvas is not available'));
+  }
+  context.drawImage(source, 0, 0, width, height);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve({ blob, width, height }) : reject(new Error('Failed to encode image'))),
+      'image/jpeg',
+      JPEG_QUALITY
+    );
+  });
+};
+
+const loadImage = (file: File): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+
+    img.onload = () => {
+      window.URL.revokeObjectURL(img.src);
+      resolve(img);
+    };
+
+    img.onerror = () => {
+      window.URL.revokeObjectURL(img.src);
+      reject(new Error('Failed to load image'));
+    };
+
+    img.src = URL.createObjectURL(file);
+  });
+};
+
+/**
+ * JPEG copies of an image at each thumbnail width. Sizes wider than the
+ * original are skipped, except the smallest so there is always one.
+ */
+export const renderPosterThumbnails = async (
+  file: File
+): Promise<Partial<Record<ThumbnailSize, RenderedImage>>> => {
+  const img = await loadImage(file);
+  const result: Partial<Record<ThumbnailSize, RenderedImage>> = {};
+
+  for (const [size, width] of Object.entries(POSTER_THUMBNAIL_WIDTHS) as Array<[ThumbnailSize, number]>) {
+    if (width > img.naturalWidth && size !== 'small') continue;
+    result[size] = await drawToJpeg(img, img.naturalWidth, img.naturalHeight, width);
+  }
+
+  return result;
+};
+
+const seekTo = (video: HTMLVideoElement, time: number): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      video.onseeked = null;
+      reject(new Error('Timed out seeking video'));
+    }, SEEK_TIMEOUT_MS);
+
+    video.onseeked = () => {
+      clearTimeout(timer);
+      video.onseeked = null;
+      resolve();
+    };
+    video.currentTime = time;
+  });
+};
+
+/**
+ * Stills from across the film, captured by seeking a muted video element
+ */
+export const captureVideoFrames = (
+  file: File,
+  positions: number[] = PREVIEW_FRAME_POSITIONS
+): Promise<CapturedFrame[]> => {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.preload = 'auto';
+    video.muted = true;
+    video.playsInline = true;
+
+    const finish = (error?: Error, frames?: CapturedFrame[]) => {
+      window.URL.revokeObjectURL(video.src);
+      video.removeAttribute('src');
+      video.load();
+      if (error) {
+        reject(error);
+      } else {
+        resolve(frames || []);
+      }
+    };
+
+    video.onloadeddata = async () => {
+      video.onloadeddata = null;
+      try {
+        const frames: CapturedFrame[] = [];
+        for (const position of positions) {
+          const timeSeconds = Math.round(video.duration * position * 10) / 10;
+          await seekTo(video, timeSeconds);
+          const image = await drawToJpeg(video, video.videoWidth, video.videoHeight, PREVIEW_FRAME_WIDTH);
+          frames.push({ ...image, timeSeconds });
+        }
+        finish(undefined, frames);
+      } catch (error) {
+        finish(error instanceof Error ? error : new Error('Failed to capture video frames'));
+      }
+    };
+
+    video.onerror = () => finish(new Error('Failed to load video'));
+
+    video.src = URL.createObjectURL(file);
+  });
+};
+
+/**
+ * Best URL for showing a poster at a size, falling back to larger
+ * thumbnails and then the original
+ */
+export const getPosterUrl = (
+  thumbnails: PosterThumbnails | undefined,
+  size: ThumbnailSize,
+  originalUrl: string
+): string => {
+  const order: ThumbnailSize[] = ['small', 'medium', 'large'];
+  const candidates = order.slice(order.indexOf(size));
+  for (const candidate of candidates) {
+    const variant = thumbnails?.[candidate];
+    if (variant?.downloadURL) return variant.downloadURL;
+  }
+  return originalUrl;
+};
+
+/**
+ * srcSet listing every stored thumbnail, for responsive poster images
+ */
+export const getPosterSrcSet = (thumbnails: PosterThumbnails | undefined): string | undefined => {
+  const variants = Object.values(thumbnails || {}).filter(
+    (variant): variant is ImageVariant => Boolean(variant?.downloadURL)
+  );
+  if (variants.length === 0) return undefined;
+  return variants.map(variant => `${variant.downloadURL} ${variant.width}w`).join(', ');
+};
@@ -0,0 +1,126 @@
+import { AdminNote, NoteMention, NoteThread } from '../services/notesService';
+
+/**
+ * Utility functions for threaded admin notes and @mentions
+ */
+
+// Longest text after "@" still treated as a mention being typed
+const MAX_MENTION_QUERY_LENGTH = 30;
+
+/**
+ * Group notes into threads. Top-level notes stay newest first, replies read
+ * oldest first; replies whose parent was deleted are shown as top-level notes.
+ */
+export const buildNoteThreads = (notes: AdminNote[]): NoteThread[] => {
+  const noteIds = new Set(notes.map(note => note.id));
+  const childrenByParent = new Map<string, AdminNote[]>();
+
+  notes.forEach(note => {
+    if (note.parentId && noteIds.has(note.parentId)) {
+      childrenByParent.set(note.parentId, [...(childrenByParent.get(note.parentId) || []), note]);
+    }
+  });
+
+  const toThread = (note: AdminNote): NoteThread => ({
+    note,
+    replies: (childrenByParent.get(note.id) || [])
+      .sort((a, b) => a.createdAt.toMillis() - b.createdAt.toMillis())
+      .map(toThread)
+  });
+
+  return notes
+    .filter(note => !note.parentId || !noteIds.has(note.parentId))
+    .sort((a, b) => b.createdAt.toMillis() - a.createdAt.toMillis())
+    .map(toThread);
+};
+
+/**
+ * The mention being typed at the caret, if any: the text between an "@" that
+ * starts a word and the caret
+ */
+export const getMentionQuery = (text: string, caret: number): { query: string; start: number } | null => {
+  const beforeCaret = text.slice(0, caret);
+  const start = beforeCaret.lastIndexOf('@');
+  if (start === -1 || (start > 0 && !/\s/.test(beforeCaret[start - 1]))) {
+    return null;
+  }
+
+  const query = beforeCaret.slice(start + 1);
+  if (query.length > MAX_MENTION_QUERY_LENGTH || /[\n@]/.test(query)) {
+    return null;
+  }
+  return { query, start };
+};
+
+/**
+ * Replace the mention being typed with the chosen name
+ */
+export const insertMention = (
+  text: string,
+  start: number,
+  caret: number,
+  name: string
+): { text: string; caret: number } => {
+  const after = text.slice(caret);
+  const inserted = /^\s/.test(after) ? `@${name}` : `@${name} `;
+  return {
+    text: text.slice(0, start) + inserted + after,
+    caret: start + inserted.length
+  };
+};
+
+/**
+ * Mentions still present in the content, so deleting the text of a mention
+ * also drops it
+ */
+export const extractMentions = (content: string, candidates: NoteMention[]): NoteMention[] => {
+  const mentions: NoteMention[] = [];
+  let remaining = content;
+
+  // Longest names first, removing each match, so "@Ann Lee" does not also mention "Ann"
+  [...candidates]
+    .sort((a, b) => b.name.length - a.name.length)
+    .forEach(candidate => {
+      const token = `@${candidate.name}`;
+      if (remaining.includes(token) && !mentions.some(mention => mention.userId === candidate.userId)) {
+        mentions.push(candidate);
+        remaining = remaining.split(token).join('');
+      }
+    });
+
+  return mentions;
+};
+
+/**
+ * Split content into plain text and mention segments for highlighting
+ */
+export const splitMentions = (
+  content: string,
+  mentions: NoteMention[]
+): Array<{ text: string; mention?: NoteMention }> => {
+  if (mentions.length === 0) {
+    return [{ text: content }];
+  }
+
+  // Longest names first so "@Ann Lee" wins over "@Ann"
+  const sorted = [...mentions].sort((a, b) => b.name.length - a.name.length);
+  const pattern = new RegExp(
+    `@(${sorted.map(mention => mention.name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})`,
+    'g'
+  );
+
+  const segments: Array<{ text: string; mention?: NoteMention }> = [];
+  let lastIndex = 0;
+  for (const match of content.matchAll(pattern)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      segments.push({ text: content.slice(lastIndex, index) });
+    }
+    segments.push({ text: match[0], mention: sorted.find(mention => mention.name === match[1]) });
+    lastIndex = index + match[0].length;
+  }
+  if (lastIndex < content.length) {
+    segments.push({ text: content.slice(lastIndex) });
+  }
+  return segments;
+};
@@ -0,0 +1,101 @@
+import { NewInboxNotification } from '../types/notification.types';
+
+/**
+ * Utility functions building inbox notifications for application and activity events
+ */
+
+const STATUS_MESSAGES: Record<string, { th: string; en: string }> = {
+  'under-review': {
+    th: 'ภาพยนตร์ของคุณผ่านการคัดเลือกรอบแรกและอยู่ระหว่างการพิจารณา',
+    en: 'Your film has been shortlisted and is now under review.'
+  },
+  accepted: {
+    th: 'มีผลการคัดเลือกแล้ว กรุณาอ่านจดหมายแจ้งผลในหน้าใบสมัคร',
+    en: 'A decision has been made. Read your decision letter on the application page.'
+  },
+  rejected: {
+    th: 'มีผลการคัดเลือกแล้ว กรุณาอ่านจดหมายแจ้งผลในหน้าใบสมัคร',
+    en: 'A decision has been made. Read your decision letter on the application page.'
+  }
+};
+
+/**
+ * Confirmation sent to an applicant once their submission is received
+ */
+export const submissionReceivedNotification = (
+  userId: string,
+  submissionId: string,
+  filmTitle: string
+): NewInboxNotification => ({
+  userId,
+  type: 'submission_received',
+  title: { th: 'ได้รับใบสมัครแล้ว', en: 'Submission received' },
+  message: {
+    th: `เราได้รับภาพยนตร์เรื่อง “${filmTitle}” ของคุณเรียบร้อยแล้ว`,
+    en: `We have received your film “${filmTitle}”.`
+  },
+  link: `#application-detail/${submissionId}`
+});
+
+/**
+ * Sent to an applicant when a decision round moves their submission
+ */
+export const statusChangedNotification = (
+  userId: string,
+  submissionId: string,
+  filmTitle: string,
+  status: string
+): NewInboxNotification => ({
+  userId,
+  type: 'status_changed',
+  title: { th: `อัปเดตสถานะ: ${filmTitle}`, en: `Status update: ${filmTitle}` },
+  message: STATUS_MESSAGES[status] || {
+    th: 'สถานะใบสมัครของคุณมีการเปลี่ยนแปลง',
+    en: 'The status of your application has changed.'
+  },
+  link: `#application-detail/${submissionId}`
+});
+
+/**
+ * Sent to an admin mentioned in a note on a submission
+ */
+export const noteMentionNotification = (
+  userId: string,
+  submissionId: string,
+  filmTitle: string,
+  authorName: string
+): NewInboxNotification => ({
+  userId,
+  type: 'note_mention',
+  title: { th: `${authorName} กล่าวถึงคุณ`, en: `${authorName} mentioned you` },
+  message: {
+    th: `ในบันทึกของภาพยนตร์เรื่อง “${filmTitle}”`,
+    en: `In a note on “${filmTitle}”.`
+  },
+  link: `#admin/application/${submissionId}`
+});
+
+/**
+ * Sent when a user holds a confirmed seat, either directly or promoted from the waitlist
+ */
+export const registrationConfirmedNotification = (
+  userId: string,
+  activityId: string,
+  activityName: string,
+  promoted: boolean
+): NewInboxNotification => ({
+  userId,
+  type: 'registration_confirmed',
+  title: { th: 'ยืนยันการลงทะเบียนแล้ว', en: 'Registration confirmed' },
+  message: promoted
+    ? {
+        th: `คุณได้รับที่นั่งจากรายชื่อสำรองสำหรับ “${activityName}” แล้ว`,
+        en: `A seat opened up and you have been moved off the waitlist for “${activityName}”.`
+      }
+    : {
+        th: `คุณได้ลงทะเบียนเข้าร่วม “${activityName}” เรียบร้อยแล้ว`,
+        en: `Your seat for “${activityName}” is confirmed.`
+      },
+  link: `#activity/${activityId}`,
+  activityId
+});
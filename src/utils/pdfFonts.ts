@@ -0,0 +1,144 @@
+import jsPDF from 'jspdf';
+import { thaiWordSegmenter } from './wordSegmenter';
+
+/**
+ * Utility functions for embedding the Sarabun Thai font in jsPDF documents
+ * and wrapping Thai text, which has no spaces between words
+ */
+
+export const THAI_PDF_FONT = 'Sarabun';
+
+// Sarabun, bundled under public/fonts with its SIL Open Font License (OFL.txt).
+// jsPDF only embeds TrueType, so these are the full TTFs rather than web fonts
+const SARABUN_FONT_URLS = {
+  normal: '/fonts/Sarabun-Regular.ttf',
+  bold: '/fonts/Sarabun-Bold.ttf'
+};
+
+// First four bytes of a TrueType font file (sfnt version 1.0)
+const TRUETYPE_SIGNATURE = 0x00010000;
+
+// Thai vowel and tone marks drawn above or below the preceding consonant
+const THAI_CLUSTER_PATTERN = /[\s\S][\u0E31\u0E34-\u0E3A\u0E47-\u0E4E]*/g;
+
+// Font files are fetched once per session and shared by every document
+let fontDataPromise: Promise<Record<keyof typeof SARABUN_FONT_URLS, string>> | null = null;
+
+const toBase64 = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  // Chunked so String.fromCharCode never receives too many arguments
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fetchFont = async (url: string): Promise<string> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load font ${url}: ${response.status}`);
+  }
+  const buffer = await response.arrayBuffer();
+  // A missing file is answered with the SPA's index.html rather than a 404
+  if (buffer.byteLength < 4 || new DataView(buffer).getUint32(0) !== TRUETYPE_SIGNATURE) {
+    throw new Error(`Font ${url} is not a TrueType file`);
+  }
+  return toBase64(buffer);
+};
+
+const loadFontData = () => {
+  if (!fontDataPromise) {
+    fontDataPromise = Promise.all([
+      fetchFont(SARABUN_FONT_URLS.normal),
+      fetchFont(SARABUN_FONT_URLS.bold)
+    ]).then(([normal, bold]) => ({ normal, bold }));
+    // Allow a later export to retry after a network failure
+    fontDataPromise.catch(() => {
+      fontDataPromise = null;
+    });
+  }
+  return fontDataPromise;
+};
+
+/**
+ * Words (and the spaces between them) in the order they appear. Thai runs are
+ * split at dictionary word boundaries where the browser supports it.
+ */
+const segmentWords = (text: string): string[] => {
+  if (thaiWordSegmenter) {
+    return Array.from(thaiWordSegmenter.segment(text), part => part.segment);
+  }
+  return text.split(/(\s+)/).filter(Boolean);
+};
+
+/**
+ * Splits text into lines no wider than maxWidth, breaking Thai between words
+ * and never between a consonant and its vowel or tone marks
+ */
+export const splitThaiText = (
+  doc: jsPDF,
+  text: string | string[],
+  maxWidth: number,
+  fontSize: number = doc.getFontSize()
+): string[] => {
+  const measure = (value: string) => (doc.getStringUnitWidth(value) * fontSize) / doc.internal.scaleFactor;
+  const paragraphs = Array.isArray(text) ? text : String(text ?? '').split(/\r?\n/);
+  const lines: string[] = [];
+
+  paragraphs.forEach(paragraph => {
+    let line = '';
+
+    segmentWords(paragraph).forEach(word => {
+      if (measure(line + word) <= maxWidth) {
+        line += word;
+        return;
+      }
+
+      if (line.trim()) {
+        lines.push(line.trimEnd());
+        line = word.trimStart();
+      } else {
+        line += word;
+      }
+
+      // A single word wider than the line is broken between clusters
+      while (line && measure(line) > maxWidth) {
+        const clusters = line.match(THAI_CLUSTER_PATTERN) || [line];
+        let fitted = clusters[0];
+        for (let i = 1; i < clusters.length && measure(fitted + clusters[i]) <= maxWidth; i++) {
+          fitted += clusters[i];
+        }
+        lines.push(fitted);
+        line = line.slice(fitted.length);
+      }
+    });
+
+    lines.push(line.trimEnd());
+  });
+
+  return lines;
+};
+
+/**
+ * Embeds Sarabun in the document and makes splitTextToSize (also used by
+ * jspdf-autotable for cell wrapping) Thai-aware. Returns the font family to
+ * use, falling back to Helvetica when the font files cannot be loaded.
+ */
+export const registerThaiFont = async (doc: jsPDF): Promise<string> => {
+  doc.splitTextToSize = (text: string | string[], maxWidth: number, options?: { fontSize?: number }) =>
+    splitThaiText(doc, text, maxWidth, options?.fontSize);
+
+  try {
+    const fontData = await loadFontData();
+    doc.addFileToVFS('Sarabun-Regular.ttf', fontData.normal);
+    doc.addFont('Sarabun-Regular.ttf', THAI_PDF_FONT, 'normal');
+    doc.addFileToVFS('Sarabun-Bold.ttf', fontData.bold);
+    doc.addFont('Sarabun-Bold.ttf', THAI_PDF_FONT, 'bold');
+    doc.setFont(THAI_PDF_FONT, 'normal');
+    return THAI_PDF_FONT;
+  } catch (error) {
+    console.warn('Thai PDF font unavailable, Thai text will not render:', error);
+    return 'helvetica';
+  }
+};
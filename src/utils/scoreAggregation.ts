@@ -0,0 +1,137 @@
+import { JurorScoreRecord, LeaderboardEntry, LeaderboardOptions } from '../types/admin.types';
+
+/**
+ * Utility functions for aggregating jury scores into a ranked leaderboard
+ */
+
+// Films need at least this many scores before the highest and lowest are dropped,
+// so a trimmed film still keeps two opinions
+export const MIN_SCORES_FOR_OUTLIER_DROP = 4;
+
+interface Stats {
+  mean: number;
+  standardDeviation: number;
+}
+
+/**
+ * Mean and population standard deviation
+ */
+export const calculateStats = (values: number[]): Stats => {
+  if (values.length === 0) return { mean: 0, standardDeviation: 0 };
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+  return { mean, standardDeviation: Math.sqrt(variance) };
+};
+
+const toPercentage = (record: JurorScoreRecord): number =>
+  record.scores.maxScore > 0 ? (record.scores.totalScore / record.scores.maxScore) * 100 : 0;
+
+/**
+ * Z-score of each record against its juror's own scores. Jurors with a
+ * single score or no spread get 0, i.e. they are treated as average.
+ */
+export const calculateJurorZScores = (records: JurorScoreRecord[]): Map<JurorScoreRecord, number> => {
+  const byJuror = new Map<string, JurorScoreRecord[]>();
+  records.forEach(record => {
+    byJuror.set(record.jurorId, [...(byJuror.get(record.jurorId) || []), record]);
+  });
+
+  const zScores = new Map<JurorScoreRecord, number>();
+  byJuror.forEach(jurorRecords => {
+    const { mean, standardDeviation } = calculateStats(jurorRecords.map(toPercentage));
+    jurorRecords.forEach(record => {
+      zScores.set(record, standardDeviation > 0 ? (toPercentage(record) - mean) / standardDeviation : 0);
+    });
+  });
+
+  return zScores;
+};
+
+/**
+ * Keep one score per juror per film, preferring the record that appears first
+ * (callers pass records newest first)
+ */
+export const dedupeJurorScores = (records: JurorScoreRecord[]): JurorScoreRecord[] => {
+  const seen = new Set<string>();
+  return records.filter(record => {
+    const key = `${record.submissionId}:${record.jurorId}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+/**
+ * Aggregate scores per film and rank them. Normalized scores are mapped back
+ * onto the percentage scale using the mean and spread of all raw scores, so
+ * both columns read as "out of 100".
+ */
+export const buildLeaderboard = (
+  films: { id: string; filmTitle: string; filmTitleTh?: string }[],
+  records: JurorScoreRecord[],
+  options: LeaderboardOptions
+): LeaderboardEntry[] => {
+  const zScores = calculateJurorZScores(records);
+  const overall = calculateStats(records.map(toPercentage));
+  const rankingValue = (record: JurorScoreRecord) => options.normalize ? zScores.get(record) || 0 : toPercentage(record);
+
+  const entries: LeaderboardEntry[] = films.map(film => {
+    let filmRecords = records.filter(record => record.submissionId === film.id);
+    let droppedCount = 0;
+
+    if (options.dropOutliers && filmRecords.length >= MIN_SCORES_FOR_OUTLIER_DROP) {
+      const sorted = [...filmRecords].sort((a, b) => rankingValue(a) - rankingValue(b));
+      filmRecords = sorted.slice(1, -1);
+      droppedCount = 2;
+    }
+
+    const percentages = filmRecords.map(toPercentage);
+    const { mean: meanPercentage, standardDeviation } = calculateStats(percentages);
+    const meanZ = calculateStats(filmRecords.map(record => zScores.get(record) || 0)).mean;
+
+    const criterionTotals: Record<string, { sum: number; count: number }> = {};
+    filmRecords.forEach(record => {
+      Object.entries(record.scores.values).forEach(([criterionId, value]) => {
+        const total = criterionTotals[criterionId] || { sum: 0, count: 0 };
+        criterionTotals[criterionId] = { sum: total.sum + value, count: total.count + 1 };
+      });
+    });
+
+    const criterionAverages: Record<string, number> = {};
+    Object.entries(criterionTotals).forEach(([criterionId, { sum, count }]) => {
+      criterionAverages[criterionId] = sum / count;
+    });
+
+    return {
+      submissionId: film.id,
+      filmTitle: film.filmTitle,
+      filmTitleTh: film.filmTitleTh,
+      rank: null,
+      scoreCount: filmRecords.length,
+      droppedCount,
+      meanTotal: calculateStats(filmRecords.map(record => record.scores.totalScore)).mean,
+      maxScore: filmRecords[0]?.scores.maxScore || 0,
+      meanPercentage,
+      normalizedScore: filmRecords.length > 0 ? overall.mean + meanZ * overall.standardDeviation : 0,
+      standardDeviation,
+      criterionAverages
+    };
+  });
+
+  const scoreOf = (entry: LeaderboardEntry) => options.normalize ? entry.normalizedScore : entry.meanPercentage;
+  const ranked = entries
+    .filter(entry => entry.scoreCount > 0)
+    .sort((a, b) => scoreOf(b) - scoreOf(a));
+
+  // Standard competition ranking: ties share a rank and the next rank is skipped
+  ranked.forEach((entry, index) => {
+    const previous = ranked[index - 1];
+    entry.rank = previous && Math.abs(scoreOf(previous) - scoreOf(entry)) < 1e-9 ? previous.rank : index + 1;
+  });
+
+  const unscored = entries
+    .filter(entry => entry.scoreCount === 0)
+    .sort((a, b) => a.filmTitle.localeCompare(b.filmTitle));
+
+  return [...ranked, ...unscored];
+};
@@ -0,0 +1,228 @@
+import {
+  AdminApplicationData,
+  RubricCriterion,
+  RubricScores,
+  ScoringRubric
+} from '../types/admin.types';
+
+/**
+ * Utility functions and definitions for jury scoring rubrics
+ */
+
+export type RubricValidationCode = 'missing' | 'out-of-range' | 'comment-required' | 'overall-comment-required';
+
+export interface RubricValidationError {
+  code: RubricValidationCode;
+  criterionId?: string;
+}
+
+// Criteria shared by the current competition rubrics. IDs match the fields of
+// legacy score documents so older scores carry over when a judge edits them.
+const CORE_CRITERIA: RubricCriterion[] = [
+  {
+    id: 'creativity',
+    label: { en: 'Creativity & Originality', th: 'ความคิดสร้างสรรค์และความเป็นต้นฉบับ' },
+    icon: '✨',
+    weight: 1,
+    min: 1,
+    max: 10
+  },
+  {
+    id: 'technical',
+    label: { en: 'Technical Quality', th: 'คุณภาพทางเทคนิค' },
+    icon: '🎬',
+    weight: 1,
+    min: 1,
+    max: 10
+  },
+  {
+    id: 'story',
+    label: { en: 'Story & Narrative', th: 'เรื่องราวและการเล่าเรื่อง' },
+    icon: '📖',
+    weight: 1,
+    min: 1,
+    max: 10
+  },
+  {
+    id: 'chiangmai',
+    label: { en: 'Connection to Chiang Mai', th: 'ความเกี่ยวข้องกับเชียงใหม่' },
+    icon: '🏔️',
+    weight: 1,
+    min: 1,
+    max: 10
+  },
+  {
+    id: 'humanEffort',
+    label: { en: 'Human Effort', th: 'ความพยายามของมนุษย์' },
+    icon: '💪',
+    weight: 1,
+    min: 1,
+    max: 10
+  }
+];
+
+// Scores saved before rubrics existed stored these five fields directly, with
+// the last criterion written as `humanEffort` (or `overall` in some documents)
+export const LEGACY_RUBRIC: ScoringRubric = {
+  id: 'legacy-2025',
+  name: { en: 'Legacy Criteria', th: 'เกณฑ์เดิม' },
+  categories: [],
+  criteria: CORE_CRITERIA
+};
+
+export const SCORING_RUBRICS: ScoringRubric[] = [
+  {
+    id: 'youth-2025',
+    name: { en: 'Youth Fantastic Short Film Award', th: 'รางวัลหนังสั้นแฟนตาสติกเยาวชน' },
+    categories: ['youth'],
+    criteria: CORE_CRITERIA
+  },
+  {
+    id: 'future-2025',
+    name: { en: 'Future Fantastic Short Film Award', th: 'รางวัลหนังสั้นแฟนตาสติกอนาคต' },
+    categories: ['future'],
+    criteria: CORE_CRITERIA
+  },
+  {
+    id: 'world-2025',
+    name: { en: 'World Fantastic Short Film Award', th: 'รางวัลหนังสั้นแฟนตาสติกโลก' },
+    categories: ['world'],
+    criteria: CORE_CRITERIA
+  }
+];
+
+/**
+ * Rubric used to score applications in a competition category
+ */
+export const getRubricForCategory = (category: AdminApplicationData['competitionCategory']): ScoringRubric =>
+  SCORING_RUBRICS.find(rubric => rubric.categories.includes(category)) || SCORING_RUBRICS[0];
+
+/**
+ * Look up a rubric by ID, including the legacy rubric
+ */
+export const getRubricById = (rubricId: string): ScoringRubric | undefined =>
+  [...SCORING_RUBRICS, LEGACY_RUBRIC].find(rubric => rubric.id === rubricId);
+
+/**
+ * Highest possible weighted total for a rubric
+ */
+export const getRubricMaxScore = (rubric: ScoringRubric): number =>
+  rubric.criteria.reduce((sum, criterion) => sum + criterion.max * criterion.weight, 0);
+
+/**
+ * Weighted total of the given criterion values
+ */
+export const calculateRubricTotal = (rubric: ScoringRubric, values: Record<string, number>): number =>
+  rubric.criteria.reduce((sum, criterion) => sum + (values[criterion.id] || 0) * criterion.weight, 0);
+
+/**
+ * Check every criterion is scored within range and that required comments are present
+ */
+export const validateRubricScores = (
+  rubric: ScoringRubric,
+  values: Record<string, number>,
+  criterionComments: Record<string, string> = {},
+  comments = ''
+): RubricValidationError[] => {
+  const errors: RubricValidationError[] = [];
+
+  rubric.criteria.forEach(criterion => {
+    const value = values[criterion.id];
+    if (typeof value !== 'number' || Number.isNaN(value) || (value === 0 && criterion.min > 0)) {
+      errors.push({ code: 'missing', criterionId: criterion.id });
+    } else if (value < criterion.min || value > criterion.max) {
+      errors.push({ code: 'out-of-range', criterionId: criterion.id });
+    }
+
+    if (criterion.commentRequired && !criterionComments[criterion.id]?.trim()) {
+      errors.push({ code: 'comment-required', criterionId: criterion.id });
+    }
+  });
+
+  if (rubric.commentRequired && !comments.trim()) {
+    errors.push({ code: 'overall-comment-required' });
+  }
+
+  return errors;
+};
+
+/**
+ * Build the stored score object, keeping only the rubric's criteria and computing totals
+ */
+export const buildRubricScores = (
+  rubric: ScoringRubric,
+  values: Record<string, number>,
+  criterionComments: Record<string, string> = {}
+): RubricScores => {
+  const rubricValues: Record<string, number> = {};
+  const rubricComments: Record<string, string> = {};
+
+  rubric.criteria.forEach(criterion => {
+    rubricValues[criterion.id] = values[criterion.id] || 0;
+    const comment = criterionComments[criterion.id]?.trim();
+    if (comment) {
+      rubricComments[criterion.id] = comment;
+    }
+  });
+
+  return {
+    rubricId: rubric.id,
+    values: rubricValues,
+    ...(Object.keys(rubricComments).length > 0 && { criterionComments: rubricComments }),
+    totalScore: calculateRubricTotal(rubric, rubricValues),
+    maxScore: getRubricMaxScore(rubric)
+  };
+};
+
+/**
+ * Read a score object from Firestore. Rubric scores are returned as stored;
+ * legacy documents with fixed fields are mapped onto the legacy rubric.
+ */
+export const normalizeStoredScores = (raw: unknown): RubricScores | undefined => {
+  if (!raw || typeof raw !== 'object') return undefined;
+
+  const stored = raw as Record<string, unknown>;
+  const numberField = (key: string): number =>
+    typeof stored[key] === 'number' ? stored[key] as number : 0;
+
+  if (typeof stored.rubricId === 'string' && stored.values && typeof stored.values === 'object') {
+    const rubric = getRubricById(stored.rubricId);
+    const values = stored.values as Record<string, number>;
+    return {
+      rubricId: stored.rubricId,
+      values,
+      criterionComments: stored.criterionComments as Record<string, string> | undefined,
+      totalScore: typeof stored.totalScore === 'number'
+        ? stored.totalScore
+        : rubric ? calculateRubricTotal(rubric, values) : 0,
+      maxScore: numberField('maxScore') || (rubric ? getRubricMaxScore(rubric) : 0)
+    };
+  }
+
+  const values: Record<string, number> = {
+    technical: numberField('technical'),
+    story: numberField('story'),
+    creativity: numberField('creativity'),
+    chiangmai: numberField('chiangmai'),
+    humanEffort: numberField('humanEffort') || numberField('overall')
+  };
+
+  return {
+    rubricId: LEGACY_RUBRIC.id,
+    values,
+    totalScore: numberField('totalScore') || calculateRubricTotal(LEGACY_RUBRIC, values),
+    maxScore: getRubricMaxScore(LEGACY_RUBRIC)
+  };
+};
+
+/**
+ * Plain-text breakdown used as comment content when a judge leaves no comment
+ */
+export const formatScoreSummary = (rubric: ScoringRubric, scores: RubricScores, heading = 'Score Assessment'): string =>
+  [
+    `${heading}: ${scores.totalScore}/${scores.maxScore} points`,
+    ...rubric.criteria.map(criterion => {
+      const weight = criterion.weight !== 1 ? ` (×${criterion.weight})` : '';
+      return `• ${criterion.label.en}: ${scores.values[criterion.id] || 0}/${criterion.max}${weight}`;
+    })
+  ].join('\n');
@@ -0,0 +1,92 @@
+import { DocumentData } from 'firebase/firestore';
+import { thaiWordSegmenter } from './wordSegmenter';
+
+/**
+ * Utility functions for the submission search index. Each submission stores
+ * the prefixes of its searchable text in `searchTokens` so Firestore can
+ * answer prefix searches with a single array-contains query across the whole
+ * collection.
+ */
+
+// Shorter queries would match most of the collection
+export const MIN_SEARCH_LENGTH = 2;
+
+// Longer queries are matched on their first MAX_TOKEN_LENGTH characters
+const MAX_TOKEN_LENGTH = 15;
+
+/**
+ * Lowercase, strip Latin accents and turn punctuation into single spaces.
+ * Thai vowel and tone marks are kept.
+ */
+export const normalizeSearchText = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}]+/gu, ' ')
+    .trim();
+
+/**
+ * Where each word starts, including words inside unspaced Thai runs
+ */
+const getWordStarts = (text: string): number[] => {
+  if (thaiWordSegmenter) {
+    return Array.from(thaiWordSegmenter.segment(text))
+      .filter(segment => text[segment.index] !== ' ')
+      .map(segment => segment.index);
+  }
+  return [0, ...Array.from(text.matchAll(/ /g), match => (match.index ?? 0) + 1)];
+};
+
+/**
+ * Every prefix (up to MAX_TOKEN_LENGTH characters) of the text starting at
+ * each word, so "sunset drive" is found by "sun", "dri" and "sunset d"
+ */
+export const buildSearchTokens = (values: Array<string | null | undefined>): string[] => {
+  const tokens = new Set<string>();
+
+  values.forEach(value => {
+    const text = value ? normalizeSearchText(value) : '';
+    getWordStarts(text).forEach(start => {
+      const end = Math.min(text.length, start + MAX_TOKEN_LENGTH);
+      for (let length = start + MIN_SEARCH_LENGTH; length <= end; length++) {
+        if (text[length - 1] !== ' ') {
+          tokens.add(text.slice(start, length));
+        }
+      }
+    });
+  });
+
+  return Array.from(tokens);
+};
+
+/**
+ * Tokens for titles, submitter and crew names, school or university, email
+ * and application ID. Accepts the stored document or the data about to be
+ * written, so it works for new, edited and restored submissions alike.
+ */
+export const buildSubmissionSearchTokens = (data: DocumentData): string[] =>
+  buildSearchTokens([
+    data.filmTitle,
+    data.filmTitleTh,
+    data.submitterName || data.directorName,
+    data.submitterNameTh || data.directorNameTh,
+    data.submitterEmail || data.directorEmail,
+    data.schoolName,
+    data.universityName,
+    data.applicationId,
+    ...(data.crewMembers || []).flatMap((member: DocumentData) => [
+      member.fullName,
+      member.fullNameTh,
+      member.schoolName
+    ])
+  ]);
+
+/**
+ * The token to look up for a search box value, or null when it is too short
+ * to search on
+ */
+export const getSearchToken = (search: string | undefined): string | null => {
+  const text = normalizeSearchText(search || '').slice(0, MAX_TOKEN_LENGTH).trim();
+  return text.length >= MIN_SEARCH_LENGTH ? text : null;
+};
@@ -0,0 +1,265 @@
+import { DocumentData } from 'firebase/firestore';
+import {
+  AdminApplicationCard,
+  ExportCrewMember,
+  RubricScores,
+  SubmissionExportDetails
+} from '../types/admin.types';
+import { dedupeJurorScores } from './scoreAggregation';
+import { getRubricById, LEGACY_RUBRIC, SCORING_RUBRICS } from './scoringRubrics';
+import {
+  ApplicationExportRow,
+  buildExportTable,
+  ExportColumnDefinition,
+  ExportTable,
+  formatExportRows
+} from './exportColumns';
+import { XlsxSheet } from './xlsxWriter';
+
+/**
+ * Utility functions for turning submission documents into export rows and
+ * files, shared by browser exports and the background export worker
+ */
+
+export interface ExportFilters {
+  dateRange?: {
+    start?: Date;
+    end?: Date;
+  };
+  categories?: string[];
+  statuses?: string[];
+}
+
+// The fields of a ShortFilmComment that scoring exports read
+export interface ScoringCommentSource {
+  adminId: string;
+  adminName: string;
+  content: string;
+  type: string;
+  scores?: RubricScores;
+  createdAt: Date;
+  isDeleted: boolean;
+}
+
+export interface ApplicationSheetOptions {
+  includeScores: boolean;
+  includeNotes: boolean;
+}
+
+/**
+ * Gallery card for a submission document, with the fallbacks older
+ * submissions need
+ */
+export const toAdminApplicationCard = (id: string, data: DocumentData): AdminApplicationCard => ({
+  id,
+  userId: data.userId || '',
+  filmTitle: data.filmTitle || 'Untitled',
+  filmTitleTh: data.filmTitleTh,
+  filmLanguages: data.filmLanguages,
+  directorName: data.submitterName || data.directorName || 'Unknown',
+  directorNameTh: data.submitterNameTh || data.directorNameTh,
+  competitionCategory: data.competitionCategory || data.category || 'youth',
+  status: data.status || 'draft',
+  posterUrl: data.files?.posterFile?.downloadURL || data.files?.posterFile?.url || '',
+  posterThumbnails: data.files?.posterFile?.thumbnails,
+  previewFrames: data.files?.filmFile?.previewFrames,
+  submittedAt: data.submittedAt?.toDate(),
+  createdAt: data.createdAt?.toDate() || new Date(),
+  lastModified: data.lastModified?.toDate() || new Date(),
+  country: data.nationality || 'Unknown',
+  hasScores: data.scores && data.scores.length > 0,
+  averageScore: data.scores && data.scores.length > 0
+    ? data.scores.reduce((sum: number, score: { totalScore?: number }) => sum + (score.totalScore || 0), 0) / data.scores.length
+    : undefined,
+  reviewStatus: data.reviewStatus,
+  genres: data.genres || [],
+  duration: data.duration || 0,
+  format: data.format || 'live-action'
+});
+
+/**
+ * Crew, notes and the latest score from each juror for one submission.
+ * Comments must be newest first so deduping keeps each juror's latest score.
+ */
+export const toSubmissionExportDetails = (
+  submissionId: string,
+  data: DocumentData,
+  comments: ScoringCommentSource[]
+): SubmissionExportDetails => {
+  const crewMembers: ExportCrewMember[] = (data.crewMembers || []).map((member: Partial<ExportCrewMember>) => ({
+    fullName: member.fullName || '',
+    fullNameTh: member.fullNameTh || undefined,
+    role: member.role || '',
+    customRole: member.customRole || undefined,
+    age: typeof member.age === 'number' ? member.age : undefined,
+    phone: member.phone || undefined,
+    email: member.email || undefined
+  }));
+
+  const scoringComments = comments.filter(comment =>
+    comment.type === 'scoring' && comment.scores && !comment.isDeleted
+  );
+  const latest = dedupeJurorScores(scoringComments.flatMap(comment => comment.scores ? [{
+    submissionId,
+    jurorId: comment.adminId,
+    jurorName: comment.adminName,
+    scores: comment.scores
+  }] : []));
+
+  return {
+    submissionId,
+    synopsis: data.synopsis || '',
+    crewMembers,
+    adminNotes: data.adminNotes || '',
+    flagged: data.flagged || false,
+    flagReason: data.flagReason,
+    jurorScores: latest.map(record => {
+      const comment = scoringComments.find(candidate => candidate.adminId === record.jurorId);
+      return {
+        ...record,
+        comment: comment?.content || '',
+        scoredAt: comment?.createdAt || new Date()
+      };
+    })
+  };
+};
+
+export const filterExportApplications = (
+  applications: AdminApplicationCard[],
+  filters: ExportFilters
+): AdminApplicationCard[] => {
+  const { categories, statuses, dateRange } = filters;
+
+  return applications.filter(app => {
+    if (categories && categories.length > 0 && !categories.includes(app.competitionCategory)) return false;
+    if (statuses && statuses.length > 0 && !statuses.includes(app.status)) return false;
+    if (dateRange) {
+      const appDate = app.submittedAt || app.createdAt;
+      if (dateRange.start && appDate < dateRange.start) return false;
+      if (dateRange.end && appDate > dateRange.end) return false;
+    }
+    return true;
+  });
+};
+
+/**
+ * CSV text with every cell quoted, prefixed with a byte order mark so Excel
+ * opens Thai text as UTF-8
+ */
+export const buildCsv = (table: ExportTable): string => {
+  const escapeCell = (value: string) => `"${value.replace(/"/g, '""')}"`;
+  return '\ufeff' + [
+    table.columns.map(column => escapeCell(column.header)).join(','),
+    ...formatExportRows(table).map(row => row.map(escapeCell).join(','))
+  ].join('\n');
+};
+
+const buildCrewSheet = (rows: ApplicationExportRow[]): XlsxSheet => ({
+  name: 'Crew Members',
+  columns: [
+    { header: 'Application ID' },
+    { header: 'Film Title (EN)' },
+    { header: 'Name' },
+    { header: 'Name (TH)' },
+    { header: 'Role' },
+    { header: 'Age' },
+    { header: 'Phone' },
+    { header: 'Email' }
+  ],
+  rows: rows.flatMap(({ application: app, details }) =>
+    (details?.crewMembers || []).map(member => [
+      app.id,
+      app.filmTitle,
+      member.fullName,
+      member.fullNameTh,
+      member.customRole ? `${member.role} (${member.customRole})` : member.role,
+      member.age,
+      member.phone,
+      member.email
+    ])
+  )
+});
+
+/**
+ * One row per juror per film, with a column for every criterion used by
+ * any rubric so films scored on different rubrics line up
+ */
+const buildJurorScoresSheet = (rows: ApplicationExportRow[]): XlsxSheet => {
+  const criteria = [...SCORING_RUBRICS, LEGACY_RUBRIC]
+    .flatMap(rubric => rubric.criteria)
+    .filter((criterion, index, all) => all.findIndex(other => other.id === criterion.id) === index);
+
+  return {
+    name: 'Juror Scores',
+    columns: [
+      { header: 'Application ID' },
+      { header: 'Film Title (EN)' },
+      { header: 'Category' },
+      { header: 'Juror' },
+      { header: 'Rubric' },
+      ...criteria.map(criterion => ({ header: criterion.label.en })),
+      { header: 'Total' },
+      { header: 'Max Score' },
+      { header: 'Percentage', format: 'decimal' },
+      { header: 'Scored At', format: 'datetime' },
+      { header: 'Comment', format: 'wrap' }
+    ],
+    rows: rows.flatMap(({ application: app, details }) =>
+      (details?.jurorScores || []).map(score => [
+        app.id,
+        app.filmTitle,
+        app.competitionCategory,
+        score.jurorName,
+        getRubricById(score.scores.rubricId)?.name.en || score.scores.rubricId,
+        ...criteria.map(criterion => score.scores.values[criterion.id]),
+        score.scores.totalScore,
+        score.scores.maxScore,
+        score.scores.maxScore > 0 ? (score.scores.totalScore / score.scores.maxScore) * 100 : null,
+        score.scoredAt,
+        score.comment
+      ])
+    )
+  };
+};
+
+const buildAdminNotesSheet = (rows: ApplicationExportRow[]): XlsxSheet => ({
+  name: 'Admin Notes',
+  columns: [
+    { header: 'Application ID' },
+    { header: 'Film Title (EN)' },
+    { header: 'Status' },
+    { header: 'Flagged' },
+    { header: 'Flag Reason', format: 'wrap' },
+    { header: 'Notes', format: 'wrap' }
+  ],
+  rows: rows.map(({ application: app, details }) => [
+    app.id,
+    app.filmTitle,
+    app.status,
+    details?.flagged || false,
+    details?.flagReason,
+    details?.adminNotes
+  ])
+});
+
+/**
+ * Workbook sheets for an applications export: the chosen columns, crew
+ * members and, when requested, per-juror scores and admin notes
+ */
+export const buildApplicationSheets = (
+  rows: ApplicationExportRow[],
+  columns: ExportColumnDefinition<ApplicationExportRow>[],
+  options: ApplicationSheetOptions
+): XlsxSheet[] => {
+  const sheets: XlsxSheet[] = [
+    { name: 'Submissions', ...buildExportTable(columns, rows) },
+    buildCrewSheet(rows)
+  ];
+  if (options.includeScores) {
+    sheets.push(buildJurorScoresSheet(rows));
+  }
+  if (options.includeNotes) {
+    sheets.push(buildAdminNotesSheet(rows));
+  }
+  return sheets;
+};
@@ -0,0 +1,185 @@
+import { DocumentData } from 'firebase/firestore';
+import {
+  SnapshotField,
+  SubmissionSnapshot,
+  SubmissionVersionDiff,
+  VersionCrewChange,
+  VersionCrewMember,
+  VersionFile,
+  VersionFileType
+} from '../types/submissionVersion.types';
+
+/**
+ * Utility functions for submission version snapshots and diffs
+ */
+
+// Scalar and list fields compared between versions, in form order
+export const SNAPSHOT_FIELDS: SnapshotField[] = [
+  'filmTitle',
+  'filmTitleTh',
+  'filmLanguages',
+  'genres',
+  'format',
+  'duration',
+  'synopsis',
+  'chiangmaiConnection',
+  'submitterName',
+  'submitterNameTh',
+  'submitterAge',
+  'submitterPhone',
+  'submitterEmail',
+  'submitterRole',
+  'submitterCustomRole',
+  'schoolName',
+  'studentId',
+  'universityName',
+  'faculty',
+  'universityId'
+];
+
+export const VERSION_FILE_TYPES: VersionFileType[] = ['filmFile', 'posterFile', 'proofFile'];
+
+const CREW_FIELDS: Array<keyof VersionCrewMember> = [
+  'fullNameTh', 'role', 'customRole', 'age', 'phone', 'email', 'schoolName', 'studentId'
+];
+
+const toText = (value: unknown): string | null =>
+  value === undefined || value === null || value === '' ? null : String(value);
+
+const toNumber = (value: unknown): number | null => {
+  const parsed = typeof value === 'number' ? value : parseInt(String(value ?? ''));
+  return isNaN(parsed) ? null : parsed;
+};
+
+const toVersionFile = (file: Record<string, unknown> | null | undefined): VersionFile | null => {
+  const downloadURL = toText(file?.downloadURL ?? file?.url);
+  if (!file || !downloadURL) {
+    return null;
+  }
+  return {
+    fileName: toText(file.fileName ?? file.name) || '',
+    fileSize: toNumber(file.fileSize ?? file.size) || 0,
+    downloadURL,
+    storagePath: toText(file.storagePath) || ''
+  };
+};
+
+/**
+ * Normalize stored submission data (or the edit form's update data) into a snapshot
+ */
+export const toSubmissionSnapshot = (data: DocumentData): SubmissionSnapshot => ({
+  filmTitle: data.filmTitle || '',
+  filmTitleTh: toText(data.filmTitleTh),
+  filmLanguages: data.filmLanguages || (data.filmLanguage ? [data.filmLanguage] : []),
+  genres: data.genres || [],
+  format: data.format || '',
+  duration: toNumber(data.duration),
+  synopsis: data.synopsis || '',
+  chiangmaiConnection: toText(data.chiangmaiConnection),
+  submitterName: toText(data.submitterName ?? data.directorName),
+  submitterNameTh: toText(data.submitterNameTh ?? data.directorNameTh),
+  submitterAge: toNumber(data.submitterAge ?? data.directorAge),
+  submitterPhone: toText(data.submitterPhone ?? data.directorPhone),
+  submitterEmail: toText(data.submitterEmail ?? data.directorEmail),
+  submitterRole: toText(data.submitterRole ?? data.directorRole),
+  submitterCustomRole: toText(data.submitterCustomRole ?? data.directorCustomRole),
+  schoolName: toText(data.schoolName),
+  studentId: toText(data.studentId),
+  universityName: toText(data.universityName),
+  faculty: toText(data.faculty),
+  universityId: toText(data.universityId),
+  crewMembers: (data.crewMembers || []).map((member: DocumentData) => ({
+    id: toText(member.id),
+    fullName: member.fullName || '',
+    fullNameTh: toText(member.fullNameTh),
+    role: member.role || '',
+    customRole: toText(member.customRole),
+    age: toNumber(member.age),
+    phone: toText(member.phone),
+    email: toText(member.email),
+    schoolName: toText(member.schoolName),
+    studentId: toText(member.studentId)
+  })),
+  files: {
+    filmFile: toVersionFile(data.files?.filmFile),
+    posterFile: toVersionFile(data.files?.posterFile),
+    proofFile: toVersionFile(data.files?.proofFile)
+  }
+});
+
+/**
+ * Display form of a snapshot field value
+ */
+export const formatSnapshotValue = (value: SubmissionSnapshot[SnapshotField]): string => {
+  if (Array.isArray(value)) {
+    return value.join(', ');
+  }
+  return value === null ? '' : String(value);
+};
+
+// Crew members are matched across versions by name, since older saves carry no IDs
+const crewKey = (member: { fullName?: string }) => (member.fullName || '').trim().toLowerCase();
+
+/**
+ * Field-level differences between two snapshots
+ */
+export const diffSnapshots = (before: SubmissionSnapshot, after: SubmissionSnapshot): SubmissionVersionDiff => {
+  const fields = SNAPSHOT_FIELDS
+    .map(field => ({
+      field,
+      before: formatSnapshotValue(before[field]),
+      after: formatSnapshotValue(after[field])
+    }))
+    .filter(change => change.before !== change.after);
+
+  const beforeCrew = new Map(before.crewMembers.map(member => [crewKey(member), member]));
+  const afterCrew = new Map(after.crewMembers.map(member => [crewKey(member), member]));
+  const crew: VersionCrewChange[] = [];
+
+  beforeCrew.forEach((member, key) => {
+    const next = afterCrew.get(key);
+    if (!next) {
+      crew.push({ type: 'removed', before: member });
+    } else if (CREW_FIELDS.some(field => member[field] !== next[field])) {
+      crew.push({ type: 'changed', before: member, after: next });
+    }
+  });
+  afterCrew.forEach((member, key) => {
+    if (!beforeCrew.has(key)) {
+      crew.push({ type: 'added', after: member });
+    }
+  });
+
+  const files = VERSION_FILE_TYPES
+    .map(fileType => ({ fileType, before: before.files[fileType], after: after.files[fileType] }))
+    .filter(change => change.before?.downloadURL !== change.after?.downloadURL);
+
+  return { fields, crew, files };
+};
+
+export const isEmptyVersionDiff = (diff: SubmissionVersionDiff): boolean =>
+  diff.fields.length === 0 && diff.crew.length === 0 && diff.files.length === 0;
+
+// Versions saved before crew IDs and school details were kept take them from
+// the matching member of the current crew
+const toRestoredCrewMember = (member: VersionCrewMember, index: number, currentCrew: DocumentData[]) => {
+  const stored = currentCrew.find(current => member.id
+    ? current.id === member.id
+    : crewKey(current) === crewKey(member));
+  return {
+    ...member,
+    id: member.id ?? stored?.id ?? `${Date.now()}-${index}`,
+    schoolName: member.schoolName ?? stored?.schoolName ?? '',
+    studentId: member.studentId ?? stored?.studentId ?? ''
+  };
+};
+
+/**
+ * Submission fields written back when a version is restored onto a submission
+ * with the given crew. Files are left as they are: a replaced file is deleted
+ * from storage, so an older version's file links may no longer resolve.
+ */
+export const getRestoreData = (snapshot: SubmissionSnapshot, currentCrew: DocumentData[] = []) => ({
+  ...Object.fromEntries(SNAPSHOT_FIELDS.map(field => [field, snapshot[field]])),
+  crewMembers: snapshot.crewMembers.map((member, index) => toRestoredCrewMember(member, index, currentCrew))
+});
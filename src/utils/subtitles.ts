@@ -0,0 +1,205 @@
+import {
+  SubtitleCue,
+  SubtitleFormat,
+  SubtitleParseResult,
+  SubtitleValidationIssue
+} from '../types/subtitle.types';
+import { SUBTITLE_FILE, SUBTITLE_LANGUAGES } from './formConstants';
+
+/**
+ * Utility functions for reading, validating and converting SRT and WebVTT
+ * subtitle files
+ */
+
+// Only the first few problems are listed; the rest are summarised in one line
+const MAX_REPORTED_ISSUES = 10;
+
+// "01:02:03,456" (SRT), "01:02:03.456" or "02:03.456" (WebVTT)
+const TIMESTAMP_PATTERN = /^(?:(\d+):)?([0-5]\d):([0-5]\d)[,.](\d{3})$/;
+
+// WebVTT blocks that are not cues
+const VTT_NON_CUE_BLOCKS = /^(NOTE|STYLE|REGION)(\s|$)/;
+
+const issue = (
+  severity: SubtitleValidationIssue['severity'],
+  th: string,
+  en: string,
+  cueNumber?: number
+): SubtitleValidationIssue => ({ severity, cueNumber, message: { th, en } });
+
+const parseTimestamp = (value: string): number | null => {
+  const match = TIMESTAMP_PATTERN.exec(value.trim());
+  if (!match) return null;
+  const [, hours, minutes, seconds, millis] = match;
+  return (parseInt(hours || '0') * 3600) + (parseInt(minutes) * 60) + parseInt(seconds) + (parseInt(millis) / 1000);
+};
+
+/**
+ * "01:02:03.456" timestamp used in WebVTT files
+ */
+export const formatVttTimestamp = (seconds: number): string => {
+  const totalMillis = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMillis / 3600000);
+  const minutes = Math.floor((totalMillis % 3600000) / 60000);
+  const secs = Math.floor((totalMillis % 60000) / 1000);
+  const millis = totalMillis % 1000;
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}.${millis.toString().padStart(3, '0')}`;
+};
+
+/**
+ * Subtitle format from a file name, or null for anything other than .srt/.vtt
+ */
+export const getSubtitleFormat = (fileName: string): SubtitleFormat | null => {
+  const extension = fileName.split('.').pop()?.toLowerCase() || '';
+  return SUBTITLE_FILE.extensions.includes(extension) ? (extension as SubtitleFormat) : null;
+};
+
+/**
+ * Parses SRT or WebVTT text into cues and checks their timing. Cues ending
+ * after the film are reported as warnings when its duration is known.
+ */
+export const parseSubtitles = (
+  text: string,
+  format: SubtitleFormat,
+  filmDurationSeconds?: number | null
+): SubtitleParseResult => {
+  const errors: SubtitleValidationIssue[] = [];
+  const warnings: SubtitleValidationIssue[] = [];
+  const cues: SubtitleCue[] = [];
+
+  const normalized = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').trim();
+  let blocks = normalized.split(/\n[ \t]*\n/).map(block => block.trim()).filter(Boolean);
+
+  if (format === 'vtt') {
+    if (!/^WEBVTT(\s|$)/.test(blocks[0] || '')) {
+      errors.push(issue('error', 'ไฟล์ VTT ต้องขึ้นต้นด้วย "WEBVTT"', 'VTT files must start with "WEBVTT"'));
+      return { format, cues, errors, warnings };
+    }
+    blocks = blocks.slice(1).filter(block => !VTT_NON_CUE_BLOCKS.test(block));
+  }
+
+  let lastStart = 0;
+  let cuesAfterFilm = 0;
+
+  blocks.forEach((block, index) => {
+    const cueNumber = index + 1;
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(line => line.includes('-->'));
+
+    if (timingIndex === -1) {
+      errors.push(issue('error', `คำบรรยายที่ ${cueNumber} ไม่มีบรรทัดเวลา`, `Cue ${cueNumber} has no timing line`, cueNumber));
+      return;
+    }
+
+    const [startPart, endAndSettings = ''] = lines[timingIndex].split('-->');
+    const [endPart = '', ...settings] = endAndSettings.trim().split(/\s+/);
+    const startSeconds = parseTimestamp(startPart);
+    const endSeconds = parseTimestamp(endPart);
+
+    if (startSeconds === null || endSeconds === null) {
+      errors.push(issue('error', `คำบรรยายที่ ${cueNumber} มีรูปแบบเวลาไม่ถูกต้อง`, `Cue ${cueNumber} has an invalid timestamp`, cueNumber));
+      return;
+    }
+    if (endSeconds <= startSeconds) {
+      errors.push(issue('error', `คำบรรยายที่ ${cueNumber} สิ้นสุดก่อนหรือพร้อมกับเวลาเริ่ม`, `Cue ${cueNumber} ends before it starts`, cueNumber));
+    }
+    if (startSeconds < lastStart) {
+      errors.push(issue('error', `คำบรรยายที่ ${cueNumber} เรียงลำดับเวลาไม่ถูกต้อง`, `Cue ${cueNumber} starts before the previous cue`, cueNumber));
+    }
+    lastStart = Math.max(lastStart, startSeconds);
+
+    // SRT formatting tags such as {\an8} have no WebVTT equivalent
+    const cueText = lines.slice(timingIndex + 1).join('\n').replace(/\{\\[^}]*\}/g, '').trim();
+    if (!cueText) {
+      warnings.push(issue('warning', `คำบรรยายที่ ${cueNumber} ไม่มีข้อความ`, `Cue ${cueNumber} has no text`, cueNumber));
+    }
+
+    if (filmDurationSeconds && endSeconds > filmDurationSeconds + 1) {
+      cuesAfterFilm++;
+    }
+
+    cues.push({
+      startSeconds,
+      endSeconds,
+      text: cueText,
+      settings: format === 'vtt' && settings.length > 0 ? settings.join(' ') : undefined
+    });
+  });
+
+  if (blocks.length === 0) {
+    errors.push(issue('error', 'ไม่พบคำบรรยายในไฟล์', 'No subtitle cues found in the file'));
+  }
+
+  if (cuesAfterFilm > 0) {
+    warnings.push(issue(
+      'warning',
+      `มีคำบรรยาย ${cuesAfterFilm} รายการที่แสดงหลังภาพยนตร์จบ`,
+      `${cuesAfterFilm} cue(s) end after the film does`
+    ));
+  }
+
+  if (errors.length > MAX_REPORTED_ISSUES) {
+    const hidden = errors.length - MAX_REPORTED_ISSUES;
+    errors.splice(MAX_REPORTED_ISSUES, hidden, issue('error', `และอีก ${hidden} ข้อผิดพลาด`, `and ${hidden} more error(s)`));
+  }
+
+  return { format, cues, errors, warnings };
+};
+
+/**
+ * Reads a picked subtitle file and parses it, rejecting other file types
+ * and files over the size limit
+ */
+export const readSubtitleFile = async (
+  file: File,
+  filmDurationSeconds?: number | null
+): Promise<SubtitleParseResult> => {
+  const format = getSubtitleFormat(file.name);
+  if (!format) {
+    return {
+      format: null,
+      cues: [],
+      errors: [issue('error', 'รองรับเฉพาะไฟล์ .srt และ .vtt', 'Only .srt and .vtt files are supported')],
+      warnings: []
+    };
+  }
+
+  if (file.size > SUBTITLE_FILE.maxSize) {
+    const maxSizeMB = SUBTITLE_FILE.maxSize / (1024 * 1024);
+    return {
+      format,
+      cues: [],
+      errors: [issue('error', `ไฟล์คำบรรยายต้องมีขนาดไม่เกิน ${maxSizeMB}MB`, `Subtitle files must be ${maxSizeMB}MB or smaller`)],
+      warnings: []
+    };
+  }
+
+  return parseSubtitles(await file.text(), format, filmDurationSeconds);
+};
+
+/**
+ * WebVTT text for a list of cues
+ */
+export const toWebVtt = (cues: SubtitleCue[]): string => {
+  const body = cues.map((cue, index) => {
+    const timing = `${formatVttTimestamp(cue.startSeconds)} --> ${formatVttTimestamp(cue.endSeconds)}`;
+    // "-->" in cue text would be read as another timing line
+    const text = cue.text.replace(/-->/g, '--&gt;');
+    return `${index + 1}\n${timing}${cue.settings ? ` ${cue.settings}` : ''}\n${text}`;
+  });
+  return `WEBVTT\n\n${body.join('\n\n')}\n`;
+};
+
+/**
+ * Subtitle language name for display, falling back to the stored code
+ */
+export const getSubtitleLanguageLabel = (code: string, language: 'th' | 'en'): string => {
+  return SUBTITLE_LANGUAGES.find(option => option.code === code)?.label[language] || code;
+};
+
+/**
+ * Subtitle language matching a film language name, e.g. "Thai" -> "th"
+ */
+export const getSubtitleLanguageForFilmLanguage = (filmLanguage: string): string | null => {
+  return SUBTITLE_LANGUAGES.find(option => option.filmLanguage === filmLanguage)?.code || null;
+};
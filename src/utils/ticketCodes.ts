@@ -0,0 +1,89 @@
+/**
+ * Utility functions for activity ticket QR payloads
+ *
+ * A ticket payload has the form `CIFAN-TICKET:1:<activityId>:<userId>:<signature>`.
+ * The signature is an HMAC-SHA256 of `<activityId>:<userId>` keyed with a random
+ * per-registration secret, so a payload cannot be forged for someone else's registration.
+ */
+
+const TICKET_PREFIX = 'CIFAN-TICKET';
+const TICKET_VERSION = '1';
+
+export interface ParsedTicketPayload {
+  activityId: string;
+  userId: string;
+  signature: string;
+}
+
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+
+/**
+ * Generate a random signing secret for a new registration
+ */
+export const generateTicketSecret = (): string => {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  return toHex(bytes.buffer);
+};
+
+/**
+ * Sign a ticket with the registration's secret
+ */
+export const signTicket = async (activityId: string, userId: string, secret: string): Promise<string> => {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${activityId}:${userId}`));
+  return toHex(signature);
+};
+
+/**
+ * Build the string encoded into the QR code
+ */
+export const buildTicketPayload = (activityId: string, userId: string, signature: string): string =>
+  [TICKET_PREFIX, TICKET_VERSION, activityId, userId, signature].join(':');
+
+/**
+ * Parse a scanned QR payload; returns null when the text is not a ticket payload
+ */
+export const parseTicketPayload = (raw: string): ParsedTicketPayload | null => {
+  const parts = raw.trim().split(':');
+  if (parts.length !== 5 || parts[0] !== TICKET_PREFIX || parts[1] !== TICKET_VERSION) {
+    return null;
+  }
+
+  const [, , activityId, userId, signature] = parts;
+  if (!activityId || !userId || !/^[0-9a-f]{64}$/.test(signature)) {
+    return null;
+  }
+
+  return { activityId, userId, signature };
+};
+
+/**
+ * Short human-readable code derived from the signature, e.g. "7F3A-09C2"
+ */
+export const getTicketShortCode = (signature: string): string => {
+  const code = signature.slice(0, 8).toUpperCase();
+  return `${code.slice(0, 4)}-${code.slice(4)}`;
+};
+
+/**
+ * Normalize a typed short code so "7f3a 09c2" and "7F3A-09C2" match.
+ * Returns null when the input cannot be a short code.
+ */
+export const normalizeTicketShortCode = (input: string): string | null => {
+  const code = input.replace(/[\s-]/g, '').toUpperCase();
+  if (!/^[0-9A-F]{8}$/.test(code)) {
+    return null;
+  }
+  return `${code.slice(0, 4)}-${code.slice(4)}`;
+};
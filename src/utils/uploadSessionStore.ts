@@ -0,0 +1,84 @@
+/**
+ * Utility functions persisting resumable upload sessions in IndexedDB, so an
+ * interrupted upload can continue after the page is reloaded
+ */
+
+const DB_NAME = 'cifan-uploads';
+const DB_VERSION = 1;
+const SESSIONS_STORE = 'sessions';
+
+export interface UploadSession {
+  id: string; // Resume key plus file fingerprint
+  resumeKey: string; // What the upload is for, e.g. "{applicationId}/filmFile"
+  storagePath: string;
+  uploadUrl: string;
+  fileName: string;
+  fileSize: number;
+  fileType: string;
+  fileLastModified: number;
+  bytesUploaded: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Identity of a session for a file: the same file re-selected after a reload
+ * has the same name, size and modification time
+ */
+export const getUploadSessionId = (resumeKey: string, file: Pick<File, 'name' | 'size' | 'lastModified'>): string =>
+  `${resumeKey}:${file.name}:${file.size}:${file.lastModified}`;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+      store.createIndex('resumeKey', 'resumeKey', { unique: false });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const database = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = operation(database.transaction(SESSIONS_STORE, mode).objectStore(SESSIONS_STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    database.close();
+  }
+};
+
+export const getUploadSession = async (id: string): Promise<UploadSession | undefined> =>
+  runRequest('readonly', store => store.get(id) as IDBRequest<UploadSession | undefined>);
+
+export const saveUploadSession = async (session: UploadSession): Promise<void> => {
+  await runRequest('readwrite', store => store.put(session));
+};
+
+export const deleteUploadSession = async (id: string): Promise<void> => {
+  await runRequest('readwrite', store => store.delete(id));
+};
+
+/**
+ * Sessions left unfinished for one upload target, most recent first
+ */
+export const getUploadSessionsForKey = async (resumeKey: string): Promise<UploadSession[]> => {
+  const sessions = await runRequest(
+    'readonly',
+    store => store.index('resumeKey').getAll(resumeKey) as IDBRequest<UploadSession[]>
+  );
+  return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+};
@@ -12,6 +12,14 @@ export const isAdminUser = (userProfile: UserProfile | null): boolean => {
   return userProfile.role === 'admin' || userProfile.role === 'super-admin';
 };
 
+/**
+ * Check if a user is a juror
+ */
+export const isJuryUser = (userProfile: UserProfile | null): boolean => {
+  if (!userProfile) return false;
+  return userProfile.role === 'jury';
+};
+
 /**
  * Check if a user profile is complete based on actual field values
  * Admin users are always considered to have complete profiles
@@ -61,6 +69,10 @@ export const getPostAuthRedirectPath = (userProfile: UserProfile | null, fallbac
     return '#admin/dashboard';
   }
   
+  if (isJuryUser(userProfile)) {
+    return '#admin/jury-queue';
+  }
+  
   return fallback;
 };
 
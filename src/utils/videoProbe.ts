@@ -0,0 +1,398 @@
+import {
+  VideoCategory,
+  VideoCheck,
+  VideoTechnicalMetadata,
+  VideoValidationIssue,
+  VideoValidationResult
+} from '../types/video.types';
+import {
+  DURATION_LIMITS,
+  VIDEO_ASPECT_RATIOS,
+  VIDEO_PREFERRED_CODECS,
+  VIDEO_TECHNICAL_RULES
+} from './formConstants';
+
+/**
+ * Utility functions for reading technical metadata from MP4/MOV files in the
+ * browser and checking it against the category rules
+ */
+
+// The movie header is usually a few MB; anything far larger is not a real one
+const MAX_MOOV_SIZE = 64 * 1024 * 1024;
+
+// Boxes holding the track details we read, nested as moov > trak > mdia > minf > stbl
+const CONTAINER_BOXES = ['moov', 'trak', 'mdia', 'minf', 'stbl'];
+
+const KNOWN_ASPECT_RATIOS = [
+  { label: '16:9', value: 16 / 9 },
+  { label: '1.85:1', value: 1.85 },
+  { label: '2.39:1', value: 2.39 },
+  { label: '2:1', value: 2 },
+  { label: '4:3', value: 4 / 3 },
+  { label: '1:1', value: 1 },
+  { label: '9:16', value: 9 / 16 },
+  { label: '4:5', value: 4 / 5 }
+];
+
+// Ratios within this fraction of a known ratio are labelled with it
+const ASPECT_RATIO_TOLERANCE = 0.03;
+
+export const VIDEO_CODEC_LABELS: { [code: string]: string } = {
+  avc1: 'H.264',
+  avc3: 'H.264',
+  hvc1: 'HEVC (H.265)',
+  hev1: 'HEVC (H.265)',
+  mp4v: 'MPEG-4 Part 2',
+  av01: 'AV1',
+  vp09: 'VP9',
+  apch: 'ProRes 422 HQ',
+  apcn: 'ProRes 422',
+  apcs: 'ProRes 422 LT',
+  apco: 'ProRes 422 Proxy',
+  ap4h: 'ProRes 4444',
+  ap4x: 'ProRes 4444 XQ',
+  mp4a: 'AAC',
+  'ac-3': 'Dolby Digital',
+  lpcm: 'PCM',
+  sowt: 'PCM',
+  twos: 'PCM'
+};
+
+interface BoxHeader {
+  type: string;
+  start: number;
+  headerSize: number;
+  size: number;
+}
+
+interface TrackInfo {
+  handler: string | null;
+  codec: string | null;
+  width: number;
+  height: number;
+  timescale: number;
+  duration: number;
+  sampleCount: number;
+}
+
+const readType = (view: DataView, offset: number): string =>
+  String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3)
+  );
+
+const readUint64 = (view: DataView, offset: number): number =>
+  view.getUint32(offset) * 0x100000000 + view.getUint32(offset + 4);
+
+/**
+ * Header of the box at an offset; size 1 means a 64-bit size follows and
+ * size 0 means the box runs to the end of its parent
+ */
+const readBoxHeader = (view: DataView, offset: number, end: number): BoxHeader | null => {
+  if (offset + 8 > end) return null;
+
+  let size = view.getUint32(offset);
+  let headerSize = 8;
+  if (size === 1) {
+    if (offset + 16 > end) return null;
+    size = readUint64(view, offset + 8);
+    headerSize = 16;
+  } else if (size === 0) {
+    size = end - offset;
+  }
+  if (size < headerSize) return null;
+
+  return { type: readType(view, offset + 4), start: offset, headerSize, size };
+};
+
+const readFileSlice = async (file: File, start: number, end: number): Promise<DataView> =>
+  new DataView(await file.slice(start, end).arrayBuffer());
+
+/**
+ * Locate the top-level ftyp and moov boxes without reading the media data
+ */
+const findTopLevelBoxes = async (file: File): Promise<{ brand: string | null; moov: DataView | null }> => {
+  let offset = 0;
+  let brand: string | null = null;
+
+  while (offset + 8 <= file.size) {
+    const header = readBoxHeader(await readFileSlice(file, offset, offset + 16), 0, file.size - offset);
+    if (!header) break;
+
+    if (header.type === 'ftyp') {
+      const ftyp = await readFileSlice(file, offset + header.headerSize, offset + header.headerSize + 4);
+      brand = readType(ftyp, 0);
+    } else if (header.type === 'moov') {
+      if (header.size > MAX_MOOV_SIZE) break;
+      return { brand, moov: await readFileSlice(file, offset, offset + header.size) };
+    }
+    offset += header.size;
+  }
+
+  return { brand, moov: null };
+};
+
+const readTrack = (view: DataView, start: number, end: number, track: TrackInfo) => {
+  let offset = start;
+  while (offset < end) {
+    const box = readBoxHeader(view, offset, end);
+    if (!box) break;
+    const content = box.start + box.headerSize;
+    const boxEnd = box.start + box.size;
+
+    if (CONTAINER_BOXES.includes(box.type)) {
+      readTrack(view, content, boxEnd, track);
+    } else if (box.type === 'tkhd') {
+      // Width and height are the last two 16.16 fixed-point fields
+      track.width = Math.round(view.getUint32(boxEnd - 8) / 65536);
+      track.height = Math.round(view.getUint32(boxEnd - 4) / 65536);
+    } else if (box.type === 'mdhd') {
+      const version = view.getUint8(content);
+      track.timescale = view.getUint32(content + (version === 1 ? 20 : 12));
+      track.duration = version === 1 ? readUint64(view, content + 24) : view.getUint32(content + 16);
+    } else if (box.type === 'hdlr') {
+      track.handler = readType(view, content + 8);
+    } else if (box.type === 'stsd') {
+      // First sample entry: 4 bytes version/flags, 4 entry count, 4 entry size, then its format
+      track.codec = readType(view, content + 12);
+    } else if (box.type === 'stsz') {
+      track.sampleCount = view.getUint32(content + 8);
+    }
+    offset = boxEnd;
+  }
+};
+
+/**
+ * Read duration, dimensions and codecs from the movie header (moov box)
+ */
+const parseMovieHeader = (moov: DataView): Omit<VideoTechnicalMetadata, 'aspectRatio' | 'container'> | null => {
+  const root = readBoxHeader(moov, 0, moov.byteLength);
+  if (!root) return null;
+
+  let durationSeconds = 0;
+  const tracks: TrackInfo[] = [];
+  let offset = root.headerSize;
+
+  while (offset < moov.byteLength) {
+    const box = readBoxHeader(moov, offset, moov.byteLength);
+    if (!box) break;
+    const content = box.start + box.headerSize;
+
+    if (box.type === 'mvhd') {
+      const version = moov.getUint8(content);
+      const timescale = moov.getUint32(content + (version === 1 ? 20 : 12));
+      const duration = version === 1 ? readUint64(moov, content + 24) : moov.getUint32(content + 16);
+      durationSeconds = timescale > 0 ? duration / timescale : 0;
+    } else if (box.type === 'trak') {
+      const track: TrackInfo = { handler: null, codec: null, width: 0, height: 0, timescale: 0, duration: 0, sampleCount: 0 };
+      readTrack(moov, content, box.start + box.size, track);
+      tracks.push(track);
+    }
+    offset = box.start + box.size;
+  }
+
+  const video = tracks.find(track => track.handler === 'vide');
+  const audio = tracks.find(track => track.handler === 'soun');
+  if (!video) return null;
+
+  const videoSeconds = video.timescale > 0 ? video.duration / video.timescale : 0;
+
+  return {
+    durationSeconds: durationSeconds || videoSeconds,
+    width: video.width,
+    height: video.height,
+    videoCodec: video.codec,
+    audioCodec: audio?.codec || null,
+    frameRate: videoSeconds > 0 && video.sampleCount > 0
+      ? Math.round((video.sampleCount / videoSeconds) * 100) / 100
+      : null
+  };
+};
+
+/**
+ * Duration and dimensions as decoded by the browser, for files whose header
+ * cannot be parsed directly
+ */
+const readWithVideoElement = (file: File): Promise<{ durationSeconds: number; width: number; height: number }> => {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.preload = 'metadata';
+
+    video.onloadedmetadata = () => {
+      window.URL.revokeObjectURL(video.src);
+      resolve({ durationSeconds: video.duration, width: video.videoWidth, height: video.videoHeight });
+    };
+
+    video.onerror = () => {
+      window.URL.revokeObjectURL(video.src);
+      reject(new Error('Failed to load video metadata'));
+    };
+
+    video.src = URL.createObjectURL(file);
+  });
+};
+
+/**
+ * Nearest common aspect ratio label for a frame size
+ */
+export const getAspectRatioLabel = (width: number, height: number): string => {
+  if (!width || !height) return '';
+  const ratio = width / height;
+  const match = KNOWN_ASPECT_RATIOS.find(known => Math.abs(ratio - known.value) / known.value <= ASPECT_RATIO_TOLERANCE);
+  return match ? match.label : `${ratio.toFixed(2)}:1`;
+};
+
+/**
+ * Read technical metadata from an MP4/MOV file without loading the whole file
+ */
+export const probeVideoFile = async (file: File): Promise<VideoTechnicalMetadata> => {
+  let brand: string | null = null;
+  let parsed: ReturnType<typeof parseMovieHeader> = null;
+
+  try {
+    const boxes = await findTopLevelBoxes(file);
+    brand = boxes.brand;
+    parsed = boxes.moov ? parseMovieHeader(boxes.moov) : null;
+  } catch (error) {
+    console.warn('Failed to parse video header, falling back to the video element:', error);
+  }
+
+  const container = brand ? (brand === 'qt  ' ? 'mov' : 'mp4') : null;
+
+  if (parsed && parsed.durationSeconds > 0 && parsed.width > 0 && parsed.height > 0) {
+    return { ...parsed, container, aspectRatio: getAspectRatioLabel(parsed.width, parsed.height) };
+  }
+
+  const decoded = await readWithVideoElement(file);
+  return {
+    durationSeconds: decoded.durationSeconds,
+    width: decoded.width,
+    height: decoded.height,
+    aspectRatio: getAspectRatioLabel(decoded.width, decoded.height),
+    videoCodec: parsed?.videoCodec || null,
+    audioCodec: parsed?.audioCodec || null,
+    frameRate: parsed?.frameRate || null,
+    container
+  };
+};
+
+/**
+ * Running time as "m:ss"
+ */
+export const formatVideoDuration = (seconds: number): string => {
+  const total = Math.round(seconds);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
+
+/**
+ * Whole minutes for the form's duration field, rounded up so a 9:40 film is 10
+ */
+export const getDurationMinutes = (metadata: VideoTechnicalMetadata): number =>
+  Math.max(1, Math.ceil(metadata.durationSeconds / 60));
+
+export const getCodecLabel = (codec: string | null): string =>
+  codec ? VIDEO_CODEC_LABELS[codec] || codec : '';
+
+/**
+ * Check probed metadata against the category's rules
+ */
+export const validateVideoTechnical = (
+  metadata: VideoTechnicalMetadata,
+  category: VideoCategory
+): VideoValidationResult => {
+  const rules = VIDEO_TECHNICAL_RULES[category];
+  const issues: VideoValidationIssue[] = [];
+  const addIssue = (check: VideoCheck, severity: VideoValidationIssue['severity'], en: string, th: string) => {
+    issues.push({ check, severity, message: { en, th } });
+  };
+
+  const duration = formatVideoDuration(metadata.durationSeconds);
+  if (metadata.durationSeconds < DURATION_LIMITS.min * 60) {
+    addIssue(
+      'duration',
+      rules.duration,
+      `Film runs ${duration}, shorter than the ${DURATION_LIMITS.min} minute minimum`,
+      `ภาพยนตร์มีความยาว ${duration} น้อยกว่าขั้นต่ำ ${DURATION_LIMITS.min} นาที`
+    );
+  } else if (metadata.durationSeconds > DURATION_LIMITS.max * 60) {
+    addIssue(
+      'duration',
+      rules.duration,
+      `Film runs ${duration}, longer than the ${DURATION_LIMITS.max} minute maximum`,
+      `ภาพยนตร์มีความยาว ${duration} เกินกว่าสูงสุด ${DURATION_LIMITS.max} นาที`
+    );
+  }
+
+  // Compare the long and short sides so portrait frames are judged the same way
+  const longSide = Math.max(metadata.width, metadata.height);
+  const shortSide = Math.min(metadata.width, metadata.height);
+  const { width: minWidth, height: minHeight } = rules.minResolution;
+  if (longSide < minWidth || shortSide < minHeight) {
+    addIssue(
+      'resolution',
+      rules.resolution,
+      `Resolution ${metadata.width}×${metadata.height} is below the recommended ${minWidth}×${minHeight}`,
+      `ความละเอียด ${metadata.width}×${metadata.height} ต่ำกว่าที่แนะนำ ${minWidth}×${minHeight}`
+    );
+  }
+
+  if (metadata.aspectRatio && !VIDEO_ASPECT_RATIOS.includes(metadata.aspectRatio)) {
+    addIssue(
+      'aspectRatio',
+      rules.aspectRatio,
+      `Aspect ratio ${metadata.aspectRatio} is unusual for festival screening`,
+      `อัตราส่วนภาพ ${metadata.aspectRatio} ไม่ใช่อัตราส่วนมาตรฐานสำหรับการฉาย`
+    );
+  }
+
+  if (metadata.videoCodec && !VIDEO_PREFERRED_CODECS.includes(metadata.videoCodec)) {
+    const codec = getCodecLabel(metadata.videoCodec);
+    addIssue(
+      'codec',
+      rules.codec,
+      `Video codec ${codec} may not play in every browser; H.264 is recommended`,
+      `รหัสวิดีโอ ${codec} อาจเล่นไม่ได้ในบางเบราว์เซอร์ แนะนำให้ใช้ H.264`
+    );
+  }
+
+  return {
+    metadata,
+    errors: issues.filter(issue => issue.severity === 'error'),
+    warnings: issues.filter(issue => issue.severity === 'warning')
+  };
+};
+
+/**
+ * Every rule the film breaks, errors first, for showing stored metadata to reviewers
+ */
+export const listVideoIssues = (metadata: VideoTechnicalMetadata, category: VideoCategory): VideoValidationIssue[] => {
+  const result = validateVideoTechnical(metadata, category);
+  return [...result.errors, ...result.warnings];
+};
+
+/**
+ * Probe a film file and check it; a file that cannot be read gets a warning
+ * rather than an error, since reviewers can still check it by hand
+ */
+export const probeAndValidateVideo = async (file: File, category: VideoCategory): Promise<VideoValidationResult> => {
+  try {
+    const metadata = await probeVideoFile(file);
+    return validateVideoTechnical(metadata, category);
+  } catch (error) {
+    console.warn('Failed to read video metadata:', error);
+    return {
+      metadata: null,
+      errors: [],
+      warnings: [{
+        check: 'unreadable',
+        severity: 'warning',
+        message: {
+          en: 'The film file could not be read in this browser, so its duration and resolution were not checked',
+          th: 'ไม่สามารถอ่านไฟล์ภาพยนตร์ในเบราว์เซอร์นี้ได้ จึงไม่ได้ตรวจสอบความยาวและความละเอียด'
+        }
+      }]
+    };
+  }
+};
@@ -0,0 +1,21 @@
+/**
+ * Utility functions for splitting text into words, including Thai, which is
+ * written without spaces between words
+ */
+
+type WordSegmenter = {
+  segment: (text: string) => Iterable<{ segment: string; index: number }>;
+};
+type WordSegmenterConstructor = new (locale: string, options: { granularity: 'word' }) => WordSegmenter;
+
+// Intl.Segmenter is newer than the ES2020 lib this project compiles against
+const Segmenter = (Intl as unknown as { Segmenter?: WordSegmenterConstructor }).Segmenter;
+
+/**
+ * Splits Thai runs at dictionary word boundaries (and other scripts at spaces
+ * and punctuation). Null where the runtime has no Intl.Segmenter, in which
+ * case callers can only split at spaces.
+ */
+export const thaiWordSegmenter: WordSegmenter | null = Segmenter
+  ? new Segmenter('th', { granularity: 'word' })
+  : null;
@@ -0,0 +1,214 @@
+import { strToU8, zipSync } from 'fflate';
+
+/**
+ * Utility functions for writing Office Open XML (.xlsx) workbooks in the
+ * browser. Text is stored as inline UTF-8 strings, so Thai survives intact.
+ */
+
+export type XlsxCellValue = string | number | boolean | Date | null | undefined;
+
+export interface XlsxColumn {
+  header: string;
+  width?: number; // In characters; sized from the content when omitted
+  format?: 'date' | 'datetime' | 'decimal' | 'wrap';
+}
+
+export interface XlsxSheet {
+  name: string;
+  columns: XlsxColumn[];
+  rows: XlsxCellValue[][];
+}
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// Indexes into cellXfs in STYLES_XML
+const STYLE = {
+  header: 1,
+  date: 2,
+  datetime: 3,
+  decimal: 4,
+  wrap: 5
+};
+
+const MIN_COLUMN_WIDTH = 8;
+const MAX_COLUMN_WIDTH = 60;
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<numFmts count="3"><numFmt numFmtId="164" formatCode="yyyy-mm-dd"/><numFmt numFmtId="165" formatCode="yyyy-mm-dd hh:mm"/><numFmt numFmtId="166" formatCode="0.0"/></numFmts>
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/><family val="2"/></font><font><b/><sz val="11"/><name val="Calibri"/><family val="2"/></font></fonts>
+<fills count="3"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill><fill><patternFill patternType="solid"><fgColor rgb="FFFCE4D6"/><bgColor indexed="64"/></patternFill></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="6">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+<xf numFmtId="0" fontId="1" fillId="2" borderId="0" xfId="0" applyFont="1" applyFill="1"/>
+<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="166" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0" applyAlignment="1"><alignment wrapText="1" vertical="top"/></xf>
+</cellXfs>
+<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>
+</styleSheet>`;
+
+// XML 1.0 does not allow control characters other than tab and newlines, even escaped
+const isValidXmlChar = (char: string): boolean => {
+  const code = char.charCodeAt(0);
+  if (code < 0x20) return code === 0x09 || code === 0x0A || code === 0x0D;
+  return code !== 0xFFFE && code !== 0xFFFF;
+};
+
+const escapeXml = (value: string): string =>
+  Array.from(value).filter(isValidXmlChar).join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * Column letters for a zero-based index: 0 -> "A", 26 -> "AA"
+ */
+export const getColumnLetter = (index: number): string => {
+  let letters = '';
+  let n = index + 1;
+  while (n > 0) {
+    const remainder = (n - 1) % 26;
+    letters = String.fromCharCode(65 + remainder) + letters;
+    n = Math.floor((n - 1) / 26);
+  }
+  return letters;
+};
+
+// Excel stores dates as days since 1899-12-30 in local time
+const toExcelDate = (date: Date): number =>
+  (date.getTime() - date.getTimezoneOffset() * 60000) / 86400000 + 25569;
+
+/**
+ * Sheet names are limited to 31 characters and may not contain []:*?/\
+ */
+export const toSheetName = (name: string): string =>
+  name.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31) || 'Sheet';
+
+const renderCell = (value: XlsxCellValue, ref: string, column?: XlsxColumn): string => {
+  if (value === null || value === undefined || value === '') return '';
+
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) return '';
+    const style = column?.format === 'datetime' ? STYLE.datetime : STYLE.date;
+    return `<c r="${ref}" s="${style}"><v>${toExcelDate(value)}</v></c>`;
+  }
+  if (typeof value === 'number') {
+    if (!isFinite(value)) return '';
+    const style = column?.format === 'decimal' ? ` s="${STYLE.decimal}"` : '';
+    return `<c r="${ref}"${style}><v>${value}</v></c>`;
+  }
+  if (typeof value === 'boolean') {
+    return `<c r="${ref}" t="b"><v>${value ? 1 : 0}</v></c>`;
+  }
+
+  const style = column?.format === 'wrap' ? ` s="${STYLE.wrap}"` : '';
+  return `<c r="${ref}" t="inlineStr"${style}><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+};
+
+const getDisplayLength = (value: XlsxCellValue, column: XlsxColumn): number => {
+  if (value instanceof Date) return column.format === 'datetime' ? 16 : 10;
+  if (value === null || value === undefined) return 0;
+  // Wrapped text only needs to be wide enough to read, not to fit on one line
+  const longestLine = Math.max(...String(value).split('\n').map(line => line.length));
+  return column.format === 'wrap' ? Math.min(longestLine, 40) : longestLine;
+};
+
+const renderSheet = (sheet: XlsxSheet): string => {
+  const lastColumn = getColumnLetter(Math.max(sheet.columns.length - 1, 0));
+  const lastRow = sheet.rows.length + 1;
+
+  const cols = sheet.columns.map((column, index) => {
+    const contentWidth = Math.max(
+      column.header.length,
+      ...sheet.rows.map(row => getDisplayLength(row[index], column))
+    ) + 2;
+    const width = column.width || Math.min(MAX_COLUMN_WIDTH, Math.max(MIN_COLUMN_WIDTH, contentWidth));
+    return `<col min="${index + 1}" max="${index + 1}" width="${width}" customWidth="1"/>`;
+  }).join('');
+
+  const headerRow = `<row r="1">${sheet.columns.map((column, index) =>
+    `<c r="${getColumnLetter(index)}1" t="inlineStr" s="${STYLE.header}"><is><t xml:space="preserve">${escapeXml(column.header)}</t></is></c>`
+  ).join('')}</row>`;
+
+  const dataRows = sheet.rows.map((row, rowIndex) => {
+    const rowNumber = rowIndex + 2;
+    const cells = row.map((value, index) =>
+      renderCell(value, `${getColumnLetter(index)}${rowNumber}`, sheet.columns[index])
+    ).join('');
+    return `<row r="${rowNumber}">${cells}</row>`;
+  }).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/><selection pane="bottomLeft" activeCell="A2" sqref="A2"/></sheetView></sheetViews>
+<sheetFormatPr defaultRowHeight="15"/>
+${cols ? `<cols>${cols}</cols>` : ''}
+<sheetData>${headerRow}${dataRows}</sheetData>
+<autoFilter ref="A1:${lastColumn}${lastRow}"/>
+</worksheet>`;
+};
+
+/**
+ * A zipped .xlsx workbook with one worksheet per sheet. Every sheet gets a
+ * bold frozen header row and an autofilter over its data.
+ */
+export const buildXlsxWorkbook = (sheets: XlsxSheet[]): Uint8Array => {
+  const names = sheets.map(sheet => toSheetName(sheet.name));
+
+  const contentTypes = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+${sheets.map((_, index) => `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('\n')}
+</Types>`;
+
+  const rootRels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`;
+
+  // Excel expects a hidden _FilterDatabase name for each autofilter range
+  const definedNames = sheets.map((sheet, index) => {
+    const lastColumn = getColumnLetter(Math.max(sheet.columns.length - 1, 0));
+    const sheetRef = `'${names[index].replace(/'/g, "''")}'`;
+    return `<definedName name="_xlnm._FilterDatabase" localSheetId="${index}" hidden="1">${escapeXml(sheetRef)}!$A$1:$${lastColumn}$${sheet.rows.length + 1}</definedName>`;
+  }).join('');
+
+  const workbook = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets>${names.map((name, index) => `<sheet name="${escapeXml(name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`).join('')}</sheets>
+<definedNames>${definedNames}</definedNames>
+</workbook>`;
+
+  const workbookRels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+${sheets.map((_, index) => `<Relationship Id="rId${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`).join('\n')}
+<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`;
+
+  const files: Record<string, Uint8Array> = {
+    '[Content_Types].xml': strToU8(contentTypes),
+    '_rels/.rels': strToU8(rootRels),
+    'xl/workbook.xml': strToU8(workbook),
+    'xl/_rels/workbook.xml.rels': strToU8(workbookRels),
+    'xl/styles.xml': strToU8(STYLES_XML)
+  };
+  sheets.forEach((sheet, index) => {
+    files[`xl/worksheets/sheet${index + 1}.xml`] = strToU8(renderSheet(sheet));
+  });
+
+  return zipSync(files, { level: 6 });
+};
+
+/**
+ * Workbook as a Blob, ready for saveAs
+ */
+export const createXlsxBlob = (sheets: XlsxSheet[]): Blob =>
+  new Blob([buildXlsxWorkbook(sheets)], { type: XLSX_MIME_TYPE });